@@ -22,6 +22,20 @@ const supabase = createClient(supabaseUrl, supabaseServiceKey, {
   }
 });
 
+// Admin panel access comes from the admin_users table, not user metadata
+async function grantSuperAdmin(email, name) {
+  const { error } = await supabase
+    .from('admin_users')
+    .upsert({ email: email.toLowerCase(), name, role: 'super_admin' }, { onConflict: 'email' });
+
+  if (error) {
+    console.error('❌ Error granting the super_admin role:', error.message);
+    console.error('Run migrations/add_admin_roles.sql first.');
+    process.exit(1);
+  }
+  console.log('✅ Granted the super_admin role in admin_users');
+}
+
 async function createAdminUser() {
   try {
     // Get email and password from command line arguments or use defaults
@@ -57,6 +71,7 @@ async function createAdminUser() {
         console.log('1. Use Supabase Dashboard to reset it');
         console.log('2. Or delete the user and run this script again');
         console.log('\nYou can still login with the existing credentials.');
+        await grantSuperAdmin(email, name);
         process.exit(0);
       }
       console.error('❌ Error creating user:', error.message);
@@ -65,12 +80,13 @@ async function createAdminUser() {
 
     if (data && data.user) {
       console.log('Debug: User creation successful, user ID:', data.user.id);
+      await grantSuperAdmin(email, name);
       console.log('✅ Admin user created successfully!\n');
       console.log('User Details:');
       console.log('  ID:', data.user.id);
       console.log('  Email:', data.user.email);
       console.log('  Name:', data.user.user_metadata?.name || name);
-      console.log('  Role:', data.user.user_metadata?.role || 'admin');
+      console.log('  Role: super_admin');
       console.log('  Email Confirmed: Yes\n');
       console.log('📝 Login Credentials:');
       console.log('  Email:', email);
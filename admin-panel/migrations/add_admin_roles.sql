@@ -0,0 +1,27 @@
+-- Admin Roles Migration
+-- admin_users becomes the source of truth for admin panel access. Each row
+-- grants a Supabase account (matched on email) one role: super_admin, editor,
+-- content_reviewer or support. See src/lib/permissions.ts for what each allows.
+
+-- Sign-in is handled by Supabase; the password column is legacy
+ALTER TABLE admin_users ALTER COLUMN password DROP NOT NULL;
+ALTER TABLE admin_users ALTER COLUMN role SET DEFAULT 'editor';
+ALTER TABLE admin_users ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP DEFAULT NOW() NOT NULL;
+
+-- Every account was a full admin before roles existed
+UPDATE admin_users SET role = 'super_admin' WHERE role = 'admin';
+UPDATE admin_users SET email = LOWER(email);
+
+-- Admins who only had user_metadata.role = 'admin' are not imported: any user
+-- can set their own metadata. List the real admins' emails below before running,
+-- or grant them afterwards with `node create-admin-user.js <email>`.
+INSERT INTO admin_users (email, name, role)
+SELECT
+    LOWER(email),
+    COALESCE(raw_user_meta_data->>'name', raw_user_meta_data->>'full_name', SPLIT_PART(email, '@', 1)),
+    'super_admin'
+FROM auth.users
+WHERE LOWER(email) = ANY (ARRAY[
+    -- 'admin@example.com'
+]::TEXT[])
+ON CONFLICT (email) DO NOTHING;
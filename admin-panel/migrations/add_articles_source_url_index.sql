@@ -0,0 +1,5 @@
+-- Articles Source URL Index Migration
+-- Speeds up the duplicate check done by the daily PIB / The Hindu ingestion
+
+CREATE INDEX IF NOT EXISTS idx_articles_source_url ON articles(source_url);
+CREATE INDEX IF NOT EXISTS idx_articles_is_published ON articles(is_published, created_at DESC);
@@ -0,0 +1,7 @@
+-- Essay Answer Evaluation Link Migration
+-- Handwritten answers evaluated by /api/mobile/essay/evaluate are saved to essays
+-- like typed ones, so they show in the essay history. The page-level result stays
+-- in answer_evaluations (create_answer_evaluations.sql) and is linked from here.
+
+ALTER TABLE essays ADD COLUMN IF NOT EXISTS answer_evaluation_id INTEGER
+    REFERENCES answer_evaluations(id) ON DELETE SET NULL;
@@ -0,0 +1,8 @@
+-- Essay Source Migration
+-- Lets essays (01_essay_schema.sql) hold model essays from /api/mobile/essay/generate
+-- next to evaluated attempts, so history and score trends can tell them apart
+
+ALTER TABLE essays ADD COLUMN IF NOT EXISTS source VARCHAR(20) NOT NULL DEFAULT 'attempt';
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_essays_user_source ON essays(user_id, source, created_at DESC);
@@ -0,0 +1,16 @@
+-- Notes Sync Migration
+-- Lets the app sync its offline notes: client_id maps a device note to its
+-- server row, version detects edits made on another device, and deleted_at
+-- keeps a tombstone so deletes reach every device.
+
+ALTER TABLE notes ADD COLUMN IF NOT EXISTS client_id VARCHAR(64);
+ALTER TABLE notes ADD COLUMN IF NOT EXISTS source_type VARCHAR(30);
+ALTER TABLE notes ADD COLUMN IF NOT EXISTS source_url TEXT;
+ALTER TABLE notes ADD COLUMN IF NOT EXISTS summary TEXT;
+ALTER TABLE notes ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE notes ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+
+CREATE UNIQUE INDEX IF NOT EXISTS notes_user_client_id_idx ON notes(user_id, client_id);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_notes_user_updated_at ON notes(user_id, updated_at);
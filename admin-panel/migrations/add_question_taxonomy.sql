@@ -0,0 +1,14 @@
+-- Question Taxonomy Migration
+-- PYQ subject, year, roadmap topic, difficulty and source on practice questions
+
+ALTER TABLE practice_questions ADD COLUMN IF NOT EXISTS subject VARCHAR(100);
+ALTER TABLE practice_questions ADD COLUMN IF NOT EXISTS topic_id INTEGER REFERENCES roadmap_topics(id) ON DELETE SET NULL;
+ALTER TABLE practice_questions ADD COLUMN IF NOT EXISTS year INTEGER;
+ALTER TABLE practice_questions ADD COLUMN IF NOT EXISTS difficulty VARCHAR(20);
+ALTER TABLE practice_questions ADD COLUMN IF NOT EXISTS source VARCHAR(50);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_practice_questions_subject ON practice_questions(subject);
+CREATE INDEX IF NOT EXISTS idx_practice_questions_topic_id ON practice_questions(topic_id);
+CREATE INDEX IF NOT EXISTS idx_practice_questions_year ON practice_questions(year DESC);
+CREATE INDEX IF NOT EXISTS idx_practice_questions_source ON practice_questions(source);
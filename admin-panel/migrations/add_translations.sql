@@ -0,0 +1,11 @@
+-- Bilingual Content Migration
+-- Adds per-language translation overrides (currently Hindi) to content tables.
+-- Shape: { "hi": { "title": "...", ..., "status": "draft" | "reviewed" } }
+
+ALTER TABLE articles ADD COLUMN IF NOT EXISTS translations JSONB DEFAULT '{}'::jsonb;
+ALTER TABLE article_mcqs ADD COLUMN IF NOT EXISTS translations JSONB DEFAULT '{}'::jsonb;
+ALTER TABLE practice_questions ADD COLUMN IF NOT EXISTS translations JSONB DEFAULT '{}'::jsonb;
+ALTER TABLE visual_references ADD COLUMN IF NOT EXISTS translations JSONB DEFAULT '{}'::jsonb;
+
+-- Lets the admin panel list articles still waiting for a reviewed Hindi version
+CREATE INDEX IF NOT EXISTS idx_articles_hi_status ON articles ((translations->'hi'->>'status'));
@@ -0,0 +1,24 @@
+-- Answer Evaluations Table Migration
+-- Persisted rubric evaluations of handwritten Mains answers and essays
+
+CREATE TABLE IF NOT EXISTS answer_evaluations (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    question TEXT NOT NULL,
+    marks INTEGER NOT NULL,
+    word_limit INTEGER NOT NULL,
+    page_count INTEGER NOT NULL,
+    pages JSONB NOT NULL,
+    word_count INTEGER NOT NULL,
+    rubric JSONB NOT NULL,
+    score REAL NOT NULL,
+    keywords_used JSONB DEFAULT '[]',
+    keywords_missed JSONB DEFAULT '[]',
+    examiner_remark TEXT,
+    improvement_plan JSONB DEFAULT '[]',
+    model VARCHAR(100),
+    created_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_answer_evaluations_user_id ON answer_evaluations(user_id, created_at DESC);
@@ -0,0 +1,40 @@
+-- Billing & Credits Tables Migration
+-- Subscriptions and the credit ledger, written by the DodoPayments webhook and
+-- debited server-side by metered AI routes (see lib/credits.ts).
+-- Safe to run on projects where these tables already exist.
+
+CREATE TABLE IF NOT EXISTS user_subscriptions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id TEXT NOT NULL UNIQUE,
+    plan_type VARCHAR(20) NOT NULL DEFAULT 'free',
+    status VARCHAR(20) NOT NULL DEFAULT 'active',
+    price_inr INTEGER DEFAULT 0,
+    monthly_credits INTEGER DEFAULT 0,
+    current_credits INTEGER NOT NULL DEFAULT 0,
+    dodo_subscription_id TEXT,
+    dodo_customer_id TEXT,
+    started_at TIMESTAMP,
+    expires_at TIMESTAMP,
+    cancelled_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS credit_transactions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id TEXT NOT NULL,
+    transaction_type VARCHAR(30) NOT NULL,
+    credits INTEGER NOT NULL,
+    balance_after INTEGER NOT NULL,
+    feature_used VARCHAR(50),
+    description TEXT,
+    dodo_payment_id TEXT,
+    created_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+-- Balances can never go negative, even with concurrent debits
+ALTER TABLE user_subscriptions DROP CONSTRAINT IF EXISTS user_subscriptions_credits_non_negative;
+ALTER TABLE user_subscriptions ADD CONSTRAINT user_subscriptions_credits_non_negative CHECK (current_credits >= 0);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_credit_transactions_user_id ON credit_transactions(user_id, created_at DESC);
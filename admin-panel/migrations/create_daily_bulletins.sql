@@ -0,0 +1,18 @@
+-- Daily Bulletins Table Migration
+-- 10-bullet current-affairs digest per day, generated from published articles and edited before publishing
+
+CREATE TABLE IF NOT EXISTS daily_bulletins (
+    id SERIAL PRIMARY KEY,
+    bulletin_date DATE NOT NULL UNIQUE,
+    items JSONB NOT NULL DEFAULT '[]',
+    article_count INTEGER NOT NULL DEFAULT 0,
+    status VARCHAR(20) NOT NULL DEFAULT 'draft',
+    model VARCHAR(100),
+    generated_at TIMESTAMP,
+    published_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_daily_bulletins_status_date ON daily_bulletins(status, bulletin_date DESC);
@@ -0,0 +1,43 @@
+-- Mains Answer Writing Migration
+-- Admin-curated daily Mains question per GS paper, and each user's evaluated attempt
+
+CREATE TABLE IF NOT EXISTS mains_questions (
+    id SERIAL PRIMARY KEY,
+    question_date DATE NOT NULL,
+    gs_paper VARCHAR(10) NOT NULL,
+    question TEXT NOT NULL,
+    directive VARCHAR(30) NOT NULL,
+    marks INTEGER NOT NULL DEFAULT 10,
+    word_limit INTEGER NOT NULL,
+    model_answer TEXT NOT NULL DEFAULT '',
+    key_points JSONB NOT NULL DEFAULT '[]',
+    status VARCHAR(20) NOT NULL DEFAULT 'draft',
+    published_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS mains_answers (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    question_id INTEGER NOT NULL REFERENCES mains_questions(id) ON DELETE CASCADE,
+    answer_text TEXT NOT NULL,
+    word_count INTEGER NOT NULL,
+    time_taken_seconds INTEGER,
+    rubric JSONB NOT NULL,
+    score REAL NOT NULL,
+    directive_addressed BOOLEAN NOT NULL DEFAULT FALSE,
+    directive_feedback TEXT,
+    key_points_covered JSONB DEFAULT '[]',
+    key_points_missed JSONB DEFAULT '[]',
+    examiner_remark TEXT,
+    improvement_plan JSONB DEFAULT '[]',
+    model VARCHAR(100),
+    created_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+-- Create indexes for better performance
+CREATE UNIQUE INDEX IF NOT EXISTS mains_questions_date_gs_paper_idx ON mains_questions(question_date, gs_paper);
+CREATE INDEX IF NOT EXISTS idx_mains_questions_status_date ON mains_questions(status, question_date DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS mains_answers_user_question_idx ON mains_answers(user_id, question_id);
+CREATE INDEX IF NOT EXISTS idx_mains_answers_user_id ON mains_answers(user_id, created_at DESC);
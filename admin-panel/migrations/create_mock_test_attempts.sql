@@ -0,0 +1,25 @@
+-- Mock Test Attempts Table Migration
+-- Timed full-length Prelims papers with UPSC negative marking, stored server-side
+
+CREATE TABLE IF NOT EXISTS mock_test_attempts (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    question_set_id INTEGER REFERENCES question_sets(id) ON DELETE SET NULL,
+    question_ids JSONB NOT NULL,
+    answers JSONB NOT NULL DEFAULT '{}',
+    marked_for_review JSONB NOT NULL DEFAULT '[]',
+    status VARCHAR(20) NOT NULL DEFAULT 'in_progress',
+    duration_seconds INTEGER NOT NULL,
+    started_at TIMESTAMP DEFAULT NOW() NOT NULL,
+    submitted_at TIMESTAMP,
+    correct_count INTEGER,
+    incorrect_count INTEGER,
+    unattempted_count INTEGER,
+    score REAL,
+    max_score REAL,
+    subject_breakdown JSONB,
+    updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_mock_test_attempts_user_id ON mock_test_attempts(user_id, started_at DESC);
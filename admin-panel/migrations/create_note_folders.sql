@@ -0,0 +1,26 @@
+-- Note Folders Migration
+-- Folder hierarchy for notes (notes.folder_id already exists but pointed nowhere)
+
+-- Note Folders Table (parent_id NULL = top-level folder)
+CREATE TABLE IF NOT EXISTS note_folders (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    parent_id INTEGER REFERENCES note_folders(id) ON DELETE CASCADE,
+    name VARCHAR(200) NOT NULL,
+    color VARCHAR(20),
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+-- Notes in a deleted folder fall back to "no folder"
+UPDATE notes SET folder_id = NULL
+WHERE folder_id IS NOT NULL AND folder_id NOT IN (SELECT id FROM note_folders);
+
+ALTER TABLE notes DROP CONSTRAINT IF EXISTS notes_folder_id_note_folders_id_fk;
+ALTER TABLE notes ADD CONSTRAINT notes_folder_id_note_folders_id_fk
+    FOREIGN KEY (folder_id) REFERENCES note_folders(id) ON DELETE SET NULL;
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_note_folders_user_parent ON note_folders(user_id, parent_id);
+CREATE INDEX IF NOT EXISTS idx_notes_folder_id ON notes(folder_id);
@@ -0,0 +1,43 @@
+-- Pricing Config Table Migration
+-- Single source of truth for feature credit costs, subscription plans and credit packs.
+-- Read by the metered AI routes, the DodoPayments webhook and the app's billing screen.
+
+CREATE TABLE IF NOT EXISTS pricing_config (
+    id SERIAL PRIMARY KEY,
+    kind VARCHAR(20) NOT NULL,
+    key VARCHAR(50) NOT NULL,
+    name VARCHAR(100) NOT NULL,
+    credits INTEGER NOT NULL,
+    price_inr INTEGER,
+    dodo_product_id VARCHAR(100) UNIQUE,
+    details JSONB DEFAULT '{}',
+    is_active BOOLEAN DEFAULT TRUE NOT NULL,
+    sort_order INTEGER DEFAULT 0 NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS pricing_config_kind_key_idx ON pricing_config(kind, key);
+
+-- Seed with the prices that were previously hard-coded in the app and webhook
+INSERT INTO pricing_config (kind, key, name, credits, price_inr, dodo_product_id, details, sort_order) VALUES
+    ('feature', 'summary', 'AI Summary', 1, NULL, NULL, '{}', 1),
+    ('feature', 'mind_map', 'Mind Map', 2, NULL, NULL, '{}', 2),
+    ('feature', 'mcq_generator', 'MCQ Generator', 3, NULL, NULL, '{}', 3),
+    ('feature', 'pdf_mcq', 'PDF to MCQ', 5, NULL, NULL, '{}', 4),
+    ('feature', 'essay_evaluation', 'Essay Evaluation', 3, NULL, NULL, '{}', 5),
+    ('feature', 'essay_generation', 'Model Essay', 3, NULL, NULL, '{}', 6),
+    ('plan', 'basic', 'Basic', 200, 399, 'pdt_0NWfLOSWmnFywSwZldAHa',
+        '{"perks": ["200 AI credits per month", "All AI features included", "Cancel anytime"]}', 1),
+    ('plan', 'pro', 'Pro', 400, 699, 'pdt_0NWfLU5OfjnVhmPz86wWZ',
+        '{"perks": ["400 AI credits per month", "Priority processing", "Premium support"], "badge": "MOST POPULAR"}', 2),
+    ('credit_pack', 'credits_50', '50 Credits', 50, 99, 'pdt_0NWfLXQfz6P34vDNgGT6J', '{}', 1),
+    ('credit_pack', 'credits_120', '120 Credits', 120, 199, 'pdt_0NWfLZHVYcwnA37B60iio', '{}', 2),
+    ('credit_pack', 'credits_300', '300 Credits', 300, 399, 'pdt_0NWfLbT49dqQm9bNqVVjS', '{}', 3),
+    ('credit_pack', 'credits_750', '750 Credits', 750, 699, 'pdt_0NWfNy0Q3SrufzdKZlE2G', '{"badge": "POPULAR"}', 4),
+    ('credit_pack', 'credits_1200', '1200 Credits', 1200, 999, 'pdt_0NWfO0TYn9murkxJ3FWbC', '{"badge": "BEST VALUE"}', 5),
+    ('credit_pack', 'credits_1999', '1999 Credits', 1999, 1499, 'pdt_0NWfO2IA7c8uoxbXKPkFP', '{"badge": "ULTIMATE"}', 6)
+ON CONFLICT DO NOTHING;
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_pricing_config_kind ON pricing_config(kind, sort_order);
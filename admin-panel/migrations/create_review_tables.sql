@@ -0,0 +1,38 @@
+-- Spaced Repetition Tables Migration
+-- Unified MCQ attempt log + SM-2 review queue for PDF, AI and article MCQs
+
+-- Review Items Table (one row per user per missed question)
+CREATE TABLE IF NOT EXISTS review_items (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    source VARCHAR(50) NOT NULL,
+    question_key VARCHAR(255) NOT NULL,
+    question JSONB NOT NULL,
+    ease_factor REAL NOT NULL DEFAULT 2.5,
+    interval_days INTEGER NOT NULL DEFAULT 0,
+    repetitions INTEGER NOT NULL DEFAULT 0,
+    lapses INTEGER NOT NULL DEFAULT 0,
+    due_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    last_reviewed_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+-- Question Attempts Table (every answer, correct or not)
+CREATE TABLE IF NOT EXISTS question_attempts (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    review_item_id INTEGER REFERENCES review_items(id) ON DELETE SET NULL,
+    source VARCHAR(50) NOT NULL,
+    question_key VARCHAR(255) NOT NULL,
+    session_id VARCHAR(100),
+    selected_answer VARCHAR(1) NOT NULL,
+    is_correct BOOLEAN NOT NULL,
+    time_taken_ms INTEGER,
+    answered_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+-- Create indexes for better performance
+CREATE UNIQUE INDEX IF NOT EXISTS review_items_user_source_key_idx ON review_items(user_id, source, question_key);
+CREATE INDEX IF NOT EXISTS idx_review_items_user_due ON review_items(user_id, due_at);
+CREATE INDEX IF NOT EXISTS idx_question_attempts_user_id ON question_attempts(user_id, answered_at);
@@ -0,0 +1,16 @@
+-- Study Plans Table Migration
+-- Adaptive daily study plan built from roadmap progress, shared across devices
+
+CREATE TABLE IF NOT EXISTS study_plans (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+    exam_date DATE NOT NULL,
+    daily_hours REAL NOT NULL,
+    days JSONB NOT NULL DEFAULT '[]',
+    completed_tasks JSONB NOT NULL DEFAULT '{}',
+    revision_log JSONB NOT NULL DEFAULT '{}',
+    replan_count INTEGER NOT NULL DEFAULT 0,
+    generated_at TIMESTAMP DEFAULT NOW() NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
@@ -0,0 +1,24 @@
+-- Study Sessions Table Migration
+-- Study time from the app's timer and from reading, note taking and MCQ tests,
+-- attributed to roadmap topics
+
+CREATE TABLE IF NOT EXISTS study_sessions (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    client_id VARCHAR(64) NOT NULL,
+    topic_id INTEGER REFERENCES roadmap_topics(id) ON DELETE SET NULL,
+    source VARCHAR(20) NOT NULL,
+    source_id VARCHAR(100),
+    title VARCHAR(500),
+    duration_seconds INTEGER NOT NULL,
+    study_date DATE NOT NULL,
+    started_at TIMESTAMP NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+-- A session queued offline may be sent more than once
+CREATE UNIQUE INDEX IF NOT EXISTS study_sessions_user_client_id_idx ON study_sessions(user_id, client_id);
+CREATE INDEX IF NOT EXISTS study_sessions_user_date_idx ON study_sessions(user_id, study_date);
+
+-- Tracked time is logged in minutes, so hours studied needs fractions
+ALTER TABLE user_topic_progress ALTER COLUMN hours_studied TYPE REAL;
@@ -0,0 +1,88 @@
+-- Webhook Events & Credit Ledger Migration
+-- webhook_events records every DodoPayments delivery once, keyed by its
+-- webhook-id, so retries and replays can never grant credits twice.
+-- credit_ledger is double-entry: every credit movement is two rows (the user's
+-- wallet and a counter account) that sum to zero, so balances can be audited
+-- against user_subscriptions.current_credits.
+
+CREATE TABLE IF NOT EXISTS webhook_events (
+    id TEXT PRIMARY KEY,
+    source VARCHAR(30) NOT NULL DEFAULT 'dodo',
+    event_type VARCHAR(60) NOT NULL,
+    payload JSONB NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'received',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    received_at TIMESTAMP DEFAULT NOW() NOT NULL,
+    processed_at TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS credit_ledger (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    entry_id UUID NOT NULL,
+    account VARCHAR(80) NOT NULL,
+    user_id TEXT NOT NULL,
+    amount INTEGER NOT NULL,
+    webhook_event_id TEXT REFERENCES webhook_events(id),
+    description TEXT,
+    created_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+-- An event can move credits into a wallet at most once
+CREATE UNIQUE INDEX IF NOT EXISTS credit_ledger_event_account_idx
+    ON credit_ledger(webhook_event_id, account)
+    WHERE webhook_event_id IS NOT NULL;
+
+-- Move credits into (positive) or out of (negative) a user's wallet and record
+-- the transaction and both ledger rows atomically. Returns the new balance.
+-- Calling it again for the same webhook event is a no-op.
+CREATE OR REPLACE FUNCTION post_credit_entry(
+    p_user_id TEXT,
+    p_credits INTEGER,
+    p_transaction_type TEXT,
+    p_counter_account TEXT,
+    p_description TEXT,
+    p_dodo_payment_id TEXT DEFAULT NULL,
+    p_webhook_event_id TEXT DEFAULT NULL,
+    p_feature TEXT DEFAULT NULL
+) RETURNS INTEGER AS $$
+DECLARE
+    wallet TEXT := 'user:' || p_user_id;
+    entry UUID := gen_random_uuid();
+    balance INTEGER;
+BEGIN
+    IF p_webhook_event_id IS NOT NULL AND EXISTS (
+        SELECT 1 FROM credit_ledger WHERE webhook_event_id = p_webhook_event_id AND account = wallet
+    ) THEN
+        SELECT current_credits INTO balance FROM user_subscriptions WHERE user_id = p_user_id;
+        RETURN COALESCE(balance, 0);
+    END IF;
+
+    UPDATE user_subscriptions
+    SET current_credits = current_credits + p_credits, updated_at = NOW()
+    WHERE user_id = p_user_id
+    RETURNING current_credits INTO balance;
+
+    IF NOT FOUND THEN
+        -- First purchase without a plan: start a free-tier wallet
+        INSERT INTO user_subscriptions (user_id, plan_type, status, current_credits)
+        VALUES (p_user_id, 'free', 'active', p_credits)
+        RETURNING current_credits INTO balance;
+    END IF;
+
+    INSERT INTO credit_transactions (user_id, transaction_type, credits, balance_after, feature_used, description, dodo_payment_id)
+    VALUES (p_user_id, p_transaction_type, p_credits, balance, p_feature, p_description, p_dodo_payment_id);
+
+    INSERT INTO credit_ledger (entry_id, account, user_id, amount, webhook_event_id, description)
+    VALUES
+        (entry, wallet, p_user_id, p_credits, p_webhook_event_id, p_description),
+        (entry, p_counter_account, p_user_id, -p_credits, p_webhook_event_id, p_description);
+
+    RETURN balance;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_webhook_events_status ON webhook_events(status, received_at DESC);
+CREATE INDEX IF NOT EXISTS idx_credit_ledger_account ON credit_ledger(account, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_credit_ledger_entry_id ON credit_ledger(entry_id);
@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { adminUsers } from '@/lib/db/schema';
+import { and, count, eq, ne } from 'drizzle-orm';
+import { AuthorizedAdmin, requirePermission } from '@/lib/auth';
+import { logActivity } from '@/lib/activity';
+import { ADMIN_ROLE_LABELS, isAdminRole } from '@/lib/permissions';
+
+type AdminRow = typeof adminUsers.$inferSelect;
+
+async function findAdmin(id: string): Promise<AdminRow | undefined> {
+    const adminId = parseInt(id);
+    if (Number.isNaN(adminId)) return undefined;
+
+    const [admin] = await db.select().from(adminUsers).where(eq(adminUsers.id, adminId));
+    return admin;
+}
+
+/**
+ * Why `admin`'s role may not be changed or removed, or null if it may. Admins
+ * cannot change their own role, and someone must always be able to assign roles.
+ */
+async function protectedReason(admin: AdminRow, user: AuthorizedAdmin): Promise<string | null> {
+    if (admin.email === user.email.toLowerCase()) {
+        return 'You cannot change or remove your own admin role';
+    }
+
+    if (admin.role !== 'super_admin') return null;
+
+    const [{ value }] = await db
+        .select({ value: count() })
+        .from(adminUsers)
+        .where(and(eq(adminUsers.role, 'super_admin'), ne(adminUsers.id, admin.id)));
+
+    return value === 0 ? 'At least one Super Admin is required' : null;
+}
+
+export async function PUT(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    const auth = await requirePermission(request, 'admins.manage');
+    if ('response' in auth) return auth.response;
+    const { user } = auth;
+
+    try {
+        const admin = await findAdmin(params.id);
+        if (!admin) {
+            return NextResponse.json({ error: 'Admin not found' }, { status: 404 });
+        }
+
+        const body = await request.json();
+        const { name, role } = body;
+
+        if (role !== undefined && !isAdminRole(role)) {
+            return NextResponse.json({ error: 'Unknown role' }, { status: 400 });
+        }
+
+        const updateData: Partial<typeof adminUsers.$inferInsert> = { updatedAt: new Date() };
+        if (typeof name === 'string' && name.trim()) updateData.name = name.trim();
+
+        if (role !== undefined && role !== admin.role) {
+            const reason = await protectedReason(admin, user);
+            if (reason) {
+                return NextResponse.json({ error: reason }, { status: 400 });
+            }
+            updateData.role = role;
+        }
+
+        const [updated] = await db
+            .update(adminUsers)
+            .set(updateData)
+            .where(eq(adminUsers.id, admin.id))
+            .returning({
+                id: adminUsers.id,
+                email: adminUsers.email,
+                name: adminUsers.name,
+                role: adminUsers.role,
+                createdAt: adminUsers.createdAt,
+                updatedAt: adminUsers.updatedAt,
+            });
+
+        if (updateData.role) {
+            await logActivity(
+                'admin_role_changed',
+                'admin',
+                admin.id,
+                `${admin.email} is now ${ADMIN_ROLE_LABELS[updateData.role]}`,
+                { changedBy: user.email, from: admin.role, to: updateData.role }
+            );
+        }
+
+        return NextResponse.json({ admin: updated });
+    } catch (error) {
+        console.error('Update admin error:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
+
+// Revokes admin access; the Supabase account itself is left alone
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    const auth = await requirePermission(request, 'admins.manage');
+    if ('response' in auth) return auth.response;
+    const { user } = auth;
+
+    try {
+        const admin = await findAdmin(params.id);
+        if (!admin) {
+            return NextResponse.json({ error: 'Admin not found' }, { status: 404 });
+        }
+
+        const reason = await protectedReason(admin, user);
+        if (reason) {
+            return NextResponse.json({ error: reason }, { status: 400 });
+        }
+
+        await db.delete(adminUsers).where(eq(adminUsers.id, admin.id));
+
+        await logActivity(
+            'admin_removed',
+            'admin',
+            admin.id,
+            `${admin.email} no longer has admin access`,
+            { removedBy: user.email, role: admin.role }
+        );
+
+        return NextResponse.json({ message: 'Admin access removed' });
+    } catch (error) {
+        console.error('Delete admin error:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
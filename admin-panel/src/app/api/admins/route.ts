@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { adminUsers } from '@/lib/db/schema';
+import { asc, eq } from 'drizzle-orm';
+import { requirePermission } from '@/lib/auth';
+import { logActivity } from '@/lib/activity';
+import { ADMIN_ROLE_LABELS, isAdminRole } from '@/lib/permissions';
+
+const adminColumns = {
+    id: adminUsers.id,
+    email: adminUsers.email,
+    name: adminUsers.name,
+    role: adminUsers.role,
+    createdAt: adminUsers.createdAt,
+    updatedAt: adminUsers.updatedAt,
+};
+
+export async function GET(request: NextRequest) {
+    const auth = await requirePermission(request, 'admins.manage');
+    if ('response' in auth) return auth.response;
+
+    try {
+        const admins = await db.select(adminColumns).from(adminUsers).orderBy(asc(adminUsers.email));
+
+        return NextResponse.json({ admins });
+    } catch (error) {
+        console.error('Get admins error:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
+
+// Grant a role to a Supabase account; the account signs in with its own password
+export async function POST(request: NextRequest) {
+    const auth = await requirePermission(request, 'admins.manage');
+    if ('response' in auth) return auth.response;
+    const { user } = auth;
+
+    try {
+        const body = await request.json();
+        const email = typeof body.email === 'string' ? body.email.trim().toLowerCase() : '';
+        const name = typeof body.name === 'string' && body.name.trim() ? body.name.trim() : email.split('@')[0];
+        const { role } = body;
+
+        if (!email || !email.includes('@')) {
+            return NextResponse.json({ error: 'A valid email is required' }, { status: 400 });
+        }
+
+        if (!isAdminRole(role)) {
+            return NextResponse.json({ error: 'Unknown role' }, { status: 400 });
+        }
+
+        const [existing] = await db.select({ id: adminUsers.id }).from(adminUsers).where(eq(adminUsers.email, email));
+        if (existing) {
+            return NextResponse.json({ error: 'This account already has an admin role' }, { status: 409 });
+        }
+
+        const [admin] = await db
+            .insert(adminUsers)
+            .values({ email, name, role })
+            .returning(adminColumns);
+
+        await logActivity(
+            'admin_added',
+            'admin',
+            admin.id,
+            `${admin.email} was made ${ADMIN_ROLE_LABELS[role]}`,
+            { grantedBy: user.email, role }
+        );
+
+        return NextResponse.json({ admin }, { status: 201 });
+    } catch (error) {
+        console.error('Create admin error:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
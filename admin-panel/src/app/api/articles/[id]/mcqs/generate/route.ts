@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyAuth } from '@/lib/auth';
+import { requirePermission } from '@/lib/auth';
 import { db } from '@/lib/db';
 import { articles, articleMcqs } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
@@ -248,10 +248,8 @@ export async function POST(
     request: NextRequest,
     { params }: { params: { id: string } }
 ) {
-    const user = await verifyAuth(request);
-    if (!user) {
-        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+    const auth = await requirePermission(request, 'content.edit');
+    if ('response' in auth) return auth.response;
 
     try {
         const articleId = parseInt(params.id);
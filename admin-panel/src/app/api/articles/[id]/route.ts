@@ -1,15 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase';
-import { verifyAuth } from '@/lib/auth';
+import { requirePermission } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
 
 export async function GET(
     request: NextRequest,
     { params }: { params: { id: string } }
 ) {
-    const user = await verifyAuth(request);
-    if (!user) {
-        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+    const auth = await requirePermission(request, 'content.view');
+    if ('response' in auth) return auth.response;
 
     try {
         const articleId = parseInt(params.id);
@@ -39,6 +38,7 @@ export async function GET(
             gsPaper: article.gs_paper,
             subject: article.subject,
             tags: article.tags,
+            translations: article.translations || {},
             isPublished: article.is_published,
             scrapedAt: article.scraped_at,
             createdAt: article.created_at,
@@ -56,10 +56,8 @@ export async function PUT(
     request: NextRequest,
     { params }: { params: { id: string } }
 ) {
-    const user = await verifyAuth(request);
-    if (!user) {
-        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+    const auth = await requirePermission(request, 'content.edit');
+    if ('response' in auth) return auth.response;
 
     try {
         const articleId = parseInt(params.id);
@@ -79,7 +77,9 @@ export async function PUT(
         if (gsPaper !== undefined) updateData.gs_paper = gsPaper;
         if (subject !== undefined) updateData.subject = subject;
         if (tags !== undefined) updateData.tags = tags;
-        if (isPublished !== undefined) updateData.is_published = isPublished;
+        if (isPublished !== undefined && hasPermission(auth.user.role, 'content.publish')) {
+            updateData.is_published = isPublished;
+        }
 
         const { data: updatedArticle, error } = await supabase
             .from('articles')
@@ -125,10 +125,8 @@ export async function DELETE(
     request: NextRequest,
     { params }: { params: { id: string } }
 ) {
-    const user = await verifyAuth(request);
-    if (!user) {
-        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+    const auth = await requirePermission(request, 'content.delete');
+    if ('response' in auth) return auth.response;
 
     try {
         const articleId = parseInt(params.id);
@@ -0,0 +1,177 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { forbidden, requirePermission } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
+import { db } from '@/lib/db';
+import { articles, articleMcqs, ArticleTranslation, McqTranslation, TranslationStatus } from '@/lib/db/schema';
+import { eq, asc } from 'drizzle-orm';
+import { translateContent } from '@/lib/translate';
+import { logActivity } from '@/lib/activity';
+
+// POST /api/articles/[id]/translate - Generate a draft Hindi version with AI
+export async function POST(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    const auth = await requirePermission(request, 'content.edit');
+    if ('response' in auth) return auth.response;
+
+    try {
+        const articleId = parseInt(params.id);
+
+        const [article] = await db
+            .select()
+            .from(articles)
+            .where(eq(articles.id, articleId));
+
+        if (!article) {
+            return NextResponse.json({ error: 'Article not found' }, { status: 404 });
+        }
+
+        const mcqs = await db
+            .select()
+            .from(articleMcqs)
+            .where(eq(articleMcqs.articleId, articleId))
+            .orderBy(asc(articleMcqs.id));
+
+        const translated = await translateContent({
+            title: article.title,
+            summary: article.summary || '',
+            content: article.content || [],
+            mcqs: mcqs.map(mcq => ({
+                question: mcq.question,
+                optionA: mcq.optionA,
+                optionB: mcq.optionB,
+                optionC: mcq.optionC,
+                optionD: mcq.optionD,
+                explanation: mcq.explanation || '',
+            })),
+        }, 'hi');
+
+        const now = new Date().toISOString();
+        const articleTranslation: ArticleTranslation = {
+            title: translated.title,
+            summary: translated.summary || undefined,
+            content: translated.content,
+            status: 'draft',
+            updatedAt: now,
+        };
+
+        await db
+            .update(articles)
+            .set({
+                translations: { ...(article.translations || {}), hi: articleTranslation },
+                updatedAt: new Date(),
+            })
+            .where(eq(articles.id, articleId));
+
+        const mcqTranslations: Array<{ id: number; hi: McqTranslation }> = [];
+        for (let i = 0; i < mcqs.length; i++) {
+            const mcq = mcqs[i];
+            const t = translated.mcqs?.[i];
+            if (!t) continue;
+
+            const hi: McqTranslation = { ...t, explanation: t.explanation || undefined, status: 'draft', updatedAt: now };
+            await db
+                .update(articleMcqs)
+                .set({ translations: { ...(mcq.translations || {}), hi }, updatedAt: new Date() })
+                .where(eq(articleMcqs.id, mcq.id));
+            mcqTranslations.push({ id: mcq.id, hi });
+        }
+
+        await logActivity('article_translated', 'article', articleId, `Hindi draft for "${article.title}" was generated`);
+
+        return NextResponse.json({ translation: articleTranslation, mcqs: mcqTranslations });
+    } catch (error: any) {
+        console.error('Translate article error:', error);
+        return NextResponse.json({ error: error.message || 'Internal server error' }, { status: 500 });
+    }
+}
+
+// PUT /api/articles/[id]/translate - Save editor changes and/or mark as reviewed
+export async function PUT(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    const auth = await requirePermission(request, 'content.edit');
+    if ('response' in auth) return auth.response;
+
+    try {
+        const articleId = parseInt(params.id);
+        const body = await request.json();
+        const { title, summary, content, status, mcqs = [] } = body as {
+            title?: string;
+            summary?: string;
+            content?: ArticleTranslation['content'];
+            status?: TranslationStatus;
+            mcqs?: Array<{ id: number } & Partial<McqTranslation>>;
+        };
+
+        const [article] = await db
+            .select()
+            .from(articles)
+            .where(eq(articles.id, articleId));
+
+        if (!article) {
+            return NextResponse.json({ error: 'Article not found' }, { status: 404 });
+        }
+
+        const existing = article.translations?.hi;
+        const nextStatus: TranslationStatus = status || existing?.status || 'draft';
+
+        // Marking a translation reviewed is a publish decision
+        if (nextStatus === 'reviewed' && existing?.status !== 'reviewed' && !hasPermission(auth.user.role, 'content.publish')) {
+            return forbidden('content.publish');
+        }
+        const now = new Date().toISOString();
+
+        const articleTranslation: ArticleTranslation = {
+            ...existing,
+            ...(title !== undefined && { title }),
+            ...(summary !== undefined && { summary }),
+            ...(content !== undefined && { content }),
+            status: nextStatus,
+            updatedAt: now,
+        };
+
+        await db
+            .update(articles)
+            .set({
+                translations: { ...(article.translations || {}), hi: articleTranslation },
+                updatedAt: new Date(),
+            })
+            .where(eq(articles.id, articleId));
+
+        // MCQ translations follow the article's review status
+        const articleMcqRows = await db
+            .select()
+            .from(articleMcqs)
+            .where(eq(articleMcqs.articleId, articleId));
+
+        for (const mcq of articleMcqRows) {
+            const edits = mcqs.find(m => m.id === mcq.id);
+            const current = mcq.translations?.hi;
+            if (!current && !edits) continue;
+
+            const { id: _id, ...fields } = edits || { id: mcq.id };
+            await db
+                .update(articleMcqs)
+                .set({
+                    translations: {
+                        ...(mcq.translations || {}),
+                        hi: { ...current, ...fields, status: nextStatus, updatedAt: now },
+                    },
+                    updatedAt: new Date(),
+                })
+                .where(eq(articleMcqs.id, mcq.id));
+        }
+
+        if (nextStatus === 'reviewed' && existing?.status !== 'reviewed') {
+            await logActivity('article_translation_reviewed', 'article', articleId, `Hindi version of "${article.title}" was approved`);
+        }
+
+        return NextResponse.json({ translation: articleTranslation });
+    } catch (error) {
+        console.error('Update translation error:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
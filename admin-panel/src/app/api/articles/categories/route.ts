@@ -1,21 +1,10 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { GS_PAPERS, SUBJECTS } from '@/lib/article-classifier';
+import { requirePermission } from '@/lib/auth';
 
-export async function GET() {
-    const gsPapers = ['GS1', 'GS2', 'GS3', 'GS4'];
-    const subjects = [
-        'Polity',
-        'Economy',
-        'Geography',
-        'History',
-        'Art & Culture',
-        'Science & Technology',
-        'Environment',
-        'International Relations',
-        'Social Issues',
-        'Ethics',
-        'Current Affairs',
-        'Other',
-    ];
-    return NextResponse.json({ gsPapers, subjects });
-}
+export async function GET(request: NextRequest) {
+    const auth = await requirePermission(request, 'content.view');
+    if ('response' in auth) return auth.response;
 
+    return NextResponse.json({ gsPapers: GS_PAPERS, subjects: SUBJECTS });
+}
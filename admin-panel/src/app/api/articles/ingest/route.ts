@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { runIngestion, IngestionReport, IngestionSourceId, INGESTION_SOURCES } from '@/lib/ingestion';
+import { logActivity } from '@/lib/activity';
+
+// Fetching and classifying a full day of feeds takes a while
+export const maxDuration = 300;
+
+async function logReports(reports: IngestionReport[], trigger: string) {
+    const inserted = reports.reduce((sum, r) => sum + r.inserted, 0);
+    await logActivity(
+        'articles_ingested',
+        'article',
+        null,
+        `${inserted} current-affairs article(s) queued for review (${trigger})`,
+        { reports }
+    );
+}
+
+// GET /api/articles/ingest - Scheduled run, authorised with CRON_SECRET
+export async function GET(request: NextRequest) {
+    const cronSecret = process.env.CRON_SECRET;
+    if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    try {
+        const reports = await runIngestion();
+        await logReports(reports, 'scheduled');
+        return NextResponse.json({ reports });
+    } catch (error) {
+        console.error('Scheduled ingestion error:', error);
+        return NextResponse.json({ error: 'Ingestion failed' }, { status: 500 });
+    }
+}
+
+// POST /api/articles/ingest - Manual run from the admin panel
+export async function POST(request: NextRequest) {
+    const auth = await requirePermission(request, 'content.edit');
+    if ('response' in auth) return auth.response;
+    const { user } = auth;
+
+    try {
+        const body = await request.json().catch(() => ({}));
+        const validIds = INGESTION_SOURCES.map(s => s.id);
+        const sources = Array.isArray(body.sources)
+            ? body.sources.filter((id: string): id is IngestionSourceId => validIds.includes(id as IngestionSourceId))
+            : undefined;
+
+        const reports = await runIngestion({
+            sources,
+            limitPerFeed: body.limitPerFeed ? parseInt(body.limitPerFeed) : undefined,
+        });
+        await logReports(reports, `manual by ${user.email}`);
+
+        return NextResponse.json({ reports });
+    } catch (error) {
+        console.error('Manual ingestion error:', error);
+        return NextResponse.json({ error: 'Ingestion failed' }, { status: 500 });
+    }
+}
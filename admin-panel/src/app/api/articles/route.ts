@@ -1,12 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase';
-import { verifyAuth } from '@/lib/auth';
+import { requirePermission } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
 
 export async function GET(request: NextRequest) {
-    const user = await verifyAuth(request);
-    if (!user) {
-        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+    const auth = await requirePermission(request, 'content.view');
+    if ('response' in auth) return auth.response;
 
     try {
         const { searchParams } = new URL(request.url);
@@ -85,10 +84,8 @@ export async function GET(request: NextRequest) {
 }
 
 export async function POST(request: NextRequest) {
-    const user = await verifyAuth(request);
-    if (!user) {
-        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+    const auth = await requirePermission(request, 'content.edit');
+    if ('response' in auth) return auth.response;
 
     try {
         const body = await request.json();
@@ -114,7 +111,8 @@ export async function POST(request: NextRequest) {
                 gs_paper: gsPaper || null,
                 subject: subject || null,
                 tags: tags || [],
-                is_published: isPublished || false,
+                // Without publish rights new articles start as drafts
+                is_published: !!isPublished && hasPermission(auth.user.role, 'content.publish'),
                 scraped_at: new Date().toISOString(),
             })
             .select()
@@ -1,103 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyAuth } from '@/lib/auth';
+import { requirePermission } from '@/lib/auth';
 import { OPENROUTER_API_KEY } from '@/lib/secure-config';
-
-// Simple HTML parser to extract content blocks
-function parseHtmlToBlocks(html: string): Array<{ type: string; content: string;[key: string]: any }> {
-    const blocks: Array<{ type: string; content: string;[key: string]: any }> = [];
-
-    let cleanHtml = html.replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, '');
-    cleanHtml = cleanHtml.replace(/<style\b[^<]*(?:(?!<\/style>)<[^<]*)*<\/style>/gi, '');
-
-    // Extract headings
-    const headingRegex = /<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi;
-    let match;
-    while ((match = headingRegex.exec(cleanHtml)) !== null) {
-        const level = parseInt(match[1]);
-        const content = match[2].replace(/<[^>]+>/g, '').trim();
-        if (content) {
-            blocks.push({ type: 'heading', level, content });
-        }
-    }
-
-    // Extract paragraphs
-    const paragraphRegex = /<p[^>]*>([\s\S]*?)<\/p>/gi;
-    while ((match = paragraphRegex.exec(cleanHtml)) !== null) {
-        const content = match[1].replace(/<[^>]+>/g, '').trim();
-        if (content && content.length > 20) {
-            blocks.push({ type: 'paragraph', content });
-        }
-    }
-
-    // Extract lists
-    const listRegex = /<(ul|ol)[^>]*>([\s\S]*?)<\/\1>/gi;
-    while ((match = listRegex.exec(cleanHtml)) !== null) {
-        const listType = match[1];
-        const listItems = match[2].match(/<li[^>]*>([\s\S]*?)<\/li>/gi) || [];
-        const items = listItems.map(item => item.replace(/<[^>]+>/g, '').trim()).filter(item => item);
-        if (items.length > 0) {
-            blocks.push({ type: listType === 'ol' ? 'ordered-list' : 'unordered-list', items, content: items.join(', ') });
-        }
-    }
-
-    // Extract blockquotes
-    const blockquoteRegex = /<blockquote[^>]*>([\s\S]*?)<\/blockquote>/gi;
-    while ((match = blockquoteRegex.exec(cleanHtml)) !== null) {
-        const content = match[1].replace(/<[^>]+>/g, '').trim();
-        if (content) {
-            blocks.push({ type: 'quote', content });
-        }
-    }
-
-    return blocks;
-}
-
-// Extract main content from HTML
-function extractMainContent(html: string): string {
-    let content = html;
-
-    const removePatterns = [
-        /<nav\b[^>]*>[\s\S]*?<\/nav>/gi,
-        /<header\b[^>]*>[\s\S]*?<\/header>/gi,
-        /<footer\b[^>]*>[\s\S]*?<\/footer>/gi,
-        /<aside\b[^>]*>[\s\S]*?<\/aside>/gi,
-        /<div[^>]*class="[^"]*(?:sidebar|advertisement|ads|comments|related|social|share)[^"]*"[^>]*>[\s\S]*?<\/div>/gi,
-        /<!--[\s\S]*?-->/g,
-    ];
-
-    for (const pattern of removePatterns) {
-        content = content.replace(pattern, '');
-    }
-
-    const articleMatch = content.match(/<article[^>]*>([\s\S]*?)<\/article>/i);
-    if (articleMatch) return articleMatch[1];
-
-    const mainMatch = content.match(/<main[^>]*>([\s\S]*?)<\/main>/i);
-    if (mainMatch) return mainMatch[1];
-
-    return content;
-}
-
-// Extract all text content from content blocks for RAG
-function extractTextContent(contentBlocks: Array<{ type: string; content: string;[key: string]: any }>): string {
-    const textParts: string[] = [];
-
-    for (const block of contentBlocks) {
-        if (block.type === 'heading' && block.content) {
-            textParts.push(block.content);
-        } else if (block.type === 'paragraph' && block.content) {
-            textParts.push(block.content);
-        } else if (block.type === 'quote' && block.content) {
-            textParts.push(block.content);
-        } else if ((block.type === 'unordered-list' || block.type === 'ordered-list') && block.items) {
-            textParts.push(block.items.join(' '));
-        } else if (block.content) {
-            textParts.push(block.content);
-        }
-    }
-
-    return textParts.join('\n\n');
-}
+import { parseHtmlToBlocks, extractMainContent, extractTextContent } from '@/lib/article-parser';
 
 // Call OpenRouter API to generate 15 bullet points
 async function generateParaphrasedSummary(articleText: string, title: string): Promise<string> {
@@ -180,10 +84,8 @@ Generate the 15 bullet points now:`
 }
 
 export async function POST(request: NextRequest) {
-    const user = await verifyAuth(request);
-    if (!user) {
-        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+    const auth = await requirePermission(request, 'content.edit');
+    if ('response' in auth) return auth.response;
 
     try {
         const { url } = await request.json();
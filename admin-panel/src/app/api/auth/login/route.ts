@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase';
+import { getAdminRole } from '@/lib/auth';
+import { ROLE_PERMISSIONS } from '@/lib/permissions';
 
 export async function POST(request: NextRequest) {
     try {
@@ -63,21 +65,31 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        // Only accounts listed in admin_users may use the panel
+        const role = await getAdminRole(sessionData.user.email!);
+        if (!role) {
+            console.log('Login refused, no admin role for:', email);
+            return NextResponse.json(
+                { error: 'This account does not have admin access' },
+                { status: 403 }
+            );
+        }
+
         // Get user info
         const userMetadata = sessionData.user.user_metadata || {};
-        const userRole = userMetadata.role || 'user';
         const user = {
             id: sessionData.user.id,
             email: sessionData.user.email!,
             name: userMetadata.name || userMetadata.full_name || sessionData.user.email?.split('@')[0] || 'Admin',
-            role: userRole,
+            role,
         };
 
         // Create response with user data and token
         const response = NextResponse.json({
             token: sessionData.session.access_token,
             refreshToken: sessionData.session.refresh_token,
-            user
+            user,
+            permissions: ROLE_PERMISSIONS[role],
         });
 
         // Set cookies for session management
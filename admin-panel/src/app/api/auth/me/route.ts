@@ -0,0 +1,13 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/auth';
+import { ROLE_PERMISSIONS } from '@/lib/permissions';
+
+// Signed-in admin with the permissions of their role; the dashboard builds its navigation from this
+export async function GET(request: NextRequest) {
+    const user = await verifyAuth(request);
+    if (!user) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    return NextResponse.json({ user, permissions: ROLE_PERMISSIONS[user.role] });
+}
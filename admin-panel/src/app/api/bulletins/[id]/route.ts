@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { forbidden, requirePermission } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
+import { db } from '@/lib/db';
+import { dailyBulletins, BulletinStatus } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { getBulletinArticles, normalizeBulletinItems, MAX_BULLETIN_ITEMS } from '@/lib/bulletin';
+import { logActivity } from '@/lib/activity';
+
+async function findBulletin(id: string) {
+    const [bulletin] = await db
+        .select()
+        .from(dailyBulletins)
+        .where(eq(dailyBulletins.id, parseInt(id)));
+    return bulletin;
+}
+
+// GET /api/bulletins/[id] - Bulletin with the day's published articles for linking
+export async function GET(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    const auth = await requirePermission(request, 'content.view');
+    if ('response' in auth) return auth.response;
+
+    try {
+        const bulletin = await findBulletin(params.id);
+        if (!bulletin) {
+            return NextResponse.json({ error: 'Bulletin not found' }, { status: 404 });
+        }
+
+        const dayArticles = await getBulletinArticles(bulletin.bulletinDate);
+
+        return NextResponse.json({
+            bulletin,
+            articles: dayArticles.map(article => ({
+                id: article.id,
+                title: article.title,
+                gsPaper: article.gsPaper,
+                subject: article.subject,
+            })),
+        });
+    } catch (error) {
+        console.error('Get bulletin error:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
+
+// PUT /api/bulletins/[id] - Save edited bullets and/or publish
+export async function PUT(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    const auth = await requirePermission(request, 'content.edit');
+    if ('response' in auth) return auth.response;
+    const { user } = auth;
+
+    try {
+        const bulletin = await findBulletin(params.id);
+        if (!bulletin) {
+            return NextResponse.json({ error: 'Bulletin not found' }, { status: 404 });
+        }
+
+        const body = await request.json();
+        const { items, status } = body as { items?: unknown; status?: BulletinStatus };
+
+        if (status !== undefined && status !== 'draft' && status !== 'published') {
+            return NextResponse.json({ error: "status must be 'draft' or 'published'" }, { status: 400 });
+        }
+
+        if (status !== undefined && status !== bulletin.status && !hasPermission(user.role, 'content.publish')) {
+            return forbidden('content.publish');
+        }
+
+        const updateData: Partial<typeof dailyBulletins.$inferInsert> = { updatedAt: new Date() };
+
+        if (items !== undefined) {
+            // Links may only point at articles published on the bulletin's day
+            const dayArticles = await getBulletinArticles(bulletin.bulletinDate);
+            const normalized = normalizeBulletinItems(items, new Set(dayArticles.map(a => a.id)));
+
+            if (normalized.length > MAX_BULLETIN_ITEMS) {
+                return NextResponse.json({ error: `A bulletin can have at most ${MAX_BULLETIN_ITEMS} bullets` }, { status: 400 });
+            }
+            updateData.items = normalized;
+        }
+
+        if (status !== undefined) {
+            const finalItems = updateData.items ?? bulletin.items;
+            if (status === 'published' && finalItems.length === 0) {
+                return NextResponse.json({ error: 'Cannot publish an empty bulletin' }, { status: 400 });
+            }
+            updateData.status = status;
+            updateData.publishedAt = status === 'published' ? (bulletin.publishedAt ?? new Date()) : null;
+        }
+
+        const [updated] = await db
+            .update(dailyBulletins)
+            .set(updateData)
+            .where(eq(dailyBulletins.id, bulletin.id))
+            .returning();
+
+        await logActivity(
+            status === 'published' && bulletin.status !== 'published' ? 'bulletin_published' : 'bulletin_updated',
+            'bulletin',
+            bulletin.id,
+            `${status === 'published' && bulletin.status !== 'published' ? 'Published' : 'Updated'} bulletin for ${bulletin.bulletinDate}`,
+            { updatedBy: user.email, items: updated.items.length, status: updated.status }
+        );
+
+        return NextResponse.json({ bulletin: updated });
+    } catch (error) {
+        console.error('Update bulletin error:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
+
+// DELETE /api/bulletins/[id]
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    const auth = await requirePermission(request, 'content.delete');
+    if ('response' in auth) return auth.response;
+    const { user } = auth;
+
+    try {
+        const bulletin = await findBulletin(params.id);
+        if (!bulletin) {
+            return NextResponse.json({ error: 'Bulletin not found' }, { status: 404 });
+        }
+
+        await db.delete(dailyBulletins).where(eq(dailyBulletins.id, bulletin.id));
+
+        await logActivity(
+            'bulletin_deleted',
+            'bulletin',
+            bulletin.id,
+            `Deleted bulletin for ${bulletin.bulletinDate}`,
+            { deletedBy: user.email }
+        );
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('Delete bulletin error:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { forbidden, requirePermission } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
+import { db } from '@/lib/db';
+import { dailyBulletins } from '@/lib/db/schema';
+import { desc, eq } from 'drizzle-orm';
+import { generateBulletin, isBulletinDate, todayBulletinDate } from '@/lib/bulletin';
+import { logActivity } from '@/lib/activity';
+
+// Summarising a full day of articles can take a while
+export const maxDuration = 120;
+
+// GET /api/bulletins - Recent bulletins, newest first
+export async function GET(request: NextRequest) {
+    const auth = await requirePermission(request, 'content.view');
+    if ('response' in auth) return auth.response;
+
+    try {
+        const { searchParams } = new URL(request.url);
+        const limit = Math.min(parseInt(searchParams.get('limit') || '30'), 100);
+
+        const bulletins = await db
+            .select()
+            .from(dailyBulletins)
+            .orderBy(desc(dailyBulletins.bulletinDate))
+            .limit(limit);
+
+        return NextResponse.json({ bulletins });
+    } catch (error) {
+        console.error('Get bulletins error:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
+
+// POST /api/bulletins - Generate (or regenerate) the draft bulletin for a date
+export async function POST(request: NextRequest) {
+    const auth = await requirePermission(request, 'content.edit');
+    if ('response' in auth) return auth.response;
+    const { user } = auth;
+
+    try {
+        const body = await request.json().catch(() => ({}));
+        const bulletinDate = body.date || todayBulletinDate();
+
+        if (!isBulletinDate(bulletinDate)) {
+            return NextResponse.json({ error: 'date must be YYYY-MM-DD' }, { status: 400 });
+        }
+
+        // Regenerating sends a published bulletin back to draft, which unpublishes it
+        const [existing] = await db
+            .select({ status: dailyBulletins.status })
+            .from(dailyBulletins)
+            .where(eq(dailyBulletins.bulletinDate, bulletinDate));
+
+        if (existing?.status === 'published' && !hasPermission(user.role, 'content.publish')) {
+            return forbidden('content.publish');
+        }
+
+        const bulletin = await generateBulletin(bulletinDate);
+
+        if (!bulletin) {
+            return NextResponse.json({ error: `No published articles for ${bulletinDate}` }, { status: 404 });
+        }
+
+        await logActivity(
+            'bulletin_generated',
+            'bulletin',
+            bulletin.id,
+            `Generated bulletin draft for ${bulletinDate} by ${user.email}`,
+            { items: bulletin.items.length, articleCount: bulletin.articleCount }
+        );
+
+        return NextResponse.json({ bulletin });
+    } catch (error) {
+        console.error('Generate bulletin error:', error);
+        const message = error instanceof Error ? error.message : 'Failed to generate bulletin';
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
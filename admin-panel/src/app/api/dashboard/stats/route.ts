@@ -2,13 +2,11 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { users, maps, articles, activityLogs } from '@/lib/db/schema';
 import { count, eq, gte, desc } from 'drizzle-orm';
-import { verifyAuth } from '@/lib/auth';
+import { requirePermission } from '@/lib/auth';
 
 export async function GET(request: NextRequest) {
-    const user = await verifyAuth(request);
-    if (!user) {
-        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+    const auth = await requirePermission(request, 'dashboard.view');
+    if ('response' in auth) return auth.response;
 
     try {
         const [usersCount] = await db.select({ count: count() }).from(users);
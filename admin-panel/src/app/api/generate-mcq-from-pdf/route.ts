@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { OPENROUTER_API_KEY } from '@/lib/secure-config';
+import { withCredits } from '@/lib/credits';
 // Polyfill DOMMatrix for pdf-parse
 if (typeof global.DOMMatrix === 'undefined') {
     (global as any).DOMMatrix = class DOMMatrix { };
@@ -14,7 +15,7 @@ export const runtime = 'nodejs';
 const corsHeaders = {
     'Access-Control-Allow-Origin': '*',
     'Access-Control-Allow-Methods': 'POST, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
 };
 
 // Handle OPTIONS for CORS preflight
@@ -30,6 +31,10 @@ const DIFFICULTY_PROMPTS = {
 };
 
 export async function POST(req: NextRequest) {
+    return withCredits(req, 'pdf_mcq', corsHeaders, () => generateFromPdf(req));
+}
+
+async function generateFromPdf(req: NextRequest) {
     try {
         const formData = await req.formData();
         const file = formData.get('file') as File;
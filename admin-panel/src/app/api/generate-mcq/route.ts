@@ -1,11 +1,12 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { OPENROUTER_API_KEY } from '@/lib/secure-config';
+import { withCredits } from '@/lib/credits';
 
 // CORS headers for mobile app access
 const corsHeaders = {
     'Access-Control-Allow-Origin': '*',
     'Access-Control-Allow-Methods': 'POST, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
 };
 
 // Handle OPTIONS for CORS preflight
@@ -26,7 +27,11 @@ const PAPER_TOPICS: Record<string, string> = {
     Optional: 'General Knowledge across all subjects'
 };
 
-export async function POST(req: Request) {
+export async function POST(req: NextRequest) {
+    return withCredits(req, 'mcq_generator', corsHeaders, () => generateMcqs(req));
+}
+
+async function generateMcqs(req: NextRequest) {
     try {
         const { examType, paperType, difficulty, language, numQuestions, preferences } = await req.json();
 
@@ -0,0 +1,165 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { forbidden, requirePermission } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
+import { db } from '@/lib/db';
+import { mainsQuestions, mainsAnswers, MainsQuestionStatus } from '@/lib/db/schema';
+import { and, eq, ne, count, avg } from 'drizzle-orm';
+import { normalizeMainsQuestion } from '@/lib/mains-practice';
+import { logActivity } from '@/lib/activity';
+
+async function findQuestion(id: string) {
+    const [question] = await db
+        .select()
+        .from(mainsQuestions)
+        .where(eq(mainsQuestions.id, parseInt(id)));
+    return question;
+}
+
+// GET /api/mains-questions/[id] - Question with how many users have answered it
+export async function GET(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    const auth = await requirePermission(request, 'content.view');
+    if ('response' in auth) return auth.response;
+
+    try {
+        const question = await findQuestion(params.id);
+        if (!question) {
+            return NextResponse.json({ error: 'Question not found' }, { status: 404 });
+        }
+
+        const [answers] = await db
+            .select({ count: count(), averageScore: avg(mainsAnswers.score) })
+            .from(mainsAnswers)
+            .where(eq(mainsAnswers.questionId, question.id));
+
+        return NextResponse.json({
+            question,
+            answerCount: answers.count,
+            averageScore: answers.averageScore === null ? null : Number(answers.averageScore),
+        });
+    } catch (error) {
+        console.error('Get mains question error:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
+
+// PUT /api/mains-questions/[id] - Edit the question and/or publish it
+export async function PUT(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    const auth = await requirePermission(request, 'content.edit');
+    if ('response' in auth) return auth.response;
+    const { user } = auth;
+
+    try {
+        const question = await findQuestion(params.id);
+        if (!question) {
+            return NextResponse.json({ error: 'Question not found' }, { status: 404 });
+        }
+
+        const body = await request.json();
+        const { status } = body as { status?: MainsQuestionStatus };
+
+        if (status !== undefined && status !== 'draft' && status !== 'published') {
+            return NextResponse.json({ error: "status must be 'draft' or 'published'" }, { status: 400 });
+        }
+
+        if (status !== undefined && status !== question.status && !hasPermission(user.role, 'content.publish')) {
+            return forbidden('content.publish');
+        }
+
+        const result = normalizeMainsQuestion(body, question);
+        if ('error' in result) {
+            return NextResponse.json({ error: result.error }, { status: 400 });
+        }
+
+        const { values } = result;
+
+        if (values.questionDate !== question.questionDate || values.gsPaper !== question.gsPaper) {
+            const [clash] = await db
+                .select({ id: mainsQuestions.id })
+                .from(mainsQuestions)
+                .where(and(
+                    eq(mainsQuestions.questionDate, values.questionDate),
+                    eq(mainsQuestions.gsPaper, values.gsPaper),
+                    ne(mainsQuestions.id, question.id)
+                ))
+                .limit(1);
+
+            if (clash) {
+                return NextResponse.json(
+                    { error: `There is already a ${values.gsPaper} question for ${values.questionDate}` },
+                    { status: 409 }
+                );
+            }
+        }
+
+        const finalStatus = status ?? question.status;
+
+        // The model answer is revealed after every submission, so it must exist first
+        if (finalStatus === 'published' && !values.modelAnswer) {
+            return NextResponse.json({ error: 'Add a model answer before publishing' }, { status: 400 });
+        }
+
+        const [updated] = await db
+            .update(mainsQuestions)
+            .set({
+                ...values,
+                status: finalStatus,
+                publishedAt: finalStatus === 'published' ? (question.publishedAt ?? new Date()) : null,
+                updatedAt: new Date(),
+            })
+            .where(eq(mainsQuestions.id, question.id))
+            .returning();
+
+        const published = finalStatus === 'published' && question.status !== 'published';
+
+        await logActivity(
+            published ? 'mains_question_published' : 'mains_question_updated',
+            'mains_question',
+            question.id,
+            `${published ? 'Published' : 'Updated'} ${updated.gsPaper} Mains question for ${updated.questionDate}`,
+            { updatedBy: user.email, status: updated.status }
+        );
+
+        return NextResponse.json({ question: updated });
+    } catch (error) {
+        console.error('Update mains question error:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
+
+// DELETE /api/mains-questions/[id] - Also deletes users' answers to it
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    const auth = await requirePermission(request, 'content.delete');
+    if ('response' in auth) return auth.response;
+    const { user } = auth;
+
+    try {
+        const question = await findQuestion(params.id);
+        if (!question) {
+            return NextResponse.json({ error: 'Question not found' }, { status: 404 });
+        }
+
+        await db.delete(mainsQuestions).where(eq(mainsQuestions.id, question.id));
+
+        await logActivity(
+            'mains_question_deleted',
+            'mains_question',
+            question.id,
+            `Deleted ${question.gsPaper} Mains question for ${question.questionDate}`,
+            { deletedBy: user.email }
+        );
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('Delete mains question error:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
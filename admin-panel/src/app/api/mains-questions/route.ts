@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
+import { db } from '@/lib/db';
+import { mainsQuestions } from '@/lib/db/schema';
+import { and, eq, desc, asc } from 'drizzle-orm';
+import { normalizeMainsQuestion } from '@/lib/mains-practice';
+import { logActivity } from '@/lib/activity';
+
+// GET /api/mains-questions - Recent daily questions, newest day first
+export async function GET(request: NextRequest) {
+    const auth = await requirePermission(request, 'content.view');
+    if ('response' in auth) return auth.response;
+
+    try {
+        const { searchParams } = new URL(request.url);
+        const limit = Math.min(parseInt(searchParams.get('limit') || '60'), 200);
+
+        const rows = await db
+            .select()
+            .from(mainsQuestions)
+            .orderBy(desc(mainsQuestions.questionDate), asc(mainsQuestions.gsPaper))
+            .limit(limit);
+
+        return NextResponse.json({ questions: rows });
+    } catch (error) {
+        console.error('Get mains questions error:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
+
+// POST /api/mains-questions - Add the question for a day and GS paper
+// Saved as a draft unless body.status is 'published' and the caller may publish
+export async function POST(request: NextRequest) {
+    const auth = await requirePermission(request, 'content.edit');
+    if ('response' in auth) return auth.response;
+    const { user } = auth;
+
+    try {
+        const body = await request.json();
+        const result = normalizeMainsQuestion(body);
+
+        if ('error' in result) {
+            return NextResponse.json({ error: result.error }, { status: 400 });
+        }
+
+        const { values } = result;
+        const status = body.status === 'published' && hasPermission(user.role, 'content.publish') ? 'published' : 'draft';
+
+        if (status === 'published' && !values.modelAnswer) {
+            return NextResponse.json({ error: 'Add a model answer before publishing' }, { status: 400 });
+        }
+
+        const [existing] = await db
+            .select({ id: mainsQuestions.id })
+            .from(mainsQuestions)
+            .where(and(eq(mainsQuestions.questionDate, values.questionDate), eq(mainsQuestions.gsPaper, values.gsPaper)))
+            .limit(1);
+
+        if (existing) {
+            return NextResponse.json(
+                { error: `There is already a ${values.gsPaper} question for ${values.questionDate}` },
+                { status: 409 }
+            );
+        }
+
+        const [question] = await db
+            .insert(mainsQuestions)
+            .values({ ...values, status, publishedAt: status === 'published' ? new Date() : null })
+            .returning();
+
+        await logActivity(
+            'mains_question_created',
+            'mains_question',
+            question.id,
+            `Added ${question.gsPaper} Mains question for ${question.questionDate}`,
+            { createdBy: user.email, directive: question.directive, marks: question.marks, status }
+        );
+
+        return NextResponse.json({ question }, { status: 201 });
+    } catch (error) {
+        console.error('Create mains question error:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
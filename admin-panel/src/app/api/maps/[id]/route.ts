@@ -2,7 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { maps } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
-import { verifyAuth } from '@/lib/auth';
+import { requirePermission } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
 import { logActivity } from '@/lib/activity';
 import { writeFile, mkdir, unlink } from 'fs/promises';
 import path from 'path';
@@ -11,10 +12,8 @@ export async function GET(
     request: NextRequest,
     { params }: { params: { id: string } }
 ) {
-    const user = await verifyAuth(request);
-    if (!user) {
-        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+    const auth = await requirePermission(request, 'content.view');
+    if ('response' in auth) return auth.response;
 
     try {
         const mapId = parseInt(params.id);
@@ -35,10 +34,8 @@ export async function PUT(
     request: NextRequest,
     { params }: { params: { id: string } }
 ) {
-    const user = await verifyAuth(request);
-    if (!user) {
-        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+    const auth = await requirePermission(request, 'content.edit');
+    if ('response' in auth) return auth.response;
 
     try {
         const mapId = parseInt(params.id);
@@ -57,7 +54,9 @@ export async function PUT(
         if (tagsStr !== undefined) {
             updateData.tags = tagsStr.split(',').map(t => t.trim()).filter(t => t);
         }
-        updateData.isPublished = isPublished;
+        if (hasPermission(auth.user.role, 'content.publish')) {
+            updateData.isPublished = isPublished;
+        }
 
         if (image) {
             const uploadsDir = path.join(process.cwd(), 'public', 'uploads', 'maps');
@@ -94,10 +93,8 @@ export async function DELETE(
     request: NextRequest,
     { params }: { params: { id: string } }
 ) {
-    const user = await verifyAuth(request);
-    if (!user) {
-        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+    const auth = await requirePermission(request, 'content.delete');
+    if ('response' in auth) return auth.response;
 
     try {
         const mapId = parseInt(params.id);
@@ -2,17 +2,15 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { maps } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
-import { verifyAuth } from '@/lib/auth';
+import { requirePermission } from '@/lib/auth';
 import { logActivity } from '@/lib/activity';
 
 export async function PATCH(
     request: NextRequest,
     { params }: { params: { id: string } }
 ) {
-    const user = await verifyAuth(request);
-    if (!user) {
-        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+    const auth = await requirePermission(request, 'content.publish');
+    if ('response' in auth) return auth.response;
 
     try {
         const mapId = parseInt(params.id);
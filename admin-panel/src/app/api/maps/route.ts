@@ -2,16 +2,15 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { maps } from '@/lib/db/schema';
 import { eq, like, or, desc, count } from 'drizzle-orm';
-import { verifyAuth } from '@/lib/auth';
+import { requirePermission } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
 import { logActivity } from '@/lib/activity';
 import { writeFile, mkdir } from 'fs/promises';
 import path from 'path';
 
 export async function GET(request: NextRequest) {
-    const user = await verifyAuth(request);
-    if (!user) {
-        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+    const auth = await requirePermission(request, 'content.view');
+    if ('response' in auth) return auth.response;
 
     try {
         const { searchParams } = new URL(request.url);
@@ -36,10 +35,8 @@ export async function GET(request: NextRequest) {
 }
 
 export async function POST(request: NextRequest) {
-    const user = await verifyAuth(request);
-    if (!user) {
-        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+    const auth = await requirePermission(request, 'content.edit');
+    if ('response' in auth) return auth.response;
 
     try {
         const formData = await request.formData();
@@ -47,7 +44,8 @@ export async function POST(request: NextRequest) {
         const description = formData.get('description') as string;
         const category = formData.get('category') as string;
         const tagsStr = formData.get('tags') as string;
-        const isPublished = formData.get('isPublished') === 'true';
+        // Without publish rights new maps start as drafts
+        const isPublished = formData.get('isPublished') === 'true' && hasPermission(auth.user.role, 'content.publish');
         const image = formData.get('image') as File;
 
         if (!title || !category) {
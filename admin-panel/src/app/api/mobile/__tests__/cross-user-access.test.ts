@@ -0,0 +1,248 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { mindMapConnections, mindMapNodes, mindMaps, notes, users } from '@/lib/db/schema';
+import * as notesRoute from '../notes/route';
+import * as noteRoute from '../notes/[id]/route';
+import * as searchRoute from '../notes/search/route';
+import * as mindMapsRoute from '../mindmaps/route';
+import * as mindMapRoute from '../mindmaps/[id]/route';
+import * as nodesRoute from '../mindmaps/[id]/nodes/route';
+import * as connectionsRoute from '../mindmaps/[id]/connections/route';
+import * as guestRoute from '../auth/guest/route';
+import * as upgradeRoute from '../auth/upgrade/route';
+
+const fake = await vi.hoisted(async () => {
+    const { createFakeDb } = await import('@/test/fake-db');
+    return createFakeDb();
+});
+
+vi.mock('@/lib/db', () => ({ db: fake.db }));
+
+// Supabase access tokens of the two test accounts
+vi.mock('@/lib/auth', () => {
+    const accounts: Record<string, { id: string; email: string; role: string }> = {
+        'token-a': { id: 'uuid-a', email: 'a@example.com', role: 'student' },
+        'token-b': { id: 'uuid-b', email: 'b@example.com', role: 'student' },
+        'token-c': { id: 'uuid-c', email: 'c@example.com', role: 'student' },
+    };
+    return {
+        getTokenFromRequest: (request: NextRequest) =>
+            request.headers.get('authorization')?.replace('Bearer ', '') || null,
+        verifyToken: async (token: string) => accounts[token] || null,
+    };
+});
+
+process.env.GUEST_TOKEN_SECRET = 'test-guest-secret';
+
+const request = (path: string, token: string | null, init: { method?: string; body?: unknown } = {}) =>
+    new NextRequest(`http://localhost/api/mobile${path}`, {
+        method: init.method || 'GET',
+        headers: {
+            'Content-Type': 'application/json',
+            ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        body: init.body === undefined ? undefined : JSON.stringify(init.body),
+    });
+
+const noteParams = (id: number) => ({ params: Promise.resolve({ id: String(id) }) });
+const mapParams = (id: number) => ({ params: { id: String(id) } });
+
+let userA: Record<string, any>;
+let noteOfA: Record<string, any>;
+let mapOfA: Record<string, any>;
+
+beforeEach(() => {
+    fake.reset();
+    userA = fake.seed(users, { email: 'a@example.com', name: 'A', provider: 'email', isGuest: false, isActive: true });
+    fake.seed(users, { email: 'b@example.com', name: 'B', provider: 'email', isGuest: false, isActive: true });
+    noteOfA = fake.seed(notes, { userId: userA.id, title: 'Polity notes', isArchived: false, deletedAt: null, version: 1 });
+    mapOfA = fake.seed(mindMaps, { userId: userA.id, title: 'Polity map' });
+    fake.seed(mindMapNodes, { mindMapId: mapOfA.id, nodeId: 'node-1', label: 'Constitution', x: 0, y: 0 });
+    fake.seed(mindMapNodes, { mindMapId: mapOfA.id, nodeId: 'node-2', label: 'Parliament', x: 0, y: 100 });
+    fake.seed(mindMapConnections, { mindMapId: mapOfA.id, connectionId: 'link-1', sourceNodeId: 'node-1', targetNodeId: 'node-2' });
+});
+
+describe('notes', () => {
+    it('lets the owner read their note', async () => {
+        const response = await noteRoute.GET(request(`/notes/${noteOfA.id}`, 'token-a'), noteParams(noteOfA.id));
+        expect(response.status).toBe(200);
+    });
+
+    it("reports another user's note as not found", async () => {
+        const path = `/notes/${noteOfA.id}`;
+
+        const read = await noteRoute.GET(request(path, 'token-b'), noteParams(noteOfA.id));
+        const update = await noteRoute.PUT(
+            request(path, 'token-b', { method: 'PUT', body: { title: 'Mine now' } }),
+            noteParams(noteOfA.id)
+        );
+        const remove = await noteRoute.DELETE(request(path, 'token-b', { method: 'DELETE' }), noteParams(noteOfA.id));
+
+        expect([read.status, update.status, remove.status]).toEqual([404, 404, 404]);
+        expect(fake.rows(notes)[0]).toMatchObject({ title: 'Polity notes', deletedAt: null });
+    });
+
+    it("refuses to list another user's notes", async () => {
+        for (const claimed of [userA.id, 'uuid-a']) {
+            const response = await notesRoute.GET(request(`/notes?userId=${claimed}`, 'token-b'));
+            expect(response.status).toBe(403);
+        }
+    });
+
+    it('requires a sign-in', async () => {
+        const response = await notesRoute.GET(request('/notes', null));
+        expect(response.status).toBe(401);
+    });
+});
+
+describe('note search', () => {
+    it("refuses to search another user's notes", async () => {
+        const response = await searchRoute.GET(request(`/notes/search?userId=${userA.id}`, 'token-b'));
+        expect(response.status).toBe(403);
+    });
+
+    it("leaves other users' notes out of the results", async () => {
+        const response = await searchRoute.GET(request('/notes/search', 'token-b'));
+        const data = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(data.results).toEqual([]);
+        expect(data.pagination.total).toBe(0);
+    });
+});
+
+describe('mind maps', () => {
+    it("reports another user's mind map as not found", async () => {
+        const path = `/mindmaps/${mapOfA.id}`;
+
+        const read = await mindMapRoute.GET(request(path, 'token-b'), mapParams(mapOfA.id));
+        const update = await mindMapRoute.PUT(
+            request(path, 'token-b', { method: 'PUT', body: { title: 'Mine now' } }),
+            mapParams(mapOfA.id)
+        );
+        const remove = await mindMapRoute.DELETE(request(path, 'token-b', { method: 'DELETE' }), mapParams(mapOfA.id));
+
+        expect([read.status, update.status, remove.status]).toEqual([404, 404, 404]);
+        expect(fake.rows(mindMaps)[0]).toMatchObject({ title: 'Polity map' });
+    });
+
+    it("refuses to list or create mind maps as another user", async () => {
+        const list = await mindMapsRoute.GET(request(`/mindmaps?userId=${userA.id}`, 'token-b'));
+        const create = await mindMapsRoute.POST(
+            request('/mindmaps', 'token-b', { method: 'POST', body: { userId: userA.id, title: 'Planted' } })
+        );
+
+        expect([list.status, create.status]).toEqual([403, 403]);
+        expect(fake.rows(mindMaps)).toHaveLength(1);
+    });
+
+    it("refuses to change the nodes of another user's mind map", async () => {
+        const path = `/mindmaps/${mapOfA.id}/nodes`;
+
+        const add = await nodesRoute.POST(
+            request(path, 'token-b', { method: 'POST', body: { nodeId: 'node-3', label: 'Planted' } }),
+            mapParams(mapOfA.id)
+        );
+        const update = await nodesRoute.PUT(
+            request(path, 'token-b', { method: 'PUT', body: { nodeId: 'node-1', label: 'Changed' } }),
+            mapParams(mapOfA.id)
+        );
+        const remove = await nodesRoute.DELETE(
+            request(`${path}?nodeId=node-1`, 'token-b', { method: 'DELETE' }),
+            mapParams(mapOfA.id)
+        );
+
+        expect([add.status, update.status, remove.status]).toEqual([404, 404, 404]);
+        expect(fake.rows(mindMapNodes).map(node => node.label)).toEqual(['Constitution', 'Parliament']);
+    });
+
+    it("refuses to change the connections of another user's mind map", async () => {
+        const path = `/mindmaps/${mapOfA.id}/connections`;
+
+        const add = await connectionsRoute.POST(
+            request(path, 'token-b', {
+                method: 'POST',
+                body: { connectionId: 'link-2', sourceNodeId: 'node-2', targetNodeId: 'node-1' },
+            }),
+            mapParams(mapOfA.id)
+        );
+        const remove = await connectionsRoute.DELETE(
+            request(`${path}?connectionId=link-1`, 'token-b', { method: 'DELETE' }),
+            mapParams(mapOfA.id)
+        );
+
+        expect([add.status, remove.status]).toEqual([404, 404]);
+        expect(fake.rows(mindMapConnections).map(link => link.connectionId)).toEqual(['link-1']);
+    });
+});
+
+describe('guests', () => {
+    const signInAsGuest = async (deviceId: string) => {
+        const response = await guestRoute.POST(
+            request('/auth/guest', null, { method: 'POST', body: { deviceId } })
+        );
+        return response.json();
+    };
+
+    it('can use their notes with the token from /auth/guest', async () => {
+        const { user, token } = await signInAsGuest('guest_device_1');
+        fake.seed(notes, { userId: user.id, title: 'Guest note', isArchived: false, deletedAt: null, version: 1 });
+
+        const response = await notesRoute.GET(request('/notes?userId=guest_device_1', token));
+        const data = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(data.notes.map((note: { title: string }) => note.title)).toEqual(['Guest note']);
+    });
+
+    it('get the same account back on the same device', async () => {
+        const first = await signInAsGuest('guest_device_1');
+        const second = await signInAsGuest('guest_device_1');
+        expect(second.user.id).toBe(first.user.id);
+    });
+
+    it("cannot reach a registered user's data", async () => {
+        const { token } = await signInAsGuest('guest_device_1');
+
+        const read = await noteRoute.GET(request(`/notes/${noteOfA.id}`, token), noteParams(noteOfA.id));
+        const list = await notesRoute.GET(request(`/notes?userId=${userA.id}`, token));
+
+        expect([read.status, list.status]).toEqual([404, 403]);
+    });
+
+    it('lose access once the guest account is upgraded', async () => {
+        const { user, token } = await signInAsGuest('guest_device_1');
+        Object.assign(fake.rows(users).find(row => row.id === user.id)!, { isGuest: false });
+
+        const response = await notesRoute.GET(request('/notes', token));
+        expect(response.status).toBe(401);
+    });
+
+    it('upgrade into the signed-in account with their guest token', async () => {
+        const { user, token } = await signInAsGuest('guest_device_1');
+
+        const response = await upgradeRoute.POST(
+            request('/auth/upgrade', 'token-c', { method: 'POST', body: { guestToken: token } })
+        );
+        const data = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(data.user).toMatchObject({ id: user.id, email: 'c@example.com', isGuest: false });
+    });
+
+    it("cannot take over another guest's account without its token", async () => {
+        const { user } = await signInAsGuest('guest_device_1');
+
+        const claimed = await upgradeRoute.POST(request('/auth/upgrade', 'token-c', {
+            method: 'POST',
+            body: { guestUserId: user.id, guestEmail: user.email },
+        }));
+        const forged = await upgradeRoute.POST(request('/auth/upgrade', 'token-c', {
+            method: 'POST',
+            body: { guestToken: 'not-a-guest-token' },
+        }));
+
+        expect([claimed.status, forged.status]).toEqual([400, 401]);
+        expect(fake.rows(users).find(row => row.id === user.id)).toMatchObject({ isGuest: true });
+    });
+});
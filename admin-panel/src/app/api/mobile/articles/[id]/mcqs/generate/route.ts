@@ -4,6 +4,7 @@ import { articles, articleMcqs } from '@/lib/db/schema';
 import { eq, and } from 'drizzle-orm';
 
 import { corsHeaders } from '../../../../_cors';
+import { withCredits } from '@/lib/credits';
 
 import { OPENROUTER_API_KEY } from '@/lib/secure-config'; // process.env.OPENROUTER_API_KEY;
 
@@ -302,11 +303,15 @@ export async function OPTIONS() {
     return NextResponse.json({}, { headers: corsHeaders });
 }
 
-// Public endpoint - no auth required (for mobile app)
+// Signed-in users only; generation is metered against their credits
 export async function POST(
     request: NextRequest,
-    { params }: { params: Promise<{ id: string }> | { id: string } }
+    context: { params: Promise<{ id: string }> | { id: string } }
 ) {
+    return withCredits(request, 'mcq_generator', corsHeaders, () => generateArticleMcqs(context.params));
+}
+
+async function generateArticleMcqs(params: Promise<{ id: string }> | { id: string }) {
     console.log('[MCQs Generate POST] Starting request...');
     try {
         // Handle both Promise and direct params (Next.js 13+ vs 15)
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { articleMcqs, articles } from '@/lib/db/schema';
 import { eq, and, asc } from 'drizzle-orm';
+import { getRequestLanguage, localize } from '@/lib/i18n';
 
 const corsHeaders = {
     'Access-Control-Allow-Origin': '*',
@@ -26,6 +27,7 @@ export async function GET(
         console.log('[MCQs GET] Params:', resolvedParams);
         
         const articleId = parseInt(resolvedParams.id);
+        const lang = getRequestLanguage(new URL(request.url).searchParams);
         console.log('[MCQs GET] Parsed article ID:', articleId);
 
         // Validate article ID
@@ -65,7 +67,7 @@ export async function GET(
         }
 
         return NextResponse.json({ 
-            mcqs,
+            mcqs: mcqs.map(mcq => localize(mcq, lang)),
             count: mcqs.length
         }, { headers: corsHeaders });
     } catch (error) {
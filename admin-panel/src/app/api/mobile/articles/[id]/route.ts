@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { articles } from '@/lib/db/schema';
 import { eq, and } from 'drizzle-orm';
+import { getRequestLanguage, localize } from '@/lib/i18n';
 
 const corsHeaders = {
     'Access-Control-Allow-Origin': '*',
@@ -21,6 +22,7 @@ export async function GET(
 ) {
     try {
         const articleId = parseInt(params.id);
+        const lang = getRequestLanguage(new URL(request.url).searchParams);
 
         // Validate article ID
         if (isNaN(articleId)) {
@@ -36,7 +38,7 @@ export async function GET(
             return NextResponse.json({ error: 'Article not found' }, { status: 404, headers: corsHeaders });
         }
 
-        return NextResponse.json({ article }, { headers: corsHeaders });
+        return NextResponse.json({ article: localize(article, lang) }, { headers: corsHeaders });
     } catch (error) {
         console.error('Get article error:', error);
         return NextResponse.json({ error: 'Internal server error' }, { status: 500, headers: corsHeaders });
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase';
+import { getRequestLanguage, localize } from '@/lib/i18n';
 
 const corsHeaders = {
     'Access-Control-Allow-Origin': '*',
@@ -22,6 +23,7 @@ export async function GET(request: NextRequest) {
         const gsPaper = searchParams.get('gsPaper'); // Keep for backward compatibility
         const subject = searchParams.get('subject');
         const dateParam = searchParams.get('date');
+        const lang = getRequestLanguage(searchParams);
         const offset = (page - 1) * limit;
 
         const supabase = createServerClient();
@@ -35,7 +37,7 @@ export async function GET(request: NextRequest) {
 
         let query = supabase
             .from('articles')
-            .select('id, title, author, summary, gs_paper, subject, tags, published_date, created_at', { count: 'exact' })
+            .select('id, title, author, summary, gs_paper, subject, tags, translations, published_date, created_at', { count: 'exact' })
             .eq('is_published', true);
 
         // If source parameter is provided, use it; otherwise fall back to gsPaper for backward compatibility
@@ -99,7 +101,7 @@ export async function GET(request: NextRequest) {
         }
 
         // Transform snake_case to camelCase for mobile app
-        const transformedArticles = publishedArticles?.map(article => ({
+        const transformedArticles = publishedArticles?.map(article => localize({
             id: article.id,
             title: article.title,
             author: article.author,
@@ -107,9 +109,10 @@ export async function GET(request: NextRequest) {
             gsPaper: article.gs_paper,
             subject: article.subject,
             tags: article.tags,
+            translations: article.translations,
             publishedDate: article.published_date,
             createdAt: article.created_at,
-        })) || [];
+        }, lang)) || [];
 
         return NextResponse.json({
             articles: transformedArticles,
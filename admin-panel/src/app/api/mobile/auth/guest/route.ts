@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { users } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
+import { signGuestToken } from '@/lib/mobile-user';
 
 const corsHeaders = {
     'Access-Control-Allow-Origin': '*',
@@ -13,7 +14,8 @@ export async function OPTIONS() {
     return NextResponse.json({}, { headers: corsHeaders });
 }
 
-// Create a guest user for quick access without registration
+// Create a guest user for quick access without registration. The returned token
+// is the guest's bearer token for user-scoped mobile routes.
 export async function POST(request: NextRequest) {
     try {
         const body = await request.json().catch(() => ({}));
@@ -40,6 +42,7 @@ export async function POST(request: NextRequest) {
             return NextResponse.json({
                 success: true,
                 user: existingGuest,
+                token: signGuestToken(existingGuest, guestId),
                 message: 'Guest session restored',
             }, { headers: corsHeaders });
         }
@@ -61,6 +64,7 @@ export async function POST(request: NextRequest) {
         return NextResponse.json({
             success: true,
             user: newGuest,
+            token: signGuestToken(newGuest, guestId),
             message: 'Guest account created',
         }, { status: 201, headers: corsHeaders });
     } catch (error) {
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { users } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
+import { requireMobileUser } from '@/lib/mobile-user';
 
 const corsHeaders = {
     'Access-Control-Allow-Origin': '*',
@@ -13,35 +14,15 @@ export async function OPTIONS() {
     return NextResponse.json({}, { headers: corsHeaders });
 }
 
-// Get user profile by ID
+// Get the signed-in user's profile
 export async function GET(request: NextRequest) {
     try {
-        const { searchParams } = new URL(request.url);
-        const userId = searchParams.get('userId');
-
-        if (!userId) {
-            return NextResponse.json(
-                { success: false, error: 'User ID is required' },
-                { status: 400, headers: corsHeaders }
-            );
-        }
-
-        const [user] = await db
-            .select()
-            .from(users)
-            .where(eq(users.id, parseInt(userId)))
-            .limit(1);
-
-        if (!user) {
-            return NextResponse.json(
-                { success: false, error: 'User not found' },
-                { status: 404, headers: corsHeaders }
-            );
-        }
+        const auth = await requireMobileUser(request, corsHeaders);
+        if ('response' in auth) return auth.response;
 
         return NextResponse.json({
             success: true,
-            user,
+            user: auth.user,
         }, { headers: corsHeaders });
     } catch (error) {
         console.error('Get user error:', error);
@@ -58,25 +39,8 @@ export async function PUT(request: NextRequest) {
         const body = await request.json();
         const { userId, name, phone, picture } = body;
 
-        if (!userId) {
-            return NextResponse.json(
-                { success: false, error: 'User ID is required' },
-                { status: 400, headers: corsHeaders }
-            );
-        }
-
-        const [existingUser] = await db
-            .select()
-            .from(users)
-            .where(eq(users.id, parseInt(userId)))
-            .limit(1);
-
-        if (!existingUser) {
-            return NextResponse.json(
-                { success: false, error: 'User not found' },
-                { status: 404, headers: corsHeaders }
-            );
-        }
+        const auth = await requireMobileUser(request, corsHeaders, userId);
+        if ('response' in auth) return auth.response;
 
         const [updatedUser] = await db
             .update(users)
@@ -86,7 +50,7 @@ export async function PUT(request: NextRequest) {
                 ...(picture !== undefined && { picture }),
                 updatedAt: new Date(),
             })
-            .where(eq(users.id, parseInt(userId)))
+            .where(eq(users.id, auth.user.id))
             .returning();
 
         return NextResponse.json({
@@ -105,28 +69,8 @@ export async function PUT(request: NextRequest) {
 // Delete user account (soft delete by deactivating)
 export async function DELETE(request: NextRequest) {
     try {
-        const { searchParams } = new URL(request.url);
-        const userId = searchParams.get('userId');
-
-        if (!userId) {
-            return NextResponse.json(
-                { success: false, error: 'User ID is required' },
-                { status: 400, headers: corsHeaders }
-            );
-        }
-
-        const [existingUser] = await db
-            .select()
-            .from(users)
-            .where(eq(users.id, parseInt(userId)))
-            .limit(1);
-
-        if (!existingUser) {
-            return NextResponse.json(
-                { success: false, error: 'User not found' },
-                { status: 404, headers: corsHeaders }
-            );
-        }
+        const auth = await requireMobileUser(request, corsHeaders);
+        if ('response' in auth) return auth.response;
 
         // Soft delete - deactivate the account
         await db
@@ -135,7 +79,7 @@ export async function DELETE(request: NextRequest) {
                 isActive: false,
                 updatedAt: new Date(),
             })
-            .where(eq(users.id, parseInt(userId)));
+            .where(eq(users.id, auth.user.id));
 
         return NextResponse.json({
             success: true,
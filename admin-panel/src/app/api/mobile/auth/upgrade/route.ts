@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { users } from '@/lib/db/schema';
+import { and, eq } from 'drizzle-orm';
+import { getTokenFromRequest, verifyToken } from '@/lib/auth';
+import { upgradeGuest } from '@/lib/guest-upgrade';
+import { verifyGuestToken } from '@/lib/mobile-user';
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+export async function OPTIONS() {
+    return NextResponse.json({}, { headers: corsHeaders });
+}
+
+/**
+ * Convert a guest into the signed-in account, keeping the guest's mind maps,
+ * notes, roadmap progress and practice history. Call it right after sign-up or
+ * sign-in with the new Supabase token and the guest token returned by
+ * /api/mobile/auth/guest: { guestToken }.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const token = getTokenFromRequest(request);
+        const authUser = token ? await verifyToken(token) : null;
+        if (!authUser?.email) {
+            return NextResponse.json(
+                { success: false, error: 'Please sign in to continue' },
+                { status: 401, headers: corsHeaders }
+            );
+        }
+
+        const body = await request.json().catch(() => ({}));
+        if (typeof body.guestToken !== 'string' || !body.guestToken) {
+            return NextResponse.json(
+                { success: false, error: 'guestToken is required' },
+                { status: 400, headers: corsHeaders }
+            );
+        }
+
+        // Only the device holding the signed token can hand over its guest account
+        const claims = verifyGuestToken(body.guestToken);
+        if (!claims) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid or expired guest token' },
+                { status: 401, headers: corsHeaders }
+            );
+        }
+
+        const [guest] = await db
+            .select()
+            .from(users)
+            .where(and(eq(users.id, claims.userId), eq(users.isGuest, true)))
+            .limit(1);
+
+        if (!guest) {
+            return NextResponse.json(
+                { success: false, error: 'Guest account not found or already upgraded' },
+                { status: 404, headers: corsHeaders }
+            );
+        }
+
+        const [account] = await db
+            .select({ isActive: users.isActive })
+            .from(users)
+            .where(eq(users.email, authUser.email.toLowerCase()))
+            .limit(1);
+
+        if (account && !account.isActive) {
+            return NextResponse.json(
+                { success: false, error: 'This account has been deactivated' },
+                { status: 403, headers: corsHeaders }
+            );
+        }
+
+        const { user, merged } = await upgradeGuest(guest, { email: authUser.email, name: authUser.name });
+
+        console.log(`[GuestUpgrade] Guest ${guest.id} ${merged ? 'merged into' : 'became'} user ${user.id}`);
+
+        return NextResponse.json({
+            success: true,
+            user,
+            merged,
+            message: merged ? 'Guest data merged into your account' : 'Guest account upgraded',
+        }, { headers: corsHeaders });
+    } catch (error) {
+        console.error('Guest upgrade error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Internal server error' },
+            { status: 500, headers: corsHeaders }
+        );
+    }
+}
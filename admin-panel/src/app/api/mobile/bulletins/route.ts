@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { dailyBulletins } from '@/lib/db/schema';
+import { and, eq, desc } from 'drizzle-orm';
+import { getLinkedArticles, isBulletinDate } from '@/lib/bulletin';
+import { getRequestLanguage, localize } from '@/lib/i18n';
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+// Handle preflight requests
+export async function OPTIONS() {
+    return NextResponse.json({}, { headers: corsHeaders });
+}
+
+// GET /api/mobile/bulletins?date=YYYY-MM-DD - Published bulletin for a day (latest if no date)
+export async function GET(request: NextRequest) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const date = searchParams.get('date');
+        const lang = getRequestLanguage(searchParams);
+
+        if (date && !isBulletinDate(date)) {
+            return NextResponse.json(
+                { success: false, error: 'date must be YYYY-MM-DD' },
+                { status: 400, headers: corsHeaders }
+            );
+        }
+
+        // Recent published days, for the date switcher
+        const recent = await db
+            .select({ bulletinDate: dailyBulletins.bulletinDate })
+            .from(dailyBulletins)
+            .where(eq(dailyBulletins.status, 'published'))
+            .orderBy(desc(dailyBulletins.bulletinDate))
+            .limit(14);
+
+        const [bulletin] = await db
+            .select()
+            .from(dailyBulletins)
+            .where(date
+                ? and(eq(dailyBulletins.status, 'published'), eq(dailyBulletins.bulletinDate, date))
+                : eq(dailyBulletins.status, 'published'))
+            .orderBy(desc(dailyBulletins.bulletinDate))
+            .limit(1);
+
+        const availableDates = recent.map(row => row.bulletinDate);
+
+        if (!bulletin) {
+            return NextResponse.json({ success: true, bulletin: null, availableDates }, { headers: corsHeaders });
+        }
+
+        const linked = await getLinkedArticles(bulletin.items);
+        const articlesById = new Map(linked.map(article => [article.id, localize(article, lang)]));
+
+        return NextResponse.json({
+            success: true,
+            bulletin: {
+                id: bulletin.id,
+                date: bulletin.bulletinDate,
+                publishedAt: bulletin.publishedAt,
+                items: bulletin.items.map(item => ({
+                    gsPaper: item.gsPaper,
+                    text: item.text,
+                    // Links to articles unpublished since the bulletin went out are dropped
+                    articles: item.articleIds
+                        .map(id => articlesById.get(id))
+                        .filter(Boolean)
+                        .map(article => ({ id: article!.id, title: article!.title })),
+                })),
+            },
+            availableDates,
+        }, { headers: corsHeaders });
+    } catch (error) {
+        console.error('Get bulletin error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to fetch bulletin' },
+            { status: 500, headers: corsHeaders }
+        );
+    }
+}
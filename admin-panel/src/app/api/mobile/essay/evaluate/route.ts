@@ -1,10 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { OPENROUTER_API_KEY } from '@/lib/secure-config';
+import { db } from '@/lib/db';
+import { answerEvaluations } from '@/lib/db/schema';
+import {
+    evaluateHandwrittenAnswer,
+    defaultWordLimit,
+    AnswerUpload,
+    MAX_ANSWER_PAGES,
+    ANSWER_EVALUATION_MODEL,
+} from '@/lib/answer-evaluation';
+import { withCredits } from '@/lib/credits';
+import { saveEssay, toEssayFeedback } from '@/lib/essays';
+import { requireMobileUser } from '@/lib/mobile-user';
 
 const corsHeaders = {
     'Access-Control-Allow-Origin': '*',
     'Access-Control-Allow-Methods': 'POST, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
 };
 
 // process.env.OPENROUTER_API_KEY;
@@ -14,13 +26,100 @@ export async function OPTIONS() {
     return NextResponse.json({}, { headers: corsHeaders });
 }
 
-// Evaluate essay using Gemini 3 Pro directly via OpenRouter with reasoning
+// Multi-page handwritten answers: per-page OCR, rubric scoring and a saved evaluation.
+// Also saved to the essay history, keyed like typed essays by the Supabase user id.
+async function evaluateHandwrittenPages(request: NextRequest, body: any, authUserId: string) {
+    const { topic, images, pdf, userId } = body;
+    const marks = parseInt(body.marks) || 10;
+    const wordLimit = parseInt(body.wordLimit) || defaultWordLimit(marks);
+
+    const uploads: AnswerUpload[] = [
+        ...(Array.isArray(images) ? images : []).map((data: string): AnswerUpload => ({ mimeType: 'image/jpeg', data })),
+        ...(pdf ? [{ mimeType: 'application/pdf', data: pdf } as AnswerUpload] : []),
+    ];
+
+    if (uploads.length === 0) {
+        return NextResponse.json(
+            { error: 'At least one page is required' },
+            { status: 400, headers: corsHeaders }
+        );
+    }
+
+    if (uploads.length > MAX_ANSWER_PAGES) {
+        return NextResponse.json(
+            { error: `A maximum of ${MAX_ANSWER_PAGES} pages can be evaluated at once` },
+            { status: 400, headers: corsHeaders }
+        );
+    }
+
+    // The evaluation is saved to the history of the signed-in user
+    const auth = await requireMobileUser(request, corsHeaders, userId);
+    if ('response' in auth) return auth.response;
+
+    console.log('[Essay Evaluate POST] Handwritten answer:', uploads.length, 'upload(s),', marks, 'marks');
+
+    const evaluation = await evaluateHandwrittenAnswer({ question: topic, marks, wordLimit, uploads });
+
+    const [saved] = await db
+        .insert(answerEvaluations)
+        .values({
+            userId: auth.user.id,
+            question: topic,
+            marks,
+            wordLimit,
+            pageCount: evaluation.pages.length,
+            pages: evaluation.pages,
+            wordCount: evaluation.wordCount,
+            rubric: evaluation.rubric,
+            score: evaluation.score,
+            keywordsUsed: evaluation.keywordsUsed,
+            keywordsMissed: evaluation.keywordsMissed,
+            examinerRemark: evaluation.examinerRemark,
+            improvementPlan: evaluation.improvementPlan,
+            model: ANSWER_EVALUATION_MODEL,
+        })
+        .returning();
+
+    console.log('[Essay Evaluate POST] Saved evaluation', saved.id, 'score:', saved.score, '/', marks);
+
+    let essayId: string | null = null;
+    const essayText = evaluation.pages.map(page => page.text).join('\n\n');
+    if (essayText.trim()) {
+        try {
+            const essay = await saveEssay({
+                userId: authUserId,
+                topic,
+                answerText: essayText,
+                score: (saved.score / marks) * 100,
+                feedback: toEssayFeedback(evaluation),
+                answerEvaluationId: saved.id,
+            });
+            essayId = essay.essay.id;
+        } catch (saveError) {
+            // The evaluation itself is saved, so still return it
+            console.error('[Essay Evaluate POST] Failed to add evaluation to essay history:', saveError);
+        }
+    }
+
+    return NextResponse.json({
+        success: true,
+        evaluation: saved,
+        essayId,
+    }, { headers: corsHeaders });
+}
+
 export async function POST(request: NextRequest) {
+    return withCredits(request, 'essay_evaluation', corsHeaders, (charge) => evaluateEssay(request, charge.userId));
+}
+
+// Evaluate essay using Gemini 3 Pro directly via OpenRouter with reasoning
+// Text and single-image essays are saved to the caller's essay history
+async function evaluateEssay(request: NextRequest, authUserId: string) {
     console.log('[Essay Evaluate POST] Starting request...');
 
     try {
         const body = await request.json();
-        const { topic, answerText, image, isHandwritten } = body;
+        const { topic, answerText, image, images, pdf, isHandwritten } = body;
 
         console.log('[Essay Evaluate POST] Topic:', topic?.substring(0, 50));
         console.log('[Essay Evaluate POST] Has Image:', !!image);
@@ -43,6 +142,10 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        if (isHandwritten && (Array.isArray(images) || pdf)) {
+            return await evaluateHandwrittenPages(request, body, authUserId);
+        }
+
         if (!answerText && !image) {
             return NextResponse.json(
                 { error: 'Either essay text or image is required' },
@@ -241,35 +344,11 @@ Be honest, constructive, and specific in your feedback. The score should reflect
             console.error('[Essay Evaluate POST] JSON parsing error:', parseError);
             console.error('[Essay Evaluate POST] Response content:', content?.substring(0, 500));
 
-            // Fallback: create a basic evaluation
-            evaluation = {
-                score: 60,
-                examinerRemark: "Your essay shows promise but needs improvement in structure and depth.",
-                strengths: [
-                    "Attempted to address the topic",
-                    "Basic understanding demonstrated",
-                    "Reasonable word count"
-                ],
-                weaknesses: [
-                    "Could benefit from stronger arguments",
-                    "Needs more specific examples",
-                    "Structure could be improved"
-                ],
-                improvementPlan: [
-                    "Read more on the topic to deepen understanding",
-                    "Practice writing structured essays",
-                    "Include more current affairs examples"
-                ],
-                rewrittenIntro: "Consider starting with a powerful quote or statistic to grab attention.",
-                rewrittenConclusion: "End with a forward-looking statement that ties back to the introduction.",
-                detailedFeedback: {
-                    content: "The essay addresses the topic but could go deeper into analysis.",
-                    structure: "Work on creating a clearer introduction-body-conclusion structure.",
-                    language: "Language is adequate but could be more sophisticated.",
-                    arguments: "Arguments need to be supported with more concrete examples.",
-                    upscRelevance: "Try to incorporate multiple perspectives and contemporary issues."
-                }
-            };
+            // An error status makes withCredits refund the charge
+            return NextResponse.json({
+                success: false,
+                error: 'Could not read the evaluation. Please try again.',
+            }, { status: 502, headers: corsHeaders });
         }
 
         // Ensure score is within valid range
@@ -279,9 +358,28 @@ Be honest, constructive, and specific in your feedback. The score should reflect
 
         console.log('[Essay Evaluate POST] Evaluation score:', evaluation.score);
 
+        const essayText = answerText || evaluation.ocrText || '';
+        let essayId: string | null = null;
+        if (essayText.trim()) {
+            try {
+                const saved = await saveEssay({
+                    userId: authUserId,
+                    topic,
+                    answerText: essayText,
+                    score: evaluation.score,
+                    feedback: toEssayFeedback(evaluation),
+                });
+                essayId = saved.essay.id;
+            } catch (saveError) {
+                // The user paid for the evaluation, so return it even if saving fails
+                console.error('[Essay Evaluate POST] Failed to save essay:', saveError);
+            }
+        }
+
         return NextResponse.json({
             success: true,
             evaluation,
+            essayId,
             wordCount,
             reasoning_used: !!reasoningDetails,
             model: 'google/gemini-3-flash-preview'
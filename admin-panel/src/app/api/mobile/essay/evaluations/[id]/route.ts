@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { answerEvaluations } from '@/lib/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { requireMobileUser } from '@/lib/mobile-user';
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+export async function OPTIONS() {
+    return NextResponse.json({}, { headers: corsHeaders });
+}
+
+// GET /api/mobile/essay/evaluations/[id] - Full evaluation with pages and annotations
+export async function GET(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const auth = await requireMobileUser(request, corsHeaders);
+        if ('response' in auth) return auth.response;
+
+        const [evaluation] = await db
+            .select()
+            .from(answerEvaluations)
+            .where(
+                and(
+                    eq(answerEvaluations.id, parseInt(params.id)),
+                    eq(answerEvaluations.userId, auth.user.id)
+                )
+            )
+            .limit(1);
+
+        if (!evaluation) {
+            return NextResponse.json(
+                { success: false, error: 'Evaluation not found' },
+                { status: 404, headers: corsHeaders }
+            );
+        }
+
+        return NextResponse.json({ success: true, evaluation }, { headers: corsHeaders });
+    } catch (error) {
+        console.error('Get answer evaluation error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Internal server error' },
+            { status: 500, headers: corsHeaders }
+        );
+    }
+}
+
+// DELETE /api/mobile/essay/evaluations/[id] - Remove an evaluation from history
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const auth = await requireMobileUser(request, corsHeaders);
+        if ('response' in auth) return auth.response;
+
+        const deleted = await db
+            .delete(answerEvaluations)
+            .where(
+                and(
+                    eq(answerEvaluations.id, parseInt(params.id)),
+                    eq(answerEvaluations.userId, auth.user.id)
+                )
+            )
+            .returning({ id: answerEvaluations.id });
+
+        if (deleted.length === 0) {
+            return NextResponse.json(
+                { success: false, error: 'Evaluation not found' },
+                { status: 404, headers: corsHeaders }
+            );
+        }
+
+        return NextResponse.json({ success: true }, { headers: corsHeaders });
+    } catch (error) {
+        console.error('Delete answer evaluation error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Internal server error' },
+            { status: 500, headers: corsHeaders }
+        );
+    }
+}
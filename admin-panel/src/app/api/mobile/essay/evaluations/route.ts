@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { answerEvaluations, RubricCriterion } from '@/lib/db/schema';
+import { eq, desc } from 'drizzle-orm';
+import { requireMobileUser } from '@/lib/mobile-user';
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+// Number of evaluations compared on each side of the trend
+const TREND_WINDOW = 5;
+
+export async function OPTIONS() {
+    return NextResponse.json({}, { headers: corsHeaders });
+}
+
+const percent = (score: number, maxScore: number) => (maxScore > 0 ? Math.round((score / maxScore) * 100) : 0);
+
+const average = (values: number[]) =>
+    values.length ? Math.round(values.reduce((sum, v) => sum + v, 0) / values.length) : 0;
+
+// GET /api/mobile/essay/evaluations - Evaluation history with score trends
+export async function GET(request: NextRequest) {
+    try {
+        const auth = await requireMobileUser(request, corsHeaders);
+        if ('response' in auth) return auth.response;
+
+        const { searchParams } = new URL(request.url);
+        const limit = parseInt(searchParams.get('limit') || '20');
+
+        const rows = await db
+            .select()
+            .from(answerEvaluations)
+            .where(eq(answerEvaluations.userId, auth.user.id))
+            .orderBy(desc(answerEvaluations.createdAt));
+
+        // Newest first, so the recent window is the head of the list
+        const percents = rows.map(row => percent(row.score, row.marks));
+        const recentAverage = average(percents.slice(0, TREND_WINDOW));
+        const previousAverage = average(percents.slice(TREND_WINDOW, TREND_WINDOW * 2));
+
+        const criterionAverages = {} as Record<RubricCriterion, number>;
+        if (rows.length > 0) {
+            (Object.keys(rows[0].rubric) as RubricCriterion[]).forEach(criterion => {
+                criterionAverages[criterion] = average(
+                    rows
+                        .filter(row => row.rubric[criterion])
+                        .map(row => percent(row.rubric[criterion].score, row.rubric[criterion].maxScore))
+                );
+            });
+        }
+
+        return NextResponse.json({
+            success: true,
+            evaluations: rows.slice(0, limit).map(row => ({
+                id: row.id,
+                question: row.question,
+                marks: row.marks,
+                score: row.score,
+                percent: percent(row.score, row.marks),
+                pageCount: row.pageCount,
+                wordCount: row.wordCount,
+                createdAt: row.createdAt,
+            })),
+            stats: {
+                count: rows.length,
+                averagePercent: average(percents),
+                bestPercent: percents.length ? Math.max(...percents) : 0,
+                recentAveragePercent: recentAverage,
+                // Only meaningful once there is a previous window to compare against
+                trend: rows.length > TREND_WINDOW ? recentAverage - previousAverage : 0,
+                criterionAverages,
+            },
+        }, { headers: corsHeaders });
+    } catch (error) {
+        console.error('Get answer evaluations error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Internal server error' },
+            { status: 500, headers: corsHeaders }
+        );
+    }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { OPENROUTER_API_KEY } from '@/lib/secure-config';
 import { corsHeaders } from '../../_cors';
+import { saveEssay } from '@/lib/essays';
+import { withCredits } from '@/lib/credits';
 
 // Helper to generate Essay using AI
 async function generateEssayWithAI(topic: string, difficulty: string, language: string, length: string, apiKey: string) {
@@ -57,6 +59,11 @@ export async function OPTIONS() {
 }
 
 export async function POST(request: NextRequest) {
+    return withCredits(request, 'essay_generation', corsHeaders, (charge) => generateEssay(request, charge.userId));
+}
+
+// Generated model essays are kept in the caller's essay history
+async function generateEssay(request: NextRequest, userId: string) {
     try {
         const body = await request.json();
         const { topic, difficulty = 'Medium', language = 'English', length = '1000' } = body;
@@ -78,10 +85,19 @@ export async function POST(request: NextRequest) {
         }
 
         const essay = await generateEssayWithAI(topic, difficulty, language, length, OPENROUTER_API_KEY);
+        if (!essay) {
+            return NextResponse.json(
+                { error: 'The AI returned an empty essay. Please try again.' },
+                { status: 502, headers: corsHeaders }
+            );
+        }
+
+        const saved = await saveEssay({ userId, topic, answerText: essay, source: 'generated' });
 
         return NextResponse.json({
             success: true,
-            essay: essay
+            essay: essay,
+            essayId: saved.essay.id
         }, { headers: corsHeaders });
 
     } catch (error: any) {
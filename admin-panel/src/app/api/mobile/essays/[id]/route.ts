@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { essays, essayEvaluations, answerEvaluations } from '@/lib/db/schema';
+import { eq, and, desc } from 'drizzle-orm';
+import { getEssayUserId } from '@/lib/essays';
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export async function OPTIONS() {
+    return NextResponse.json({}, { headers: corsHeaders });
+}
+
+// GET /api/mobile/essays/[id] - Essay with its latest evaluation
+export async function GET(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const userId = await getEssayUserId(request);
+        if (!userId) {
+            return NextResponse.json(
+                { success: false, error: 'Please sign in to see your essays' },
+                { status: 401, headers: corsHeaders }
+            );
+        }
+
+        const [essay] = UUID_PATTERN.test(params.id)
+            ? await db
+                .select()
+                .from(essays)
+                .where(and(eq(essays.id, params.id), eq(essays.userId, userId)))
+                .limit(1)
+            : [];
+
+        if (!essay) {
+            return NextResponse.json(
+                { success: false, error: 'Essay not found' },
+                { status: 404, headers: corsHeaders }
+            );
+        }
+
+        const [evaluation] = await db
+            .select()
+            .from(essayEvaluations)
+            .where(eq(essayEvaluations.essayId, essay.id))
+            .orderBy(desc(essayEvaluations.createdAt))
+            .limit(1);
+
+        // Handwritten answers also have their per-page transcription and rubric
+        const [answerEvaluation] = essay.answerEvaluationId
+            ? await db
+                .select()
+                .from(answerEvaluations)
+                .where(eq(answerEvaluations.id, essay.answerEvaluationId))
+                .limit(1)
+            : [];
+
+        return NextResponse.json({
+            success: true,
+            essay,
+            evaluation: evaluation || null,
+            answerEvaluation: answerEvaluation || null,
+        }, { headers: corsHeaders });
+    } catch (error) {
+        console.error('Get essay error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Internal server error' },
+            { status: 500, headers: corsHeaders }
+        );
+    }
+}
+
+// DELETE /api/mobile/essays/[id] - Delete an essay (its evaluations cascade)
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const userId = await getEssayUserId(request);
+        if (!userId) {
+            return NextResponse.json(
+                { success: false, error: 'Please sign in to manage your essays' },
+                { status: 401, headers: corsHeaders }
+            );
+        }
+
+        const deleted = UUID_PATTERN.test(params.id)
+            ? await db
+                .delete(essays)
+                .where(and(eq(essays.id, params.id), eq(essays.userId, userId)))
+                .returning({ id: essays.id })
+            : [];
+
+        if (deleted.length === 0) {
+            return NextResponse.json(
+                { success: false, error: 'Essay not found' },
+                { status: 404, headers: corsHeaders }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            message: 'Essay deleted successfully',
+        }, { headers: corsHeaders });
+    } catch (error) {
+        console.error('Delete essay error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Internal server error' },
+            { status: 500, headers: corsHeaders }
+        );
+    }
+}
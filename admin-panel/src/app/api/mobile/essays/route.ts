@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { essays, EssaySource } from '@/lib/db/schema';
+import { eq, and, desc } from 'drizzle-orm';
+import { corsHeaders } from '../_cors';
+import { getEssayUserId, saveEssay, toEssayFeedback, getEssayScoreStats } from '@/lib/essays';
+
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+export async function OPTIONS() {
+    return NextResponse.json({}, { headers: corsHeaders });
+}
+
+// GET /api/mobile/essays - Essay history with score trends
+// Query: source=attempt|generated (default attempt), limit (default 20, max 100)
+export async function GET(request: NextRequest) {
+    try {
+        const userId = await getEssayUserId(request);
+        if (!userId) {
+            return NextResponse.json(
+                { success: false, error: 'Please sign in to see your essays' },
+                { status: 401, headers: corsHeaders }
+            );
+        }
+
+        const { searchParams } = new URL(request.url);
+        const source: EssaySource = searchParams.get('source') === 'generated' ? 'generated' : 'attempt';
+        const requestedLimit = parseInt(searchParams.get('limit') || '');
+        const limit = Number.isNaN(requestedLimit) ? DEFAULT_LIMIT : Math.min(Math.max(requestedLimit, 1), MAX_LIMIT);
+
+        const rows = await db
+            .select({
+                id: essays.id,
+                topic: essays.topic,
+                wordCount: essays.wordCount,
+                score: essays.score,
+                source: essays.source,
+                answerEvaluationId: essays.answerEvaluationId,
+                createdAt: essays.createdAt,
+            })
+            .from(essays)
+            .where(and(eq(essays.userId, userId), eq(essays.source, source)))
+            .orderBy(desc(essays.createdAt))
+            .limit(limit);
+
+        return NextResponse.json({
+            success: true,
+            essays: rows,
+            stats: await getEssayScoreStats(userId, source),
+        }, { headers: corsHeaders });
+    } catch (error) {
+        console.error('Get essays error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Internal server error' },
+            { status: 500, headers: corsHeaders }
+        );
+    }
+}
+
+// POST /api/mobile/essays - Save an essay evaluated on the device
+// Body: { topic, answerText, score, evaluation: { examinerRemark, strengths, weaknesses, ... } }
+export async function POST(request: NextRequest) {
+    try {
+        const userId = await getEssayUserId(request);
+        if (!userId) {
+            return NextResponse.json(
+                { success: false, error: 'Please sign in to save your essays' },
+                { status: 401, headers: corsHeaders }
+            );
+        }
+
+        const body = await request.json();
+        const topic = typeof body.topic === 'string' ? body.topic.trim() : '';
+        const answerText = typeof body.answerText === 'string' ? body.answerText.trim() : '';
+        const score = Number(body.score);
+
+        if (!topic || !answerText) {
+            return NextResponse.json(
+                { success: false, error: 'Topic and essay text are required' },
+                { status: 400, headers: corsHeaders }
+            );
+        }
+
+        if (!Number.isFinite(score) || score < 0 || score > 100) {
+            return NextResponse.json(
+                { success: false, error: 'Score must be between 0 and 100' },
+                { status: 400, headers: corsHeaders }
+            );
+        }
+
+        const saved = await saveEssay({
+            userId,
+            topic,
+            answerText,
+            score,
+            feedback: body.evaluation ? toEssayFeedback(body.evaluation) : undefined,
+        });
+
+        return NextResponse.json({
+            success: true,
+            essay: saved.essay,
+            evaluation: saved.evaluation,
+        }, { status: 201, headers: corsHeaders });
+    } catch (error) {
+        console.error('Save essay error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Internal server error' },
+            { status: 500, headers: corsHeaders }
+        );
+    }
+}
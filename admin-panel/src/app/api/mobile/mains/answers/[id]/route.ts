@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { mainsQuestions, mainsAnswers } from '@/lib/db/schema';
+import { and, eq } from 'drizzle-orm';
+import { requireMobileUser } from '@/lib/mobile-user';
+import { toMobileQuestion } from '@/lib/mains-practice';
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+export async function OPTIONS() {
+    return NextResponse.json({}, { headers: corsHeaders });
+}
+
+// GET /api/mobile/mains/answers/[id] - Evaluated answer with the question and model answer
+export async function GET(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const auth = await requireMobileUser(request, corsHeaders);
+        if ('response' in auth) return auth.response;
+        const { user } = auth;
+
+        const [row] = await db
+            .select({ answer: mainsAnswers, question: mainsQuestions })
+            .from(mainsAnswers)
+            .innerJoin(mainsQuestions, eq(mainsAnswers.questionId, mainsQuestions.id))
+            .where(and(eq(mainsAnswers.id, parseInt(params.id)), eq(mainsAnswers.userId, user.id)))
+            .limit(1);
+
+        if (!row) {
+            return NextResponse.json(
+                { success: false, error: 'Answer not found' },
+                { status: 404, headers: corsHeaders }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            answer: row.answer,
+            question: toMobileQuestion(row.question, true),
+        }, { headers: corsHeaders });
+    } catch (error) {
+        console.error('Get mains answer error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Internal server error' },
+            { status: 500, headers: corsHeaders }
+        );
+    }
+}
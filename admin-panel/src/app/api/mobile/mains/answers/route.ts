@@ -0,0 +1,191 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { mainsQuestions, mainsAnswers } from '@/lib/db/schema';
+import { and, eq, desc } from 'drizzle-orm';
+import { withCredits } from '@/lib/credits';
+import { requireMobileUser } from '@/lib/mobile-user';
+import { todayBulletinDate } from '@/lib/bulletin';
+import { countWords } from '@/lib/answer-evaluation';
+import { evaluateMainsAnswer, toMobileQuestion, MAINS_EVALUATION_MODEL } from '@/lib/mains-practice';
+
+export const dynamic = 'force-dynamic';
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+// Number of answers compared on each side of the trend
+const TREND_WINDOW = 5;
+
+// Anything shorter cannot be judged against a directive
+const MIN_ANSWER_WORDS = 20;
+
+export async function OPTIONS() {
+    return NextResponse.json({}, { headers: corsHeaders });
+}
+
+const percent = (score: number, maxScore: number) => (maxScore > 0 ? Math.round((score / maxScore) * 100) : 0);
+
+const average = (values: number[]) =>
+    values.length ? Math.round(values.reduce((sum, v) => sum + v, 0) / values.length) : 0;
+
+// GET /api/mobile/mains/answers - The user's answer history with score trends
+export async function GET(request: NextRequest) {
+    try {
+        const auth = await requireMobileUser(request, corsHeaders);
+        if ('response' in auth) return auth.response;
+        const { user } = auth;
+
+        const { searchParams } = new URL(request.url);
+        const limit = parseInt(searchParams.get('limit') || '20');
+
+        const rows = await db
+            .select({
+                id: mainsAnswers.id,
+                questionId: mainsAnswers.questionId,
+                score: mainsAnswers.score,
+                wordCount: mainsAnswers.wordCount,
+                timeTakenSeconds: mainsAnswers.timeTakenSeconds,
+                directiveAddressed: mainsAnswers.directiveAddressed,
+                createdAt: mainsAnswers.createdAt,
+                date: mainsQuestions.questionDate,
+                gsPaper: mainsQuestions.gsPaper,
+                question: mainsQuestions.question,
+                directive: mainsQuestions.directive,
+                marks: mainsQuestions.marks,
+            })
+            .from(mainsAnswers)
+            .innerJoin(mainsQuestions, eq(mainsAnswers.questionId, mainsQuestions.id))
+            .where(eq(mainsAnswers.userId, user.id))
+            .orderBy(desc(mainsAnswers.createdAt));
+
+        // Newest first, so the recent window is the head of the list
+        const percents = rows.map(row => percent(row.score, row.marks));
+        const recentAverage = average(percents.slice(0, TREND_WINDOW));
+        const previousAverage = average(percents.slice(TREND_WINDOW, TREND_WINDOW * 2));
+
+        const paperAverages: Record<string, number> = {};
+        Array.from(new Set(rows.map(row => row.gsPaper))).forEach(gsPaper => {
+            paperAverages[gsPaper] = average(
+                rows.filter(row => row.gsPaper === gsPaper).map(row => percent(row.score, row.marks))
+            );
+        });
+
+        return NextResponse.json({
+            success: true,
+            answers: rows.slice(0, limit).map(row => ({
+                ...row,
+                percent: percent(row.score, row.marks),
+            })),
+            stats: {
+                count: rows.length,
+                averagePercent: average(percents),
+                bestPercent: percents.length ? Math.max(...percents) : 0,
+                recentAveragePercent: recentAverage,
+                // Only meaningful once there is a previous window to compare against
+                trend: rows.length > TREND_WINDOW ? recentAverage - previousAverage : 0,
+                directiveRate: percent(rows.filter(row => row.directiveAddressed).length, rows.length),
+                paperAverages,
+            },
+        }, { headers: corsHeaders });
+    } catch (error) {
+        console.error('Get mains answers error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Internal server error' },
+            { status: 500, headers: corsHeaders }
+        );
+    }
+}
+
+// POST /api/mobile/mains/answers - Submit an answer to a daily question
+// Body: { questionId, answerText, timeTakenSeconds? }
+export async function POST(request: NextRequest) {
+    return withCredits(request, 'essay_evaluation', corsHeaders, () => submitAnswer(request));
+}
+
+async function submitAnswer(request: NextRequest) {
+    try {
+        const auth = await requireMobileUser(request, corsHeaders);
+        if ('response' in auth) return auth.response;
+        const { user } = auth;
+
+        const body = await request.json();
+        const questionId = parseInt(String(body.questionId));
+        const answerText = typeof body.answerText === 'string' ? body.answerText.trim() : '';
+        const timeTaken = parseInt(String(body.timeTakenSeconds ?? ''));
+
+        const [question] = Number.isFinite(questionId)
+            ? await db
+                .select()
+                .from(mainsQuestions)
+                .where(and(eq(mainsQuestions.id, questionId), eq(mainsQuestions.status, 'published')))
+                .limit(1)
+            : [];
+
+        if (!question || question.questionDate > todayBulletinDate()) {
+            return NextResponse.json(
+                { success: false, error: 'Question not found' },
+                { status: 404, headers: corsHeaders }
+            );
+        }
+
+        if (countWords(answerText) < MIN_ANSWER_WORDS) {
+            return NextResponse.json(
+                { success: false, error: `Please write at least ${MIN_ANSWER_WORDS} words` },
+                { status: 400, headers: corsHeaders }
+            );
+        }
+
+        const [existing] = await db
+            .select({ id: mainsAnswers.id })
+            .from(mainsAnswers)
+            .where(and(eq(mainsAnswers.userId, user.id), eq(mainsAnswers.questionId, question.id)))
+            .limit(1);
+
+        if (existing) {
+            return NextResponse.json(
+                { success: false, error: 'You have already answered this question', answerId: existing.id },
+                { status: 409, headers: corsHeaders }
+            );
+        }
+
+        const evaluation = await evaluateMainsAnswer(question, answerText);
+
+        const [saved] = await db
+            .insert(mainsAnswers)
+            .values({
+                userId: user.id,
+                questionId: question.id,
+                answerText,
+                timeTakenSeconds: Number.isFinite(timeTaken) && timeTaken >= 0 ? timeTaken : null,
+                ...evaluation,
+                model: MAINS_EVALUATION_MODEL,
+            })
+            .onConflictDoNothing()
+            .returning();
+
+        // Submitted twice at once; the first one was kept (and this charge is refunded)
+        if (!saved) {
+            return NextResponse.json(
+                { success: false, error: 'You have already answered this question' },
+                { status: 409, headers: corsHeaders }
+            );
+        }
+
+        console.log('[Mains] Saved answer', saved.id, 'score:', saved.score, '/', question.marks);
+
+        return NextResponse.json({
+            success: true,
+            answer: saved,
+            question: toMobileQuestion(question, true),
+        }, { status: 201, headers: corsHeaders });
+    } catch (error) {
+        console.error('Submit mains answer error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to evaluate answer' },
+            { status: 500, headers: corsHeaders }
+        );
+    }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { mainsQuestions, mainsAnswers } from '@/lib/db/schema';
+import { and, eq, lte, desc, asc, inArray } from 'drizzle-orm';
+import { getMobileUser } from '@/lib/mobile-user';
+import { isBulletinDate, todayBulletinDate } from '@/lib/bulletin';
+import { toMobileQuestion } from '@/lib/mains-practice';
+
+export const dynamic = 'force-dynamic';
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+export async function OPTIONS() {
+    return NextResponse.json({}, { headers: corsHeaders });
+}
+
+// GET /api/mobile/mains/daily?date=YYYY-MM-DD - Published questions for a day (latest up to today if no date)
+// Signed-in users also get their attempt, and the model answer once they have answered
+export async function GET(request: NextRequest) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const date = searchParams.get('date');
+
+        if (date && !isBulletinDate(date)) {
+            return NextResponse.json(
+                { success: false, error: 'date must be YYYY-MM-DD' },
+                { status: 400, headers: corsHeaders }
+            );
+        }
+
+        const published = eq(mainsQuestions.status, 'published');
+
+        // Recent days with questions, for the date switcher; questions are
+        // scheduled ahead, so future days stay hidden
+        const recent = await db
+            .selectDistinct({ questionDate: mainsQuestions.questionDate })
+            .from(mainsQuestions)
+            .where(and(published, lte(mainsQuestions.questionDate, todayBulletinDate())))
+            .orderBy(desc(mainsQuestions.questionDate))
+            .limit(14);
+
+        const availableDates = recent.map(row => row.questionDate);
+        const questionDate = date || availableDates[0];
+
+        if (!questionDate || questionDate > todayBulletinDate()) {
+            return NextResponse.json({ success: true, date: questionDate || null, questions: [], availableDates }, { headers: corsHeaders });
+        }
+
+        const questions = await db
+            .select()
+            .from(mainsQuestions)
+            .where(and(published, eq(mainsQuestions.questionDate, questionDate)))
+            .orderBy(asc(mainsQuestions.gsPaper));
+
+        const user = await getMobileUser(request);
+        const attempts = user && questions.length > 0
+            ? await db
+                .select({
+                    id: mainsAnswers.id,
+                    questionId: mainsAnswers.questionId,
+                    score: mainsAnswers.score,
+                    wordCount: mainsAnswers.wordCount,
+                    createdAt: mainsAnswers.createdAt,
+                })
+                .from(mainsAnswers)
+                .where(and(
+                    eq(mainsAnswers.userId, user.id),
+                    inArray(mainsAnswers.questionId, questions.map(q => q.id))
+                ))
+            : [];
+
+        const attemptsByQuestion = new Map(attempts.map(attempt => [attempt.questionId, attempt]));
+
+        return NextResponse.json({
+            success: true,
+            date: questionDate,
+            questions: questions.map(question => {
+                const attempt = attemptsByQuestion.get(question.id);
+                return {
+                    ...toMobileQuestion(question, !!attempt),
+                    attempt: attempt || null,
+                };
+            }),
+            availableDates,
+        }, { headers: corsHeaders });
+    } catch (error) {
+        console.error('Get mains questions error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to fetch questions' },
+            { status: 500, headers: corsHeaders }
+        );
+    }
+}
@@ -1,7 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { OPENROUTER_API_KEY } from '@/lib/secure-config';
+import { withCredits } from '@/lib/credits';
+import { corsHeaders } from '../../_cors';
+
+export async function OPTIONS() {
+    return NextResponse.json({}, { headers: corsHeaders });
+}
 
 export async function POST(request: NextRequest) {
+    return withCredits(request, 'mcq_generator', corsHeaders, () => generateMcqs(request));
+}
+
+async function generateMcqs(request: NextRequest) {
     try {
         const body = await request.json();
         const {
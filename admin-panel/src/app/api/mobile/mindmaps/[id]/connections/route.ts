@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { mindMapConnections, mindMaps } from '@/lib/db/schema';
 import { eq, and, or } from 'drizzle-orm';
+import { requireMindMapOwner } from '@/lib/mind-maps';
 
 const corsHeaders = {
     'Access-Control-Allow-Origin': '*',
@@ -20,6 +21,9 @@ export async function POST(
 ) {
     try {
         const mindMapId = parseInt(params.id);
+        const access = await requireMindMapOwner(request, mindMapId, corsHeaders);
+        if ('response' in access) return access.response;
+
         const body = await request.json();
         const { connectionId, sourceNodeId, targetNodeId, label, color, strokeWidth, style, animated } = body;
 
@@ -30,6 +34,26 @@ export async function POST(
             );
         }
 
+        // Connection ids are generated on the device, so a replayed request (e.g.
+        // from the app's offline outbox) finds its connection already there
+        const [replayed] = await db
+            .select()
+            .from(mindMapConnections)
+            .where(
+                and(
+                    eq(mindMapConnections.mindMapId, mindMapId),
+                    eq(mindMapConnections.connectionId, connectionId)
+                )
+            )
+            .limit(1);
+
+        if (replayed) {
+            return NextResponse.json({
+                success: true,
+                connection: replayed,
+            }, { headers: corsHeaders });
+        }
+
         // Check if connection already exists
         const existing = await db
             .select()
@@ -102,6 +126,9 @@ export async function PUT(
 ) {
     try {
         const mindMapId = parseInt(params.id);
+        const access = await requireMindMapOwner(request, mindMapId, corsHeaders);
+        if ('response' in access) return access.response;
+
         const body = await request.json();
         const { connectionId, label, color, strokeWidth, style, animated } = body;
 
@@ -157,6 +184,9 @@ export async function DELETE(
 ) {
     try {
         const mindMapId = parseInt(params.id);
+        const access = await requireMindMapOwner(request, mindMapId, corsHeaders);
+        if ('response' in access) return access.response;
+
         const { searchParams } = new URL(request.url);
         const connectionId = searchParams.get('connectionId');
 
@@ -177,11 +207,12 @@ export async function DELETE(
             )
             .returning();
 
+        // Deleting twice (e.g. a replayed request) is not an error
         if (!deleted) {
-            return NextResponse.json(
-                { success: false, error: 'Connection not found' },
-                { status: 404, headers: corsHeaders }
-            );
+            return NextResponse.json({
+                success: true,
+                message: 'Connection already deleted',
+            }, { headers: corsHeaders });
         }
 
         // Update mind map timestamp
@@ -210,6 +241,9 @@ export async function PATCH(
 ) {
     try {
         const mindMapId = parseInt(params.id);
+        const access = await requireMindMapOwner(request, mindMapId, corsHeaders);
+        if ('response' in access) return access.response;
+
         const body = await request.json();
         const { nodeId } = body;
 
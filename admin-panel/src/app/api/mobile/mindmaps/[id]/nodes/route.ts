@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { mindMapNodes, mindMaps } from '@/lib/db/schema';
 import { eq, and } from 'drizzle-orm';
+import { requireMindMapOwner } from '@/lib/mind-maps';
 
 const corsHeaders = {
     'Access-Control-Allow-Origin': '*',
@@ -20,6 +21,9 @@ export async function POST(
 ) {
     try {
         const mindMapId = parseInt(params.id);
+        const access = await requireMindMapOwner(request, mindMapId, corsHeaders);
+        if ('response' in access) return access.response;
+
         const body = await request.json();
         const { nodeId, label, x, y, color, shape, referenceType, referenceId, metadata } = body;
 
@@ -30,6 +34,26 @@ export async function POST(
             );
         }
 
+        // Node ids are generated on the device, so a replayed request (e.g. from
+        // the app's offline outbox) finds its node already there
+        const [existing] = await db
+            .select()
+            .from(mindMapNodes)
+            .where(
+                and(
+                    eq(mindMapNodes.mindMapId, mindMapId),
+                    eq(mindMapNodes.nodeId, nodeId)
+                )
+            )
+            .limit(1);
+
+        if (existing) {
+            return NextResponse.json({
+                success: true,
+                node: existing,
+            }, { headers: corsHeaders });
+        }
+
         const [newNode] = await db
             .insert(mindMapNodes)
             .values({
@@ -72,6 +96,9 @@ export async function PUT(
 ) {
     try {
         const mindMapId = parseInt(params.id);
+        const access = await requireMindMapOwner(request, mindMapId, corsHeaders);
+        if ('response' in access) return access.response;
+
         const body = await request.json();
         const { nodeId, label, x, y, color, shape, width, height, referenceType, referenceId, metadata } = body;
 
@@ -138,6 +165,9 @@ export async function DELETE(
 ) {
     try {
         const mindMapId = parseInt(params.id);
+        const access = await requireMindMapOwner(request, mindMapId, corsHeaders);
+        if ('response' in access) return access.response;
+
         const { searchParams } = new URL(request.url);
         const nodeId = searchParams.get('nodeId');
 
@@ -158,11 +188,12 @@ export async function DELETE(
             )
             .returning();
 
+        // Deleting twice (e.g. a replayed request) is not an error
         if (!deleted) {
-            return NextResponse.json(
-                { success: false, error: 'Node not found' },
-                { status: 404, headers: corsHeaders }
-            );
+            return NextResponse.json({
+                success: true,
+                message: 'Node already deleted',
+            }, { headers: corsHeaders });
         }
 
         // Update mind map timestamp
@@ -191,6 +222,9 @@ export async function PATCH(
 ) {
     try {
         const mindMapId = parseInt(params.id);
+        const access = await requireMindMapOwner(request, mindMapId, corsHeaders);
+        if ('response' in access) return access.response;
+
         const body = await request.json();
         const { nodes } = body; // Array of { nodeId, x, y }
 
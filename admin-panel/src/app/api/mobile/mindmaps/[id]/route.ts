@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { mindMaps, mindMapNodes, mindMapConnections } from '@/lib/db/schema';
 import { eq, and } from 'drizzle-orm';
+import { requireMindMapOwner } from '@/lib/mind-maps';
 
 const corsHeaders = {
     'Access-Control-Allow-Origin': '*',
@@ -20,18 +21,10 @@ export async function GET(
 ) {
     try {
         const mindMapId = parseInt(params.id);
+        const access = await requireMindMapOwner(request, mindMapId, corsHeaders);
+        if ('response' in access) return access.response;
 
-        const [mindMap] = await db
-            .select()
-            .from(mindMaps)
-            .where(eq(mindMaps.id, mindMapId));
-
-        if (!mindMap) {
-            return NextResponse.json(
-                { success: false, error: 'Mind map not found' },
-                { status: 404, headers: corsHeaders }
-            );
-        }
+        const { mindMap } = access;
 
         const nodes = await db
             .select()
@@ -72,6 +65,9 @@ export async function PUT(
 ) {
     try {
         const mindMapId = parseInt(params.id);
+        const access = await requireMindMapOwner(request, mindMapId, corsHeaders);
+        if ('response' in access) return access.response;
+
         const body = await request.json();
         const { title, description, canvasState, tags } = body;
 
@@ -114,6 +110,8 @@ export async function DELETE(
 ) {
     try {
         const mindMapId = parseInt(params.id);
+        const access = await requireMindMapOwner(request, mindMapId, corsHeaders);
+        if ('response' in access) return access.response;
 
         const [deleted] = await db
             .delete(mindMaps)
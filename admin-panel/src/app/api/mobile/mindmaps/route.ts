@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
-import { mindMaps, mindMapNodes, mindMapConnections, users } from '@/lib/db/schema';
+import { mindMaps, mindMapNodes, mindMapConnections } from '@/lib/db/schema';
 import { eq, desc, and } from 'drizzle-orm';
+import { requireMobileUser } from '@/lib/mobile-user';
 
 const corsHeaders = {
     'Access-Control-Allow-Origin': '*',
@@ -13,23 +14,16 @@ export async function OPTIONS() {
     return NextResponse.json({}, { headers: corsHeaders });
 }
 
-// Get all mind maps for a user
+// Get all of the signed-in user's mind maps
 export async function GET(request: NextRequest) {
     try {
-        const { searchParams } = new URL(request.url);
-        const userId = searchParams.get('userId');
-
-        if (!userId) {
-            return NextResponse.json(
-                { success: false, error: 'User ID required' },
-                { status: 400, headers: corsHeaders }
-            );
-        }
+        const auth = await requireMobileUser(request, corsHeaders);
+        if ('response' in auth) return auth.response;
 
         const userMindMaps = await db
             .select()
             .from(mindMaps)
-            .where(eq(mindMaps.userId, parseInt(userId)))
+            .where(eq(mindMaps.userId, auth.user.id))
             .orderBy(desc(mindMaps.updatedAt));
 
         return NextResponse.json({
@@ -51,32 +45,20 @@ export async function POST(request: NextRequest) {
         const body = await request.json();
         const { userId, title, description, tags } = body;
 
-        if (!userId || !title) {
-            return NextResponse.json(
-                { success: false, error: 'User ID and title required' },
-                { status: 400, headers: corsHeaders }
-            );
-        }
+        const auth = await requireMobileUser(request, corsHeaders, userId);
+        if ('response' in auth) return auth.response;
 
-        // Verify user exists
-        const userIdInt = parseInt(userId);
-        const [existingUser] = await db
-            .select({ id: users.id })
-            .from(users)
-            .where(eq(users.id, userIdInt))
-            .limit(1);
-
-        if (!existingUser) {
+        if (!title) {
             return NextResponse.json(
-                { success: false, error: `User with ID ${userIdInt} not found. Please log in again.` },
-                { status: 404, headers: corsHeaders }
+                { success: false, error: 'Title required' },
+                { status: 400, headers: corsHeaders }
             );
         }
 
         const [newMindMap] = await db
             .insert(mindMaps)
             .values({
-                userId: userIdInt,
+                userId: auth.user.id,
                 title,
                 description: description || null,
                 tags: tags || [],
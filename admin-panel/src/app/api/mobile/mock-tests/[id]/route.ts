@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { mockTestAttempts } from '@/lib/db/schema';
+import { eq, and } from 'drizzle-orm';
+import {
+    isAttemptExpired,
+    loadPaperQuestions,
+    sanitizeAnswers,
+    sanitizeMarked,
+    serializeAttempt,
+    submitAttempt,
+    SUBMIT_GRACE_SECONDS,
+} from '@/lib/mock-test';
+import { getRequestLanguage } from '@/lib/i18n';
+import { requireMobileUser } from '@/lib/mobile-user';
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, PUT, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+export async function OPTIONS() {
+    return NextResponse.json({}, { headers: corsHeaders });
+}
+
+async function findAttempt(id: string, userId: number) {
+    const [attempt] = await db
+        .select()
+        .from(mockTestAttempts)
+        .where(and(
+            eq(mockTestAttempts.id, parseInt(id)),
+            eq(mockTestAttempts.userId, userId)
+        ))
+        .limit(1);
+    return attempt;
+}
+
+// GET /api/mobile/mock-tests/[id] - Paper to resume, or the scored result once submitted
+export async function GET(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const auth = await requireMobileUser(request, corsHeaders);
+        if ('response' in auth) return auth.response;
+
+        const { searchParams } = new URL(request.url);
+        const lang = getRequestLanguage(searchParams);
+
+        let attempt = await findAttempt(params.id, auth.user.id);
+        if (!attempt) {
+            return NextResponse.json(
+                { success: false, error: 'Mock test not found' },
+                { status: 404, headers: corsHeaders }
+            );
+        }
+
+        if (attempt.status === 'in_progress' && isAttemptExpired(attempt, SUBMIT_GRACE_SECONDS)) {
+            attempt = (await submitAttempt(attempt, attempt.answers, attempt.markedForReview)).attempt;
+        }
+
+        const questions = await loadPaperQuestions(attempt.questionIds);
+
+        return NextResponse.json({
+            success: true,
+            attempt: serializeAttempt(attempt, questions, lang),
+        }, { headers: corsHeaders });
+    } catch (error) {
+        console.error('Get mock test error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Internal server error' },
+            { status: 500, headers: corsHeaders }
+        );
+    }
+}
+
+// PUT /api/mobile/mock-tests/[id] - Save answers and review marks while the paper is running
+export async function PUT(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const body = await request.json();
+        const { userId, answers, markedForReview } = body;
+
+        const auth = await requireMobileUser(request, corsHeaders, userId);
+        if ('response' in auth) return auth.response;
+
+        const attempt = await findAttempt(params.id, auth.user.id);
+        if (!attempt) {
+            return NextResponse.json(
+                { success: false, error: 'Mock test not found' },
+                { status: 404, headers: corsHeaders }
+            );
+        }
+
+        if (attempt.status !== 'in_progress' || isAttemptExpired(attempt, SUBMIT_GRACE_SECONDS)) {
+            return NextResponse.json(
+                { success: false, error: 'This mock test is closed' },
+                { status: 409, headers: corsHeaders }
+            );
+        }
+
+        const [saved] = await db
+            .update(mockTestAttempts)
+            .set({
+                answers: answers !== undefined ? sanitizeAnswers(answers, attempt.questionIds) : attempt.answers,
+                markedForReview: markedForReview !== undefined ? sanitizeMarked(markedForReview, attempt.questionIds) : attempt.markedForReview,
+                updatedAt: new Date(),
+            })
+            .where(and(eq(mockTestAttempts.id, attempt.id), eq(mockTestAttempts.status, 'in_progress')))
+            .returning({ updatedAt: mockTestAttempts.updatedAt });
+
+        // Submitted while this save was in flight
+        if (!saved) {
+            return NextResponse.json(
+                { success: false, error: 'This mock test is closed' },
+                { status: 409, headers: corsHeaders }
+            );
+        }
+
+        return NextResponse.json({ success: true, savedAt: saved.updatedAt }, { headers: corsHeaders });
+    } catch (error) {
+        console.error('Save mock test error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Internal server error' },
+            { status: 500, headers: corsHeaders }
+        );
+    }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { mockTestAttempts } from '@/lib/db/schema';
+import { eq, and } from 'drizzle-orm';
+import {
+    isAttemptExpired,
+    loadPaperQuestions,
+    sanitizeAnswers,
+    sanitizeMarked,
+    serializeAttempt,
+    submitAttempt,
+    SUBMIT_GRACE_SECONDS,
+} from '@/lib/mock-test';
+import { getRequestLanguage } from '@/lib/i18n';
+import { requireMobileUser } from '@/lib/mobile-user';
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+export async function OPTIONS() {
+    return NextResponse.json({}, { headers: corsHeaders });
+}
+
+// POST /api/mobile/mock-tests/[id]/submit - Score the paper and reveal answers
+export async function POST(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const body = await request.json();
+        const { userId, answers, markedForReview } = body;
+        const lang = getRequestLanguage(new URL(request.url).searchParams);
+
+        const auth = await requireMobileUser(request, corsHeaders, userId);
+        if ('response' in auth) return auth.response;
+
+        const [attempt] = await db
+            .select()
+            .from(mockTestAttempts)
+            .where(and(
+                eq(mockTestAttempts.id, parseInt(params.id)),
+                eq(mockTestAttempts.userId, auth.user.id)
+            ))
+            .limit(1);
+
+        if (!attempt) {
+            return NextResponse.json(
+                { success: false, error: 'Mock test not found' },
+                { status: 404, headers: corsHeaders }
+            );
+        }
+
+        // Already scored (e.g. from another device): return the existing result
+        if (attempt.status === 'submitted') {
+            const questions = await loadPaperQuestions(attempt.questionIds);
+            return NextResponse.json({
+                success: true,
+                attempt: serializeAttempt(attempt, questions, lang),
+            }, { headers: corsHeaders });
+        }
+
+        // Answers sent after the deadline are ignored; the last saved answers count
+        const lateSubmit = isAttemptExpired(attempt, SUBMIT_GRACE_SECONDS);
+        const finalAnswers = !lateSubmit && answers !== undefined ? sanitizeAnswers(answers, attempt.questionIds) : attempt.answers;
+        const finalMarked = !lateSubmit && markedForReview !== undefined ? sanitizeMarked(markedForReview, attempt.questionIds) : attempt.markedForReview;
+
+        const { attempt: submitted, questions } = await submitAttempt(attempt, finalAnswers, finalMarked);
+
+        return NextResponse.json({
+            success: true,
+            attempt: serializeAttempt(submitted, questions, lang),
+        }, { headers: corsHeaders });
+    } catch (error) {
+        console.error('Submit mock test error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Internal server error' },
+            { status: 500, headers: corsHeaders }
+        );
+    }
+}
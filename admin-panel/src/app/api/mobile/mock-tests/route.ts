@@ -0,0 +1,156 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { mockTestAttempts, questionSets } from '@/lib/db/schema';
+import { eq, and, desc } from 'drizzle-orm';
+import {
+    assemblePaper,
+    attemptDeadline,
+    isAttemptExpired,
+    loadPaperQuestions,
+    serializeAttempt,
+    submitAttempt,
+    MOCK_TEST_DURATION_SECONDS,
+    MOCK_TEST_QUESTION_COUNT,
+    SUBMIT_GRACE_SECONDS,
+} from '@/lib/mock-test';
+import { getRequestLanguage } from '@/lib/i18n';
+import { requireMobileUser } from '@/lib/mobile-user';
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+export async function OPTIONS() {
+    return NextResponse.json({}, { headers: corsHeaders });
+}
+
+// GET /api/mobile/mock-tests - Attempt history and the paper in progress, if any
+export async function GET(request: NextRequest) {
+    try {
+        const auth = await requireMobileUser(request, corsHeaders);
+        if ('response' in auth) return auth.response;
+
+        const { searchParams } = new URL(request.url);
+        const limit = parseInt(searchParams.get('limit') || '20');
+
+        const userIdInt = auth.user.id;
+
+        let attempts = await db
+            .select()
+            .from(mockTestAttempts)
+            .where(eq(mockTestAttempts.userId, userIdInt))
+            .orderBy(desc(mockTestAttempts.startedAt))
+            .limit(limit);
+
+        // Papers whose time ran out without a submit are scored with the answers saved so far
+        const expired = attempts.filter(a => a.status === 'in_progress' && isAttemptExpired(a, SUBMIT_GRACE_SECONDS));
+        for (const attempt of expired) {
+            const { attempt: submitted } = await submitAttempt(attempt, attempt.answers, attempt.markedForReview);
+            attempts = attempts.map(a => (a.id === submitted.id ? submitted : a));
+        }
+
+        const setTitles = new Map(
+            (await db.select({ id: questionSets.id, title: questionSets.title }).from(questionSets))
+                .map(set => [set.id, set.title])
+        );
+
+        const summaries = attempts.map(attempt => ({
+            id: attempt.id,
+            title: attempt.questionSetId ? setTitles.get(attempt.questionSetId) || 'Question bank' : 'Mixed Prelims paper',
+            questionSetId: attempt.questionSetId,
+            status: attempt.status,
+            questionCount: attempt.questionIds.length,
+            answeredCount: Object.keys(attempt.answers).length,
+            startedAt: attempt.startedAt,
+            deadline: attemptDeadline(attempt),
+            submittedAt: attempt.submittedAt,
+            score: attempt.score,
+            maxScore: attempt.maxScore,
+            correctCount: attempt.correctCount,
+            incorrectCount: attempt.incorrectCount,
+        }));
+
+        return NextResponse.json({
+            success: true,
+            inProgress: summaries.find(a => a.status === 'in_progress') || null,
+            attempts: summaries.filter(a => a.status === 'submitted'),
+        }, { headers: corsHeaders });
+    } catch (error) {
+        console.error('Get mock tests error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Internal server error' },
+            { status: 500, headers: corsHeaders }
+        );
+    }
+}
+
+// POST /api/mobile/mock-tests - Start a timed paper, or resume the one in progress
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json();
+        const { userId, questionSetId } = body;
+        const lang = getRequestLanguage(new URL(request.url).searchParams);
+
+        const auth = await requireMobileUser(request, corsHeaders, userId);
+        if ('response' in auth) return auth.response;
+
+        const userIdInt = auth.user.id;
+        const setId = questionSetId ? parseInt(String(questionSetId)) : null;
+
+        // One paper at a time: resume the same paper, close any other one
+        const [active] = await db
+            .select()
+            .from(mockTestAttempts)
+            .where(and(eq(mockTestAttempts.userId, userIdInt), eq(mockTestAttempts.status, 'in_progress')))
+            .limit(1);
+
+        if (active) {
+            if (active.questionSetId === setId && !isAttemptExpired(active)) {
+                const questions = await loadPaperQuestions(active.questionIds);
+                return NextResponse.json({
+                    success: true,
+                    resumed: true,
+                    attempt: serializeAttempt(active, questions, lang),
+                }, { headers: corsHeaders });
+            }
+            await submitAttempt(active, active.answers, active.markedForReview);
+        }
+
+        const questionIds = await assemblePaper(setId);
+        if (questionIds.length === 0) {
+            return NextResponse.json(
+                { success: false, error: 'No questions available for this paper' },
+                { status: 404, headers: corsHeaders }
+            );
+        }
+
+        // Shorter papers get proportionally less time, at the Prelims rate of 1.2 minutes per question
+        const durationSeconds = Math.round(MOCK_TEST_DURATION_SECONDS * Math.min(questionIds.length, MOCK_TEST_QUESTION_COUNT) / MOCK_TEST_QUESTION_COUNT);
+
+        const [attempt] = await db
+            .insert(mockTestAttempts)
+            .values({
+                userId: userIdInt,
+                questionSetId: setId,
+                questionIds,
+                durationSeconds,
+            })
+            .returning();
+
+        const questions = await loadPaperQuestions(questionIds);
+
+        return NextResponse.json({
+            success: true,
+            resumed: false,
+            attempt: serializeAttempt(attempt, questions, lang),
+        }, { status: 201, headers: corsHeaders });
+    } catch (error) {
+        console.error('Start mock test error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Internal server error' },
+            { status: 500, headers: corsHeaders }
+        );
+    }
+}
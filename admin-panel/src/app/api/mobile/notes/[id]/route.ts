@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
-import { notes, tags, noteTags } from '@/lib/db/schema';
-import { eq, inArray } from 'drizzle-orm';
+import { notes, tags, noteTags, noteFolders } from '@/lib/db/schema';
+import { eq, and, isNull, inArray, sql } from 'drizzle-orm';
+import { refreshBacklinks } from '@/lib/note-links';
+import { requireMobileUser } from '@/lib/mobile-user';
 
 const corsHeaders = {
     'Access-Control-Allow-Origin': '*',
@@ -43,6 +45,9 @@ export async function GET(
     { params }: { params: Promise<{ id: string }> }
 ) {
     try {
+        const auth = await requireMobileUser(request, corsHeaders);
+        if ('response' in auth) return auth.response;
+
         const { id } = await params;
         const noteId = parseInt(id);
 
@@ -56,7 +61,7 @@ export async function GET(
         const [note] = await db
             .select()
             .from(notes)
-            .where(eq(notes.id, noteId))
+            .where(and(eq(notes.id, noteId), eq(notes.userId, auth.user.id), isNull(notes.deletedAt)))
             .limit(1);
 
         if (!note) {
@@ -77,11 +82,20 @@ export async function GET(
             .innerJoin(noteTags, eq(noteTags.tagId, tags.id))
             .where(eq(noteTags.noteId, noteId));
 
+        // Notes that link here with [[title]]
+        const linkedReferences = note.backlinks && note.backlinks.length > 0
+            ? await db
+                .select({ id: notes.id, title: notes.title, plainText: notes.plainText, updatedAt: notes.updatedAt })
+                .from(notes)
+                .where(and(inArray(notes.id, note.backlinks), isNull(notes.deletedAt)))
+            : [];
+
         return NextResponse.json({
             success: true,
             note: {
                 ...note,
                 tags: noteTags_,
+                linkedReferences,
             },
         }, { headers: corsHeaders });
     } catch (error) {
@@ -102,7 +116,10 @@ export async function PUT(
         const { id } = await params;
         const noteId = parseInt(id);
         const body = await request.json();
-        const { title, content, plainText: rawPlainText, tagIds, isPinned, isArchived } = body;
+        const { userId, title, content, plainText: rawPlainText, tagIds, isPinned, isArchived, folderId } = body;
+
+        const auth = await requireMobileUser(request, corsHeaders, userId);
+        if ('response' in auth) return auth.response;
 
         if (isNaN(noteId)) {
             return NextResponse.json(
@@ -113,9 +130,9 @@ export async function PUT(
 
         // Check if note exists
         const [existingNote] = await db
-            .select({ id: notes.id })
+            .select({ id: notes.id, userId: notes.userId })
             .from(notes)
-            .where(eq(notes.id, noteId))
+            .where(and(eq(notes.id, noteId), eq(notes.userId, auth.user.id), isNull(notes.deletedAt)))
             .limit(1);
 
         if (!existingNote) {
@@ -125,9 +142,25 @@ export async function PUT(
             );
         }
 
-        // Build update object
+        if (folderId) {
+            const [folder] = await db
+                .select({ id: noteFolders.id })
+                .from(noteFolders)
+                .where(and(eq(noteFolders.id, parseInt(String(folderId))), eq(noteFolders.userId, existingNote.userId!)))
+                .limit(1);
+
+            if (!folder) {
+                return NextResponse.json(
+                    { success: false, error: 'Folder not found' },
+                    { status: 404, headers: corsHeaders }
+                );
+            }
+        }
+
+        // Build update object (version bump lets synced devices detect this edit)
         const updateData: Record<string, any> = {
             updatedAt: new Date(),
+            version: sql`${notes.version} + 1`,
         };
 
         if (title !== undefined) {
@@ -150,6 +183,10 @@ export async function PUT(
             updateData.isArchived = isArchived;
         }
 
+        if (folderId !== undefined) {
+            updateData.folderId = folderId ? parseInt(String(folderId)) : null;
+        }
+
         // Update the note
         const [updatedNote] = await db
             .update(notes)
@@ -173,6 +210,10 @@ export async function PUT(
             }
         }
 
+        if (existingNote.userId && (title !== undefined || updateData.plainText !== undefined)) {
+            await refreshBacklinks(existingNote.userId);
+        }
+
         // Fetch updated tags
         const noteTags_ = await db
             .select({
@@ -206,6 +247,9 @@ export async function DELETE(
     { params }: { params: Promise<{ id: string }> }
 ) {
     try {
+        const auth = await requireMobileUser(request, corsHeaders);
+        if ('response' in auth) return auth.response;
+
         const { id } = await params;
         const noteId = parseInt(id);
 
@@ -218,9 +262,9 @@ export async function DELETE(
 
         // Check if note exists
         const [existingNote] = await db
-            .select({ id: notes.id })
+            .select({ id: notes.id, userId: notes.userId })
             .from(notes)
-            .where(eq(notes.id, noteId))
+            .where(and(eq(notes.id, noteId), eq(notes.userId, auth.user.id), isNull(notes.deletedAt)))
             .limit(1);
 
         if (!existingNote) {
@@ -230,8 +274,15 @@ export async function DELETE(
             );
         }
 
-        // Delete the note (cascade will handle note_tags)
-        await db.delete(notes).where(eq(notes.id, noteId));
+        // Soft delete: synced devices pick up the tombstone on their next pull
+        await db
+            .update(notes)
+            .set({ deletedAt: new Date(), updatedAt: new Date(), version: sql`${notes.version} + 1` })
+            .where(eq(notes.id, noteId));
+
+        if (existingNote.userId) {
+            await refreshBacklinks(existingNote.userId);
+        }
 
         return NextResponse.json({
             success: true,
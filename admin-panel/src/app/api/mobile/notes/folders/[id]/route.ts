@@ -0,0 +1,172 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { noteFolders, notes } from '@/lib/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { requireMobileUser } from '@/lib/mobile-user';
+import { getUserFolders, folderDepth, isWithinFolder, MAX_FOLDER_DEPTH } from '@/lib/note-folders';
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'PUT, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+export async function OPTIONS() {
+    return NextResponse.json({}, { headers: corsHeaders });
+}
+
+// PUT /api/mobile/notes/folders/[id] - Rename, recolor, reorder or move a folder
+// Body: { name?, color?, sortOrder?, parentId? } (parentId null = move to top level)
+export async function PUT(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const auth = await requireMobileUser(request, corsHeaders);
+        if ('response' in auth) return auth.response;
+        const { user } = auth;
+
+        const { id } = await params;
+        const folderId = parseInt(id);
+        const body = await request.json();
+
+        const folders = await getUserFolders(user.id);
+        const folder = folders.find(f => f.id === folderId);
+
+        if (!folder) {
+            return NextResponse.json(
+                { success: false, error: 'Folder not found' },
+                { status: 404, headers: corsHeaders }
+            );
+        }
+
+        const updateData: Partial<typeof noteFolders.$inferInsert> = {
+            updatedAt: new Date(),
+        };
+
+        if (body.name !== undefined) {
+            const name = String(body.name).trim();
+            if (!name) {
+                return NextResponse.json(
+                    { success: false, error: 'Folder name required' },
+                    { status: 400, headers: corsHeaders }
+                );
+            }
+            updateData.name = name.slice(0, 200);
+        }
+
+        if (body.color !== undefined) {
+            updateData.color = body.color || null;
+        }
+
+        if (body.sortOrder !== undefined) {
+            updateData.sortOrder = parseInt(String(body.sortOrder)) || 0;
+        }
+
+        if (body.parentId !== undefined) {
+            const parentId = body.parentId ? parseInt(String(body.parentId)) : null;
+
+            if (parentId && !folders.some(f => f.id === parentId)) {
+                return NextResponse.json(
+                    { success: false, error: 'Parent folder not found' },
+                    { status: 404, headers: corsHeaders }
+                );
+            }
+
+            if (parentId && isWithinFolder(folders, parentId, folderId)) {
+                return NextResponse.json(
+                    { success: false, error: 'A folder cannot be moved into itself' },
+                    { status: 400, headers: corsHeaders }
+                );
+            }
+
+            // The moved subtree keeps its shape, so its deepest folder must still fit
+            const ownDepth = folderDepth(folders, folderId);
+            const subtreeHeight = Math.max(
+                ...folders
+                    .filter(f => isWithinFolder(folders, f.id, folderId))
+                    .map(f => folderDepth(folders, f.id) - ownDepth + 1)
+            );
+
+            if (folderDepth(folders, parentId) + subtreeHeight > MAX_FOLDER_DEPTH) {
+                return NextResponse.json(
+                    { success: false, error: `Folders can be nested at most ${MAX_FOLDER_DEPTH} levels deep` },
+                    { status: 400, headers: corsHeaders }
+                );
+            }
+
+            updateData.parentId = parentId;
+        }
+
+        const [updatedFolder] = await db
+            .update(noteFolders)
+            .set(updateData)
+            .where(eq(noteFolders.id, folderId))
+            .returning();
+
+        return NextResponse.json({
+            success: true,
+            folder: updatedFolder,
+        }, { headers: corsHeaders });
+    } catch (error) {
+        console.error('Update folder error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Internal server error' },
+            { status: 500, headers: corsHeaders }
+        );
+    }
+}
+
+// DELETE /api/mobile/notes/folders/[id] - Delete a folder
+// Its notes and subfolders move up to the parent folder, so nothing is lost
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const auth = await requireMobileUser(request, corsHeaders);
+        if ('response' in auth) return auth.response;
+        const { user } = auth;
+
+        const { id } = await params;
+        const folderId = parseInt(id);
+
+        const [folder] = await db
+            .select()
+            .from(noteFolders)
+            .where(and(eq(noteFolders.id, folderId), eq(noteFolders.userId, user.id)))
+            .limit(1);
+
+        if (!folder) {
+            return NextResponse.json(
+                { success: false, error: 'Folder not found' },
+                { status: 404, headers: corsHeaders }
+            );
+        }
+
+        await db.transaction(async (tx) => {
+            await tx
+                .update(notes)
+                .set({ folderId: folder.parentId })
+                .where(eq(notes.folderId, folderId));
+
+            await tx
+                .update(noteFolders)
+                .set({ parentId: folder.parentId, updatedAt: new Date() })
+                .where(eq(noteFolders.parentId, folderId));
+
+            await tx.delete(noteFolders).where(eq(noteFolders.id, folderId));
+        });
+
+        return NextResponse.json({
+            success: true,
+            message: 'Folder deleted successfully',
+        }, { headers: corsHeaders });
+    } catch (error) {
+        console.error('Delete folder error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Internal server error' },
+            { status: 500, headers: corsHeaders }
+        );
+    }
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { noteFolders } from '@/lib/db/schema';
+import { corsHeaders } from '../../_cors';
+import { requireMobileUser } from '@/lib/mobile-user';
+import { getFolderTree, getUserFolders, folderDepth, MAX_FOLDER_DEPTH } from '@/lib/note-folders';
+
+export const dynamic = 'force-dynamic';
+
+export async function OPTIONS() {
+    return NextResponse.json({}, { headers: corsHeaders });
+}
+
+// GET /api/mobile/notes/folders - The user's folder tree with note counts
+export async function GET(request: NextRequest) {
+    try {
+        const auth = await requireMobileUser(request, corsHeaders);
+        if ('response' in auth) return auth.response;
+        const { user } = auth;
+
+        const folders = await getFolderTree(user.id);
+
+        return NextResponse.json({
+            success: true,
+            folders,
+        }, { headers: corsHeaders });
+    } catch (error) {
+        console.error('List folders error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Internal server error' },
+            { status: 500, headers: corsHeaders }
+        );
+    }
+}
+
+// POST /api/mobile/notes/folders - Create a folder
+// Body: { name, parentId?, color?, sortOrder? }
+export async function POST(request: NextRequest) {
+    try {
+        const auth = await requireMobileUser(request, corsHeaders);
+        if ('response' in auth) return auth.response;
+        const { user } = auth;
+
+        const body = await request.json();
+        const name = typeof body.name === 'string' ? body.name.trim() : '';
+        const parentId = body.parentId ? parseInt(String(body.parentId)) : null;
+
+        if (!name) {
+            return NextResponse.json(
+                { success: false, error: 'Folder name required' },
+                { status: 400, headers: corsHeaders }
+            );
+        }
+
+        if (parentId) {
+            const folders = await getUserFolders(user.id);
+
+            if (!folders.some(f => f.id === parentId)) {
+                return NextResponse.json(
+                    { success: false, error: 'Parent folder not found' },
+                    { status: 404, headers: corsHeaders }
+                );
+            }
+
+            if (folderDepth(folders, parentId) >= MAX_FOLDER_DEPTH) {
+                return NextResponse.json(
+                    { success: false, error: `Folders can be nested at most ${MAX_FOLDER_DEPTH} levels deep` },
+                    { status: 400, headers: corsHeaders }
+                );
+            }
+        }
+
+        const [folder] = await db
+            .insert(noteFolders)
+            .values({
+                userId: user.id,
+                parentId,
+                name: name.slice(0, 200),
+                color: body.color || null,
+                sortOrder: parseInt(String(body.sortOrder ?? 0)) || 0,
+            })
+            .returning();
+
+        return NextResponse.json({
+            success: true,
+            folder: { ...folder, noteCount: 0, children: [] },
+        }, { status: 201, headers: corsHeaders });
+    } catch (error) {
+        console.error('Create folder error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Internal server error' },
+            { status: 500, headers: corsHeaders }
+        );
+    }
+}
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
-import { notes, tags, noteTags, users } from '@/lib/db/schema';
-import { eq, desc, and, inArray, count } from 'drizzle-orm';
+import { notes, tags, noteTags, noteFolders } from '@/lib/db/schema';
+import { refreshBacklinks } from '@/lib/note-links';
+import { requireMobileUser } from '@/lib/mobile-user';
+import { eq, desc, and, inArray, count, isNull } from 'drizzle-orm';
 
 const corsHeaders = {
     'Access-Control-Allow-Origin': '*',
@@ -37,28 +39,23 @@ function extractPlainText(content: any): string {
     return text.trim();
 }
 
-// GET /api/mobile/notes - List notes for a user
+// GET /api/mobile/notes - List the signed-in user's notes
 export async function GET(request: NextRequest) {
     try {
+        const auth = await requireMobileUser(request, corsHeaders);
+        if ('response' in auth) return auth.response;
+
         const { searchParams } = new URL(request.url);
-        const userId = searchParams.get('userId');
         const page = parseInt(searchParams.get('page') || '1');
         const limit = parseInt(searchParams.get('limit') || '20');
         const isPinned = searchParams.get('isPinned');
         const isArchived = searchParams.get('isArchived');
+        const folderId = searchParams.get('folderId'); // 'none' = notes outside any folder
         const offset = (page - 1) * limit;
-
-        if (!userId) {
-            return NextResponse.json(
-                { success: false, error: 'User ID required' },
-                { status: 400, headers: corsHeaders }
-            );
-        }
-
-        const userIdInt = parseInt(userId);
+        const userIdInt = auth.user.id;
         
         // Build conditions
-        const conditions = [eq(notes.userId, userIdInt)];
+        const conditions = [eq(notes.userId, userIdInt), isNull(notes.deletedAt)];
         
         if (isArchived !== null && isArchived !== undefined) {
             conditions.push(eq(notes.isArchived, isArchived === 'true'));
@@ -67,6 +64,12 @@ export async function GET(request: NextRequest) {
             conditions.push(eq(notes.isArchived, false));
         }
 
+        if (folderId === 'none') {
+            conditions.push(isNull(notes.folderId));
+        } else if (folderId) {
+            conditions.push(eq(notes.folderId, parseInt(folderId)));
+        }
+
         // Fetch notes
         const userNotes = await db
             .select({
@@ -77,6 +80,8 @@ export async function GET(request: NextRequest) {
                 plainText: notes.plainText,
                 isPinned: notes.isPinned,
                 isArchived: notes.isArchived,
+                folderId: notes.folderId,
+                backlinks: notes.backlinks,
                 createdAt: notes.createdAt,
                 updatedAt: notes.updatedAt,
             })
@@ -135,29 +140,33 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
     try {
         const body = await request.json();
-        const { userId, title, content, plainText: rawPlainText, tagIds = [] } = body;
+        const { userId, title, content, plainText: rawPlainText, tagIds = [], folderId } = body;
+
+        const auth = await requireMobileUser(request, corsHeaders, userId);
+        if ('response' in auth) return auth.response;
 
-        if (!userId || !title) {
+        if (!title) {
             return NextResponse.json(
-                { success: false, error: 'User ID and title required' },
+                { success: false, error: 'Title required' },
                 { status: 400, headers: corsHeaders }
             );
         }
 
-        const userIdInt = parseInt(userId);
-
-        // Verify user exists
-        const [existingUser] = await db
-            .select({ id: users.id })
-            .from(users)
-            .where(eq(users.id, userIdInt))
-            .limit(1);
-
-        if (!existingUser) {
-            return NextResponse.json(
-                { success: false, error: `User with ID ${userIdInt} not found` },
-                { status: 404, headers: corsHeaders }
-            );
+        const userIdInt = auth.user.id;
+
+        if (folderId) {
+            const [folder] = await db
+                .select({ id: noteFolders.id })
+                .from(noteFolders)
+                .where(and(eq(noteFolders.id, parseInt(String(folderId))), eq(noteFolders.userId, userIdInt)))
+                .limit(1);
+
+            if (!folder) {
+                return NextResponse.json(
+                    { success: false, error: 'Folder not found' },
+                    { status: 404, headers: corsHeaders }
+                );
+            }
         }
 
         // Use provided plainText or extract from content
@@ -171,6 +180,7 @@ export async function POST(request: NextRequest) {
                 title,
                 content: content || null,
                 plainText,
+                folderId: folderId ? parseInt(String(folderId)) : null,
             })
             .returning();
 
@@ -184,6 +194,8 @@ export async function POST(request: NextRequest) {
             await db.insert(noteTags).values(tagRows);
         }
 
+        await refreshBacklinks(userIdInt);
+
         // Fetch attached tags
         const attachedTags = tagIds.length > 0 
             ? await db
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { notes, tags, noteTags } from '@/lib/db/schema';
-import { eq, and, or, gte, lte, inArray, desc, sql, SQL } from 'drizzle-orm';
+import { eq, and, or, gte, lte, inArray, desc, sql, SQL, isNull } from 'drizzle-orm';
+import { requireMobileUser } from '@/lib/mobile-user';
 
 const corsHeaders = {
     'Access-Control-Allow-Origin': '*',
@@ -16,8 +17,10 @@ export async function OPTIONS() {
 // GET /api/mobile/notes/search - Search notes with FTS
 export async function GET(request: NextRequest) {
     try {
+        const auth = await requireMobileUser(request, corsHeaders);
+        if ('response' in auth) return auth.response;
+
         const { searchParams } = new URL(request.url);
-        const userId = searchParams.get('userId');
         const query = searchParams.get('query') || '';
         const tagNamesParam = searchParams.get('tags') || '';
         const from = searchParams.get('from'); // ISO date string
@@ -27,17 +30,10 @@ export async function GET(request: NextRequest) {
         const limit = parseInt(searchParams.get('limit') || '20');
         const offset = (page - 1) * limit;
 
-        if (!userId) {
-            return NextResponse.json(
-                { success: false, error: 'User ID required' },
-                { status: 400, headers: corsHeaders }
-            );
-        }
-
-        const userIdInt = parseInt(userId);
+        const userIdInt = auth.user.id;
         
         // Build conditions array
-        const conditions: SQL<unknown>[] = [eq(notes.userId, userIdInt)];
+        const conditions: SQL<unknown>[] = [eq(notes.userId, userIdInt), isNull(notes.deletedAt)];
 
         // Full-text search condition
         if (query.trim().length > 0) {
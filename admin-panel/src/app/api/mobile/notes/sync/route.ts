@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { corsHeaders } from '../../_cors';
+import { requireMobileUser } from '@/lib/mobile-user';
+import { applyNoteChange, getNoteChangesSince, NoteChange, ChangeResult, SYNC_BATCH_LIMIT } from '@/lib/notes-sync';
+import { refreshBacklinks } from '@/lib/note-links';
+
+export const dynamic = 'force-dynamic';
+
+export async function OPTIONS() {
+    return NextResponse.json({}, { headers: corsHeaders });
+}
+
+// POST /api/mobile/notes/sync - Push local note changes, then pull server changes since the cursor
+// Body: { changes?: NoteChange[], cursor?: string | null }
+export async function POST(request: NextRequest) {
+    try {
+        const auth = await requireMobileUser(request, corsHeaders);
+        if ('response' in auth) return auth.response;
+        const { user } = auth;
+
+        const body = await request.json();
+        const changes: NoteChange[] = Array.isArray(body.changes) ? body.changes : [];
+
+        if (changes.length > SYNC_BATCH_LIMIT) {
+            return NextResponse.json(
+                { success: false, error: `At most ${SYNC_BATCH_LIMIT} changes per request` },
+                { status: 400, headers: corsHeaders }
+            );
+        }
+
+        // Sequential so two changes to the same note apply in order
+        const results: ChangeResult[] = [];
+        for (const change of changes) {
+            results.push(await applyNoteChange(user.id, change));
+        }
+
+        if (results.some(r => r.status === 'applied')) {
+            await refreshBacklinks(user.id);
+        }
+
+        const pulled = await getNoteChangesSince(user.id, body.cursor);
+
+        const conflicts = results.filter(r => r.status === 'conflict').length;
+        if (changes.length > 0 || pulled.notes.length > 0) {
+            console.log(`[NotesSync] User ${user.id}: ${changes.length} pushed (${conflicts} conflicts), ${pulled.notes.length} pulled`);
+        }
+
+        return NextResponse.json({
+            success: true,
+            results,
+            changes: pulled.notes,
+            cursor: pulled.cursor,
+            hasMore: pulled.hasMore,
+        }, { headers: corsHeaders });
+    } catch (error) {
+        console.error('Notes sync error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Internal server error' },
+            { status: 500, headers: corsHeaders }
+        );
+    }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { OPENROUTER_API_KEY } from '@/lib/secure-config';
 import { corsHeaders } from '../_cors';
+import { withCredits } from '@/lib/credits';
 
 // Polyfill DOMMatrix for pdf-parse (backend only)
 if (typeof global.DOMMatrix === 'undefined') {
@@ -91,6 +92,10 @@ export async function OPTIONS() {
 }
 
 export async function POST(req: NextRequest) {
+    return withCredits(req, 'pdf_mcq', corsHeaders, () => generateFromUpload(req));
+}
+
+async function generateFromUpload(req: NextRequest) {
     console.log('[Backend-PDF] POST request received');
     try {
         // We use a more robust way to handle the body which might be large
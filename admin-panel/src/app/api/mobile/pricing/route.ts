@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { getPublicPricing } from '@/lib/pricing';
+import { corsHeaders } from '../_cors';
+
+// Prices are edited from the dashboard; never serve a build-time snapshot
+export const dynamic = 'force-dynamic';
+
+export async function OPTIONS() {
+    return NextResponse.json({}, { headers: corsHeaders });
+}
+
+// Public endpoint - feature costs, plans and credit packs for the billing screen
+export async function GET() {
+    try {
+        const pricing = await getPublicPricing();
+        return NextResponse.json({ success: true, ...pricing }, { headers: corsHeaders });
+    } catch (error) {
+        console.error('Get pricing error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to fetch pricing' },
+            { status: 500, headers: corsHeaders }
+        );
+    }
+}
@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { practiceQuestions, roadmapTopics } from '@/lib/db/schema';
+import { and, eq, desc, asc, ilike, inArray, isNotNull, count, SQL } from 'drizzle-orm';
+import { PYQ_SOURCES, QUESTION_SOURCES } from '@/lib/question-taxonomy';
+import { getRequestLanguage, localize } from '@/lib/i18n';
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+// Handle preflight requests
+export async function OPTIONS() {
+    return NextResponse.json({}, { headers: corsHeaders });
+}
+
+// Counts per year, subject and roadmap topic for the filter chips
+async function getFacets(baseCondition: SQL | undefined) {
+    const years = await db
+        .select({ year: practiceQuestions.year, count: count() })
+        .from(practiceQuestions)
+        .where(and(baseCondition, isNotNull(practiceQuestions.year)))
+        .groupBy(practiceQuestions.year)
+        .orderBy(desc(practiceQuestions.year));
+
+    const subjects = await db
+        .select({ subject: practiceQuestions.subject, count: count() })
+        .from(practiceQuestions)
+        .where(and(baseCondition, isNotNull(practiceQuestions.subject)))
+        .groupBy(practiceQuestions.subject)
+        .orderBy(asc(practiceQuestions.subject));
+
+    const topics = await db
+        .select({ id: roadmapTopics.id, name: roadmapTopics.name, paper: roadmapTopics.paper, count: count() })
+        .from(practiceQuestions)
+        .innerJoin(roadmapTopics, eq(practiceQuestions.topicId, roadmapTopics.id))
+        .where(baseCondition)
+        .groupBy(roadmapTopics.id, roadmapTopics.name, roadmapTopics.paper)
+        .orderBy(asc(roadmapTopics.paper), asc(roadmapTopics.name));
+
+    return { years, subjects, topics };
+}
+
+// Public endpoint - browse PYQs and practice questions by syllabus
+export async function GET(request: NextRequest) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const page = Math.max(parseInt(searchParams.get('page') || '1'), 1);
+        const limit = Math.min(parseInt(searchParams.get('limit') || '20'), 100);
+        const year = searchParams.get('year');
+        const subject = searchParams.get('subject');
+        const topicId = searchParams.get('topicId');
+        const difficulty = searchParams.get('difficulty');
+        const source = searchParams.get('source');
+        const search = searchParams.get('search');
+        const pyqOnly = searchParams.get('pyq') === 'true';
+        const includeFacets = searchParams.get('facets') === 'true';
+        const lang = getRequestLanguage(searchParams);
+
+        const baseCondition = pyqOnly ? inArray(practiceQuestions.source, PYQ_SOURCES) : undefined;
+
+        const conditions: (SQL | undefined)[] = [baseCondition];
+        if (year) conditions.push(eq(practiceQuestions.year, parseInt(year)));
+        if (subject) conditions.push(eq(practiceQuestions.subject, subject));
+        if (topicId) conditions.push(eq(practiceQuestions.topicId, parseInt(topicId)));
+        if (difficulty) conditions.push(eq(practiceQuestions.difficulty, difficulty));
+        if (source) conditions.push(eq(practiceQuestions.source, source));
+        if (search) conditions.push(ilike(practiceQuestions.question, `%${search}%`));
+        const where = and(...conditions);
+
+        const rows = await db
+            .select({
+                question: practiceQuestions,
+                topicName: roadmapTopics.name,
+            })
+            .from(practiceQuestions)
+            .leftJoin(roadmapTopics, eq(practiceQuestions.topicId, roadmapTopics.id))
+            .where(where)
+            .orderBy(desc(practiceQuestions.year), asc(practiceQuestions.id))
+            .limit(limit)
+            .offset((page - 1) * limit);
+
+        const [{ total }] = await db
+            .select({ total: count() })
+            .from(practiceQuestions)
+            .where(where);
+
+        const questions = rows.map(({ question: q, topicName }) => localize({
+            id: q.id,
+            question: q.question,
+            optionA: q.optionA,
+            optionB: q.optionB,
+            optionC: q.optionC,
+            optionD: q.optionD,
+            correctAnswer: q.correctAnswer,
+            explanation: q.explanation,
+            subject: q.subject,
+            topicId: q.topicId,
+            topicName,
+            year: q.year,
+            difficulty: q.difficulty,
+            source: q.source,
+            sourceLabel: q.source ? QUESTION_SOURCES[q.source as keyof typeof QUESTION_SOURCES] || q.source : null,
+            translations: q.translations,
+        }, lang));
+
+        return NextResponse.json({
+            success: true,
+            questions,
+            pagination: {
+                page,
+                limit,
+                total,
+                totalPages: Math.ceil(total / limit),
+            },
+            ...(includeFacets && { facets: await getFacets(baseCondition) }),
+        }, { headers: corsHeaders });
+    } catch (error) {
+        console.error('Get questions error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to fetch questions' },
+            { status: 500, headers: corsHeaders }
+        );
+    }
+}
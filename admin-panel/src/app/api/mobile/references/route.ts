@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { visualReferences, historyTimelineEvents } from '@/lib/db/schema';
 import { eq, asc } from 'drizzle-orm';
+import { getRequestLanguage, localize } from '@/lib/i18n';
 
 const corsHeaders = {
     'Access-Control-Allow-Origin': '*',
@@ -18,6 +19,7 @@ export async function GET(request: NextRequest) {
     try {
         const { searchParams } = new URL(request.url);
         const category = searchParams.get('category');
+        const lang = getRequestLanguage(searchParams);
 
         // Special handling for history timeline
         if (category === 'history_timeline') {
@@ -48,9 +50,11 @@ export async function GET(request: NextRequest) {
             // For a specific category, return the data directly
             // Data is stored as a single JSON blob per category
             if (references.length > 0) {
+                const localized = localize(references[0], lang);
                 return NextResponse.json({ 
-                    references: references[0].data,
-                    type: 'reference' 
+                    references: localized.data,
+                    type: 'reference',
+                    language: localized.language,
                 }, { headers: corsHeaders });
             }
             return NextResponse.json({ 
@@ -66,7 +70,7 @@ export async function GET(request: NextRequest) {
 
         // Group references by category
         const grouped = references.reduce((acc, ref) => {
-            acc[ref.category] = ref.data;
+            acc[ref.category] = localize(ref, lang).data;
             return acc;
         }, {} as Record<string, any>);
 
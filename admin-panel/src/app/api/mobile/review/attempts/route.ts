@@ -0,0 +1,189 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { articleMcqs, questionAttempts, reviewItems, ReviewQuestion } from '@/lib/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { gradeAttempt, scheduleReview, INITIAL_REVIEW_STATE } from '@/lib/spaced-repetition';
+import { requireMobileUser } from '@/lib/mobile-user';
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+const VALID_SOURCES = ['pdf_mcq', 'ai_mcq', 'article_mcq'];
+const VALID_ANSWER = /^[A-D]$/;
+
+// Column sizes in question_attempts / review_items
+const MAX_QUESTION_KEY_LENGTH = 255;
+const MAX_SESSION_ID_LENGTH = 100;
+
+interface AttemptInput {
+    source: string;
+    questionKey: string;
+    question?: ReviewQuestion;
+    selectedAnswer: string;
+    sessionId?: string;
+    timeTakenMs?: number;
+}
+
+export async function OPTIONS() {
+    return NextResponse.json({}, { headers: corsHeaders });
+}
+
+// Article MCQs live in the database, so their content is loaded server-side
+async function resolveQuestion(attempt: AttemptInput): Promise<ReviewQuestion | null> {
+    if (attempt.source === 'article_mcq') {
+        const mcqId = parseInt(attempt.questionKey);
+        if (isNaN(mcqId)) return null;
+
+        const [mcq] = await db
+            .select()
+            .from(articleMcqs)
+            .where(eq(articleMcqs.id, mcqId))
+            .limit(1);
+
+        if (!mcq) return null;
+
+        return {
+            question: mcq.question,
+            optionA: mcq.optionA,
+            optionB: mcq.optionB,
+            optionC: mcq.optionC,
+            optionD: mcq.optionD,
+            correctAnswer: mcq.correctAnswer,
+            explanation: mcq.explanation || undefined,
+        };
+    }
+
+    return attempt.question || null;
+}
+
+// POST /api/mobile/review/attempts - Record answered MCQs and reschedule reviews
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json();
+        const { userId, attempts } = body as { userId?: string | number; attempts: AttemptInput[] };
+
+        const auth = await requireMobileUser(request, corsHeaders, userId);
+        if ('response' in auth) return auth.response;
+
+        if (!Array.isArray(attempts) || attempts.length === 0) {
+            return NextResponse.json(
+                { success: false, error: 'Attempts required' },
+                { status: 400, headers: corsHeaders }
+            );
+        }
+
+        const userIdInt = auth.user.id;
+
+        const results = [];
+
+        for (const attempt of attempts) {
+            if (
+                !attempt ||
+                !VALID_SOURCES.includes(attempt.source) ||
+                !attempt.questionKey ||
+                String(attempt.questionKey).length > MAX_QUESTION_KEY_LENGTH ||
+                typeof attempt.selectedAnswer !== 'string' ||
+                !VALID_ANSWER.test(attempt.selectedAnswer.toUpperCase()) ||
+                (attempt.sessionId && String(attempt.sessionId).length > MAX_SESSION_ID_LENGTH)
+            ) {
+                results.push({ questionKey: attempt?.questionKey, error: 'Invalid attempt' });
+                continue;
+            }
+
+            const question = await resolveQuestion(attempt);
+            if (!question) {
+                results.push({ questionKey: attempt.questionKey, error: 'Question not found' });
+                continue;
+            }
+
+            // Client-supplied PDF/AI questions may arrive without an answer key
+            if (typeof question.correctAnswer !== 'string' || !question.correctAnswer) {
+                results.push({ questionKey: attempt.questionKey, error: 'Invalid attempt' });
+                continue;
+            }
+
+            const selectedAnswer = attempt.selectedAnswer.toUpperCase();
+            const isCorrect = selectedAnswer === question.correctAnswer.toUpperCase();
+            const now = new Date();
+
+            const [existingItem] = await db
+                .select()
+                .from(reviewItems)
+                .where(
+                    and(
+                        eq(reviewItems.userId, userIdInt),
+                        eq(reviewItems.source, attempt.source),
+                        eq(reviewItems.questionKey, attempt.questionKey)
+                    )
+                )
+                .limit(1);
+
+            let reviewItemId: number | null = existingItem?.id ?? null;
+            let dueAt: Date | null = existingItem?.dueAt ?? null;
+
+            // Only missed questions enter the queue; once queued, every attempt reschedules
+            if (existingItem || !isCorrect) {
+                const next = scheduleReview(
+                    existingItem || INITIAL_REVIEW_STATE,
+                    gradeAttempt(isCorrect, attempt.timeTakenMs),
+                    now
+                );
+
+                if (existingItem) {
+                    await db
+                        .update(reviewItems)
+                        .set({ ...next, question, lastReviewedAt: now, updatedAt: now })
+                        .where(eq(reviewItems.id, existingItem.id));
+                } else {
+                    // A concurrent attempt on the same question may have queued it
+                    // in the meantime; take over its row instead of failing
+                    const [created] = await db
+                        .insert(reviewItems)
+                        .values({
+                            userId: userIdInt,
+                            source: attempt.source,
+                            questionKey: attempt.questionKey,
+                            question,
+                            ...next,
+                            lastReviewedAt: now,
+                        })
+                        .onConflictDoUpdate({
+                            target: [reviewItems.userId, reviewItems.source, reviewItems.questionKey],
+                            set: { ...next, question, lastReviewedAt: now, updatedAt: now },
+                        })
+                        .returning({ id: reviewItems.id });
+                    reviewItemId = created.id;
+                }
+                dueAt = next.dueAt;
+            }
+
+            await db.insert(questionAttempts).values({
+                userId: userIdInt,
+                reviewItemId,
+                source: attempt.source,
+                questionKey: attempt.questionKey,
+                sessionId: attempt.sessionId || null,
+                selectedAnswer,
+                isCorrect,
+                timeTakenMs: attempt.timeTakenMs ?? null,
+                answeredAt: now,
+            });
+
+            results.push({ questionKey: attempt.questionKey, isCorrect, reviewItemId, dueAt });
+        }
+
+        return NextResponse.json({
+            success: true,
+            results,
+        }, { status: 201, headers: corsHeaders });
+    } catch (error) {
+        console.error('Record attempts error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Internal server error' },
+            { status: 500, headers: corsHeaders }
+        );
+    }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { reviewItems, questionAttempts } from '@/lib/db/schema';
+import { eq, and, asc, lte, gte, count, sql } from 'drizzle-orm';
+import { requireMobileUser } from '@/lib/mobile-user';
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+export async function OPTIONS() {
+    return NextResponse.json({}, { headers: corsHeaders });
+}
+
+// GET /api/mobile/review/queue - Questions due for review today
+export async function GET(request: NextRequest) {
+    try {
+        const auth = await requireMobileUser(request, corsHeaders);
+        if ('response' in auth) return auth.response;
+
+        const { searchParams } = new URL(request.url);
+        const limit = parseInt(searchParams.get('limit') || '20');
+
+        const userIdInt = auth.user.id;
+
+        // Everything due before the end of today counts as today's queue
+        const endOfToday = new Date();
+        endOfToday.setHours(23, 59, 59, 999);
+
+        const dueConditions = and(
+            eq(reviewItems.userId, userIdInt),
+            lte(reviewItems.dueAt, endOfToday)
+        );
+
+        const dueItems = await db
+            .select()
+            .from(reviewItems)
+            .where(dueConditions)
+            .orderBy(asc(reviewItems.dueAt))
+            .limit(limit);
+
+        const [{ count: dueCount }] = await db
+            .select({ count: count() })
+            .from(reviewItems)
+            .where(dueConditions);
+
+        const [{ count: totalCount }] = await db
+            .select({ count: count() })
+            .from(reviewItems)
+            .where(eq(reviewItems.userId, userIdInt));
+
+        // Accuracy over the last 30 days across every MCQ source
+        const since = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+        const [accuracy] = await db
+            .select({
+                attempts: count(),
+                correct: sql<number>`count(*) filter (where ${questionAttempts.isCorrect})`.mapWith(Number),
+            })
+            .from(questionAttempts)
+            .where(
+                and(
+                    eq(questionAttempts.userId, userIdInt),
+                    gte(questionAttempts.answeredAt, since)
+                )
+            );
+
+        return NextResponse.json({
+            success: true,
+            items: dueItems.map(item => ({
+                id: item.id,
+                source: item.source,
+                questionKey: item.questionKey,
+                question: item.question,
+                repetitions: item.repetitions,
+                lapses: item.lapses,
+                intervalDays: item.intervalDays,
+                dueAt: item.dueAt,
+                lastReviewedAt: item.lastReviewedAt,
+            })),
+            stats: {
+                due: dueCount || 0,
+                total: totalCount || 0,
+                attemptsLast30Days: accuracy?.attempts || 0,
+                accuracyLast30Days: accuracy?.attempts
+                    ? Math.round((accuracy.correct / accuracy.attempts) * 100)
+                    : 0,
+            },
+        }, { headers: corsHeaders });
+    } catch (error) {
+        console.error('Get review queue error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Internal server error' },
+            { status: 500, headers: corsHeaders }
+        );
+    }
+}
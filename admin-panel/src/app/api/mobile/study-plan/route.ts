@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireMobileUser } from '@/lib/mobile-user';
+import {
+    getStudyPlan,
+    isBehind,
+    isPlanDate,
+    loadPlannerTopics,
+    loadProgress,
+    savePlan,
+    serializePlan,
+    setTaskCompleted,
+    todayPlanDate,
+    MAX_DAILY_HOURS,
+    MIN_DAILY_HOURS,
+} from '@/lib/study-plan';
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, PUT, PATCH, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+const MAX_DAYS = 31;
+
+export async function OPTIONS() {
+    return NextResponse.json({}, { headers: corsHeaders });
+}
+
+// GET /api/mobile/study-plan?date=YYYY-MM-DD&days=7 - The plan from `date` (default today).
+// A plan the user has fallen behind on is rebuilt from today first.
+export async function GET(request: NextRequest) {
+    try {
+        const auth = await requireMobileUser(request, corsHeaders);
+        if ('response' in auth) return auth.response;
+
+        const { searchParams } = new URL(request.url);
+        const date = searchParams.get('date');
+        const dayCount = Math.min(Math.max(parseInt(searchParams.get('days') || '7') || 7, 1), MAX_DAYS);
+        const today = todayPlanDate();
+
+        let plan = await getStudyPlan(auth.user.id);
+        if (!plan) {
+            return NextResponse.json({ success: true, plan: null }, { headers: corsHeaders });
+        }
+
+        let progress = await loadProgress(auth.user.id);
+        const replanned = plan.examDate > today && isBehind(plan, progress, today);
+        if (replanned) {
+            plan = await savePlan(auth.user.id, plan, plan, true);
+            progress = await loadProgress(auth.user.id);
+        }
+
+        const topics = await loadPlannerTopics(progress);
+
+        return NextResponse.json({
+            success: true,
+            replanned,
+            plan: serializePlan(plan, progress, topics, isPlanDate(date) ? date : today, dayCount),
+        }, { headers: corsHeaders });
+    } catch (error) {
+        console.error('Get study plan error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Internal server error' },
+            { status: 500, headers: corsHeaders }
+        );
+    }
+}
+
+// PUT /api/mobile/study-plan - Set the exam date and daily hours, and (re)build the plan from today
+export async function PUT(request: NextRequest) {
+    try {
+        const auth = await requireMobileUser(request, corsHeaders);
+        if ('response' in auth) return auth.response;
+
+        const body = await request.json();
+        const { examDate } = body;
+        const dailyHours = Number(body.dailyHours);
+        const today = todayPlanDate();
+
+        if (!isPlanDate(examDate) || examDate <= today) {
+            return NextResponse.json(
+                { success: false, error: 'examDate must be a future date (YYYY-MM-DD)' },
+                { status: 400, headers: corsHeaders }
+            );
+        }
+
+        if (!Number.isFinite(dailyHours) || dailyHours < MIN_DAILY_HOURS || dailyHours > MAX_DAILY_HOURS) {
+            return NextResponse.json(
+                { success: false, error: `dailyHours must be between ${MIN_DAILY_HOURS} and ${MAX_DAILY_HOURS}` },
+                { status: 400, headers: corsHeaders }
+            );
+        }
+
+        const existing = await getStudyPlan(auth.user.id);
+        const plan = await savePlan(auth.user.id, { examDate, dailyHours: Math.round(dailyHours * 2) / 2 }, existing);
+
+        const progress = await loadProgress(auth.user.id);
+        const topics = await loadPlannerTopics(progress);
+
+        return NextResponse.json({
+            success: true,
+            plan: serializePlan(plan, progress, topics, today, 7),
+        }, { status: existing ? 200 : 201, headers: corsHeaders });
+    } catch (error) {
+        console.error('Save study plan error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Internal server error' },
+            { status: 500, headers: corsHeaders }
+        );
+    }
+}
+
+// PATCH /api/mobile/study-plan - Mark a task done or not done: { date, taskId, completed }
+export async function PATCH(request: NextRequest) {
+    try {
+        const auth = await requireMobileUser(request, corsHeaders);
+        if ('response' in auth) return auth.response;
+
+        const body = await request.json();
+        const { date, taskId, completed } = body;
+
+        const plan = await getStudyPlan(auth.user.id);
+        if (!plan) {
+            return NextResponse.json(
+                { success: false, error: 'Create a study plan first' },
+                { status: 404, headers: corsHeaders }
+            );
+        }
+
+        const task = plan.days.find(day => day.date === date)?.tasks.find(t => t.id === taskId);
+        if (!task) {
+            return NextResponse.json(
+                { success: false, error: 'Task not found in the plan' },
+                { status: 404, headers: corsHeaders }
+            );
+        }
+
+        const updated = await setTaskCompleted(plan, date, task, completed !== false);
+
+        const progress = await loadProgress(auth.user.id);
+        const topics = await loadPlannerTopics(progress);
+
+        return NextResponse.json({
+            success: true,
+            plan: serializePlan(updated, progress, topics, date, 1),
+        }, { headers: corsHeaders });
+    } catch (error) {
+        console.error('Update study plan task error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Internal server error' },
+            { status: 500, headers: corsHeaders }
+        );
+    }
+}
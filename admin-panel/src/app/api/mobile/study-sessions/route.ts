@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireMobileUser } from '@/lib/mobile-user';
+import {
+    getStudyTimeSummary,
+    parseSession,
+    recordSessions,
+    MAX_SESSIONS_PER_SYNC,
+    StudySessionInput,
+} from '@/lib/study-sessions';
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+const MAX_WEEKS = 26;
+
+export async function OPTIONS() {
+    return NextResponse.json({}, { headers: corsHeaders });
+}
+
+// GET /api/mobile/study-sessions?weeks=8 - Weekly and daily study time, by source and topic
+export async function GET(request: NextRequest) {
+    try {
+        const auth = await requireMobileUser(request, corsHeaders);
+        if ('response' in auth) return auth.response;
+
+        const { searchParams } = new URL(request.url);
+        const weeks = Math.min(Math.max(parseInt(searchParams.get('weeks') || '8') || 8, 1), MAX_WEEKS);
+
+        const summary = await getStudyTimeSummary(auth.user.id, weeks);
+
+        return NextResponse.json({ success: true, ...summary }, { headers: corsHeaders });
+    } catch (error) {
+        console.error('Get study sessions error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Internal server error' },
+            { status: 500, headers: corsHeaders }
+        );
+    }
+}
+
+/**
+ * POST /api/mobile/study-sessions - Sync sessions queued on the device:
+ * { sessions: [{ clientId, source, sourceId?, title?, topicId?, topicHints?, startedAt, durationSeconds }] }
+ * Each session's time is added to roadmap progress for its topic once.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const auth = await requireMobileUser(request, corsHeaders);
+        if ('response' in auth) return auth.response;
+
+        const body = await request.json();
+        if (!Array.isArray(body.sessions)) {
+            return NextResponse.json(
+                { success: false, error: 'sessions must be an array' },
+                { status: 400, headers: corsHeaders }
+            );
+        }
+
+        if (body.sessions.length > MAX_SESSIONS_PER_SYNC) {
+            return NextResponse.json(
+                { success: false, error: `At most ${MAX_SESSIONS_PER_SYNC} sessions per sync` },
+                { status: 400, headers: corsHeaders }
+            );
+        }
+
+        const sessions = body.sessions
+            .map(parseSession)
+            .filter((session: StudySessionInput | null): session is StudySessionInput => !!session);
+
+        const { recorded, skipped } = await recordSessions(auth.user.id, sessions);
+
+        return NextResponse.json({
+            success: true,
+            recorded,
+            skipped,
+            rejected: body.sessions.length - sessions.length,
+        }, { headers: corsHeaders });
+    } catch (error) {
+        console.error('Record study sessions error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Internal server error' },
+            { status: 500, headers: corsHeaders }
+        );
+    }
+}
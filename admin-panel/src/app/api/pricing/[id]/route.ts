@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { pricingConfig } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { parsePricingInput, invalidatePricingCache } from '@/lib/pricing';
+import { logActivity } from '@/lib/activity';
+
+async function findPricing(id: string) {
+    const [row] = await db
+        .select()
+        .from(pricingConfig)
+        .where(eq(pricingConfig.id, parseInt(id)));
+    return row;
+}
+
+// PUT /api/pricing/[id] - Change a price, cost, product ID or deactivate an entry
+export async function PUT(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    const auth = await requirePermission(request, 'pricing.manage');
+    if ('response' in auth) return auth.response;
+    const { user } = auth;
+
+    try {
+        const existing = await findPricing(params.id);
+        if (!existing) {
+            return NextResponse.json({ error: 'Pricing entry not found' }, { status: 404 });
+        }
+
+        const body = await request.json();
+        const parsed = parsePricingInput(body, existing.kind);
+        if ('error' in parsed) {
+            return NextResponse.json({ error: parsed.error }, { status: 400 });
+        }
+
+        const [updated] = await db
+            .update(pricingConfig)
+            .set({ ...parsed.data, updatedAt: new Date() })
+            .where(eq(pricingConfig.id, existing.id))
+            .returning();
+
+        invalidatePricingCache();
+
+        await logActivity(
+            'pricing_updated',
+            'pricing',
+            existing.id,
+            `Updated ${existing.kind.replace('_', ' ')} "${updated.name}"`,
+            {
+                updatedBy: user.email,
+                before: { credits: existing.credits, priceInr: existing.priceInr, isActive: existing.isActive },
+                after: { credits: updated.credits, priceInr: updated.priceInr, isActive: updated.isActive },
+            }
+        );
+
+        return NextResponse.json({ pricing: updated });
+    } catch (error) {
+        console.error('Update pricing error:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
+
+// DELETE /api/pricing/[id]
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    const auth = await requirePermission(request, 'pricing.manage');
+    if ('response' in auth) return auth.response;
+    const { user } = auth;
+
+    try {
+        const existing = await findPricing(params.id);
+        if (!existing) {
+            return NextResponse.json({ error: 'Pricing entry not found' }, { status: 404 });
+        }
+
+        if (existing.kind !== 'feature') {
+            // The webhook needs the product ID to credit late or renewing payments
+            return NextResponse.json(
+                { error: 'Plans and credit packs cannot be deleted; deactivate them instead' },
+                { status: 400 }
+            );
+        }
+
+        await db.delete(pricingConfig).where(eq(pricingConfig.id, existing.id));
+        invalidatePricingCache();
+
+        await logActivity(
+            'pricing_deleted',
+            'pricing',
+            existing.id,
+            `Deleted feature cost "${existing.name}"`,
+            { deletedBy: user.email }
+        );
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('Delete pricing error:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { pricingConfig } from '@/lib/db/schema';
+import { asc } from 'drizzle-orm';
+import { parsePricingInput, invalidatePricingCache } from '@/lib/pricing';
+import { logActivity } from '@/lib/activity';
+
+// GET /api/pricing - Every feature cost, plan and credit pack (including inactive)
+export async function GET(request: NextRequest) {
+    const auth = await requirePermission(request, 'pricing.view');
+    if ('response' in auth) return auth.response;
+
+    try {
+        const pricing = await db
+            .select()
+            .from(pricingConfig)
+            .orderBy(asc(pricingConfig.kind), asc(pricingConfig.sortOrder), asc(pricingConfig.id));
+
+        return NextResponse.json({ pricing });
+    } catch (error) {
+        console.error('Get pricing error:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
+
+// POST /api/pricing - Add a feature cost, plan or credit pack
+export async function POST(request: NextRequest) {
+    const auth = await requirePermission(request, 'pricing.manage');
+    if ('response' in auth) return auth.response;
+    const { user } = auth;
+
+    try {
+        const body = await request.json();
+        const parsed = parsePricingInput(body);
+        if ('error' in parsed) {
+            return NextResponse.json({ error: parsed.error }, { status: 400 });
+        }
+
+        const [created] = await db
+            .insert(pricingConfig)
+            .values(parsed.data as typeof pricingConfig.$inferInsert)
+            .onConflictDoNothing()
+            .returning();
+
+        if (!created) {
+            return NextResponse.json({ error: 'An entry with this key or product ID already exists' }, { status: 409 });
+        }
+
+        invalidatePricingCache();
+
+        await logActivity(
+            'pricing_created',
+            'pricing',
+            created.id,
+            `Added ${created.kind.replace('_', ' ')} "${created.name}"`,
+            { createdBy: user.email, credits: created.credits, priceInr: created.priceInr }
+        );
+
+        return NextResponse.json({ pricing: created }, { status: 201 });
+    } catch (error) {
+        console.error('Create pricing error:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
@@ -1,9 +1,13 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { questionSets, practiceQuestions } from '@/lib/db/schema';
 import { eq, desc } from 'drizzle-orm';
+import { requirePermission } from '@/lib/auth';
+
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+    const auth = await requirePermission(request, 'content.view');
+    if ('response' in auth) return auth.response;
 
-export async function GET(req: Request, { params }: { params: { id: string } }) {
     try {
         const id = parseInt(params.id);
 
@@ -1,7 +1,11 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase';
+import { requirePermission } from '@/lib/auth';
+
+export async function GET(request: NextRequest) {
+    const auth = await requirePermission(request, 'content.view');
+    if ('response' in auth) return auth.response;
 
-export async function GET() {
     try {
         const supabase = createServerClient();
 
@@ -33,9 +37,12 @@ export async function GET() {
     }
 }
 
-export async function POST(req: Request) {
+export async function POST(request: NextRequest) {
+    const auth = await requirePermission(request, 'content.edit');
+    if ('response' in auth) return auth.response;
+
     try {
-        const body = await req.json();
+        const body = await request.json();
         const { title, description, year } = body;
 
         if (!title) {
@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { forbidden, requirePermission } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
+import { db } from '@/lib/db';
+import { practiceQuestions, McqTranslation, TranslationStatus } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { translateContent } from '@/lib/translate';
+import { logActivity } from '@/lib/activity';
+
+// POST /api/questions/[id]/translate - Generate a draft Hindi version with AI
+export async function POST(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    const auth = await requirePermission(request, 'content.edit');
+    if ('response' in auth) return auth.response;
+
+    try {
+        const questionId = parseInt(params.id);
+
+        const [question] = await db
+            .select()
+            .from(practiceQuestions)
+            .where(eq(practiceQuestions.id, questionId));
+
+        if (!question) {
+            return NextResponse.json({ error: 'Question not found' }, { status: 404 });
+        }
+
+        const translated = await translateContent({
+            question: question.question,
+            optionA: question.optionA,
+            optionB: question.optionB,
+            optionC: question.optionC,
+            optionD: question.optionD,
+            explanation: question.explanation,
+        }, 'hi');
+
+        const translation: McqTranslation = {
+            ...translated,
+            status: 'draft',
+            updatedAt: new Date().toISOString(),
+        };
+
+        await db
+            .update(practiceQuestions)
+            .set({
+                translations: { ...(question.translations || {}), hi: translation },
+                updatedAt: new Date(),
+            })
+            .where(eq(practiceQuestions.id, questionId));
+
+        await logActivity('question_translated', 'question', questionId, `Hindi draft for question #${questionId} was generated`);
+
+        return NextResponse.json({ translation });
+    } catch (error: any) {
+        console.error('Translate question error:', error);
+        return NextResponse.json({ error: error.message || 'Internal server error' }, { status: 500 });
+    }
+}
+
+// PUT /api/questions/[id]/translate - Save editor changes and/or mark as reviewed
+export async function PUT(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    const auth = await requirePermission(request, 'content.edit');
+    if ('response' in auth) return auth.response;
+
+    try {
+        const questionId = parseInt(params.id);
+        const body = await request.json();
+        const { question: text, optionA, optionB, optionC, optionD, explanation, status } = body as {
+            question?: string;
+            optionA?: string;
+            optionB?: string;
+            optionC?: string;
+            optionD?: string;
+            explanation?: string;
+            status?: TranslationStatus;
+        };
+
+        const [question] = await db
+            .select()
+            .from(practiceQuestions)
+            .where(eq(practiceQuestions.id, questionId));
+
+        if (!question) {
+            return NextResponse.json({ error: 'Question not found' }, { status: 404 });
+        }
+
+        const existing = question.translations?.hi;
+        const nextStatus: TranslationStatus = status || existing?.status || 'draft';
+
+        // Marking a translation reviewed is a publish decision
+        if (nextStatus === 'reviewed' && existing?.status !== 'reviewed' && !hasPermission(auth.user.role, 'content.publish')) {
+            return forbidden('content.publish');
+        }
+
+        const translation: McqTranslation = {
+            ...existing,
+            ...(text !== undefined && { question: text }),
+            ...(optionA !== undefined && { optionA }),
+            ...(optionB !== undefined && { optionB }),
+            ...(optionC !== undefined && { optionC }),
+            ...(optionD !== undefined && { optionD }),
+            ...(explanation !== undefined && { explanation }),
+            status: nextStatus,
+            updatedAt: new Date().toISOString(),
+        };
+
+        await db
+            .update(practiceQuestions)
+            .set({
+                translations: { ...(question.translations || {}), hi: translation },
+                updatedAt: new Date(),
+            })
+            .where(eq(practiceQuestions.id, questionId));
+
+        if (nextStatus === 'reviewed' && existing?.status !== 'reviewed') {
+            await logActivity('question_translation_reviewed', 'question', questionId, `Hindi version of question #${questionId} was approved`);
+        }
+
+        return NextResponse.json({ translation });
+    } catch (error) {
+        console.error('Update question translation error:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { practiceQuestions, questionSets, roadmapTopics } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { parseQuestionImport, ImportDefaults, ImportError, ImportFormat } from '@/lib/question-import';
+import { logActivity } from '@/lib/activity';
+
+// POST /api/questions/import - Bulk import a paper into a question set from CSV or JSON.
+// With dryRun the parsed questions are returned for preview and nothing is written.
+// Nothing is imported while any row has an error, so a paper never lands half-imported.
+export async function POST(request: NextRequest) {
+    const auth = await requirePermission(request, 'content.edit');
+    if ('response' in auth) return auth.response;
+    const { user } = auth;
+
+    try {
+        const body = await request.json();
+        const { questionSetId, content, dryRun } = body;
+        const format: ImportFormat = body.format === 'json' ? 'json' : 'csv';
+        const defaults: ImportDefaults = body.defaults || {};
+
+        if (!questionSetId || typeof content !== 'string' || !content.trim()) {
+            return NextResponse.json({ error: 'questionSetId and content are required' }, { status: 400 });
+        }
+
+        const [set] = await db
+            .select()
+            .from(questionSets)
+            .where(eq(questionSets.id, parseInt(questionSetId)));
+
+        if (!set) {
+            return NextResponse.json({ error: 'Question set not found' }, { status: 404 });
+        }
+
+        const { questions, errors } = parseQuestionImport(content, format, defaults);
+
+        // Topics may be given by roadmap slug (topic_id) or by name
+        const topics = await db
+            .select({ id: roadmapTopics.id, slug: roadmapTopics.topicId, name: roadmapTopics.name })
+            .from(roadmapTopics);
+        const topicLookup = new Map<string, typeof topics[number]>();
+        topics.forEach(topic => {
+            topicLookup.set(topic.slug.toLowerCase(), topic);
+            topicLookup.set(topic.name.toLowerCase(), topic);
+        });
+
+        const topicErrors: ImportError[] = [];
+        const rows = questions.map(q => {
+            const topic = q.topic ? topicLookup.get(q.topic.toLowerCase()) : undefined;
+            if (q.topic && !topic) {
+                topicErrors.push({ row: q.row, error: `Unknown roadmap topic "${q.topic}"` });
+            }
+            return { ...q, topicId: topic?.id ?? null, topicName: topic?.name ?? null };
+        });
+
+        const allErrors = [...errors, ...topicErrors].sort((a, b) => a.row - b.row);
+
+        if (dryRun || allErrors.length > 0) {
+            return NextResponse.json({
+                preview: rows,
+                errors: allErrors,
+                inserted: 0,
+            }, { status: !dryRun && allErrors.length > 0 ? 400 : 200 });
+        }
+
+        const inserted = await db
+            .insert(practiceQuestions)
+            .values(rows.map(row => ({
+                questionSetId: set.id,
+                question: row.question,
+                optionA: row.optionA,
+                optionB: row.optionB,
+                optionC: row.optionC,
+                optionD: row.optionD,
+                correctAnswer: row.correctAnswer,
+                explanation: row.explanation,
+                subject: row.subject,
+                topicId: row.topicId,
+                year: row.year,
+                difficulty: row.difficulty,
+                source: row.source,
+            })))
+            .returning({ id: practiceQuestions.id });
+
+        await logActivity(
+            'questions_imported',
+            'question_set',
+            set.id,
+            `Imported ${inserted.length} question(s) into "${set.title}"`,
+            { format, importedBy: user.email }
+        );
+
+        return NextResponse.json({ preview: [], errors: [], inserted: inserted.length });
+    } catch (error) {
+        console.error('Import questions error:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
@@ -1,10 +1,14 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase';
+import { requirePermission } from '@/lib/auth';
+
+export async function POST(request: NextRequest) {
+    const auth = await requirePermission(request, 'content.edit');
+    if ('response' in auth) return auth.response;
 
-export async function POST(req: Request) {
     try {
-        const body = await req.json();
-        const { question, optionA, optionB, optionC, optionD, correctAnswer, explanation, questionSetId } = body;
+        const body = await request.json();
+        const { question, optionA, optionB, optionC, optionD, correctAnswer, explanation, subject, topicId, year, difficulty, source, questionSetId } = body;
 
         // Validation
         if (!question || !optionA || !optionB || !optionC || !optionD || !correctAnswer || !explanation) {
@@ -29,6 +33,11 @@ export async function POST(req: Request) {
                 option_d: optionD,
                 correct_answer: correctAnswer,
                 explanation,
+                subject: subject || null,
+                topic_id: topicId ? parseInt(topicId) : null,
+                year: year ? parseInt(year) : null,
+                difficulty: difficulty || null,
+                source: source || null,
             })
             .select()
             .single();
@@ -49,6 +58,11 @@ export async function POST(req: Request) {
             optionD: result.option_d,
             correctAnswer: result.correct_answer,
             explanation: result.explanation,
+            subject: result.subject,
+            topicId: result.topic_id,
+            year: result.year,
+            difficulty: result.difficulty,
+            source: result.source,
             createdAt: result.created_at,
         };
 
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { forbidden, requirePermission } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
+import { db } from '@/lib/db';
+import { visualReferences, VisualReferenceTranslation, TranslationStatus } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { translateContent } from '@/lib/translate';
+import { logActivity } from '@/lib/activity';
+
+// POST /api/references/[id]/translate - Generate a draft Hindi version with AI
+export async function POST(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    const auth = await requirePermission(request, 'content.edit');
+    if ('response' in auth) return auth.response;
+
+    try {
+        const referenceId = parseInt(params.id);
+
+        const [reference] = await db
+            .select()
+            .from(visualReferences)
+            .where(eq(visualReferences.id, referenceId));
+
+        if (!reference) {
+            return NextResponse.json({ error: 'Reference not found' }, { status: 404 });
+        }
+
+        const translated = await translateContent({ title: reference.title, data: reference.data }, 'hi');
+
+        const translation: VisualReferenceTranslation = {
+            title: translated.title,
+            data: translated.data,
+            status: 'draft',
+            updatedAt: new Date().toISOString(),
+        };
+
+        await db
+            .update(visualReferences)
+            .set({
+                translations: { ...(reference.translations || {}), hi: translation },
+                updatedAt: new Date(),
+            })
+            .where(eq(visualReferences.id, referenceId));
+
+        await logActivity('reference_translated', 'reference', referenceId, `Hindi draft for "${reference.title}" was generated`);
+
+        return NextResponse.json({ translation });
+    } catch (error: any) {
+        console.error('Translate reference error:', error);
+        return NextResponse.json({ error: error.message || 'Internal server error' }, { status: 500 });
+    }
+}
+
+// PUT /api/references/[id]/translate - Save editor changes and/or mark as reviewed
+export async function PUT(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    const auth = await requirePermission(request, 'content.edit');
+    if ('response' in auth) return auth.response;
+
+    try {
+        const referenceId = parseInt(params.id);
+        const body = await request.json();
+        const { title, data, status } = body as {
+            title?: string;
+            data?: any;
+            status?: TranslationStatus;
+        };
+
+        const [reference] = await db
+            .select()
+            .from(visualReferences)
+            .where(eq(visualReferences.id, referenceId));
+
+        if (!reference) {
+            return NextResponse.json({ error: 'Reference not found' }, { status: 404 });
+        }
+
+        const existing = reference.translations?.hi;
+        const nextStatus: TranslationStatus = status || existing?.status || 'draft';
+
+        // Marking a translation reviewed is a publish decision
+        if (nextStatus === 'reviewed' && existing?.status !== 'reviewed' && !hasPermission(auth.user.role, 'content.publish')) {
+            return forbidden('content.publish');
+        }
+
+        const translation: VisualReferenceTranslation = {
+            ...existing,
+            ...(title !== undefined && { title }),
+            ...(data !== undefined && { data }),
+            status: nextStatus,
+            updatedAt: new Date().toISOString(),
+        };
+
+        await db
+            .update(visualReferences)
+            .set({
+                translations: { ...(reference.translations || {}), hi: translation },
+                updatedAt: new Date(),
+            })
+            .where(eq(visualReferences.id, referenceId));
+
+        if (nextStatus === 'reviewed' && existing?.status !== 'reviewed') {
+            await logActivity('reference_translation_reviewed', 'reference', referenceId, `Hindi version of "${reference.title}" was approved`);
+        }
+
+        return NextResponse.json({ translation });
+    } catch (error) {
+        console.error('Update reference translation error:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
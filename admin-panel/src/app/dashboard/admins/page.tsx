@@ -0,0 +1,286 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ShieldCheck, Plus, Trash2, Save, X, Check } from 'lucide-react';
+import {
+    ADMIN_ROLES,
+    ADMIN_ROLE_LABELS,
+    AdminRole,
+    PERMISSIONS,
+    Permission,
+    ROLE_PERMISSIONS,
+} from '@/lib/permissions';
+
+interface AdminRow {
+    id: number;
+    email: string;
+    name: string;
+    role: AdminRole;
+    createdAt: string;
+    updatedAt: string;
+}
+
+const ROLE_DESCRIPTIONS: Record<AdminRole, string> = {
+    super_admin: 'Everything, including admin roles and pricing',
+    editor: 'Writes and deletes content; cannot publish',
+    content_reviewer: 'Edits and publishes content',
+    support: 'Manages app users; read-only content and pricing',
+};
+
+const ROLE_BADGES: Record<AdminRole, string> = {
+    super_admin: 'bg-purple-100 text-purple-700',
+    editor: 'bg-blue-100 text-blue-700',
+    content_reviewer: 'bg-green-100 text-green-700',
+    support: 'bg-amber-100 text-amber-700',
+};
+
+const authHeaders = () => ({
+    'Content-Type': 'application/json',
+    Authorization: `Bearer ${localStorage.getItem('sb-access-token')}`,
+});
+
+export default function AdminRolesPage() {
+    const [admins, setAdmins] = useState<AdminRow[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [draft, setDraft] = useState<{ email: string; name: string; role: AdminRole } | null>(null);
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        fetchAdmins();
+    }, []);
+
+    const fetchAdmins = async () => {
+        try {
+            const res = await fetch('/admin/api/admins', { headers: authHeaders() });
+            const data = await res.json();
+            if (res.ok) {
+                setAdmins(data.admins);
+            }
+        } catch (error) {
+            console.error('Failed to fetch admins:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const addAdmin = async () => {
+        if (!draft?.email) return;
+
+        setSaving(true);
+        try {
+            const res = await fetch('/admin/api/admins', {
+                method: 'POST',
+                headers: authHeaders(),
+                body: JSON.stringify(draft),
+            });
+            const data = await res.json();
+            if (res.ok) {
+                setDraft(null);
+                fetchAdmins();
+            } else {
+                alert(`Error: ${data.error || 'Failed to add admin'}`);
+            }
+        } catch (error) {
+            console.error('Add admin error:', error);
+            alert('An error occurred while saving');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const changeRole = async (admin: AdminRow, role: AdminRole) => {
+        const res = await fetch(`/admin/api/admins/${admin.id}`, {
+            method: 'PUT',
+            headers: authHeaders(),
+            body: JSON.stringify({ role }),
+        });
+        if (res.ok) {
+            fetchAdmins();
+        } else {
+            const data = await res.json();
+            alert(`Error: ${data.error || 'Failed to change role'}`);
+        }
+    };
+
+    const removeAdmin = async (admin: AdminRow) => {
+        if (!confirm(`Remove admin access for ${admin.email}? Their app account is not affected.`)) return;
+
+        const res = await fetch(`/admin/api/admins/${admin.id}`, { method: 'DELETE', headers: authHeaders() });
+        if (res.ok) {
+            fetchAdmins();
+        } else {
+            const data = await res.json();
+            alert(`Error: ${data.error || 'Failed to remove admin'}`);
+        }
+    };
+
+    const input = 'w-full px-3 py-2 rounded-lg border border-slate-200 focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none text-sm';
+
+    return (
+        <div className="max-w-7xl mx-auto space-y-8">
+            <div>
+                <h1 className="text-3xl font-bold text-slate-900 flex items-center gap-3">
+                    <ShieldCheck className="w-8 h-8 text-blue-600" />
+                    Admin Roles
+                </h1>
+                <p className="text-slate-500 mt-1">
+                    Who can sign in to this panel and what they can do. Admins sign in with their app account.
+                </p>
+            </div>
+
+            <div className="bg-white rounded-xl border border-slate-200 overflow-hidden">
+                <div className="p-5 border-b border-slate-100 flex items-center justify-between">
+                    <div>
+                        <h2 className="text-lg font-semibold text-slate-900">Admins</h2>
+                        <p className="text-sm text-slate-500">Role changes apply on the admin&apos;s next request</p>
+                    </div>
+                    <button
+                        onClick={() => setDraft({ email: '', name: '', role: 'editor' })}
+                        className="text-sm text-blue-600 hover:text-blue-700 font-medium flex items-center gap-1"
+                    >
+                        <Plus className="w-4 h-4" />
+                        Add
+                    </button>
+                </div>
+
+                {draft && (
+                    <div className="p-5 border-b border-slate-100 bg-slate-50/50 space-y-4">
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                            <div>
+                                <label className="block text-xs font-semibold text-slate-600 mb-1">Email</label>
+                                <input
+                                    type="email"
+                                    value={draft.email}
+                                    onChange={(e) => setDraft({ ...draft, email: e.target.value })}
+                                    placeholder="name@example.com"
+                                    className={input}
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-xs font-semibold text-slate-600 mb-1">Name</label>
+                                <input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} className={input} />
+                            </div>
+                            <div>
+                                <label className="block text-xs font-semibold text-slate-600 mb-1">Role</label>
+                                <select
+                                    value={draft.role}
+                                    onChange={(e) => setDraft({ ...draft, role: e.target.value as AdminRole })}
+                                    className={input}
+                                >
+                                    {ADMIN_ROLES.map(role => (
+                                        <option key={role} value={role}>{ADMIN_ROLE_LABELS[role]}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        </div>
+                        <div className="flex items-center justify-end gap-2">
+                            <button
+                                onClick={() => setDraft(null)}
+                                className="px-4 py-2 rounded-lg text-slate-600 hover:bg-slate-100 font-medium text-sm flex items-center gap-1"
+                            >
+                                <X className="w-4 h-4" />
+                                Cancel
+                            </button>
+                            <button
+                                onClick={addAdmin}
+                                disabled={saving || !draft.email}
+                                className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-medium text-sm flex items-center gap-1 disabled:opacity-70"
+                            >
+                                <Save className="w-4 h-4" />
+                                {saving ? 'Saving...' : 'Save'}
+                            </button>
+                        </div>
+                    </div>
+                )}
+
+                {loading ? (
+                    <div className="flex justify-center py-12">
+                        <div className="animate-spin h-8 w-8 border-4 border-blue-500 border-t-transparent rounded-full"></div>
+                    </div>
+                ) : admins.length === 0 ? (
+                    <p className="p-6 text-sm text-slate-500 text-center">No admins yet.</p>
+                ) : (
+                    <table className="w-full text-sm">
+                        <thead className="bg-slate-50 text-slate-600">
+                            <tr>
+                                <th className="text-left px-5 py-2 font-medium">Name</th>
+                                <th className="text-left px-5 py-2 font-medium">Email</th>
+                                <th className="text-left px-5 py-2 font-medium">Role</th>
+                                <th className="text-left px-5 py-2 font-medium">Since</th>
+                                <th className="px-5 py-2"></th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-100">
+                            {admins.map((admin) => (
+                                <tr key={admin.id}>
+                                    <td className="px-5 py-3 font-medium text-slate-900">{admin.name}</td>
+                                    <td className="px-5 py-3 text-slate-600">{admin.email}</td>
+                                    <td className="px-5 py-3">
+                                        <select
+                                            value={admin.role}
+                                            onChange={(e) => changeRole(admin, e.target.value as AdminRole)}
+                                            className={`px-2 py-1 rounded-full text-xs font-semibold border-0 outline-none cursor-pointer ${ROLE_BADGES[admin.role] || 'bg-slate-100 text-slate-600'}`}
+                                        >
+                                            {ADMIN_ROLES.map(role => (
+                                                <option key={role} value={role}>{ADMIN_ROLE_LABELS[role]}</option>
+                                            ))}
+                                        </select>
+                                    </td>
+                                    <td className="px-5 py-3 text-slate-500">{new Date(admin.createdAt).toLocaleDateString()}</td>
+                                    <td className="px-5 py-3">
+                                        <div className="flex items-center justify-end">
+                                            <button
+                                                onClick={() => removeAdmin(admin)}
+                                                className="p-1.5 text-slate-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                                                title="Remove admin access"
+                                            >
+                                                <Trash2 className="w-4 h-4" />
+                                            </button>
+                                        </div>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+
+            {/* Permission matrix */}
+            <div className="bg-white rounded-xl border border-slate-200 overflow-hidden">
+                <div className="p-5 border-b border-slate-100">
+                    <h2 className="text-lg font-semibold text-slate-900">Permissions</h2>
+                    <p className="text-sm text-slate-500">Enforced by the API; the sidebar hides what a role cannot open</p>
+                </div>
+                <table className="w-full text-sm">
+                    <thead className="bg-slate-50 text-slate-600">
+                        <tr>
+                            <th className="text-left px-5 py-2 font-medium">Permission</th>
+                            {ADMIN_ROLES.map(role => (
+                                <th key={role} className="text-center px-5 py-2 font-medium" title={ROLE_DESCRIPTIONS[role]}>
+                                    {ADMIN_ROLE_LABELS[role]}
+                                </th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                        {(Object.keys(PERMISSIONS) as Permission[]).map(permission => (
+                            <tr key={permission}>
+                                <td className="px-5 py-3">
+                                    <p className="font-mono text-xs text-slate-500">{permission}</p>
+                                    <p className="text-slate-900">{PERMISSIONS[permission]}</p>
+                                </td>
+                                {ADMIN_ROLES.map(role => (
+                                    <td key={role} className="px-5 py-3 text-center">
+                                        {ROLE_PERMISSIONS[role].includes(permission) && (
+                                            <Check className="w-4 h-4 text-green-600 inline" />
+                                        )}
+                                    </td>
+                                ))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+}
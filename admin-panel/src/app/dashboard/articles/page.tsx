@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Search, Trash2, Edit2, Globe, Eye, EyeOff, FileText, Link2, Filter, PenLine, Plus, ArrowLeft, ExternalLink, Calendar, User, Tag, BookOpen, Brain } from 'lucide-react';
+import { Search, Trash2, Edit2, Globe, Eye, EyeOff, FileText, Link2, Filter, PenLine, Plus, ArrowLeft, ExternalLink, Calendar, User, Tag, BookOpen, Brain, Languages, CheckCircle } from 'lucide-react';
 
 interface ContentBlock {
     type: string;
@@ -23,13 +23,22 @@ interface Article {
     createdAt: string;
 }
 
+interface HindiTranslation {
+    title?: string;
+    summary?: string;
+    content?: ContentBlock[];
+    status: 'draft' | 'reviewed';
+    updatedAt?: string;
+}
+
 interface FullArticle extends Article {
     content?: ContentBlock[];
     metaDescription?: string;
     publishedDate?: string;
+    translations?: { hi?: HindiTranslation };
 }
 
-type ViewMode = 'list' | 'scrape' | 'create' | 'edit' | 'preview';
+type ViewMode = 'list' | 'scrape' | 'create' | 'edit' | 'preview' | 'translate';
 
 export default function ArticlesPage() {
     const [articles, setArticles] = useState<Article[]>([]);
@@ -45,6 +54,12 @@ export default function ArticlesPage() {
     const [previewArticle, setPreviewArticle] = useState<FullArticle | null>(null);
     const [previewLoading, setPreviewLoading] = useState(false);
     const [generatingMCQs, setGeneratingMCQs] = useState(false);
+    const [ingesting, setIngesting] = useState(false);
+
+    // Hindi translation state
+    const [hindiDraft, setHindiDraft] = useState<HindiTranslation | null>(null);
+    const [translating, setTranslating] = useState(false);
+    const [savingTranslation, setSavingTranslation] = useState(false);
 
     // Form state
     const [scrapeUrl, setScrapeUrl] = useState('');
@@ -101,6 +116,42 @@ export default function ArticlesPage() {
         }
     };
 
+    // Pull today's PIB and The Hindu stories; they arrive unpublished for review
+    const handleIngest = async () => {
+        setIngesting(true);
+        const token = localStorage.getItem('sb-access-token');
+        try {
+            const res = await fetch('/admin/api/articles/ingest', {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    Authorization: `Bearer ${token}`,
+                },
+                body: JSON.stringify({}),
+            });
+            const data = await res.json();
+            if (res.ok) {
+                const summary = (data.reports as Array<{ source: string; inserted: number; duplicates: number; failed: unknown[] }>)
+                    .map(r => `${r.source}: ${r.inserted} new, ${r.duplicates} already imported, ${r.failed.length} failed`)
+                    .join('\n');
+                alert(`Ingestion complete\n\n${summary}`);
+                // Show the review queue; changing the filter refetches on its own
+                if (statusFilter === 'draft') {
+                    fetchArticles();
+                } else {
+                    setStatusFilter('draft');
+                }
+            } else {
+                alert(`Error: ${data.error || 'Ingestion failed'}`);
+            }
+        } catch (error) {
+            console.error('Ingest error:', error);
+            alert('An error occurred while fetching the latest articles');
+        } finally {
+            setIngesting(false);
+        }
+    };
+
     const handleScrape = async () => {
         if (!scrapeUrl) return;
         setScrapeLoading(true);
@@ -289,6 +340,85 @@ export default function ArticlesPage() {
         }
     };
 
+    const openTranslate = (article: FullArticle) => {
+        setPreviewArticle(article);
+        setHindiDraft(article.translations?.hi || null);
+        setViewMode('translate');
+    };
+
+    const handleGenerateHindi = async (articleId: number) => {
+        if (hindiDraft && !confirm('Regenerate the Hindi version? Your edits will be replaced.')) return;
+
+        setTranslating(true);
+        const token = localStorage.getItem('sb-access-token');
+        try {
+            const res = await fetch(`/admin/api/articles/${articleId}/translate`, {
+                method: 'POST',
+                headers: { Authorization: `Bearer ${token}` },
+            });
+            const data = await res.json();
+            if (res.ok) {
+                setHindiDraft(data.translation);
+            } else {
+                alert(`Error: ${data.error || 'Failed to generate Hindi version'}`);
+            }
+        } catch (error) {
+            console.error('Translate error:', error);
+            alert('An error occurred while generating the Hindi version');
+        } finally {
+            setTranslating(false);
+        }
+    };
+
+    const handleSaveHindi = async (articleId: number, status: 'draft' | 'reviewed') => {
+        if (!hindiDraft) return;
+
+        setSavingTranslation(true);
+        const token = localStorage.getItem('sb-access-token');
+        try {
+            const res = await fetch(`/admin/api/articles/${articleId}/translate`, {
+                method: 'PUT',
+                headers: {
+                    'Content-Type': 'application/json',
+                    Authorization: `Bearer ${token}`,
+                },
+                body: JSON.stringify({
+                    title: hindiDraft.title,
+                    summary: hindiDraft.summary,
+                    content: hindiDraft.content,
+                    status,
+                }),
+            });
+            const data = await res.json();
+            if (res.ok) {
+                setHindiDraft(data.translation);
+                if (previewArticle) {
+                    setPreviewArticle({ ...previewArticle, translations: { ...previewArticle.translations, hi: data.translation } });
+                }
+                if (status === 'reviewed') {
+                    alert('Hindi version approved and visible in the app.');
+                }
+            } else {
+                alert(`Error: ${data.error || 'Failed to save Hindi version'}`);
+            }
+        } catch (error) {
+            console.error('Save translation error:', error);
+        } finally {
+            setSavingTranslation(false);
+        }
+    };
+
+    const updateHindiBlock = (index: number, value: string) => {
+        if (!hindiDraft?.content) return;
+        const content = hindiDraft.content.map((block, i) => {
+            if (i !== index) return block;
+            return block.items
+                ? { ...block, items: value.split('\n') }
+                : { ...block, content: value };
+        });
+        setHindiDraft({ ...hindiDraft, content, status: 'draft' });
+    };
+
     const formatDate = (dateString?: string) => {
         if (!dateString) return '';
         const date = new Date(dateString);
@@ -563,6 +693,121 @@ export default function ArticlesPage() {
         );
     }
 
+    // Translate View - Side-by-side review of the AI generated Hindi version
+    if (viewMode === 'translate' && previewArticle) {
+        return (
+            <div className="max-w-6xl mx-auto">
+                <div className="flex items-center justify-between mb-6">
+                    <button onClick={() => setViewMode('preview')} className="flex items-center gap-2 text-gray-600 hover:text-gray-900">
+                        <ArrowLeft className="w-4 h-4" /> Back to Preview
+                    </button>
+                    <div className="flex items-center gap-3">
+                        {hindiDraft && (
+                            <span className={`px-2.5 py-1 rounded-full text-xs font-medium ${hindiDraft.status === 'reviewed'
+                                ? 'bg-green-100 text-green-700'
+                                : 'bg-yellow-100 text-yellow-700'
+                                }`}>
+                                {hindiDraft.status === 'reviewed' ? 'Reviewed' : 'Draft - not visible in app'}
+                            </span>
+                        )}
+                        <button
+                            onClick={() => handleGenerateHindi(previewArticle.id)}
+                            disabled={translating}
+                            className="flex items-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50"
+                        >
+                            <Brain className="w-4 h-4" />
+                            {translating ? 'Translating...' : hindiDraft ? 'Regenerate with AI' : 'Generate with AI'}
+                        </button>
+                        {hindiDraft && (
+                            <>
+                                <button
+                                    onClick={() => handleSaveHindi(previewArticle.id, 'draft')}
+                                    disabled={savingTranslation}
+                                    className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                                >
+                                    Save Draft
+                                </button>
+                                <button
+                                    onClick={() => handleSaveHindi(previewArticle.id, 'reviewed')}
+                                    disabled={savingTranslation}
+                                    className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+                                >
+                                    <CheckCircle className="w-4 h-4" /> Approve
+                                </button>
+                            </>
+                        )}
+                    </div>
+                </div>
+
+                <h1 className="text-3xl font-bold text-gray-900 mb-2">Hindi Version</h1>
+                <p className="text-gray-600 mb-8">Review the AI translation block by block. Only approved versions are shown to users who switch the app to Hindi.</p>
+
+                {!hindiDraft ? (
+                    <div className="bg-white rounded-xl shadow-sm p-12 text-center">
+                        <Languages className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+                        <p className="text-gray-500">No Hindi version yet. Generate one with AI to start reviewing.</p>
+                    </div>
+                ) : (
+                    <div className="bg-white rounded-xl shadow-sm p-6 space-y-6">
+                        <div className="grid grid-cols-2 gap-6">
+                            <div>
+                                <label className="block text-xs font-medium text-gray-500 uppercase mb-2">Title (English)</label>
+                                <p className="text-gray-900 font-medium">{previewArticle.title}</p>
+                            </div>
+                            <div>
+                                <label className="block text-xs font-medium text-gray-500 uppercase mb-2">Title (Hindi)</label>
+                                <input
+                                    type="text"
+                                    value={hindiDraft.title || ''}
+                                    onChange={(e) => setHindiDraft({ ...hindiDraft, title: e.target.value, status: 'draft' })}
+                                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                                />
+                            </div>
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-6">
+                            <div>
+                                <label className="block text-xs font-medium text-gray-500 uppercase mb-2">Summary (English)</label>
+                                <p className="text-gray-700 text-sm">{previewArticle.summary}</p>
+                            </div>
+                            <div>
+                                <label className="block text-xs font-medium text-gray-500 uppercase mb-2">Summary (Hindi)</label>
+                                <textarea
+                                    value={hindiDraft.summary || ''}
+                                    onChange={(e) => setHindiDraft({ ...hindiDraft, summary: e.target.value, status: 'draft' })}
+                                    rows={3}
+                                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                                />
+                            </div>
+                        </div>
+
+                        <hr className="border-gray-200" />
+
+                        {(previewArticle.content || []).map((block, index) => {
+                            const hindiBlock = hindiDraft.content?.[index];
+                            const englishText = block.items ? block.items.join('\n') : block.content || '';
+                            const hindiText = hindiBlock?.items ? hindiBlock.items.join('\n') : hindiBlock?.content || '';
+                            return (
+                                <div key={index} className="grid grid-cols-2 gap-6">
+                                    <div>
+                                        <span className="text-xs text-gray-400 uppercase">{block.type}</span>
+                                        <p className="text-gray-700 text-sm whitespace-pre-line">{englishText}</p>
+                                    </div>
+                                    <textarea
+                                        value={hindiText}
+                                        onChange={(e) => updateHindiBlock(index, e.target.value)}
+                                        rows={Math.max(2, Math.ceil(englishText.length / 80))}
+                                        className="w-full px-4 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500"
+                                    />
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+            </div>
+        );
+    }
+
     // Preview View - Shows article exactly as it appears in the mobile app
     if (viewMode === 'preview') {
         return (
@@ -589,6 +834,13 @@ export default function ArticlesPage() {
                                 {previewArticle.isPublished ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
                                 {previewArticle.isPublished ? 'Unpublish' : 'Publish'}
                             </button>
+                            <button
+                                onClick={() => openTranslate(previewArticle)}
+                                className="flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50"
+                            >
+                                <Languages className="w-4 h-4" />
+                                {previewArticle.translations?.hi?.status === 'reviewed' ? 'Hindi ✓' : 'Hindi'}
+                            </button>
 
                             {/* 
                             <button
@@ -757,6 +1009,13 @@ export default function ArticlesPage() {
                     <p className="text-gray-600 mt-2">Manage UPSC-related articles</p>
                 </div>
                 <div className="flex gap-3">
+                    <button
+                        onClick={handleIngest}
+                        disabled={ingesting}
+                        className="flex items-center gap-2 bg-white border border-gray-300 hover:bg-gray-50 text-gray-700 font-medium py-2.5 px-4 rounded-lg disabled:opacity-50"
+                    >
+                        <Calendar className="w-5 h-5" /> {ingesting ? 'Fetching...' : 'Fetch PIB & The Hindu'}
+                    </button>
                     <button
                         onClick={() => setViewMode('scrape')}
                         className="flex items-center gap-2 bg-purple-600 hover:bg-purple-700 text-white font-medium py-2.5 px-4 rounded-lg"
@@ -0,0 +1,382 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Newspaper, Sparkles, Plus, Trash2, Save, Send, EyeOff, ChevronUp, ChevronDown, Link2 } from 'lucide-react';
+
+const BULLETIN_GROUPS = ['GS1', 'GS2', 'GS3', 'GS4', 'Prelims'];
+const MAX_ITEMS = 10;
+
+interface BulletinItem {
+    gsPaper: string;
+    text: string;
+    articleIds: number[];
+}
+
+interface Bulletin {
+    id: number;
+    bulletinDate: string;
+    items: BulletinItem[];
+    articleCount: number;
+    status: 'draft' | 'published';
+    generatedAt: string | null;
+    publishedAt: string | null;
+    updatedAt: string;
+}
+
+interface DayArticle {
+    id: number;
+    title: string;
+    gsPaper: string | null;
+    subject: string | null;
+}
+
+// Today's date in IST, matching how the server buckets bulletins
+const todayIst = () => new Date(Date.now() + 5.5 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+const authHeaders = () => ({
+    'Content-Type': 'application/json',
+    Authorization: `Bearer ${localStorage.getItem('sb-access-token')}`,
+});
+
+export default function BulletinsPage() {
+    const [bulletins, setBulletins] = useState<Bulletin[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [generateDate, setGenerateDate] = useState(todayIst());
+    const [generating, setGenerating] = useState(false);
+    const [selected, setSelected] = useState<Bulletin | null>(null);
+    const [items, setItems] = useState<BulletinItem[]>([]);
+    const [dayArticles, setDayArticles] = useState<DayArticle[]>([]);
+    const [linkingIndex, setLinkingIndex] = useState<number | null>(null);
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        fetchBulletins();
+    }, []);
+
+    const fetchBulletins = async () => {
+        try {
+            const res = await fetch('/admin/api/bulletins', { headers: authHeaders() });
+            const data = await res.json();
+            if (res.ok) {
+                setBulletins(data.bulletins);
+            }
+        } catch (error) {
+            console.error('Failed to fetch bulletins:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const openBulletin = async (id: number) => {
+        try {
+            const res = await fetch(`/admin/api/bulletins/${id}`, { headers: authHeaders() });
+            const data = await res.json();
+            if (res.ok) {
+                setSelected(data.bulletin);
+                setItems(data.bulletin.items);
+                setDayArticles(data.articles);
+                setLinkingIndex(null);
+            } else {
+                alert(`Error: ${data.error || 'Failed to load bulletin'}`);
+            }
+        } catch (error) {
+            console.error('Failed to load bulletin:', error);
+        }
+    };
+
+    const handleGenerate = async () => {
+        const existing = bulletins.find(b => b.bulletinDate === generateDate);
+        if (existing && !confirm(`Regenerating replaces the bullets for ${generateDate}${existing.status === 'published' ? ' and unpublishes it' : ''}. Continue?`)) {
+            return;
+        }
+
+        setGenerating(true);
+        try {
+            const res = await fetch('/admin/api/bulletins', {
+                method: 'POST',
+                headers: authHeaders(),
+                body: JSON.stringify({ date: generateDate }),
+            });
+            const data = await res.json();
+            if (res.ok) {
+                await fetchBulletins();
+                await openBulletin(data.bulletin.id);
+            } else {
+                alert(`Error: ${data.error || 'Failed to generate bulletin'}`);
+            }
+        } catch (error) {
+            console.error('Generate error:', error);
+            alert('An error occurred while generating the bulletin');
+        } finally {
+            setGenerating(false);
+        }
+    };
+
+    const saveBulletin = async (status?: 'draft' | 'published') => {
+        if (!selected) return;
+
+        setSaving(true);
+        try {
+            const res = await fetch(`/admin/api/bulletins/${selected.id}`, {
+                method: 'PUT',
+                headers: authHeaders(),
+                body: JSON.stringify({ items, ...(status && { status }) }),
+            });
+            const data = await res.json();
+            if (res.ok) {
+                setSelected(data.bulletin);
+                setItems(data.bulletin.items);
+                fetchBulletins();
+            } else {
+                alert(`Error: ${data.error || 'Failed to save bulletin'}`);
+            }
+        } catch (error) {
+            console.error('Save error:', error);
+            alert('An error occurred while saving the bulletin');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const deleteBulletin = async () => {
+        if (!selected || !confirm(`Delete the bulletin for ${selected.bulletinDate}?`)) return;
+
+        try {
+            const res = await fetch(`/admin/api/bulletins/${selected.id}`, {
+                method: 'DELETE',
+                headers: authHeaders(),
+            });
+            if (res.ok) {
+                setSelected(null);
+                setItems([]);
+                fetchBulletins();
+            }
+        } catch (error) {
+            console.error('Delete error:', error);
+        }
+    };
+
+    const updateItem = (index: number, changes: Partial<BulletinItem>) => {
+        setItems(items.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+    };
+
+    const moveItem = (index: number, direction: -1 | 1) => {
+        const target = index + direction;
+        if (target < 0 || target >= items.length) return;
+        const reordered = [...items];
+        [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+        setItems(reordered);
+    };
+
+    const toggleArticle = (index: number, articleId: number) => {
+        const ids = items[index].articleIds;
+        updateItem(index, {
+            articleIds: ids.includes(articleId) ? ids.filter(id => id !== articleId) : [...ids, articleId],
+        });
+    };
+
+    const articleTitle = (id: number) => dayArticles.find(a => a.id === id)?.title || `Article #${id}`;
+
+    return (
+        <div className="max-w-7xl mx-auto space-y-8">
+            <div className="flex items-center justify-between">
+                <div>
+                    <h1 className="text-3xl font-bold text-slate-900">Daily Bulletins</h1>
+                    <p className="text-slate-500 mt-1">10-point current-affairs digests generated from each day&apos;s published articles</p>
+                </div>
+                <div className="flex items-center gap-3">
+                    <input
+                        type="date"
+                        value={generateDate}
+                        max={todayIst()}
+                        onChange={(e) => setGenerateDate(e.target.value)}
+                        className="px-4 py-2 rounded-lg border border-slate-200 focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none"
+                    />
+                    <button
+                        onClick={handleGenerate}
+                        disabled={generating || !generateDate}
+                        className="bg-blue-600 hover:bg-blue-700 text-white px-5 py-2.5 rounded-lg flex items-center gap-2 font-medium transition-all shadow-lg shadow-blue-500/20 disabled:opacity-70"
+                    >
+                        <Sparkles className="w-5 h-5" />
+                        {generating ? 'Generating...' : 'Generate Draft'}
+                    </button>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                {/* Bulletin list */}
+                <div className="bg-white rounded-xl border border-slate-200 overflow-hidden">
+                    {loading ? (
+                        <div className="flex justify-center py-12">
+                            <div className="animate-spin h-8 w-8 border-4 border-blue-500 border-t-transparent rounded-full"></div>
+                        </div>
+                    ) : bulletins.length === 0 ? (
+                        <div className="p-8 text-center">
+                            <Newspaper className="w-10 h-10 text-slate-300 mx-auto mb-3" />
+                            <p className="text-slate-500 text-sm">No bulletins yet. Pick a date and generate a draft.</p>
+                        </div>
+                    ) : (
+                        <ul className="divide-y divide-slate-100">
+                            {bulletins.map((bulletin) => (
+                                <li key={bulletin.id}>
+                                    <button
+                                        onClick={() => openBulletin(bulletin.id)}
+                                        className={`w-full text-left px-5 py-4 hover:bg-slate-50 transition-colors ${selected?.id === bulletin.id ? 'bg-blue-50' : ''}`}
+                                    >
+                                        <div className="flex items-center justify-between">
+                                            <span className="font-semibold text-slate-900">{bulletin.bulletinDate}</span>
+                                            <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${bulletin.status === 'published' ? 'bg-green-100 text-green-700' : 'bg-amber-100 text-amber-700'}`}>
+                                                {bulletin.status === 'published' ? 'Published' : 'Draft'}
+                                            </span>
+                                        </div>
+                                        <p className="text-xs text-slate-500 mt-1">
+                                            {bulletin.items.length} bullets from {bulletin.articleCount} articles
+                                        </p>
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+
+                {/* Editor */}
+                <div className="lg:col-span-2 bg-white rounded-xl border border-slate-200 p-6">
+                    {!selected ? (
+                        <div className="py-16 text-center text-slate-500">Select a bulletin to review and edit it.</div>
+                    ) : (
+                        <div className="space-y-5">
+                            <div className="flex items-center justify-between">
+                                <div>
+                                    <h2 className="text-xl font-bold text-slate-900">Bulletin for {selected.bulletinDate}</h2>
+                                    <p className="text-sm text-slate-500">
+                                        {selected.status === 'published' && selected.publishedAt
+                                            ? `Published ${new Date(selected.publishedAt).toLocaleString()}`
+                                            : 'Draft - not visible in the app'}
+                                    </p>
+                                </div>
+                                <button
+                                    onClick={deleteBulletin}
+                                    className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                                    title="Delete bulletin"
+                                >
+                                    <Trash2 className="w-5 h-5" />
+                                </button>
+                            </div>
+
+                            {items.map((item, index) => (
+                                <div key={index} className="border border-slate-200 rounded-lg p-4 space-y-3">
+                                    <div className="flex items-center gap-2">
+                                        <span className="text-sm font-semibold text-slate-400 w-6">{index + 1}.</span>
+                                        <select
+                                            value={item.gsPaper}
+                                            onChange={(e) => updateItem(index, { gsPaper: e.target.value })}
+                                            className="px-3 py-1.5 rounded-lg border border-slate-200 text-sm outline-none focus:border-blue-500"
+                                        >
+                                            {BULLETIN_GROUPS.map(group => (
+                                                <option key={group} value={group}>{group}</option>
+                                            ))}
+                                        </select>
+                                        <div className="flex-1" />
+                                        <button onClick={() => moveItem(index, -1)} className="p-1.5 text-slate-500 hover:bg-slate-100 rounded" title="Move up">
+                                            <ChevronUp className="w-4 h-4" />
+                                        </button>
+                                        <button onClick={() => moveItem(index, 1)} className="p-1.5 text-slate-500 hover:bg-slate-100 rounded" title="Move down">
+                                            <ChevronDown className="w-4 h-4" />
+                                        </button>
+                                        <button
+                                            onClick={() => setItems(items.filter((_, i) => i !== index))}
+                                            className="p-1.5 text-red-500 hover:bg-red-50 rounded"
+                                            title="Remove bullet"
+                                        >
+                                            <Trash2 className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                    <textarea
+                                        value={item.text}
+                                        onChange={(e) => updateItem(index, { text: e.target.value })}
+                                        rows={3}
+                                        className="w-full px-4 py-2 rounded-lg border border-slate-200 focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none transition-all resize-none text-sm"
+                                    />
+                                    <div className="flex flex-wrap items-center gap-2">
+                                        {item.articleIds.map(id => (
+                                            <span key={id} className="px-2 py-1 bg-slate-100 text-slate-700 rounded text-xs max-w-xs truncate">
+                                                {articleTitle(id)}
+                                            </span>
+                                        ))}
+                                        <button
+                                            onClick={() => setLinkingIndex(linkingIndex === index ? null : index)}
+                                            className="px-2 py-1 text-blue-600 hover:bg-blue-50 rounded text-xs font-medium flex items-center gap-1"
+                                        >
+                                            <Link2 className="w-3 h-3" />
+                                            {linkingIndex === index ? 'Done' : 'Edit links'}
+                                        </button>
+                                    </div>
+                                    {linkingIndex === index && (
+                                        <div className="max-h-48 overflow-y-auto border border-slate-100 rounded-lg divide-y divide-slate-100">
+                                            {dayArticles.length === 0 ? (
+                                                <p className="p-3 text-xs text-slate-500">No published articles for this day.</p>
+                                            ) : dayArticles.map(article => (
+                                                <label key={article.id} className="flex items-start gap-2 p-2 text-sm hover:bg-slate-50 cursor-pointer">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={item.articleIds.includes(article.id)}
+                                                        onChange={() => toggleArticle(index, article.id)}
+                                                        className="mt-1"
+                                                    />
+                                                    <span>
+                                                        <span className="text-slate-900">{article.title}</span>
+                                                        {article.gsPaper && <span className="text-slate-400 text-xs ml-2">{article.gsPaper}</span>}
+                                                    </span>
+                                                </label>
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
+                            ))}
+
+                            {items.length < MAX_ITEMS && (
+                                <button
+                                    onClick={() => setItems([...items, { gsPaper: 'GS2', text: '', articleIds: [] }])}
+                                    className="w-full border-2 border-dashed border-slate-200 rounded-lg py-3 text-slate-500 hover:border-blue-400 hover:text-blue-600 flex items-center justify-center gap-2 text-sm font-medium transition-colors"
+                                >
+                                    <Plus className="w-4 h-4" />
+                                    Add bullet
+                                </button>
+                            )}
+
+                            <div className="flex justify-end gap-3 pt-4 border-t border-slate-100">
+                                <button
+                                    onClick={() => saveBulletin()}
+                                    disabled={saving}
+                                    className="px-4 py-2 text-slate-700 border border-slate-200 hover:bg-slate-50 rounded-lg font-medium flex items-center gap-2 disabled:opacity-70"
+                                >
+                                    <Save className="w-4 h-4" />
+                                    Save
+                                </button>
+                                {selected.status === 'published' ? (
+                                    <button
+                                        onClick={() => saveBulletin('draft')}
+                                        disabled={saving}
+                                        className="px-4 py-2 bg-amber-500 hover:bg-amber-600 text-white rounded-lg font-medium flex items-center gap-2 disabled:opacity-70"
+                                    >
+                                        <EyeOff className="w-4 h-4" />
+                                        Unpublish
+                                    </button>
+                                ) : (
+                                    <button
+                                        onClick={() => saveBulletin('published')}
+                                        disabled={saving || items.length === 0}
+                                        className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg font-medium flex items-center gap-2 disabled:opacity-70"
+                                    >
+                                        <Send className="w-4 h-4" />
+                                        Save & Publish
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -15,17 +15,27 @@ import {
     Route,
     BookOpen,
     FileQuestion,
-    Settings
+    Settings,
+    Newspaper,
+    IndianRupee,
+    PenLine,
+    ShieldCheck
 } from 'lucide-react';
+import { Permission } from '@/lib/permissions';
 
-const navigation = [
-    { name: 'Dashboard', href: '/dashboard', icon: LayoutDashboard },
-    { name: 'Users', href: '/dashboard/users', icon: Users },
-    { name: 'Maps', href: '/dashboard/maps', icon: Map },
-    { name: 'Articles', href: '/dashboard/articles', icon: FileText },
-    { name: 'Roadmap', href: '/dashboard/roadmap', icon: Route },
-    { name: 'References', href: '/dashboard/references', icon: BookOpen },
-    { name: 'Question Paper', href: '/dashboard/question-paper', icon: FileQuestion },
+// Items without a permission (Settings only touches this browser) are shown to every admin
+const navigation: { name: string; href: string; icon: typeof LayoutDashboard; permission?: Permission }[] = [
+    { name: 'Dashboard', href: '/dashboard', icon: LayoutDashboard, permission: 'dashboard.view' },
+    { name: 'Users', href: '/dashboard/users', icon: Users, permission: 'users.view' },
+    { name: 'Maps', href: '/dashboard/maps', icon: Map, permission: 'content.view' },
+    { name: 'Articles', href: '/dashboard/articles', icon: FileText, permission: 'content.view' },
+    { name: 'Bulletins', href: '/dashboard/bulletins', icon: Newspaper, permission: 'content.view' },
+    { name: 'Mains Questions', href: '/dashboard/mains', icon: PenLine, permission: 'content.view' },
+    { name: 'Roadmap', href: '/dashboard/roadmap', icon: Route, permission: 'content.view' },
+    { name: 'References', href: '/dashboard/references', icon: BookOpen, permission: 'content.view' },
+    { name: 'Question Paper', href: '/dashboard/question-paper', icon: FileQuestion, permission: 'content.view' },
+    { name: 'Pricing', href: '/dashboard/pricing', icon: IndianRupee, permission: 'pricing.view' },
+    { name: 'Admin Roles', href: '/dashboard/admins', icon: ShieldCheck, permission: 'admins.manage' },
     { name: 'Settings', href: '/dashboard/settings', icon: Settings },
 ];
 
@@ -36,24 +46,41 @@ export default function DashboardLayout({
 }) {
     const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(false);
     const [isAuthenticated, setIsAuthenticated] = useState(false);
+    const [permissions, setPermissions] = useState<Permission[]>([]);
     const router = useRouter();
     const pathname = usePathname();
 
+    const handleLogout = () => {
+        localStorage.removeItem('sb-access-token');
+        localStorage.removeItem('sb-refresh-token');
+        localStorage.removeItem('user');
+        router.push('/');
+    };
+
     useEffect(() => {
         const token = localStorage.getItem('sb-access-token');
         if (!token) {
             router.push('/');
-        } else {
-            setIsAuthenticated(true);
+            return;
         }
+
+        // The role can change between sessions, so ask the server what this admin may open
+        fetch('/admin/api/auth/me', { headers: { Authorization: `Bearer ${token}` } })
+            .then(async (res) => {
+                if (res.status === 401) {
+                    handleLogout();
+                    return;
+                }
+                const data = await res.json();
+                setPermissions(data.permissions || []);
+                setIsAuthenticated(true);
+            })
+            .catch((error) => {
+                console.error('Failed to load admin permissions:', error);
+            });
     }, [router]);
 
-    const handleLogout = () => {
-        localStorage.removeItem('sb-access-token');
-        localStorage.removeItem('sb-refresh-token');
-        localStorage.removeItem('user');
-        router.push('/');
-    };
+    const visibleNavigation = navigation.filter(item => !item.permission || permissions.includes(item.permission));
 
     if (!isAuthenticated) {
         return (
@@ -91,7 +118,7 @@ export default function DashboardLayout({
 
                     {/* Navigation */}
                     <nav className="flex-1 p-3 space-y-1 overflow-y-auto">
-                        {navigation.map((item) => {
+                        {visibleNavigation.map((item) => {
                             const Icon = item.icon;
                             const isActive = pathname === item.href;
                             return (
@@ -0,0 +1,397 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { PenLine, Plus, Trash2, Save, Send, EyeOff } from 'lucide-react';
+
+const GS_PAPERS = ['GS1', 'GS2', 'GS3', 'GS4'];
+
+// Keep in sync with MAINS_DIRECTIVES in lib/mains-practice.ts
+const DIRECTIVES: Record<string, string> = {
+    discuss: 'Discuss',
+    critically_examine: 'Critically examine',
+    critically_analyse: 'Critically analyse',
+    analyse: 'Analyse',
+    examine: 'Examine',
+    evaluate: 'Evaluate',
+    comment: 'Comment',
+    explain: 'Explain',
+    elucidate: 'Elucidate',
+    justify: 'Justify',
+};
+
+// UPSC word limits by marks, matching defaultWordLimit on the server
+const defaultWordLimit = (marks: number) => (marks <= 10 ? 150 : marks <= 20 ? 250 : Math.round(marks * 15));
+
+interface MainsQuestion {
+    id: number;
+    questionDate: string;
+    gsPaper: string;
+    question: string;
+    directive: string;
+    marks: number;
+    wordLimit: number;
+    modelAnswer: string;
+    keyPoints: string[];
+    status: 'draft' | 'published';
+    publishedAt: string | null;
+}
+
+interface QuestionForm {
+    questionDate: string;
+    gsPaper: string;
+    question: string;
+    directive: string; // '' = detect from the question text
+    marks: number;
+    wordLimit: number;
+    modelAnswer: string;
+    keyPoints: string; // One per line
+}
+
+// Today's date in IST, matching how the server buckets daily questions
+const todayIst = () => new Date(Date.now() + 5.5 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+const authHeaders = () => ({
+    'Content-Type': 'application/json',
+    Authorization: `Bearer ${localStorage.getItem('sb-access-token')}`,
+});
+
+const emptyForm = (): QuestionForm => ({
+    questionDate: todayIst(),
+    gsPaper: 'GS2',
+    question: '',
+    directive: '',
+    marks: 10,
+    wordLimit: 150,
+    modelAnswer: '',
+    keyPoints: '',
+});
+
+const toForm = (question: MainsQuestion): QuestionForm => ({
+    questionDate: question.questionDate,
+    gsPaper: question.gsPaper,
+    question: question.question,
+    directive: question.directive,
+    marks: question.marks,
+    wordLimit: question.wordLimit,
+    modelAnswer: question.modelAnswer,
+    keyPoints: question.keyPoints.join('\n'),
+});
+
+export default function MainsQuestionsPage() {
+    const [questions, setQuestions] = useState<MainsQuestion[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [selected, setSelected] = useState<MainsQuestion | null>(null);
+    const [form, setForm] = useState<QuestionForm | null>(null);
+    const [answerStats, setAnswerStats] = useState<{ answerCount: number; averageScore: number | null } | null>(null);
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        fetchQuestions();
+    }, []);
+
+    const fetchQuestions = async () => {
+        try {
+            const res = await fetch('/admin/api/mains-questions', { headers: authHeaders() });
+            const data = await res.json();
+            if (res.ok) {
+                setQuestions(data.questions);
+            }
+        } catch (error) {
+            console.error('Failed to fetch mains questions:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const openQuestion = async (id: number) => {
+        try {
+            const res = await fetch(`/admin/api/mains-questions/${id}`, { headers: authHeaders() });
+            const data = await res.json();
+            if (res.ok) {
+                setSelected(data.question);
+                setForm(toForm(data.question));
+                setAnswerStats({ answerCount: data.answerCount, averageScore: data.averageScore });
+            } else {
+                alert(`Error: ${data.error || 'Failed to load question'}`);
+            }
+        } catch (error) {
+            console.error('Failed to load question:', error);
+        }
+    };
+
+    const startNew = () => {
+        setSelected(null);
+        setForm(emptyForm());
+        setAnswerStats(null);
+    };
+
+    const updateForm = (changes: Partial<QuestionForm>) => {
+        if (form) setForm({ ...form, ...changes });
+    };
+
+    const saveQuestion = async (status?: 'draft' | 'published') => {
+        if (!form) return;
+
+        const payload = {
+            ...form,
+            directive: form.directive || null,
+            keyPoints: form.keyPoints.split('\n').map(point => point.trim()).filter(Boolean),
+            ...(status && { status }),
+        };
+
+        setSaving(true);
+        try {
+            const res = await fetch(selected ? `/admin/api/mains-questions/${selected.id}` : '/admin/api/mains-questions', {
+                method: selected ? 'PUT' : 'POST',
+                headers: authHeaders(),
+                body: JSON.stringify(payload),
+            });
+            const data = await res.json();
+            if (res.ok) {
+                setSelected(data.question);
+                setForm(toForm(data.question));
+                if (!selected) setAnswerStats({ answerCount: 0, averageScore: null });
+                fetchQuestions();
+            } else {
+                alert(`Error: ${data.error || 'Failed to save question'}`);
+            }
+        } catch (error) {
+            console.error('Save error:', error);
+            alert('An error occurred while saving the question');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const deleteQuestion = async () => {
+        if (!selected || !confirm(`Delete the ${selected.gsPaper} question for ${selected.questionDate}? Users' answers to it are deleted too.`)) return;
+
+        try {
+            const res = await fetch(`/admin/api/mains-questions/${selected.id}`, {
+                method: 'DELETE',
+                headers: authHeaders(),
+            });
+            if (res.ok) {
+                setSelected(null);
+                setForm(null);
+                fetchQuestions();
+            }
+        } catch (error) {
+            console.error('Delete error:', error);
+        }
+    };
+
+    const inputClass = 'w-full px-4 py-2 rounded-lg border border-slate-200 focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none transition-all text-sm';
+
+    return (
+        <div className="max-w-7xl mx-auto space-y-8">
+            <div className="flex items-center justify-between">
+                <div>
+                    <h1 className="text-3xl font-bold text-slate-900">Mains Questions</h1>
+                    <p className="text-slate-500 mt-1">One answer-writing question per GS paper per day, with a model answer shown after submission</p>
+                </div>
+                <button
+                    onClick={startNew}
+                    className="bg-blue-600 hover:bg-blue-700 text-white px-5 py-2.5 rounded-lg flex items-center gap-2 font-medium transition-all shadow-lg shadow-blue-500/20"
+                >
+                    <Plus className="w-5 h-5" />
+                    New Question
+                </button>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                {/* Question list */}
+                <div className="bg-white rounded-xl border border-slate-200 overflow-hidden">
+                    {loading ? (
+                        <div className="flex justify-center py-12">
+                            <div className="animate-spin h-8 w-8 border-4 border-blue-500 border-t-transparent rounded-full"></div>
+                        </div>
+                    ) : questions.length === 0 ? (
+                        <div className="p-8 text-center">
+                            <PenLine className="w-10 h-10 text-slate-300 mx-auto mb-3" />
+                            <p className="text-slate-500 text-sm">No questions yet. Add today&apos;s question for each GS paper.</p>
+                        </div>
+                    ) : (
+                        <ul className="divide-y divide-slate-100">
+                            {questions.map((question) => (
+                                <li key={question.id}>
+                                    <button
+                                        onClick={() => openQuestion(question.id)}
+                                        className={`w-full text-left px-5 py-4 hover:bg-slate-50 transition-colors ${selected?.id === question.id ? 'bg-blue-50' : ''}`}
+                                    >
+                                        <div className="flex items-center justify-between">
+                                            <span className="font-semibold text-slate-900">{question.questionDate} · {question.gsPaper}</span>
+                                            <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${question.status === 'published' ? 'bg-green-100 text-green-700' : 'bg-amber-100 text-amber-700'}`}>
+                                                {question.status === 'published' ? 'Published' : 'Draft'}
+                                            </span>
+                                        </div>
+                                        <p className="text-xs text-slate-500 mt-1 line-clamp-2">{question.question}</p>
+                                        <p className="text-xs text-slate-400 mt-1">
+                                            {DIRECTIVES[question.directive] || question.directive} · {question.marks} marks · {question.wordLimit} words
+                                        </p>
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+
+                {/* Editor */}
+                <div className="lg:col-span-2 bg-white rounded-xl border border-slate-200 p-6">
+                    {!form ? (
+                        <div className="py-16 text-center text-slate-500">Select a question to edit it, or add a new one.</div>
+                    ) : (
+                        <div className="space-y-5">
+                            <div className="flex items-center justify-between">
+                                <div>
+                                    <h2 className="text-xl font-bold text-slate-900">
+                                        {selected ? `${selected.gsPaper} question for ${selected.questionDate}` : 'New question'}
+                                    </h2>
+                                    <p className="text-sm text-slate-500">
+                                        {selected?.status === 'published' && selected.publishedAt
+                                            ? `Published ${new Date(selected.publishedAt).toLocaleString()}`
+                                            : 'Draft - not visible in the app'}
+                                        {answerStats && answerStats.answerCount > 0 &&
+                                            ` · ${answerStats.answerCount} answers, average ${answerStats.averageScore?.toFixed(1)}/${selected?.marks}`}
+                                    </p>
+                                </div>
+                                {selected && (
+                                    <button
+                                        onClick={deleteQuestion}
+                                        className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                                        title="Delete question"
+                                    >
+                                        <Trash2 className="w-5 h-5" />
+                                    </button>
+                                )}
+                            </div>
+
+                            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                                <label className="block">
+                                    <span className="text-sm font-medium text-slate-700">Date</span>
+                                    <input
+                                        type="date"
+                                        value={form.questionDate}
+                                        onChange={(e) => updateForm({ questionDate: e.target.value })}
+                                        className={`${inputClass} mt-1`}
+                                    />
+                                </label>
+                                <label className="block">
+                                    <span className="text-sm font-medium text-slate-700">GS paper</span>
+                                    <select
+                                        value={form.gsPaper}
+                                        onChange={(e) => updateForm({ gsPaper: e.target.value })}
+                                        className={`${inputClass} mt-1`}
+                                    >
+                                        {GS_PAPERS.map(paper => (
+                                            <option key={paper} value={paper}>{paper}</option>
+                                        ))}
+                                    </select>
+                                </label>
+                                <label className="block">
+                                    <span className="text-sm font-medium text-slate-700">Marks</span>
+                                    <input
+                                        type="number"
+                                        min={1}
+                                        value={form.marks}
+                                        onChange={(e) => {
+                                            const marks = parseInt(e.target.value) || 0;
+                                            updateForm({ marks, wordLimit: defaultWordLimit(marks) });
+                                        }}
+                                        className={`${inputClass} mt-1`}
+                                    />
+                                </label>
+                                <label className="block">
+                                    <span className="text-sm font-medium text-slate-700">Word limit</span>
+                                    <input
+                                        type="number"
+                                        min={1}
+                                        value={form.wordLimit}
+                                        onChange={(e) => updateForm({ wordLimit: parseInt(e.target.value) || 0 })}
+                                        className={`${inputClass} mt-1`}
+                                    />
+                                </label>
+                            </div>
+
+                            <label className="block">
+                                <span className="text-sm font-medium text-slate-700">Question</span>
+                                <textarea
+                                    value={form.question}
+                                    onChange={(e) => updateForm({ question: e.target.value })}
+                                    rows={3}
+                                    className={`${inputClass} mt-1 resize-none`}
+                                />
+                            </label>
+
+                            <label className="block">
+                                <span className="text-sm font-medium text-slate-700">Directive</span>
+                                <select
+                                    value={form.directive}
+                                    onChange={(e) => updateForm({ directive: e.target.value })}
+                                    className={`${inputClass} mt-1`}
+                                >
+                                    <option value="">Detect from the question</option>
+                                    {Object.entries(DIRECTIVES).map(([value, label]) => (
+                                        <option key={value} value={value}>{label}</option>
+                                    ))}
+                                </select>
+                            </label>
+
+                            <label className="block">
+                                <span className="text-sm font-medium text-slate-700">Key points (one per line)</span>
+                                <textarea
+                                    value={form.keyPoints}
+                                    onChange={(e) => updateForm({ keyPoints: e.target.value })}
+                                    rows={4}
+                                    placeholder="Points a good answer must cover; the evaluator checks each one"
+                                    className={`${inputClass} mt-1 resize-none`}
+                                />
+                            </label>
+
+                            <label className="block">
+                                <span className="text-sm font-medium text-slate-700">Model answer</span>
+                                <textarea
+                                    value={form.modelAnswer}
+                                    onChange={(e) => updateForm({ modelAnswer: e.target.value })}
+                                    rows={10}
+                                    placeholder="Shown to users after they submit their answer"
+                                    className={`${inputClass} mt-1`}
+                                />
+                            </label>
+
+                            <div className="flex justify-end gap-3 pt-4 border-t border-slate-100">
+                                <button
+                                    onClick={() => saveQuestion()}
+                                    disabled={saving || !form.question.trim()}
+                                    className="px-4 py-2 text-slate-700 border border-slate-200 hover:bg-slate-50 rounded-lg font-medium flex items-center gap-2 disabled:opacity-70"
+                                >
+                                    <Save className="w-4 h-4" />
+                                    Save
+                                </button>
+                                {selected?.status === 'published' ? (
+                                    <button
+                                        onClick={() => saveQuestion('draft')}
+                                        disabled={saving}
+                                        className="px-4 py-2 bg-amber-500 hover:bg-amber-600 text-white rounded-lg font-medium flex items-center gap-2 disabled:opacity-70"
+                                    >
+                                        <EyeOff className="w-4 h-4" />
+                                        Unpublish
+                                    </button>
+                                ) : (
+                                    <button
+                                        onClick={() => saveQuestion('published')}
+                                        disabled={saving || !form.question.trim() || !form.modelAnswer.trim()}
+                                        className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg font-medium flex items-center gap-2 disabled:opacity-70"
+                                    >
+                                        <Send className="w-4 h-4" />
+                                        Save & Publish
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
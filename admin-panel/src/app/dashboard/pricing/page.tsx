@@ -0,0 +1,385 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { IndianRupee, Plus, Pencil, Trash2, Save, X, Zap } from 'lucide-react';
+
+type PricingKind = 'feature' | 'plan' | 'credit_pack';
+
+interface PricingRow {
+    id: number;
+    kind: PricingKind;
+    key: string;
+    name: string;
+    credits: number;
+    priceInr: number | null;
+    dodoProductId: string | null;
+    details: { perks?: string[]; badge?: string } | null;
+    isActive: boolean;
+    sortOrder: number;
+    updatedAt: string;
+}
+
+interface Draft {
+    id?: number;
+    kind: PricingKind;
+    key: string;
+    name: string;
+    credits: string;
+    priceInr: string;
+    dodoProductId: string;
+    perks: string;
+    badge: string;
+    isActive: boolean;
+    sortOrder: string;
+}
+
+const SECTIONS: { kind: PricingKind; title: string; description: string; creditsLabel: string }[] = [
+    { kind: 'feature', title: 'Feature Costs', description: 'Credits charged per use of each AI feature', creditsLabel: 'Cost (credits)' },
+    { kind: 'plan', title: 'Subscription Plans', description: 'Monthly plans sold through DodoPayments', creditsLabel: 'Credits / month' },
+    { kind: 'credit_pack', title: 'Credit Packs', description: 'One-time credit purchases', creditsLabel: 'Credits' },
+];
+
+const authHeaders = () => ({
+    'Content-Type': 'application/json',
+    Authorization: `Bearer ${localStorage.getItem('sb-access-token')}`,
+});
+
+const emptyDraft = (kind: PricingKind): Draft => ({
+    kind,
+    key: '',
+    name: '',
+    credits: '',
+    priceInr: '',
+    dodoProductId: '',
+    perks: '',
+    badge: '',
+    isActive: true,
+    sortOrder: '0',
+});
+
+const toDraft = (row: PricingRow): Draft => ({
+    id: row.id,
+    kind: row.kind,
+    key: row.key,
+    name: row.name,
+    credits: String(row.credits),
+    priceInr: row.priceInr === null ? '' : String(row.priceInr),
+    dodoProductId: row.dodoProductId || '',
+    perks: (row.details?.perks || []).join('\n'),
+    badge: row.details?.badge || '',
+    isActive: row.isActive,
+    sortOrder: String(row.sortOrder),
+});
+
+const perCredit = (row: PricingRow) =>
+    row.priceInr && row.credits ? `₹${(row.priceInr / row.credits).toFixed(2)}/credit` : '-';
+
+export default function PricingPage() {
+    const [rows, setRows] = useState<PricingRow[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [draft, setDraft] = useState<Draft | null>(null);
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        fetchPricing();
+    }, []);
+
+    const fetchPricing = async () => {
+        try {
+            const res = await fetch('/admin/api/pricing', { headers: authHeaders() });
+            const data = await res.json();
+            if (res.ok) {
+                setRows(data.pricing);
+            }
+        } catch (error) {
+            console.error('Failed to fetch pricing:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const saveDraft = async () => {
+        if (!draft) return;
+
+        const body = {
+            kind: draft.kind,
+            key: draft.key,
+            name: draft.name,
+            credits: draft.credits,
+            ...(draft.kind !== 'feature' && {
+                priceInr: draft.priceInr,
+                dodoProductId: draft.dodoProductId,
+                details: { perks: draft.perks.split('\n'), badge: draft.badge },
+            }),
+            isActive: draft.isActive,
+            sortOrder: draft.sortOrder,
+        };
+
+        setSaving(true);
+        try {
+            const res = await fetch(draft.id ? `/admin/api/pricing/${draft.id}` : '/admin/api/pricing', {
+                method: draft.id ? 'PUT' : 'POST',
+                headers: authHeaders(),
+                body: JSON.stringify(body),
+            });
+            const data = await res.json();
+            if (res.ok) {
+                setDraft(null);
+                fetchPricing();
+            } else {
+                alert(`Error: ${data.error || 'Failed to save'}`);
+            }
+        } catch (error) {
+            console.error('Save pricing error:', error);
+            alert('An error occurred while saving');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const toggleActive = async (row: PricingRow) => {
+        const res = await fetch(`/admin/api/pricing/${row.id}`, {
+            method: 'PUT',
+            headers: authHeaders(),
+            body: JSON.stringify({ isActive: !row.isActive }),
+        });
+        if (res.ok) {
+            fetchPricing();
+        } else {
+            const data = await res.json();
+            alert(`Error: ${data.error || 'Failed to update'}`);
+        }
+    };
+
+    const deleteRow = async (row: PricingRow) => {
+        if (!confirm(`Delete "${row.name}"? The app falls back to its built-in cost for this feature.`)) return;
+
+        const res = await fetch(`/admin/api/pricing/${row.id}`, { method: 'DELETE', headers: authHeaders() });
+        if (res.ok) {
+            fetchPricing();
+        } else {
+            const data = await res.json();
+            alert(`Error: ${data.error || 'Failed to delete'}`);
+        }
+    };
+
+    const renderEditor = (section: typeof SECTIONS[number]) => {
+        if (!draft || draft.kind !== section.kind) return null;
+        const isProduct = draft.kind !== 'feature';
+        const input = 'w-full px-3 py-2 rounded-lg border border-slate-200 focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none text-sm';
+
+        return (
+            <div className="p-5 border-b border-slate-100 bg-slate-50/50 space-y-4">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    <div>
+                        <label className="block text-xs font-semibold text-slate-600 mb-1">Key</label>
+                        <input
+                            value={draft.key}
+                            onChange={(e) => setDraft({ ...draft, key: e.target.value })}
+                            placeholder={draft.kind === 'feature' ? 'mcq_generator' : draft.kind === 'plan' ? 'basic' : 'credits_500'}
+                            className={`${input} font-mono`}
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-xs font-semibold text-slate-600 mb-1">Name</label>
+                        <input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} className={input} />
+                    </div>
+                    <div>
+                        <label className="block text-xs font-semibold text-slate-600 mb-1">{section.creditsLabel}</label>
+                        <input type="number" min={0} value={draft.credits} onChange={(e) => setDraft({ ...draft, credits: e.target.value })} className={input} />
+                    </div>
+                    <div>
+                        <label className="block text-xs font-semibold text-slate-600 mb-1">Sort order</label>
+                        <input type="number" value={draft.sortOrder} onChange={(e) => setDraft({ ...draft, sortOrder: e.target.value })} className={input} />
+                    </div>
+                </div>
+
+                {isProduct && (
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                        <div>
+                            <label className="block text-xs font-semibold text-slate-600 mb-1">Price (₹)</label>
+                            <input type="number" min={0} value={draft.priceInr} onChange={(e) => setDraft({ ...draft, priceInr: e.target.value })} className={input} />
+                        </div>
+                        <div className="col-span-2">
+                            <label className="block text-xs font-semibold text-slate-600 mb-1">DodoPayments product ID</label>
+                            <input
+                                value={draft.dodoProductId}
+                                onChange={(e) => setDraft({ ...draft, dodoProductId: e.target.value })}
+                                placeholder="pdt_..."
+                                className={`${input} font-mono`}
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-xs font-semibold text-slate-600 mb-1">Badge</label>
+                            <input
+                                value={draft.badge}
+                                onChange={(e) => setDraft({ ...draft, badge: e.target.value })}
+                                placeholder="MOST POPULAR"
+                                className={input}
+                            />
+                        </div>
+                    </div>
+                )}
+
+                {draft.kind === 'plan' && (
+                    <div>
+                        <label className="block text-xs font-semibold text-slate-600 mb-1">Perks (one per line)</label>
+                        <textarea
+                            value={draft.perks}
+                            onChange={(e) => setDraft({ ...draft, perks: e.target.value })}
+                            rows={3}
+                            className={`${input} resize-none`}
+                        />
+                    </div>
+                )}
+
+                <div className="flex items-center justify-between">
+                    <label className="flex items-center gap-2 text-sm text-slate-700">
+                        <input
+                            type="checkbox"
+                            checked={draft.isActive}
+                            onChange={(e) => setDraft({ ...draft, isActive: e.target.checked })}
+                            className="rounded border-slate-300"
+                        />
+                        Active
+                    </label>
+                    <div className="flex items-center gap-2">
+                        <button
+                            onClick={() => setDraft(null)}
+                            className="px-4 py-2 rounded-lg text-slate-600 hover:bg-slate-100 font-medium text-sm flex items-center gap-1"
+                        >
+                            <X className="w-4 h-4" />
+                            Cancel
+                        </button>
+                        <button
+                            onClick={saveDraft}
+                            disabled={saving}
+                            className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-medium text-sm flex items-center gap-1 disabled:opacity-70"
+                        >
+                            <Save className="w-4 h-4" />
+                            {saving ? 'Saving...' : 'Save'}
+                        </button>
+                    </div>
+                </div>
+            </div>
+        );
+    };
+
+    const renderSection = (section: typeof SECTIONS[number]) => {
+        const sectionRows = rows.filter(row => row.kind === section.kind);
+        const isProduct = section.kind !== 'feature';
+
+        return (
+            <div key={section.kind} className="bg-white rounded-xl border border-slate-200 overflow-hidden">
+                <div className="p-5 border-b border-slate-100 flex items-center justify-between">
+                    <div>
+                        <h2 className="text-lg font-semibold text-slate-900">{section.title}</h2>
+                        <p className="text-sm text-slate-500">{section.description}</p>
+                    </div>
+                    <button
+                        onClick={() => setDraft(emptyDraft(section.kind))}
+                        className="text-sm text-blue-600 hover:text-blue-700 font-medium flex items-center gap-1"
+                    >
+                        <Plus className="w-4 h-4" />
+                        Add
+                    </button>
+                </div>
+
+                {renderEditor(section)}
+
+                {sectionRows.length === 0 ? (
+                    <p className="p-6 text-sm text-slate-500 text-center">Nothing configured yet.</p>
+                ) : (
+                    <table className="w-full text-sm">
+                        <thead className="bg-slate-50 text-slate-600">
+                            <tr>
+                                <th className="text-left px-5 py-2 font-medium">Name</th>
+                                <th className="text-left px-5 py-2 font-medium">Key</th>
+                                <th className="text-right px-5 py-2 font-medium">{section.creditsLabel}</th>
+                                {isProduct && <th className="text-right px-5 py-2 font-medium">Price</th>}
+                                {isProduct && <th className="text-right px-5 py-2 font-medium">Per credit</th>}
+                                {isProduct && <th className="text-left px-5 py-2 font-medium">Product ID</th>}
+                                <th className="text-left px-5 py-2 font-medium">Status</th>
+                                <th className="px-5 py-2"></th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-100">
+                            {sectionRows.map((row) => (
+                                <tr key={row.id} className={row.isActive ? '' : 'opacity-50'}>
+                                    <td className="px-5 py-3 font-medium text-slate-900">
+                                        {row.name}
+                                        {row.details?.badge && (
+                                            <span className="ml-2 px-1.5 py-0.5 rounded bg-indigo-100 text-indigo-700 text-[10px] font-bold">
+                                                {row.details.badge}
+                                            </span>
+                                        )}
+                                    </td>
+                                    <td className="px-5 py-3 font-mono text-xs text-slate-500">{row.key}</td>
+                                    <td className="px-5 py-3 text-right font-semibold text-slate-900">
+                                        <span className="inline-flex items-center gap-1">
+                                            <Zap className="w-3 h-3 text-amber-500" />
+                                            {row.credits}
+                                        </span>
+                                    </td>
+                                    {isProduct && <td className="px-5 py-3 text-right text-slate-900">₹{row.priceInr}</td>}
+                                    {isProduct && <td className="px-5 py-3 text-right text-slate-500">{perCredit(row)}</td>}
+                                    {isProduct && <td className="px-5 py-3 font-mono text-xs text-slate-500">{row.dodoProductId}</td>}
+                                    <td className="px-5 py-3">
+                                        <button
+                                            onClick={() => toggleActive(row)}
+                                            className={`px-2 py-0.5 rounded-full text-xs font-semibold ${row.isActive ? 'bg-green-100 text-green-700' : 'bg-slate-100 text-slate-600'}`}
+                                        >
+                                            {row.isActive ? 'Active' : 'Inactive'}
+                                        </button>
+                                    </td>
+                                    <td className="px-5 py-3">
+                                        <div className="flex items-center justify-end gap-1">
+                                            <button
+                                                onClick={() => setDraft(toDraft(row))}
+                                                className="p-1.5 text-slate-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                                                title="Edit"
+                                            >
+                                                <Pencil className="w-4 h-4" />
+                                            </button>
+                                            {!isProduct && (
+                                                <button
+                                                    onClick={() => deleteRow(row)}
+                                                    className="p-1.5 text-slate-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                                                    title="Delete"
+                                                >
+                                                    <Trash2 className="w-4 h-4" />
+                                                </button>
+                                            )}
+                                        </div>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+        );
+    };
+
+    return (
+        <div className="max-w-7xl mx-auto space-y-8">
+            <div>
+                <h1 className="text-3xl font-bold text-slate-900 flex items-center gap-3">
+                    <IndianRupee className="w-8 h-8 text-blue-600" />
+                    Pricing
+                </h1>
+                <p className="text-slate-500 mt-1">
+                    Changes apply to the app, metered AI routes and payment webhook within a minute. No redeploy needed.
+                </p>
+            </div>
+
+            {loading ? (
+                <div className="flex justify-center py-12">
+                    <div className="animate-spin h-8 w-8 border-4 border-blue-500 border-t-transparent rounded-full"></div>
+                </div>
+            ) : (
+                SECTIONS.map(renderSection)
+            )}
+        </div>
+    );
+}
@@ -1,21 +1,128 @@
 'use client';
 
-import { useState } from 'react';
-import { Save, CheckCircle, AlertCircle, RefreshCw } from 'lucide-react';
+import { useState, useEffect } from 'react';
+import { Save, CheckCircle, AlertCircle, RefreshCw, Upload, FileCheck } from 'lucide-react';
+import { QUESTION_SUBJECTS, QUESTION_DIFFICULTIES, QUESTION_SOURCES } from '@/lib/question-taxonomy';
+
+interface RoadmapTopic {
+    id: number;
+    name: string;
+    paper: string;
+}
+
+interface ImportPreviewRow {
+    row: number;
+    question: string;
+    correctAnswer: string;
+    subject: string | null;
+    topicName: string | null;
+    year: number | null;
+    difficulty: string | null;
+    source: string | null;
+}
+
+const EMPTY_QUESTION = {
+    question: '',
+    optionA: '',
+    optionB: '',
+    optionC: '',
+    optionD: '',
+    correctAnswer: 'A',
+    explanation: '',
+};
+
+const EMPTY_TAXONOMY = {
+    subject: '',
+    topicId: '',
+    year: '',
+    difficulty: '',
+    source: '',
+};
+
+const CSV_TEMPLATE = 'question,optionA,optionB,optionC,optionD,correctAnswer,explanation,subject,topic,year,difficulty,source';
 
 export default function QuestionPaperPage({ params }: { params: { id: string } }) {
     const questionSetId = params.id;
-    const [formData, setFormData] = useState({
-        question: '',
-        optionA: '',
-        optionB: '',
-        optionC: '',
-        optionD: '',
-        correctAnswer: 'A',
-        explanation: ''
-    });
+    const [formData, setFormData] = useState({ ...EMPTY_QUESTION, ...EMPTY_TAXONOMY });
     const [loading, setLoading] = useState(false);
     const [status, setStatus] = useState<{ type: 'success' | 'error', message: string } | null>(null);
+    const [topics, setTopics] = useState<RoadmapTopic[]>([]);
+
+    // Bulk import
+    const [importFormat, setImportFormat] = useState<'csv' | 'json'>('csv');
+    const [importContent, setImportContent] = useState('');
+    const [importDefaults, setImportDefaults] = useState({ year: '', source: 'upsc_cse', difficulty: '' });
+    const [importPreview, setImportPreview] = useState<ImportPreviewRow[] | null>(null);
+    const [importErrors, setImportErrors] = useState<Array<{ row: number; error: string }>>([]);
+    const [importing, setImporting] = useState(false);
+
+    useEffect(() => {
+        fetchTopics();
+    }, []);
+
+    const fetchTopics = async () => {
+        try {
+            const res = await fetch('/admin/api/roadmap', {
+                headers: { Authorization: `Bearer ${localStorage.getItem('sb-access-token')}` },
+            });
+            const data = await res.json();
+            if (res.ok) {
+                setTopics(data.topics);
+            }
+        } catch (error) {
+            console.error('Failed to fetch roadmap topics:', error);
+        }
+    };
+
+    const runImport = async (dryRun: boolean) => {
+        setImporting(true);
+        try {
+            const res = await fetch('/admin/api/questions/import', {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    Authorization: `Bearer ${localStorage.getItem('sb-access-token')}`,
+                },
+                body: JSON.stringify({
+                    questionSetId,
+                    format: importFormat,
+                    content: importContent,
+                    dryRun,
+                    defaults: {
+                        year: importDefaults.year ? parseInt(importDefaults.year) : undefined,
+                        source: importDefaults.source || undefined,
+                        difficulty: importDefaults.difficulty || undefined,
+                    },
+                }),
+            });
+            const data = await res.json();
+
+            if (data.error) {
+                throw new Error(data.error);
+            }
+
+            setImportErrors(data.errors);
+            if (dryRun) {
+                setImportPreview(data.preview);
+            } else if (data.inserted > 0) {
+                setStatus({ type: 'success', message: `Imported ${data.inserted} questions.` });
+                setImportContent('');
+                setImportPreview(null);
+            }
+        } catch (error: any) {
+            console.error('Import error:', error);
+            setImportErrors([{ row: 0, error: error.message || 'Import failed' }]);
+        } finally {
+            setImporting(false);
+        }
+    };
+
+    const handleImportFile = async (file: File) => {
+        setImportFormat(file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv');
+        setImportContent(await file.text());
+        setImportPreview(null);
+        setImportErrors([]);
+    };
 
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
@@ -41,16 +148,8 @@ export default function QuestionPaperPage({ params }: { params: { id: string } }
 
             setStatus({ type: 'success', message: 'Question saved successfully!' });
 
-            // Reset form
-            setFormData({
-                question: '',
-                optionA: '',
-                optionB: '',
-                optionC: '',
-                optionD: '',
-                correctAnswer: 'A',
-                explanation: ''
-            });
+            // Reset the question but keep the taxonomy, since papers are usually entered section by section
+            setFormData({ ...formData, ...EMPTY_QUESTION });
         } catch (error: any) {
             console.error('Submit Error:', error);
             setStatus({ type: 'error', message: error.message || 'Failed to save question.' });
@@ -79,6 +178,70 @@ export default function QuestionPaperPage({ params }: { params: { id: string } }
                 <form onSubmit={handleSubmit} className="p-6 space-y-6">
                     {/* Question */}
                     <div className="space-y-4">
+                        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+                            <div>
+                                <label className="block text-sm font-semibold text-slate-700 mb-2">Subject</label>
+                                <select
+                                    value={formData.subject}
+                                    onChange={(e) => setFormData({ ...formData, subject: e.target.value })}
+                                    className="w-full px-3 py-3 rounded-lg border border-slate-200 focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 transition-all outline-none bg-white cursor-pointer"
+                                >
+                                    <option value="">Uncategorised</option>
+                                    {QUESTION_SUBJECTS.map((subject) => (
+                                        <option key={subject} value={subject}>{subject}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div className="md:col-span-2">
+                                <label className="block text-sm font-semibold text-slate-700 mb-2">Roadmap Topic</label>
+                                <select
+                                    value={formData.topicId}
+                                    onChange={(e) => setFormData({ ...formData, topicId: e.target.value })}
+                                    className="w-full px-3 py-3 rounded-lg border border-slate-200 focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 transition-all outline-none bg-white cursor-pointer"
+                                >
+                                    <option value="">None</option>
+                                    {topics.map((topic) => (
+                                        <option key={topic.id} value={topic.id}>{topic.paper} · {topic.name}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-semibold text-slate-700 mb-2">Year</label>
+                                <input
+                                    type="number"
+                                    value={formData.year}
+                                    onChange={(e) => setFormData({ ...formData, year: e.target.value })}
+                                    placeholder="e.g. 2023"
+                                    className="w-full px-3 py-3 rounded-lg border border-slate-200 focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 transition-all outline-none"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-semibold text-slate-700 mb-2">Difficulty</label>
+                                <select
+                                    value={formData.difficulty}
+                                    onChange={(e) => setFormData({ ...formData, difficulty: e.target.value })}
+                                    className="w-full px-3 py-3 rounded-lg border border-slate-200 focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 transition-all outline-none bg-white cursor-pointer capitalize"
+                                >
+                                    <option value="">Unrated</option>
+                                    {QUESTION_DIFFICULTIES.map((difficulty) => (
+                                        <option key={difficulty} value={difficulty}>{difficulty}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        </div>
+                        <div className="md:w-1/3">
+                            <label className="block text-sm font-semibold text-slate-700 mb-2">Source</label>
+                            <select
+                                value={formData.source}
+                                onChange={(e) => setFormData({ ...formData, source: e.target.value })}
+                                className="w-full px-3 py-3 rounded-lg border border-slate-200 focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 transition-all outline-none bg-white cursor-pointer"
+                            >
+                                <option value="">Not specified</option>
+                                {Object.entries(QUESTION_SOURCES).map(([value, label]) => (
+                                    <option key={value} value={value}>{label}</option>
+                                ))}
+                            </select>
+                        </div>
                         <div>
                             <label className="block text-sm font-semibold text-slate-700 mb-2">
                                 Question Text <span className="text-red-500">*</span>
@@ -170,7 +333,7 @@ export default function QuestionPaperPage({ params }: { params: { id: string } }
                     <div className="pt-6 border-t border-slate-100 flex items-center justify-end gap-3">
                         <button
                             type="button"
-                            onClick={() => setFormData({ question: '', optionA: '', optionB: '', optionC: '', optionD: '', correctAnswer: 'A', explanation: '' })}
+                            onClick={() => setFormData({ ...EMPTY_QUESTION, ...EMPTY_TAXONOMY })}
                             className="px-6 py-2.5 rounded-lg text-slate-600 hover:text-slate-800 hover:bg-slate-100 font-medium transition-all"
                         >
                             Clear Form
@@ -186,6 +349,156 @@ export default function QuestionPaperPage({ params }: { params: { id: string } }
                     </div>
                 </form>
             </div>
+
+            {/* Bulk Import */}
+            <div className="bg-white rounded-xl shadow-sm border border-slate-200">
+                <div className="p-6 border-b border-slate-100 flex items-center justify-between bg-slate-50/50 rounded-t-xl">
+                    <h2 className="text-lg font-semibold text-slate-800 flex items-center gap-2">
+                        <span className="w-2 h-6 bg-indigo-500 rounded-full"></span>
+                        Bulk Import Paper
+                    </h2>
+                    <label className="text-sm text-blue-600 hover:text-blue-700 font-medium cursor-pointer flex items-center gap-2">
+                        <Upload className="w-4 h-4" />
+                        Choose CSV / JSON file
+                        <input
+                            type="file"
+                            accept=".csv,.json"
+                            className="hidden"
+                            onChange={(e) => e.target.files?.[0] && handleImportFile(e.target.files[0])}
+                        />
+                    </label>
+                </div>
+
+                <div className="p-6 space-y-4">
+                    <p className="text-sm text-slate-500">
+                        CSV header: <code className="bg-slate-100 px-1.5 py-0.5 rounded text-xs">{CSV_TEMPLATE}</code>.
+                        JSON: an array of objects with the same keys. <code className="bg-slate-100 px-1.5 py-0.5 rounded text-xs">topic</code> is a roadmap topic ID or name.
+                        The defaults below apply to rows that leave those columns empty.
+                    </p>
+
+                    <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                        <div>
+                            <label className="block text-sm font-semibold text-slate-700 mb-2">Format</label>
+                            <select
+                                value={importFormat}
+                                onChange={(e) => setImportFormat(e.target.value as 'csv' | 'json')}
+                                className="w-full px-3 py-2.5 rounded-lg border border-slate-200 outline-none bg-white"
+                            >
+                                <option value="csv">CSV</option>
+                                <option value="json">JSON</option>
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-semibold text-slate-700 mb-2">Default year</label>
+                            <input
+                                type="number"
+                                value={importDefaults.year}
+                                onChange={(e) => setImportDefaults({ ...importDefaults, year: e.target.value })}
+                                placeholder="e.g. 2023"
+                                className="w-full px-3 py-2.5 rounded-lg border border-slate-200 outline-none"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-semibold text-slate-700 mb-2">Default source</label>
+                            <select
+                                value={importDefaults.source}
+                                onChange={(e) => setImportDefaults({ ...importDefaults, source: e.target.value })}
+                                className="w-full px-3 py-2.5 rounded-lg border border-slate-200 outline-none bg-white"
+                            >
+                                <option value="">None</option>
+                                {Object.entries(QUESTION_SOURCES).map(([value, label]) => (
+                                    <option key={value} value={value}>{label}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-semibold text-slate-700 mb-2">Default difficulty</label>
+                            <select
+                                value={importDefaults.difficulty}
+                                onChange={(e) => setImportDefaults({ ...importDefaults, difficulty: e.target.value })}
+                                className="w-full px-3 py-2.5 rounded-lg border border-slate-200 outline-none bg-white capitalize"
+                            >
+                                <option value="">None</option>
+                                {QUESTION_DIFFICULTIES.map((difficulty) => (
+                                    <option key={difficulty} value={difficulty}>{difficulty}</option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+
+                    <textarea
+                        value={importContent}
+                        onChange={(e) => {
+                            setImportContent(e.target.value);
+                            setImportPreview(null);
+                        }}
+                        rows={8}
+                        placeholder={importFormat === 'csv' ? `${CSV_TEMPLATE}\n...` : '[{ "question": "...", "optionA": "...", ... }]'}
+                        className="w-full px-4 py-3 rounded-lg border border-slate-200 focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none font-mono text-xs resize-y"
+                    />
+
+                    {importErrors.length > 0 && (
+                        <div className="p-4 rounded-xl bg-red-50 text-red-700 border border-red-200 text-sm space-y-1 max-h-48 overflow-y-auto">
+                            <p className="font-semibold">Fix these rows before importing:</p>
+                            {importErrors.map((error, i) => (
+                                <p key={i}>{error.row > 0 ? `Row ${error.row}: ` : ''}{error.error}</p>
+                            ))}
+                        </div>
+                    )}
+
+                    {importPreview && importPreview.length > 0 && (
+                        <div className="border border-slate-200 rounded-lg overflow-hidden">
+                            <div className="max-h-72 overflow-y-auto">
+                                <table className="w-full text-sm">
+                                    <thead className="bg-slate-50 text-slate-600 sticky top-0">
+                                        <tr>
+                                            <th className="text-left px-3 py-2">#</th>
+                                            <th className="text-left px-3 py-2">Question</th>
+                                            <th className="text-left px-3 py-2">Ans</th>
+                                            <th className="text-left px-3 py-2">Subject</th>
+                                            <th className="text-left px-3 py-2">Topic</th>
+                                            <th className="text-left px-3 py-2">Year</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-slate-100">
+                                        {importPreview.map((row) => (
+                                            <tr key={row.row}>
+                                                <td className="px-3 py-2 text-slate-400">{row.row}</td>
+                                                <td className="px-3 py-2 text-slate-800 max-w-md truncate">{row.question}</td>
+                                                <td className="px-3 py-2 font-semibold">{row.correctAnswer}</td>
+                                                <td className="px-3 py-2 text-slate-600">{row.subject || '-'}</td>
+                                                <td className="px-3 py-2 text-slate-600">{row.topicName || '-'}</td>
+                                                <td className="px-3 py-2 text-slate-600">{row.year || '-'}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </div>
+                    )}
+
+                    <div className="flex items-center justify-end gap-3">
+                        <button
+                            type="button"
+                            onClick={() => runImport(true)}
+                            disabled={importing || !importContent.trim()}
+                            className="px-6 py-2.5 rounded-lg text-slate-700 border border-slate-200 hover:bg-slate-50 font-medium transition-all flex items-center gap-2 disabled:opacity-50"
+                        >
+                            <FileCheck className="w-5 h-5" />
+                            Preview
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => runImport(false)}
+                            disabled={importing || !importPreview || importPreview.length === 0 || importErrors.length > 0}
+                            className="bg-indigo-600 hover:bg-indigo-700 text-white px-8 py-2.5 rounded-lg font-medium transition-all flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            {importing ? <RefreshCw className="w-5 h-5 animate-spin" /> : <Upload className="w-5 h-5" />}
+                            {importing ? 'Importing...' : `Import ${importPreview?.length || ''} Questions`}
+                        </button>
+                    </div>
+                </div>
+            </div>
         </div>
     );
 }
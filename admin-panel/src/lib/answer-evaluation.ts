@@ -0,0 +1,260 @@
+import { OPENROUTER_API_KEY } from './secure-config';
+import type { AnswerPage, AnswerRubric, PageAnnotation, RubricCriterion } from './db/schema';
+
+const OPENROUTER_URL = 'https://openrouter.ai/api/v1/chat/completions';
+export const ANSWER_EVALUATION_MODEL = 'google/gemini-3-flash-preview';
+
+export const MAX_ANSWER_PAGES = 10;
+
+// Share of the question's marks awarded for each rubric criterion
+const RUBRIC_WEIGHTS: Record<RubricCriterion, number> = {
+    introduction: 0.15,
+    body: 0.4,
+    conclusion: 0.15,
+    structure: 0.1,
+    keywords: 0.1,
+    wordLimit: 0.1,
+};
+
+const CRITERION_LABELS: Record<RubricCriterion, string> = {
+    introduction: 'Introduction',
+    body: 'Body',
+    conclusion: 'Conclusion',
+    structure: 'Structure & presentation',
+    keywords: 'Keywords & terminology',
+    wordLimit: 'Word limit',
+};
+
+export type AnswerUpload = {
+    mimeType: 'image/jpeg' | 'image/png' | 'application/pdf';
+    data: string; // base64 without data: prefix
+};
+
+export type HandwrittenEvaluation = {
+    pages: AnswerPage[];
+    wordCount: number;
+    rubric: AnswerRubric;
+    score: number;
+    keywordsUsed: string[];
+    keywordsMissed: string[];
+    examinerRemark: string;
+    improvementPlan: string[];
+};
+
+// UPSC word limits: 150 words for 10 markers, 250 for 15 markers, 1000-1200 for essays
+export function defaultWordLimit(marks: number): number {
+    if (marks <= 10) return 150;
+    if (marks <= 20) return 250;
+    if (marks >= 125) return 1100;
+    return Math.round(marks * 15);
+}
+
+export const roundToHalf = (value: number) => Math.round(value * 2) / 2;
+
+// Max score per criterion, in half marks, always summing to `marks`
+export function rubricMaxScores(marks: number): Record<RubricCriterion, number> {
+    const maxScores = {} as Record<RubricCriterion, number>;
+    let allocated = 0;
+
+    (Object.keys(RUBRIC_WEIGHTS) as RubricCriterion[]).forEach(criterion => {
+        maxScores[criterion] = roundToHalf(marks * RUBRIC_WEIGHTS[criterion]);
+        allocated += maxScores[criterion];
+    });
+
+    // Any rounding difference goes to the body, which carries the most weight
+    maxScores.body = roundToHalf(maxScores.body + marks - allocated);
+    return maxScores;
+}
+
+// Word limit is scored deterministically: full marks within 10% of the limit,
+// falling linearly to zero at 50% over or under
+export function scoreWordLimit(wordCount: number, wordLimit: number, maxScore: number): number {
+    if (wordLimit <= 0) return maxScore;
+
+    const deviation = Math.abs(wordCount - wordLimit) / wordLimit;
+    if (deviation <= 0.1) return maxScore;
+    if (deviation >= 0.5) return 0;
+
+    return roundToHalf(maxScore * (1 - (deviation - 0.1) / 0.4));
+}
+
+export const countWords = (text: string) => text.trim().split(/\s+/).filter(w => w.length > 0).length;
+
+function buildPrompt(question: string, marks: number, wordLimit: number, pageCount: number, maxScores: Record<RubricCriterion, number>) {
+    return `You are a senior UPSC Mains examiner evaluating a HANDWRITTEN answer spread over ${pageCount} page(s).
+
+**Question (${marks} marks, ${wordLimit} words):** ${question}
+
+Step 1 - Transcribe each page separately, in order, exactly as written.
+Step 2 - Add examiner margin comments for each page. Each comment must quote a short excerpt (max 12 words) copied verbatim from that page's transcription.
+Step 3 - Score the answer on this rubric. Use half marks at most; never exceed the maximum.
+- introduction (max ${maxScores.introduction}): context, definition or data-backed opening
+- body (max ${maxScores.body}): coverage of all demands of the question, multi-dimensional analysis, examples, committees, data
+- conclusion (max ${maxScores.conclusion}): balanced, forward-looking way ahead
+- structure (max ${maxScores.structure}): headings, sub-points, flow, diagrams/flowcharts where useful
+- keywords (max ${maxScores.keywords}): UPSC terminology, constitutional articles, schemes, reports
+
+Respond ONLY with valid JSON in this exact shape:
+
+{
+  "pages": [
+    {
+      "page": 1,
+      "text": "<transcription of page 1>",
+      "annotations": [
+        { "excerpt": "<verbatim excerpt>", "comment": "<examiner comment>", "type": "positive" | "improve" }
+      ]
+    }
+  ],
+  "rubric": {
+    "introduction": { "score": <number>, "feedback": "<specific feedback>" },
+    "body": { "score": <number>, "feedback": "<specific feedback>" },
+    "conclusion": { "score": <number>, "feedback": "<specific feedback>" },
+    "structure": { "score": <number>, "feedback": "<specific feedback>" },
+    "keywords": { "score": <number>, "feedback": "<specific feedback>" }
+  },
+  "keywordsUsed": ["<keyword found in the answer>"],
+  "keywordsMissed": ["<important keyword the answer should have used>"],
+  "examinerRemark": "<overall assessment in 2-3 sentences>",
+  "improvementPlan": ["<specific actionable improvement>"]
+}
+
+Be strict: an average aspirant scores 35-45% of the marks, a topper 55-65%.`;
+}
+
+function buildAttachment(upload: AnswerUpload, index: number) {
+    const dataUrl = `data:${upload.mimeType};base64,${upload.data}`;
+
+    if (upload.mimeType === 'application/pdf') {
+        return {
+            type: 'file',
+            file: { filename: `answer-${index + 1}.pdf`, file_data: dataUrl },
+        };
+    }
+
+    return { type: 'image_url', image_url: { url: dataUrl } };
+}
+
+function parseJson(content: string): any {
+    try {
+        return JSON.parse(content);
+    } catch {
+        const jsonMatch = content.match(/\{[\s\S]*\}/);
+        if (!jsonMatch) {
+            throw new Error('No JSON found in AI response');
+        }
+        return JSON.parse(jsonMatch[0]);
+    }
+}
+
+export const toStringArray = (value: unknown): string[] =>
+    Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string' && v.trim().length > 0) : [];
+
+// Clamp AI scores to the rubric, fill gaps and compute the word limit score ourselves
+function normalizeEvaluation(raw: any, marks: number, wordLimit: number): HandwrittenEvaluation {
+    const maxScores = rubricMaxScores(marks);
+
+    const pages: AnswerPage[] = (Array.isArray(raw.pages) ? raw.pages : []).map((page: any, index: number) => ({
+        page: index + 1,
+        text: typeof page?.text === 'string' ? page.text : '',
+        annotations: (Array.isArray(page?.annotations) ? page.annotations : [])
+            .filter((a: any) => a && typeof a.excerpt === 'string' && typeof a.comment === 'string')
+            .map((a: any): PageAnnotation => ({
+                excerpt: a.excerpt,
+                comment: a.comment,
+                type: a.type === 'positive' ? 'positive' : 'improve',
+            })),
+    }));
+
+    const wordCount = countWords(pages.map(p => p.text).join(' '));
+
+    const rubric = {} as AnswerRubric;
+    (Object.keys(maxScores) as RubricCriterion[]).forEach(criterion => {
+        const maxScore = maxScores[criterion];
+
+        if (criterion === 'wordLimit') {
+            rubric.wordLimit = {
+                score: scoreWordLimit(wordCount, wordLimit, maxScore),
+                maxScore,
+                feedback: `${wordCount} words written against a limit of ${wordLimit}.`,
+            };
+            return;
+        }
+
+        const entry = raw.rubric?.[criterion];
+        const score = Number(entry?.score);
+        rubric[criterion] = {
+            score: Number.isFinite(score) ? Math.min(Math.max(roundToHalf(score), 0), maxScore) : 0,
+            maxScore,
+            feedback: typeof entry?.feedback === 'string' ? entry.feedback : `No feedback for ${CRITERION_LABELS[criterion].toLowerCase()}.`,
+        };
+    });
+
+    const score = roundToHalf(Object.values(rubric).reduce((sum, r) => sum + r.score, 0));
+
+    return {
+        pages,
+        wordCount,
+        rubric,
+        score,
+        keywordsUsed: toStringArray(raw.keywordsUsed),
+        keywordsMissed: toStringArray(raw.keywordsMissed),
+        examinerRemark: typeof raw.examinerRemark === 'string' ? raw.examinerRemark : '',
+        improvementPlan: toStringArray(raw.improvementPlan),
+    };
+}
+
+// Transcribe every page and score the answer against the marks-based rubric
+export async function evaluateHandwrittenAnswer(params: {
+    question: string;
+    marks: number;
+    wordLimit: number;
+    uploads: AnswerUpload[];
+}): Promise<HandwrittenEvaluation> {
+    const { question, marks, wordLimit, uploads } = params;
+    const maxScores = rubricMaxScores(marks);
+
+    const response = await fetch(OPENROUTER_URL, {
+        method: 'POST',
+        headers: {
+            'Authorization': `Bearer ${OPENROUTER_API_KEY}`,
+            'Content-Type': 'application/json',
+            'HTTP-Referer': 'https://upsc-app-admin.vercel.app',
+            'X-Title': 'UPSC Answer Evaluator'
+        },
+        body: JSON.stringify({
+            model: ANSWER_EVALUATION_MODEL,
+            messages: [{
+                role: 'user',
+                content: [
+                    { type: 'text', text: buildPrompt(question, marks, wordLimit, uploads.length, maxScores) },
+                    ...uploads.map(buildAttachment),
+                ],
+            }],
+            response_format: { type: 'json_object' },
+            temperature: 0.3,
+            max_tokens: 8000,
+        })
+    });
+
+    if (!response.ok) {
+        const errorText = await response.text();
+        console.error('[AnswerEvaluation] OpenRouter API error:', response.status, errorText);
+        throw new Error(`AI Provider Error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const content: string | undefined = data.choices?.[0]?.message?.content;
+
+    if (!content) {
+        throw new Error('Empty response from AI');
+    }
+
+    const evaluation = normalizeEvaluation(parseJson(content), marks, wordLimit);
+
+    if (evaluation.pages.length === 0 || evaluation.wordCount === 0) {
+        throw new Error('Could not read any handwriting from the uploaded pages');
+    }
+
+    return evaluation;
+}
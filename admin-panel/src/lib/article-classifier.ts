@@ -0,0 +1,87 @@
+import { OPENROUTER_API_KEY } from './secure-config';
+
+const OPENROUTER_URL = 'https://openrouter.ai/api/v1/chat/completions';
+const MODEL = 'google/gemini-3-flash-preview';
+
+export const GS_PAPERS = ['GS1', 'GS2', 'GS3', 'GS4'];
+
+export const SUBJECTS = [
+    'Polity',
+    'Economy',
+    'Geography',
+    'History',
+    'Art & Culture',
+    'Science & Technology',
+    'Environment',
+    'International Relations',
+    'Social Issues',
+    'Ethics',
+    'Current Affairs',
+    'Other',
+];
+
+export type ArticleClassification = {
+    gsPaper: string | null;
+    subject: string;
+    tags: string[];
+    isRelevant: boolean;
+};
+
+// Map an article onto the UPSC syllabus so it lands in the right admin/mobile filters
+export async function classifyArticle(title: string, text: string): Promise<ArticleClassification> {
+    const prompt = `You are a UPSC Civil Services syllabus expert. Classify this news item for a current-affairs feed.
+
+Title: ${title}
+
+Text:
+${text.slice(0, 4000)}
+
+Respond ONLY with JSON:
+{
+  "gsPaper": one of ${JSON.stringify(GS_PAPERS)} or null if it fits none,
+  "subject": one of ${JSON.stringify(SUBJECTS)},
+  "tags": ["3 to 6 short syllabus keywords, e.g. 'Fiscal Policy', 'Article 356', 'Ramsar Sites'"],
+  "isRelevant": false only for items with no UPSC value (sports results, celebrity news, routine appointments)
+}`;
+
+    const response = await fetch(OPENROUTER_URL, {
+        method: 'POST',
+        headers: {
+            'Authorization': `Bearer ${OPENROUTER_API_KEY}`,
+            'Content-Type': 'application/json',
+            'HTTP-Referer': 'https://upsc-app-admin.vercel.app',
+            'X-Title': 'UPSC Prep App'
+        },
+        body: JSON.stringify({
+            model: MODEL,
+            messages: [{ role: 'user', content: prompt }],
+            response_format: { type: 'json_object' },
+            temperature: 0.1,
+        })
+    });
+
+    if (!response.ok) {
+        const errorText = await response.text();
+        console.error('[Classifier] OpenRouter API error:', response.status, errorText);
+        throw new Error(`AI Provider Error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const content: string = data.choices?.[0]?.message?.content || '';
+    const jsonMatch = content.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+        throw new Error('Failed to parse AI classification');
+    }
+
+    const raw = JSON.parse(jsonMatch[0]);
+
+    // Never trust free-form labels: anything off-list falls back to a safe default
+    return {
+        gsPaper: GS_PAPERS.includes(raw.gsPaper) ? raw.gsPaper : null,
+        subject: SUBJECTS.includes(raw.subject) ? raw.subject : 'Current Affairs',
+        tags: Array.isArray(raw.tags)
+            ? raw.tags.filter((t: unknown): t is string => typeof t === 'string' && t.trim().length > 0).slice(0, 6)
+            : [],
+        isRelevant: raw.isRelevant !== false,
+    };
+}
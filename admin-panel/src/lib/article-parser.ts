@@ -0,0 +1,101 @@
+// Shared HTML -> content block parsing used by the scrape routes and the
+// current-affairs ingestion job. Pure functions, safe to run offline.
+
+export type ContentBlock = { type: string; content: string;[key: string]: any };
+
+// Simple HTML parser to extract content blocks
+export function parseHtmlToBlocks(html: string): ContentBlock[] {
+    const blocks: ContentBlock[] = [];
+
+    let cleanHtml = html.replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, '');
+    cleanHtml = cleanHtml.replace(/<style\b[^<]*(?:(?!<\/style>)<[^<]*)*<\/style>/gi, '');
+
+    // Extract headings
+    const headingRegex = /<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi;
+    let match;
+    while ((match = headingRegex.exec(cleanHtml)) !== null) {
+        const level = parseInt(match[1]);
+        const content = match[2].replace(/<[^>]+>/g, '').trim();
+        if (content) {
+            blocks.push({ type: 'heading', level, content });
+        }
+    }
+
+    // Extract paragraphs
+    const paragraphRegex = /<p[^>]*>([\s\S]*?)<\/p>/gi;
+    while ((match = paragraphRegex.exec(cleanHtml)) !== null) {
+        const content = match[1].replace(/<[^>]+>/g, '').trim();
+        if (content && content.length > 20) {
+            blocks.push({ type: 'paragraph', content });
+        }
+    }
+
+    // Extract lists
+    const listRegex = /<(ul|ol)[^>]*>([\s\S]*?)<\/\1>/gi;
+    while ((match = listRegex.exec(cleanHtml)) !== null) {
+        const listType = match[1];
+        const listItems = match[2].match(/<li[^>]*>([\s\S]*?)<\/li>/gi) || [];
+        const items = listItems.map(item => item.replace(/<[^>]+>/g, '').trim()).filter(item => item);
+        if (items.length > 0) {
+            blocks.push({ type: listType === 'ol' ? 'ordered-list' : 'unordered-list', items, content: items.join(', ') });
+        }
+    }
+
+    // Extract blockquotes
+    const blockquoteRegex = /<blockquote[^>]*>([\s\S]*?)<\/blockquote>/gi;
+    while ((match = blockquoteRegex.exec(cleanHtml)) !== null) {
+        const content = match[1].replace(/<[^>]+>/g, '').trim();
+        if (content) {
+            blocks.push({ type: 'quote', content });
+        }
+    }
+
+    return blocks;
+}
+
+// Extract main content from HTML
+export function extractMainContent(html: string): string {
+    let content = html;
+
+    const removePatterns = [
+        /<nav\b[^>]*>[\s\S]*?<\/nav>/gi,
+        /<header\b[^>]*>[\s\S]*?<\/header>/gi,
+        /<footer\b[^>]*>[\s\S]*?<\/footer>/gi,
+        /<aside\b[^>]*>[\s\S]*?<\/aside>/gi,
+        /<div[^>]*class="[^"]*(?:sidebar|advertisement|ads|comments|related|social|share)[^"]*"[^>]*>[\s\S]*?<\/div>/gi,
+        /<!--[\s\S]*?-->/g,
+    ];
+
+    for (const pattern of removePatterns) {
+        content = content.replace(pattern, '');
+    }
+
+    const articleMatch = content.match(/<article[^>]*>([\s\S]*?)<\/article>/i);
+    if (articleMatch) return articleMatch[1];
+
+    const mainMatch = content.match(/<main[^>]*>([\s\S]*?)<\/main>/i);
+    if (mainMatch) return mainMatch[1];
+
+    return content;
+}
+
+// Extract all text content from content blocks for RAG
+export function extractTextContent(contentBlocks: ContentBlock[]): string {
+    const textParts: string[] = [];
+
+    for (const block of contentBlocks) {
+        if (block.type === 'heading' && block.content) {
+            textParts.push(block.content);
+        } else if (block.type === 'paragraph' && block.content) {
+            textParts.push(block.content);
+        } else if (block.type === 'quote' && block.content) {
+            textParts.push(block.content);
+        } else if ((block.type === 'unordered-list' || block.type === 'ordered-list') && block.items) {
+            textParts.push(block.items.join(' '));
+        } else if (block.content) {
+            textParts.push(block.content);
+        }
+    }
+
+    return textParts.join('\n\n');
+}
@@ -1,5 +1,9 @@
-import { NextRequest } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { eq } from 'drizzle-orm';
 import { createServerClient } from './supabase';
+import { db } from './db';
+import { adminUsers } from './db/schema';
+import { AdminRole, Permission, hasPermission, normalizeAdminRole } from './permissions';
 
 export interface AdminUser {
     id: string;
@@ -8,6 +12,11 @@ export interface AdminUser {
     role: string;
 }
 
+// A signed-in account that holds an admin role
+export type AuthorizedAdmin = AdminUser & { role: AdminRole };
+
+export type AdminAuthResult = { user: AuthorizedAdmin } | { response: NextResponse };
+
 // Verify credentials using Supabase
 export async function verifyCredentials(email: string, password: string): Promise<AdminUser | null> {
     try {
@@ -97,13 +106,29 @@ export function getTokenFromRequest(request: NextRequest): string | null {
     return request.cookies.get('sb-access-token')?.value || null;
 }
 
-// Check if running on localhost (dev mode)
+// Check if running on localhost (dev mode). The Host header is client-controlled,
+// so this only ever applies to `next dev`.
 function isDevMode(request: NextRequest): boolean {
+    if (process.env.NODE_ENV !== 'development') return false;
     const host = request.headers.get('host') || '';
     return host.includes('localhost') || host.includes('127.0.0.1') || host.startsWith('192.168');
 }
 
-export async function verifyAuth(request: NextRequest): Promise<AdminUser | null> {
+/**
+ * Admin role for a Supabase account, from admin_users. Supabase user metadata is
+ * editable by the account holder, so it is never trusted for admin access.
+ */
+export async function getAdminRole(email: string): Promise<AdminRole | null> {
+    const [admin] = await db
+        .select({ role: adminUsers.role })
+        .from(adminUsers)
+        .where(eq(adminUsers.email, email.toLowerCase()))
+        .limit(1);
+    return normalizeAdminRole(admin?.role);
+}
+
+// Signed-in admin, or null for missing/invalid tokens and accounts without an admin role
+export async function verifyAuth(request: NextRequest): Promise<AuthorizedAdmin | null> {
     // Dev mode bypass - allow access on localhost without auth
     if (isDevMode(request)) {
         console.log('[DEV] Bypassing auth for localhost');
@@ -111,12 +136,45 @@ export async function verifyAuth(request: NextRequest): Promise<AdminUser | null
             id: 'dev-user',
             email: 'dev@localhost',
             name: 'Dev User',
-            role: 'admin',
+            role: 'super_admin',
         };
     }
 
     const token = getTokenFromRequest(request);
     if (!token) return null;
-    return await verifyToken(token);
+
+    const user = await verifyToken(token);
+    if (!user?.email) return null;
+
+    const role = await getAdminRole(user.email);
+    if (!role) {
+        console.log('No admin role for:', user.email);
+        return null;
+    }
+
+    return { ...user, role };
+}
+
+// 403 for an admin whose role lacks `permission`
+export function forbidden(permission: Permission): NextResponse {
+    return NextResponse.json({ error: 'Your role does not allow this action', permission }, { status: 403 });
+}
+
+/**
+ * Guard for admin API routes: 401 unless signed in as an admin, 403 unless the
+ * admin's role grants `permission` (see ROLE_PERMISSIONS).
+ */
+export async function requirePermission(request: NextRequest, permission: Permission): Promise<AdminAuthResult> {
+    const user = await verifyAuth(request);
+    if (!user) {
+        return { response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+    }
+
+    if (!hasPermission(user.role, permission)) {
+        console.log(`Forbidden: ${user.email} (${user.role}) lacks ${permission}`);
+        return { response: forbidden(permission) };
+    }
+
+    return { user };
 }
 
@@ -0,0 +1,185 @@
+import { db } from './db';
+import { articles, dailyBulletins, BulletinItem } from './db/schema';
+import { and, eq, gte, lt, asc, inArray } from 'drizzle-orm';
+import { OPENROUTER_API_KEY } from './secure-config';
+import { GS_PAPERS } from './article-classifier';
+import { extractTextContent } from './article-parser';
+
+const OPENROUTER_URL = 'https://openrouter.ai/api/v1/chat/completions';
+export const BULLETIN_MODEL = 'google/gemini-3-flash-preview';
+
+export const MAX_BULLETIN_ITEMS = 10;
+
+// Bullets that don't map onto a GS paper (e.g. schemes in news, places in news)
+export const BULLETIN_GROUPS = [...GS_PAPERS, 'Prelims'];
+
+const IST_OFFSET = '+05:30';
+
+// Bulletins follow the Indian calendar day regardless of server timezone
+export function todayBulletinDate(): string {
+    return new Date(Date.now() + 5.5 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+export const isBulletinDate = (value: unknown): value is string =>
+    typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(`${value}T00:00:00${IST_OFFSET}`).getTime());
+
+function dayRange(bulletinDate: string) {
+    const start = new Date(`${bulletinDate}T00:00:00${IST_OFFSET}`);
+    const end = new Date(start.getTime() + 24 * 60 * 60 * 1000);
+    return { start, end };
+}
+
+// Published articles whose publishedDate falls on the given IST day
+export async function getBulletinArticles(bulletinDate: string) {
+    const { start, end } = dayRange(bulletinDate);
+
+    return db
+        .select()
+        .from(articles)
+        .where(and(
+            eq(articles.isPublished, true),
+            gte(articles.publishedDate, start),
+            lt(articles.publishedDate, end)
+        ))
+        .orderBy(asc(articles.publishedDate));
+}
+
+// Titles for the articles a bulletin links to; unpublished articles are left out
+export async function getLinkedArticles(items: BulletinItem[], publishedOnly = true) {
+    const ids = Array.from(new Set(items.flatMap(item => item.articleIds)));
+    if (ids.length === 0) return [];
+
+    return db
+        .select({ id: articles.id, title: articles.title, gsPaper: articles.gsPaper, translations: articles.translations })
+        .from(articles)
+        .where(publishedOnly
+            ? and(inArray(articles.id, ids), eq(articles.isPublished, true))
+            : inArray(articles.id, ids));
+}
+
+// Keep bullets within the allowed groups, drop links to articles outside the day
+// and order them GS1 -> GS4 -> Prelims
+export function normalizeBulletinItems(raw: unknown, validArticleIds: Set<number>): BulletinItem[] {
+    if (!Array.isArray(raw)) return [];
+
+    return raw
+        .filter((item: any) => item && typeof item.text === 'string' && item.text.trim().length > 0)
+        .map((item: any): BulletinItem => ({
+            gsPaper: BULLETIN_GROUPS.includes(item.gsPaper) ? item.gsPaper : 'Prelims',
+            text: item.text.trim(),
+            articleIds: Array.from(new Set<number>(
+                (Array.isArray(item.articleIds) ? item.articleIds : [])
+                    .map((id: unknown) => Number(id))
+                    .filter((id: number) => validArticleIds.has(id))
+            )),
+        }))
+        .sort((a, b) => BULLETIN_GROUPS.indexOf(a.gsPaper) - BULLETIN_GROUPS.indexOf(b.gsPaper));
+}
+
+function buildPrompt(bulletinDate: string, dayArticles: Awaited<ReturnType<typeof getBulletinArticles>>) {
+    const articleList = dayArticles.map(article => {
+        const text = article.summary || extractTextContent(article.content || []);
+        return `[${article.id}] ${article.title}
+GS paper: ${article.gsPaper || 'unclassified'} | Subject: ${article.subject || 'unclassified'}
+${text.slice(0, 1200)}`;
+    }).join('\n\n');
+
+    return `You are preparing the UPSC current-affairs bulletin for ${bulletinDate}.
+
+Summarise the articles below into at most ${MAX_BULLETIN_ITEMS} bullet points an aspirant can revise in two minutes.
+- Group each bullet under one of: ${BULLETIN_GROUPS.join(', ')} (use "Prelims" for facts only useful for Prelims)
+- Each bullet is one or two sentences with the key fact, the institution/scheme/article involved and why it matters for the exam
+- Merge articles covering the same story into one bullet
+- Cite every article a bullet draws on by its [id]
+- Skip articles with no exam relevance
+
+Articles:
+
+${articleList}
+
+Respond ONLY with JSON:
+{
+  "items": [
+    { "gsPaper": "GS2", "text": "<bullet>", "articleIds": [<id>, ...] }
+  ]
+}`;
+}
+
+async function summarizeArticles(bulletinDate: string, dayArticles: Awaited<ReturnType<typeof getBulletinArticles>>): Promise<unknown> {
+    const response = await fetch(OPENROUTER_URL, {
+        method: 'POST',
+        headers: {
+            'Authorization': `Bearer ${OPENROUTER_API_KEY}`,
+            'Content-Type': 'application/json',
+            'HTTP-Referer': 'https://upsc-app-admin.vercel.app',
+            'X-Title': 'UPSC Daily Bulletin'
+        },
+        body: JSON.stringify({
+            model: BULLETIN_MODEL,
+            messages: [{ role: 'user', content: buildPrompt(bulletinDate, dayArticles) }],
+            response_format: { type: 'json_object' },
+            temperature: 0.3,
+            max_tokens: 4000,
+        })
+    });
+
+    if (!response.ok) {
+        const errorText = await response.text();
+        console.error('[Bulletin] OpenRouter API error:', response.status, errorText);
+        throw new Error(`AI Provider Error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const content: string | undefined = data.choices?.[0]?.message?.content;
+
+    if (!content) {
+        throw new Error('Empty response from AI');
+    }
+
+    try {
+        return JSON.parse(content).items;
+    } catch {
+        const jsonMatch = content.match(/\{[\s\S]*\}/);
+        if (!jsonMatch) {
+            throw new Error('Failed to parse AI bulletin as JSON');
+        }
+        return JSON.parse(jsonMatch[0]).items;
+    }
+}
+
+// Draft the bulletin for a day from its published articles.
+// Regenerating replaces the bullets and sends the bulletin back to draft for review.
+// Returns null when nothing was published that day.
+export async function generateBulletin(bulletinDate: string) {
+    const dayArticles = await getBulletinArticles(bulletinDate);
+
+    if (dayArticles.length === 0) {
+        return null;
+    }
+
+    const rawItems = await summarizeArticles(bulletinDate, dayArticles);
+    const items = normalizeBulletinItems(rawItems, new Set(dayArticles.map(a => a.id))).slice(0, MAX_BULLETIN_ITEMS);
+
+    if (items.length === 0) {
+        throw new Error('AI returned no bulletin items');
+    }
+
+    const now = new Date();
+    const values = {
+        items,
+        articleCount: dayArticles.length,
+        status: 'draft' as const,
+        model: BULLETIN_MODEL,
+        generatedAt: now,
+        publishedAt: null,
+        updatedAt: now,
+    };
+
+    const [bulletin] = await db
+        .insert(dailyBulletins)
+        .values({ bulletinDate, ...values })
+        .onConflictDoUpdate({ target: dailyBulletins.bulletinDate, set: values })
+        .returning();
+
+    return bulletin;
+}
@@ -0,0 +1,150 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
+import { db } from './db';
+import { userSubscriptions, creditTransactions, creditLedger } from './db/schema';
+import { and, eq, gte, sql } from 'drizzle-orm';
+import { getTokenFromRequest, verifyToken } from './auth';
+import { getFeatureCost, CreditFeature } from './pricing';
+
+// Error codes the app switches on (see isCreditError in the app's billingService)
+export const CREDIT_ERROR_CODES = {
+    unauthenticated: 'AUTH_REQUIRED',
+    insufficient: 'INSUFFICIENT_CREDITS',
+} as const;
+
+export type CreditCharge = {
+    userId: string;
+    feature: CreditFeature;
+    cost: number;
+    balance: number;
+};
+
+const featureLabel = (feature: CreditFeature) => feature.replaceAll('_', ' ');
+
+// Both sides of a credit_ledger entry: the user's wallet and the feature's usage account
+const ledgerEntry = (userId: string, feature: CreditFeature, amount: number, description: string) => {
+    const entryId = randomUUID();
+    return [
+        { entryId, account: `user:${userId}`, userId, amount, description },
+        { entryId, account: `usage:${feature}`, userId, amount: -amount, description },
+    ];
+};
+
+// Debit only if the balance covers the cost, in a single statement so concurrent
+// requests cannot both spend the same credits
+async function debitCredits(userId: string, feature: CreditFeature, cost: number): Promise<CreditCharge | { balance: number }> {
+    const description = `Used ${cost} credits for ${featureLabel(feature)}`;
+
+    const debited = await db.transaction(async (tx) => {
+        const [row] = await tx
+            .update(userSubscriptions)
+            .set({
+                currentCredits: sql`${userSubscriptions.currentCredits} - ${cost}`,
+                updatedAt: new Date(),
+            })
+            .where(and(eq(userSubscriptions.userId, userId), gte(userSubscriptions.currentCredits, cost)))
+            .returning({ balance: userSubscriptions.currentCredits });
+
+        if (!row) return null;
+
+        await tx.insert(creditTransactions).values({
+            userId,
+            transactionType: 'usage',
+            credits: -cost,
+            balanceAfter: row.balance,
+            featureUsed: feature,
+            description,
+        });
+        await tx.insert(creditLedger).values(ledgerEntry(userId, feature, -cost, description));
+
+        return row;
+    });
+
+    if (!debited) {
+        const [subscription] = await db
+            .select({ balance: userSubscriptions.currentCredits })
+            .from(userSubscriptions)
+            .where(eq(userSubscriptions.userId, userId));
+        return { balance: subscription?.balance ?? 0 };
+    }
+
+    return { userId, feature, cost, balance: debited.balance };
+}
+
+async function refundCredits(charge: CreditCharge, reason: string) {
+    const description = `Refunded ${charge.cost} credits for ${featureLabel(charge.feature)} (${reason})`;
+
+    await db.transaction(async (tx) => {
+        const [refunded] = await tx
+            .update(userSubscriptions)
+            .set({
+                currentCredits: sql`${userSubscriptions.currentCredits} + ${charge.cost}`,
+                updatedAt: new Date(),
+            })
+            .where(eq(userSubscriptions.userId, charge.userId))
+            .returning({ balance: userSubscriptions.currentCredits });
+
+        if (!refunded) return;
+
+        await tx.insert(creditTransactions).values({
+            userId: charge.userId,
+            transactionType: 'refund',
+            credits: charge.cost,
+            balanceAfter: refunded.balance,
+            featureUsed: charge.feature,
+            description,
+        });
+        await tx.insert(creditLedger).values(ledgerEntry(charge.userId, charge.feature, charge.cost, description));
+    });
+}
+
+/**
+ * Authenticate the caller with their Supabase access token, debit the feature's
+ * cost and run the handler. Credits are refunded if the handler throws or
+ * returns an error response, so failed AI calls are never charged.
+ *
+ * Responds 401 without a valid token and 402 when the balance is too low.
+ */
+export async function withCredits(
+    request: NextRequest,
+    feature: CreditFeature,
+    headers: Record<string, string>,
+    handler: (charge: CreditCharge) => Promise<NextResponse>
+): Promise<NextResponse> {
+    const token = getTokenFromRequest(request);
+    const user = token ? await verifyToken(token) : null;
+
+    if (!user) {
+        return NextResponse.json({
+            success: false,
+            error: 'Please sign in to use AI features',
+            code: CREDIT_ERROR_CODES.unauthenticated,
+        }, { status: 401, headers });
+    }
+
+    const cost = await getFeatureCost(feature);
+    const result = await debitCredits(user.id, feature, cost);
+
+    if (!('cost' in result)) {
+        console.log(`[Credits] Insufficient credits for ${feature}: ${result.balance}/${cost} (${user.email})`);
+        return NextResponse.json({
+            success: false,
+            error: `You need ${cost} credits for ${featureLabel(feature)}. You have ${result.balance}.`,
+            code: CREDIT_ERROR_CODES.insufficient,
+            feature,
+            required: cost,
+            balance: result.balance,
+        }, { status: 402, headers });
+    }
+
+    try {
+        const response = await handler(result);
+        if (!response.ok) {
+            await refundCredits(result, `request failed with ${response.status}`);
+        }
+        return response;
+    } catch (error) {
+        await refundCredits(result, 'request failed');
+        throw error;
+    }
+}
@@ -1,5 +1,40 @@
-import { pgTable, text, serial, timestamp, integer, jsonb, boolean, varchar } from 'drizzle-orm/pg-core';
+import { pgTable, text, serial, timestamp, integer, jsonb, boolean, varchar, real, uniqueIndex, index, date, uuid, AnyPgColumn } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
+import type { AdminRole } from '../permissions';
+
+// ============= TRANSLATIONS =============
+
+// Per-language overrides stored alongside the English source row.
+// Only 'reviewed' translations are served to the mobile app.
+export type TranslationStatus = 'draft' | 'reviewed';
+
+export type ArticleTranslation = {
+    title?: string;
+    summary?: string;
+    content?: Array<{ type: string; content: string;[key: string]: any }>;
+    status: TranslationStatus;
+    updatedAt?: string;
+};
+
+export type McqTranslation = {
+    question?: string;
+    optionA?: string;
+    optionB?: string;
+    optionC?: string;
+    optionD?: string;
+    explanation?: string;
+    status: TranslationStatus;
+    updatedAt?: string;
+};
+
+export type VisualReferenceTranslation = {
+    title?: string;
+    data?: any;
+    status: TranslationStatus;
+    updatedAt?: string;
+};
+
+export type Translations<T> = Partial<Record<'hi', T>>;
 
 // ============= USERS =============
 
@@ -18,13 +53,16 @@ export const users = pgTable('users', {
     updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
 
+// Staff who may use the admin panel; `email` matches their Supabase account.
+// Sign-in goes through Supabase, so `password` is only set on legacy rows.
 export const adminUsers = pgTable('admin_users', {
     id: serial('id').primaryKey(),
     email: varchar('email', { length: 255 }).notNull().unique(),
-    password: varchar('password', { length: 255 }).notNull(),
+    password: varchar('password', { length: 255 }),
     name: varchar('name', { length: 255 }).notNull(),
-    role: varchar('role', { length: 50 }).default('admin').notNull(),
+    role: varchar('role', { length: 50 }).$type<AdminRole>().default('editor').notNull(), // See lib/permissions.ts
     createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
 
 // ============= MAPS =============
@@ -60,6 +98,7 @@ export const articles = pgTable('articles', {
     gsPaper: varchar('gs_paper', { length: 50 }),
     subject: varchar('subject', { length: 100 }),
     tags: jsonb('tags').$type<string[]>().default([]),
+    translations: jsonb('translations').$type<Translations<ArticleTranslation>>().default({}),
     isPublished: boolean('is_published').default(false),
     scrapedAt: timestamp('scraped_at'),
     createdAt: timestamp('created_at').defaultNow().notNull(),
@@ -78,6 +117,7 @@ export const articleMcqs = pgTable('article_mcqs', {
     optionD: text('option_d').notNull(),
     correctAnswer: varchar('correct_answer', { length: 1 }).notNull(), // 'A', 'B', 'C', or 'D'
     explanation: text('explanation'),
+    translations: jsonb('translations').$type<Translations<McqTranslation>>().default({}),
     createdAt: timestamp('created_at').defaultNow().notNull(),
     updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
@@ -106,6 +146,13 @@ export const practiceQuestions = pgTable('practice_questions', {
     optionD: text('option_d').notNull(),
     correctAnswer: varchar('correct_answer', { length: 1 }).notNull(), // 'A', 'B', 'C', or 'D'
     explanation: text('explanation').notNull(),
+    // PYQ taxonomy (see lib/question-taxonomy)
+    subject: varchar('subject', { length: 100 }),
+    topicId: integer('topic_id').references(() => roadmapTopics.id, { onDelete: 'set null' }),
+    year: integer('year'), // Exam year for previous-year questions
+    difficulty: varchar('difficulty', { length: 20 }),
+    source: varchar('source', { length: 50 }),
+    translations: jsonb('translations').$type<Translations<McqTranslation>>().default({}),
     createdAt: timestamp('created_at').defaultNow().notNull(),
     updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
@@ -164,7 +211,7 @@ export const userTopicProgress = pgTable('user_topic_progress', {
     status: varchar('status', { length: 50 }).default('pending').notNull(),
     completedSubtopics: jsonb('completed_subtopics').$type<string[]>().default([]),
     revisionStatus: varchar('revision_status', { length: 50 }).default('not_started'),
-    hoursStudied: integer('hours_studied').default(0),
+    hoursStudied: real('hours_studied').default(0), // Fed by study_sessions
     lastStudied: timestamp('last_studied'),
     createdAt: timestamp('created_at').defaultNow().notNull(),
     updatedAt: timestamp('updated_at').defaultNow().notNull(),
@@ -187,6 +234,7 @@ export const visualReferences = pgTable('visual_references', {
     subcategory: varchar('subcategory', { length: 100 }),
     title: varchar('title', { length: 255 }).notNull(),
     data: jsonb('data').notNull(),
+    translations: jsonb('translations').$type<Translations<VisualReferenceTranslation>>().default({}),
     order: integer('order').notNull(),
     createdAt: timestamp('created_at').defaultNow().notNull(),
     updatedAt: timestamp('updated_at').defaultNow().notNull(),
@@ -205,6 +253,7 @@ export const mindMaps = pgTable('mind_maps', {
         zoom: number;
         offsetX: number;
         offsetY: number;
+        layout?: string; // Automatic layout picked in the editor
     }>().default({ zoom: 1, offsetX: 0, offsetY: 0 }),
     tags: jsonb('tags').$type<string[]>().default([]),
     createdAt: timestamp('created_at').defaultNow().notNull(),
@@ -260,23 +309,45 @@ export const tags = pgTable('tags', {
 
 // ============= NOTES =============
 
+// Folders nest through parentId; a null parentId is a top-level folder
+export const noteFolders = pgTable('note_folders', {
+    id: serial('id').primaryKey(),
+    userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    parentId: integer('parent_id').references((): AnyPgColumn => noteFolders.id, { onDelete: 'cascade' }),
+    name: varchar('name', { length: 200 }).notNull(),
+    color: varchar('color', { length: 20 }),
+    sortOrder: integer('sort_order').default(0).notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
 export const notes = pgTable('notes', {
     id: serial('id').primaryKey(),
     userId: integer('user_id').references(() => users.id, { onDelete: 'cascade' }),
     title: varchar('title', { length: 500 }).notNull(),
     content: jsonb('content').$type<any>(), // Lexical JSON structure
     plainText: text('plain_text'), // For search
-    folderId: integer('folder_id'),
+    folderId: integer('folder_id').references(() => noteFolders.id, { onDelete: 'set null' }),
     backlinks: jsonb('backlinks').$type<number[]>().default([]), // IDs of notes linking to this
     linkedMindMapNodes: jsonb('linked_mind_map_nodes').$type<string[]>().default([]), // Node IDs
     isPinned: boolean('is_pinned').default(false),
     isArchived: boolean('is_archived').default(false),
+    // App sync: clientId is the device-generated ID of a note created offline,
+    // version increments on every write so stale edits can be detected
+    clientId: varchar('client_id', { length: 64 }),
+    sourceType: varchar('source_type', { length: 30 }),
+    sourceUrl: text('source_url'),
+    summary: text('summary'),
+    version: integer('version').default(1).notNull(),
+    deletedAt: timestamp('deleted_at'), // Tombstone so other devices learn about deletes
     // FTS columns (managed by trigger in database)
     // searchTsv - tsvector for full-text search (not mapped to Drizzle)
     // headings - text[] for heading-only searches (not mapped to Drizzle)
     createdAt: timestamp('created_at').defaultNow().notNull(),
     updatedAt: timestamp('updated_at').defaultNow().notNull(),
-});
+}, (table) => ({
+    userClientIdx: uniqueIndex('notes_user_client_id_idx').on(table.userId, table.clientId),
+}));
 
 // ============= NOTE_TAGS JUNCTION TABLE =============
 
@@ -286,12 +357,421 @@ export const noteTags = pgTable('note_tags', {
     createdAt: timestamp('created_at').defaultNow().notNull(),
 });
 
+// ============= SPACED REPETITION =============
+
+// Snapshot of an MCQ so locally generated questions (PDF/AI) can be reviewed later
+export type ReviewQuestion = {
+    question: string;
+    optionA: string;
+    optionB: string;
+    optionC: string;
+    optionD: string;
+    correctAnswer: string;
+    explanation?: string;
+};
+
+export const reviewItems = pgTable('review_items', {
+    id: serial('id').primaryKey(),
+    userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    source: varchar('source', { length: 50 }).notNull(), // 'pdf_mcq', 'ai_mcq', 'article_mcq'
+    questionKey: varchar('question_key', { length: 255 }).notNull(), // Stable key within the source
+    question: jsonb('question').$type<ReviewQuestion>().notNull(),
+    easeFactor: real('ease_factor').default(2.5).notNull(),
+    intervalDays: integer('interval_days').default(0).notNull(),
+    repetitions: integer('repetitions').default(0).notNull(),
+    lapses: integer('lapses').default(0).notNull(),
+    dueAt: timestamp('due_at').defaultNow().notNull(),
+    lastReviewedAt: timestamp('last_reviewed_at'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+    userQuestionIdx: uniqueIndex('review_items_user_source_key_idx').on(table.userId, table.source, table.questionKey),
+}));
+
+export const questionAttempts = pgTable('question_attempts', {
+    id: serial('id').primaryKey(),
+    userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    reviewItemId: integer('review_item_id').references(() => reviewItems.id, { onDelete: 'set null' }),
+    source: varchar('source', { length: 50 }).notNull(),
+    questionKey: varchar('question_key', { length: 255 }).notNull(),
+    sessionId: varchar('session_id', { length: 100 }), // Local PDF/AI session ID, if any
+    selectedAnswer: varchar('selected_answer', { length: 1 }).notNull(),
+    isCorrect: boolean('is_correct').notNull(),
+    timeTakenMs: integer('time_taken_ms'),
+    answeredAt: timestamp('answered_at').defaultNow().notNull(),
+});
+
+// ============= ANSWER EVALUATIONS =============
+
+export type RubricCriterion = 'introduction' | 'body' | 'conclusion' | 'structure' | 'keywords' | 'wordLimit';
+
+export type RubricScore = {
+    score: number;
+    maxScore: number;
+    feedback: string;
+};
+
+export type AnswerRubric = Record<RubricCriterion, RubricScore>;
+
+// Examiner-style margin comment pinned to a phrase on a specific page
+export type PageAnnotation = {
+    excerpt: string;
+    comment: string;
+    type: 'positive' | 'improve';
+};
+
+export type AnswerPage = {
+    page: number;
+    text: string;
+    annotations: PageAnnotation[];
+};
+
+export const answerEvaluations = pgTable('answer_evaluations', {
+    id: serial('id').primaryKey(),
+    userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    question: text('question').notNull(),
+    marks: integer('marks').notNull(), // 10, 15, 20 for GS answers, 125 for essays
+    wordLimit: integer('word_limit').notNull(),
+    pageCount: integer('page_count').notNull(),
+    pages: jsonb('pages').$type<AnswerPage[]>().notNull(),
+    wordCount: integer('word_count').notNull(),
+    rubric: jsonb('rubric').$type<AnswerRubric>().notNull(),
+    score: real('score').notNull(), // Sum of rubric scores, out of `marks`
+    keywordsUsed: jsonb('keywords_used').$type<string[]>().default([]),
+    keywordsMissed: jsonb('keywords_missed').$type<string[]>().default([]),
+    examinerRemark: text('examiner_remark'),
+    improvementPlan: jsonb('improvement_plan').$type<string[]>().default([]),
+    model: varchar('model', { length: 100 }),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// ============= ESSAYS =============
+
+// attempt: written by the user and evaluated; generated: model essay from /essay/generate
+export type EssaySource = 'attempt' | 'generated';
+
+export type EssayDetailedFeedback = {
+    content: string;
+    structure: string;
+    language: string;
+    arguments: string;
+    upscRelevance: string;
+};
+
+// Tables from migrations/01_essay_schema.sql. userId is the Supabase auth user id.
+export const essays = pgTable('essays', {
+    id: uuid('id').defaultRandom().primaryKey(),
+    userId: uuid('user_id'),
+    topic: text('topic').notNull(),
+    answerText: text('answer_text').notNull(),
+    wordCount: integer('word_count').notNull(),
+    score: integer('score'), // 0-100, null for generated essays
+    source: varchar('source', { length: 20 }).$type<EssaySource>().notNull().default('attempt'),
+    // Page-level result of a handwritten answer, if the essay was one
+    answerEvaluationId: integer('answer_evaluation_id').references(() => answerEvaluations.id, { onDelete: 'set null' }),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+});
+
+export const essayEvaluations = pgTable('essay_evaluations', {
+    id: uuid('id').defaultRandom().primaryKey(),
+    essayId: uuid('essay_id').references(() => essays.id, { onDelete: 'cascade' }),
+    examinerRemark: text('examiner_remark'),
+    strengths: jsonb('strengths').$type<string[]>(),
+    weaknesses: jsonb('weaknesses').$type<string[]>(),
+    improvementPlan: jsonb('improvement_plan').$type<string[]>(),
+    rewrittenIntro: text('rewritten_intro'),
+    rewrittenConclusion: text('rewritten_conclusion'),
+    detailedFeedback: jsonb('detailed_feedback').$type<EssayDetailedFeedback>(),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+});
+
+// ============= MAINS ANSWER WRITING =============
+
+// The instruction word of a Mains question; each asks for a different kind of answer
+export type MainsDirective =
+    | 'discuss'
+    | 'critically_examine'
+    | 'critically_analyse'
+    | 'analyse'
+    | 'examine'
+    | 'evaluate'
+    | 'comment'
+    | 'explain'
+    | 'elucidate'
+    | 'justify';
+
+export type MainsQuestionStatus = 'draft' | 'published';
+
+// Admin-curated daily question, one per GS paper per IST day
+export const mainsQuestions = pgTable('mains_questions', {
+    id: serial('id').primaryKey(),
+    questionDate: date('question_date', { mode: 'string' }).notNull(), // IST calendar day, YYYY-MM-DD
+    gsPaper: varchar('gs_paper', { length: 10 }).notNull(),
+    question: text('question').notNull(),
+    directive: varchar('directive', { length: 30 }).$type<MainsDirective>().notNull(),
+    marks: integer('marks').notNull().default(10),
+    wordLimit: integer('word_limit').notNull(),
+    modelAnswer: text('model_answer').notNull().default(''), // Shown only after the user submits
+    keyPoints: jsonb('key_points').$type<string[]>().notNull().default([]), // What a good answer must cover
+    status: varchar('status', { length: 20 }).$type<MainsQuestionStatus>().notNull().default('draft'),
+    publishedAt: timestamp('published_at'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+    dateGsPaperIdx: uniqueIndex('mains_questions_date_gs_paper_idx').on(table.questionDate, table.gsPaper),
+}));
+
+// One evaluated attempt per user per question
+export const mainsAnswers = pgTable('mains_answers', {
+    id: serial('id').primaryKey(),
+    userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    questionId: integer('question_id').notNull().references(() => mainsQuestions.id, { onDelete: 'cascade' }),
+    answerText: text('answer_text').notNull(),
+    wordCount: integer('word_count').notNull(),
+    timeTakenSeconds: integer('time_taken_seconds'),
+    rubric: jsonb('rubric').$type<AnswerRubric>().notNull(),
+    score: real('score').notNull(), // Sum of rubric scores, out of the question's marks
+    directiveAddressed: boolean('directive_addressed').notNull().default(false),
+    directiveFeedback: text('directive_feedback'),
+    keyPointsCovered: jsonb('key_points_covered').$type<string[]>().default([]),
+    keyPointsMissed: jsonb('key_points_missed').$type<string[]>().default([]),
+    examinerRemark: text('examiner_remark'),
+    improvementPlan: jsonb('improvement_plan').$type<string[]>().default([]),
+    model: varchar('model', { length: 100 }),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+    userQuestionIdx: uniqueIndex('mains_answers_user_question_idx').on(table.userId, table.questionId),
+}));
+
+// ============= DAILY BULLETINS =============
+
+export type BulletinStatus = 'draft' | 'published';
+
+// One digest bullet, linking back to the published articles it summarises
+export type BulletinItem = {
+    gsPaper: string;
+    text: string;
+    articleIds: number[];
+};
+
+export const dailyBulletins = pgTable('daily_bulletins', {
+    id: serial('id').primaryKey(),
+    bulletinDate: date('bulletin_date', { mode: 'string' }).notNull().unique(), // IST calendar day, YYYY-MM-DD
+    items: jsonb('items').$type<BulletinItem[]>().notNull().default([]),
+    articleCount: integer('article_count').notNull().default(0), // Published articles the draft was generated from
+    status: varchar('status', { length: 20 }).$type<BulletinStatus>().notNull().default('draft'),
+    model: varchar('model', { length: 100 }),
+    generatedAt: timestamp('generated_at'),
+    publishedAt: timestamp('published_at'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// ============= MOCK TESTS =============
+
+export type MockTestStatus = 'in_progress' | 'submitted';
+
+export type SubjectScore = {
+    subject: string;
+    total: number;
+    correct: number;
+    incorrect: number;
+    unattempted: number;
+    score: number;
+};
+
+// Timed full-length Prelims paper. Answers are keyed by practice question id.
+export const mockTestAttempts = pgTable('mock_test_attempts', {
+    id: serial('id').primaryKey(),
+    userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    questionSetId: integer('question_set_id').references(() => questionSets.id, { onDelete: 'set null' }), // Null for mixed papers
+    questionIds: jsonb('question_ids').$type<number[]>().notNull(), // Paper order
+    answers: jsonb('answers').$type<Record<string, string>>().notNull().default({}),
+    markedForReview: jsonb('marked_for_review').$type<number[]>().notNull().default([]),
+    status: varchar('status', { length: 20 }).$type<MockTestStatus>().notNull().default('in_progress'),
+    durationSeconds: integer('duration_seconds').notNull(),
+    startedAt: timestamp('started_at').defaultNow().notNull(),
+    submittedAt: timestamp('submitted_at'),
+    correctCount: integer('correct_count'),
+    incorrectCount: integer('incorrect_count'),
+    unattemptedCount: integer('unattempted_count'),
+    score: real('score'),
+    maxScore: real('max_score'),
+    subjectBreakdown: jsonb('subject_breakdown').$type<SubjectScore[]>(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// ============= STUDY PLANS =============
+
+export type StudyTaskType = 'study' | 'revision';
+
+// One block of work on a plan day. A subtopic too long for one day is split
+// into parts; revision is the spaced-revision cycle number, or 'final' for the
+// pre-exam revision sweep.
+export type StudyPlanTask = {
+    id: string;
+    type: StudyTaskType;
+    topicId: string; // roadmap_topics.topic_id
+    topicName: string;
+    subtopicId?: string;
+    subtopicName?: string;
+    hours: number;
+    part?: number;
+    parts?: number;
+    revision?: number | 'final';
+};
+
+export type StudyPlanDay = {
+    date: string; // YYYY-MM-DD
+    tasks: StudyPlanTask[];
+};
+
+// When a topic was finished and when each revision of it was done
+export type TopicRevisionLog = {
+    completedOn: string;
+    revisions: string[];
+};
+
+// One adaptive plan per user, rebuilt from roadmap progress when they fall behind
+export const studyPlans = pgTable('study_plans', {
+    id: serial('id').primaryKey(),
+    userId: integer('user_id').notNull().unique().references(() => users.id, { onDelete: 'cascade' }),
+    examDate: date('exam_date', { mode: 'string' }).notNull(),
+    dailyHours: real('daily_hours').notNull(),
+    days: jsonb('days').$type<StudyPlanDay[]>().notNull().default([]),
+    completedTasks: jsonb('completed_tasks').$type<Record<string, string[]>>().notNull().default({}), // By date
+    revisionLog: jsonb('revision_log').$type<Record<string, TopicRevisionLog>>().notNull().default({}), // By topic_id
+    replanCount: integer('replan_count').notNull().default(0),
+    generatedAt: timestamp('generated_at').defaultNow().notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// ============= STUDY SESSIONS =============
+
+export type StudySessionSource = 'timer' | 'pomodoro' | 'article' | 'note' | 'mcq';
+
+// Time spent studying, from the app's study timer or logged automatically while
+// reading an article, editing a note or taking an MCQ test. clientId is
+// generated on the device so a session queued offline is only counted once.
+export const studySessions = pgTable('study_sessions', {
+    id: serial('id').primaryKey(),
+    userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    clientId: varchar('client_id', { length: 64 }).notNull(),
+    topicId: integer('topic_id').references(() => roadmapTopics.id, { onDelete: 'set null' }),
+    source: varchar('source', { length: 20 }).notNull().$type<StudySessionSource>(),
+    sourceId: varchar('source_id', { length: 100 }), // Article / note id when logged automatically
+    title: varchar('title', { length: 500 }),
+    durationSeconds: integer('duration_seconds').notNull(),
+    studyDate: date('study_date', { mode: 'string' }).notNull(), // IST calendar day
+    startedAt: timestamp('started_at').notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+    userClientIdx: uniqueIndex('study_sessions_user_client_id_idx').on(table.userId, table.clientId),
+    userDateIdx: index('study_sessions_user_date_idx').on(table.userId, table.studyDate),
+}));
+
+// ============= BILLING & CREDITS =============
+
+// Written by the DodoPayments webhook. userId is the Supabase auth user id.
+export const userSubscriptions = pgTable('user_subscriptions', {
+    id: uuid('id').defaultRandom().primaryKey(),
+    userId: text('user_id').notNull().unique(),
+    planType: varchar('plan_type', { length: 20 }).notNull().default('free'),
+    status: varchar('status', { length: 20 }).notNull().default('active'),
+    priceInr: integer('price_inr').default(0),
+    monthlyCredits: integer('monthly_credits').default(0),
+    currentCredits: integer('current_credits').notNull().default(0),
+    dodoSubscriptionId: text('dodo_subscription_id'),
+    dodoCustomerId: text('dodo_customer_id'),
+    startedAt: timestamp('started_at'),
+    expiresAt: timestamp('expires_at'),
+    cancelledAt: timestamp('cancelled_at'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+export type CreditTransactionType = 'subscription_credit' | 'purchase' | 'usage' | 'refund';
+
+export const creditTransactions = pgTable('credit_transactions', {
+    id: uuid('id').defaultRandom().primaryKey(),
+    userId: text('user_id').notNull(),
+    transactionType: varchar('transaction_type', { length: 30 }).$type<CreditTransactionType>().notNull(),
+    credits: integer('credits').notNull(), // Negative for usage
+    balanceAfter: integer('balance_after').notNull(),
+    featureUsed: varchar('feature_used', { length: 50 }),
+    description: text('description'),
+    dodoPaymentId: text('dodo_payment_id'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+export type WebhookEventStatus = 'received' | 'processing' | 'processed' | 'failed' | 'ignored';
+
+// One row per DodoPayments delivery, keyed by the webhook-id header
+export const webhookEvents = pgTable('webhook_events', {
+    id: text('id').primaryKey(),
+    source: varchar('source', { length: 30 }).notNull().default('dodo'),
+    eventType: varchar('event_type', { length: 60 }).notNull(),
+    payload: jsonb('payload').notNull(),
+    status: varchar('status', { length: 20 }).$type<WebhookEventStatus>().notNull().default('received'),
+    attempts: integer('attempts').notNull().default(0),
+    lastError: text('last_error'),
+    receivedAt: timestamp('received_at').defaultNow().notNull(),
+    processedAt: timestamp('processed_at'),
+});
+
+// Double-entry: each entry is two rows (user:<id> wallet and a counter account
+// such as subscription, purchase or usage:<feature>) whose amounts sum to zero
+export const creditLedger = pgTable('credit_ledger', {
+    id: uuid('id').defaultRandom().primaryKey(),
+    entryId: uuid('entry_id').notNull(),
+    account: varchar('account', { length: 80 }).notNull(),
+    userId: text('user_id').notNull(),
+    amount: integer('amount').notNull(),
+    webhookEventId: text('webhook_event_id').references(() => webhookEvents.id),
+    description: text('description'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// ============= PRICING =============
+
+// One table for everything billing is priced by, read by the metered AI routes,
+// the DodoPayments webhook and the app's billing screen.
+// feature: key is the CREDIT_COSTS feature, credits is its cost
+// plan: key is the plan type (basic/pro), credits are granted every month
+// credit_pack: one-time purchase of `credits`
+export type PricingKind = 'feature' | 'plan' | 'credit_pack';
+
+export type PricingDetails = {
+    perks?: string[]; // Bullet points on the plan card
+    badge?: string; // e.g. "MOST POPULAR"
+};
+
+export const pricingConfig = pgTable('pricing_config', {
+    id: serial('id').primaryKey(),
+    kind: varchar('kind', { length: 20 }).$type<PricingKind>().notNull(),
+    key: varchar('key', { length: 50 }).notNull(),
+    name: varchar('name', { length: 100 }).notNull(),
+    credits: integer('credits').notNull(),
+    priceInr: integer('price_inr'), // Null for features
+    dodoProductId: varchar('dodo_product_id', { length: 100 }).unique(), // Null for features
+    details: jsonb('details').$type<PricingDetails>().default({}),
+    isActive: boolean('is_active').default(true).notNull(),
+    sortOrder: integer('sort_order').default(0).notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+    kindKeyIdx: uniqueIndex('pricing_config_kind_key_idx').on(table.kind, table.key),
+}));
+
 // ============= RELATIONS =============
 
 export const roadmapTopicsRelations = relations(roadmapTopics, ({ many }) => ({
     subtopics: many(roadmapSubtopics),
     sources: many(roadmapSources),
     userProgress: many(userTopicProgress),
+    questions: many(practiceQuestions),
 }));
 
 export const roadmapSubtopicsRelations = relations(roadmapSubtopics, ({ one }) => ({
@@ -352,9 +832,23 @@ export const notesRelations = relations(notes, ({ one, many }) => ({
         fields: [notes.userId],
         references: [users.id],
     }),
+    folder: one(noteFolders, {
+        fields: [notes.folderId],
+        references: [noteFolders.id],
+    }),
     noteTags: many(noteTags),
 }));
 
+export const noteFoldersRelations = relations(noteFolders, ({ one, many }) => ({
+    parent: one(noteFolders, {
+        fields: [noteFolders.parentId],
+        references: [noteFolders.id],
+        relationName: 'folder_children',
+    }),
+    children: many(noteFolders, { relationName: 'folder_children' }),
+    notes: many(notes),
+}));
+
 // Tag Relations
 export const tagsRelations = relations(tags, ({ many }) => ({
     noteTags: many(noteTags),
@@ -381,5 +875,56 @@ export const practiceQuestionsRelations = relations(practiceQuestions, ({ one })
         fields: [practiceQuestions.questionSetId],
         references: [questionSets.id],
     }),
+    topic: one(roadmapTopics, {
+        fields: [practiceQuestions.topicId],
+        references: [roadmapTopics.id],
+    }),
 }));
 
+export const reviewItemsRelations = relations(reviewItems, ({ one, many }) => ({
+    user: one(users, {
+        fields: [reviewItems.userId],
+        references: [users.id],
+    }),
+    attempts: many(questionAttempts),
+}));
+
+export const questionAttemptsRelations = relations(questionAttempts, ({ one }) => ({
+    reviewItem: one(reviewItems, {
+        fields: [questionAttempts.reviewItemId],
+        references: [reviewItems.id],
+    }),
+}));
+
+export const answerEvaluationsRelations = relations(answerEvaluations, ({ one }) => ({
+    user: one(users, {
+        fields: [answerEvaluations.userId],
+        references: [users.id],
+    }),
+}));
+
+export const mainsQuestionsRelations = relations(mainsQuestions, ({ many }) => ({
+    answers: many(mainsAnswers),
+}));
+
+export const mainsAnswersRelations = relations(mainsAnswers, ({ one }) => ({
+    user: one(users, {
+        fields: [mainsAnswers.userId],
+        references: [users.id],
+    }),
+    question: one(mainsQuestions, {
+        fields: [mainsAnswers.questionId],
+        references: [mainsQuestions.id],
+    }),
+}));
+
+export const essaysRelations = relations(essays, ({ many }) => ({
+    evaluations: many(essayEvaluations),
+}));
+
+export const essayEvaluationsRelations = relations(essayEvaluations, ({ one }) => ({
+    essay: one(essays, {
+        fields: [essayEvaluations.essayId],
+        references: [essays.id],
+    }),
+}));
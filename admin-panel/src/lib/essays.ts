@@ -0,0 +1,127 @@
+import { NextRequest } from 'next/server';
+import { db } from './db';
+import { essays, essayEvaluations, EssayDetailedFeedback, EssaySource } from './db/schema';
+import { and, desc, eq, isNotNull, sql } from 'drizzle-orm';
+import { getTokenFromRequest, verifyToken } from './auth';
+
+// Number of scored essays compared on each side of the trend
+const TREND_WINDOW = 5;
+
+export type EssayFeedback = {
+    examinerRemark?: string;
+    strengths?: string[];
+    weaknesses?: string[];
+    improvementPlan?: string[];
+    rewrittenIntro?: string;
+    rewrittenConclusion?: string;
+    detailedFeedback?: EssayDetailedFeedback;
+};
+
+type NewEssay = {
+    userId: string;
+    topic: string;
+    answerText: string;
+    score?: number | null;
+    source?: EssaySource;
+    feedback?: EssayFeedback;
+    answerEvaluationId?: number;
+};
+
+/**
+ * Supabase auth user id of the caller, or null when signed out. Essays are
+ * keyed by the auth id (as in 01_essay_schema.sql), not the integer users.id.
+ */
+export async function getEssayUserId(request: NextRequest): Promise<string | null> {
+    const token = getTokenFromRequest(request);
+    const user = token ? await verifyToken(token) : null;
+    return user?.id || null;
+}
+
+export const countWords = (text: string) => text.trim().split(/\s+/).filter(Boolean).length;
+
+const stringList = (value: unknown): string[] =>
+    Array.isArray(value) ? value.filter(item => typeof item === 'string') : [];
+
+// Keep only the structured fields the essay_evaluations table stores
+export function toEssayFeedback(evaluation: any): EssayFeedback {
+    return {
+        examinerRemark: typeof evaluation?.examinerRemark === 'string' ? evaluation.examinerRemark : undefined,
+        strengths: stringList(evaluation?.strengths),
+        weaknesses: stringList(evaluation?.weaknesses),
+        improvementPlan: stringList(evaluation?.improvementPlan),
+        rewrittenIntro: typeof evaluation?.rewrittenIntro === 'string' ? evaluation.rewrittenIntro : undefined,
+        rewrittenConclusion: typeof evaluation?.rewrittenConclusion === 'string' ? evaluation.rewrittenConclusion : undefined,
+        detailedFeedback: evaluation?.detailedFeedback && typeof evaluation.detailedFeedback === 'object'
+            ? evaluation.detailedFeedback
+            : undefined,
+    };
+}
+
+// Save an essay and, when given, its evaluation in one transaction
+export async function saveEssay({ userId, topic, answerText, score = null, source = 'attempt', feedback, answerEvaluationId }: NewEssay) {
+    return db.transaction(async (tx) => {
+        const [essay] = await tx
+            .insert(essays)
+            .values({
+                userId,
+                topic,
+                answerText,
+                wordCount: countWords(answerText),
+                score: score === null ? null : Math.max(0, Math.min(100, Math.round(score))),
+                source,
+                answerEvaluationId,
+            })
+            .returning();
+
+        if (!feedback) {
+            return { essay, evaluation: null };
+        }
+
+        const [evaluation] = await tx
+            .insert(essayEvaluations)
+            .values({ essayId: essay.id, ...feedback })
+            .returning();
+
+        return { essay, evaluation };
+    });
+}
+
+const average = (values: number[]) =>
+    values.length ? Math.round(values.reduce((sum, v) => sum + v, 0) / values.length) : 0;
+
+/**
+ * Score stats over a user's scored essays. Totals come from one aggregate
+ * query and the trend from the newest TREND_WINDOW * 2 scores, so the cost
+ * does not grow with the history. trend is the recent window's average minus
+ * the one before it, and 0 until there is a window to compare.
+ */
+export async function getEssayScoreStats(userId: string, source: EssaySource) {
+    const ownEssays = and(eq(essays.userId, userId), eq(essays.source, source));
+
+    const [totals] = await db
+        .select({
+            count: sql<number>`count(${essays.score})::int`,
+            averageScore: sql<number>`coalesce(round(avg(${essays.score})), 0)::int`,
+            bestScore: sql<number>`coalesce(max(${essays.score}), 0)::int`,
+            totalWords: sql<number>`coalesce(sum(${essays.wordCount}), 0)::int`,
+        })
+        .from(essays)
+        .where(ownEssays);
+
+    const recent = await db
+        .select({ score: essays.score })
+        .from(essays)
+        .where(and(ownEssays, isNotNull(essays.score)))
+        .orderBy(desc(essays.createdAt))
+        .limit(TREND_WINDOW * 2);
+
+    const scores = recent.map(row => row.score as number);
+    const recentAverage = average(scores.slice(0, TREND_WINDOW));
+    const previousAverage = average(scores.slice(TREND_WINDOW));
+
+    return {
+        ...totals,
+        recentAverageScore: recentAverage,
+        trend: scores.length > TREND_WINDOW ? recentAverage - previousAverage : 0,
+    };
+}
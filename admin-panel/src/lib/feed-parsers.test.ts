@@ -0,0 +1,96 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { parseHtmlToBlocks } from './article-parser';
+import { normalizeSourceUrl, parseHinduArticle, parsePibRelease, parseRssFeed } from './feed-parsers';
+
+const readFixture = (name: string) => readFileSync(join(__dirname, 'fixtures', 'ingestion', name), 'utf8');
+
+const NCMM_TITLE = 'Cabinet approves National Critical Mineral Mission with outlay of ₹16,300 crore';
+
+describe('parseRssFeed', () => {
+    it('reads PIB releases', () => {
+        const items = parseRssFeed(readFixture('pib-rss.xml'));
+
+        expect(items).toHaveLength(2);
+        expect(items[0].title).toBe(NCMM_TITLE);
+        expect(items[0].url).toBe('https://pib.gov.in/PressReleasePage.aspx?PRID=2101234');
+        expect(items[0].publishedDate).toBeInstanceOf(Date);
+    });
+
+    it('maps the same Hindu story to one sourceUrl', () => {
+        const items = parseRssFeed(readFixture('hindu-rss.xml'));
+
+        expect(items).toHaveLength(2);
+        expect(items[0].url).toBe(
+            'https://www.thehindu.com/news/national/supreme-court-electoral-bonds-constitution-bench/article68765432.ece'
+        );
+        expect(new Set(items.map(item => item.url)).size).toBe(1);
+    });
+});
+
+describe('normalizeSourceUrl', () => {
+    it('drops fragments, tracking parameters and the trailing slash', () => {
+        expect(normalizeSourceUrl('http://example.com/story/?utm_source=x&id=4&fbclid=y#top')).toBe(
+            'https://example.com/story/?id=4'
+        );
+        expect(normalizeSourceUrl('https://example.com/story/')).toBe('https://example.com/story');
+    });
+
+    it('leaves values that are not URLs as they are', () => {
+        expect(normalizeSourceUrl(' not a url ')).toBe('not a url');
+    });
+});
+
+describe('parsePibRelease', () => {
+    const pib = parsePibRelease(readFixture('pib-release.html'));
+
+    it('reads the title, ministry and release time', () => {
+        expect(pib.title).toBe(NCMM_TITLE);
+        expect(pib.author).toBe('PIB - Cabinet');
+        expect(pib.publishedDate?.toISOString()).toBe('2026-10-18T12:00:00.000Z');
+    });
+
+    it('keeps the release body and drops the page chrome', () => {
+        expect(pib.content.some(block => block.type === 'unordered-list' && block.items.length === 3)).toBe(true);
+        expect(pib.text).not.toContain('National Informatics Centre');
+        expect(pib.text).not.toContain('Posted On');
+    });
+});
+
+describe('parseHinduArticle', () => {
+    const hindu = parseHinduArticle(readFixture('hindu-article.html'));
+
+    it('reads the title, byline, time and lead image', () => {
+        expect(hindu.title).toBe('Supreme Court refers validity of electoral bonds disclosure rules to Constitution Bench');
+        expect(hindu.author).toBe('Krishnadas Rajagopal');
+        expect(hindu.publishedDate?.toISOString()).toBe('2026-10-19T00:45:00.000Z');
+        expect(hindu.images).toHaveLength(1);
+    });
+
+    it('decodes entities and drops related boxes and comment prompts', () => {
+        expect(hindu.text).toContain('voter’s right to know');
+        expect(hindu.text).not.toContain('Also read');
+        expect(hindu.text).not.toContain('Comments are moderated');
+    });
+});
+
+describe('parseHtmlToBlocks', () => {
+    it('collects headings, paragraphs, lists and quotes', () => {
+        const blocks = parseHtmlToBlocks(`
+            <script>ignored()</script>
+            <h2>Key <em>features</em></h2>
+            <p>The Mission covers exploration, mining and processing.</p>
+            <p>Too short</p>
+            <ol><li>Exploration</li><li>Stockpile</li></ol>
+            <blockquote>Minerals are the backbone of the energy transition.</blockquote>
+        `);
+
+        expect(blocks).toEqual([
+            { type: 'heading', level: 2, content: 'Key features' },
+            { type: 'paragraph', content: 'The Mission covers exploration, mining and processing.' },
+            { type: 'ordered-list', items: ['Exploration', 'Stockpile'], content: 'Exploration, Stockpile' },
+            { type: 'quote', content: 'Minerals are the backbone of the energy transition.' },
+        ]);
+    });
+});
@@ -0,0 +1,216 @@
+// Parsers for current-affairs sources (PIB press releases and The Hindu).
+// Everything here is pure string -> data so it can be run against saved
+// HTML/XML fixtures without network or database access.
+
+import { parseHtmlToBlocks, extractMainContent, extractTextContent, ContentBlock } from './article-parser';
+
+export type FeedItem = {
+    title: string;
+    url: string;
+    publishedDate: Date | null;
+    summary: string;
+};
+
+export type ParsedArticle = {
+    title: string;
+    author: string | null;
+    publishedDate: Date | null;
+    summary: string;
+    metaDescription: string;
+    content: ContentBlock[];
+    text: string;
+    images: Array<{ url: string; alt?: string }>;
+};
+
+const ENTITIES: Record<string, string> = {
+    amp: '&',
+    lt: '<',
+    gt: '>',
+    quot: '"',
+    apos: "'",
+    nbsp: ' ',
+    rsquo: '’',
+    lsquo: '‘',
+    rdquo: '”',
+    ldquo: '“',
+    ndash: '–',
+    mdash: '—',
+    hellip: '…',
+};
+
+export function decodeEntities(text: string): string {
+    return text
+        .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+        .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+        .replace(/&([a-z]+);/gi, (entity, name) => ENTITIES[name.toLowerCase()] ?? entity);
+}
+
+const stripTags = (html: string) => decodeEntities(html.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim();
+
+const unwrapCdata = (text: string) => text.replace(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/, '$1');
+
+function parseDate(value: string | null | undefined): Date | null {
+    if (!value) return null;
+    const date = new Date(value.trim());
+    return isNaN(date.getTime()) ? null : date;
+}
+
+// Drop tracking parameters and fragments so the same story always maps to one sourceUrl
+export function normalizeSourceUrl(url: string): string {
+    try {
+        const parsed = new URL(url.trim());
+        parsed.hash = '';
+        Array.from(parsed.searchParams.keys())
+            .filter(key => key.startsWith('utm_') || key === 'ref' || key === 'fbclid')
+            .forEach(key => parsed.searchParams.delete(key));
+        parsed.protocol = 'https:';
+        return parsed.toString().replace(/\/$/, '');
+    } catch {
+        return url.trim();
+    }
+}
+
+function readTag(xml: string, tag: string): string {
+    const match = xml.match(new RegExp(`<${tag}[^>]*>([\\s\\S]*?)<\\/${tag}>`, 'i'));
+    return match ? unwrapCdata(match[1]).trim() : '';
+}
+
+function readMeta(html: string, attr: 'name' | 'property', key: string): string {
+    // Attribute order varies between sites, so accept content before or after the key
+    const escaped = key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const after = html.match(new RegExp(`<meta[^>]*${attr}=["']${escaped}["'][^>]*content=["']([^"']*)["']`, 'i'));
+    if (after) return decodeEntities(after[1]).trim();
+    const before = html.match(new RegExp(`<meta[^>]*content=["']([^"']*)["'][^>]*${attr}=["']${escaped}["']`, 'i'));
+    return before ? decodeEntities(before[1]).trim() : '';
+}
+
+// Return the inner HTML of the first element whose class list contains `className`,
+// balancing nested tags of the same name
+function extractByClass(html: string, className: string): string | null {
+    const openRegex = new RegExp(`<(div|section|article)\\b[^>]*class=["'][^"']*\\b${className}\\b[^"']*["'][^>]*>`, 'i');
+    const open = openRegex.exec(html);
+    if (!open) return null;
+
+    const tag = open[1].toLowerCase();
+    const tagRegex = new RegExp(`<(/?)${tag}\\b[^>]*>`, 'gi');
+    tagRegex.lastIndex = open.index + open[0].length;
+
+    let depth = 1;
+    let match;
+    while ((match = tagRegex.exec(html)) !== null) {
+        depth += match[1] ? -1 : 1;
+        if (depth === 0) {
+            return html.slice(open.index + open[0].length, match.index);
+        }
+    }
+    return html.slice(open.index + open[0].length);
+}
+
+function decodeBlocks(blocks: ContentBlock[]): ContentBlock[] {
+    return blocks.map(block => ({
+        ...block,
+        content: decodeEntities(block.content || ''),
+        ...(block.items && { items: block.items.map((item: string) => decodeEntities(item)) }),
+    }));
+}
+
+// ============= RSS =============
+
+// Parse an RSS 2.0 feed (both PIB and The Hindu publish RSS 2.0)
+export function parseRssFeed(xml: string): FeedItem[] {
+    const items: FeedItem[] = [];
+    const itemRegex = /<item\b[^>]*>([\s\S]*?)<\/item>/gi;
+    let match;
+
+    while ((match = itemRegex.exec(xml)) !== null) {
+        const itemXml = match[1];
+        const url = readTag(itemXml, 'link') || readTag(itemXml, 'guid');
+        const title = stripTags(readTag(itemXml, 'title'));
+
+        if (!url || !title) continue;
+
+        items.push({
+            title,
+            url: normalizeSourceUrl(decodeEntities(url)),
+            publishedDate: parseDate(readTag(itemXml, 'pubDate')),
+            summary: stripTags(readTag(itemXml, 'description')),
+        });
+    }
+
+    return items;
+}
+
+// ============= PIB =============
+
+// PIB release pages: "Posted On: 19 OCT 2026 5:30PM by PIB Delhi"
+function parsePibDate(html: string): Date | null {
+    const match = html.match(/Posted On:\s*([0-9]{1,2}\s+[A-Z]{3}\s+[0-9]{4})(?:\s+([0-9]{1,2}:[0-9]{2}\s*[AP]M))?/i);
+    if (!match) return null;
+
+    const time = match[2] ? match[2].replace(/([AP]M)/i, ' $1') : '';
+    // PIB timestamps are IST
+    return parseDate(`${match[1]} ${time} GMT+0530`);
+}
+
+export function parsePibRelease(html: string): ParsedArticle {
+    const body = extractByClass(html, 'innner-page-main-about-us-content-right-part')
+        || extractByClass(html, 'ReleaseContent')
+        || extractMainContent(html);
+
+    const headingMatch = body.match(/<h2[^>]*>([\s\S]*?)<\/h2>/i);
+    const title = stripTags(headingMatch ? headingMatch[1] : readMeta(html, 'property', 'og:title') || readTag(html, 'title'));
+
+    const ministryMatch = body.match(/<div[^>]*class=["'][^"']*MinistryNameSubhead[^"']*["'][^>]*>([\s\S]*?)<\/div>/i);
+    const ministry = ministryMatch ? stripTags(ministryMatch[1]) : null;
+
+    // Title, ministry and date are rendered as their own elements; keep only the release text
+    const releaseHtml = body
+        .replace(/<h2[^>]*>[\s\S]*?<\/h2>/i, '')
+        .replace(/<div[^>]*class=["'][^"']*(?:MinistryNameSubhead|ReleaseDateSubHeaddateTime)[^"']*["'][^>]*>[\s\S]*?<\/div>/gi, '');
+
+    const content = decodeBlocks(parseHtmlToBlocks(releaseHtml));
+    const text = extractTextContent(content);
+    const firstParagraph = content.find(block => block.type === 'paragraph')?.content || '';
+
+    return {
+        title,
+        author: ministry ? `PIB - ${ministry}` : 'PIB',
+        publishedDate: parsePibDate(html),
+        summary: firstParagraph,
+        metaDescription: readMeta(html, 'name', 'description') || firstParagraph.slice(0, 300),
+        content,
+        text,
+        images: [],
+    };
+}
+
+// ============= THE HINDU =============
+
+export function parseHinduArticle(html: string): ParsedArticle {
+    const title = readMeta(html, 'property', 'og:title')
+        || stripTags(html.match(/<h1[^>]*>([\s\S]*?)<\/h1>/i)?.[1] || readTag(html, 'title'));
+
+    const body = extractByClass(html, 'articlebodycontent')
+        || html.match(/<div[^>]*itemprop=["']articleBody["'][^>]*>([\s\S]*?)<\/div>\s*<\/div>/i)?.[1]
+        || extractMainContent(html);
+
+    // Inline "Also read" / related boxes and subscription prompts are not part of the story
+    const storyHtml = body
+        .replace(/<(div|aside)[^>]*class=["'][^"']*(?:related|also-read|subscribe|newsletter|comments)[^"']*["'][^>]*>[\s\S]*?<\/\1>/gi, '')
+        .replace(/<p[^>]*>\s*(?:<[^>]+>\s*)*(?:Also read|Read more|Published|Updated)\s*:?[\s\S]*?<\/p>/gi, '');
+
+    const content = decodeBlocks(parseHtmlToBlocks(storyHtml)).filter(block => block.type !== 'heading' || block.content !== title);
+    const description = readMeta(html, 'name', 'description');
+    const image = readMeta(html, 'property', 'og:image');
+
+    return {
+        title: decodeEntities(title),
+        author: readMeta(html, 'name', 'author') || readMeta(html, 'property', 'article:author') || 'The Hindu',
+        publishedDate: parseDate(readMeta(html, 'property', 'article:published_time')),
+        summary: readMeta(html, 'property', 'og:description') || description,
+        metaDescription: description,
+        content,
+        text: extractTextContent(content),
+        images: image ? [{ url: image, alt: 'Featured image' }] : [],
+    };
+}
@@ -0,0 +1,252 @@
+import { db } from './db';
+import {
+    users,
+    mindMaps,
+    noteFolders,
+    notes,
+    userTopicProgress,
+    reviewItems,
+    questionAttempts,
+    answerEvaluations,
+    mainsAnswers,
+    mockTestAttempts,
+    studyPlans,
+    studySessions,
+} from './db/schema';
+import { and, eq, inArray, isNull } from 'drizzle-orm';
+import type { MobileUser } from './mobile-user';
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type ProgressRow = typeof userTopicProgress.$inferSelect;
+
+export type GuestUpgradeResult = {
+    user: MobileUser;
+    merged: boolean; // false when the guest row itself became the account
+};
+
+const PROGRESS_STATUS_RANK = ['pending', 'in_progress', 'completed'];
+const REVISION_STATUS_RANK = ['not_started', 'in_progress', 'completed'];
+
+// The further-along of two statuses; unknown values rank below known ones
+const furthest = (rank: string[], a: string | null, b: string | null) =>
+    rank.indexOf(b ?? '') > rank.indexOf(a ?? '') ? b : a;
+
+const latest = (a: Date | null, b: Date | null) => (!a || (b && b > a) ? b : a);
+
+/**
+ * Turn a guest (`guest_<id>@guest.local`, from /api/mobile/auth/guest) into a
+ * registered account, keeping everything the guest created.
+ *
+ * Without a `users` row for `email` yet, the guest row is re-keyed in place, so
+ * every foreign key stays valid. Otherwise the guest's data moves into that
+ * account and the guest row is deleted. Rows that can only exist once per user
+ * are merged as follows:
+ * - notes with the same clientId (synced from one device under both accounts):
+ *   the most recently updated copy wins
+ * - top-level folders with the same name: combined into the account's folder
+ * - roadmap progress for the same topic: furthest status, union of completed
+ *   subtopics, hours added together
+ * - review items for the same question: the most recently reviewed schedule
+ *   wins, and attempts follow it
+ * - Mains answers to the same question: the account's answer is kept
+ * - study plans: the account's plan is kept; the guest's only moves if the
+ *   account has none
+ * - study sessions with the same clientId: the account's copy is kept
+ *
+ * Billing tables are keyed by the Supabase auth id, which guests do not have,
+ * so there is nothing of the guest's to move there.
+ */
+export async function upgradeGuest(
+    guest: MobileUser,
+    account: { email: string; name?: string; provider?: string }
+): Promise<GuestUpgradeResult> {
+    const email = account.email.toLowerCase();
+
+    return db.transaction(async (tx) => {
+        const [existing] = await tx.select().from(users).where(eq(users.email, email)).limit(1);
+
+        if (!existing) {
+            const [user] = await tx
+                .update(users)
+                .set({
+                    email,
+                    name: account.name || (guest.name !== 'Guest User' ? guest.name : email.split('@')[0]),
+                    provider: account.provider || 'email',
+                    isGuest: false,
+                    lastLogin: new Date(),
+                    updatedAt: new Date(),
+                })
+                .where(eq(users.id, guest.id))
+                .returning();
+            return { user, merged: false };
+        }
+
+        await mergeInto(tx, guest.id, existing.id);
+        await tx.delete(users).where(eq(users.id, guest.id));
+
+        const [user] = await tx
+            .update(users)
+            .set({ lastLogin: new Date(), updatedAt: new Date() })
+            .where(eq(users.id, existing.id))
+            .returning();
+        return { user, merged: true };
+    });
+}
+
+async function mergeInto(tx: Tx, fromId: number, toId: number) {
+    await mergeFolders(tx, fromId, toId);
+    await mergeNotes(tx, fromId, toId);
+    await mergeTopicProgress(tx, fromId, toId);
+    await mergeReviewItems(tx, fromId, toId);
+
+    // Mains answers: one per question, the account's own answer wins
+    const accountAnswers = await tx
+        .select({ questionId: mainsAnswers.questionId })
+        .from(mainsAnswers)
+        .where(eq(mainsAnswers.userId, toId));
+    if (accountAnswers.length) {
+        await tx.delete(mainsAnswers).where(and(
+            eq(mainsAnswers.userId, fromId),
+            inArray(mainsAnswers.questionId, accountAnswers.map(a => a.questionId))
+        ));
+    }
+    await tx.update(mainsAnswers).set({ userId: toId }).where(eq(mainsAnswers.userId, fromId));
+
+    // Study plan: one per user, the account's own plan wins
+    const [accountPlan] = await tx
+        .select({ id: studyPlans.id })
+        .from(studyPlans)
+        .where(eq(studyPlans.userId, toId))
+        .limit(1);
+    if (accountPlan) {
+        await tx.delete(studyPlans).where(eq(studyPlans.userId, fromId));
+    } else {
+        await tx.update(studyPlans).set({ userId: toId }).where(eq(studyPlans.userId, fromId));
+    }
+
+    // Study sessions: a session synced under both accounts was only counted once
+    await tx.delete(studySessions).where(and(
+        eq(studySessions.userId, fromId),
+        inArray(
+            studySessions.clientId,
+            tx.select({ clientId: studySessions.clientId }).from(studySessions).where(eq(studySessions.userId, toId))
+        )
+    ));
+    await tx.update(studySessions).set({ userId: toId }).where(eq(studySessions.userId, fromId));
+
+    // No per-user uniqueness, so these simply change owner
+    await tx.update(mindMaps).set({ userId: toId }).where(eq(mindMaps.userId, fromId));
+    await tx.update(questionAttempts).set({ userId: toId }).where(eq(questionAttempts.userId, fromId));
+    await tx.update(answerEvaluations).set({ userId: toId }).where(eq(answerEvaluations.userId, fromId));
+    await tx.update(mockTestAttempts).set({ userId: toId }).where(eq(mockTestAttempts.userId, fromId));
+}
+
+async function mergeFolders(tx: Tx, fromId: number, toId: number) {
+    const accountRoots = await tx
+        .select({ id: noteFolders.id, name: noteFolders.name })
+        .from(noteFolders)
+        .where(and(eq(noteFolders.userId, toId), isNull(noteFolders.parentId)));
+    const guestRoots = await tx
+        .select({ id: noteFolders.id, name: noteFolders.name })
+        .from(noteFolders)
+        .where(and(eq(noteFolders.userId, fromId), isNull(noteFolders.parentId)));
+
+    for (const folder of guestRoots) {
+        const match = accountRoots.find(f => f.name.trim().toLowerCase() === folder.name.trim().toLowerCase());
+        if (!match) continue;
+
+        await tx.update(noteFolders).set({ parentId: match.id }).where(eq(noteFolders.parentId, folder.id));
+        await tx.update(notes).set({ folderId: match.id }).where(eq(notes.folderId, folder.id));
+        await tx.delete(noteFolders).where(eq(noteFolders.id, folder.id));
+    }
+
+    await tx.update(noteFolders).set({ userId: toId }).where(eq(noteFolders.userId, fromId));
+}
+
+async function mergeNotes(tx: Tx, fromId: number, toId: number) {
+    const guestNotes = await tx
+        .select({ id: notes.id, clientId: notes.clientId, updatedAt: notes.updatedAt })
+        .from(notes)
+        .where(eq(notes.userId, fromId));
+    const clientIds = guestNotes.map(n => n.clientId).filter((id): id is string => !!id);
+
+    if (clientIds.length) {
+        const accountNotes = await tx
+            .select({ id: notes.id, clientId: notes.clientId, updatedAt: notes.updatedAt })
+            .from(notes)
+            .where(and(eq(notes.userId, toId), inArray(notes.clientId, clientIds)));
+
+        for (const accountNote of accountNotes) {
+            const guestNote = guestNotes.find(n => n.clientId === accountNote.clientId)!;
+            const loserId = guestNote.updatedAt > accountNote.updatedAt ? accountNote.id : guestNote.id;
+            await tx.delete(notes).where(eq(notes.id, loserId));
+        }
+    }
+
+    await tx.update(notes).set({ userId: toId }).where(eq(notes.userId, fromId));
+}
+
+async function mergeTopicProgress(tx: Tx, fromId: number, toId: number) {
+    const guestRows = await tx.select().from(userTopicProgress).where(eq(userTopicProgress.userId, fromId));
+    if (!guestRows.length) return;
+
+    const accountRows = await tx
+        .select()
+        .from(userTopicProgress)
+        .where(and(
+            eq(userTopicProgress.userId, toId),
+            inArray(userTopicProgress.topicId, guestRows.map(row => row.topicId))
+        ));
+
+    for (const guestRow of guestRows) {
+        const accountRow = accountRows.find(row => row.topicId === guestRow.topicId);
+        if (!accountRow) continue;
+
+        await tx
+            .update(userTopicProgress)
+            .set(combineProgress(accountRow, guestRow))
+            .where(eq(userTopicProgress.id, accountRow.id));
+        await tx.delete(userTopicProgress).where(eq(userTopicProgress.id, guestRow.id));
+    }
+
+    await tx.update(userTopicProgress).set({ userId: toId }).where(eq(userTopicProgress.userId, fromId));
+}
+
+function combineProgress(a: ProgressRow, b: ProgressRow): Partial<ProgressRow> {
+    return {
+        status: furthest(PROGRESS_STATUS_RANK, a.status, b.status) ?? a.status,
+        completedSubtopics: Array.from(new Set([...(a.completedSubtopics || []), ...(b.completedSubtopics || [])])),
+        revisionStatus: furthest(REVISION_STATUS_RANK, a.revisionStatus, b.revisionStatus),
+        hoursStudied: (a.hoursStudied || 0) + (b.hoursStudied || 0),
+        lastStudied: latest(a.lastStudied, b.lastStudied),
+        updatedAt: new Date(),
+    };
+}
+
+async function mergeReviewItems(tx: Tx, fromId: number, toId: number) {
+    const guestItems = await tx.select().from(reviewItems).where(eq(reviewItems.userId, fromId));
+    if (!guestItems.length) return;
+
+    const accountItems = await tx
+        .select()
+        .from(reviewItems)
+        .where(and(
+            eq(reviewItems.userId, toId),
+            inArray(reviewItems.questionKey, guestItems.map(item => item.questionKey))
+        ));
+
+    for (const guestItem of guestItems) {
+        const accountItem = accountItems.find(
+            item => item.source === guestItem.source && item.questionKey === guestItem.questionKey
+        );
+        if (!accountItem) continue;
+
+        const guestIsNewer = latest(accountItem.lastReviewedAt, guestItem.lastReviewedAt) !== accountItem.lastReviewedAt;
+        const [keep, drop] = guestIsNewer ? [guestItem, accountItem] : [accountItem, guestItem];
+
+        await tx.update(questionAttempts).set({ reviewItemId: keep.id }).where(eq(questionAttempts.reviewItemId, drop.id));
+        await tx.delete(reviewItems).where(eq(reviewItems.id, drop.id));
+    }
+
+    await tx.update(reviewItems).set({ userId: toId }).where(eq(reviewItems.userId, fromId));
+}
@@ -0,0 +1,41 @@
+import type { TranslationStatus } from './db/schema';
+
+export type ContentLanguage = 'en' | 'hi';
+
+export const SUPPORTED_LANGUAGES: ContentLanguage[] = ['en', 'hi'];
+
+export const LANGUAGE_NAMES: Record<ContentLanguage, string> = {
+    en: 'English',
+    hi: 'Hindi',
+};
+
+// Read the `lang` query parameter, falling back to English for anything unknown
+export function getRequestLanguage(searchParams: URLSearchParams): ContentLanguage {
+    const lang = (searchParams.get('lang') || 'en').toLowerCase();
+    return SUPPORTED_LANGUAGES.includes(lang as ContentLanguage) ? (lang as ContentLanguage) : 'en';
+}
+
+// Overlay a reviewed translation on top of the English row.
+// The `translations` blob itself is stripped so mobile payloads stay small.
+export function localize<T extends { translations?: any }>(
+    row: T,
+    lang: ContentLanguage
+): Omit<T, 'translations'> & { language: ContentLanguage } {
+    const { translations, ...base } = row;
+
+    if (lang === 'en') {
+        return { ...base, language: 'en' };
+    }
+
+    const translation = translations?.[lang] as ({ status?: TranslationStatus } & Record<string, any>) | undefined;
+    if (!translation || translation.status !== 'reviewed') {
+        return { ...base, language: 'en' };
+    }
+
+    const { status, updatedAt, ...fields } = translation;
+    const overrides = Object.fromEntries(
+        Object.entries(fields).filter(([, value]) => value !== undefined && value !== null && value !== '')
+    );
+
+    return { ...base, ...overrides, language: lang };
+}
@@ -0,0 +1,173 @@
+import { db } from './db';
+import { articles } from './db/schema';
+import { inArray } from 'drizzle-orm';
+import { parseRssFeed, parsePibRelease, parseHinduArticle, FeedItem, ParsedArticle } from './feed-parsers';
+import { classifyArticle } from './article-classifier';
+
+const USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36';
+
+export type IngestionSourceId = 'pib' | 'the_hindu';
+
+type IngestionSource = {
+    id: IngestionSourceId;
+    name: string;
+    feeds: string[];
+    parseArticle: (html: string) => ParsedArticle;
+};
+
+export const INGESTION_SOURCES: IngestionSource[] = [
+    {
+        id: 'pib',
+        name: 'PIB',
+        // All-ministry English releases from PIB Delhi
+        feeds: ['https://pib.gov.in/RssMain.aspx?ModId=6&Lang=1&Regid=3'],
+        parseArticle: parsePibRelease,
+    },
+    {
+        id: 'the_hindu',
+        name: 'The Hindu',
+        feeds: [
+            'https://www.thehindu.com/news/national/feeder/default.rss',
+            'https://www.thehindu.com/news/international/feeder/default.rss',
+            'https://www.thehindu.com/business/Economy/feeder/default.rss',
+            'https://www.thehindu.com/sci-tech/science/feeder/default.rss',
+            'https://www.thehindu.com/sci-tech/energy-and-environment/feeder/default.rss',
+            'https://www.thehindu.com/opinion/editorial/feeder/default.rss',
+        ],
+        parseArticle: parseHinduArticle,
+    },
+];
+
+export type IngestionOptions = {
+    sources?: IngestionSourceId[];
+    limitPerFeed?: number;
+    dryRun?: boolean; // Parse and classify, but don't write to the database
+};
+
+export type IngestionReport = {
+    source: IngestionSourceId;
+    discovered: number;
+    duplicates: number;
+    irrelevant: number;
+    inserted: number;
+    failed: Array<{ url: string; error: string }>;
+};
+
+async function fetchText(url: string): Promise<string> {
+    const response = await fetch(url, { headers: { 'User-Agent': USER_AGENT } });
+    if (!response.ok) {
+        throw new Error(`Failed to fetch ${url}: ${response.status}`);
+    }
+    return response.text();
+}
+
+// Collect feed items for a source, deduped by URL across its feeds
+async function discoverItems(source: IngestionSource, limitPerFeed: number): Promise<FeedItem[]> {
+    const seen = new Map<string, FeedItem>();
+
+    for (const feedUrl of source.feeds) {
+        try {
+            const items = parseRssFeed(await fetchText(feedUrl)).slice(0, limitPerFeed);
+            items.forEach(item => {
+                if (!seen.has(item.url)) seen.set(item.url, item);
+            });
+        } catch (error) {
+            console.error(`[Ingestion] Feed failed (${source.name}):`, feedUrl, error);
+        }
+    }
+
+    return Array.from(seen.values());
+}
+
+async function findExistingUrls(urls: string[]): Promise<Set<string>> {
+    if (urls.length === 0) return new Set();
+
+    const rows = await db
+        .select({ sourceUrl: articles.sourceUrl })
+        .from(articles)
+        .where(inArray(articles.sourceUrl, urls));
+
+    return new Set(rows.map(row => row.sourceUrl).filter((url): url is string => !!url));
+}
+
+async function ingestSource(source: IngestionSource, options: Required<IngestionOptions>): Promise<IngestionReport> {
+    const report: IngestionReport = {
+        source: source.id,
+        discovered: 0,
+        duplicates: 0,
+        irrelevant: 0,
+        inserted: 0,
+        failed: [],
+    };
+
+    const items = await discoverItems(source, options.limitPerFeed);
+    report.discovered = items.length;
+
+    const existing = await findExistingUrls(items.map(item => item.url));
+
+    for (const item of items) {
+        if (existing.has(item.url)) {
+            report.duplicates++;
+            continue;
+        }
+
+        try {
+            const parsed = source.parseArticle(await fetchText(item.url));
+            const title = parsed.title || item.title;
+
+            if (parsed.content.length === 0) {
+                throw new Error('No article content found');
+            }
+
+            const classification = await classifyArticle(title, parsed.text);
+            if (!classification.isRelevant) {
+                report.irrelevant++;
+                continue;
+            }
+
+            if (!options.dryRun) {
+                // Queued unpublished: an admin reviews every ingested article before it goes live
+                await db.insert(articles).values({
+                    title: title.slice(0, 500),
+                    author: parsed.author?.slice(0, 255) || source.name,
+                    sourceUrl: item.url,
+                    publishedDate: parsed.publishedDate || item.publishedDate,
+                    summary: parsed.summary || item.summary,
+                    metaDescription: parsed.metaDescription,
+                    content: parsed.content,
+                    images: parsed.images,
+                    gsPaper: classification.gsPaper,
+                    subject: classification.subject,
+                    tags: classification.tags,
+                    isPublished: false,
+                    scrapedAt: new Date(),
+                });
+            }
+
+            report.inserted++;
+        } catch (error) {
+            report.failed.push({ url: item.url, error: error instanceof Error ? error.message : 'Unknown error' });
+        }
+    }
+
+    return report;
+}
+
+// Pull the latest PIB releases and The Hindu stories into the articles table
+export async function runIngestion(options: IngestionOptions = {}): Promise<IngestionReport[]> {
+    const resolved: Required<IngestionOptions> = {
+        sources: options.sources?.length ? options.sources : INGESTION_SOURCES.map(s => s.id),
+        limitPerFeed: options.limitPerFeed ?? 15,
+        dryRun: options.dryRun ?? false,
+    };
+
+    const reports: IngestionReport[] = [];
+    for (const source of INGESTION_SOURCES.filter(s => resolved.sources.includes(s.id))) {
+        console.log(`[Ingestion] Running ${source.name}...`);
+        const report = await ingestSource(source, resolved);
+        console.log(`[Ingestion] ${source.name}: ${report.inserted} new, ${report.duplicates} duplicates, ${report.failed.length} failed`);
+        reports.push(report);
+    }
+
+    return reports;
+}
@@ -0,0 +1,322 @@
+import { OPENROUTER_API_KEY } from './secure-config';
+import type { AnswerRubric, MainsDirective, RubricCriterion, mainsQuestions } from './db/schema';
+import { GS_PAPERS } from './article-classifier';
+import {
+    countWords,
+    defaultWordLimit,
+    rubricMaxScores,
+    scoreWordLimit,
+    roundToHalf,
+    toStringArray,
+} from './answer-evaluation';
+
+const OPENROUTER_URL = 'https://openrouter.ai/api/v1/chat/completions';
+export const MAINS_EVALUATION_MODEL = 'google/gemini-3-flash-preview';
+
+export const MAINS_GS_PAPERS = GS_PAPERS;
+
+// What each directive word asks the candidate to do, shown in the app and given to the examiner
+export const MAINS_DIRECTIVES: Record<MainsDirective, { label: string; meaning: string }> = {
+    discuss: {
+        label: 'Discuss',
+        meaning: 'Cover the issue from several angles with arguments for and against, and reach a reasoned view.',
+    },
+    critically_examine: {
+        label: 'Critically examine',
+        meaning: 'Probe the issue in depth, weigh its merits and shortcomings with evidence, and give a balanced judgement.',
+    },
+    critically_analyse: {
+        label: 'Critically analyse',
+        meaning: 'Break the issue into its parts, assess each on its strengths and weaknesses, and conclude with an overall judgement.',
+    },
+    analyse: {
+        label: 'Analyse',
+        meaning: 'Break the issue into its components and explain how they relate: causes, effects and implications.',
+    },
+    examine: {
+        label: 'Examine',
+        meaning: 'Look closely at the facts and their implications, and establish how they connect.',
+    },
+    evaluate: {
+        label: 'Evaluate',
+        meaning: 'Judge the worth or effectiveness of something against clear criteria, with evidence on both sides.',
+    },
+    comment: {
+        label: 'Comment',
+        meaning: 'Give your opinion on the main points, backed by reasons and evidence.',
+    },
+    explain: {
+        label: 'Explain',
+        meaning: 'Make clear how or why something is so, with causes and examples; opinion is not required.',
+    },
+    elucidate: {
+        label: 'Elucidate',
+        meaning: 'Throw light on the concept by explaining it clearly with examples.',
+    },
+    justify: {
+        label: 'Justify',
+        meaning: 'Argue in support of the statement with reasons and evidence, and answer the likely objections.',
+    },
+};
+
+export const isMainsDirective = (value: unknown): value is MainsDirective =>
+    typeof value === 'string' && value in MAINS_DIRECTIVES;
+
+// The directive word used in the question text; longer phrases win so
+// "critically examine" is not read as "examine"
+export function detectDirective(question: string): MainsDirective {
+    const text = question.toLowerCase().replace(/analyze/g, 'analyse');
+
+    const match = (Object.keys(MAINS_DIRECTIVES) as MainsDirective[])
+        .sort((a, b) => MAINS_DIRECTIVES[b].label.length - MAINS_DIRECTIVES[a].label.length)
+        .find(directive => text.includes(MAINS_DIRECTIVES[directive].label.toLowerCase()));
+
+    return match || 'discuss';
+}
+
+// UPSC GS papers give 180 minutes for 250 marks, about 0.72 minutes per mark
+export const defaultTimeLimit = (marks: number) => Math.max(1, Math.round(marks * 0.72));
+
+/**
+ * A question as the app sees it. The model answer and key points stay hidden
+ * until the user has submitted their own answer.
+ */
+export function toMobileQuestion(question: typeof mainsQuestions.$inferSelect, revealed: boolean) {
+    return {
+        id: question.id,
+        date: question.questionDate,
+        gsPaper: question.gsPaper,
+        question: question.question,
+        directive: question.directive,
+        directiveLabel: MAINS_DIRECTIVES[question.directive]?.label || question.directive,
+        directiveMeaning: MAINS_DIRECTIVES[question.directive]?.meaning || '',
+        marks: question.marks,
+        wordLimit: question.wordLimit,
+        timeLimitMinutes: defaultTimeLimit(question.marks),
+        modelAnswer: revealed ? question.modelAnswer : null,
+        keyPoints: revealed ? question.keyPoints : null,
+    };
+}
+
+export type MainsQuestionInput = {
+    questionDate: string;
+    gsPaper: string;
+    question: string;
+    directive: MainsDirective;
+    marks: number;
+    wordLimit: number;
+    modelAnswer: string;
+    keyPoints: string[];
+};
+
+/**
+ * Validate an admin create/update body. Missing directive and word limit are
+ * derived from the question text and marks.
+ */
+export function normalizeMainsQuestion(body: any, existing?: Partial<MainsQuestionInput>):
+    { values: MainsQuestionInput } | { error: string } {
+    const merged = { ...existing, ...body };
+
+    const question = typeof merged.question === 'string' ? merged.question.trim() : '';
+    if (!question) return { error: 'Question is required' };
+
+    if (typeof merged.questionDate !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(merged.questionDate)) {
+        return { error: 'questionDate must be YYYY-MM-DD' };
+    }
+
+    if (!MAINS_GS_PAPERS.includes(merged.gsPaper)) {
+        return { error: `gsPaper must be one of ${MAINS_GS_PAPERS.join(', ')}` };
+    }
+
+    if (merged.directive !== undefined && merged.directive !== null && !isMainsDirective(merged.directive)) {
+        return { error: 'Unknown directive' };
+    }
+
+    const marks = parseInt(String(merged.marks ?? 10));
+    if (!Number.isFinite(marks) || marks < 1 || marks > 250) {
+        return { error: 'marks must be between 1 and 250' };
+    }
+
+    // An explicit word limit wins; otherwise it follows the marks, keeping the
+    // saved limit when the marks are not being changed
+    const wordLimit = parseInt(String(body.wordLimit ?? ''))
+        || (body.marks === undefined && existing?.wordLimit)
+        || defaultWordLimit(marks);
+
+    return {
+        values: {
+            questionDate: merged.questionDate,
+            gsPaper: merged.gsPaper,
+            question,
+            directive: merged.directive || detectDirective(question),
+            marks,
+            wordLimit,
+            modelAnswer: typeof merged.modelAnswer === 'string' ? merged.modelAnswer.trim() : '',
+            keyPoints: toStringArray(merged.keyPoints).map(point => point.trim()),
+        },
+    };
+}
+
+export type MainsEvaluation = {
+    wordCount: number;
+    rubric: AnswerRubric;
+    score: number;
+    directiveAddressed: boolean;
+    directiveFeedback: string;
+    keyPointsCovered: string[];
+    keyPointsMissed: string[];
+    examinerRemark: string;
+    improvementPlan: string[];
+};
+
+type MainsQuestionForEvaluation = {
+    question: string;
+    directive: MainsDirective;
+    marks: number;
+    wordLimit: number;
+    keyPoints: string[];
+};
+
+function buildPrompt(question: MainsQuestionForEvaluation, answerText: string, wordCount: number, maxScores: Record<RubricCriterion, number>) {
+    const directive = MAINS_DIRECTIVES[question.directive];
+    const keyPoints = question.keyPoints.length > 0
+        ? `\n**Key points a good answer covers:**\n${question.keyPoints.map(point => `- ${point}`).join('\n')}\n`
+        : '';
+
+    return `You are a senior UPSC Mains examiner evaluating a typed answer.
+
+**Question (${question.marks} marks, ${question.wordLimit} words):** ${question.question}
+
+**Directive:** "${directive.label}" - ${directive.meaning}
+${keyPoints}
+**Answer (${wordCount} words):**
+${answerText}
+
+Judge first whether the answer does what the directive asks. An answer that describes when asked to critically examine, or only lists points when asked to discuss, must lose body marks even if its facts are right.
+
+Score the answer on this rubric. Use half marks at most; never exceed the maximum.
+- introduction (max ${maxScores.introduction}): context, definition or data-backed opening
+- body (max ${maxScores.body}): does what "${directive.label}" demands, covers all parts of the question, multi-dimensional analysis, examples, data
+- conclusion (max ${maxScores.conclusion}): balanced, forward-looking way ahead
+- structure (max ${maxScores.structure}): headings, sub-points, flow
+- keywords (max ${maxScores.keywords}): UPSC terminology, constitutional articles, schemes, reports
+
+Respond ONLY with valid JSON in this exact shape:
+
+{
+  "directiveAddressed": <true if the answer does what the directive asks>,
+  "directiveFeedback": "<how well the answer follows the directive and what it should have done>",
+  "rubric": {
+    "introduction": { "score": <number>, "feedback": "<specific feedback>" },
+    "body": { "score": <number>, "feedback": "<specific feedback>" },
+    "conclusion": { "score": <number>, "feedback": "<specific feedback>" },
+    "structure": { "score": <number>, "feedback": "<specific feedback>" },
+    "keywords": { "score": <number>, "feedback": "<specific feedback>" }
+  },
+  "keyPointsCovered": ["<${question.keyPoints.length > 0 ? 'key point from the list, copied exactly' : 'important point the answer covers'}>"],
+  "keyPointsMissed": ["<${question.keyPoints.length > 0 ? 'key point from the list, copied exactly' : 'important point the answer should have covered'}>"],
+  "examinerRemark": "<overall assessment in 2-3 sentences>",
+  "improvementPlan": ["<specific actionable improvement>"]
+}
+
+Be strict: an average aspirant scores 35-45% of the marks, a topper 55-65%.`;
+}
+
+function parseJson(content: string): any {
+    try {
+        return JSON.parse(content);
+    } catch {
+        const jsonMatch = content.match(/\{[\s\S]*\}/);
+        if (!jsonMatch) {
+            throw new Error('No JSON found in AI response');
+        }
+        return JSON.parse(jsonMatch[0]);
+    }
+}
+
+// Clamp AI scores to the rubric, score the word limit ourselves and keep
+// key points to the curated list when the question has one
+function normalizeEvaluation(raw: any, question: MainsQuestionForEvaluation, wordCount: number): MainsEvaluation {
+    const maxScores = rubricMaxScores(question.marks);
+
+    const rubric = {} as AnswerRubric;
+    (Object.keys(maxScores) as RubricCriterion[]).forEach(criterion => {
+        const maxScore = maxScores[criterion];
+
+        if (criterion === 'wordLimit') {
+            rubric.wordLimit = {
+                score: scoreWordLimit(wordCount, question.wordLimit, maxScore),
+                maxScore,
+                feedback: `${wordCount} words written against a limit of ${question.wordLimit}.`,
+            };
+            return;
+        }
+
+        const entry = raw.rubric?.[criterion];
+        const score = Number(entry?.score);
+        rubric[criterion] = {
+            score: Number.isFinite(score) ? Math.min(Math.max(roundToHalf(score), 0), maxScore) : 0,
+            maxScore,
+            feedback: typeof entry?.feedback === 'string' ? entry.feedback : '',
+        };
+    });
+
+    let keyPointsCovered = toStringArray(raw.keyPointsCovered);
+    let keyPointsMissed = toStringArray(raw.keyPointsMissed);
+
+    if (question.keyPoints.length > 0) {
+        const covered = new Set(keyPointsCovered.map(point => point.trim().toLowerCase()));
+        keyPointsCovered = question.keyPoints.filter(point => covered.has(point.toLowerCase()));
+        keyPointsMissed = question.keyPoints.filter(point => !covered.has(point.toLowerCase()));
+    }
+
+    return {
+        wordCount,
+        rubric,
+        score: roundToHalf(Object.values(rubric).reduce((sum, r) => sum + r.score, 0)),
+        directiveAddressed: raw.directiveAddressed === true,
+        directiveFeedback: typeof raw.directiveFeedback === 'string' ? raw.directiveFeedback : '',
+        keyPointsCovered,
+        keyPointsMissed,
+        examinerRemark: typeof raw.examinerRemark === 'string' ? raw.examinerRemark : '',
+        improvementPlan: toStringArray(raw.improvementPlan),
+    };
+}
+
+// Score a typed answer against the question's directive, rubric and key points
+export async function evaluateMainsAnswer(question: MainsQuestionForEvaluation, answerText: string): Promise<MainsEvaluation> {
+    const wordCount = countWords(answerText);
+    const maxScores = rubricMaxScores(question.marks);
+
+    const response = await fetch(OPENROUTER_URL, {
+        method: 'POST',
+        headers: {
+            'Authorization': `Bearer ${OPENROUTER_API_KEY}`,
+            'Content-Type': 'application/json',
+            'HTTP-Referer': 'https://upsc-app-admin.vercel.app',
+            'X-Title': 'UPSC Mains Answer Evaluator'
+        },
+        body: JSON.stringify({
+            model: MAINS_EVALUATION_MODEL,
+            messages: [{ role: 'user', content: buildPrompt(question, answerText, wordCount, maxScores) }],
+            response_format: { type: 'json_object' },
+            temperature: 0.3,
+            max_tokens: 4000,
+        })
+    });
+
+    if (!response.ok) {
+        const errorText = await response.text();
+        console.error('[MainsPractice] OpenRouter API error:', response.status, errorText);
+        throw new Error(`AI Provider Error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const content: string | undefined = data.choices?.[0]?.message?.content;
+
+    if (!content) {
+        throw new Error('Empty response from AI');
+    }
+
+    return normalizeEvaluation(parseJson(content), question, wordCount);
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from './db';
+import { mindMaps } from './db/schema';
+import { and, eq } from 'drizzle-orm';
+import { MobileUser, requireMobileUser } from './mobile-user';
+
+type MindMapRow = typeof mindMaps.$inferSelect;
+
+export type MindMapAccess = { user: MobileUser; mindMap: MindMapRow } | { response: NextResponse };
+
+/**
+ * Guard for /api/mobile/mindmaps/[id]/* routes: the caller must be signed in and
+ * own the mind map. Someone else's map is reported as not found.
+ */
+export async function requireMindMapOwner(
+    request: NextRequest,
+    mindMapId: number,
+    headers: Record<string, string> = {}
+): Promise<MindMapAccess> {
+    const auth = await requireMobileUser(request, headers);
+    if ('response' in auth) return auth;
+
+    const [mindMap] = Number.isNaN(mindMapId)
+        ? []
+        : await db
+            .select()
+            .from(mindMaps)
+            .where(and(eq(mindMaps.id, mindMapId), eq(mindMaps.userId, auth.user.id)))
+            .limit(1);
+
+    if (!mindMap) {
+        return {
+            response: NextResponse.json(
+                { success: false, error: 'Mind map not found' },
+                { status: 404, headers }
+            ),
+        };
+    }
+
+    return { user: auth.user, mindMap };
+}
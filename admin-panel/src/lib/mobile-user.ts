@@ -0,0 +1,161 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from './db';
+import { users } from './db/schema';
+import { and, eq } from 'drizzle-orm';
+import jwt from 'jsonwebtoken';
+import { getTokenFromRequest, verifyToken } from './auth';
+
+export type MobileUser = typeof users.$inferSelect;
+
+// The caller's `users` row, plus the id the app knows them by: the Supabase
+// user id, or the device's guest id
+type MobileCaller = { user: MobileUser; appUserId: string };
+
+const GUEST_TOKEN_AUDIENCE = 'mobile-guest';
+const GUEST_TOKEN_TTL = '90d';
+
+// Guests have no Supabase account, so their tokens are signed here. Without a
+// dedicated secret the service role key is used; only the server knows either.
+function guestTokenSecret(): string {
+    const secret = process.env.GUEST_TOKEN_SECRET || process.env.SUPABASE_SERVICE_ROLE_KEY;
+    if (!secret) throw new Error('GUEST_TOKEN_SECRET is not set');
+    return secret;
+}
+
+/**
+ * Bearer token for a guest `users` row (see /api/mobile/auth/guest). It stops
+ * working once the guest is upgraded to a registered account.
+ */
+export function signGuestToken(guest: MobileUser, deviceId: string): string {
+    return jwt.sign({ deviceId }, guestTokenSecret(), {
+        subject: String(guest.id),
+        audience: GUEST_TOKEN_AUDIENCE,
+        expiresIn: GUEST_TOKEN_TTL,
+    });
+}
+
+/**
+ * The guest `users` id and device id a token from signGuestToken was issued
+ * for, or null if it is not a valid guest token
+ */
+export function verifyGuestToken(token: string): { userId: number; deviceId: string } | null {
+    try {
+        const payload = jwt.verify(token, guestTokenSecret(), {
+            audience: GUEST_TOKEN_AUDIENCE,
+            algorithms: ['HS256'],
+        }) as jwt.JwtPayload;
+        const userId = parseInt(payload.sub || '');
+        return Number.isNaN(userId) ? null : { userId, deviceId: String(payload.deviceId || '') };
+    } catch {
+        // Not a guest token (e.g. a Supabase access token), or expired
+        return null;
+    }
+}
+
+async function getGuestCaller(userId: number, deviceId: string): Promise<MobileCaller | null> {
+    const [guest] = await db
+        .select()
+        .from(users)
+        .where(and(eq(users.id, userId), eq(users.isGuest, true)))
+        .limit(1);
+
+    return guest?.isActive ? { user: guest, appUserId: deviceId } : null;
+}
+
+// `users` row for a Supabase account, created on first use
+async function getSupabaseUser(authEmail: string, authName?: string): Promise<MobileUser | null> {
+    const email = authEmail.toLowerCase();
+
+    const [existingUser] = await db
+        .select()
+        .from(users)
+        .where(eq(users.email, email))
+        .limit(1);
+
+    if (existingUser) {
+        return existingUser.isActive ? existingUser : null;
+    }
+
+    const [newUser] = await db
+        .insert(users)
+        .values({
+            email,
+            name: authName || email.split('@')[0],
+            provider: 'email',
+            role: 'student',
+            isGuest: false,
+            isActive: true,
+            lastLogin: new Date(),
+        })
+        .onConflictDoNothing()
+        .returning();
+
+    if (newUser) return newUser;
+
+    // Created concurrently by another request
+    const [user] = await db.select().from(users).where(eq(users.email, email)).limit(1);
+    return user || null;
+}
+
+async function getMobileCaller(request: NextRequest): Promise<MobileCaller | null> {
+    const token = getTokenFromRequest(request);
+    if (!token) return null;
+
+    const guest = verifyGuestToken(token);
+    if (guest) return getGuestCaller(guest.userId, guest.deviceId);
+
+    const authUser = await verifyToken(token);
+    if (!authUser?.email) return null;
+    const user = await getSupabaseUser(authUser.email, authUser.name);
+    return user ? { user, appUserId: authUser.id } : null;
+}
+
+/**
+ * Resolve the caller's bearer token to their `users` row: a guest token from
+ * /api/mobile/auth/guest, or a Supabase access token, whose row is created the
+ * first time (mirrors /api/mobile/auth/login). Returns null without a valid
+ * token or for deactivated accounts.
+ */
+export async function getMobileUser(request: NextRequest): Promise<MobileUser | null> {
+    return (await getMobileCaller(request))?.user || null;
+}
+
+export type MobileAuthResult = { user: MobileUser } | { response: NextResponse };
+
+/**
+ * Guard for user-scoped mobile routes. Resolves the bearer token to the caller's
+ * `users` row, or returns the 401 to send back. The token decides whose data is
+ * used; a `userId` the client still sends (query string, or `claimedUserId` from
+ * the body) must be one of the caller's own ids (`users.id`, or the Supabase or
+ * guest id the app uses), otherwise the request gets a 403.
+ */
+export async function requireMobileUser(
+    request: NextRequest,
+    headers: Record<string, string> = {},
+    claimedUserId?: unknown
+): Promise<MobileAuthResult> {
+    const caller = await getMobileCaller(request);
+    if (!caller) {
+        return {
+            response: NextResponse.json(
+                { success: false, error: 'Please sign in to continue' },
+                { status: 401, headers }
+            ),
+        };
+    }
+
+    const { user, appUserId } = caller;
+    const claimed = claimedUserId ?? request.nextUrl.searchParams.get('userId');
+    const ownIds = [String(user.id), appUserId];
+    if (claimed !== undefined && claimed !== null && claimed !== '' && !ownIds.includes(String(claimed))) {
+        console.warn(`[MobileAuth] User ${user.id} tried to act as user ${claimed}`);
+        return {
+            response: NextResponse.json(
+                { success: false, error: 'You do not have access to this account' },
+                { status: 403, headers }
+            ),
+        };
+    }
+
+    return { user };
+}
@@ -0,0 +1,209 @@
+import { db } from './db';
+import { mockTestAttempts, practiceQuestions, SubjectScore } from './db/schema';
+import { and, eq, inArray, isNotNull, sql } from 'drizzle-orm';
+import { localize, ContentLanguage } from './i18n';
+
+// UPSC Prelims GS Paper I: 100 questions in 2 hours, +2 per correct answer,
+// one third of the marks (0.66) deducted per wrong answer
+export const MOCK_TEST_QUESTION_COUNT = 100;
+export const MOCK_TEST_DURATION_SECONDS = 2 * 60 * 60;
+export const MARKS_PER_CORRECT = 2;
+export const NEGATIVE_MARKS = 0.66;
+
+// Answers that arrive slightly after the deadline (auto-submit, slow networks) are still accepted
+export const SUBMIT_GRACE_SECONDS = 120;
+
+const UNCATEGORISED = 'Uncategorised';
+
+type MockTestAttempt = typeof mockTestAttempts.$inferSelect;
+type PracticeQuestion = typeof practiceQuestions.$inferSelect;
+
+export type MockTestScore = {
+    correctCount: number;
+    incorrectCount: number;
+    unattemptedCount: number;
+    score: number;
+    maxScore: number;
+    subjectBreakdown: SubjectScore[];
+};
+
+const roundScore = (value: number) => Math.round(value * 100) / 100;
+
+export const attemptDeadline = (attempt: Pick<MockTestAttempt, 'startedAt' | 'durationSeconds'>) =>
+    new Date(attempt.startedAt.getTime() + attempt.durationSeconds * 1000);
+
+export const isAttemptExpired = (attempt: Pick<MockTestAttempt, 'startedAt' | 'durationSeconds'>, graceSeconds = 0) =>
+    Date.now() > attemptDeadline(attempt).getTime() + graceSeconds * 1000;
+
+// Keep only answers to questions on this paper, as a single option letter
+export function sanitizeAnswers(answers: unknown, questionIds: number[]): Record<string, string> {
+    if (!answers || typeof answers !== 'object') return {};
+
+    const allowed = new Set(questionIds.map(String));
+    return Object.fromEntries(
+        Object.entries(answers as Record<string, unknown>)
+            .filter(([id, answer]) => allowed.has(id) && typeof answer === 'string' && ['A', 'B', 'C', 'D'].includes(answer.toUpperCase()))
+            .map(([id, answer]) => [id, (answer as string).toUpperCase()])
+    );
+}
+
+export function sanitizeMarked(marked: unknown, questionIds: number[]): number[] {
+    if (!Array.isArray(marked)) return [];
+    const allowed = new Set(questionIds);
+    return Array.from(new Set(marked.map(Number).filter(id => allowed.has(id))));
+}
+
+// Score a paper with UPSC marking and group the result by subject
+export function scoreMockTest(questions: Pick<PracticeQuestion, 'id' | 'correctAnswer' | 'subject'>[], answers: Record<string, string>): MockTestScore {
+    const bySubject = new Map<string, SubjectScore>();
+    let correctCount = 0;
+    let incorrectCount = 0;
+    let unattemptedCount = 0;
+
+    for (const question of questions) {
+        const subject = question.subject || UNCATEGORISED;
+        if (!bySubject.has(subject)) {
+            bySubject.set(subject, { subject, total: 0, correct: 0, incorrect: 0, unattempted: 0, score: 0 });
+        }
+        const entry = bySubject.get(subject)!;
+        entry.total++;
+
+        const answer = answers[String(question.id)];
+        if (!answer) {
+            entry.unattempted++;
+            unattemptedCount++;
+        } else if (answer === question.correctAnswer.toUpperCase()) {
+            entry.correct++;
+            entry.score += MARKS_PER_CORRECT;
+            correctCount++;
+        } else {
+            entry.incorrect++;
+            entry.score -= NEGATIVE_MARKS;
+            incorrectCount++;
+        }
+    }
+
+    const subjectBreakdown = Array.from(bySubject.values())
+        .map(entry => ({ ...entry, score: roundScore(entry.score) }))
+        .sort((a, b) => b.total - a.total);
+
+    return {
+        correctCount,
+        incorrectCount,
+        unattemptedCount,
+        score: roundScore(correctCount * MARKS_PER_CORRECT - incorrectCount * NEGATIVE_MARKS),
+        maxScore: questions.length * MARKS_PER_CORRECT,
+        subjectBreakdown,
+    };
+}
+
+// Questions in paper order
+export async function loadPaperQuestions(questionIds: number[]): Promise<PracticeQuestion[]> {
+    if (questionIds.length === 0) return [];
+
+    const rows = await db
+        .select()
+        .from(practiceQuestions)
+        .where(inArray(practiceQuestions.id, questionIds));
+
+    const byId = new Map(rows.map(row => [row.id, row]));
+    return questionIds.map(id => byId.get(id)).filter((q): q is PracticeQuestion => !!q);
+}
+
+// A paper from one question set (in set order), or a random mix across every set
+export async function assemblePaper(questionSetId: number | null, questionCount = MOCK_TEST_QUESTION_COUNT): Promise<number[]> {
+    if (questionSetId) {
+        const rows = await db
+            .select({ id: practiceQuestions.id })
+            .from(practiceQuestions)
+            .where(eq(practiceQuestions.questionSetId, questionSetId))
+            .orderBy(practiceQuestions.id)
+            .limit(questionCount);
+        return rows.map(row => row.id);
+    }
+
+    const rows = await db
+        .select({ id: practiceQuestions.id })
+        .from(practiceQuestions)
+        .where(isNotNull(practiceQuestions.questionSetId))
+        .orderBy(sql`random()`)
+        .limit(questionCount);
+    return rows.map(row => row.id);
+}
+
+// Mobile payload for an attempt. Answers and explanations are only revealed once it is submitted.
+export function serializeAttempt(attempt: MockTestAttempt, questions: PracticeQuestion[], lang: ContentLanguage) {
+    const submitted = attempt.status === 'submitted';
+
+    return {
+        id: attempt.id,
+        questionSetId: attempt.questionSetId,
+        status: attempt.status,
+        durationSeconds: attempt.durationSeconds,
+        startedAt: attempt.startedAt,
+        deadline: attemptDeadline(attempt),
+        submittedAt: attempt.submittedAt,
+        answers: attempt.answers,
+        markedForReview: attempt.markedForReview,
+        questions: questions.map(q => {
+            const localized = localize({
+                id: q.id,
+                question: q.question,
+                optionA: q.optionA,
+                optionB: q.optionB,
+                optionC: q.optionC,
+                optionD: q.optionD,
+                explanation: q.explanation,
+                subject: q.subject || UNCATEGORISED,
+                translations: q.translations,
+            }, lang);
+
+            if (submitted) {
+                return { ...localized, correctAnswer: q.correctAnswer };
+            }
+            const { explanation, ...paper } = localized;
+            return paper;
+        }),
+        result: submitted ? {
+            correctCount: attempt.correctCount,
+            incorrectCount: attempt.incorrectCount,
+            unattemptedCount: attempt.unattemptedCount,
+            score: attempt.score,
+            maxScore: attempt.maxScore,
+            subjectBreakdown: attempt.subjectBreakdown,
+            marksPerCorrect: MARKS_PER_CORRECT,
+            negativeMarks: NEGATIVE_MARKS,
+        } : null,
+    };
+}
+
+// Score and close an attempt with whatever answers it has
+export async function submitAttempt(attempt: MockTestAttempt, answers: Record<string, string>, markedForReview: number[]) {
+    const questions = await loadPaperQuestions(attempt.questionIds);
+    const result = scoreMockTest(questions, answers);
+    const now = new Date();
+
+    // Time spent is capped at the paper duration
+    const submittedAt = now > attemptDeadline(attempt) ? attemptDeadline(attempt) : now;
+
+    const [submitted] = await db
+        .update(mockTestAttempts)
+        .set({
+            answers,
+            markedForReview,
+            status: 'submitted',
+            submittedAt,
+            ...result,
+            updatedAt: now,
+        })
+        .where(and(eq(mockTestAttempts.id, attempt.id), eq(mockTestAttempts.status, 'in_progress')))
+        .returning();
+
+    if (!submitted) {
+        // Submitted concurrently from another device; keep the first submission
+        const [existing] = await db.select().from(mockTestAttempts).where(eq(mockTestAttempts.id, attempt.id));
+        return { attempt: existing, questions };
+    }
+
+    return { attempt: submitted, questions };
+}
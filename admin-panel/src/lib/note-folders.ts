@@ -0,0 +1,73 @@
+import { db } from './db';
+import { noteFolders, notes } from './db/schema';
+import { and, asc, count, eq, isNull } from 'drizzle-orm';
+
+// Deep enough for Subject > Paper > Topic > Subtopic with room to spare
+export const MAX_FOLDER_DEPTH = 8;
+
+type FolderRow = typeof noteFolders.$inferSelect;
+export type FolderNode = FolderRow & { noteCount: number; children: FolderNode[] };
+
+export async function getUserFolders(userId: number): Promise<FolderRow[]> {
+    return db
+        .select()
+        .from(noteFolders)
+        .where(eq(noteFolders.userId, userId))
+        .orderBy(asc(noteFolders.sortOrder), asc(noteFolders.name));
+}
+
+/**
+ * Nest a user's folders under their parents, with the number of (live) notes
+ * directly in each folder
+ */
+export async function getFolderTree(userId: number): Promise<FolderNode[]> {
+    const folders = await getUserFolders(userId);
+
+    const counts = await db
+        .select({ folderId: notes.folderId, count: count() })
+        .from(notes)
+        .where(and(eq(notes.userId, userId), isNull(notes.deletedAt)))
+        .groupBy(notes.folderId);
+
+    const nodes = new Map<number, FolderNode>(
+        folders.map(folder => [folder.id, {
+            ...folder,
+            noteCount: counts.find(c => c.folderId === folder.id)?.count || 0,
+            children: [],
+        }])
+    );
+
+    const roots: FolderNode[] = [];
+    for (const node of Array.from(nodes.values())) {
+        const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+        (parent ? parent.children : roots).push(node);
+    }
+    return roots;
+}
+
+/**
+ * Depth of a folder (1 = top level), walking up through its parents
+ */
+export function folderDepth(folders: FolderRow[], folderId: number | null): number {
+    let depth = 0;
+    let current = folderId;
+    while (current && depth <= MAX_FOLDER_DEPTH) {
+        depth++;
+        current = folders.find(f => f.id === current)?.parentId ?? null;
+    }
+    return depth;
+}
+
+/**
+ * Whether `folderId` is `ancestorId` or sits somewhere below it. Used to stop a
+ * folder being moved into its own subtree.
+ */
+export function isWithinFolder(folders: FolderRow[], folderId: number | null, ancestorId: number): boolean {
+    let current = folderId;
+    let steps = 0;
+    while (current && steps++ <= MAX_FOLDER_DEPTH) {
+        if (current === ancestorId) return true;
+        current = folders.find(f => f.id === current)?.parentId ?? null;
+    }
+    return false;
+}
@@ -0,0 +1,67 @@
+import { db } from './db';
+import { notes } from './db/schema';
+import { and, eq, inArray, isNull, sql } from 'drizzle-orm';
+
+// [[Note title]] - same syntax the app's block editor writes into plain text
+const NOTE_LINK_PATTERN = /\[\[([^\[\]\n]+?)\]\]/g;
+
+/**
+ * Titles linked from a note's text, lowercased and deduplicated
+ */
+export function parseNoteLinks(text: string | null | undefined): string[] {
+    if (!text) return [];
+
+    const titles = new Set<string>();
+    for (const match of Array.from(text.matchAll(NOTE_LINK_PATTERN))) {
+        const title = match[1].trim().toLowerCase();
+        if (title) titles.add(title);
+    }
+    return Array.from(titles);
+}
+
+/**
+ * Recompute `backlinks` for all of a user's notes. Links resolve by title, so
+ * creating, renaming or deleting any note can change another note's backlinks;
+ * a full pass over the user's notes keeps that simple. Rows whose backlinks
+ * changed are written in one statement, and updatedAt is left alone so sync
+ * cursors are not disturbed.
+ */
+export async function refreshBacklinks(userId: number): Promise<void> {
+    const userNotes = await db
+        .select({ id: notes.id, title: notes.title, plainText: notes.plainText, backlinks: notes.backlinks })
+        .from(notes)
+        .where(and(eq(notes.userId, userId), isNull(notes.deletedAt)));
+
+    // Oldest note wins when two share a title
+    const byTitle = new Map<string, number>();
+    for (const note of [...userNotes].sort((a, b) => a.id - b.id)) {
+        const key = note.title.trim().toLowerCase();
+        if (!byTitle.has(key)) byTitle.set(key, note.id);
+    }
+
+    const backlinks = new Map<number, Set<number>>();
+    for (const note of userNotes) {
+        for (const title of parseNoteLinks(note.plainText)) {
+            const targetId = byTitle.get(title);
+            if (targetId === undefined || targetId === note.id) continue;
+            if (!backlinks.has(targetId)) backlinks.set(targetId, new Set());
+            backlinks.get(targetId)!.add(note.id);
+        }
+    }
+
+    const changed: Array<{ id: number; backlinks: number[] }> = [];
+    for (const note of userNotes) {
+        const next = Array.from(backlinks.get(note.id) || []).sort((a, b) => a - b);
+        const current = note.backlinks || [];
+        if (next.length === current.length && next.every((id, i) => id === current[i])) continue;
+        changed.push({ id: note.id, backlinks: next });
+    }
+
+    if (changed.length === 0) return;
+
+    const cases = changed.map(note => sql`when ${note.id} then ${JSON.stringify(note.backlinks)}::jsonb`);
+    await db
+        .update(notes)
+        .set({ backlinks: sql`case ${notes.id} ${sql.join(cases, sql` `)} end` })
+        .where(inArray(notes.id, changed.map(note => note.id)));
+}
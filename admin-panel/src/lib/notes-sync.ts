@@ -0,0 +1,186 @@
+import { db } from './db';
+import { notes, tags, noteTags } from './db/schema';
+import { and, asc, eq, inArray, sql } from 'drizzle-orm';
+
+// Max notes pushed or pulled in one sync request
+export const SYNC_BATCH_LIMIT = 100;
+
+export interface NoteChange {
+    clientId: string;
+    id?: number; // Server ID, once the device knows it
+    baseVersion?: number; // Server version the local edit started from
+    deleted?: boolean;
+    title?: string;
+    content?: unknown; // Lexical JSON
+    plainText?: string;
+    tags?: { name: string; color?: string }[];
+    isPinned?: boolean;
+    isArchived?: boolean;
+    sourceType?: string | null;
+    sourceUrl?: string | null;
+    summary?: string | null;
+}
+
+type NoteRow = typeof notes.$inferSelect;
+export type SyncedNote = NoteRow & { tags: { id: number; name: string; color: string | null }[] };
+
+export type ChangeResult =
+    | { clientId: string; status: 'applied'; note: SyncedNote | null }
+    // The server copy changed since baseVersion (or was deleted); the device resolves it
+    | { clientId: string; status: 'conflict'; note: SyncedNote }
+    | { clientId: string; status: 'invalid'; error: string };
+
+async function withTags(rows: NoteRow[]): Promise<SyncedNote[]> {
+    if (rows.length === 0) return [];
+
+    const tagRows = await db
+        .select({ noteId: noteTags.noteId, id: tags.id, name: tags.name, color: tags.color })
+        .from(noteTags)
+        .innerJoin(tags, eq(noteTags.tagId, tags.id))
+        .where(inArray(noteTags.noteId, rows.map(r => r.id)));
+
+    return rows.map(row => ({
+        ...row,
+        tags: tagRows.filter(t => t.noteId === row.id).map(({ noteId, ...tag }) => tag),
+    }));
+}
+
+// Tags are global and stored lowercase (see /api/mobile/tags)
+async function setNoteTags(noteId: number, noteTagInput: { name: string; color?: string }[]) {
+    await db.delete(noteTags).where(eq(noteTags.noteId, noteId));
+
+    const names = Array.from(new Set(noteTagInput.map(t => t.name.trim().toLowerCase()).filter(Boolean)));
+    if (names.length === 0) return;
+
+    await db
+        .insert(tags)
+        .values(names.map(name => ({
+            name,
+            color: noteTagInput.find(t => t.name.trim().toLowerCase() === name)?.color || '#6366F1',
+        })))
+        .onConflictDoNothing();
+
+    const tagRows = await db.select({ id: tags.id }).from(tags).where(inArray(tags.name, names));
+    await db.insert(noteTags).values(tagRows.map(tag => ({ noteId, tagId: tag.id })));
+}
+
+function noteFields(change: NoteChange) {
+    const fields: Partial<typeof notes.$inferInsert> = {};
+    if (change.title !== undefined) fields.title = change.title.trim().slice(0, 500) || 'Untitled';
+    if (change.content !== undefined) fields.content = change.content;
+    if (change.plainText !== undefined) fields.plainText = change.plainText;
+    if (change.isPinned !== undefined) fields.isPinned = change.isPinned;
+    if (change.isArchived !== undefined) fields.isArchived = change.isArchived;
+    if (change.sourceType !== undefined) fields.sourceType = change.sourceType;
+    if (change.sourceUrl !== undefined) fields.sourceUrl = change.sourceUrl;
+    if (change.summary !== undefined) fields.summary = change.summary;
+    return fields;
+}
+
+/**
+ * Apply one device change. Edits only land if the device saw the latest server
+ * version; otherwise the current server copy is returned as a conflict.
+ */
+export async function applyNoteChange(userId: number, change: NoteChange): Promise<ChangeResult> {
+    const { clientId } = change;
+    if (!clientId || typeof clientId !== 'string' || clientId.length > 64) {
+        return { clientId, status: 'invalid', error: 'clientId is required' };
+    }
+
+    const [existing] = await db
+        .select()
+        .from(notes)
+        .where(and(
+            eq(notes.userId, userId),
+            change.id ? eq(notes.id, change.id) : eq(notes.clientId, clientId)
+        ))
+        .limit(1);
+
+    if (!existing) {
+        if (change.deleted) {
+            return { clientId, status: 'applied', note: null };
+        }
+        if (!change.title?.trim()) {
+            return { clientId, status: 'invalid', error: 'title is required' };
+        }
+
+        const [created] = await db
+            .insert(notes)
+            .values({
+                ...noteFields(change),
+                title: change.title.trim().slice(0, 500),
+                userId,
+                clientId,
+                version: 1,
+                updatedAt: new Date(),
+            })
+            .returning();
+
+        await setNoteTags(created.id, change.tags || []);
+        const [note] = await withTags([created]);
+        return { clientId, status: 'applied', note };
+    }
+
+    if (existing.version !== change.baseVersion || existing.deletedAt) {
+        // A retried push whose response was lost: the server already has this edit
+        const alreadyApplied = !existing.deletedAt && !change.deleted &&
+            existing.title === change.title && existing.plainText === change.plainText;
+        const [note] = await withTags([existing]);
+        return { clientId, status: alreadyApplied ? 'applied' : 'conflict', note };
+    }
+
+    const [updated] = await db
+        .update(notes)
+        .set({
+            ...(change.deleted ? { deletedAt: new Date() } : noteFields(change)),
+            version: sql`${notes.version} + 1`,
+            updatedAt: new Date(),
+        })
+        .where(eq(notes.id, existing.id))
+        .returning();
+
+    if (!change.deleted && change.tags !== undefined) {
+        await setNoteTags(updated.id, change.tags);
+    }
+
+    const [note] = await withTags([updated]);
+    return { clientId, status: 'applied', note };
+}
+
+// Cursors are "<updatedAt ms ISO>|<id>" so notes saved in the same millisecond are not skipped
+function parseCursor(cursor: string | null | undefined): { updatedAt: string; id: number } | null {
+    if (!cursor) return null;
+    const [updatedAt, id] = cursor.split('|');
+    if (isNaN(new Date(updatedAt).getTime()) || isNaN(parseInt(id))) return null;
+    return { updatedAt, id: parseInt(id) };
+}
+
+/**
+ * Notes changed after the cursor, oldest first, including deleted ones
+ * (deletedAt set) so devices can remove them.
+ */
+export async function getNoteChangesSince(userId: number, cursor: string | null | undefined, limit = SYNC_BATCH_LIMIT) {
+    const after = parseCursor(cursor);
+    const updatedMs = sql`date_trunc('milliseconds', ${notes.updatedAt})`;
+
+    const rows = await db
+        .select()
+        .from(notes)
+        .where(and(
+            eq(notes.userId, userId),
+            after
+                ? sql`(${updatedMs} > ${after.updatedAt}::timestamp OR (${updatedMs} = ${after.updatedAt}::timestamp AND ${notes.id} > ${after.id}))`
+                : undefined
+        ))
+        .orderBy(asc(updatedMs), asc(notes.id))
+        .limit(limit + 1);
+
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+
+    return {
+        notes: await withTags(page),
+        cursor: last ? `${last.updatedAt.toISOString()}|${last.id}` : cursor || null,
+        hasMore: rows.length > limit,
+    };
+}
@@ -0,0 +1,54 @@
+// Admin roles and what each one may do. Shared by the API route guards and the
+// dashboard navigation, so it must stay free of server-only imports.
+
+export const ADMIN_ROLES = ['super_admin', 'editor', 'content_reviewer', 'support'] as const;
+export type AdminRole = typeof ADMIN_ROLES[number];
+
+export const ADMIN_ROLE_LABELS: Record<AdminRole, string> = {
+    super_admin: 'Super Admin',
+    editor: 'Editor',
+    content_reviewer: 'Content Reviewer',
+    support: 'Support',
+};
+
+export const PERMISSIONS = {
+    'dashboard.view': 'View dashboard stats and activity',
+    'content.view': 'View articles, maps, bulletins, Mains questions, roadmap, references and question papers',
+    'content.edit': 'Create and edit content',
+    'content.publish': 'Publish and unpublish content',
+    'content.delete': 'Delete content',
+    'users.view': 'View app users',
+    'users.manage': 'Create, edit and deactivate app users',
+    'users.delete': 'Delete app users',
+    'pricing.view': 'View credit prices',
+    'pricing.manage': 'Change credit prices',
+    'admins.manage': 'Assign admin roles',
+    'system.manage': 'Run database maintenance tasks',
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const ROLE_PERMISSIONS: Record<AdminRole, Permission[]> = {
+    super_admin: Object.keys(PERMISSIONS) as Permission[],
+    // Writes content; a reviewer decides when it goes live
+    editor: ['dashboard.view', 'content.view', 'content.edit', 'content.delete'],
+    content_reviewer: ['dashboard.view', 'content.view', 'content.edit', 'content.publish'],
+    support: ['dashboard.view', 'content.view', 'users.view', 'users.manage', 'pricing.view'],
+};
+
+export function isAdminRole(value: unknown): value is AdminRole {
+    return typeof value === 'string' && (ADMIN_ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * Map a stored role to an admin role. Accounts created before roles existed
+ * were all 'admin', which is what super_admin is now.
+ */
+export function normalizeAdminRole(value: unknown): AdminRole | null {
+    if (value === 'admin') return 'super_admin';
+    return isAdminRole(value) ? value : null;
+}
+
+export function hasPermission(role: AdminRole | null | undefined, permission: Permission): boolean {
+    return !!role && ROLE_PERMISSIONS[role].includes(permission);
+}
@@ -0,0 +1,148 @@
+import { db } from './db';
+import { pricingConfig, PricingKind } from './db/schema';
+import { asc } from 'drizzle-orm';
+
+export const PRICING_KINDS: PricingKind[] = ['feature', 'plan', 'credit_pack'];
+
+// Used when a feature has no pricing_config row (or the table is unreachable),
+// so metered routes never run for free
+export const DEFAULT_CREDIT_COSTS = {
+    summary: 1,
+    mind_map: 2,
+    mcq_generator: 3,
+    pdf_mcq: 5,
+    essay_evaluation: 3,
+    essay_generation: 3,
+} as const;
+
+export type CreditFeature = keyof typeof DEFAULT_CREDIT_COSTS;
+
+type PricingRow = typeof pricingConfig.$inferSelect;
+
+// Prices change rarely; a short cache keeps metered routes to one query a minute
+const CACHE_TTL_MS = 60 * 1000;
+let cache: { rows: PricingRow[]; loadedAt: number } | null = null;
+
+export async function getPricingRows(): Promise<PricingRow[]> {
+    if (cache && Date.now() - cache.loadedAt < CACHE_TTL_MS) {
+        return cache.rows;
+    }
+
+    const rows = await db
+        .select()
+        .from(pricingConfig)
+        .orderBy(asc(pricingConfig.kind), asc(pricingConfig.sortOrder), asc(pricingConfig.id));
+
+    cache = { rows, loadedAt: Date.now() };
+    return rows;
+}
+
+// Call after any admin edit so the new prices apply immediately
+export function invalidatePricingCache() {
+    cache = null;
+}
+
+export async function getFeatureCost(feature: CreditFeature): Promise<number> {
+    try {
+        const rows = await getPricingRows();
+        const row = rows.find(r => r.kind === 'feature' && r.key === feature && r.isActive);
+        if (row) return row.credits;
+    } catch (error) {
+        console.error('[Pricing] Failed to load pricing config:', error);
+    }
+    return DEFAULT_CREDIT_COSTS[feature];
+}
+
+// Public shape for the mobile billing screen (active rows only)
+export async function getPublicPricing() {
+    const rows = (await getPricingRows()).filter(r => r.isActive);
+
+    const features: Record<string, number> = { ...DEFAULT_CREDIT_COSTS };
+    for (const row of rows.filter(r => r.kind === 'feature')) {
+        features[row.key] = row.credits;
+    }
+
+    const toProduct = (row: PricingRow) => ({
+        key: row.key,
+        name: row.name,
+        credits: row.credits,
+        priceInr: row.priceInr ?? 0,
+        productId: row.dodoProductId,
+        perks: row.details?.perks || [],
+        badge: row.details?.badge || null,
+    });
+
+    return {
+        features,
+        featureNames: Object.fromEntries(rows.filter(r => r.kind === 'feature').map(r => [r.key, r.name])),
+        plans: rows.filter(r => r.kind === 'plan' && r.dodoProductId).map(toProduct),
+        creditPacks: rows.filter(r => r.kind === 'credit_pack' && r.dodoProductId).map(toProduct),
+    };
+}
+
+type PricingInput = Partial<typeof pricingConfig.$inferInsert>;
+
+// Validate an admin create/update body. `existingKind` is set for updates, where kind cannot change.
+export function parsePricingInput(body: any, existingKind?: PricingKind): { data: PricingInput } | { error: string } {
+    const data: PricingInput = {};
+    const kind: PricingKind | undefined = existingKind ?? body.kind;
+
+    if (!kind || !PRICING_KINDS.includes(kind)) {
+        return { error: `kind must be one of ${PRICING_KINDS.join(', ')}` };
+    }
+    if (!existingKind) data.kind = kind;
+
+    if (body.key !== undefined || !existingKind) {
+        const key = String(body.key ?? '').trim().toLowerCase();
+        if (!/^[a-z0-9_]+$/.test(key)) {
+            return { error: 'key must use lowercase letters, numbers and underscores' };
+        }
+        data.key = key;
+    }
+
+    if (body.name !== undefined || !existingKind) {
+        const name = String(body.name ?? '').trim();
+        if (!name) return { error: 'name is required' };
+        data.name = name;
+    }
+
+    if (body.credits !== undefined || !existingKind) {
+        const credits = Number(body.credits);
+        if (!Number.isInteger(credits) || credits < (kind === 'feature' ? 0 : 1)) {
+            return { error: kind === 'feature' ? 'Cost must be a whole number of credits' : 'Credits must be a positive whole number' };
+        }
+        data.credits = credits;
+    }
+
+    if (kind === 'feature') {
+        // Features are paid in credits, never bought directly
+        data.priceInr = null;
+        data.dodoProductId = null;
+    } else {
+        if (body.priceInr !== undefined || !existingKind) {
+            const priceInr = Number(body.priceInr);
+            if (!Number.isInteger(priceInr) || priceInr < 0) {
+                return { error: 'Price must be a whole number of rupees' };
+            }
+            data.priceInr = priceInr;
+        }
+        if (body.dodoProductId !== undefined || !existingKind) {
+            const productId = String(body.dodoProductId ?? '').trim();
+            if (!productId) return { error: 'DodoPayments product ID is required for plans and credit packs' };
+            data.dodoProductId = productId;
+        }
+    }
+
+    if (body.details !== undefined) {
+        const perks = Array.isArray(body.details?.perks)
+            ? body.details.perks.map((p: unknown) => String(p).trim()).filter(Boolean)
+            : [];
+        const badge = typeof body.details?.badge === 'string' ? body.details.badge.trim() : '';
+        data.details = { ...(perks.length && { perks }), ...(badge && { badge }) };
+    }
+
+    if (body.isActive !== undefined) data.isActive = !!body.isActive;
+    if (body.sortOrder !== undefined) data.sortOrder = parseInt(body.sortOrder) || 0;
+
+    return { data };
+}
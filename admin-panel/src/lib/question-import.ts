@@ -0,0 +1,212 @@
+// Bulk import of whole question papers from CSV or JSON.
+// Parsing is pure so the admin can preview a file before anything is written.
+
+import {
+    QUESTION_SUBJECTS,
+    QUESTION_DIFFICULTIES,
+    QUESTION_SOURCES,
+    MIN_PYQ_YEAR,
+    QuestionDifficulty,
+    QuestionSource,
+} from './question-taxonomy';
+
+export type ImportFormat = 'csv' | 'json';
+
+export type ImportedQuestion = {
+    row: number;
+    question: string;
+    optionA: string;
+    optionB: string;
+    optionC: string;
+    optionD: string;
+    correctAnswer: string;
+    explanation: string;
+    subject: string | null;
+    topic: string | null; // Roadmap topic slug (topic_id) or name, resolved by the caller
+    year: number | null;
+    difficulty: QuestionDifficulty | null;
+    source: QuestionSource | null;
+};
+
+export type ImportDefaults = Partial<Pick<ImportedQuestion, 'subject' | 'year' | 'difficulty' | 'source'>>;
+
+export type ImportError = { row: number; error: string };
+
+export const IMPORT_COLUMNS = [
+    'question', 'optionA', 'optionB', 'optionC', 'optionD', 'correctAnswer',
+    'explanation', 'subject', 'topic', 'year', 'difficulty', 'source',
+] as const;
+
+type ImportColumn = typeof IMPORT_COLUMNS[number];
+
+// "Option A", "option_a" and "optionA" all map to optionA
+const COLUMN_LOOKUP = new Map<string, ImportColumn>([
+    ...IMPORT_COLUMNS.map(column => [column.toLowerCase(), column] as [string, ImportColumn]),
+    ['answer', 'correctAnswer'],
+    ['correct', 'correctAnswer'],
+]);
+
+const normalizeHeader = (header: string) => COLUMN_LOOKUP.get(header.toLowerCase().replace(/[^a-z]/g, ''));
+
+// RFC 4180 CSV: quoted fields may contain commas, newlines and "" escapes
+export function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    const input = text.replace(/^\uFEFF/, '');
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+
+        if (inQuotes) {
+            if (char === '"' && input[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+
+    if (field || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    return rows.filter(r => r.some(cell => cell.trim() !== ''));
+}
+
+function csvToRecords(text: string): Record<string, unknown>[] {
+    const [headerRow, ...dataRows] = parseCsv(text);
+    if (!headerRow) return [];
+
+    const columns = headerRow.map(normalizeHeader);
+    return dataRows.map(cells => {
+        const record: Record<string, unknown> = {};
+        columns.forEach((column, index) => {
+            if (column) record[column] = cells[index];
+        });
+        return record;
+    });
+}
+
+function jsonToRecords(text: string): Record<string, unknown>[] {
+    const parsed = JSON.parse(text);
+    const list = Array.isArray(parsed) ? parsed : parsed?.questions;
+    if (!Array.isArray(list)) {
+        throw new Error('JSON must be an array of questions or { "questions": [...] }');
+    }
+
+    return list.map((item: Record<string, unknown>) => {
+        const record: Record<string, unknown> = {};
+        Object.entries(item || {}).forEach(([key, value]) => {
+            const column = normalizeHeader(key);
+            if (column) record[column] = value;
+        });
+        return record;
+    });
+}
+
+const toText = (value: unknown) => (value === undefined || value === null ? '' : String(value).trim());
+
+function validateRecord(record: Record<string, unknown>, row: number, defaults: ImportDefaults): ImportedQuestion | string {
+    const required = ['question', 'optionA', 'optionB', 'optionC', 'optionD', 'correctAnswer', 'explanation'] as const;
+    const missing = required.filter(column => !toText(record[column]));
+    if (missing.length > 0) {
+        return `Missing ${missing.join(', ')}`;
+    }
+
+    const correctAnswer = toText(record.correctAnswer).toUpperCase();
+    if (!['A', 'B', 'C', 'D'].includes(correctAnswer)) {
+        return `correctAnswer must be A, B, C or D (got "${toText(record.correctAnswer)}")`;
+    }
+
+    let subject: string | null = defaults.subject ?? null;
+    if (toText(record.subject)) {
+        const match = QUESTION_SUBJECTS.find(s => s.toLowerCase() === toText(record.subject).toLowerCase());
+        if (!match) return `Unknown subject "${toText(record.subject)}"`;
+        subject = match;
+    }
+
+    let year: number | null = defaults.year ?? null;
+    if (toText(record.year)) {
+        year = parseInt(toText(record.year));
+        if (isNaN(year) || year < MIN_PYQ_YEAR || year > new Date().getFullYear()) {
+            return `Invalid year "${toText(record.year)}"`;
+        }
+    }
+
+    let difficulty: QuestionDifficulty | null = defaults.difficulty ?? null;
+    if (toText(record.difficulty)) {
+        const value = toText(record.difficulty).toLowerCase() as QuestionDifficulty;
+        if (!QUESTION_DIFFICULTIES.includes(value)) return `difficulty must be one of ${QUESTION_DIFFICULTIES.join(', ')}`;
+        difficulty = value;
+    }
+
+    let source: QuestionSource | null = defaults.source ?? null;
+    if (toText(record.source)) {
+        const value = toText(record.source).toLowerCase() as QuestionSource;
+        if (!(value in QUESTION_SOURCES)) return `source must be one of ${Object.keys(QUESTION_SOURCES).join(', ')}`;
+        source = value;
+    }
+
+    return {
+        row,
+        question: toText(record.question),
+        optionA: toText(record.optionA),
+        optionB: toText(record.optionB),
+        optionC: toText(record.optionC),
+        optionD: toText(record.optionD),
+        correctAnswer,
+        explanation: toText(record.explanation),
+        subject,
+        topic: toText(record.topic) || null,
+        year,
+        difficulty,
+        source,
+    };
+}
+
+// Parse and validate a whole paper. Row numbers are 1-based data rows (excluding the CSV header).
+export function parseQuestionImport(content: string, format: ImportFormat, defaults: ImportDefaults = {}) {
+    const questions: ImportedQuestion[] = [];
+    const errors: ImportError[] = [];
+
+    let records: Record<string, unknown>[];
+    try {
+        records = format === 'json' ? jsonToRecords(content) : csvToRecords(content);
+    } catch (error) {
+        return { questions, errors: [{ row: 0, error: error instanceof Error ? error.message : 'Could not parse file' }] };
+    }
+
+    records.forEach((record, index) => {
+        const result = validateRecord(record, index + 1, defaults);
+        if (typeof result === 'string') {
+            errors.push({ row: index + 1, error: result });
+        } else {
+            questions.push(result);
+        }
+    });
+
+    if (records.length === 0) {
+        errors.push({ row: 0, error: 'No questions found' });
+    }
+
+    return { questions, errors };
+}
@@ -0,0 +1,33 @@
+// Taxonomy for practice questions and previous-year questions (PYQs).
+// Plain constants only, so admin client components can import them too.
+
+export const QUESTION_SUBJECTS = [
+    'Polity',
+    'Economy',
+    'Geography',
+    'History',
+    'Art & Culture',
+    'Science & Technology',
+    'Environment',
+    'International Relations',
+    'Social Issues',
+    'Current Affairs',
+];
+
+export const QUESTION_DIFFICULTIES = ['easy', 'medium', 'hard'] as const;
+export type QuestionDifficulty = typeof QUESTION_DIFFICULTIES[number];
+
+export const QUESTION_SOURCES = {
+    upsc_cse: 'UPSC CSE Prelims',
+    upsc_capf: 'UPSC CAPF',
+    upsc_cds: 'UPSC CDS',
+    state_psc: 'State PSC',
+    practice: 'Practice',
+} as const;
+export type QuestionSource = keyof typeof QUESTION_SOURCES;
+
+// Sources that count as previous-year questions
+export const PYQ_SOURCES: QuestionSource[] = ['upsc_cse', 'upsc_capf', 'upsc_cds', 'state_psc'];
+
+// First year of the current UPSC CSE pattern
+export const MIN_PYQ_YEAR = 1979;
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { INITIAL_REVIEW_STATE, gradeAttempt, scheduleReview } from './spaced-repetition';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date('2026-01-10T08:00:00Z');
+
+describe('gradeAttempt', () => {
+    it('fails wrong answers and rates quick correct answers as easy', () => {
+        expect(gradeAttempt(false, 5000)).toBe(1);
+        expect(gradeAttempt(true, 5000)).toBe(5);
+        expect(gradeAttempt(true, 40000)).toBe(4);
+        expect(gradeAttempt(true)).toBe(4);
+    });
+});
+
+describe('scheduleReview', () => {
+    it('reviews after one day, then six, then by the ease factor', () => {
+        const first = scheduleReview(INITIAL_REVIEW_STATE, 4, now);
+        expect(first).toMatchObject({ repetitions: 1, intervalDays: 1, easeFactor: 2.5 });
+
+        const second = scheduleReview(first, 4, now);
+        expect(second).toMatchObject({ repetitions: 2, intervalDays: 6 });
+
+        const third = scheduleReview(second, 4, now);
+        expect(third).toMatchObject({ repetitions: 3, intervalDays: 15 });
+    });
+
+    it('raises the ease factor for easy answers and lowers it for hard ones', () => {
+        expect(scheduleReview(INITIAL_REVIEW_STATE, 5, now).easeFactor).toBe(2.6);
+        expect(scheduleReview(INITIAL_REVIEW_STATE, 3, now).easeFactor).toBe(2.36);
+    });
+
+    it('never lets the ease factor drop below 1.3', () => {
+        let state = { ...INITIAL_REVIEW_STATE, easeFactor: 1.4 };
+        for (let i = 0; i < 5; i++) state = scheduleReview(state, 1, now);
+        expect(state.easeFactor).toBe(1.3);
+    });
+
+    it('starts over after a wrong answer and counts the lapse', () => {
+        const learned = { easeFactor: 2.5, intervalDays: 15, repetitions: 3, lapses: 0 };
+        const next = scheduleReview(learned, gradeAttempt(false), now);
+
+        expect(next).toMatchObject({ repetitions: 0, intervalDays: 1, lapses: 1 });
+        expect(scheduleReview(next, 4, now)).toMatchObject({ repetitions: 1, intervalDays: 1 });
+    });
+
+    it('is due the interval after the review', () => {
+        const next = scheduleReview({ easeFactor: 2.5, intervalDays: 6, repetitions: 2, lapses: 0 }, 4, now);
+        expect(next.dueAt.getTime() - now.getTime()).toBe(15 * DAY_MS);
+    });
+
+    it('clamps grades to 0-5', () => {
+        expect(scheduleReview(INITIAL_REVIEW_STATE, 9, now)).toEqual(scheduleReview(INITIAL_REVIEW_STATE, 5, now));
+        expect(scheduleReview(INITIAL_REVIEW_STATE, -2, now)).toEqual(scheduleReview(INITIAL_REVIEW_STATE, 0, now));
+    });
+});
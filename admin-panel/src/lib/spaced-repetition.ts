@@ -0,0 +1,64 @@
+// SM-2 style scheduler used by the MCQ review queue.
+// Pure functions only - persistence lives in the /api/mobile/review routes.
+
+export interface ReviewState {
+    easeFactor: number;
+    intervalDays: number;
+    repetitions: number;
+    lapses: number;
+}
+
+export interface ScheduleResult extends ReviewState {
+    dueAt: Date;
+}
+
+const MIN_EASE_FACTOR = 1.3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const INITIAL_REVIEW_STATE: ReviewState = {
+    easeFactor: 2.5,
+    intervalDays: 0,
+    repetitions: 0,
+    lapses: 0,
+};
+
+// Map an MCQ attempt to an SM-2 quality grade (0-5).
+// Wrong answers always fail; quick correct answers count as "easy".
+export function gradeAttempt(isCorrect: boolean, timeTakenMs?: number | null): number {
+    if (!isCorrect) return 1;
+    if (timeTakenMs && timeTakenMs < 15000) return 5;
+    return 4;
+}
+
+export function scheduleReview(state: ReviewState, grade: number, now: Date = new Date()): ScheduleResult {
+    const quality = Math.max(0, Math.min(5, Math.round(grade)));
+
+    let { easeFactor, intervalDays, repetitions, lapses } = state;
+
+    if (quality < 3) {
+        // Failed recall - back into tomorrow's queue
+        repetitions = 0;
+        intervalDays = 1;
+        lapses += 1;
+    } else {
+        repetitions += 1;
+        if (repetitions === 1) {
+            intervalDays = 1;
+        } else if (repetitions === 2) {
+            intervalDays = 6;
+        } else {
+            intervalDays = Math.round(intervalDays * easeFactor);
+        }
+    }
+
+    easeFactor = easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+    easeFactor = Math.max(MIN_EASE_FACTOR, Math.round(easeFactor * 100) / 100);
+
+    return {
+        easeFactor,
+        intervalDays,
+        repetitions,
+        lapses,
+        dueAt: new Date(now.getTime() + intervalDays * DAY_MS),
+    };
+}
@@ -0,0 +1,522 @@
+import { db } from './db';
+import {
+    roadmapTopics,
+    roadmapSubtopics,
+    userTopicProgress,
+    studyPlans,
+    StudyPlanDay,
+    StudyPlanTask,
+    TopicRevisionLog,
+} from './db/schema';
+import { and, asc, eq } from 'drizzle-orm';
+
+export type StudyPlan = typeof studyPlans.$inferSelect;
+
+// Days between finishing a topic and each revision: the 1-1-7-15 rule the app's roadmap uses
+export const REVISION_INTERVALS = [1, 1, 7, 15];
+const REVISION_STATUSES = ['first_read', 'first_revision', 'second_revision', 'final_revision'];
+
+// While syllabus is left, due revisions get at most this share of a day; the rest carry over
+const MAX_REVISION_SHARE = 0.4;
+
+// Days before the exam kept for revising everything, if the syllabus fits before them
+const FINAL_REVISION_DAYS = 30;
+const FINAL_REVISION_SHARE = 0.15;
+
+export const MIN_DAILY_HOURS = 1;
+export const MAX_DAILY_HOURS = 16;
+
+// Tasks are planned in half-hour slots
+const SLOT = 0.5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const PRIORITY_RANK: Record<string, number> = { High: 0, Medium: 1, Low: 2 };
+// Harder topics first, so they get more time for revision before the exam
+const DIFFICULTY_RANK: Record<string, number> = { Advanced: 0, Moderate: 1, Basic: 2 };
+
+export type PlannerUnit = { subtopicId: string; name: string; estimatedHours: number };
+
+export type PlannerTopic = {
+    id: number;
+    topicId: string;
+    name: string;
+    paper: string;
+    estimatedHours: number;
+    difficulty: string;
+    priority: string;
+    units: PlannerUnit[]; // Subtopics in order, or the topic itself when it has none
+};
+
+export type PlannerProgress = {
+    status: string;
+    completedSubtopics: string[];
+    hoursStudied: number;
+};
+
+type WorkItem = {
+    topic: PlannerTopic;
+    unit: PlannerUnit;
+    remaining: number;
+    part: number;
+    lastOfTopic: boolean;
+};
+
+type DueRevision = { topic: PlannerTopic; number: number; due: string };
+
+// ---------- Dates (YYYY-MM-DD, Indian calendar day like bulletins) ----------
+
+export const todayPlanDate = () => new Date(Date.now() + 5.5 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+export const isPlanDate = (value: unknown): value is string =>
+    typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(`${value}T00:00:00Z`));
+
+export const addDays = (date: string, days: number) =>
+    new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+
+export const daysBetween = (from: string, to: string) =>
+    Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+
+// ---------- Planner ----------
+
+const roundSlot = (hours: number) => Math.max(SLOT, Math.round(hours / SLOT) * SLOT);
+const floorSlot = (hours: number) => Math.floor(hours / SLOT) * SLOT;
+const sum = (values: number[]) => values.reduce((total, v) => total + v, 0);
+
+const revisionHours = (topic: PlannerTopic) => Math.min(2, roundSlot(topic.estimatedHours * 0.1));
+const finalRevisionHours = (topic: PlannerTopic) => Math.min(4, Math.max(1, roundSlot(topic.estimatedHours * 0.2)));
+
+export function isTopicFinished(topic: PlannerTopic, progress?: PlannerProgress): boolean {
+    if (progress?.status === 'completed') return true;
+    const done = new Set(progress?.completedSubtopics || []);
+    return topic.units.every(unit => done.has(unit.subtopicId));
+}
+
+function compareTopics(progress: Map<number, PlannerProgress>) {
+    const started = (topic: PlannerTopic) => ((progress.get(topic.id)?.completedSubtopics.length || 0) > 0 ? 0 : 1);
+    return (a: PlannerTopic, b: PlannerTopic) =>
+        started(a) - started(b)
+        || (PRIORITY_RANK[a.priority] ?? 1) - (PRIORITY_RANK[b.priority] ?? 1)
+        || (DIFFICULTY_RANK[a.difficulty] ?? 1) - (DIFFICULTY_RANK[b.difficulty] ?? 1)
+        || a.paper.localeCompare(b.paper)
+        || a.name.localeCompare(b.name);
+}
+
+/**
+ * Unfinished subtopics in study order: topics already started, then by
+ * priority and difficulty. Hours logged on a topic beyond what its finished
+ * subtopics account for shorten its open subtopics.
+ */
+export function studyQueue(topics: PlannerTopic[], progress: Map<number, PlannerProgress>): WorkItem[] {
+    const items: WorkItem[] = [];
+
+    for (const topic of [...topics].sort(compareTopics(progress))) {
+        const topicProgress = progress.get(topic.id);
+        if (isTopicFinished(topic, topicProgress)) continue;
+
+        const done = new Set(topicProgress?.completedSubtopics || []);
+        const open = topic.units.filter(unit => !done.has(unit.subtopicId));
+        let credit = Math.max(
+            0,
+            (topicProgress?.hoursStudied || 0) - sum(topic.units.filter(u => done.has(u.subtopicId)).map(u => u.estimatedHours))
+        );
+
+        open.forEach((unit, index) => {
+            const used = Math.max(0, Math.min(credit, unit.estimatedHours - SLOT));
+            credit -= used;
+            items.push({
+                topic,
+                unit,
+                remaining: roundSlot(unit.estimatedHours - used),
+                part: 1,
+                lastOfTopic: index === open.length - 1,
+            });
+        });
+    }
+
+    return items;
+}
+
+function revisionsAfter(topic: PlannerTopic, completedOn: string, done: number): DueRevision[] {
+    const revisions: DueRevision[] = [];
+    let due = completedOn;
+    REVISION_INTERVALS.forEach((gap, index) => {
+        due = addDays(due, gap);
+        if (index >= done) revisions.push({ topic, number: index + 1, due });
+    });
+    return revisions;
+}
+
+export type ScheduleInput = {
+    topics: PlannerTopic[];
+    progress: Map<number, PlannerProgress>;
+    revisionLog: Record<string, TopicRevisionLog>;
+    startDate: string;
+    examDate: string;
+    dailyHours: number;
+};
+
+/**
+ * Lay out every remaining subtopic and revision cycle from startDate up to the
+ * day before the exam. Each day takes its due revisions first (capped while
+ * syllabus is left), then the next subtopics in the queue, splitting one that
+ * does not fit into parts. Finishing a topic schedules its revisions. Once the
+ * syllabus is done, or in the final window before the exam, spare hours go to
+ * a round-robin revision of every finished topic.
+ */
+export function buildSchedule({ topics, progress, revisionLog, startDate, examDate, dailyHours }: ScheduleInput): StudyPlanDay[] {
+    const totalDays = daysBetween(startDate, examDate);
+    if (totalDays <= 0) return [];
+
+    const queue = studyQueue(topics, progress);
+    const finished = [...topics].sort(compareTopics(progress)).filter(t => isTopicFinished(t, progress.get(t.id)));
+    const dueRevisions = finished.flatMap(topic => {
+        const log = revisionLog[topic.topicId];
+        return revisionsAfter(topic, log?.completedOn || addDays(startDate, -1), log?.revisions.length || 0);
+    });
+
+    // Study through the final window rather than leave syllabus unplanned
+    let finalDays = Math.min(FINAL_REVISION_DAYS, Math.floor(totalDays * FINAL_REVISION_SHARE));
+    if (sum(queue.map(item => item.remaining)) > (totalDays - finalDays) * dailyHours * (1 - MAX_REVISION_SHARE / 2)) {
+        finalDays = 0;
+    }
+
+    const days: StudyPlanDay[] = [];
+    let finalCursor = 0;
+
+    for (let d = 0; d < totalDays; d++) {
+        const date = addDays(startDate, d);
+        const tasks: StudyPlanTask[] = [];
+        const inFinalWindow = d >= totalDays - finalDays;
+        let free = dailyHours;
+
+        // Due revisions, oldest first
+        dueRevisions.sort((a, b) => a.due.localeCompare(b.due));
+        const revisionBudget = inFinalWindow || queue.length === 0 ? dailyHours : dailyHours * MAX_REVISION_SHARE;
+        let revisionUsed = 0;
+        while (dueRevisions.length && dueRevisions[0].due <= date) {
+            const { topic, number } = dueRevisions[0];
+            const hours = revisionHours(topic);
+            if (revisionUsed + hours > revisionBudget || hours > free) break;
+
+            tasks.push({ id: `revision:${topic.topicId}:${number}`, type: 'revision', topicId: topic.topicId, topicName: topic.name, hours, revision: number });
+            dueRevisions.shift();
+            revisionUsed += hours;
+            free -= hours;
+        }
+
+        // New syllabus
+        while (!inFinalWindow && queue.length && free >= SLOT) {
+            const item = queue[0];
+            const hours = Math.min(item.remaining, floorSlot(free));
+
+            tasks.push({
+                id: `study:${item.unit.subtopicId}:${item.part}`,
+                type: 'study',
+                topicId: item.topic.topicId,
+                topicName: item.topic.name,
+                subtopicId: item.unit.subtopicId,
+                subtopicName: item.unit.name,
+                hours,
+                part: item.part,
+            });
+            item.remaining -= hours;
+            free -= hours;
+
+            if (item.remaining > 0) {
+                item.part += 1;
+                continue;
+            }
+            queue.shift();
+            if (item.lastOfTopic) {
+                finished.push(item.topic);
+                dueRevisions.push(...revisionsAfter(item.topic, date, 0));
+            }
+        }
+
+        // Spare time goes to revising finished topics, each at most once a day
+        if (inFinalWindow || queue.length === 0) {
+            const today = new Set(tasks.map(task => task.topicId));
+            while (finished.length && free >= 1) {
+                const topic = finished[finalCursor % finished.length];
+                if (today.has(topic.topicId)) break;
+
+                const cycle = Math.floor(finalCursor / finished.length) + 1;
+                const hours = Math.min(finalRevisionHours(topic), floorSlot(free));
+                tasks.push({ id: `final:${topic.topicId}:${cycle}`, type: 'revision', topicId: topic.topicId, topicName: topic.name, hours, revision: 'final' });
+                today.add(topic.topicId);
+                finalCursor++;
+                free -= hours;
+            }
+        }
+
+        days.push({ date, tasks });
+    }
+
+    // Label split subtopics "part 1 of 3"; single-part ones carry no part
+    const parts = new Map<string, number>();
+    days.forEach(day => day.tasks.forEach(task => {
+        if (task.subtopicId && task.part) parts.set(task.subtopicId, Math.max(parts.get(task.subtopicId) || 0, task.part));
+    }));
+    days.forEach(day => day.tasks.forEach(task => {
+        if (!task.subtopicId) return;
+        const total = parts.get(task.subtopicId) || 1;
+        if (total > 1) task.parts = total;
+        else delete task.part;
+    }));
+
+    return days;
+}
+
+// ---------- Loading ----------
+
+/**
+ * Roadmap topics with their subtopics. Recurring topics (current affairs) are
+ * not planned, and optional-subject topics only once the user has started one.
+ */
+export async function loadPlannerTopics(progress: Map<number, PlannerProgress>): Promise<PlannerTopic[]> {
+    const topics = await db.select().from(roadmapTopics);
+    const subtopics = await db.select().from(roadmapSubtopics).orderBy(asc(roadmapSubtopics.order));
+
+    return topics
+        .filter(topic => !topic.isRecurring && (!topic.optional || progress.has(topic.id)))
+        .map(topic => {
+            const units = subtopics
+                .filter(sub => sub.topicId === topic.id)
+                .map(sub => ({ subtopicId: sub.subtopicId, name: sub.name, estimatedHours: sub.estimatedHours }));
+
+            return {
+                id: topic.id,
+                topicId: topic.topicId,
+                name: topic.name,
+                paper: topic.paper,
+                estimatedHours: topic.estimatedHours,
+                difficulty: topic.difficulty,
+                priority: topic.priority,
+                units: units.length
+                    ? units
+                    : [{ subtopicId: topic.topicId, name: topic.name, estimatedHours: topic.estimatedHours }],
+            };
+        });
+}
+
+export async function loadProgress(userId: number): Promise<Map<number, PlannerProgress>> {
+    const rows = await db.select().from(userTopicProgress).where(eq(userTopicProgress.userId, userId));
+    return new Map(rows.map(row => [row.topicId, {
+        status: row.status,
+        completedSubtopics: row.completedSubtopics || [],
+        hoursStudied: row.hoursStudied || 0,
+    }]));
+}
+
+// ---------- Plans ----------
+
+export async function getStudyPlan(userId: number): Promise<StudyPlan | undefined> {
+    const [plan] = await db.select().from(studyPlans).where(eq(studyPlans.userId, userId)).limit(1);
+    return plan;
+}
+
+// First day of the plan's current schedule; earlier days are history
+export const scheduleStart = (plan: Pick<StudyPlan, 'generatedAt'>) =>
+    new Date(plan.generatedAt.getTime() + 5.5 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+function isTaskDone(plan: StudyPlan, date: string, task: StudyPlanTask, doneSubtopics: Set<string>) {
+    return (plan.completedTasks[date] || []).includes(task.id)
+        || (task.type === 'study' && !!task.subtopicId && doneSubtopics.has(task.subtopicId));
+}
+
+const doneSubtopicsOf = (progress: Map<number, PlannerProgress>) =>
+    new Set(Array.from(progress.values()).flatMap(p => p.completedSubtopics));
+
+/**
+ * Behind when a day of the current schedule has passed with work left undone;
+ * subtopics finished some other way (e.g. from the roadmap) count as done.
+ */
+export function isBehind(plan: StudyPlan, progress: Map<number, PlannerProgress>, today: string): boolean {
+    const from = scheduleStart(plan);
+    const doneSubtopics = doneSubtopicsOf(progress);
+    return plan.days.some(day =>
+        day.date >= from && day.date < today && day.tasks.some(task => !isTaskDone(plan, day.date, task, doneSubtopics))
+    );
+}
+
+/**
+ * Create the user's plan, or rebuild it from today with their current progress.
+ * Days before today are kept as history.
+ */
+export async function savePlan(
+    userId: number,
+    settings: { examDate: string; dailyHours: number },
+    existing?: StudyPlan,
+    replan = false
+): Promise<StudyPlan> {
+    const today = todayPlanDate();
+    const progress = await loadProgress(userId);
+    const topics = await loadPlannerTopics(progress);
+
+    const upcoming = buildSchedule({
+        topics,
+        progress,
+        revisionLog: existing?.revisionLog || {},
+        startDate: today,
+        examDate: settings.examDate,
+        dailyHours: settings.dailyHours,
+    });
+    const history = (existing?.days || []).filter(day => day.date < today);
+    const values = {
+        examDate: settings.examDate,
+        dailyHours: settings.dailyHours,
+        days: [...history, ...upcoming],
+        generatedAt: new Date(),
+        updatedAt: new Date(),
+    };
+
+    if (!existing) {
+        const [plan] = await db.insert(studyPlans).values({ userId, ...values }).returning();
+        return plan;
+    }
+
+    const [plan] = await db
+        .update(studyPlans)
+        .set({ ...values, replanCount: existing.replanCount + (replan ? 1 : 0) })
+        .where(eq(studyPlans.id, existing.id))
+        .returning();
+    return plan;
+}
+
+// ---------- Task completion ----------
+
+async function upsertTopicProgress(userId: number, topicId: number, update: Partial<typeof userTopicProgress.$inferInsert>) {
+    const [row] = await db
+        .select({ id: userTopicProgress.id })
+        .from(userTopicProgress)
+        .where(and(eq(userTopicProgress.userId, userId), eq(userTopicProgress.topicId, topicId)))
+        .limit(1);
+
+    const values = { ...update, lastStudied: new Date(), updatedAt: new Date() };
+
+    if (row) {
+        await db.update(userTopicProgress).set(values).where(eq(userTopicProgress.id, row.id));
+    } else {
+        await db.insert(userTopicProgress).values({ userId, topicId, ...values });
+    }
+}
+
+/**
+ * Tick a task off (or back on) and carry it into roadmap progress: a subtopic
+ * is complete once all of its parts are, a topic once all of its subtopics are,
+ * and revisions advance the topic's revision status.
+ */
+export async function setTaskCompleted(plan: StudyPlan, date: string, task: StudyPlanTask, completed: boolean): Promise<StudyPlan> {
+    // Repeated taps and retried requests must not log (or drop) a revision twice
+    const wasCompleted = (plan.completedTasks[date] || []).includes(task.id);
+    if (wasCompleted === completed) return plan;
+
+    const completedTasks = { ...plan.completedTasks };
+    const dayDone = new Set(completedTasks[date] || []);
+    if (completed) dayDone.add(task.id);
+    else dayDone.delete(task.id);
+    completedTasks[date] = Array.from(dayDone);
+
+    const isDone = (d: string, id: string) => (completedTasks[d] || []).includes(id);
+    const revisionLog = { ...plan.revisionLog };
+
+    const progress = await loadProgress(plan.userId);
+    const [topic] = (await loadPlannerTopics(progress)).filter(t => t.topicId === task.topicId);
+
+    const partsDone = plan.days.every(day =>
+        day.tasks.every(t => t.type !== 'study' || t.subtopicId !== task.subtopicId || isDone(day.date, t.id))
+    );
+
+    if (topic && task.type === 'study' && task.subtopicId && (partsDone || !completed)) {
+        const done = new Set(progress.get(topic.id)?.completedSubtopics || []);
+        if (completed) done.add(task.subtopicId);
+        else done.delete(task.subtopicId);
+
+        const topicCompleted = topic.units.every(unit => done.has(unit.subtopicId));
+        const firstCompletion = topicCompleted && !revisionLog[topic.topicId];
+
+        await upsertTopicProgress(plan.userId, topic.id, {
+            completedSubtopics: Array.from(done),
+            status: topicCompleted ? 'completed' : done.size ? 'in_progress' : 'pending',
+            ...(firstCompletion ? { revisionStatus: REVISION_STATUSES[0] } : {}),
+        });
+
+        if (firstCompletion) {
+            revisionLog[topic.topicId] = { completedOn: date, revisions: [] };
+        } else if (!topicCompleted && revisionLog[topic.topicId]?.revisions.length === 0) {
+            delete revisionLog[topic.topicId];
+        }
+    }
+
+    if (topic && task.type === 'revision') {
+        const log = revisionLog[topic.topicId] || { completedOn: date, revisions: [] };
+        const revisions = completed ? [...log.revisions, date] : log.revisions.slice(0, -1);
+        revisionLog[topic.topicId] = { ...log, revisions };
+
+        await upsertTopicProgress(plan.userId, topic.id, {
+            revisionStatus: REVISION_STATUSES[Math.min(revisions.length, REVISION_STATUSES.length - 1)],
+        });
+    }
+
+    const [updated] = await db
+        .update(studyPlans)
+        .set({ completedTasks, revisionLog, updatedAt: new Date() })
+        .where(eq(studyPlans.id, plan.id))
+        .returning();
+    return updated;
+}
+
+// ---------- Responses ----------
+
+/**
+ * The plan for the app: settings, the requested days with completion, a week
+ * by week outline up to the exam and whether the remaining syllabus fits.
+ */
+export function serializePlan(plan: StudyPlan, progress: Map<number, PlannerProgress>, topics: PlannerTopic[], from: string, dayCount: number) {
+    const today = todayPlanDate();
+    const doneSubtopics = doneSubtopicsOf(progress);
+    const withStatus = (day: StudyPlanDay) => ({
+        date: day.date,
+        hours: sum(day.tasks.map(task => task.hours)),
+        tasks: day.tasks.map(task => ({ ...task, completed: isTaskDone(plan, day.date, task, doneSubtopics) })),
+    });
+
+    const upcoming = plan.days.filter(day => day.date >= today);
+    const weeks: { weekStart: string; studyHours: number; revisionHours: number; topics: string[] }[] = [];
+    upcoming.forEach((day, index) => {
+        if (index % 7 === 0) weeks.push({ weekStart: day.date, studyHours: 0, revisionHours: 0, topics: [] });
+        const week = weeks[weeks.length - 1];
+        day.tasks.forEach(task => {
+            if (task.type === 'study') {
+                week.studyHours += task.hours;
+                if (!week.topics.includes(task.topicName)) week.topics.push(task.topicName);
+            } else {
+                week.revisionHours += task.hours;
+            }
+        });
+    });
+
+    const remainingHours = sum(studyQueue(topics, progress).map(item => item.remaining));
+    const scheduledHours = sum(upcoming.flatMap(day =>
+        day.tasks.filter(task => task.type === 'study' && !isTaskDone(plan, day.date, task, doneSubtopics)).map(task => task.hours)
+    ));
+    const daysLeft = Math.max(0, daysBetween(today, plan.examDate));
+    const unscheduledHours = Math.max(0, remainingHours - scheduledHours);
+
+    return {
+        examDate: plan.examDate,
+        dailyHours: plan.dailyHours,
+        daysLeft,
+        replanCount: plan.replanCount,
+        generatedAt: plan.generatedAt,
+        days: plan.days.filter(day => day.date >= from && day.date < addDays(from, dayCount)).map(withStatus),
+        weeks,
+        stats: {
+            remainingHours,
+            scheduledHours,
+            unscheduledHours,
+            requiredDailyHours: daysLeft ? roundSlot(remainingHours / daysLeft) : null,
+            onTrack: unscheduledHours === 0,
+        },
+    };
+}
@@ -0,0 +1,277 @@
+import { db } from './db';
+import {
+    roadmapTopics,
+    roadmapSubtopics,
+    userTopicProgress,
+    studySessions,
+    StudySessionSource,
+} from './db/schema';
+import { and, desc, eq, gte, sql } from 'drizzle-orm';
+import { addDays, todayPlanDate } from './study-plan';
+
+export const STUDY_SESSION_SOURCES: StudySessionSource[] = ['timer', 'pomodoro', 'article', 'note', 'mcq'];
+
+// Shorter sessions are noise (an article opened by mistake); longer ones are a timer left running
+export const MIN_SESSION_SECONDS = 60;
+export const MAX_SESSION_SECONDS = 6 * 60 * 60;
+
+export const MAX_SESSIONS_PER_SYNC = 100;
+
+const IST_OFFSET_MS = 5.5 * 60 * 60 * 1000;
+
+export type StudySessionInput = {
+    clientId: string;
+    source: StudySessionSource;
+    sourceId: string | null;
+    title: string | null;
+    topicId: string | null; // roadmap_topics.topic_id, when the user picked a topic
+    topicHints: string[]; // Article subject/tags, note tags, question tags
+    startedAt: Date;
+    durationSeconds: number;
+};
+
+type TopicIndex = {
+    topics: { id: number; topicId: string; name: string }[];
+    subtopics: { topicId: number; name: string }[];
+};
+
+const normalize = (value: string) =>
+    value.toLowerCase().replace(/&/g, ' and ').replace(/[^a-z0-9]+/g, ' ').trim();
+
+const studyDateOf = (startedAt: Date) => new Date(startedAt.getTime() + IST_OFFSET_MS).toISOString().slice(0, 10);
+
+/**
+ * Validate one session from the app; null when it is malformed or too short to count.
+ * Durations are capped rather than rejected so a forgotten timer still logs something.
+ */
+export function parseSession(raw: any): StudySessionInput | null {
+    if (!raw || typeof raw.clientId !== 'string' || !raw.clientId || raw.clientId.length > 64) return null;
+    if (!STUDY_SESSION_SOURCES.includes(raw.source)) return null;
+
+    const startedAt = new Date(raw.startedAt);
+    const durationSeconds = Math.round(Number(raw.durationSeconds));
+    if (Number.isNaN(startedAt.getTime()) || startedAt.getTime() > Date.now() + 60 * 1000) return null;
+    if (!Number.isFinite(durationSeconds) || durationSeconds < MIN_SESSION_SECONDS) return null;
+
+    return {
+        clientId: raw.clientId,
+        source: raw.source,
+        sourceId: raw.sourceId != null ? String(raw.sourceId).slice(0, 100) : null,
+        title: typeof raw.title === 'string' ? raw.title.slice(0, 500) : null,
+        topicId: typeof raw.topicId === 'string' && raw.topicId ? raw.topicId : null,
+        topicHints: Array.isArray(raw.topicHints)
+            ? raw.topicHints.filter((hint: unknown): hint is string => typeof hint === 'string' && !!hint.trim()).slice(0, 20)
+            : [],
+        startedAt,
+        durationSeconds: Math.min(durationSeconds, MAX_SESSION_SECONDS),
+    };
+}
+
+async function loadTopicIndex(): Promise<TopicIndex> {
+    const topics = await db
+        .select({ id: roadmapTopics.id, topicId: roadmapTopics.topicId, name: roadmapTopics.name })
+        .from(roadmapTopics);
+    const subtopics = await db
+        .select({ topicId: roadmapSubtopics.topicId, name: roadmapSubtopics.name })
+        .from(roadmapSubtopics);
+    return { topics, subtopics };
+}
+
+/**
+ * The roadmap topic a session belongs to. An explicit topic wins; otherwise each
+ * hint votes: naming a topic outright counts most, then naming one of its
+ * subtopics, then a partial match on the topic name ("Polity" in "Indian Polity").
+ */
+export function matchTopic(index: TopicIndex, topicId: string | null, hints: string[]): number | null {
+    if (topicId) {
+        const topic = index.topics.find(t => t.topicId === topicId);
+        if (topic) return topic.id;
+    }
+
+    const scores = new Map<number, number>();
+    const vote = (id: number, points: number) => scores.set(id, (scores.get(id) || 0) + points);
+
+    for (const hint of hints.map(normalize).filter(Boolean)) {
+        for (const topic of index.topics) {
+            const name = normalize(topic.name);
+            if (hint === name || hint === normalize(topic.topicId)) vote(topic.id, 3);
+            else if (hint.length >= 5 && (name.includes(hint) || hint.includes(name))) vote(topic.id, 1);
+        }
+        for (const subtopic of index.subtopics) {
+            if (hint === normalize(subtopic.name)) vote(subtopic.topicId, 2);
+        }
+    }
+
+    let best: number | null = null;
+    scores.forEach((score, id) => {
+        if (best === null || score > scores.get(best)!) best = id;
+    });
+    return best;
+}
+
+/**
+ * Store sessions from the app and add their time to roadmap progress. Sessions
+ * already stored (same clientId) are skipped, so the app can safely resend its
+ * queue after a failed sync.
+ */
+export async function recordSessions(userId: number, inputs: StudySessionInput[]) {
+    if (!inputs.length) return { recorded: 0, skipped: 0 };
+
+    const index = await loadTopicIndex();
+    const rows = inputs.map(input => ({
+        userId,
+        clientId: input.clientId,
+        topicId: matchTopic(index, input.topicId, input.topicHints),
+        source: input.source,
+        sourceId: input.sourceId,
+        title: input.title,
+        durationSeconds: input.durationSeconds,
+        studyDate: studyDateOf(input.startedAt),
+        startedAt: input.startedAt,
+    }));
+
+    return db.transaction(async (tx) => {
+        const inserted = await tx
+            .insert(studySessions)
+            .values(rows)
+            .onConflictDoNothing({ target: [studySessions.userId, studySessions.clientId] })
+            .returning();
+
+        // Per topic: total time and when the latest session ended
+        const byTopic = new Map<number, { seconds: number; lastStudied: Date }>();
+        for (const session of inserted) {
+            if (!session.topicId) continue;
+            const ended = new Date(session.startedAt.getTime() + session.durationSeconds * 1000);
+            const current = byTopic.get(session.topicId);
+            byTopic.set(session.topicId, {
+                seconds: (current?.seconds || 0) + session.durationSeconds,
+                lastStudied: current && current.lastStudied > ended ? current.lastStudied : ended,
+            });
+        }
+
+        for (const [topicId, { seconds, lastStudied }] of Array.from(byTopic)) {
+            const hours = seconds / 3600;
+            const [progress] = await tx
+                .select()
+                .from(userTopicProgress)
+                .where(and(eq(userTopicProgress.userId, userId), eq(userTopicProgress.topicId, topicId)))
+                .limit(1);
+
+            if (progress) {
+                await tx
+                    .update(userTopicProgress)
+                    .set({
+                        hoursStudied: sql`coalesce(${userTopicProgress.hoursStudied}, 0) + ${hours}`,
+                        status: progress.status === 'pending' ? 'in_progress' : progress.status,
+                        lastStudied: progress.lastStudied && progress.lastStudied > lastStudied ? progress.lastStudied : lastStudied,
+                        updatedAt: new Date(),
+                    })
+                    .where(eq(userTopicProgress.id, progress.id));
+            } else {
+                await tx.insert(userTopicProgress).values({
+                    userId,
+                    topicId,
+                    status: 'in_progress',
+                    hoursStudied: hours,
+                    lastStudied,
+                });
+            }
+        }
+
+        return { recorded: inserted.length, skipped: rows.length - inserted.length };
+    });
+}
+
+// Monday of the IST week a date falls in
+const weekStartOf = (date: string) => addDays(date, -((new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7));
+
+/**
+ * Study time for the app's progress screen: minutes per week and per day for the
+ * last `weeks` weeks, split by source, plus the topics studied most.
+ */
+export async function getStudyTimeSummary(userId: number, weeks: number) {
+    const today = todayPlanDate();
+    const from = addDays(weekStartOf(today), -(weeks - 1) * 7);
+
+    const rows = await db
+        .select({
+            studyDate: studySessions.studyDate,
+            source: studySessions.source,
+            topicId: studySessions.topicId,
+            seconds: sql<number>`sum(${studySessions.durationSeconds})`.mapWith(Number),
+        })
+        .from(studySessions)
+        .where(and(eq(studySessions.userId, userId), gte(studySessions.studyDate, from)))
+        .groupBy(studySessions.studyDate, studySessions.source, studySessions.topicId);
+
+    const topicNames = new Map(
+        (await db.select({ id: roadmapTopics.id, name: roadmapTopics.name }).from(roadmapTopics)).map(t => [t.id, t.name])
+    );
+
+    const emptySources = () =>
+        Object.fromEntries(STUDY_SESSION_SOURCES.map(source => [source, 0])) as Record<StudySessionSource, number>;
+    const minutes = (seconds: number) => Math.round(seconds / 60);
+
+    const weekly = Array.from({ length: weeks }, (_, i) => ({
+        weekStart: addDays(from, i * 7),
+        minutes: 0,
+        bySource: emptySources(),
+    }));
+    const daily = Array.from({ length: 7 }, (_, i) => ({ date: addDays(today, i - 6), minutes: 0 }));
+    const byTopic = new Map<number | null, number>();
+    const bySource = emptySources();
+
+    for (const row of rows) {
+        const week = weekly.find(w => w.weekStart === weekStartOf(row.studyDate));
+        if (week) {
+            week.minutes += row.seconds;
+            week.bySource[row.source] += row.seconds;
+        }
+        const day = daily.find(d => d.date === row.studyDate);
+        if (day) day.minutes += row.seconds;
+        bySource[row.source] += row.seconds;
+        byTopic.set(row.topicId, (byTopic.get(row.topicId) || 0) + row.seconds);
+    }
+
+    const recent = await db
+        .select({
+            id: studySessions.id,
+            source: studySessions.source,
+            title: studySessions.title,
+            topicId: studySessions.topicId,
+            durationSeconds: studySessions.durationSeconds,
+            startedAt: studySessions.startedAt,
+        })
+        .from(studySessions)
+        .where(eq(studySessions.userId, userId))
+        .orderBy(desc(studySessions.startedAt))
+        .limit(10);
+
+    const totalSeconds = rows.reduce((total, row) => total + row.seconds, 0);
+
+    return {
+        from,
+        totalMinutes: minutes(totalSeconds),
+        weekly: weekly.map(w => ({
+            weekStart: w.weekStart,
+            minutes: minutes(w.minutes),
+            bySource: Object.fromEntries(
+                Object.entries(w.bySource).map(([source, seconds]) => [source, minutes(seconds)])
+            ),
+        })),
+        daily: daily.map(d => ({ date: d.date, minutes: minutes(d.minutes) })),
+        bySource: Object.fromEntries(Object.entries(bySource).map(([source, seconds]) => [source, minutes(seconds)])),
+        topics: Array.from(byTopic)
+            .map(([topicId, seconds]) => ({
+                topicId,
+                name: topicId ? topicNames.get(topicId) || 'Unknown topic' : 'Unassigned',
+                minutes: minutes(seconds),
+            }))
+            .sort((a, b) => b.minutes - a.minutes)
+            .slice(0, 8),
+        recent: recent.map(session => ({
+            ...session,
+            topicName: session.topicId ? topicNames.get(session.topicId) || null : null,
+        })),
+    };
+}
@@ -0,0 +1,64 @@
+import { OPENROUTER_API_KEY } from './secure-config';
+import { LANGUAGE_NAMES, ContentLanguage } from './i18n';
+
+const OPENROUTER_URL = 'https://openrouter.ai/api/v1/chat/completions';
+const MODEL = 'google/gemini-3-flash-preview';
+
+// Translate every string value in `payload` into the target language.
+// Keys, array order and non-string values are preserved so the result
+// can be stored directly as a translation override.
+export async function translateContent<T>(payload: T, lang: ContentLanguage): Promise<T> {
+    const languageName = LANGUAGE_NAMES[lang];
+
+    const prompt = `You are translating UPSC study material from English into ${languageName}.
+
+Rules:
+- Translate every string value in the JSON below into ${languageName}.
+- Keep all JSON keys, array lengths and non-string values exactly the same.
+- Use the standard ${languageName} terminology used in UPSC/NCERT material; keep acronyms (e.g. GDP, RBI, UNESCO) as they are.
+- Do not add, remove or summarise content.
+
+Return ONLY the translated JSON.
+
+JSON:
+${JSON.stringify(payload)}`;
+
+    const response = await fetch(OPENROUTER_URL, {
+        method: 'POST',
+        headers: {
+            'Authorization': `Bearer ${OPENROUTER_API_KEY}`,
+            'Content-Type': 'application/json',
+            'HTTP-Referer': 'https://upsc-app-admin.vercel.app',
+            'X-Title': 'UPSC Prep App'
+        },
+        body: JSON.stringify({
+            model: MODEL,
+            messages: [{ role: 'user', content: prompt }],
+            response_format: { type: 'json_object' },
+            temperature: 0.2,
+        })
+    });
+
+    if (!response.ok) {
+        const errorText = await response.text();
+        console.error('[Translate] OpenRouter API error:', response.status, errorText);
+        throw new Error(`AI Provider Error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const content: string | undefined = data.choices?.[0]?.message?.content;
+
+    if (!content) {
+        throw new Error('Empty response from AI');
+    }
+
+    try {
+        return JSON.parse(content);
+    } catch (e) {
+        const jsonMatch = content.match(/[\[{][\s\S]*[\]}]/);
+        if (!jsonMatch) {
+            throw new Error('Failed to parse AI translation as JSON');
+        }
+        return JSON.parse(jsonMatch[0]);
+    }
+}
@@ -0,0 +1,44 @@
+/**
+ * Pull the latest PIB press releases and The Hindu stories into the articles table.
+ * New articles are classified with AI and queued unpublished for admin review.
+ *
+ * Run with: npx tsx src/scripts/ingest-current-affairs.ts [--source pib|the_hindu] [--limit 15] [--dry-run]
+ */
+
+import 'dotenv/config';
+import { runIngestion } from '../lib/ingestion';
+
+function getArg(name: string): string | undefined {
+    const index = process.argv.indexOf(`--${name}`);
+    return index !== -1 ? process.argv[index + 1] : undefined;
+}
+
+async function main() {
+    const source = getArg('source');
+    const limit = getArg('limit');
+    const dryRun = process.argv.includes('--dry-run');
+
+    console.log(`🌱 Ingesting current affairs${dryRun ? ' (dry run)' : ''}...\n`);
+
+    const reports = await runIngestion({
+        sources: source ? [source as 'pib' | 'the_hindu'] : undefined,
+        limitPerFeed: limit ? parseInt(limit) : undefined,
+        dryRun,
+    });
+
+    for (const report of reports) {
+        console.log(`\n📰 ${report.source}`);
+        console.log(`   Discovered: ${report.discovered}`);
+        console.log(`   Duplicates: ${report.duplicates}`);
+        console.log(`   Not relevant: ${report.irrelevant}`);
+        console.log(`   ${dryRun ? 'Would insert' : 'Inserted'}: ${report.inserted}`);
+        report.failed.forEach(failure => console.log(`   ❌ ${failure.url}: ${failure.error}`));
+    }
+
+    process.exit(0);
+}
+
+main().catch((error) => {
+    console.error('❌ Ingestion failed:', error);
+    process.exit(1);
+});
@@ -0,0 +1,153 @@
+import { Column, SQL, getTableColumns, getTableName, is } from 'drizzle-orm';
+import { PgDialect, PgTable } from 'drizzle-orm/pg-core';
+
+type Row = Record<string, any>;
+
+const dialect = new PgDialect();
+
+/**
+ * In-memory stand-in for `db` in route tests. Where clauses are rendered to SQL
+ * and only `"table"."column" = $n` and `is null` terms joined by `and` are
+ * checked; anything else (full-text search, subqueries) matches every row.
+ * Joins return no rows, and a select of SQL expressions (e.g. `count(*)`)
+ * returns one row counting the matches.
+ */
+export function createFakeDb() {
+    const tables = new Map<string, Row[]>();
+    let nextId = 1;
+
+    const rowsOf = (table: PgTable) => {
+        const name = getTableName(table);
+        if (!tables.has(name)) tables.set(name, []);
+        return tables.get(name)!;
+    };
+
+    // Database column name -> property name, e.g. user_id -> userId
+    const propOf = (table: PgTable, columnName: string) =>
+        Object.entries(getTableColumns(table)).find(([, column]) => column.name === columnName)?.[0];
+
+    const splitAnd = (text: string) => {
+        const terms: string[] = [];
+        let depth = 0;
+        let start = 0;
+        for (let i = 0; i < text.length; i++) {
+            if (text[i] === '(') depth++;
+            else if (text[i] === ')') depth--;
+            else if (depth === 0 && text.startsWith(' and ', i)) {
+                terms.push(text.slice(start, i));
+                start = i + 5;
+            }
+        }
+        terms.push(text.slice(start));
+        return terms;
+    };
+
+    const matcher = (table: PgTable, where?: SQL) => {
+        if (!where) return () => true;
+        const { sql, params } = dialect.sqlToQuery(where);
+        let text = sql.trim();
+        while (text.startsWith('(') && text.endsWith(')') && splitAnd(text.slice(1, -1)).length > 1) {
+            text = text.slice(1, -1);
+        }
+
+        const checks = splitAnd(text).map((term): ((row: Row) => boolean) => {
+            const equals = term.match(/^"(\w+)"\."(\w+)" = \$(\d+)$/);
+            const isNull = term.match(/^"(\w+)"\."(\w+)" is null$/);
+            const match = equals || isNull;
+            const prop = match && match[1] === getTableName(table) ? propOf(table, match[2]) : undefined;
+            if (!prop) return () => true;
+            if (isNull) return row => row[prop] == null;
+            const value = params[Number(equals![3]) - 1];
+            return row => row[prop] === value;
+        });
+        return (row: Row) => checks.every(check => check(row));
+    };
+
+    const isAggregate = (fields?: Record<string, unknown>) =>
+        !!fields && Object.values(fields).some(field => is(field, SQL));
+
+    const project = (rows: Row[], fields?: Record<string, unknown>) => {
+        if (!fields) return rows;
+        const entries = Object.entries(fields);
+        if (isAggregate(fields)) {
+            return [Object.fromEntries(entries.map(([key]) => [key, rows.length]))];
+        }
+        return rows.map(row =>
+            Object.fromEntries(entries.map(([key, field]) => [
+                key,
+                is(field, Column) ? row[propOf(field.table as PgTable, field.name) || key] : row[key],
+            ]))
+        );
+    };
+
+    // Chainable query; awaiting it runs it against the in-memory tables
+    const query = (run: (state: Row) => Row[]) => {
+        const state: Row = {};
+        const builder: any = {
+            from: (table: PgTable) => Object.assign(state, { table }) && builder,
+            innerJoin: () => Object.assign(state, { joined: true }) && builder,
+            leftJoin: () => builder,
+            where: (where?: SQL) => Object.assign(state, { where }) && builder,
+            orderBy: () => builder,
+            groupBy: () => builder,
+            limit: (limit: number) => Object.assign(state, { limit }) && builder,
+            offset: (offset: number) => Object.assign(state, { offset }) && builder,
+            set: (values: Row) => Object.assign(state, { values }) && builder,
+            values: (values: Row | Row[]) => Object.assign(state, { values }) && builder,
+            onConflictDoNothing: () => builder,
+            onConflictDoUpdate: () => builder,
+            returning: () => builder,
+            then: (resolve: (rows: Row[]) => unknown, reject: (error: unknown) => unknown) => {
+                try {
+                    return Promise.resolve(run(state)).then(resolve, reject);
+                } catch (error) {
+                    return Promise.reject(error).then(resolve, reject);
+                }
+            },
+        };
+        return builder;
+    };
+
+    const db: any = {
+        select: (fields?: Record<string, unknown>) => query(state => {
+            const matches = state.joined ? [] : rowsOf(state.table).filter(matcher(state.table, state.where));
+            if (isAggregate(fields)) return project(matches, fields);
+            const start = state.offset || 0;
+            const end = state.limit === undefined ? undefined : start + state.limit;
+            return project(matches.slice(start, end), fields);
+        }),
+        insert: (table: PgTable) => query(state => {
+            const values: Row[] = Array.isArray(state.values) ? state.values : [state.values];
+            const inserted = values.map(value => ({ id: nextId++, createdAt: new Date(), updatedAt: new Date(), ...value }));
+            rowsOf(table).push(...inserted);
+            return inserted;
+        }),
+        update: (table: PgTable) => query(state => {
+            const updated = rowsOf(table).filter(matcher(table, state.where));
+            updated.forEach(row => Object.assign(row, state.values));
+            return updated;
+        }),
+        delete: (table: PgTable) => query(state => {
+            const rows = rowsOf(table);
+            const deleted = rows.filter(matcher(table, state.where));
+            tables.set(getTableName(table), rows.filter(row => !deleted.includes(row)));
+            return deleted;
+        }),
+        transaction: (work: (tx: any) => Promise<unknown>) => work(db),
+    };
+
+    return {
+        db,
+        /** Add a row to a table, giving it an id when it has none */
+        seed: (table: PgTable, row: Row) => {
+            const seeded = { id: nextId++, createdAt: new Date(), updatedAt: new Date(), ...row };
+            rowsOf(table).push(seeded);
+            return seeded;
+        },
+        rows: (table: PgTable) => rowsOf(table),
+        reset: () => {
+            tables.clear();
+            nextId = 1;
+        },
+    };
+}
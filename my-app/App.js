@@ -8,6 +8,7 @@ import { AuthProvider, useAuth } from './src/context/AuthContext';
 import { RoadmapProvider } from './src/context/RoadmapContext';
 import { VisualReferenceProvider } from './src/context/VisualReferenceContext';
 import { WebLayout } from './src/components/WebContainer';
+import { initContentLanguage } from './src/utils/contentLanguage';
 
 // Auth Screens
 import WelcomeScreen from './src/screens/WelcomeScreen';
@@ -21,17 +22,23 @@ import TestScreen from './src/screens/TestScreen';
 import ResultScreen from './src/screens/ResultScreen';
 import EssayScreen from './src/screens/EssayScreen';
 import QuestionBankScreen from './src/screens/QuestionBankScreen';
+import PYQBankScreen from './src/screens/PYQBankScreen';
 import ProgressScreen from './src/screens/ProgressScreen';
 import SettingsScreen from './src/screens/SettingsScreen';
 import ArticlesScreen from './src/screens/ArticlesScreen';
 import ArticleDetailScreen from './src/screens/ArticleDetailScreen';
+import BulletinScreen from './src/screens/BulletinScreen';
+import MainsPracticeScreen from './src/screens/MainsPracticeScreen';
 import QuestionPaperScreen from './src/screens/QuestionPaperScreen';
 import QuestionSetListScreen from './src/screens/QuestionSetListScreen';
+import MockTestScreen from './src/screens/MockTestScreen';
+import MockTestResultScreen from './src/screens/MockTestResultScreen';
 
 // Roadmap Screens
 import RoadmapScreen from './src/screens/RoadmapScreen';
 import TopicDetailScreen from './src/screens/TopicDetailScreen';
 import DailyPlanScreen from './src/screens/DailyPlanScreen';
+import StudyTimerScreen from './src/screens/StudyTimerScreen';
 import UserPreferencesScreen from './src/screens/UserPreferencesScreen';
 
 // Visual Reference Screens
@@ -58,10 +65,11 @@ import {
   WebClipperScreen,
   CreateNoteScreen,
   NoteDetailScreen,
+  NotePracticeScreen,
 } from './src/features/Notes';
 
 // PDF MCQ Screens
-import { PDFGeneratorScreen, PDFMCQListScreen, AIMCQGeneratorScreen, AIMCQListScreen } from './src/features/PDFMCQ';
+import { PDFGeneratorScreen, PDFMCQListScreen, AIMCQGeneratorScreen, AIMCQListScreen, ReviewQueueScreen } from './src/features/PDFMCQ';
 
 // Coming Soon Screen
 import ComingSoonScreen from './src/screens/ComingSoonScreen';
@@ -71,6 +79,9 @@ import BillingScreen from './src/screens/BillingScreen';
 
 const Stack = createNativeStackNavigator();
 
+// Restore the saved content language before any screen fetches content
+initContentLanguage();
+
 // Loading Screen
 const LoadingScreen = () => (
   <View style={styles.loadingContainer}>
@@ -113,11 +124,13 @@ const MainNavigator = () => (
     <Stack.Screen name="Result" component={ResultScreen} />
     <Stack.Screen name="Essay" component={EssayScreen} />
     <Stack.Screen name="QuestionBank" component={QuestionBankScreen} />
+    <Stack.Screen name="PYQBank" component={PYQBankScreen} />
     <Stack.Screen name="Progress" component={ProgressScreen} />
     <Stack.Screen name="Settings" component={SettingsScreen} />
     <Stack.Screen name="Roadmap" component={RoadmapScreen} />
     <Stack.Screen name="TopicDetail" component={TopicDetailScreen} />
     <Stack.Screen name="DailyPlan" component={DailyPlanScreen} />
+    <Stack.Screen name="StudyTimer" component={StudyTimerScreen} />
     <Stack.Screen name="UserPreferences" component={UserPreferencesScreen} />
     {/* Visual Reference Screens */}
     <Stack.Screen name="Reference" component={ReferenceScreen} />
@@ -130,6 +143,8 @@ const MainNavigator = () => (
     {/* Articles Screens */}
     <Stack.Screen name="Articles" component={ArticlesScreen} />
     <Stack.Screen name="ArticleDetail" component={ArticleDetailScreen} />
+    <Stack.Screen name="Bulletin" component={BulletinScreen} />
+    <Stack.Screen name="MainsPractice" component={MainsPracticeScreen} />
     {/* Mind Map Screens */}
     <Stack.Screen name="MindMap" component={MindMapListScreen} />
     <Stack.Screen name="MindMapEditor" component={MindMapScreen} />
@@ -141,6 +156,7 @@ const MainNavigator = () => (
     <Stack.Screen name="WebClipperScreen" component={WebClipperScreen} />
     <Stack.Screen name="CreateNoteScreen" component={CreateNoteScreen} />
     <Stack.Screen name="NoteDetailScreen" component={NoteDetailScreen} />
+    <Stack.Screen name="NotePracticeScreen" component={NotePracticeScreen} />
     <Stack.Screen name="NoteEditor" component={NoteEditorScreen} />
     <Stack.Screen name="NotePreview" component={NotePreviewScreen} />
     {/* PDF MCQ Generator */}
@@ -149,8 +165,13 @@ const MainNavigator = () => (
     {/* AI MCQ Generator (without PDF upload) */}
     <Stack.Screen name="AIMCQGenerator" component={AIMCQGeneratorScreen} />
     <Stack.Screen name="AIMCQList" component={AIMCQListScreen} />
+    {/* Spaced repetition review of missed MCQs */}
+    <Stack.Screen name="MCQReview" component={ReviewQueueScreen} />
     <Stack.Screen name="QuestionPaper" component={QuestionPaperScreen} />
     <Stack.Screen name="QuestionSetList" component={QuestionSetListScreen} />
+    {/* Timed Prelims mock tests */}
+    <Stack.Screen name="MockTest" component={MockTestScreen} options={{ gestureEnabled: false }} />
+    <Stack.Screen name="MockTestResult" component={MockTestResultScreen} />
     {/* Coming Soon */}
     <Stack.Screen name="ComingSoon" component={ComingSoonScreen} />
     {/* Billing */}
@@ -200,14 +221,20 @@ const linking = {
           WebClipperScreen: 'clip',
           CreateNoteScreen: 'create-note',
           NoteDetailScreen: 'note/:noteId',
+          NotePracticeScreen: 'note/:noteId/practice',
           Roadmap: 'roadmap',
           QuestionSetList: 'questions',
+          PYQBank: 'pyq',
           Essay: 'essay',
           Reference: 'reference',
           MindMap: 'mindmap',
           PDFMCQGenerator: 'pdf-mcq',
           AIMCQGenerator: 'ai-mcq',
+          MCQReview: 'review',
+          Bulletin: 'bulletin',
+          MainsPractice: 'mains',
           Progress: 'progress',
+          StudyTimer: 'timer',
           Settings: 'settings',
         },
       },
@@ -1,6 +1,6 @@
 -- Essay Attempts Table for Supabase
--- This schema is for future implementation when you want to sync essay data to the cloud
--- For now, the app stores everything locally using AsyncStorage
+-- Essays and their evaluations are saved by the admin panel's /api/mobile/essays
+-- and /api/mobile/essay/evaluate|generate routes; the app keeps a local copy in AsyncStorage
 
 -- Create essays table
 CREATE TABLE IF NOT EXISTS essays (
@@ -10,6 +10,7 @@ CREATE TABLE IF NOT EXISTS essays (
     answer_text TEXT NOT NULL,
     word_count INTEGER NOT NULL,
     score INTEGER CHECK (score >= 0 AND score <= 100),
+    source VARCHAR(20) NOT NULL DEFAULT 'attempt', -- 'attempt' or 'generated' (model essay)
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -1,5 +1,6 @@
 import { Platform } from 'react-native';
 import Constants from 'expo-constants';
+import { getContentLanguage } from '../utils/contentLanguage';
 
 // Backend API Configuration
 // Set your computer's local IP address here for testing on physical devices
@@ -63,7 +64,12 @@ export const getApiEndpoint = (endpoint) => {
 };
 
 export const getMobileApiEndpoint = (endpoint) => {
-  return `${MOBILE_API_URL}${endpoint.startsWith('/') ? endpoint : '/' + endpoint}`;
+  const url = `${MOBILE_API_URL}${endpoint.startsWith('/') ? endpoint : '/' + endpoint}`;
+
+  // Let content routes return the user's chosen language
+  const lang = getContentLanguage();
+  if (lang === 'en') return url;
+  return `${url}${url.includes('?') ? '&' : '?'}lang=${lang}`;
 };
 
 
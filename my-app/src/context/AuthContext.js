@@ -1,6 +1,8 @@
 import React, { createContext, useState, useEffect, useContext } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { supabase } from '../lib/supabase';
+import { syncNotes } from '../features/Notes/services/notesSync';
+import { clearGuestToken, refreshGuestToken, upgradeGuestAccount } from '../services/billingService';
 
 const AuthContext = createContext({});
 
@@ -67,6 +69,15 @@ export const AuthProvider = ({ children }) => {
       setIsFirstLaunch(false);
 
       console.log('[AuthContext] Supabase user signed in:', userData.email);
+
+      // A guest signing up or in keeps what they made as a guest
+      if (session?.access_token && await upgradeGuestAccount(session.access_token)) {
+        await AsyncStorage.removeItem(GUEST_USER_KEY);
+        console.log('[AuthContext] Guest account upgraded');
+      }
+
+      // Uploads local-only notes on first sign-in; runs in the background
+      syncNotes();
     } catch (error) {
       console.error('[AuthContext] Error handling Supabase user:', error);
     }
@@ -113,6 +124,7 @@ export const AuthProvider = ({ children }) => {
           } else {
             setUser(userData);
             setIsGuestMode(userData.isGuest || false);
+            if (userData.isGuest) refreshGuestToken(userData.id);
             console.log('[AuthContext] User restored from storage:', userData.email || userData.name);
           }
         } catch (e) {
@@ -123,6 +135,7 @@ export const AuthProvider = ({ children }) => {
           const userData = JSON.parse(guestUser);
           setUser(userData);
           setIsGuestMode(true);
+          refreshGuestToken(userData.id);
           console.log('[AuthContext] Guest user restored:', userData.name);
         } catch (e) {
           console.error('[AuthContext] Error parsing guest user:', e);
@@ -153,7 +166,8 @@ export const AuthProvider = ({ children }) => {
     }
   };
 
-  // Sign in as guest - no backend required
+  // Sign in as guest - no account required; the server only hands out a token
+  // for user-scoped routes, so a failed request still signs the guest in
   const signInAsGuest = async (name = 'Guest User') => {
     try {
       console.log('[AuthContext] Signing in as guest:', name);
@@ -169,6 +183,7 @@ export const AuthProvider = ({ children }) => {
       await AsyncStorage.setItem(USER_STORAGE_KEY, JSON.stringify(guestUser));
       await AsyncStorage.setItem(GUEST_USER_KEY, JSON.stringify(guestUser));
       await AsyncStorage.setItem('@has_launched', 'true');
+      await refreshGuestToken(guestUser.id);
       setUser(guestUser);
       setIsGuestMode(true);
       setIsFirstLaunch(false);
@@ -191,6 +206,7 @@ export const AuthProvider = ({ children }) => {
       await AsyncStorage.removeItem(USER_STORAGE_KEY);
       await AsyncStorage.removeItem(GUEST_USER_KEY);
       await AsyncStorage.removeItem(SUPABASE_SESSION_KEY);
+      await clearGuestToken();
       setUser(null);
       setIsGuestMode(false);
     } catch (error) {
@@ -199,6 +215,7 @@ export const AuthProvider = ({ children }) => {
       await AsyncStorage.removeItem(USER_STORAGE_KEY);
       await AsyncStorage.removeItem(GUEST_USER_KEY);
       await AsyncStorage.removeItem(SUPABASE_SESSION_KEY);
+      await clearGuestToken();
       setUser(null);
       setIsGuestMode(false);
     }
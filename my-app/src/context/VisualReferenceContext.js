@@ -1,5 +1,6 @@
 import React, { createContext, useContext, useState, useCallback } from 'react';
 import { fetchVisualReferences, fetchHistoryTimeline, fetchMaps } from '../services/referenceApi';
+import { getContentLanguage } from '../utils/contentLanguage';
 
 // Import fallback hardcoded data
 import { economyReference } from '../../economyReference';
@@ -51,9 +52,10 @@ export const VisualReferenceProvider = ({ children }) => {
 
   // Fetch references for a specific category
   const getReferences = useCallback(async (category, forceRefresh = false) => {
-    // Check cache first
-    if (!forceRefresh && cache[category]) {
-      const cached = cache[category];
+    // Check cache first (per language, so switching language refetches)
+    const cacheKey = `${category}:${getContentLanguage()}`;
+    if (!forceRefresh && cache[cacheKey]) {
+      const cached = cache[cacheKey];
       if (Date.now() - cached.timestamp < CACHE_DURATION) {
         console.log('[VisualReferenceContext] Using cached data for:', category);
         return cached.data;
@@ -71,7 +73,7 @@ export const VisualReferenceProvider = ({ children }) => {
         // Update cache
         setCache(prev => ({
           ...prev,
-          [category]: {
+          [cacheKey]: {
             data: result.references,
             timestamp: Date.now(),
           },
@@ -195,7 +197,11 @@ export const VisualReferenceProvider = ({ children }) => {
     if (category) {
       setCache(prev => {
         const newCache = { ...prev };
-        delete newCache[category];
+        Object.keys(newCache).forEach(key => {
+          if (key === category || key.startsWith(`${category}:`)) {
+            delete newCache[key];
+          }
+        });
         return newCache;
       });
     } else {
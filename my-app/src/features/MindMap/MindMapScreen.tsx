@@ -17,19 +17,32 @@ import { Ionicons, MaterialCommunityIcons } from '@expo/vector-icons';
 import { StatusBar } from 'expo-status-bar';
 
 import GraphView, { GraphViewRef, ThemeColors } from './components/GraphView';
-import { MindMapNode, MindMapConnection, NODE_COLORS } from './types';
+import MindMapExportSheet from './components/MindMapExportSheet';
+import { MindMapNode, MindMapConnection, NODE_COLORS, LayoutType } from './types';
 import { useTheme } from '../Reference/theme/ThemeContext';
+import { MindMapData } from './services/mindMapApi';
+import { loadMindMap, queueOperations, subscribeSyncStatus, flushMindMapOutbox, SyncStatus, SyncState } from './services/mindMapSync';
 import {
-  fetchMindMap,
-  createNode,
-  updateNode,
-  deleteNode,
-  createConnection,
-  deleteConnection,
-  deleteNodeConnections,
-  updateMindMap,
-  MindMapData,
-} from './services/mindMapApi';
+  getMindMap,
+  getAllMindMaps,
+  saveMindMap,
+  createMindMap as createAIMindMap,
+  addMessage,
+} from './services/aiMindMapStorage';
+import { toMermaidMindmap } from './services/mermaidConverter';
+import { LAYOUTS, computeLayout } from './services/mindMapLayout';
+import {
+  MindMapHistory,
+  MindMapCommand,
+  MindMapOperation,
+  applyOperations,
+  createNodeCommand,
+  deleteNodeCommand,
+  updateNodeCommand,
+  moveNodeCommand,
+  createConnectionCommand,
+  layoutCommand,
+} from './services/mindMapHistory';
 import { Input } from '../../components/Input';
 
 const generateId = () => {
@@ -40,9 +53,16 @@ const generateId = () => {
   });
 };
 
+const SYNC_ICONS: Record<SyncState, string> = {
+  synced: 'cloud-done-outline',
+  syncing: 'cloud-upload-outline',
+  offline: 'cloud-offline-outline',
+  error: 'alert-circle-outline',
+};
+
 interface MindMapScreenProps {
   navigation?: any;
-  route?: { params?: { mindMapId?: number; isNew?: boolean } };
+  route?: { params?: { mindMapId?: number; isNew?: boolean; aiMindMapId?: string } };
 }
 
 const MindMapScreen: React.FC<MindMapScreenProps> = ({ navigation, route }) => {
@@ -53,6 +73,7 @@ const MindMapScreen: React.FC<MindMapScreenProps> = ({ navigation, route }) => {
 
   const mindMapId = route?.params?.mindMapId;
   const isNew = route?.params?.isNew;
+  const aiMindMapId = route?.params?.aiMindMapId;
 
   // Mind map data
   const [mindMapData, setMindMapData] = useState<MindMapData | null>(null);
@@ -61,7 +82,8 @@ const MindMapScreen: React.FC<MindMapScreenProps> = ({ navigation, route }) => {
 
   // UI State
   const [loading, setLoading] = useState(true);
-  const [saving, setSaving] = useState(false);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>({ state: 'synced', pending: 0 });
+  const [sendingToAI, setSendingToAI] = useState(false);
   const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
   const [showColorPicker, setShowColorPicker] = useState(false);
   const [connectMode, setConnectMode] = useState(false);
@@ -77,9 +99,23 @@ const MindMapScreen: React.FC<MindMapScreenProps> = ({ navigation, route }) => {
   const [showContextMenu, setShowContextMenu] = useState(false);
   const [contextMenuPosition, setContextMenuPosition] = useState({ x: 0, y: 0 });
   const [contextMenuNodeId, setContextMenuNodeId] = useState<string | null>(null);
+  const [layoutType, setLayoutType] = useState<LayoutType | null>(null);
+  const [showLayoutPicker, setShowLayoutPicker] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+
+  // Edit history; every change goes through `execute` so it can be undone
+  const historyRef = useRef(new MindMapHistory());
+  const [historyState, setHistoryState] = useState({ canUndo: false, canRedo: false });
 
   const selectedNode = selectedNodeId ? nodes.find(n => n.id === selectedNodeId) || null : null;
 
+  const syncColor = {
+    synced: colors.success,
+    syncing: colors.primary,
+    offline: colors.warning,
+    error: colors.error,
+  }[syncStatus.state];
+
   // Theme colors for GraphView
   const graphThemeColors: ThemeColors = {
     background: colors.background,
@@ -102,13 +138,17 @@ const MindMapScreen: React.FC<MindMapScreenProps> = ({ navigation, route }) => {
       return;
     }
 
-    const loadMindMap = async () => {
+    const load = async () => {
       try {
         setLoading(true);
-        const data = await fetchMindMap(mindMapId);
+        // Falls back to the copy on this device when offline
+        const { data } = await loadMindMap(mindMapId);
         setMindMapData(data);
         setNodes(data.nodes);
         setConnections(data.connections);
+        setLayoutType(data.canvasState?.layout || null);
+        historyRef.current.clear();
+        setHistoryState({ canUndo: false, canRedo: false });
       } catch (error) {
         console.error('Failed to load mind map:', error);
         Alert.alert('Error', 'Failed to load mind map.', [
@@ -119,9 +159,11 @@ const MindMapScreen: React.FC<MindMapScreenProps> = ({ navigation, route }) => {
       }
     };
 
-    loadMindMap();
+    load();
   }, [mindMapId, navigation]);
 
+  useEffect(() => subscribeSyncStatus(setSyncStatus), []);
+
   // If this is a new mind map, prompt for first node
   useEffect(() => {
     if (!loading && isNew && mindMapId && nodes.length === 0) {
@@ -135,6 +177,66 @@ const MindMapScreen: React.FC<MindMapScreenProps> = ({ navigation, route }) => {
     }
   }, [loading, isNew, mindMapId, nodes.length]);
 
+  // Apply operations to local state; only the parts they touch change
+  const applyLocally = useCallback((ops: MindMapOperation[]) => {
+    setNodes(prev => applyOperations({ nodes: prev, connections: [] }, ops).nodes);
+    setConnections(prev => applyOperations({ nodes: [], connections: prev }, ops).connections);
+
+    const { canvasState } = applyOperations({ nodes: [], connections: [] }, ops);
+    if (canvasState) {
+      setMindMapData(prev => prev ? { ...prev, canvasState } : prev);
+      setLayoutType(canvasState.layout || null);
+    }
+  }, []);
+
+  // Queue operations for the server; they are kept on the device until it confirms them
+  const sync = useCallback((ops: MindMapOperation[]) => {
+    if (!mindMapId) return;
+
+    queueOperations(mindMapId, ops).catch(error => {
+      console.error('Failed to save mind map change:', error);
+      Alert.alert('Error', 'Failed to save your change. Please try again.');
+    });
+  }, [mindMapId]);
+
+  const handleSyncPress = useCallback(() => {
+    const changes = `${syncStatus.pending} change${syncStatus.pending === 1 ? '' : 's'}`;
+    const message = syncStatus.state === 'offline'
+      ? `You're offline. ${changes} are saved on this device and will sync when you're back online.`
+      : `${changes} couldn't be saved to the server yet. They're kept on this device and retried automatically.`;
+    Alert.alert(syncStatus.state === 'offline' ? 'Offline' : 'Not Synced', message, [
+      { text: 'OK', style: 'cancel' },
+      { text: 'Retry Now', onPress: () => flushMindMapOutbox() },
+    ]);
+  }, [syncStatus]);
+
+  const refreshHistory = useCallback(() => {
+    setHistoryState({ canUndo: historyRef.current.canUndo, canRedo: historyRef.current.canRedo });
+  }, []);
+
+  const execute = useCallback((command: MindMapCommand) => {
+    applyLocally(command.redo);
+    historyRef.current.record(command);
+    refreshHistory();
+    sync(command.redo);
+  }, [applyLocally, refreshHistory, sync]);
+
+  const handleUndo = useCallback(() => {
+    const command = historyRef.current.undo();
+    if (!command) return;
+    applyLocally(command.undo);
+    refreshHistory();
+    sync(command.undo);
+  }, [applyLocally, refreshHistory, sync]);
+
+  const handleRedo = useCallback(() => {
+    const command = historyRef.current.redo();
+    if (!command) return;
+    applyLocally(command.redo);
+    refreshHistory();
+    sync(command.redo);
+  }, [applyLocally, refreshHistory, sync]);
+
   const toggleSearch = useCallback(() => {
     if (showSearch) {
       Keyboard.dismiss();
@@ -183,12 +285,7 @@ const MindMapScreen: React.FC<MindMapScreenProps> = ({ navigation, route }) => {
           style: 'solid',
           animated: false,
         };
-        setConnections(prev => [...prev, newConn]);
-
-        // Save to backend
-        createConnection(mindMapId, newConn).catch(err => {
-          console.error('Failed to save connection:', err);
-        });
+        execute(createConnectionCommand(newConn));
       }
       setConnectMode(false);
       setConnectFromNodeId(null);
@@ -199,23 +296,14 @@ const MindMapScreen: React.FC<MindMapScreenProps> = ({ navigation, route }) => {
     setShowColorPicker(false);
     setShowContextMenu(false);
     if (!nodeId && connectMode) { setConnectMode(false); setConnectFromNodeId(null); }
-  }, [connectMode, connectFromNodeId, connections, isDark, mindMapId]);
+  }, [connectMode, connectFromNodeId, connections, isDark, mindMapId, execute]);
 
-  // Handle node move - debounced save
-  const moveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // Handle node move - one drag is one history step, quick re-drags merge into it
   const handleNodeMove = useCallback((nodeId: string, x: number, y: number) => {
-    setNodes(prev => prev.map(n => n.id === nodeId ? { ...n, x: Math.round(x), y: Math.round(y) } : n));
-
-    // Debounce save to backend
-    if (moveTimeoutRef.current) clearTimeout(moveTimeoutRef.current);
-    moveTimeoutRef.current = setTimeout(() => {
-      if (mindMapId) {
-        updateNode(mindMapId, nodeId, { x: Math.round(x), y: Math.round(y) }).catch(err => {
-          console.error('Failed to save node position:', err);
-        });
-      }
-    }, 500);
-  }, [mindMapId]);
+    const node = nodes.find(n => n.id === nodeId);
+    if (!node) return;
+    execute(moveNodeCommand(node, Math.round(x), Math.round(y)));
+  }, [nodes, execute]);
 
   const handleNodeDoubleTap = useCallback((nodeId: string) => {
     const node = nodes.find(n => n.id === nodeId);
@@ -240,44 +328,38 @@ const MindMapScreen: React.FC<MindMapScreenProps> = ({ navigation, route }) => {
   }, []);
 
   // Save node (create or update)
-  const handleSaveNode = useCallback(async () => {
+  const handleSaveNode = useCallback(() => {
     if (!nodeLabel.trim()) { Alert.alert('Error', 'Please enter a label'); return; }
     if (!mindMapId) return;
 
-    setSaving(true);
-    try {
-      if (editingNodeId) {
-        // Update existing node
-        setNodes(prev => prev.map(n => n.id === editingNodeId ? { ...n, label: nodeLabel.trim() } : n));
-        await updateNode(mindMapId, editingNodeId, { label: nodeLabel.trim() });
-      } else if (newNodePosition) {
-        // Create new node
-        const newNode: MindMapNode = {
-          id: generateId(),
-          label: nodeLabel.trim(),
-          x: newNodePosition.x,
-          y: newNodePosition.y,
-          width: Math.max(100, nodeLabel.length * 8 + 40),
-          height: 40,
-          color: NODE_COLORS[Math.floor(Math.random() * NODE_COLORS.length)],
-          shape: 'rounded',
-          fontSize: 14,
-        };
-        setNodes(prev => [...prev, newNode]);
-        setSelectedNodeId(newNode.id);
-        await createNode(mindMapId, newNode);
+    if (editingNodeId) {
+      // Update existing node
+      const node = nodes.find(n => n.id === editingNodeId);
+      if (node && node.label !== nodeLabel.trim()) {
+        execute(updateNodeCommand(node, { label: nodeLabel.trim() }, 'Rename node'));
       }
-    } catch (error) {
-      console.error('Failed to save node:', error);
-      Alert.alert('Error', 'Failed to save node. Please try again.');
-    } finally {
-      setSaving(false);
-      setShowNodeModal(false);
-      setEditingNodeId(null);
-      setNodeLabel('');
-      setNewNodePosition(null);
+    } else if (newNodePosition) {
+      // Create new node
+      const newNode: MindMapNode = {
+        id: generateId(),
+        label: nodeLabel.trim(),
+        x: newNodePosition.x,
+        y: newNodePosition.y,
+        width: Math.max(100, nodeLabel.length * 8 + 40),
+        height: 40,
+        color: NODE_COLORS[Math.floor(Math.random() * NODE_COLORS.length)],
+        shape: 'rounded',
+        fontSize: 14,
+      };
+      execute(createNodeCommand(newNode));
+      setSelectedNodeId(newNode.id);
     }
-  }, [nodeLabel, editingNodeId, newNodePosition, mindMapId]);
+
+    setShowNodeModal(false);
+    setEditingNodeId(null);
+    setNodeLabel('');
+    setNewNodePosition(null);
+  }, [nodeLabel, editingNodeId, newNodePosition, mindMapId, nodes, execute]);
 
   // Delete node
   const handleDeleteNode = useCallback(() => {
@@ -288,42 +370,27 @@ const MindMapScreen: React.FC<MindMapScreenProps> = ({ navigation, route }) => {
       { text: 'Cancel', style: 'cancel' },
       {
         text: 'Delete', style: 'destructive',
-        onPress: async () => {
-          try {
-            // Update local state first
-            setNodes(prev => prev.filter(n => n.id !== nodeToDelete));
-            setConnections(prev => prev.filter(c => c.sourceNodeId !== nodeToDelete && c.targetNodeId !== nodeToDelete));
-            setSelectedNodeId(null);
-            setShowContextMenu(false);
-            setContextMenuNodeId(null);
-
-            // Delete from backend
-            await deleteNodeConnections(mindMapId, nodeToDelete);
-            await deleteNode(mindMapId, nodeToDelete);
-          } catch (error) {
-            console.error('Failed to delete node:', error);
-            Alert.alert('Error', 'Failed to delete node.');
-          }
+        onPress: () => {
+          const node = nodes.find(n => n.id === nodeToDelete);
+          if (node) execute(deleteNodeCommand(node, connections));
+          setSelectedNodeId(null);
+          setShowContextMenu(false);
+          setContextMenuNodeId(null);
         },
       },
     ]);
-  }, [contextMenuNodeId, selectedNodeId, mindMapId]);
+  }, [contextMenuNodeId, selectedNodeId, mindMapId, nodes, connections, execute]);
 
   // Change node color
-  const handleColorChange = useCallback(async (color: string) => {
+  const handleColorChange = useCallback((color: string) => {
     const nodeToUpdate = contextMenuNodeId || selectedNodeId;
     if (!nodeToUpdate || !mindMapId) return;
 
-    setNodes(prev => prev.map(n => n.id === nodeToUpdate ? { ...n, color } : n));
+    const node = nodes.find(n => n.id === nodeToUpdate);
+    if (node && node.color !== color) execute(updateNodeCommand(node, { color }, 'Change color'));
     setShowColorPicker(false);
     setShowContextMenu(false);
-
-    try {
-      await updateNode(mindMapId, nodeToUpdate, { color });
-    } catch (error) {
-      console.error('Failed to update node color:', error);
-    }
-  }, [contextMenuNodeId, selectedNodeId, mindMapId]);
+  }, [contextMenuNodeId, selectedNodeId, mindMapId, nodes, execute]);
 
   const handleStartConnect = useCallback(() => {
     const nodeToConnect = contextMenuNodeId || selectedNodeId;
@@ -334,6 +401,68 @@ const MindMapScreen: React.FC<MindMapScreenProps> = ({ navigation, route }) => {
     setShowContextMenu(false);
   }, [contextMenuNodeId, selectedNodeId]);
 
+  // Switch layouts; positions and the choice are saved as one undoable step
+  const changeLayout = useCallback((layout: LayoutType | null) => {
+    if (!mindMapId) return;
+
+    const canvasState = { zoom: 1, offsetX: 0, offsetY: 0, ...mindMapData?.canvasState };
+    const positions = layout ? computeLayout(layout, nodes, connections, selectedNodeId || undefined) : [];
+    execute(layoutCommand(nodes, positions, canvasState, { ...canvasState, layout: layout || undefined }));
+    setTimeout(() => graphRef.current?.fitView(), 300);
+  }, [mindMapId, mindMapData, nodes, connections, selectedNodeId, execute]);
+
+  // Arrange every node with a layout engine, rooted at the selected node if any
+  const handleApplyLayout = useCallback((layout: LayoutType) => {
+    setShowLayoutPicker(false);
+    if (nodes.length > 0) changeLayout(layout);
+  }, [nodes.length, changeLayout]);
+
+  // Back to free placement, where the graph's physics arranges nodes
+  const handleFreeLayout = useCallback(() => {
+    setShowLayoutPicker(false);
+    if (layoutType) changeLayout(null);
+  }, [layoutType, changeLayout]);
+
+  // Send the canvas to the AI chat as Mermaid so it can be refined further
+  const handleSendToAI = useCallback(async () => {
+    if (nodes.length === 0) {
+      Alert.alert('Empty Mind Map', 'Add some nodes before sending the mind map to the AI.');
+      return;
+    }
+
+    setSendingToAI(true);
+    try {
+      const mermaidCode = toMermaidMindmap(nodes, connections, mindMapData?.title);
+      const linked = aiMindMapId
+        ? await getMindMap(aiMindMapId)
+        : (await getAllMindMaps()).find(m => m.editorMindMapId === mindMapId) || null;
+      const aiMindMap = linked || {
+        ...createAIMindMap(mindMapData?.title || 'Mind Map', mindMapData?.description || ''),
+        editorMindMapId: mindMapId,
+      };
+
+      const updated = addMessage(
+        aiMindMap,
+        'assistant',
+        `Updated from the editor (${nodes.length} nodes). Ask me to expand, reorganize or explain any part of it.`,
+        mermaidCode
+      );
+      await saveMindMap(updated);
+
+      navigation?.navigate('AIMindMapEditor', { mindMapId: updated.id });
+    } catch (error) {
+      console.error('Failed to send mind map to AI:', error);
+      Alert.alert('Error', 'Failed to send the mind map to the AI chat.');
+    } finally {
+      setSendingToAI(false);
+    }
+  }, [nodes, connections, mindMapData, aiMindMapId, mindMapId, navigation]);
+
+  const getExportSource = useCallback(
+    () => ({ title: mindMapData?.title || 'Mind Map', nodes, connections }),
+    [mindMapData, nodes, connections]
+  );
+
   // Show loading state
   if (loading) {
     return (
@@ -403,11 +532,36 @@ const MindMapScreen: React.FC<MindMapScreenProps> = ({ navigation, route }) => {
             <View style={[styles.statsBadge, { backgroundColor: colors.surfaceSecondary }]}>
               <Text style={[styles.statsText, { color: colors.textSecondary }]}>{nodes.length} nodes</Text>
             </View>
-            {saving && <ActivityIndicator size="small" color={colors.primary} style={{ marginLeft: 8 }} />}
+            <TouchableOpacity
+              style={styles.syncIndicator}
+              onPress={handleSyncPress}
+              disabled={syncStatus.state === 'synced' || syncStatus.state === 'syncing'}
+            >
+              {syncStatus.state === 'syncing' ? (
+                <ActivityIndicator size="small" color={colors.primary} />
+              ) : (
+                <Ionicons name={SYNC_ICONS[syncStatus.state] as any} size={16} color={syncColor} />
+              )}
+              {syncStatus.pending > 0 && (
+                <Text style={[styles.syncText, { color: syncColor }]}>{syncStatus.pending}</Text>
+              )}
+            </TouchableOpacity>
           </View>
         )}
 
         <View style={styles.headerRight}>
+          {!showSearch && (
+            <TouchableOpacity style={[styles.headerBtn, { backgroundColor: colors.surfaceSecondary }]} onPress={handleSendToAI} disabled={sendingToAI}>
+              <MaterialCommunityIcons name="brain" size={20} color={colors.primary} />
+            </TouchableOpacity>
+          )}
+
+          {!showSearch && (
+            <TouchableOpacity style={[styles.headerBtn, { backgroundColor: colors.surfaceSecondary }]} onPress={() => setShowExport(true)}>
+              <Ionicons name="share-outline" size={20} color={colors.text} />
+            </TouchableOpacity>
+          )}
+
           <TouchableOpacity style={[styles.headerBtn, { backgroundColor: colors.surfaceSecondary }]} onPress={toggleSearch}>
             <Ionicons name={showSearch ? "close" : "search"} size={20} color={colors.text} />
           </TouchableOpacity>
@@ -462,10 +616,13 @@ const MindMapScreen: React.FC<MindMapScreenProps> = ({ navigation, route }) => {
         onNodeMove={handleNodeMove}
         onConnect={() => { }}
         onLongPress={handleLongPress}
+        onUndo={handleUndo}
+        onRedo={handleRedo}
         graphMode={graphMode}
         localGraphDepth={2}
         themeColors={graphThemeColors}
         isDark={isDark}
+        physicsEnabled={!layoutType}
       />
 
       {/* Zoom Controls */}
@@ -479,6 +636,30 @@ const MindMapScreen: React.FC<MindMapScreenProps> = ({ navigation, route }) => {
         <TouchableOpacity style={[styles.zoomBtn, { backgroundColor: colors.surface, borderColor: colors.borderLight }]} onPress={() => graphRef.current?.fitView()}>
           <Ionicons name="scan-outline" size={18} color={colors.text} />
         </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.zoomBtn, { backgroundColor: layoutType ? colors.primaryLight : colors.surface, borderColor: colors.borderLight }]}
+          onPress={() => setShowLayoutPicker(true)}
+        >
+          <Ionicons name="git-network-outline" size={18} color={layoutType ? colors.primary : colors.text} />
+        </TouchableOpacity>
+      </View>
+
+      {/* Undo / Redo */}
+      <View style={[styles.historyControls, { bottom: selectedNode ? 170 : insets.bottom + 80 }]}>
+        <TouchableOpacity
+          style={[styles.zoomBtn, { backgroundColor: colors.surface, borderColor: colors.borderLight }, !historyState.canUndo && styles.historyBtnDisabled]}
+          onPress={handleUndo}
+          disabled={!historyState.canUndo}
+        >
+          <Ionicons name="arrow-undo" size={18} color={colors.text} />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.zoomBtn, { backgroundColor: colors.surface, borderColor: colors.borderLight }, !historyState.canRedo && styles.historyBtnDisabled]}
+          onPress={handleRedo}
+          disabled={!historyState.canRedo}
+        >
+          <Ionicons name="arrow-redo" size={18} color={colors.text} />
+        </TouchableOpacity>
       </View>
 
       {/* Action Sheet */}
@@ -578,6 +759,40 @@ const MindMapScreen: React.FC<MindMapScreenProps> = ({ navigation, route }) => {
         </TouchableOpacity>
       </Modal>
 
+      {/* Layout Picker */}
+      <Modal visible={showLayoutPicker} transparent animationType="fade" onRequestClose={() => setShowLayoutPicker(false)}>
+        <TouchableOpacity style={[styles.menuOverlay, styles.layoutOverlay]} activeOpacity={1} onPress={() => setShowLayoutPicker(false)}>
+          <View style={[styles.contextMenu, styles.layoutMenu, { backgroundColor: colors.surface }]}>
+            <Text style={[styles.layoutMenuTitle, { color: colors.textSecondary }]} numberOfLines={1}>
+              {selectedNode ? `Layout from "${selectedNode.label}"` : 'Layout'}
+            </Text>
+
+            {LAYOUTS.map(({ type, label, icon }) => (
+              <TouchableOpacity key={type} style={styles.menuItem} onPress={() => handleApplyLayout(type)}>
+                <Ionicons name={icon as any} size={18} color={layoutType === type ? colors.primary : colors.text} />
+                <Text style={[styles.menuText, styles.layoutMenuText, { color: layoutType === type ? colors.primary : colors.text }]}>{label}</Text>
+                {layoutType === type && <Ionicons name="checkmark" size={18} color={colors.primary} />}
+              </TouchableOpacity>
+            ))}
+
+            <TouchableOpacity style={styles.menuItem} onPress={handleFreeLayout}>
+              <Ionicons name="move-outline" size={18} color={!layoutType ? colors.primary : colors.text} />
+              <Text style={[styles.menuText, styles.layoutMenuText, { color: !layoutType ? colors.primary : colors.text }]}>Free</Text>
+              {!layoutType && <Ionicons name="checkmark" size={18} color={colors.primary} />}
+            </TouchableOpacity>
+
+          </View>
+        </TouchableOpacity>
+      </Modal>
+
+      <MindMapExportSheet
+        visible={showExport}
+        onClose={() => setShowExport(false)}
+        getSource={getExportSource}
+        isDark={isDark}
+        colors={colors}
+      />
+
       {/* Node Modal */}
       <Modal visible={showNodeModal} transparent animationType="fade" onRequestClose={() => setShowNodeModal(false)}>
         <View style={styles.modalOverlay}>
@@ -593,11 +808,11 @@ const MindMapScreen: React.FC<MindMapScreenProps> = ({ navigation, route }) => {
               maxLength={80}
             />
             <View style={styles.modalBtns}>
-              <TouchableOpacity style={[styles.modalBtn, { backgroundColor: colors.surfaceSecondary }]} onPress={() => { setShowNodeModal(false); setEditingNodeId(null); setNodeLabel(''); setNewNodePosition(null); }} disabled={saving}>
+              <TouchableOpacity style={[styles.modalBtn, { backgroundColor: colors.surfaceSecondary }]} onPress={() => { setShowNodeModal(false); setEditingNodeId(null); setNodeLabel(''); setNewNodePosition(null); }}>
                 <Text style={[styles.modalBtnText, { color: colors.textSecondary }]}>Cancel</Text>
               </TouchableOpacity>
-              <TouchableOpacity style={[styles.modalBtn, { backgroundColor: colors.primary }]} onPress={handleSaveNode} disabled={saving}>
-                {saving ? <ActivityIndicator size="small" color="#FFF" /> : <Text style={[styles.modalBtnText, { color: '#FFF' }]}>Save</Text>}
+              <TouchableOpacity style={[styles.modalBtn, { backgroundColor: colors.primary }]} onPress={handleSaveNode}>
+                <Text style={[styles.modalBtnText, { color: '#FFF' }]}>Save</Text>
               </TouchableOpacity>
             </View>
           </View>
@@ -621,6 +836,8 @@ const styles = StyleSheet.create({
   headerTitle: { fontSize: 18, fontWeight: '700', maxWidth: 160 },
   statsBadge: { paddingHorizontal: 10, paddingVertical: 4, borderRadius: 12 },
   statsText: { fontSize: 12, fontWeight: '500' },
+  syncIndicator: { flexDirection: 'row', alignItems: 'center', gap: 4 },
+  syncText: { fontSize: 12, fontWeight: '600' },
   headerRight: { flexDirection: 'row', alignItems: 'center', gap: 8 },
   addBtn: { width: 40, height: 40, borderRadius: 12, justifyContent: 'center', alignItems: 'center' },
 
@@ -636,6 +853,8 @@ const styles = StyleSheet.create({
   cancelText: { color: '#FFF', fontSize: 13, fontWeight: '600' },
 
   zoomControls: { position: 'absolute', left: 12, gap: 8, zIndex: 20 },
+  historyControls: { position: 'absolute', right: 12, gap: 8, zIndex: 20 },
+  historyBtnDisabled: { opacity: 0.4 },
   zoomBtn: { width: 42, height: 42, borderRadius: 12, justifyContent: 'center', alignItems: 'center', borderWidth: 1, shadowColor: '#000', shadowOffset: { width: 0, height: 2 }, shadowOpacity: 0.1, shadowRadius: 4, elevation: 2 },
 
   actionSheet: { position: 'absolute', bottom: 0, left: 0, right: 0, borderTopLeftRadius: 24, borderTopRightRadius: 24, paddingTop: 8, paddingHorizontal: 16, shadowColor: '#000', shadowOffset: { width: 0, height: -4 }, shadowOpacity: 0.1, shadowRadius: 12, elevation: 10 },
@@ -660,6 +879,10 @@ const styles = StyleSheet.create({
   menuItem: { flexDirection: 'row', alignItems: 'center', padding: 12, borderRadius: 10, gap: 12 },
   menuText: { fontSize: 14, fontWeight: '500' },
   menuDivider: { height: 1, marginVertical: 4 },
+  layoutOverlay: { justifyContent: 'center', alignItems: 'center' },
+  layoutMenu: { position: 'relative', minWidth: 240, maxWidth: 300 },
+  layoutMenuTitle: { fontSize: 12, fontWeight: '600', textTransform: 'uppercase', paddingHorizontal: 12, paddingTop: 10, paddingBottom: 4 },
+  layoutMenuText: { flex: 1 },
   menuColors: { flexDirection: 'row', justifyContent: 'center', gap: 8, paddingVertical: 8 },
   menuColorDot: { width: 28, height: 28, borderRadius: 14 },
 
@@ -43,10 +43,13 @@ interface GraphViewProps {
   onNodeMove: (nodeId: string, x: number, y: number) => void;
   onConnect: (sourceId: string, targetId: string) => void;
   onLongPress?: (nodeId: string, x: number, y: number) => void;
+  onUndo?: () => void; // Two-finger tap or Ctrl+Z
+  onRedo?: () => void; // Three-finger tap or Ctrl+Shift+Z
   graphMode?: 'global' | 'local';
   localGraphDepth?: number;
   themeColors: ThemeColors;
   isDark: boolean;
+  physicsEnabled?: boolean; // Off while an automatic layout holds the positions
 }
 
 const GraphView = forwardRef<GraphViewRef, GraphViewProps>(({
@@ -59,10 +62,13 @@ const GraphView = forwardRef<GraphViewRef, GraphViewProps>(({
   onNodeMove,
   onConnect,
   onLongPress,
+  onUndo,
+  onRedo,
   graphMode = 'global',
   localGraphDepth = 2,
   themeColors,
   isDark,
+  physicsEnabled = true,
 }, ref) => {
   const webViewRef = useRef<any>(null);
   const [isLoading, setIsLoading] = useState(true);
@@ -205,7 +211,7 @@ const GraphView = forwardRef<GraphViewRef, GraphViewProps>(({
     let selectedNodeId = null;
     let isFocusing = false;
     
-    const touch = { startX: 0, startY: 0, startTime: 0, lastTapTime: 0, isDragging: false, longPressTimer: null };
+    const touch = { startX: 0, startY: 0, startTime: 0, lastTapTime: 0, isDragging: false, longPressTimer: null, fingers: 0, scale: 1, view: null };
     const DOUBLE_TAP_DELAY = 300;
     const LONG_PRESS_DELAY = 450;
     const DRAG_THRESHOLD = 12;
@@ -291,7 +297,7 @@ const GraphView = forwardRef<GraphViewRef, GraphViewProps>(({
           selectionWidth: 2,
           arrows: { to: { enabled: true, scaleFactor: 0.35 } },
         },
-        physics: PHYSICS,
+        physics: data.physics === false ? false : PHYSICS,
         interaction: {
           hover: true,
           hoverConnectedEdges: true,
@@ -307,6 +313,12 @@ const GraphView = forwardRef<GraphViewRef, GraphViewProps>(({
       
       network = new vis.Network(container, { nodes: nodesDataset, edges: edgesDataset }, options);
       
+      // Without physics there is no stabilization to wait for
+      if (data.physics === false) {
+        loading.classList.add('hidden');
+        scaleNodesByDegree();
+      }
+      
       network.on('stabilizationProgress', p => {
         loading.querySelector('span').textContent = 'Stabilizing ' + Math.round(p.iterations / p.total * 100) + '%';
       });
@@ -511,7 +523,18 @@ const GraphView = forwardRef<GraphViewRef, GraphViewProps>(({
     
     function setupTouchHandlers(container) {
       container.addEventListener('touchstart', e => {
-        if (e.touches.length > 1) return;
+        if (e.touches.length > 1) {
+          // Multi-finger taps undo/redo; remember the view to tell them from pinches
+          clearTimeout(touch.longPressTimer);
+          if (!touch.fingers) {
+            touch.scale = network.getScale();
+            touch.view = network.getViewPosition();
+            if (e.changedTouches.length === e.touches.length) touch.startTime = Date.now();
+          }
+          touch.fingers = Math.max(touch.fingers, e.touches.length);
+          return;
+        }
+        touch.fingers = 0;
         const t = e.touches[0];
         touch.startX = t.clientX; touch.startY = t.clientY; touch.startTime = Date.now(); touch.isDragging = false;
         touch.longPressTimer = setTimeout(() => {
@@ -531,9 +554,20 @@ const GraphView = forwardRef<GraphViewRef, GraphViewProps>(({
         }
       }, { passive: true });
       
-      container.addEventListener('touchend', () => {
+      container.addEventListener('touchend', e => {
         clearTimeout(touch.longPressTimer);
         const now = Date.now();
+        if (touch.fingers > 1) {
+          if (e.touches.length > 0) return;
+          const view = network.getViewPosition();
+          const still = Math.abs(network.getScale() - touch.scale) < 0.02
+            && Math.abs(view.x - touch.view.x) < DRAG_THRESHOLD && Math.abs(view.y - touch.view.y) < DRAG_THRESHOLD;
+          if (still && now - touch.startTime < 350) sendMessage(touch.fingers === 2 ? 'undo' : 'redo', {});
+          touch.fingers = 0;
+          touch.isDragging = false;
+          touch.lastTapTime = 0;
+          return;
+        }
         if (!touch.isDragging && now - touch.startTime < 280) {
           if (now - touch.lastTapTime < DOUBLE_TAP_DELAY) {
             const rect = container.getBoundingClientRect();
@@ -572,12 +606,20 @@ const GraphView = forwardRef<GraphViewRef, GraphViewProps>(({
           case 'setMode': setGraphMode(msg.data.mode, msg.data.nodeId, msg.data.depth); break;
           case 'zoom': handleZoom(msg.data.direction); break;
           case 'reset': resetView(); break;
+          case 'setPhysics': network?.setOptions({ physics: msg.data.enabled ? PHYSICS : false }); break;
         }
       } catch (err) {}
     });
     
     document.addEventListener('message', e => window.dispatchEvent(new MessageEvent('message', { data: e.data })));
     
+    document.addEventListener('keydown', e => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z') { e.preventDefault(); sendMessage(e.shiftKey ? 'redo' : 'undo', {}); }
+      else if (key === 'y') { e.preventDefault(); sendMessage('redo', {}); }
+    });
+    
     window.onload = () => {
       if (typeof vis === 'undefined') {
         document.getElementById('loading').innerHTML = '<span style="color:#EF4444;">Failed to load</span>';
@@ -620,6 +662,12 @@ const GraphView = forwardRef<GraphViewRef, GraphViewProps>(({
     }
   }, [graphMode, localGraphDepth, webViewReady, isLoading, sendToWebView, selectedNodeId]);
 
+  useEffect(() => {
+    if (webViewReady && !isLoading) {
+      sendToWebView('setPhysics', { enabled: physicsEnabled });
+    }
+  }, [physicsEnabled, webViewReady, isLoading, sendToWebView]);
+
   const handleMessage = useCallback((event: any) => {
     try {
       const data = event.nativeEvent?.data || event.data;
@@ -630,7 +678,7 @@ const GraphView = forwardRef<GraphViewRef, GraphViewProps>(({
           setWebViewReady(true);
           setError(null);
           setTimeout(() => {
-            sendToWebView('init', getGraphData());
+            sendToWebView('init', { ...getGraphData(), physics: physicsEnabled });
             setIsLoading(false);
           }, 150);
           break;
@@ -643,9 +691,11 @@ const GraphView = forwardRef<GraphViewRef, GraphViewProps>(({
         case 'addNode': onAddNode(message.data.x, message.data.y); break;
         case 'nodeMove': onNodeMove(message.data.nodeId, message.data.x, message.data.y); break;
         case 'longPress': onLongPress?.(message.data.nodeId, message.data.x, message.data.y); break;
+        case 'undo': onUndo?.(); break;
+        case 'redo': onRedo?.(); break;
       }
     } catch (e) {}
-  }, [onNodeSelect, onNodeDoubleTap, onAddNode, onNodeMove, onLongPress, getGraphData, sendToWebView]);
+  }, [onNodeSelect, onNodeDoubleTap, onAddNode, onNodeMove, onLongPress, onUndo, onRedo, getGraphData, sendToWebView, physicsEnabled]);
 
   useEffect(() => {
     if (Platform.OS === 'web') {
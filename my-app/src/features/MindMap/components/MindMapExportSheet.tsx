@@ -0,0 +1,122 @@
+import React, { useState, useRef, useCallback } from 'react';
+import { View, Text, StyleSheet, Modal, TouchableOpacity, ActivityIndicator, Alert, Platform } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import {
+  EXPORT_FORMATS,
+  ExportFormat,
+  ExportSource,
+  RenderedSvg,
+  exportMindMap,
+  toRasterHtml,
+} from '../services/mindMapExport';
+
+// Conditionally import WebView
+let WebView: any = null;
+if (Platform.OS !== 'web') {
+  WebView = require('react-native-webview').WebView;
+}
+
+// Give up on a PNG the WebView never delivers
+const RASTER_TIMEOUT_MS = 15000;
+
+interface MindMapExportSheetProps {
+  visible: boolean;
+  onClose: () => void;
+  // Read when a format is picked, so the export has the latest edits
+  getSource: () => ExportSource | null;
+  isDark: boolean;
+  colors: { surface: string; text: string; textSecondary: string; primary: string };
+}
+
+const MindMapExportSheet: React.FC<MindMapExportSheetProps> = ({ visible, onClose, getSource, isDark, colors }) => {
+  const [busyFormat, setBusyFormat] = useState<ExportFormat | null>(null);
+  // Page for the hidden WebView that turns the SVG into a PNG on native
+  const [rasterHtml, setRasterHtml] = useState<string | null>(null);
+  const rasterRef = useRef<{ resolve: (base64: string) => void; reject: (error: Error) => void } | null>(null);
+
+  const rasterize = useCallback((rendered: RenderedSvg) => new Promise<string>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      rasterRef.current = null;
+      reject(new Error('Rendering the image took too long'));
+    }, RASTER_TIMEOUT_MS);
+    rasterRef.current = {
+      resolve: (base64) => { clearTimeout(timer); resolve(base64); },
+      reject: (error) => { clearTimeout(timer); reject(error); },
+    };
+    setRasterHtml(toRasterHtml(rendered));
+  }), []);
+
+  const handleRasterMessage = useCallback((event: any) => {
+    const data: string = event.nativeEvent.data;
+    const pending = rasterRef.current;
+    rasterRef.current = null;
+    if (!pending) return;
+    if (data.startsWith('data:image/png')) pending.resolve(data.split(',')[1]);
+    else pending.reject(new Error('Failed to render the image'));
+  }, []);
+
+  const handleExport = useCallback(async (format: ExportFormat) => {
+    setBusyFormat(format);
+    try {
+      const source = getSource();
+      if (!source || !source.nodes.length) {
+        Alert.alert('Nothing to export', 'Add some nodes to the mind map first.');
+        return;
+      }
+      await exportMindMap(source, format, { dark: isDark, rasterize });
+      onClose();
+    } catch (error: any) {
+      console.error('Error exporting mind map:', error);
+      Alert.alert('Export failed', error?.message || 'Could not export the mind map');
+    } finally {
+      setBusyFormat(null);
+      setRasterHtml(null);
+    }
+  }, [getSource, isDark, rasterize, onClose]);
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <TouchableOpacity style={styles.overlay} activeOpacity={1} onPress={busyFormat ? undefined : onClose}>
+        <View style={[styles.menu, { backgroundColor: colors.surface }]}>
+          <Text style={[styles.title, { color: colors.textSecondary }]}>Export as</Text>
+
+          {EXPORT_FORMATS.map(({ format, label, icon }) => (
+            <TouchableOpacity
+              key={format}
+              style={styles.item}
+              onPress={() => handleExport(format)}
+              disabled={!!busyFormat}
+            >
+              <Ionicons name={icon as any} size={18} color={colors.text} />
+              <Text style={[styles.itemText, { color: colors.text }]}>{label}</Text>
+              {busyFormat === format && <ActivityIndicator size="small" color={colors.primary} />}
+            </TouchableOpacity>
+          ))}
+
+          {WebView && rasterHtml && (
+            <View style={styles.rasterizer} pointerEvents="none">
+              <WebView
+                source={{ html: rasterHtml }}
+                originWhitelist={['*']}
+                javaScriptEnabled
+                onMessage={handleRasterMessage}
+              />
+            </View>
+          )}
+        </View>
+      </TouchableOpacity>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: { flex: 1, backgroundColor: 'rgba(0,0,0,0.35)', justifyContent: 'center', alignItems: 'center' },
+  menu: { borderRadius: 16, padding: 6, minWidth: 240, maxWidth: 300, shadowColor: '#000', shadowOffset: { width: 0, height: 4 }, shadowOpacity: 0.2, shadowRadius: 12, elevation: 10 },
+  title: { fontSize: 12, fontWeight: '600', textTransform: 'uppercase', paddingHorizontal: 12, paddingTop: 10, paddingBottom: 4 },
+  item: { flexDirection: 'row', alignItems: 'center', padding: 12, borderRadius: 10, gap: 12 },
+  itemText: { flex: 1, fontSize: 14, fontWeight: '500' },
+  // Off-screen but laid out, so the page still runs
+  rasterizer: { position: 'absolute', width: 1, height: 1, opacity: 0, overflow: 'hidden' },
+});
+
+export default MindMapExportSheet;
@@ -13,3 +13,7 @@ export * from './types';
 export * from './services/mindMapApi';
 export * from './services/aiMindMapStorage';
 export * from './services/openRouterApi';
+export * from './services/mermaidConverter';
+export * from './services/mindMapLayout';
+export * from './services/mindMapExport';
+export * from './services/mindMapSync';
@@ -22,7 +22,9 @@ import { Ionicons, MaterialCommunityIcons } from '@expo/vector-icons';
 import { StatusBar } from 'expo-status-bar';
 
 import { useTheme } from '../../Reference/theme/ThemeContext';
+import { useAuth } from '../../../context/AuthContext';
 import MermaidCanvas, { RenderType } from '../components/MermaidCanvas';
+import MindMapExportSheet from '../components/MindMapExportSheet';
 import {
   AIMindMap,
   ChatMessage,
@@ -35,6 +37,13 @@ import {
   generateMindMap,
   Message,
 } from '../services/openRouterApi';
+import {
+  createMindMap as createEditorMindMap,
+  createNode,
+  createConnection,
+} from '../services/mindMapApi';
+import { parseMermaidMindmap, ParsedMermaidMindMap } from '../services/mermaidConverter';
+import { sourceFromMermaid } from '../services/mindMapExport';
 import { Input } from '../../../components/Input';
 
 interface AIMindMapScreenProps {
@@ -56,6 +65,7 @@ type ViewMode = 'chat' | 'canvas';
 const AIMindMapScreen: React.FC<AIMindMapScreenProps> = ({ navigation, route }) => {
   const insets = useSafeAreaInsets();
   const { theme, isDark } = useTheme();
+  const { user } = useAuth() as { user: { id?: number } | null };
   const colors = theme.colors;
   const scrollViewRef = useRef<ScrollView>(null);
 
@@ -72,6 +82,8 @@ const AIMindMapScreen: React.FC<AIMindMapScreenProps> = ({ navigation, route })
   const [error, setError] = useState<string | null>(null);
   const [viewMode, setViewMode] = useState<ViewMode>('chat');
   const [renderType, setRenderType] = useState<RenderType>('mindmap');
+  const [openingEditor, setOpeningEditor] = useState(false);
+  const [showExport, setShowExport] = useState(false);
 
   // Load or create mind map
   useEffect(() => {
@@ -104,6 +116,16 @@ const AIMindMapScreen: React.FC<AIMindMapScreenProps> = ({ navigation, route })
     loadMindMap();
   }, [mindMapId, isNew, initialTitle, initialDescription, navigation]);
 
+  // Pick up edits sent back from the mind map editor
+  const storedId = mindMap?.id;
+  useEffect(() => {
+    if (!storedId) return undefined;
+    return navigation.addListener('focus', async () => {
+      const latest = await getMindMap(storedId);
+      if (latest) setMindMap(latest);
+    });
+  }, [storedId, navigation]);
+
   // Scroll to bottom when messages change
   useEffect(() => {
     if (mindMap?.messages.length && viewMode === 'chat') {
@@ -167,6 +189,62 @@ const AIMindMapScreen: React.FC<AIMindMapScreenProps> = ({ navigation, route })
     }
   }, [inputText, mindMap, generating]);
 
+  // Copy the AI diagram into an editable canvas mind map
+  const openEditorCopy = useCallback(async () => {
+    if (!mindMap?.mermaidCode) return;
+    if (!user?.id) {
+      Alert.alert('Error', 'Please log in to edit mind maps');
+      return;
+    }
+
+    let parsed: ParsedMermaidMindMap;
+    try {
+      parsed = parseMermaidMindmap(mindMap.mermaidCode, { connectionColor: isDark ? '#475569' : '#CBD5E1' });
+    } catch (err: any) {
+      Alert.alert('Cannot Open in Editor', err.message);
+      return;
+    }
+
+    setOpeningEditor(true);
+    try {
+      const editorMindMap = await createEditorMindMap(user.id, mindMap.title, mindMap.description || undefined);
+      await Promise.all(parsed.nodes.map(node => createNode(editorMindMap.id, node)));
+      await Promise.all(parsed.connections.map(connection => createConnection(editorMindMap.id, connection)));
+
+      const linkedMindMap = { ...mindMap, editorMindMapId: editorMindMap.id };
+      setMindMap(linkedMindMap);
+      await saveMindMap(linkedMindMap);
+
+      navigation.navigate('MindMapEditor', { mindMapId: editorMindMap.id, aiMindMapId: mindMap.id });
+    } catch (err) {
+      console.error('Failed to open mind map in editor:', err);
+      Alert.alert('Error', 'Failed to open the mind map in the editor. Please try again.');
+    } finally {
+      setOpeningEditor(false);
+    }
+  }, [mindMap, user, isDark, navigation]);
+
+  const getExportSource = useCallback(
+    () => (mindMap?.mermaidCode ? sourceFromMermaid(mindMap.mermaidCode, mindMap.title) : null),
+    [mindMap]
+  );
+
+  const handleOpenInEditor = useCallback(() => {
+    if (!mindMap?.editorMindMapId) {
+      openEditorCopy();
+      return;
+    }
+
+    Alert.alert('Open in Editor', 'This mind map was opened in the editor before. Continue with that copy or start a new one from the current diagram?', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'New Copy', onPress: openEditorCopy },
+      {
+        text: 'Continue',
+        onPress: () => navigation.navigate('MindMapEditor', { mindMapId: mindMap.editorMindMapId, aiMindMapId: mindMap.id }),
+      },
+    ]);
+  }, [mindMap, openEditorCopy, navigation]);
+
   // Render message
   const renderMessage = (msg: ChatMessage, index: number) => {
     const isUser = msg.role === 'user';
@@ -306,6 +384,22 @@ const AIMindMapScreen: React.FC<AIMindMapScreenProps> = ({ navigation, route })
           renderType={renderType}
         />
 
+        {/* Open in Editor */}
+        <TouchableOpacity
+          style={[styles.editorBtn, { backgroundColor: colors.surface, borderColor: colors.borderLight }]}
+          onPress={handleOpenInEditor}
+          disabled={openingEditor}
+        >
+          {openingEditor ? (
+            <ActivityIndicator size="small" color={colors.primary} />
+          ) : (
+            <Ionicons name="create-outline" size={18} color={colors.primary} />
+          )}
+          <Text style={[styles.editorBtnText, { color: colors.primary }]}>
+            {openingEditor ? 'Opening...' : 'Open in Editor'}
+          </Text>
+        </TouchableOpacity>
+
         {/* Floating Chat Button */}
         <TouchableOpacity
           style={[styles.floatingBtn, { backgroundColor: colors.primary }]}
@@ -347,6 +441,15 @@ const AIMindMapScreen: React.FC<AIMindMapScreenProps> = ({ navigation, route })
           </Text>
         </View>
 
+        {!!mindMap?.mermaidCode && (
+          <TouchableOpacity
+            style={[styles.headerBtn, styles.exportBtn, { backgroundColor: colors.surfaceSecondary }]}
+            onPress={() => setShowExport(true)}
+          >
+            <Ionicons name="share-outline" size={20} color={colors.text} />
+          </TouchableOpacity>
+        )}
+
         {/* View Toggle */}
         <View style={[styles.viewToggle, { backgroundColor: colors.surfaceSecondary }]}>
           <TouchableOpacity
@@ -438,6 +541,14 @@ const AIMindMapScreen: React.FC<AIMindMapScreenProps> = ({ navigation, route })
         renderCanvasView()
       )}
 
+      <MindMapExportSheet
+        visible={showExport}
+        onClose={() => setShowExport(false)}
+        getSource={getExportSource}
+        isDark={isDark}
+        colors={colors}
+      />
+
       {/* Error Toast */}
       {error && (
         <View style={[styles.errorToast, { backgroundColor: colors.error }]}>
@@ -474,6 +585,9 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  exportBtn: {
+    marginRight: 8,
+  },
   headerCenter: {
     flex: 1,
     alignItems: 'center',
@@ -698,6 +812,27 @@ const styles = StyleSheet.create({
     fontSize: 15,
     fontWeight: '600',
   },
+  editorBtn: {
+    position: 'absolute',
+    bottom: 32,
+    left: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderRadius: 20,
+    borderWidth: 1,
+    gap: 8,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.15,
+    shadowRadius: 6,
+    elevation: 4,
+  },
+  editorBtnText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
   floatingBtn: {
     position: 'absolute',
     bottom: 24,
@@ -13,9 +13,20 @@ import {
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Ionicons, MaterialCommunityIcons } from '@expo/vector-icons';
 import { StatusBar } from 'expo-status-bar';
+import * as DocumentPicker from 'expo-document-picker';
 
 import { useTheme } from '../../Reference/theme/ThemeContext';
-import { fetchUserMindMaps, createMindMap, deleteMindMap, MindMapListItem } from '../services/mindMapApi';
+import {
+  fetchUserMindMaps,
+  createMindMap,
+  deleteMindMap,
+  createNode,
+  createConnection,
+  MindMapListItem,
+} from '../services/mindMapApi';
+import { layoutOutline } from '../services/mermaidConverter';
+import { parseOutlineFile, readTextFile } from '../services/mindMapExport';
+import { forgetMindMap } from '../services/mindMapSync';
 import { useAuth } from '../../../context/AuthContext';
 import { Input } from '../../../components/Input';
 
@@ -27,7 +38,7 @@ const MindMapListScreen: React.FC<MindMapListScreenProps> = ({ navigation }) =>
   const insets = useSafeAreaInsets();
   const { theme, isDark } = useTheme();
   const colors = theme.colors;
-  const { user } = useAuth();
+  const { user } = useAuth() as { user: { id?: number } | null };
 
   const [mindMaps, setMindMaps] = useState<MindMapListItem[]>([]);
   const [loading, setLoading] = useState(true);
@@ -36,6 +47,7 @@ const MindMapListScreen: React.FC<MindMapListScreenProps> = ({ navigation }) =>
   const [newTitle, setNewTitle] = useState('');
   const [newDescription, setNewDescription] = useState('');
   const [creating, setCreating] = useState(false);
+  const [importing, setImporting] = useState(false);
 
   // Load mind maps
   const loadMindMaps = useCallback(async (showLoader = true) => {
@@ -95,6 +107,35 @@ const MindMapListScreen: React.FC<MindMapListScreenProps> = ({ navigation }) =>
     }
   };
 
+  // Import an OPML, FreeMind or Markdown outline as a new mind map
+  const handleImport = async () => {
+    if (!user?.id) {
+      Alert.alert('Error', 'Please log in to import a mind map');
+      return;
+    }
+
+    try {
+      const result = await DocumentPicker.getDocumentAsync({ type: '*/*', copyToCacheDirectory: true });
+      if (result.canceled || !result.assets?.[0]) return;
+      const asset = result.assets[0];
+
+      setImporting(true);
+      const outline = parseOutlineFile(await readTextFile(asset.uri), asset.name);
+      const parsed = layoutOutline(outline, { connectionColor: isDark ? '#475569' : '#CBD5E1' });
+
+      const newMindMap = await createMindMap(user.id, parsed.title, `Imported from ${asset.name}`);
+      await Promise.all(parsed.nodes.map(node => createNode(newMindMap.id, node)));
+      await Promise.all(parsed.connections.map(connection => createConnection(newMindMap.id, connection)));
+
+      navigation.navigate('MindMapEditor', { mindMapId: newMindMap.id });
+    } catch (error: any) {
+      console.error('Failed to import mind map:', error);
+      Alert.alert('Import failed', error?.message || 'Failed to import the file. Please try again.');
+    } finally {
+      setImporting(false);
+    }
+  };
+
   // Delete mind map
   const handleDelete = (item: MindMapListItem) => {
     Alert.alert(
@@ -108,6 +149,7 @@ const MindMapListScreen: React.FC<MindMapListScreenProps> = ({ navigation }) =>
           onPress: async () => {
             try {
               await deleteMindMap(item.id);
+              await forgetMindMap(item.id);
               setMindMaps(prev => prev.filter(m => m.id !== item.id));
             } catch (error) {
               console.error('Failed to delete mind map:', error);
@@ -213,6 +255,18 @@ const MindMapListScreen: React.FC<MindMapListScreenProps> = ({ navigation }) =>
           </View>
         </View>
 
+        <TouchableOpacity
+          style={[styles.headerBtn, styles.importBtn, { backgroundColor: colors.surfaceSecondary }]}
+          onPress={handleImport}
+          disabled={importing}
+        >
+          {importing ? (
+            <ActivityIndicator size="small" color={colors.primary} />
+          ) : (
+            <Ionicons name="download-outline" size={20} color={colors.text} />
+          )}
+        </TouchableOpacity>
+
         <TouchableOpacity
           style={[styles.createBtn, { backgroundColor: colors.primary }]}
           onPress={() => setShowCreateModal(true)}
@@ -311,6 +365,7 @@ const styles = StyleSheet.create({
   headerTitle: { fontSize: 20, fontWeight: '700' },
   countBadge: { paddingHorizontal: 10, paddingVertical: 3, borderRadius: 10 },
   countText: { fontSize: 13, fontWeight: '600' },
+  importBtn: { marginRight: 8 },
   createBtn: { width: 40, height: 40, borderRadius: 12, justifyContent: 'center', alignItems: 'center' },
 
   list: { padding: 16 },
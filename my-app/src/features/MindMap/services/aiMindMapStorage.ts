@@ -13,6 +13,7 @@ export interface AIMindMap {
   description: string;
   mermaidCode: string;
   messages: ChatMessage[];
+  editorMindMapId?: number; // Canvas copy opened in the mind map editor
   createdAt: string;
   updatedAt: string;
 }
@@ -0,0 +1,329 @@
+/**
+ * Mermaid Mind Map Converter
+ * Turns AI-generated Mermaid `mindmap` code into editable canvas nodes and
+ * connections, and serializes a canvas back to Mermaid for the AI chat.
+ * Both directions go through an outline tree, which the export service
+ * shares for Markdown, OPML and FreeMind.
+ */
+
+import { MindMapNode, MindMapConnection, NODE_COLORS } from '../types';
+import { generateId } from './aiMindMapStorage';
+
+// Mermaid mindmap node shapes
+export type MermaidShape = 'default' | 'circle' | 'rounded' | 'square' | 'bang' | 'cloud' | 'hexagon';
+
+export interface ParsedMermaidMindMap {
+  title: string;
+  nodes: MindMapNode[];
+  connections: MindMapConnection[];
+}
+
+export interface ParseOptions {
+  connectionColor?: string;
+}
+
+export interface OutlineItem {
+  label: string;
+  shape?: MermaidShape;
+  children: OutlineItem[];
+}
+
+// Longest delimiters first so `((x))` is not read as `(x)`
+const SHAPE_DELIMITERS: { open: string; close: string; shape: MermaidShape }[] = [
+  { open: '((', close: '))', shape: 'circle' },
+  { open: '))', close: '((', shape: 'bang' },
+  { open: '{{', close: '}}', shape: 'hexagon' },
+  { open: '(', close: ')', shape: 'rounded' },
+  { open: ')', close: '(', shape: 'cloud' },
+  { open: '[', close: ']', shape: 'square' },
+];
+
+// The canvas has fewer shapes; the Mermaid one is kept in node metadata
+const CANVAS_SHAPES: Record<MermaidShape, MindMapNode['shape']> = {
+  default: 'rounded',
+  circle: 'circle',
+  rounded: 'rounded',
+  square: 'rectangle',
+  bang: 'rounded',
+  cloud: 'rounded',
+  hexagon: 'diamond',
+};
+
+const MERMAID_SHAPES: Record<MindMapNode['shape'], MermaidShape> = {
+  rounded: 'rounded',
+  rectangle: 'square',
+  circle: 'circle',
+  diamond: 'hexagon',
+};
+
+// Layout spacing for parsed maps (canvas coordinates are node centers)
+const LEVEL_GAP = 240;
+const ROW_GAP = 56;
+
+const NODE_HEIGHT = 40;
+const DEFAULT_CONNECTION_COLOR = '#94A3B8';
+
+const nodeWidth = (label: string) => Math.max(100, label.length * 8 + 40);
+
+const stripCodeFence = (code: string): string => {
+  const fenced = code.match(/```(?:mermaid)?\s*\n([\s\S]*?)```/);
+  return fenced ? fenced[1] : code;
+};
+
+const cleanLabel = (text: string): string => {
+  let label = text.trim();
+  if (/^".*"$/.test(label)) label = label.slice(1, -1);
+  if (/^`.*`$/.test(label)) label = label.slice(1, -1);
+  return label.replace(/<br\s*\/?>/gi, ' ').replace(/\s+/g, ' ').trim();
+};
+
+const parseNodeText = (text: string): { label: string; shape: MermaidShape } => {
+  for (const { open, close, shape } of SHAPE_DELIMITERS) {
+    const start = text.indexOf(open);
+    if (start < 0 || !text.endsWith(close) || text.length < start + open.length + close.length) continue;
+
+    // Anything before the delimiter is the node id, which has no spaces
+    const id = text.slice(0, start);
+    if (/\s/.test(id)) continue;
+
+    const label = cleanLabel(text.slice(start + open.length, text.length - close.length));
+    if (label) return { label, shape };
+  }
+  return { label: cleanLabel(text), shape: 'default' };
+};
+
+const indentOf = (line: string): number => {
+  let width = 0;
+  for (const char of line) {
+    if (char === ' ') width += 1;
+    else if (char === '\t') width += 2;
+    else break;
+  }
+  return width;
+};
+
+/**
+ * Read the indentation tree of a Mermaid mindmap. Extra top-level nodes are
+ * placed under the first one, since a mindmap has a single root.
+ */
+const parseTree = (code: string): OutlineItem => {
+  const lines = stripCodeFence(code).split(/\r?\n/);
+  const start = lines.findIndex(line => line.trim() && !line.trim().startsWith('%%'));
+
+  if (start < 0 || lines[start].trim() !== 'mindmap') {
+    throw new Error('Only Mermaid mindmap diagrams can be opened in the editor');
+  }
+
+  let root: OutlineItem | null = null;
+  const stack: { indent: number; item: OutlineItem }[] = [];
+
+  for (const line of lines.slice(start + 1)) {
+    const text = line.trim();
+    // Comments, icons and classes carry nothing the canvas can show
+    if (!text || text.startsWith('%%') || text.startsWith('::icon') || text.startsWith(':::')) continue;
+
+    const item: OutlineItem = { ...parseNodeText(text), children: [] };
+    if (!item.label) continue;
+
+    const indent = indentOf(line);
+    while (stack.length && stack[stack.length - 1].indent >= indent) stack.pop();
+
+    if (!root) {
+      root = item;
+    } else {
+      (stack.length ? stack[stack.length - 1].item : root).children.push(item);
+    }
+    stack.push({ indent, item });
+  }
+
+  if (!root) throw new Error('The mind map has no nodes');
+  return root;
+};
+
+const countLeaves = (item: OutlineItem): number =>
+  item.children.length ? item.children.reduce((total, child) => total + countLeaves(child), 0) : 1;
+
+/**
+ * Position an outline as canvas nodes and connections.
+ * The root sits at the origin; its branches are split between the right and
+ * left so both sides hold a similar number of leaves, and every node is
+ * centered on the rows of its subtree.
+ */
+export const layoutOutline = (root: OutlineItem, options: ParseOptions = {}): ParsedMermaidMindMap => {
+  const connectionColor = options.connectionColor || DEFAULT_CONNECTION_COLOR;
+
+  const nodes: MindMapNode[] = [];
+  const connections: MindMapConnection[] = [];
+
+  const addNode = (item: OutlineItem, x: number, y: number, color: string): MindMapNode => {
+    const shape = item.shape || 'default';
+    const node: MindMapNode = {
+      id: generateId(),
+      label: item.label,
+      x: Math.round(x),
+      y: Math.round(y),
+      width: nodeWidth(item.label),
+      height: NODE_HEIGHT,
+      color,
+      shape: CANVAS_SHAPES[shape],
+      fontSize: nodes.length === 0 ? 16 : 14,
+      metadata: { mermaidShape: shape },
+    };
+    nodes.push(node);
+    return node;
+  };
+
+  const connect = (source: MindMapNode, target: MindMapNode) => {
+    connections.push({
+      id: generateId(),
+      sourceNodeId: source.id,
+      targetNodeId: target.id,
+      color: connectionColor,
+      strokeWidth: 1.5,
+      style: 'solid',
+      animated: false,
+    });
+  };
+
+  // Lay out a subtree whose leaves start at row `firstRow`; returns its node
+  const layout = (item: OutlineItem, depth: number, side: 1 | -1, firstRow: number, color: string): MindMapNode => {
+    const leaves = countLeaves(item);
+    const node = addNode(item, side * depth * LEVEL_GAP, (firstRow + (leaves - 1) / 2) * ROW_GAP, color);
+
+    let row = firstRow;
+    item.children.forEach(child => {
+      connect(node, layout(child, depth + 1, side, row, color));
+      row += countLeaves(child);
+    });
+    return node;
+  };
+
+  const rootNode = addNode(root, 0, 0, NODE_COLORS[0]);
+
+  // Fill the right side up to half of the leaves, the rest goes left
+  const totalLeaves = countLeaves(root);
+  const right: OutlineItem[] = [];
+  const left: OutlineItem[] = [];
+  let rightLeaves = 0;
+  root.children.forEach(child => {
+    if (rightLeaves < totalLeaves / 2 || !right.length) {
+      right.push(child);
+      rightLeaves += countLeaves(child);
+    } else {
+      left.push(child);
+    }
+  });
+
+  let branch = 0;
+  [{ items: right, side: 1 as const }, { items: left, side: -1 as const }].forEach(({ items, side }) => {
+    const sideLeaves = items.reduce((total, item) => total + countLeaves(item), 0);
+    let row = -(sideLeaves - 1) / 2;
+    items.forEach(item => {
+      branch += 1;
+      connect(rootNode, layout(item, 1, side, row, NODE_COLORS[branch % NODE_COLORS.length]));
+      row += countLeaves(item);
+    });
+  });
+
+  return { title: root.label, nodes, connections };
+};
+
+/** Parse Mermaid mindmap code into positioned canvas nodes and connections */
+export const parseMermaidMindmap = (code: string, options: ParseOptions = {}): ParsedMermaidMindMap =>
+  layoutOutline(parseTree(code), options);
+
+const escapeLabel = (label: string): string => {
+  const text = label.replace(/\s+/g, ' ').trim().replace(/"/g, "'");
+  return /[()[\]{}]/.test(text) ? `"${text}"` : text;
+};
+
+const formatNode = (label: string, shape: MermaidShape): string => {
+  if (shape === 'default') return escapeLabel(label);
+  const delimiters = SHAPE_DELIMITERS.find(d => d.shape === shape)!;
+  return `${delimiters.open}${escapeLabel(label)}${delimiters.close}`;
+};
+
+// The parsed Mermaid shape, unless the node's shape was changed in the editor
+const shapeOf = (node: MindMapNode): MermaidShape => {
+  const parsed = node.metadata?.mermaidShape as MermaidShape | undefined;
+  if (parsed && CANVAS_SHAPES[parsed] === node.shape) return parsed;
+  return MERMAID_SHAPES[node.shape] || 'rounded';
+};
+
+/**
+ * Outline of canvas nodes and connections.
+ * The root is the node with no incoming links and the most outgoing ones.
+ * Links are followed in either direction; a node reached twice keeps its
+ * first parent, and nodes not linked to the root are placed under it.
+ */
+export const toOutline = (
+  nodes: MindMapNode[],
+  connections: MindMapConnection[],
+  title = 'Mind Map'
+): OutlineItem => {
+  if (!nodes.length) return { label: title, shape: 'circle', children: [] };
+
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  const neighbours = new Map<string, string[]>(nodes.map(node => [node.id, []]));
+  const incoming = new Map<string, number>();
+  const outgoing = new Map<string, number>();
+
+  connections.forEach(({ sourceNodeId, targetNodeId }) => {
+    if (!byId.has(sourceNodeId) || !byId.has(targetNodeId) || sourceNodeId === targetNodeId) return;
+    neighbours.get(sourceNodeId)!.push(targetNodeId);
+    neighbours.get(targetNodeId)!.push(sourceNodeId);
+    outgoing.set(sourceNodeId, (outgoing.get(sourceNodeId) || 0) + 1);
+    incoming.set(targetNodeId, (incoming.get(targetNodeId) || 0) + 1);
+  });
+
+  const rank = (node: MindMapNode) =>
+    (incoming.get(node.id) ? 0 : 1000) + (outgoing.get(node.id) || 0);
+  const root = nodes.reduce((best, node) => (rank(node) > rank(best) ? node : best), nodes[0]);
+
+  const children = new Map<string, string[]>();
+  const visited = new Set<string>();
+
+  const walk = (startId: string) => {
+    visited.add(startId);
+    const queue = [startId];
+    while (queue.length) {
+      const id = queue.shift()!;
+      const next = neighbours.get(id)!.filter(other => !visited.has(other));
+      next.forEach(other => visited.add(other));
+      children.set(id, [...(children.get(id) || []), ...next]);
+      queue.push(...next);
+    }
+  };
+
+  walk(root.id);
+  nodes.forEach(node => {
+    if (visited.has(node.id)) return;
+    children.set(root.id, [...(children.get(root.id) || []), node.id]);
+    walk(node.id);
+  });
+
+  const build = (id: string): OutlineItem => {
+    const node = byId.get(id)!;
+    return { label: node.label, shape: shapeOf(node), children: (children.get(id) || []).map(build) };
+  };
+  return build(root.id);
+};
+
+/** Serialize canvas nodes and connections to Mermaid mindmap code */
+export const toMermaidMindmap = (
+  nodes: MindMapNode[],
+  connections: MindMapConnection[],
+  title = 'Mind Map'
+): string => {
+  const root = toOutline(nodes, connections, title);
+  const lines = ['mindmap', `  root((${escapeLabel(root.label)}))`];
+  const write = (item: OutlineItem, depth: number) => {
+    item.children.forEach(child => {
+      lines.push(`${'  '.repeat(depth + 1)}${formatNode(child.label, child.shape || 'default')}`);
+      write(child, depth + 1);
+    });
+  };
+  write(root, 1);
+
+  return lines.join('\n');
+};
@@ -1,5 +1,21 @@
 import { getMobileApiEndpoint } from '../../../config/api';
-import { MindMapNode, MindMapConnection } from '../types';
+import { getAuthHeaders } from '../../../services/billingService';
+import { MindMapNode, MindMapConnection, CanvasState } from '../types';
+
+/**
+ * A request the server answered but refused. `status` tells a change that can
+ * never apply (4xx) from one worth retrying (5xx); network failures are
+ * plain errors.
+ */
+export class MindMapApiError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'MindMapApiError';
+    this.status = status;
+  }
+}
 
 export interface MindMapData {
   id: number;
@@ -8,7 +24,7 @@ export interface MindMapData {
   description?: string;
   thumbnail?: string;
   isPublic: boolean;
-  canvasState?: { zoom: number; offsetX: number; offsetY: number };
+  canvasState?: CanvasState;
   tags: string[];
   nodes: MindMapNode[];
   connections: MindMapConnection[];
@@ -34,11 +50,11 @@ export const fetchUserMindMaps = async (userId: number): Promise<MindMapListItem
     const url = getMobileApiEndpoint(`/mindmaps?userId=${userId}`);
     console.log('[MindMapAPI] Fetching mind maps for user:', userId);
     
-    const response = await fetch(url);
+    const response = await fetch(url, { headers: await getAuthHeaders() });
     const data = await response.json();
     
     if (!data.success) {
-      throw new Error(data.error || 'Failed to fetch mind maps');
+      throw new MindMapApiError(data.error || 'Failed to fetch mind maps', response.status);
     }
     
     return data.mindMaps;
@@ -53,14 +69,14 @@ export const fetchMindMap = async (mindMapId: number): Promise<MindMapData> => {
     const url = getMobileApiEndpoint(`/mindmaps/${mindMapId}`);
     console.log('[MindMapAPI] Fetching mind map:', mindMapId);
     
-    const response = await fetch(url);
+    const response = await fetch(url, { headers: await getAuthHeaders() });
     const data = await response.json();
     
     console.log('[MindMapAPI] Raw response:', JSON.stringify(data, null, 2));
     console.log('[MindMapAPI] Connections from API:', data.mindMap?.connections);
     
     if (!data.success) {
-      throw new Error(data.error || 'Failed to fetch mind map');
+      throw new MindMapApiError(data.error || 'Failed to fetch mind map', response.status);
     }
     
     // Transform nodes from DB format to app format
@@ -124,14 +140,14 @@ export const createMindMap = async (userId: number, title: string, description?:
     
     const response = await fetch(url, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
       body: JSON.stringify({ userId, title, description }),
     });
     
     const data = await response.json();
     
     if (!data.success) {
-      throw new Error(data.error || 'Failed to create mind map');
+      throw new MindMapApiError(data.error || 'Failed to create mind map', response.status);
     }
     
     return { ...data.mindMap, nodes: [], connections: [] };
@@ -143,21 +159,21 @@ export const createMindMap = async (userId: number, title: string, description?:
 
 export const updateMindMap = async (
   mindMapId: number,
-  updates: { title?: string; description?: string; canvasState?: any; tags?: string[] }
+  updates: { title?: string; description?: string; canvasState?: CanvasState; tags?: string[] }
 ): Promise<void> => {
   try {
     const url = getMobileApiEndpoint(`/mindmaps/${mindMapId}`);
     
     const response = await fetch(url, {
       method: 'PUT',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
       body: JSON.stringify(updates),
     });
     
     const data = await response.json();
     
     if (!data.success) {
-      throw new Error(data.error || 'Failed to update mind map');
+      throw new MindMapApiError(data.error || 'Failed to update mind map', response.status);
     }
   } catch (error) {
     console.error('[MindMapAPI] Error updating mind map:', error);
@@ -169,11 +185,11 @@ export const deleteMindMap = async (mindMapId: number): Promise<void> => {
   try {
     const url = getMobileApiEndpoint(`/mindmaps/${mindMapId}`);
     
-    const response = await fetch(url, { method: 'DELETE' });
+    const response = await fetch(url, { method: 'DELETE', headers: await getAuthHeaders() });
     const data = await response.json();
     
     if (!data.success) {
-      throw new Error(data.error || 'Failed to delete mind map');
+      throw new MindMapApiError(data.error || 'Failed to delete mind map', response.status);
     }
   } catch (error) {
     console.error('[MindMapAPI] Error deleting mind map:', error);
@@ -189,7 +205,7 @@ export const createNode = async (mindMapId: number, node: MindMapNode): Promise<
     
     const response = await fetch(url, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
       body: JSON.stringify({
         nodeId: node.id,
         label: node.label,
@@ -206,7 +222,7 @@ export const createNode = async (mindMapId: number, node: MindMapNode): Promise<
     const data = await response.json();
     
     if (!data.success) {
-      throw new Error(data.error || 'Failed to create node');
+      throw new MindMapApiError(data.error || 'Failed to create node', response.status);
     }
   } catch (error) {
     console.error('[MindMapAPI] Error creating node:', error);
@@ -224,14 +240,14 @@ export const updateNode = async (
     
     const response = await fetch(url, {
       method: 'PUT',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
       body: JSON.stringify({ nodeId, ...updates }),
     });
     
     const data = await response.json();
     
     if (!data.success) {
-      throw new Error(data.error || 'Failed to update node');
+      throw new MindMapApiError(data.error || 'Failed to update node', response.status);
     }
   } catch (error) {
     console.error('[MindMapAPI] Error updating node:', error);
@@ -243,11 +259,11 @@ export const deleteNode = async (mindMapId: number, nodeId: string): Promise<voi
   try {
     const url = getMobileApiEndpoint(`/mindmaps/${mindMapId}/nodes?nodeId=${nodeId}`);
     
-    const response = await fetch(url, { method: 'DELETE' });
+    const response = await fetch(url, { method: 'DELETE', headers: await getAuthHeaders() });
     const data = await response.json();
     
     if (!data.success) {
-      throw new Error(data.error || 'Failed to delete node');
+      throw new MindMapApiError(data.error || 'Failed to delete node', response.status);
     }
   } catch (error) {
     console.error('[MindMapAPI] Error deleting node:', error);
@@ -264,14 +280,14 @@ export const batchUpdateNodePositions = async (
     
     const response = await fetch(url, {
       method: 'PATCH',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
       body: JSON.stringify({ nodes }),
     });
     
     const data = await response.json();
     
     if (!data.success) {
-      throw new Error(data.error || 'Failed to update node positions');
+      throw new MindMapApiError(data.error || 'Failed to update node positions', response.status);
     }
   } catch (error) {
     console.error('[MindMapAPI] Error batch updating nodes:', error);
@@ -300,7 +316,7 @@ export const createConnection = async (mindMapId: number, connection: MindMapCon
     
     const response = await fetch(url, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
       body: JSON.stringify(payload),
     });
     
@@ -308,7 +324,7 @@ export const createConnection = async (mindMapId: number, connection: MindMapCon
     console.log('[MindMapAPI] Create connection response:', data);
     
     if (!data.success) {
-      throw new Error(data.error || 'Failed to create connection');
+      throw new MindMapApiError(data.error || 'Failed to create connection', response.status);
     }
   } catch (error) {
     console.error('[MindMapAPI] Error creating connection:', error);
@@ -320,11 +336,11 @@ export const deleteConnection = async (mindMapId: number, connectionId: string):
   try {
     const url = getMobileApiEndpoint(`/mindmaps/${mindMapId}/connections?connectionId=${connectionId}`);
     
-    const response = await fetch(url, { method: 'DELETE' });
+    const response = await fetch(url, { method: 'DELETE', headers: await getAuthHeaders() });
     const data = await response.json();
     
     if (!data.success) {
-      throw new Error(data.error || 'Failed to delete connection');
+      throw new MindMapApiError(data.error || 'Failed to delete connection', response.status);
     }
   } catch (error) {
     console.error('[MindMapAPI] Error deleting connection:', error);
@@ -338,14 +354,14 @@ export const deleteNodeConnections = async (mindMapId: number, nodeId: string):
     
     const response = await fetch(url, {
       method: 'PATCH',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
       body: JSON.stringify({ nodeId }),
     });
     
     const data = await response.json();
     
     if (!data.success) {
-      throw new Error(data.error || 'Failed to delete node connections');
+      throw new MindMapApiError(data.error || 'Failed to delete node connections', response.status);
     }
   } catch (error) {
     console.error('[MindMapAPI] Error deleting node connections:', error);
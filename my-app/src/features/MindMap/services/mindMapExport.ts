@@ -0,0 +1,471 @@
+/**
+ * Mind Map Export / Import
+ * Renders canvas maps (and AI maps through their Mermaid code) to SVG, PNG
+ * and PDF for sharing and printing, and to Markdown outline, OPML and
+ * FreeMind for other tools. Outline files can be read back as a new map.
+ */
+
+import { Platform } from 'react-native';
+import * as Sharing from 'expo-sharing';
+import * as Print from 'expo-print';
+import { MindMapNode, MindMapConnection } from '../types';
+import { OutlineItem, toOutline, parseMermaidMindmap } from './mermaidConverter';
+
+// Conditionally import FileSystem only for native
+let FileSystem: any = null;
+if (Platform.OS !== 'web') {
+  FileSystem = require('expo-file-system/legacy');
+}
+
+export type ExportFormat = 'png' | 'svg' | 'pdf' | 'markdown' | 'opml' | 'freemind';
+
+export interface ExportFormatInfo {
+  format: ExportFormat;
+  label: string;
+  icon: string; // Ionicons name
+  extension: string;
+  mimeType: string;
+}
+
+export const EXPORT_FORMATS: ExportFormatInfo[] = [
+  { format: 'png', label: 'Image (PNG)', icon: 'image-outline', extension: 'png', mimeType: 'image/png' },
+  { format: 'svg', label: 'Vector (SVG)', icon: 'shapes-outline', extension: 'svg', mimeType: 'image/svg+xml' },
+  { format: 'pdf', label: 'PDF', icon: 'document-text-outline', extension: 'pdf', mimeType: 'application/pdf' },
+  { format: 'markdown', label: 'Markdown outline', icon: 'list-outline', extension: 'md', mimeType: 'text/markdown' },
+  { format: 'opml', label: 'OPML', icon: 'code-slash-outline', extension: 'opml', mimeType: 'text/x-opml' },
+  { format: 'freemind', label: 'FreeMind (.mm)', icon: 'git-network-outline', extension: 'mm', mimeType: 'application/x-freemind' },
+];
+
+export interface SvgOptions {
+  title?: string;
+  dark?: boolean;
+}
+
+export interface RenderedSvg {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+// Exported maps are plain data; the AI screen only has Mermaid code
+export interface ExportSource {
+  title: string;
+  nodes: MindMapNode[];
+  connections: MindMapConnection[];
+}
+
+const PADDING = 40;
+const TITLE_HEIGHT = 48;
+// Largest PNG side, so big maps stay within canvas limits
+const MAX_PNG_SIZE = 4096;
+
+// ==================== TEXT HELPERS ====================
+
+const escapeXml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const unescapeXml = (text: string): string =>
+  text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&amp;/g, '&');
+
+/** File name from a map title, without the extension */
+export const fileBaseName = (title: string): string =>
+  title.trim().replace(/[^\w\- ]+/g, '').replace(/\s+/g, '_').slice(0, 60) || 'mind_map';
+
+// ==================== SVG ====================
+
+const shapeSvg = (node: MindMapNode): string => {
+  const { x, y, width, height, color } = node;
+  const left = x - width / 2;
+  const top = y - height / 2;
+  switch (node.shape) {
+    case 'circle':
+      return `<ellipse cx="${x}" cy="${y}" rx="${width / 2}" ry="${height / 2}" fill="${color}"/>`;
+    case 'diamond':
+      return `<polygon points="${x},${top - 8} ${left + width + 8},${y} ${x},${top + height + 8} ${left - 8},${y}" fill="${color}"/>`;
+    case 'rectangle':
+      return `<rect x="${left}" y="${top}" width="${width}" height="${height}" rx="2" fill="${color}"/>`;
+    default:
+      return `<rect x="${left}" y="${top}" width="${width}" height="${height}" rx="10" fill="${color}"/>`;
+  }
+};
+
+const DASHES: Record<MindMapConnection['style'], string> = {
+  solid: '',
+  dashed: ' stroke-dasharray="8 5"',
+  dotted: ' stroke-dasharray="2 4"',
+};
+
+/**
+ * Draw nodes and connections as a standalone SVG. Node coordinates are
+ * centers; the drawing is shifted so the map starts at the padding.
+ */
+export const renderSvg = (
+  nodes: MindMapNode[],
+  connections: MindMapConnection[],
+  options: SvgOptions = {}
+): RenderedSvg => {
+  const background = options.dark ? '#0F172A' : '#FFFFFF';
+  const titleColor = options.dark ? '#F1F5F9' : '#0F172A';
+  const titleSpace = options.title ? TITLE_HEIGHT : 0;
+
+  const minX = nodes.length ? Math.min(...nodes.map(n => n.x - n.width / 2 - 8)) : 0;
+  const minY = nodes.length ? Math.min(...nodes.map(n => n.y - n.height / 2 - 8)) : 0;
+  const maxX = nodes.length ? Math.max(...nodes.map(n => n.x + n.width / 2 + 8)) : 200;
+  const maxY = nodes.length ? Math.max(...nodes.map(n => n.y + n.height / 2 + 8)) : 100;
+
+  const width = Math.ceil(maxX - minX + PADDING * 2);
+  const height = Math.ceil(maxY - minY + PADDING * 2 + titleSpace);
+  const offsetX = PADDING - minX;
+  const offsetY = PADDING + titleSpace - minY;
+
+  const byId = new Map(nodes.map(node => [node.id, node]));
+
+  const edges = connections
+    .map(connection => {
+      const source = byId.get(connection.sourceNodeId);
+      const target = byId.get(connection.targetNodeId);
+      if (!source || !target) return '';
+      // Horizontal curve, like the canvas edges
+      const midX = (source.x + target.x) / 2;
+      const path = `M${source.x},${source.y} C${midX},${source.y} ${midX},${target.y} ${target.x},${target.y}`;
+      const label = connection.label
+        ? `<text x="${midX}" y="${(source.y + target.y) / 2 - 6}" font-size="11" text-anchor="middle" fill="${connection.color}">${escapeXml(connection.label)}</text>`
+        : '';
+      return `<path d="${path}" fill="none" stroke="${connection.color}" stroke-width="${connection.strokeWidth}"${DASHES[connection.style] || ''}/>${label}`;
+    })
+    .join('\n');
+
+  const shapes = nodes
+    .map(node => [
+      shapeSvg(node),
+      `<text x="${node.x}" y="${node.y}" font-size="${node.fontSize}" font-weight="600" text-anchor="middle" dominant-baseline="central" fill="#FFFFFF">${escapeXml(node.label)}</text>`,
+    ].join(''))
+    .join('\n');
+
+  const title = options.title
+    ? `<text x="${PADDING}" y="${PADDING + 8}" font-size="22" font-weight="700" fill="${titleColor}">${escapeXml(options.title)}</text>`
+    : '';
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif">`,
+    `<rect width="100%" height="100%" fill="${background}"/>`,
+    title,
+    `<g transform="translate(${offsetX} ${offsetY})">`,
+    edges,
+    shapes,
+    '</g>',
+    '</svg>',
+  ].join('\n');
+
+  return { svg, width, height };
+};
+
+/** Printable page around an SVG, scaled to the page width */
+export const toPrintHtml = (svg: string, title: string): string => `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeXml(title)}</title>
+<style>
+  @page { margin: 12mm; }
+  body { margin: 0; display: flex; justify-content: center; }
+  svg { max-width: 100%; height: auto; }
+</style>
+</head>
+<body>${svg}</body>
+</html>`;
+
+/**
+ * Page that draws an SVG on a canvas and posts the PNG data URL back through
+ * ReactNativeWebView, for native platforms without a canvas of their own.
+ */
+export const toRasterHtml = (rendered: RenderedSvg): string => {
+  const scale = Math.min(2, MAX_PNG_SIZE / Math.max(rendered.width, rendered.height));
+  return `<!DOCTYPE html>
+<html>
+<body>
+<script>
+  var img = new Image();
+  img.onload = function () {
+    var canvas = document.createElement('canvas');
+    canvas.width = ${Math.round(rendered.width * scale)};
+    canvas.height = ${Math.round(rendered.height * scale)};
+    canvas.getContext('2d').drawImage(img, 0, 0, canvas.width, canvas.height);
+    window.ReactNativeWebView.postMessage(canvas.toDataURL('image/png'));
+  };
+  img.onerror = function () { window.ReactNativeWebView.postMessage('error'); };
+  img.src = 'data:image/svg+xml;charset=utf-8,' + encodeURIComponent(${JSON.stringify(rendered.svg)});
+</script>
+</body>
+</html>`;
+};
+
+// ==================== OUTLINES ====================
+
+/** Markdown outline: the root as a heading, everything else as nested bullets */
+export const toMarkdownOutline = (root: OutlineItem): string => {
+  const lines = [`# ${root.label}`, ''];
+  const write = (item: OutlineItem, depth: number) => {
+    item.children.forEach(child => {
+      lines.push(`${'  '.repeat(depth)}- ${child.label}`);
+      write(child, depth + 1);
+    });
+  };
+  write(root, 0);
+  return `${lines.join('\n')}\n`;
+};
+
+export const toOpml = (root: OutlineItem): string => {
+  const write = (item: OutlineItem, depth: number): string => {
+    const indent = '  '.repeat(depth);
+    const text = `text="${escapeXml(item.label)}"`;
+    if (!item.children.length) return `${indent}<outline ${text}/>`;
+    return [
+      `${indent}<outline ${text}>`,
+      ...item.children.map(child => write(child, depth + 1)),
+      `${indent}</outline>`,
+    ].join('\n');
+  };
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    `  <head><title>${escapeXml(root.label)}</title></head>`,
+    '  <body>',
+    write(root, 2),
+    '  </body>',
+    '</opml>',
+    '',
+  ].join('\n');
+};
+
+/** FreeMind map; branches of the root alternate sides like the canvas layout */
+export const toFreeMind = (root: OutlineItem): string => {
+  const write = (item: OutlineItem, depth: number, position?: 'left' | 'right'): string => {
+    const indent = '  '.repeat(depth);
+    const attrs = `TEXT="${escapeXml(item.label)}"${position ? ` POSITION="${position}"` : ''}`;
+    if (!item.children.length) return `${indent}<node ${attrs}/>`;
+    return [
+      `${indent}<node ${attrs}>`,
+      ...item.children.map((child, i) =>
+        write(child, depth + 1, depth === 1 ? (i % 2 === 0 ? 'right' : 'left') : undefined)
+      ),
+      `${indent}</node>`,
+    ].join('\n');
+  };
+  return ['<map version="1.0.1">', write(root, 1), '</map>', ''].join('\n');
+};
+
+// ==================== IMPORT ====================
+
+const cleanMarkdown = (text: string): string =>
+  text
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[*_`~]{1,3}([^*_`~]+)[*_`~]{1,3}/g, '$1')
+    .replace(/^\[[ xX]\]\s+/, '')
+    .trim();
+
+// OPML <outline text="..."> and FreeMind <node TEXT="..."> share one walk
+const parseXmlOutline = (text: string): { title?: string; items: OutlineItem[] } => {
+  const title = text.match(/<title>([\s\S]*?)<\/title>/i)?.[1];
+  const items: OutlineItem[] = [];
+  const stack: OutlineItem[] = [];
+  const tags = /<(\/?)(outline|node)\b([^>]*?)(\/?)>/gi;
+
+  let match: RegExpExecArray | null;
+  while ((match = tags.exec(text))) {
+    const [, closing, , attrs, selfClosing] = match;
+    if (closing) {
+      stack.pop();
+      continue;
+    }
+    const label = attrs.match(/\b(?:text|TEXT)\s*=\s*"([^"]*)"/)?.[1] ?? attrs.match(/\b(?:text|TEXT)\s*=\s*'([^']*)'/)?.[1];
+    const item: OutlineItem = { label: unescapeXml(label || '').replace(/\s+/g, ' ').trim(), children: [] };
+    (stack.length ? stack[stack.length - 1].children : items).push(item);
+    if (!selfClosing) stack.push(item);
+  }
+
+  // Unlabelled entries (e.g. rich-text FreeMind nodes) are dropped, children kept
+  const prune = (list: OutlineItem[]): OutlineItem[] =>
+    list.flatMap(item => (item.label ? [{ ...item, children: prune(item.children) }] : prune(item.children)));
+
+  return { title: title ? unescapeXml(title).trim() : undefined, items: prune(items) };
+};
+
+// Headings nest by level; bullets nest by indentation below the last heading
+const parseMarkdownOutline = (text: string): OutlineItem[] => {
+  const items: OutlineItem[] = [];
+  const stack: { depth: number; item: OutlineItem }[] = [];
+  let headingDepth = 0;
+
+  text.split(/\r?\n/).forEach(line => {
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    const bullet = line.match(/^([ \t]*)(?:[-*+]|\d+[.)])\s+(.*)$/);
+    if (!heading && !bullet) return;
+
+    let depth: number;
+    let label: string;
+    if (heading) {
+      headingDepth = heading[1].length * 1000;
+      depth = headingDepth;
+      label = heading[2].replace(/\s+#+\s*$/, '');
+    } else {
+      const indent = bullet![1].replace(/\t/g, '  ').length;
+      depth = headingDepth + 500 + indent;
+      label = bullet![2];
+    }
+
+    const item: OutlineItem = { label: cleanMarkdown(label), children: [] };
+    if (!item.label) return;
+
+    while (stack.length && stack[stack.length - 1].depth >= depth) stack.pop();
+    (stack.length ? stack[stack.length - 1].item.children : items).push(item);
+    stack.push({ depth, item });
+  });
+
+  return items;
+};
+
+/**
+ * Read an OPML, FreeMind or Markdown outline file into a single-rooted
+ * outline. Several top-level entries are placed under a root named after the
+ * document title or the file.
+ */
+export const parseOutlineFile = (text: string, fileName = 'Imported map'): OutlineItem => {
+  const baseName = fileName.replace(/\.[^.]+$/, '') || 'Imported map';
+  const isXml = /\.(opml|xml|mm)$/i.test(fileName) || /^\s*</.test(text);
+
+  let title: string | undefined;
+  let items: OutlineItem[];
+  if (isXml) {
+    ({ title, items } = parseXmlOutline(text));
+  } else {
+    items = parseMarkdownOutline(text);
+  }
+
+  if (!items.length) throw new Error('No outline items were found in this file');
+  if (items.length === 1) return items[0];
+  return { label: title || baseName, shape: 'circle', children: items };
+};
+
+/** Text of a picked file (a blob URL on web, a cached copy on native) */
+export const readTextFile = async (uri: string): Promise<string> => {
+  if (Platform.OS === 'web') {
+    const response = await fetch(uri);
+    return response.text();
+  }
+  return FileSystem.readAsStringAsync(uri);
+};
+
+// ==================== SHARING ====================
+
+/** Nodes and connections of an AI map, laid out from its Mermaid code */
+export const sourceFromMermaid = (code: string, title?: string): ExportSource => {
+  const parsed = parseMermaidMindmap(code);
+  return { title: title || parsed.title, nodes: parsed.nodes, connections: parsed.connections };
+};
+
+const downloadOnWeb = (href: string, fileName: string) => {
+  const a = document.createElement('a');
+  a.href = href;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+};
+
+/**
+ * Save a file and open the share sheet (download on web).
+ * `content` is text, or base64 when `base64` is set.
+ */
+export const shareFile = async (
+  content: string,
+  fileName: string,
+  mimeType: string,
+  base64 = false
+): Promise<void> => {
+  if (Platform.OS === 'web') {
+    if (base64) {
+      downloadOnWeb(`data:${mimeType};base64,${content}`, fileName);
+      return;
+    }
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    downloadOnWeb(url, fileName);
+    URL.revokeObjectURL(url);
+    return;
+  }
+
+  const fileUri = FileSystem.documentDirectory + fileName;
+  await FileSystem.writeAsStringAsync(fileUri, content, base64 ? { encoding: 'base64' } : undefined);
+  await Sharing.shareAsync(fileUri, { mimeType, dialogTitle: `Share ${fileName}` });
+};
+
+// Web has a canvas of its own; native platforms go through toRasterHtml
+const rasterizeOnWeb = (rendered: RenderedSvg): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const scale = Math.min(2, MAX_PNG_SIZE / Math.max(rendered.width, rendered.height));
+    const img = new (window as any).Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(rendered.width * scale);
+      canvas.height = Math.round(rendered.height * scale);
+      canvas.getContext('2d')!.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/png').split(',')[1]);
+    };
+    img.onerror = () => reject(new Error('Failed to render the image'));
+    img.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(rendered.svg)}`;
+  });
+
+/**
+ * Export a map in the given format and share it. PNG on native needs a
+ * rasterizer (see toRasterHtml), passed in by the calling screen.
+ */
+export const exportMindMap = async (
+  source: ExportSource,
+  format: ExportFormat,
+  options: { dark?: boolean; rasterize?: (rendered: RenderedSvg) => Promise<string> } = {}
+): Promise<void> => {
+  const info = EXPORT_FORMATS.find(f => f.format === format)!;
+  const fileName = `${fileBaseName(source.title)}.${info.extension}`;
+
+  if (format === 'markdown' || format === 'opml' || format === 'freemind') {
+    const outline = toOutline(source.nodes, source.connections, source.title);
+    const text = format === 'markdown' ? toMarkdownOutline(outline) : format === 'opml' ? toOpml(outline) : toFreeMind(outline);
+    return shareFile(text, fileName, info.mimeType);
+  }
+
+  // Printed pages stay light regardless of the app theme
+  const rendered = renderSvg(source.nodes, source.connections, {
+    title: source.title,
+    dark: format === 'pdf' ? false : options.dark,
+  });
+
+  if (format === 'svg') return shareFile(rendered.svg, fileName, info.mimeType);
+
+  if (format === 'pdf') {
+    const html = toPrintHtml(rendered.svg, source.title);
+    if (Platform.OS === 'web') {
+      await Print.printAsync({ html });
+      return;
+    }
+    const { uri } = await Print.printToFileAsync({ html });
+    await Sharing.shareAsync(uri, { mimeType: info.mimeType, dialogTitle: `Share ${fileName}`, UTI: 'com.adobe.pdf' });
+    return;
+  }
+
+  const rasterize = Platform.OS === 'web' ? rasterizeOnWeb : options.rasterize;
+  if (!rasterize) throw new Error('PNG export is not available here');
+  const png = await rasterize(rendered);
+  return shareFile(png, fileName, info.mimeType, true);
+};
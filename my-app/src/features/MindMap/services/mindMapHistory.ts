@@ -0,0 +1,242 @@
+/**
+ * Mind Map Edit History
+ * Every editor change is a command holding the operations that make it and
+ * the operations that reverse it. Operations apply to local state as pure
+ * functions and are replayed against mindMapApi so undo/redo reach the server.
+ */
+
+import { MindMapNode, MindMapConnection, CanvasState } from '../types';
+import {
+  createNode,
+  updateNode,
+  deleteNode,
+  createConnection,
+  deleteConnection,
+  batchUpdateNodePositions,
+  updateMindMap,
+} from './mindMapApi';
+import { NodePosition } from './mindMapLayout';
+
+export type MindMapOperation =
+  | { type: 'createNode'; node: MindMapNode }
+  | { type: 'deleteNode'; node: MindMapNode }
+  | { type: 'updateNode'; nodeId: string; changes: Partial<MindMapNode> }
+  | { type: 'moveNodes'; positions: NodePosition[] }
+  | { type: 'createConnection'; connection: MindMapConnection }
+  | { type: 'deleteConnection'; connection: MindMapConnection }
+  | { type: 'setCanvasState'; canvasState: CanvasState };
+
+export interface MindMapCommand {
+  label: string;
+  redo: MindMapOperation[];
+  undo: MindMapOperation[];
+  // Consecutive commands with the same key merge into one step (e.g. drags)
+  mergeKey?: string;
+  timestamp: number;
+}
+
+export interface MindMapEditState {
+  nodes: MindMapNode[];
+  connections: MindMapConnection[];
+  canvasState?: CanvasState;
+}
+
+const MAX_HISTORY = 100;
+const MERGE_WINDOW_MS = 1500;
+
+// ==================== COMMANDS ====================
+
+const command = (label: string, redo: MindMapOperation[], undo: MindMapOperation[], mergeKey?: string): MindMapCommand => ({
+  label,
+  redo,
+  undo,
+  mergeKey,
+  timestamp: Date.now(),
+});
+
+export const createNodeCommand = (node: MindMapNode): MindMapCommand =>
+  command('Add node', [{ type: 'createNode', node }], [{ type: 'deleteNode', node }]);
+
+/** Delete a node and its connections; undo puts both back */
+export const deleteNodeCommand = (node: MindMapNode, connections: MindMapConnection[]): MindMapCommand => {
+  const attached = connections.filter(c => c.sourceNodeId === node.id || c.targetNodeId === node.id);
+  return command(
+    'Delete node',
+    [
+      ...attached.map(connection => ({ type: 'deleteConnection' as const, connection })),
+      { type: 'deleteNode', node },
+    ],
+    [
+      { type: 'createNode', node },
+      ...attached.map(connection => ({ type: 'createConnection' as const, connection })),
+    ]
+  );
+};
+
+export const updateNodeCommand = (node: MindMapNode, changes: Partial<MindMapNode>, label = 'Edit node'): MindMapCommand => {
+  const previous = Object.fromEntries(
+    Object.keys(changes).map(key => [key, node[key as keyof MindMapNode]])
+  ) as Partial<MindMapNode>;
+  return command(
+    label,
+    [{ type: 'updateNode', nodeId: node.id, changes }],
+    [{ type: 'updateNode', nodeId: node.id, changes: previous }]
+  );
+};
+
+/** Moves of the same node in quick succession merge into one step */
+export const moveNodeCommand = (node: MindMapNode, x: number, y: number): MindMapCommand =>
+  command(
+    'Move node',
+    [{ type: 'moveNodes', positions: [{ nodeId: node.id, x, y }] }],
+    [{ type: 'moveNodes', positions: [{ nodeId: node.id, x: node.x, y: node.y }] }],
+    `move:${node.id}`
+  );
+
+export const createConnectionCommand = (connection: MindMapConnection): MindMapCommand =>
+  command('Link nodes', [{ type: 'createConnection', connection }], [{ type: 'deleteConnection', connection }]);
+
+/** Apply a layout: new positions plus the layout choice saved in the canvas state */
+export const layoutCommand = (
+  nodes: MindMapNode[],
+  positions: NodePosition[],
+  previousCanvasState: CanvasState,
+  canvasState: CanvasState
+): MindMapCommand => {
+  const moved = new Set(positions.map(p => p.nodeId));
+  const before = nodes.filter(n => moved.has(n.id)).map(n => ({ nodeId: n.id, x: n.x, y: n.y }));
+  const redo: MindMapOperation[] = [{ type: 'setCanvasState', canvasState }];
+  const undo: MindMapOperation[] = [{ type: 'setCanvasState', canvasState: previousCanvasState }];
+  if (positions.length) {
+    redo.unshift({ type: 'moveNodes', positions });
+    undo.unshift({ type: 'moveNodes', positions: before });
+  }
+  return command('Layout', redo, undo);
+};
+
+// ==================== APPLYING ====================
+
+const applyOperation = (state: MindMapEditState, op: MindMapOperation): MindMapEditState => {
+  switch (op.type) {
+    case 'createNode':
+      return {
+        ...state,
+        nodes: [...state.nodes.filter(n => n.id !== op.node.id), op.node],
+      };
+    case 'deleteNode':
+      return { ...state, nodes: state.nodes.filter(n => n.id !== op.node.id) };
+    case 'updateNode':
+      return {
+        ...state,
+        nodes: state.nodes.map(n => n.id === op.nodeId ? { ...n, ...op.changes } : n),
+      };
+    case 'moveNodes': {
+      const byId = new Map(op.positions.map(p => [p.nodeId, p]));
+      return {
+        ...state,
+        nodes: state.nodes.map(n => {
+          const position = byId.get(n.id);
+          return position ? { ...n, x: position.x, y: position.y } : n;
+        }),
+      };
+    }
+    case 'createConnection':
+      return {
+        ...state,
+        connections: [...state.connections.filter(c => c.id !== op.connection.id), op.connection],
+      };
+    case 'deleteConnection':
+      return { ...state, connections: state.connections.filter(c => c.id !== op.connection.id) };
+    case 'setCanvasState':
+      return { ...state, canvasState: op.canvasState };
+    default:
+      return state;
+  }
+};
+
+/** Local state after the operations, without touching the server */
+export const applyOperations = (state: MindMapEditState, ops: MindMapOperation[]): MindMapEditState =>
+  ops.reduce(applyOperation, state);
+
+const sendOperation = async (mindMapId: number, op: MindMapOperation): Promise<void> => {
+  switch (op.type) {
+    case 'createNode':
+      return createNode(mindMapId, op.node);
+    case 'deleteNode':
+      return deleteNode(mindMapId, op.node.id);
+    case 'updateNode':
+      return updateNode(mindMapId, op.nodeId, op.changes);
+    case 'moveNodes':
+      return op.positions.length === 1
+        ? updateNode(mindMapId, op.positions[0].nodeId, { x: op.positions[0].x, y: op.positions[0].y })
+        : batchUpdateNodePositions(mindMapId, op.positions);
+    case 'createConnection':
+      return createConnection(mindMapId, op.connection);
+    case 'deleteConnection':
+      return deleteConnection(mindMapId, op.connection.id);
+    case 'setCanvasState':
+      return updateMindMap(mindMapId, { canvasState: op.canvasState });
+  }
+};
+
+/** Send operations to the server one at a time, in order */
+export const sendOperations = async (mindMapId: number, ops: MindMapOperation[]): Promise<void> => {
+  for (const op of ops) {
+    await sendOperation(mindMapId, op);
+  }
+};
+
+// ==================== HISTORY ====================
+
+/**
+ * Undo/redo stacks. Recording a new command clears the redo stack; a command
+ * whose mergeKey matches the last one within MERGE_WINDOW_MS extends that
+ * step instead, keeping its original undo operations.
+ */
+export class MindMapHistory {
+  private undoStack: MindMapCommand[] = [];
+  private redoStack: MindMapCommand[] = [];
+
+  get canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  record(next: MindMapCommand): void {
+    this.redoStack = [];
+
+    const last = this.undoStack[this.undoStack.length - 1];
+    if (last && next.mergeKey && last.mergeKey === next.mergeKey && next.timestamp - last.timestamp < MERGE_WINDOW_MS) {
+      this.undoStack[this.undoStack.length - 1] = { ...next, undo: last.undo };
+      return;
+    }
+
+    this.undoStack.push(next);
+    if (this.undoStack.length > MAX_HISTORY) this.undoStack.shift();
+  }
+
+  /** The command to reverse, moved to the redo stack */
+  undo(): MindMapCommand | null {
+    const last = this.undoStack.pop();
+    if (!last) return null;
+    this.redoStack.push(last);
+    return last;
+  }
+
+  /** The command to repeat, moved back to the undo stack */
+  redo(): MindMapCommand | null {
+    const next = this.redoStack.pop();
+    if (!next) return null;
+    // Redone steps never merge with later edits
+    this.undoStack.push({ ...next, mergeKey: undefined });
+    return next;
+  }
+
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+}
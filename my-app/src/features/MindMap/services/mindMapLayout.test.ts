@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { computeLayout, NodePosition } from './mindMapLayout';
+import { MindMapNode, MindMapConnection } from '../types';
+
+const node = (id: string, x = 0, y = 0): MindMapNode => ({
+  id,
+  label: id,
+  x,
+  y,
+  width: 100,
+  height: 40,
+  color: '#ffffff',
+  shape: 'rounded',
+  fontSize: 14,
+});
+
+const link = (sourceNodeId: string, targetNodeId: string): MindMapConnection => ({
+  id: `${sourceNodeId}-${targetNodeId}`,
+  sourceNodeId,
+  targetNodeId,
+  color: '#000000',
+  strokeWidth: 2,
+  style: 'solid',
+  animated: false,
+});
+
+const byNode = (positions: NodePosition[]) =>
+  Object.fromEntries(positions.map(({ nodeId, x, y }) => [nodeId, { x, y }]));
+
+describe('computeLayout', () => {
+  it('returns nothing for an empty map', () => {
+    expect(computeLayout('tree', [], [])).toEqual([]);
+  });
+
+  it('tree: puts the root on top and centers it over its children', () => {
+    const nodes = [node('root'), node('left', -200, 100), node('right', 200, 100)];
+    const at = byNode(computeLayout('tree', nodes, [link('root', 'left'), link('root', 'right')]));
+
+    expect(at.root.y).toBe(0);
+    expect(at.left.y).toBe(100);
+    expect(at.right.y).toBe(100);
+    // Siblings keep their left-to-right order, one node width plus the gap apart
+    expect(at.right.x - at.left.x).toBe(140);
+    expect(at.root.x).toBe((at.left.x + at.right.x) / 2);
+  });
+
+  it('horizontal: puts the root on the left and children in the next column', () => {
+    const nodes = [node('root'), node('top', 200, -100), node('bottom', 200, 100)];
+    const at = byNode(computeLayout('horizontal', nodes, [link('root', 'top'), link('root', 'bottom')]));
+
+    expect(at.root.x).toBe(0);
+    expect(at.top.x).toBe(180);
+    expect(at.bottom.x).toBe(180);
+    expect(at.bottom.y - at.top.y).toBe(60);
+    expect(at.root.y).toBe((at.top.y + at.bottom.y) / 2);
+  });
+
+  it('radial: puts the root in the center and children on the first ring', () => {
+    const nodes = [node('root'), node('a', 100, 0), node('b', -100, 0), node('c', 0, 100)];
+    const connections = [link('root', 'a'), link('root', 'b'), link('root', 'c')];
+    const at = byNode(computeLayout('radial', nodes, connections));
+
+    expect(at.root).toEqual({ x: 0, y: 0 });
+    ['a', 'b', 'c'].forEach(id => {
+      expect(Math.hypot(at[id].x, at[id].y)).toBeCloseTo(180, 0);
+    });
+  });
+
+  it('orgChart: stacks a row of leaves in an indented column', () => {
+    const nodes = [node('root'), node('a', -100, 100), node('b', 0, 100), node('c', 100, 100)];
+    const connections = [link('root', 'a'), link('root', 'b'), link('root', 'c')];
+    const at = byNode(computeLayout('orgChart', nodes, connections));
+
+    expect(at.a.x).toBe(at.root.x + 32);
+    expect(at.b.x).toBe(at.a.x);
+    expect(at.c.x).toBe(at.a.x);
+    expect(at.root.y).toBeLessThan(at.a.y);
+    expect(at.a.y).toBeLessThan(at.b.y);
+    expect(at.b.y).toBeLessThan(at.c.y);
+  });
+
+  it('places every node of a cycle exactly once', () => {
+    const nodes = [node('a'), node('b'), node('c')];
+    const positions = computeLayout('tree', nodes, [link('a', 'b'), link('b', 'c'), link('c', 'a')]);
+
+    expect(positions.map(p => p.nodeId).sort()).toEqual(['a', 'b', 'c']);
+    expect(positions.map(p => p.y).sort()).toEqual([0, 100, 100]);
+  });
+
+  it('lays disconnected parts out side by side without overlapping', () => {
+    const nodes = [node('a'), node('b'), node('c'), node('d')];
+    const at = byNode(computeLayout('tree', nodes, [link('a', 'b'), link('c', 'd')]));
+
+    expect(at.a).toEqual({ x: 0, y: 0 });
+    expect(at.c.y).toBe(0);
+    // Right edge of the first tree to left edge of the second
+    expect((at.c.x - 50) - (at.a.x + 50)).toBe(120);
+  });
+
+  it('places a node with no links as its own tree', () => {
+    const positions = computeLayout('radial', [node('a'), node('b'), node('lonely')], [link('a', 'b')]);
+    expect(positions).toHaveLength(3);
+  });
+
+  it('roots the layout at the node with no incoming links by default', () => {
+    const nodes = [node('child'), node('parent')];
+    const at = byNode(computeLayout('tree', nodes, [link('parent', 'child')]));
+
+    expect(at.parent.y).toBe(0);
+    expect(at.child.y).toBe(100);
+  });
+
+  it('roots the layout at the chosen node', () => {
+    const nodes = [node('a'), node('b'), node('c')];
+    const at = byNode(computeLayout('tree', nodes, [link('a', 'b'), link('b', 'c')], 'c'));
+
+    expect(at.c.y).toBe(0);
+    expect(at.b.y).toBe(100);
+    expect(at.a.y).toBe(200);
+  });
+});
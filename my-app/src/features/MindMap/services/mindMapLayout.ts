@@ -0,0 +1,351 @@
+/**
+ * Mind Map Layout Engines
+ * Deterministic positions for canvas nodes: top-down tree, left-right tree,
+ * radial and compact org chart. Pure functions over nodes and connections;
+ * the screen applies the result with batchUpdateNodePositions.
+ */
+
+import { MindMapNode, MindMapConnection, LayoutType } from '../types';
+
+export interface NodePosition {
+  nodeId: string;
+  x: number;
+  y: number;
+}
+
+export const LAYOUTS: { type: LayoutType; label: string; icon: string }[] = [
+  { type: 'tree', label: 'Tree', icon: 'git-network-outline' },
+  { type: 'horizontal', label: 'Left to Right', icon: 'git-merge-outline' },
+  { type: 'radial', label: 'Radial', icon: 'sunny-outline' },
+  { type: 'orgChart', label: 'Org Chart', icon: 'list-outline' },
+];
+
+interface LayoutTree {
+  node: MindMapNode;
+  children: LayoutTree[];
+}
+
+// Canvas coordinates are node centers
+const SIBLING_GAP = 40;
+const LEVEL_GAP = 100;
+const COLUMN_GAP = 80;
+const RING_GAP = 180;
+const RADIAL_LEAF_ARC = 70;
+const COMPACT_SIBLING_GAP = 24;
+const COMPACT_LEVEL_GAP = 90;
+const COMPACT_INDENT = 32;
+const COMPACT_ROW_GAP = 12;
+const COMPONENT_GAP = 120;
+
+/**
+ * Turn the graph into trees. Links are followed in either direction and a
+ * node reached twice keeps its first parent. The first tree starts at
+ * `rootId` when given, otherwise at the node with no incoming links and the
+ * most outgoing ones; nodes not linked to it form further trees.
+ * Children are ordered by `compare` so a layout keeps the user's arrangement.
+ */
+const buildForest = (
+  nodes: MindMapNode[],
+  connections: MindMapConnection[],
+  compare: (a: MindMapNode, b: MindMapNode) => number,
+  rootId?: string
+): LayoutTree[] => {
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  const neighbours = new Map<string, string[]>(nodes.map(node => [node.id, []]));
+  const incoming = new Map<string, number>();
+  const outgoing = new Map<string, number>();
+
+  connections.forEach(({ sourceNodeId, targetNodeId }) => {
+    if (!byId.has(sourceNodeId) || !byId.has(targetNodeId) || sourceNodeId === targetNodeId) return;
+    neighbours.get(sourceNodeId)!.push(targetNodeId);
+    neighbours.get(targetNodeId)!.push(sourceNodeId);
+    outgoing.set(sourceNodeId, (outgoing.get(sourceNodeId) || 0) + 1);
+    incoming.set(targetNodeId, (incoming.get(targetNodeId) || 0) + 1);
+  });
+
+  const rank = (node: MindMapNode) =>
+    (node.id === rootId ? 1e6 : 0) + (incoming.get(node.id) ? 0 : 1000) + (outgoing.get(node.id) || 0);
+  const candidates = [...nodes].sort((a, b) => rank(b) - rank(a));
+
+  const visited = new Set<string>();
+  const grow = (start: MindMapNode): LayoutTree => {
+    const root: LayoutTree = { node: start, children: [] };
+    visited.add(start.id);
+    const queue = [root];
+    while (queue.length) {
+      const item = queue.shift()!;
+      const next = neighbours.get(item.node.id)!
+        .filter(id => !visited.has(id))
+        .map(id => byId.get(id)!)
+        .sort(compare);
+      next.forEach(node => {
+        visited.add(node.id);
+        const child: LayoutTree = { node, children: [] };
+        item.children.push(child);
+        queue.push(child);
+      });
+    }
+    return root;
+  };
+
+  const forest: LayoutTree[] = [];
+  candidates.forEach(node => {
+    if (!visited.has(node.id)) forest.push(grow(node));
+  });
+  return forest;
+};
+
+const byX = (a: MindMapNode, b: MindMapNode) => a.x - b.x || a.y - b.y;
+const byY = (a: MindMapNode, b: MindMapNode) => a.y - b.y || a.x - b.x;
+
+// Lay out each tree on its own, then place them side by side (or stacked)
+const packForest = (
+  forest: LayoutTree[],
+  layoutTree: (tree: LayoutTree) => Map<string, { x: number; y: number }>,
+  direction: 'row' | 'column'
+): NodePosition[] => {
+  const positions: NodePosition[] = [];
+  let cursor = 0;
+
+  forest.forEach(tree => {
+    const placed = layoutTree(tree);
+    const boxes = collect(tree).map(node => {
+      const { x, y } = placed.get(node.id)!;
+      return { node, x, y };
+    });
+
+    const minX = Math.min(...boxes.map(b => b.x - b.node.width / 2));
+    const maxX = Math.max(...boxes.map(b => b.x + b.node.width / 2));
+    const minY = Math.min(...boxes.map(b => b.y - b.node.height / 2));
+    const maxY = Math.max(...boxes.map(b => b.y + b.node.height / 2));
+
+    // The first tree stays where its layout put it
+    const dx = direction === 'row' && positions.length ? cursor - minX : 0;
+    const dy = direction === 'column' && positions.length ? cursor - minY : 0;
+    boxes.forEach(({ node, x, y }) => {
+      positions.push({ nodeId: node.id, x: Math.round(x + dx), y: Math.round(y + dy) });
+    });
+    cursor = (direction === 'row' ? maxX + dx : maxY + dy) + COMPONENT_GAP;
+  });
+
+  return positions;
+};
+
+const collect = (tree: LayoutTree): MindMapNode[] =>
+  [tree.node, ...tree.children.flatMap(collect)];
+
+const countLeaves = (tree: LayoutTree): number =>
+  tree.children.length ? tree.children.reduce((total, child) => total + countLeaves(child), 0) : 1;
+
+const maxDepth = (tree: LayoutTree): number =>
+  tree.children.length ? 1 + Math.max(...tree.children.map(maxDepth)) : 0;
+
+/**
+ * Layered tree: every node is centered over its children along the `across`
+ * axis, with siblings `gap` apart. `place` maps a node's depth to the other axis.
+ */
+const layeredTree = (
+  tree: LayoutTree,
+  breadth: (node: MindMapNode) => number,
+  gap: number,
+  place: (node: MindMapNode, across: number, depth: number) => void
+) => {
+  const spans = new Map<LayoutTree, number>();
+  const span = (item: LayoutTree): number => {
+    const childSpan = item.children.reduce((total, child) => total + span(child), 0)
+      + gap * Math.max(item.children.length - 1, 0);
+    const value = Math.max(breadth(item.node), childSpan);
+    spans.set(item, value);
+    return value;
+  };
+  const total = span(tree);
+
+  const visit = (item: LayoutTree, start: number, depth: number) => {
+    const width = spans.get(item)!;
+    place(item.node, start + width / 2, depth);
+
+    const childSpan = item.children.reduce((sum, child) => sum + spans.get(child)!, 0)
+      + gap * Math.max(item.children.length - 1, 0);
+    let cursor = start + (width - childSpan) / 2;
+    item.children.forEach(child => {
+      visit(child, cursor, depth + 1);
+      cursor += spans.get(child)! + gap;
+    });
+  };
+  visit(tree, -total / 2, 0);
+};
+
+/** Top-down tree with the root at the top */
+export const treeLayout = (
+  nodes: MindMapNode[],
+  connections: MindMapConnection[],
+  rootId?: string
+): NodePosition[] => {
+  const forest = buildForest(nodes, connections, byX, rootId);
+  return packForest(forest, tree => {
+    const placed = new Map<string, { x: number; y: number }>();
+    layeredTree(tree, node => node.width, SIBLING_GAP, (node, across, depth) => {
+      placed.set(node.id, { x: across, y: depth * LEVEL_GAP });
+    });
+    return placed;
+  }, 'row');
+};
+
+/** Left-to-right tree with the root on the left; columns fit their widest node */
+export const horizontalLayout = (
+  nodes: MindMapNode[],
+  connections: MindMapConnection[],
+  rootId?: string
+): NodePosition[] => {
+  const forest = buildForest(nodes, connections, byY, rootId);
+  return packForest(forest, tree => {
+    const columnWidths: number[] = [];
+    const widen = (item: LayoutTree, depth: number) => {
+      columnWidths[depth] = Math.max(columnWidths[depth] || 0, item.node.width);
+      item.children.forEach(child => widen(child, depth + 1));
+    };
+    widen(tree, 0);
+
+    const columnCenters: number[] = [];
+    columnWidths.reduce((left, width, depth) => {
+      columnCenters[depth] = left + width / 2;
+      return left + width + COLUMN_GAP;
+    }, 0);
+
+    const placed = new Map<string, { x: number; y: number }>();
+    layeredTree(tree, node => node.height, SIBLING_GAP / 2, (node, across, depth) => {
+      placed.set(node.id, { x: columnCenters[depth] - columnCenters[0], y: across });
+    });
+    return placed;
+  }, 'column');
+};
+
+/**
+ * Root in the center with each level on a ring. Every subtree gets an arc in
+ * proportion to its leaves, and rings are spread far enough apart that the
+ * outer ring leaves room for every leaf.
+ */
+export const radialLayout = (
+  nodes: MindMapNode[],
+  connections: MindMapConnection[],
+  rootId?: string
+): NodePosition[] => {
+  const center = nodes.find(node => node.id === rootId) || nodes[0];
+  const angleOf = (node: MindMapNode) =>
+    center ? Math.atan2(node.y - center.y, node.x - center.x) : 0;
+  const forest = buildForest(nodes, connections, (a, b) => angleOf(a) - angleOf(b), rootId);
+
+  return packForest(forest, tree => {
+    const depth = Math.max(maxDepth(tree), 1);
+    const ring = Math.max(RING_GAP, (countLeaves(tree) * RADIAL_LEAF_ARC) / (2 * Math.PI * depth));
+
+    const placed = new Map<string, { x: number; y: number }>();
+    const visit = (item: LayoutTree, level: number, from: number, to: number) => {
+      const angle = (from + to) / 2;
+      placed.set(item.node.id, {
+        x: level ? Math.cos(angle) * level * ring : 0,
+        y: level ? Math.sin(angle) * level * ring : 0,
+      });
+
+      const leaves = countLeaves(item);
+      let start = from;
+      item.children.forEach(child => {
+        const end = start + ((to - from) * countLeaves(child)) / leaves;
+        visit(child, level + 1, start, end);
+        start = end;
+      });
+    };
+    // Arcs run clockwise from the top
+    visit(tree, 0, -Math.PI / 2, (3 * Math.PI) / 2);
+    return placed;
+  }, 'row');
+};
+
+/**
+ * Compact org chart: a top-down tree where a node whose children are all
+ * leaves lists them in an indented column below it instead of a wide row.
+ */
+export const orgChartLayout = (
+  nodes: MindMapNode[],
+  connections: MindMapConnection[],
+  rootId?: string
+): NodePosition[] => {
+  const forest = buildForest(nodes, connections, byX, rootId);
+
+  const isStack = (item: LayoutTree) =>
+    item.children.length > 1 && item.children.every(child => child.children.length === 0);
+
+  return packForest(forest, tree => {
+    const spans = new Map<LayoutTree, number>();
+    const span = (item: LayoutTree): number => {
+      let value: number;
+      if (isStack(item)) {
+        item.children.forEach(span);
+        value = Math.max(item.node.width, COMPACT_INDENT + Math.max(...item.children.map(child => child.node.width)));
+      } else {
+        const childSpan = item.children.reduce((total, child) => total + span(child), 0)
+          + COMPACT_SIBLING_GAP * Math.max(item.children.length - 1, 0);
+        value = Math.max(item.node.width, childSpan);
+      }
+      spans.set(item, value);
+      return value;
+    };
+    const total = span(tree);
+
+    const placed = new Map<string, { x: number; y: number }>();
+    const visit = (item: LayoutTree, start: number, y: number) => {
+      const width = spans.get(item)!;
+
+      if (isStack(item)) {
+        // Parent and its column share a left edge
+        const left = start;
+        placed.set(item.node.id, { x: left + item.node.width / 2, y });
+        let rowY = y + item.node.height / 2 + COMPACT_ROW_GAP;
+        item.children.forEach(child => {
+          rowY += child.node.height / 2;
+          placed.set(child.node.id, { x: left + COMPACT_INDENT + child.node.width / 2, y: rowY });
+          rowY += child.node.height / 2 + COMPACT_ROW_GAP;
+        });
+        return;
+      }
+
+      placed.set(item.node.id, { x: start + width / 2, y });
+      const childSpan = item.children.reduce((sum, child) => sum + spans.get(child)!, 0)
+        + COMPACT_SIBLING_GAP * Math.max(item.children.length - 1, 0);
+      let cursor = start + (width - childSpan) / 2;
+      item.children.forEach(child => {
+        visit(child, cursor, y + COMPACT_LEVEL_GAP);
+        cursor += spans.get(child)! + COMPACT_SIBLING_GAP;
+      });
+    };
+    visit(tree, -total / 2, 0);
+    return placed;
+  }, 'row');
+};
+
+const LAYOUT_ENGINES: Record<LayoutType, typeof treeLayout> = {
+  tree: treeLayout,
+  horizontal: horizontalLayout,
+  radial: radialLayout,
+  orgChart: orgChartLayout,
+};
+
+/**
+ * Positions for every node under the given layout.
+ * @param rootId - Node to put at the root, e.g. the selected node
+ */
+export const computeLayout = (
+  type: LayoutType,
+  nodes: MindMapNode[],
+  connections: MindMapConnection[],
+  rootId?: string
+): NodePosition[] => (nodes.length ? LAYOUT_ENGINES[type](nodes, connections, rootId) : []);
+
+/** Copy of `nodes` moved to `positions`; nodes without a position keep theirs */
+export const applyPositions = (nodes: MindMapNode[], positions: NodePosition[]): MindMapNode[] => {
+  const byId = new Map(positions.map(position => [position.nodeId, position]));
+  return nodes.map(node => {
+    const position = byId.get(node.id);
+    return position ? { ...node, x: position.x, y: position.y } : node;
+  });
+};
@@ -0,0 +1,229 @@
+/**
+ * Mind Map Offline Sync
+ * Edits are applied to a local copy of each map and queued in a durable
+ * outbox, which is replayed against the server in order whenever it can be
+ * reached. Node and connection ids are generated on the device, so the server
+ * recognises a create or delete it has already applied and replays are safe.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState, NativeEventSubscription } from 'react-native';
+import { fetchMindMap, MindMapData, MindMapApiError } from './mindMapApi';
+import { MindMapOperation, applyOperations, sendOperations } from './mindMapHistory';
+
+const OUTBOX_KEY = '@mindmap_outbox';
+const CACHE_KEY_PREFIX = '@mindmap_cache_';
+
+// Wait between replay attempts while the server can't be reached
+const RETRY_DELAYS_MS = [2000, 5000, 15000, 30000, 60000];
+
+export type SyncState = 'synced' | 'syncing' | 'offline' | 'error';
+
+export interface SyncStatus {
+  state: SyncState;
+  pending: number; // Operations not yet on the server, across all maps
+}
+
+interface OutboxEntry {
+  id: string;
+  mindMapId: number;
+  op: MindMapOperation;
+  queuedAt: string;
+}
+
+const generateEntryId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+// ==================== STORAGE ====================
+
+const readJson = async <T>(key: string, fallback: T): Promise<T> => {
+  try {
+    const data = await AsyncStorage.getItem(key);
+    return data ? JSON.parse(data) : fallback;
+  } catch (error) {
+    console.error('[MindMapSync] Error reading', key, error);
+    return fallback;
+  }
+};
+
+// Outbox and cache updates run one at a time so concurrent edits don't overwrite each other
+let writing: Promise<unknown> = Promise.resolve();
+const serialized = <T>(task: () => Promise<T>): Promise<T> => {
+  const next = writing.then(task);
+  writing = next.catch(() => undefined);
+  return next;
+};
+
+const getOutbox = () => readJson<OutboxEntry[]>(OUTBOX_KEY, []);
+
+const updateOutbox = (change: (outbox: OutboxEntry[]) => OutboxEntry[]) =>
+  serialized(async () => {
+    const outbox = change(await getOutbox());
+    await AsyncStorage.setItem(OUTBOX_KEY, JSON.stringify(outbox));
+    return outbox;
+  });
+
+export const getCachedMindMap = (mindMapId: number) =>
+  readJson<MindMapData | null>(CACHE_KEY_PREFIX + mindMapId, null);
+
+const cacheMindMap = (data: MindMapData) =>
+  AsyncStorage.setItem(CACHE_KEY_PREFIX + data.id, JSON.stringify(data));
+
+/** Drop the local copy and queued edits of a deleted map */
+export const forgetMindMap = (mindMapId: number) =>
+  serialized(async () => {
+    await AsyncStorage.removeItem(CACHE_KEY_PREFIX + mindMapId);
+    const outbox = (await getOutbox()).filter(entry => entry.mindMapId !== mindMapId);
+    await AsyncStorage.setItem(OUTBOX_KEY, JSON.stringify(outbox));
+    setStatus({ pending: outbox.length });
+  });
+
+/** Operations for a map that the server has not confirmed yet */
+export const getPendingOperations = async (mindMapId: number): Promise<MindMapOperation[]> =>
+  (await getOutbox()).filter(entry => entry.mindMapId === mindMapId).map(entry => entry.op);
+
+// ==================== STATUS ====================
+
+let status: SyncStatus = { state: 'synced', pending: 0 };
+const listeners = new Set<(status: SyncStatus) => void>();
+
+const setStatus = (next: Partial<SyncStatus>) => {
+  status = { ...status, ...next };
+  listeners.forEach(listener => listener(status));
+};
+
+let appStateSubscription: NativeEventSubscription | null = null;
+
+/**
+ * Listen for sync status changes; the listener is called right away with the
+ * current status. While anyone listens, returning to the app retries the outbox.
+ */
+export const subscribeSyncStatus = (listener: (status: SyncStatus) => void): (() => void) => {
+  listeners.add(listener);
+  listener(status);
+
+  if (!appStateSubscription) {
+    appStateSubscription = AppState.addEventListener('change', state => {
+      if (state === 'active') flushMindMapOutbox();
+    });
+  }
+
+  return () => {
+    listeners.delete(listener);
+    if (!listeners.size && appStateSubscription) {
+      appStateSubscription.remove();
+      appStateSubscription = null;
+    }
+  };
+};
+
+// ==================== REPLAY ====================
+
+// Refused for good: bad input, or the node/map no longer exists. Sign-in
+// problems, timeouts and rate limits are retried.
+const isRejected = (error: unknown) =>
+  error instanceof MindMapApiError &&
+  error.status >= 400 &&
+  error.status < 500 &&
+  ![401, 408, 429].includes(error.status);
+
+let flushing: Promise<boolean> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let retryAttempt = 0;
+
+const scheduleRetry = () => {
+  if (retryTimer) return;
+  const delay = RETRY_DELAYS_MS[Math.min(retryAttempt, RETRY_DELAYS_MS.length - 1)];
+  retryAttempt += 1;
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    flushMindMapOutbox();
+  }, delay);
+};
+
+const flushOutbox = async (): Promise<boolean> => {
+  let outbox = await getOutbox();
+  setStatus({ state: outbox.length ? 'syncing' : 'synced', pending: outbox.length });
+
+  while (outbox.length) {
+    const entry = outbox[0];
+    try {
+      await sendOperations(entry.mindMapId, [entry.op]);
+    } catch (error) {
+      if (!isRejected(error)) {
+        setStatus({ state: error instanceof MindMapApiError ? 'error' : 'offline' });
+        scheduleRetry();
+        return false;
+      }
+      console.warn('[MindMapSync] Dropping operation the server refused:', entry.op.type, error);
+    }
+
+    // Re-read so operations queued during the request are kept
+    outbox = await updateOutbox(current => current.filter(e => e.id !== entry.id));
+    retryAttempt = 0;
+    setStatus({ pending: outbox.length });
+  }
+
+  setStatus({ state: 'synced', pending: 0 });
+  return true;
+};
+
+/** Replay queued operations now; resolves false if some are still waiting */
+export const flushMindMapOutbox = (): Promise<boolean> => {
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+  if (!flushing) {
+    flushing = flushOutbox().finally(() => {
+      flushing = null;
+    });
+  }
+  return flushing;
+};
+
+/**
+ * Record edits to a map: the local copy is updated and the operations are
+ * queued for the server, which is tried right away.
+ */
+export const queueOperations = async (mindMapId: number, ops: MindMapOperation[]): Promise<void> => {
+  if (!ops.length) return;
+
+  const queuedAt = new Date().toISOString();
+  const outbox = await updateOutbox(current => [
+    ...current,
+    ...ops.map(op => ({ id: generateEntryId(), mindMapId, op, queuedAt })),
+  ]);
+  setStatus({ pending: outbox.length });
+
+  await serialized(async () => {
+    const cached = await getCachedMindMap(mindMapId);
+    if (cached) await cacheMindMap({ ...cached, ...applyOperations(cached, ops) });
+  });
+
+  // A replay already running may have finished with the outbox before these were added
+  if (flushing) flushing.then(() => flushMindMapOutbox());
+  else flushMindMapOutbox();
+};
+
+/**
+ * Load a map for editing: the server copy with any queued edits applied on
+ * top, or the local copy when the server can't be reached.
+ */
+export const loadMindMap = async (mindMapId: number): Promise<{ data: MindMapData; offline: boolean }> => {
+  try {
+    const server = await fetchMindMap(mindMapId);
+    const pending = await getPendingOperations(mindMapId);
+    const data = { ...server, ...applyOperations(server, pending) };
+    await serialized(() => cacheMindMap(data));
+    if (pending.length) flushMindMapOutbox();
+    return { data, offline: false };
+  } catch (error) {
+    const cached = isRejected(error) ? null : await getCachedMindMap(mindMapId);
+    if (!cached) throw error;
+    // Queued edits keep retrying; with none, just show that the copy is local
+    if ((await getOutbox()).length) flushMindMapOutbox();
+    else setStatus({ state: 'offline', pending: 0 });
+    return { data: cached, offline: true };
+  }
+};
@@ -30,10 +30,13 @@ export interface MindMapConnection {
   animated: boolean;
 }
 
+export type LayoutType = 'tree' | 'horizontal' | 'radial' | 'orgChart';
+
 export interface CanvasState {
   zoom: number;
   offsetX: number;
   offsetY: number;
+  layout?: LayoutType; // Automatic layout in use; unset for free placement
 }
 
 export interface MindMap {
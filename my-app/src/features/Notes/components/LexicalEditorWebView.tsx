@@ -1,11 +1,14 @@
 import React, { useRef, useCallback, useEffect, useState } from 'react';
 import {
     View,
+    Text,
     StyleSheet,
     Dimensions,
     Platform,
     ActivityIndicator,
     Keyboard,
+    ScrollView,
+    TouchableOpacity,
 } from 'react-native';
 import { WebView, WebViewMessageEvent } from 'react-native-webview';
 import { LexicalRoot, EMPTY_LEXICAL_STATE } from '../types';
@@ -22,6 +25,8 @@ interface LexicalEditorWebViewProps {
     minHeight?: number;
     maxHeight?: number;
     theme?: 'light' | 'dark';
+    noteTitles?: string[]; // Offered as suggestions after typing "[["
+    onLinkPress?: (title: string) => void; // Tap on a [[link]] while not editable
 }
 
 // The HTML content for the Lexical editor
@@ -331,10 +336,62 @@ const getEditorHTML = (
             }
         }
         
+        // [[Note links]]: report an unfinished "[[query" before the caret
+        const OPEN_LINK_PATTERN = /\[\[([^\[\]\n]*)$/;
+        const NOTE_LINK_PATTERN = /\[\[([^\[\]\n]+?)\]\]/g;
+        let lastLinkQuery = null;
+
+        function getCaretText() {
+            const selection = $getSelection();
+            if (!$isRangeSelection(selection) || !selection.isCollapsed()) return null;
+            const node = selection.anchor.getNode();
+            if (!lexical.$isTextNode(node)) return null;
+            return { node, text: node.getTextContent(), offset: selection.anchor.offset };
+        }
+
+        function checkLinkQuery(editorState) {
+            editorState.read(() => {
+                const caret = getCaretText();
+                const match = caret ? caret.text.slice(0, caret.offset).match(OPEN_LINK_PATTERN) : null;
+                const query = match ? match[1] : null;
+                if (query !== lastLinkQuery) {
+                    lastLinkQuery = query;
+                    sendMessage('linkQuery', { query });
+                }
+            });
+        }
+
+        function insertNoteLink(title) {
+            editor.update(() => {
+                const caret = getCaretText();
+                if (!caret) return;
+                const match = caret.text.slice(0, caret.offset).match(OPEN_LINK_PATTERN);
+                if (!match) return;
+                const start = caret.offset - match[0].length;
+                caret.node.spliceText(start, match[0].length, '[[' + title + ']] ', true);
+            });
+        }
+
+        // Follow a link when reading (tapping while editing just moves the caret)
+        function handleLinkClick() {
+            if (editor.isEditable()) return;
+            editor.getEditorState().read(() => {
+                const caret = getCaretText();
+                if (!caret) return;
+                for (const match of caret.text.matchAll(NOTE_LINK_PATTERN)) {
+                    if (caret.offset >= match.index && caret.offset <= match.index + match[0].length) {
+                        sendMessage('linkPress', { title: match[1].trim() });
+                        return;
+                    }
+                }
+            });
+        }
+
         // Listen for state changes
         let changeTimeout;
         editor.registerUpdateListener(({ editorState, dirtyElements, dirtyLeaves }) => {
             updatePlaceholder();
+            checkLinkQuery(editorState);
             
             // Debounce state updates - only send after 500ms of no changes
             clearTimeout(changeTimeout);
@@ -348,6 +405,7 @@ const getEditorHTML = (
         const editorElement = document.getElementById('editor');
         editorElement.addEventListener('focus', () => sendMessage('focus', {}));
         editorElement.addEventListener('blur', () => sendMessage('blur', {}));
+        editorElement.addEventListener('click', () => setTimeout(handleLinkClick, 0));
         
         // Toolbar actions
         document.querySelectorAll('.toolbar-btn').forEach(btn => {
@@ -414,6 +472,9 @@ const getEditorHTML = (
                     case 'setEditable':
                         editor.setEditable(message.data);
                         break;
+                    case 'insertNoteLink':
+                        insertNoteLink(message.data.title);
+                        break;
                 }
             } catch (e) {
                 console.error('Message parse error:', e);
@@ -438,10 +499,19 @@ export const LexicalEditorWebView: React.FC<LexicalEditorWebViewProps> = ({
     minHeight = 300,
     maxHeight = 600,
     theme = 'light',
+    noteTitles,
+    onLinkPress,
 }) => {
     const webViewRef = useRef<WebView>(null);
     const [isReady, setIsReady] = useState(false);
     const [webViewHeight, setWebViewHeight] = useState(minHeight);
+    const [linkQuery, setLinkQuery] = useState<string | null>(null);
+
+    const linkSuggestions = linkQuery !== null && noteTitles
+        ? noteTitles
+            .filter(title => title.toLowerCase().includes(linkQuery.trim().toLowerCase()))
+            .slice(0, 5)
+        : [];
 
     const stateToUse = initialState || EMPTY_LEXICAL_STATE;
     const htmlContent = getEditorHTML(
@@ -471,6 +541,14 @@ export const LexicalEditorWebView: React.FC<LexicalEditorWebViewProps> = ({
                     onBlur?.();
                     Keyboard.dismiss();
                     break;
+                case 'linkQuery':
+                    setLinkQuery(message.data?.query ?? null);
+                    break;
+                case 'linkPress':
+                    if (message.data?.title) {
+                        onLinkPress?.(message.data.title);
+                    }
+                    break;
                 case 'error':
                     console.error('[LexicalEditor] Error:', message.data);
                     break;
@@ -478,7 +556,7 @@ export const LexicalEditorWebView: React.FC<LexicalEditorWebViewProps> = ({
         } catch (e) {
             console.error('[LexicalEditor] Message parse error:', e);
         }
-    }, [onChange, onFocus, onBlur]);
+    }, [onChange, onFocus, onBlur, onLinkPress]);
 
     const sendMessage = useCallback((type: string, data?: any) => {
         if (webViewRef.current && isReady) {
@@ -500,6 +578,25 @@ export const LexicalEditorWebView: React.FC<LexicalEditorWebViewProps> = ({
 
     return (
         <View style={[styles.container, { minHeight, maxHeight }]}>
+            {linkSuggestions.length > 0 && (
+                <ScrollView
+                    horizontal
+                    style={styles.linkSuggestions}
+                    contentContainerStyle={styles.linkSuggestionsContent}
+                    keyboardShouldPersistTaps="always"
+                    showsHorizontalScrollIndicator={false}
+                >
+                    {linkSuggestions.map(title => (
+                        <TouchableOpacity
+                            key={title}
+                            style={styles.linkChip}
+                            onPress={() => sendMessage('insertNoteLink', { title })}
+                        >
+                            <Text style={styles.linkChipText} numberOfLines={1}>{title}</Text>
+                        </TouchableOpacity>
+                    ))}
+                </ScrollView>
+            )}
             {!isReady && (
                 <View style={styles.loader}>
                     <ActivityIndicator size="large" color="#6366F1" />
@@ -546,6 +643,27 @@ const styles = StyleSheet.create({
         flex: 1,
         backgroundColor: 'transparent',
     },
+    linkSuggestions: {
+        flexGrow: 0,
+        borderBottomWidth: 1,
+        borderBottomColor: '#e0e0e0',
+    },
+    linkSuggestionsContent: {
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        gap: 6,
+    },
+    linkChip: {
+        maxWidth: 200,
+        paddingHorizontal: 10,
+        paddingVertical: 5,
+        borderRadius: 12,
+        backgroundColor: '#EEF2FF',
+    },
+    linkChipText: {
+        fontSize: 13,
+        color: '#4f46e5',
+    },
     loader: {
         ...StyleSheet.absoluteFillObject,
         justifyContent: 'center',
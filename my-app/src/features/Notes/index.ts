@@ -3,6 +3,7 @@ export { UPSCNotesScreen } from './screens/UPSCNotesScreen';
 export { WebClipperScreen } from './screens/WebClipperScreen';
 export { CreateNoteScreen } from './screens/CreateNoteScreen';
 export { NoteDetailScreen } from './screens/NoteDetailScreen';
+export { NotePracticeScreen } from './screens/NotePracticeScreen';
 
 // Legacy Screens (keeping for backward compatibility)
 export { NoteEditorScreen } from './screens/NoteEditorScreen';
@@ -26,6 +27,10 @@ export * from './services/notesApi';
 export * from './services/localNotesStorage';
 export * from './services/webScraper';
 export * from './services/aiSummarizer';
+export { syncNotes, getLastSyncedAt } from './services/notesSync';
+export type { NotesSyncResult } from './services/notesSync';
+export { blocksToLexical, lexicalToBlocks, blocksToPlainText } from './services/noteContentMapper';
+export { parseNoteLinks, splitNoteLinks, findNoteByTitle } from './services/noteLinks';
 
 // Types
 export * from './types';
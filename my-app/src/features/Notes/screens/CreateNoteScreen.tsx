@@ -18,12 +18,14 @@ import { LinearGradient } from 'expo-linear-gradient';
 import {
     createNote,
     updateNote,
+    getAllNotes,
     getAllTags,
     LocalTag,
     LocalNote,
     NoteBlock,
 } from '../services/localNotesStorage';
 import { TagPicker } from '../components/TagPicker';
+import { getOpenLinkQuery, completeNoteLink, suggestNoteTitles } from '../services/noteLinks';
 import { summarizeNoteContent } from '../services/aiSummarizer';
 import { smartScrape, isValidUrl, extractDomain } from '../services/webScraper';
 import { TypeWriterText } from '../../../components/TypeWriterText';
@@ -119,8 +121,24 @@ export const CreateNoteScreen: React.FC<CreateNoteScreenProps> = ({ navigation,
     const [showSummaryModal, setShowSummaryModal] = useState(false);
     const [generatedSummary, setGeneratedSummary] = useState('');
 
+    // [[Note link]] suggestions
+    const [linkableNotes, setLinkableNotes] = useState<LocalNote[]>([]);
+
     const inputRefs = useRef<{ [key: string]: TextInput | null }>({});
 
+    useEffect(() => {
+        getAllNotes().then(setLinkableNotes);
+    }, []);
+
+    const focusedBlock = blocks.find(b => b.id === focusedBlockId);
+    const linkQuery = focusedBlock ? getOpenLinkQuery(focusedBlock.content) : null;
+    const linkSuggestions = linkQuery !== null
+        ? suggestNoteTitles(linkableNotes, linkQuery, initialNote?.id)
+        : [];
+    const canLinkNewTitle = !!linkQuery?.trim() &&
+        !linkSuggestions.some(t => t.toLowerCase() === linkQuery.trim().toLowerCase());
+
+
     // Handle block content change with markdown parsing
     const handleBlockChange = useCallback((blockId: string, newText: string) => {
         setBlocks(prev => {
@@ -217,6 +235,35 @@ export const CreateNoteScreen: React.FC<CreateNoteScreenProps> = ({ navigation,
         );
     }, []);
 
+    // Finish the "[[query" being typed in the focused block
+    const insertNoteLink = useCallback((linkTitle: string) => {
+        if (!focusedBlockId) return;
+        setBlocks(prev =>
+            prev.map(block =>
+                block.id === focusedBlockId
+                    ? { ...block, content: completeNoteLink(block.content, linkTitle) }
+                    : block
+            )
+        );
+        inputRefs.current[focusedBlockId]?.focus();
+    }, [focusedBlockId]);
+
+    // Start a link from the toolbar
+    const startNoteLink = useCallback(() => {
+        if (!focusedBlockId || !focusedBlock || focusedBlock.type === 'divider') {
+            addBlock('paragraph');
+            return;
+        }
+        setBlocks(prev =>
+            prev.map(block =>
+                block.id === focusedBlockId
+                    ? { ...block, content: `${block.content}${block.content && !block.content.endsWith(' ') ? ' ' : ''}[[` }
+                    : block
+            )
+        );
+        inputRefs.current[focusedBlockId]?.focus();
+    }, [focusedBlockId, focusedBlock, addBlock]);
+
     // Toggle tag
     const toggleTag = useCallback((tag: LocalTag) => {
         setSelectedTags(prev =>
@@ -719,6 +766,39 @@ export const CreateNoteScreen: React.FC<CreateNoteScreenProps> = ({ navigation,
                     </TouchableOpacity>
                 </ScrollView>
 
+                {/* Note link suggestions */}
+                {linkQuery !== null && (linkSuggestions.length > 0 || canLinkNewTitle) && (
+                    <ScrollView
+                        horizontal
+                        style={styles.linkSuggestions}
+                        contentContainerStyle={styles.linkSuggestionsContent}
+                        keyboardShouldPersistTaps="always"
+                        showsHorizontalScrollIndicator={false}
+                    >
+                        {linkSuggestions.map(suggestion => (
+                            <TouchableOpacity
+                                key={suggestion}
+                                style={styles.linkChip}
+                                onPress={() => insertNoteLink(suggestion)}
+                            >
+                                <Ionicons name="document-text-outline" size={14} color="#6366F1" />
+                                <Text style={styles.linkChipText} numberOfLines={1}>{suggestion}</Text>
+                            </TouchableOpacity>
+                        ))}
+                        {canLinkNewTitle && (
+                            <TouchableOpacity
+                                style={[styles.linkChip, styles.linkChipNew]}
+                                onPress={() => insertNoteLink(linkQuery!.trim())}
+                            >
+                                <Ionicons name="add" size={14} color="#6B7280" />
+                                <Text style={[styles.linkChipText, { color: '#6B7280' }]} numberOfLines={1}>
+                                    Link "{linkQuery!.trim()}"
+                                </Text>
+                            </TouchableOpacity>
+                        )}
+                    </ScrollView>
+                )}
+
                 {/* Formatting toolbar */}
                 <View style={styles.toolbar}>
                     <TouchableOpacity
@@ -757,6 +837,12 @@ export const CreateNoteScreen: React.FC<CreateNoteScreenProps> = ({ navigation,
                     >
                         <Ionicons name="information-circle-outline" size={22} color="#6B7280" />
                     </TouchableOpacity>
+                    <TouchableOpacity
+                        style={styles.toolbarButton}
+                        onPress={startNoteLink}
+                    >
+                        <Text style={styles.toolbarButtonTextBold}>[[</Text>
+                    </TouchableOpacity>
                 </View>
 
                 {/* Web Scrape Modal */}
@@ -1220,6 +1306,35 @@ const styles = StyleSheet.create({
         fontWeight: '700',
         color: '#6B7280',
     },
+    linkSuggestions: {
+        flexGrow: 0,
+        backgroundColor: '#F9FAFB',
+        borderTopWidth: 1,
+        borderTopColor: '#F3F4F6',
+    },
+    linkSuggestionsContent: {
+        paddingHorizontal: 12,
+        paddingVertical: 8,
+        gap: 8,
+    },
+    linkChip: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        maxWidth: 220,
+        paddingHorizontal: 10,
+        paddingVertical: 6,
+        borderRadius: 14,
+        backgroundColor: '#EEF2FF',
+        gap: 4,
+    },
+    linkChipNew: {
+        backgroundColor: '#F3F4F6',
+    },
+    linkChipText: {
+        fontSize: 13,
+        fontWeight: '500',
+        color: '#6366F1',
+    },
     blockMenuOverlay: {
         position: 'absolute',
         bottom: 60,
@@ -14,7 +14,7 @@ import {
 import { Ionicons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
 import {
-    getNoteById,
+    getAllNotes,
     updateNote,
     deleteNote,
     LocalNote,
@@ -22,6 +22,8 @@ import {
     NoteBlock,
 } from '../services/localNotesStorage';
 import { analyzeForUPSC } from '../services/aiSummarizer';
+import { splitNoteLinks, findNoteByTitle, getLinkContext } from '../services/noteLinks';
+import { getNoteMastery, NoteMastery } from '../services/notePractice';
 
 interface NoteDetailScreenProps {
     navigation: any;
@@ -46,19 +48,26 @@ export const NoteDetailScreen: React.FC<NoteDetailScreenProps> = ({ navigation,
     const { noteId } = route.params;
 
     const [note, setNote] = useState<LocalNote | null>(null);
+    const [allNotes, setAllNotes] = useState<LocalNote[]>([]);
+    const [mastery, setMastery] = useState<NoteMastery | null>(null);
     const [isLoading, setIsLoading] = useState(true);
     const [isAnalyzing, setIsAnalyzing] = useState(false);
     const [showActions, setShowActions] = useState(false);
 
     useEffect(() => {
         loadNote();
+        // Backlinks change when a linking note is edited, so refresh on return
+        const unsubscribe = navigation.addListener('focus', () => loadNote(false));
+        return unsubscribe;
     }, [noteId]);
 
-    const loadNote = async () => {
-        setIsLoading(true);
+    const loadNote = async (showLoader = true) => {
+        if (showLoader) setIsLoading(true);
         try {
-            const noteData = await getNoteById(noteId);
-            setNote(noteData);
+            const notesData = await getAllNotes();
+            setAllNotes(notesData);
+            setNote(notesData.find(n => n.id === noteId) || null);
+            setMastery(await getNoteMastery(noteId));
         } catch (error) {
             console.error('Error loading note:', error);
             Alert.alert('Error', 'Failed to load note');
@@ -144,53 +153,100 @@ export const NoteDetailScreen: React.FC<NoteDetailScreenProps> = ({ navigation,
         navigation.navigate('CreateNoteScreen', { initialNote: note });
     };
 
+    const handlePractice = () => {
+        navigation.navigate('NotePracticeScreen', { noteId });
+    };
+
+    const handleLinkPress = (title: string) => {
+        const target = findNoteByTitle(allNotes, title);
+        if (target) {
+            navigation.push('NoteDetailScreen', { noteId: target.id });
+            return;
+        }
+
+        Alert.alert(
+            'Note Not Found',
+            `There is no note titled "${title}" yet. Create it?`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                {
+                    text: 'Create',
+                    onPress: () => navigation.navigate('CreateNoteScreen', { initialNote: { title } }),
+                },
+            ]
+        );
+    };
+
+    // Render text with [[links]] as tappable spans
+    const renderInline = (text: string) =>
+        splitNoteLinks(text).map((part, index) =>
+            part.linkTitle ? (
+                <Text
+                    key={index}
+                    style={[
+                        styles.noteLink,
+                        !findNoteByTitle(allNotes, part.linkTitle) && styles.noteLinkMissing,
+                    ]}
+                    onPress={() => handleLinkPress(part.linkTitle!)}
+                >
+                    {part.text}
+                </Text>
+            ) : (
+                part.text
+            )
+        );
+
+    const linkedReferences = (note?.backlinks || [])
+        .map(id => allNotes.find(n => n.id === id))
+        .filter((n): n is LocalNote => !!n);
+
     // Render block content
     const renderBlock = (block: NoteBlock, index: number) => {
         switch (block.type) {
             case 'h1':
                 return (
                     <Text key={block.id} style={styles.h1Text}>
-                        {block.content}
+                        {renderInline(block.content)}
                     </Text>
                 );
             case 'h2':
                 return (
                     <Text key={block.id} style={styles.h2Text}>
-                        {block.content}
+                        {renderInline(block.content)}
                     </Text>
                 );
             case 'h3':
                 return (
                     <Text key={block.id} style={styles.h3Text}>
-                        {block.content}
+                        {renderInline(block.content)}
                     </Text>
                 );
             case 'bullet':
                 return (
                     <View key={block.id} style={styles.bulletItem}>
                         <View style={styles.bulletDot} />
-                        <Text style={styles.bulletText}>{block.content}</Text>
+                        <Text style={styles.bulletText}>{renderInline(block.content)}</Text>
                     </View>
                 );
             case 'numbered':
                 return (
                     <View key={block.id} style={styles.numberedItem}>
                         <Text style={styles.numberedNumber}>{index + 1}.</Text>
-                        <Text style={styles.numberedText}>{block.content}</Text>
+                        <Text style={styles.numberedText}>{renderInline(block.content)}</Text>
                     </View>
                 );
             case 'quote':
                 return (
                     <View key={block.id} style={styles.quoteBlock}>
                         <View style={styles.quoteBar} />
-                        <Text style={styles.quoteText}>{block.content}</Text>
+                        <Text style={styles.quoteText}>{renderInline(block.content)}</Text>
                     </View>
                 );
             case 'callout':
                 return (
                     <View key={block.id} style={styles.calloutBlock}>
                         <Ionicons name="information-circle" size={18} color="#F59E0B" />
-                        <Text style={styles.calloutText}>{block.content}</Text>
+                        <Text style={styles.calloutText}>{renderInline(block.content)}</Text>
                     </View>
                 );
             case 'divider':
@@ -198,7 +254,7 @@ export const NoteDetailScreen: React.FC<NoteDetailScreenProps> = ({ navigation,
             default:
                 return (
                     <Text key={block.id} style={styles.paragraphText}>
-                        {block.content}
+                        {renderInline(block.content)}
                     </Text>
                 );
         }
@@ -294,6 +350,16 @@ export const NoteDetailScreen: React.FC<NoteDetailScreenProps> = ({ navigation,
                         <Ionicons name="sparkles-outline" size={20} color="#8B5CF6" />
                         <Text style={[styles.actionText, { color: '#8B5CF6' }]}>AI Analyze</Text>
                     </TouchableOpacity>
+                    <TouchableOpacity
+                        style={styles.actionItem}
+                        onPress={() => {
+                            setShowActions(false);
+                            handlePractice();
+                        }}
+                    >
+                        <Ionicons name="school-outline" size={20} color="#6366F1" />
+                        <Text style={styles.actionText}>Practice this note</Text>
+                    </TouchableOpacity>
                     <TouchableOpacity
                         style={styles.actionItem}
                         onPress={() => {
@@ -364,6 +430,17 @@ export const NoteDetailScreen: React.FC<NoteDetailScreenProps> = ({ navigation,
                     </View>
                 )}
 
+                {/* Practice mastery */}
+                {mastery && (
+                    <TouchableOpacity style={styles.masteryRow} onPress={handlePractice}>
+                        <Ionicons name="school-outline" size={16} color="#6366F1" />
+                        <Text style={styles.masteryText}>
+                            {mastery.percentage}% mastered · {mastery.flashcardsMastered}/{mastery.flashcardsTotal} cards · {mastery.quizCorrect}/{mastery.quizTotal} quiz
+                        </Text>
+                        <Ionicons name="chevron-forward" size={16} color="#9CA3AF" />
+                    </TouchableOpacity>
+                )}
+
                 {/* AI Summary */}
                 {note.summary && (
                     <View style={styles.summaryCard}>
@@ -383,9 +460,40 @@ export const NoteDetailScreen: React.FC<NoteDetailScreenProps> = ({ navigation,
                     {note.blocks && note.blocks.length > 0 ? (
                         note.blocks.map((block, index) => renderBlock(block, index))
                     ) : (
-                        <Text style={styles.paragraphText}>{note.content}</Text>
+                        <Text style={styles.paragraphText}>{renderInline(note.content)}</Text>
                     )}
                 </View>
+
+                {/* Linked references */}
+                {linkedReferences.length > 0 && (
+                    <View style={styles.referencesSection}>
+                        <View style={styles.referencesHeader}>
+                            <Ionicons name="git-branch-outline" size={16} color="#6366F1" />
+                            <Text style={styles.referencesTitle}>
+                                Linked references ({linkedReferences.length})
+                            </Text>
+                        </View>
+                        {linkedReferences.map(ref => {
+                            const context = getLinkContext(ref, note.title);
+                            return (
+                                <TouchableOpacity
+                                    key={ref.id}
+                                    style={styles.referenceCard}
+                                    onPress={() => navigation.push('NoteDetailScreen', { noteId: ref.id })}
+                                >
+                                    <Text style={styles.referenceTitle} numberOfLines={1}>
+                                        {ref.title}
+                                    </Text>
+                                    {!!context && (
+                                        <Text style={styles.referenceContext} numberOfLines={2}>
+                                            {renderInline(context)}
+                                        </Text>
+                                    )}
+                                </TouchableOpacity>
+                            );
+                        })}
+                    </View>
+                )}
             </ScrollView>
 
             {/* Bottom actions */}
@@ -398,6 +506,14 @@ export const NoteDetailScreen: React.FC<NoteDetailScreenProps> = ({ navigation,
                     <Text style={styles.bottomButtonText}>Edit</Text>
                 </TouchableOpacity>
 
+                <TouchableOpacity
+                    style={styles.bottomButton}
+                    onPress={handlePractice}
+                >
+                    <Ionicons name="school-outline" size={20} color="#6366F1" />
+                    <Text style={styles.bottomButtonText}>Practice</Text>
+                </TouchableOpacity>
+
                 {!note.summary && (
                     <TouchableOpacity
                         style={[styles.bottomButton, styles.analyzeButton]}
@@ -543,6 +659,22 @@ const styles = StyleSheet.create({
         fontSize: 12,
         fontWeight: '500',
     },
+    masteryRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        backgroundColor: '#EEF2FF',
+        borderRadius: 10,
+        paddingHorizontal: 12,
+        paddingVertical: 10,
+        gap: 8,
+        marginBottom: 16,
+    },
+    masteryText: {
+        flex: 1,
+        fontSize: 13,
+        fontWeight: '500',
+        color: '#4F46E5',
+    },
     summaryCard: {
         backgroundColor: '#F5F3FF',
         borderRadius: 12,
@@ -677,6 +809,49 @@ const styles = StyleSheet.create({
         backgroundColor: '#E5E7EB',
         marginVertical: 16,
     },
+    noteLink: {
+        color: '#6366F1',
+        fontWeight: '500',
+        textDecorationLine: 'underline',
+    },
+    noteLinkMissing: {
+        color: '#9CA3AF',
+        textDecorationStyle: 'dashed',
+    },
+    referencesSection: {
+        marginTop: 32,
+        paddingTop: 16,
+        borderTopWidth: 1,
+        borderTopColor: '#F3F4F6',
+    },
+    referencesHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+        marginBottom: 12,
+    },
+    referencesTitle: {
+        fontSize: 13,
+        fontWeight: '600',
+        color: '#6366F1',
+    },
+    referenceCard: {
+        backgroundColor: '#F9FAFB',
+        borderRadius: 10,
+        padding: 12,
+        marginBottom: 8,
+    },
+    referenceTitle: {
+        fontSize: 15,
+        fontWeight: '600',
+        color: '#1F2937',
+    },
+    referenceContext: {
+        fontSize: 13,
+        color: '#6B7280',
+        lineHeight: 19,
+        marginTop: 4,
+    },
     bottomBar: {
         flexDirection: 'row',
         alignItems: 'center',
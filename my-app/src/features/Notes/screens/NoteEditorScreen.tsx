@@ -18,6 +18,7 @@ import { useSaveNote } from '../hooks/useSaveNote';
 import { useLoadNote } from '../hooks/useLoadNote';
 import type { Tag } from '../types';
 import { Input } from '../../../components/Input';
+import { useStudyTimeTracking } from '../../../hooks/useStudyTimeTracking';
 
 // Block types
 type BlockType = 'paragraph' | 'h1' | 'h2' | 'h3' | 'bullet' | 'numbered' | 'quote' | 'divider';
@@ -131,6 +132,14 @@ export const NoteEditorScreen: React.FC<NoteEditorScreenProps> = ({
         }
     }, [note, setNoteId]);
 
+    // Editing time counts towards the roadmap topic the note's tags match
+    useStudyTimeTracking({
+        source: 'note',
+        sourceId: noteId,
+        title: title || 'Untitled note',
+        topicHints: selectedTags.map(tag => tag.name),
+    }, !isLoadingNote);
+
     // Handle block content change
     const handleBlockChange = useCallback((blockId: string, newText: string) => {
         setBlocks(prev => {
@@ -0,0 +1,641 @@
+import React, { useState, useEffect } from 'react';
+import {
+    View,
+    Text,
+    StyleSheet,
+    SafeAreaView,
+    TouchableOpacity,
+    ScrollView,
+    ActivityIndicator,
+    Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+// @ts-ignore
+import { useAuth } from '../../../context/AuthContext';
+import { useAIFeature } from '../../../hooks/useAIFeature';
+import { getNoteById, LocalNote } from '../services/localNotesStorage';
+import {
+    generateNotePractice,
+    getNotePractice,
+    getNotePracticeSession,
+    getNoteMastery,
+    reviewFlashcard,
+    isFlashcardMastered,
+    isPracticeOutdated,
+    NotePracticeSet,
+    NoteMastery,
+} from '../services/notePractice';
+import { AIMCQSession, saveMCQSession, updateSessionAnswer } from '../../PDFMCQ/utils/aiMCQStorage';
+import { trackAttempt, buildLocalQuestionKey } from '../../PDFMCQ/utils/reviewApi';
+
+interface NotePracticeScreenProps {
+    navigation: any;
+    route: {
+        params: {
+            noteId: number;
+        };
+    };
+}
+
+const TABS = [
+    { key: 'flashcards', label: 'Flashcards', icon: 'albums-outline' },
+    { key: 'quiz', label: 'Quiz', icon: 'help-circle-outline' },
+] as const;
+
+const OPTION_KEYS = ['A', 'B', 'C', 'D'] as const;
+
+export const NotePracticeScreen: React.FC<NotePracticeScreenProps> = ({ navigation, route }) => {
+    const { noteId } = route.params;
+    const { user } = useAuth() as { user: { id?: string } | null };
+    const { canUse, cost, executeWithCredits, showInsufficientCreditsAlert } = useAIFeature('mcq_generator');
+
+    const [note, setNote] = useState<LocalNote | null>(null);
+    const [practice, setPractice] = useState<NotePracticeSet | null>(null);
+    const [session, setSession] = useState<AIMCQSession | null>(null);
+    const [mastery, setMastery] = useState<NoteMastery | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isGenerating, setIsGenerating] = useState(false);
+    const [activeTab, setActiveTab] = useState<'flashcards' | 'quiz'>('flashcards');
+    const [cardIndex, setCardIndex] = useState(0);
+    const [showAnswer, setShowAnswer] = useState(false);
+
+    useEffect(() => {
+        loadPractice();
+    }, [noteId]);
+
+    const loadPractice = async () => {
+        setIsLoading(true);
+        try {
+            const [noteData, practiceData] = await Promise.all([
+                getNoteById(noteId),
+                getNotePractice(noteId),
+            ]);
+            setNote(noteData);
+            setPractice(practiceData);
+            setSession(practiceData ? await getNotePracticeSession(practiceData) : null);
+            setMastery(await getNoteMastery(noteId));
+        } catch (error) {
+            console.error('Error loading practice:', error);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleGenerate = async () => {
+        if (!note) return;
+        if (!canUse) {
+            showInsufficientCreditsAlert();
+            return;
+        }
+
+        await executeWithCredits(async () => {
+            setIsGenerating(true);
+            try {
+                const result = await generateNotePractice(note);
+                if (result.error || !result.practice) {
+                    Alert.alert('Could Not Generate', result.error || 'Please try again');
+                    return;
+                }
+                setPractice(result.practice);
+                setSession(result.session || null);
+                setCardIndex(0);
+                setShowAnswer(false);
+                setActiveTab(result.practice.flashcards.length > 0 ? 'flashcards' : 'quiz');
+                setMastery(await getNoteMastery(noteId));
+            } finally {
+                setIsGenerating(false);
+            }
+        });
+    };
+
+    const handleReviewCard = async (remembered: boolean) => {
+        if (!practice) return;
+        const card = practice.flashcards[cardIndex];
+        const updated = await reviewFlashcard(noteId, card.id, remembered);
+        if (updated) setPractice(updated);
+        setMastery(await getNoteMastery(noteId));
+        setShowAnswer(false);
+        setCardIndex(prev => (prev + 1) % practice.flashcards.length);
+    };
+
+    const handleSelectAnswer = async (questionIndex: number, option: string) => {
+        if (!session || session.userAnswers[questionIndex]) return;
+
+        const updated = updateSessionAnswer(session, questionIndex, option);
+        await saveMCQSession(updated);
+        setSession(updated);
+        setMastery(await getNoteMastery(noteId));
+
+        // Missed questions come back in the daily review queue
+        trackAttempt(user?.id, {
+            source: 'ai_mcq',
+            questionKey: buildLocalQuestionKey(session.id, questionIndex),
+            question: session.mcqs[questionIndex],
+            selectedAnswer: option,
+            sessionId: session.id,
+        });
+    };
+
+    const renderMastery = () => {
+        if (!mastery) return null;
+        return (
+            <View style={styles.masteryCard}>
+                <View style={styles.masteryHeader}>
+                    <Text style={styles.masteryLabel}>Mastery</Text>
+                    <Text style={styles.masteryPercent}>{mastery.percentage}%</Text>
+                </View>
+                <View style={styles.progressTrack}>
+                    <View style={[styles.progressFill, { width: `${mastery.percentage}%` }]} />
+                </View>
+                <View style={styles.masteryStats}>
+                    <Text style={styles.masteryStat}>
+                        {mastery.flashcardsMastered}/{mastery.flashcardsTotal} cards mastered
+                    </Text>
+                    <Text style={styles.masteryStat}>
+                        {mastery.quizCorrect}/{mastery.quizTotal} quiz correct
+                    </Text>
+                </View>
+            </View>
+        );
+    };
+
+    const renderFlashcards = () => {
+        if (!practice || practice.flashcards.length === 0) {
+            return <Text style={styles.emptyText}>No flashcards could be made from this note.</Text>;
+        }
+
+        const card = practice.flashcards[cardIndex];
+        return (
+            <View>
+                <Text style={styles.cardCounter}>
+                    Card {cardIndex + 1} of {practice.flashcards.length}
+                    {isFlashcardMastered(card) ? '  ·  Mastered' : ''}
+                </Text>
+                <TouchableOpacity
+                    style={styles.flashcard}
+                    activeOpacity={0.9}
+                    onPress={() => setShowAnswer(!showAnswer)}
+                >
+                    <Text style={styles.clozeText}>{card.cloze}</Text>
+                    {showAnswer ? (
+                        <View style={styles.answerBox}>
+                            <Text style={styles.answerText}>{card.answer}</Text>
+                            <Text style={styles.sourceText}>"{card.source}"</Text>
+                        </View>
+                    ) : (
+                        <Text style={styles.tapHint}>Tap to reveal</Text>
+                    )}
+                </TouchableOpacity>
+
+                {showAnswer && (
+                    <View style={styles.reviewButtons}>
+                        <TouchableOpacity
+                            style={[styles.reviewButton, styles.againButton]}
+                            onPress={() => handleReviewCard(false)}
+                        >
+                            <Ionicons name="refresh" size={18} color="#EF4444" />
+                            <Text style={[styles.reviewButtonText, { color: '#EF4444' }]}>Again</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                            style={[styles.reviewButton, styles.gotItButton]}
+                            onPress={() => handleReviewCard(true)}
+                        >
+                            <Ionicons name="checkmark" size={18} color="#10B981" />
+                            <Text style={[styles.reviewButtonText, { color: '#10B981' }]}>Got it</Text>
+                        </TouchableOpacity>
+                    </View>
+                )}
+            </View>
+        );
+    };
+
+    const renderQuiz = () => {
+        if (!session || session.mcqs.length === 0) {
+            return <Text style={styles.emptyText}>No quiz questions could be made from this note.</Text>;
+        }
+
+        return session.mcqs.map((mcq, questionIndex) => {
+            const selected = session.userAnswers[questionIndex];
+            return (
+                <View key={mcq.id} style={styles.questionCard}>
+                    <Text style={styles.questionText}>
+                        {questionIndex + 1}. {mcq.question}
+                    </Text>
+                    {OPTION_KEYS.map(key => {
+                        const isCorrect = key === mcq.correctAnswer;
+                        const isSelected = key === selected;
+                        return (
+                            <TouchableOpacity
+                                key={key}
+                                style={[
+                                    styles.option,
+                                    !!selected && isCorrect && styles.optionCorrect,
+                                    isSelected && !isCorrect && styles.optionWrong,
+                                ]}
+                                disabled={!!selected}
+                                onPress={() => handleSelectAnswer(questionIndex, key)}
+                            >
+                                <Text style={styles.optionKey}>{key}</Text>
+                                <Text style={styles.optionText}>{mcq[`option${key}` as const]}</Text>
+                            </TouchableOpacity>
+                        );
+                    })}
+                    {!!selected && !!mcq.explanation && (
+                        <Text style={styles.explanationText}>{mcq.explanation}</Text>
+                    )}
+                </View>
+            );
+        });
+    };
+
+    if (isLoading) {
+        return (
+            <SafeAreaView style={styles.container}>
+                <View style={styles.centered}>
+                    <ActivityIndicator size="large" color="#6366F1" />
+                </View>
+            </SafeAreaView>
+        );
+    }
+
+    const outdated = !!practice && !!note && isPracticeOutdated(practice, note);
+
+    return (
+        <SafeAreaView style={styles.container}>
+            {/* Header */}
+            <View style={styles.header}>
+                <TouchableOpacity onPress={() => navigation.goBack()} style={styles.headerButton}>
+                    <Ionicons name="chevron-back" size={24} color="#1F2937" />
+                </TouchableOpacity>
+                <View style={styles.headerCenter}>
+                    <Text style={styles.headerTitle}>Practice</Text>
+                    <Text style={styles.headerSubtitle} numberOfLines={1}>{note?.title}</Text>
+                </View>
+                {practice ? (
+                    <TouchableOpacity
+                        onPress={handleGenerate}
+                        style={styles.headerButton}
+                        disabled={isGenerating}
+                    >
+                        <Ionicons name="refresh-outline" size={22} color="#6B7280" />
+                    </TouchableOpacity>
+                ) : (
+                    <View style={styles.headerButton} />
+                )}
+            </View>
+
+            <ScrollView contentContainerStyle={styles.content}>
+                {!note ? (
+                    <Text style={styles.emptyText}>Note not found</Text>
+                ) : isGenerating ? (
+                    <View style={styles.generating}>
+                        <ActivityIndicator size="large" color="#8B5CF6" />
+                        <Text style={styles.generatingText}>Creating flashcards and questions from your note...</Text>
+                    </View>
+                ) : !practice ? (
+                    <View style={styles.introCard}>
+                        <Ionicons name="school-outline" size={48} color="#8B5CF6" />
+                        <Text style={styles.introTitle}>Practice this note</Text>
+                        <Text style={styles.introText}>
+                            Get cloze flashcards and a short MCQ quiz made only from what you wrote,
+                            and track how well you know this note.
+                        </Text>
+                        <TouchableOpacity style={styles.generateButton} onPress={handleGenerate}>
+                            <Ionicons name="sparkles" size={18} color="#FFFFFF" />
+                            <Text style={styles.generateButtonText}>Generate ({cost} credits)</Text>
+                        </TouchableOpacity>
+                    </View>
+                ) : (
+                    <>
+                        {outdated && (
+                            <TouchableOpacity style={styles.outdatedBanner} onPress={handleGenerate}>
+                                <Ionicons name="alert-circle-outline" size={18} color="#B45309" />
+                                <Text style={styles.outdatedText}>
+                                    This note changed since these questions were made. Tap to regenerate.
+                                </Text>
+                            </TouchableOpacity>
+                        )}
+
+                        {renderMastery()}
+
+                        <View style={styles.tabs}>
+                            {TABS.map(tab => (
+                                <TouchableOpacity
+                                    key={tab.key}
+                                    style={[styles.tab, activeTab === tab.key && styles.activeTab]}
+                                    onPress={() => setActiveTab(tab.key)}
+                                >
+                                    <Ionicons
+                                        name={tab.icon}
+                                        size={16}
+                                        color={activeTab === tab.key ? '#6366F1' : '#9CA3AF'}
+                                    />
+                                    <Text style={[styles.tabText, activeTab === tab.key && styles.activeTabText]}>
+                                        {tab.label}
+                                    </Text>
+                                </TouchableOpacity>
+                            ))}
+                        </View>
+
+                        {activeTab === 'flashcards' ? renderFlashcards() : renderQuiz()}
+                    </>
+                )}
+            </ScrollView>
+        </SafeAreaView>
+    );
+};
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#FFFFFF',
+    },
+    centered: {
+        flex: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        paddingHorizontal: 16,
+        paddingVertical: 12,
+        borderBottomWidth: 1,
+        borderBottomColor: '#F3F4F6',
+    },
+    headerButton: {
+        padding: 8,
+        width: 40,
+    },
+    headerCenter: {
+        flex: 1,
+        alignItems: 'center',
+    },
+    headerTitle: {
+        fontSize: 16,
+        fontWeight: '600',
+        color: '#1F2937',
+    },
+    headerSubtitle: {
+        fontSize: 12,
+        color: '#9CA3AF',
+        marginTop: 2,
+    },
+    content: {
+        padding: 20,
+        paddingBottom: 60,
+    },
+    emptyText: {
+        fontSize: 14,
+        color: '#9CA3AF',
+        textAlign: 'center',
+        marginTop: 24,
+    },
+    generating: {
+        alignItems: 'center',
+        paddingVertical: 60,
+        gap: 16,
+    },
+    generatingText: {
+        fontSize: 14,
+        color: '#6B7280',
+        textAlign: 'center',
+    },
+    introCard: {
+        alignItems: 'center',
+        backgroundColor: '#F5F3FF',
+        borderRadius: 16,
+        padding: 24,
+        gap: 12,
+    },
+    introTitle: {
+        fontSize: 20,
+        fontWeight: '700',
+        color: '#1F2937',
+    },
+    introText: {
+        fontSize: 14,
+        color: '#6B7280',
+        textAlign: 'center',
+        lineHeight: 21,
+    },
+    generateButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        backgroundColor: '#8B5CF6',
+        paddingHorizontal: 20,
+        paddingVertical: 12,
+        borderRadius: 10,
+        gap: 8,
+        marginTop: 8,
+    },
+    generateButtonText: {
+        fontSize: 15,
+        fontWeight: '600',
+        color: '#FFFFFF',
+    },
+    outdatedBanner: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        backgroundColor: '#FEF3C7',
+        borderRadius: 10,
+        padding: 12,
+        gap: 8,
+        marginBottom: 16,
+    },
+    outdatedText: {
+        flex: 1,
+        fontSize: 13,
+        color: '#92400E',
+    },
+    masteryCard: {
+        backgroundColor: '#EEF2FF',
+        borderRadius: 12,
+        padding: 16,
+        marginBottom: 16,
+    },
+    masteryHeader: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: 8,
+    },
+    masteryLabel: {
+        fontSize: 13,
+        fontWeight: '600',
+        color: '#4F46E5',
+    },
+    masteryPercent: {
+        fontSize: 20,
+        fontWeight: '700',
+        color: '#4F46E5',
+    },
+    progressTrack: {
+        height: 8,
+        borderRadius: 4,
+        backgroundColor: '#C7D2FE',
+        overflow: 'hidden',
+    },
+    progressFill: {
+        height: '100%',
+        backgroundColor: '#6366F1',
+    },
+    masteryStats: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        marginTop: 8,
+    },
+    masteryStat: {
+        fontSize: 12,
+        color: '#6B7280',
+    },
+    tabs: {
+        flexDirection: 'row',
+        backgroundColor: '#F3F4F6',
+        borderRadius: 10,
+        padding: 4,
+        marginBottom: 16,
+    },
+    tab: {
+        flex: 1,
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        paddingVertical: 8,
+        borderRadius: 8,
+        gap: 6,
+    },
+    activeTab: {
+        backgroundColor: '#FFFFFF',
+    },
+    tabText: {
+        fontSize: 14,
+        color: '#9CA3AF',
+        fontWeight: '500',
+    },
+    activeTabText: {
+        color: '#6366F1',
+    },
+    cardCounter: {
+        fontSize: 12,
+        color: '#9CA3AF',
+        marginBottom: 8,
+        textAlign: 'center',
+    },
+    flashcard: {
+        minHeight: 200,
+        backgroundColor: '#FFFFFF',
+        borderRadius: 16,
+        borderWidth: 1,
+        borderColor: '#E5E7EB',
+        padding: 24,
+        justifyContent: 'center',
+    },
+    clozeText: {
+        fontSize: 18,
+        color: '#1F2937',
+        lineHeight: 28,
+        textAlign: 'center',
+    },
+    tapHint: {
+        fontSize: 13,
+        color: '#9CA3AF',
+        textAlign: 'center',
+        marginTop: 20,
+    },
+    answerBox: {
+        marginTop: 20,
+        paddingTop: 16,
+        borderTopWidth: 1,
+        borderTopColor: '#F3F4F6',
+        alignItems: 'center',
+        gap: 8,
+    },
+    answerText: {
+        fontSize: 20,
+        fontWeight: '700',
+        color: '#6366F1',
+    },
+    sourceText: {
+        fontSize: 13,
+        color: '#6B7280',
+        fontStyle: 'italic',
+        textAlign: 'center',
+    },
+    reviewButtons: {
+        flexDirection: 'row',
+        gap: 12,
+        marginTop: 16,
+    },
+    reviewButton: {
+        flex: 1,
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        paddingVertical: 12,
+        borderRadius: 10,
+        gap: 6,
+    },
+    againButton: {
+        backgroundColor: '#FEE2E2',
+    },
+    gotItButton: {
+        backgroundColor: '#D1FAE5',
+    },
+    reviewButtonText: {
+        fontSize: 15,
+        fontWeight: '600',
+    },
+    questionCard: {
+        backgroundColor: '#F9FAFB',
+        borderRadius: 12,
+        padding: 16,
+        marginBottom: 12,
+    },
+    questionText: {
+        fontSize: 15,
+        fontWeight: '600',
+        color: '#1F2937',
+        lineHeight: 22,
+        marginBottom: 12,
+    },
+    option: {
+        flexDirection: 'row',
+        alignItems: 'flex-start',
+        backgroundColor: '#FFFFFF',
+        borderWidth: 1,
+        borderColor: '#E5E7EB',
+        borderRadius: 8,
+        padding: 12,
+        marginBottom: 8,
+        gap: 10,
+    },
+    optionCorrect: {
+        borderColor: '#10B981',
+        backgroundColor: '#ECFDF5',
+    },
+    optionWrong: {
+        borderColor: '#EF4444',
+        backgroundColor: '#FEF2F2',
+    },
+    optionKey: {
+        fontSize: 14,
+        fontWeight: '700',
+        color: '#6B7280',
+    },
+    optionText: {
+        flex: 1,
+        fontSize: 14,
+        color: '#374151',
+        lineHeight: 20,
+    },
+    explanationText: {
+        fontSize: 13,
+        color: '#4B5563',
+        lineHeight: 20,
+        marginTop: 4,
+    },
+});
+
+export default NotePracticeScreen;
@@ -24,6 +24,7 @@ import {
     LocalNote,
     LocalTag,
 } from '../services/localNotesStorage';
+import { syncNotes, NotesSyncResult } from '../services/notesSync';
 import { checkNewsMatches, MatchedArticle } from '../../../services/NewsMatchService';
 import { Modal } from 'react-native';
 
@@ -68,7 +69,13 @@ export const UPSCNotesScreen: React.FC<UPSCNotesScreenProps> = ({ navigation })
 
     // Load data on mount
     useEffect(() => {
-        loadData();
+        loadData().then(async () => {
+            const result = await syncNotes();
+            if (result.pulled > 0 || result.conflicts > 0) {
+                await loadData();
+            }
+            notifyConflicts(result);
+        });
     }, []);
 
     // Filter notes when search/tab/tags change
@@ -105,8 +112,19 @@ export const UPSCNotesScreen: React.FC<UPSCNotesScreenProps> = ({ navigation })
 
     const handleRefresh = async () => {
         setIsRefreshing(true);
+        const result = await syncNotes();
         await loadData();
         setIsRefreshing(false);
+        notifyConflicts(result);
+    };
+
+    const notifyConflicts = (result: NotesSyncResult) => {
+        if (result.conflicts > 0) {
+            Alert.alert(
+                'Notes Synced',
+                `${result.conflicts} note${result.conflicts === 1 ? ' was' : 's were'} edited on another device. Your version was kept as a "(conflicted copy)" note.`
+            );
+        }
     };
 
     const filterNotes = useCallback(async () => {
@@ -4,6 +4,7 @@
  */
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { computeBacklinks } from './noteLinks';
 
 // Storage Keys
 const STORAGE_KEYS = {
@@ -12,6 +13,7 @@ const STORAGE_KEYS = {
     LINKS: '@upsc_scraped_links',
     NOTE_COUNTER: '@upsc_note_counter',
     TAG_COUNTER: '@upsc_tag_counter',
+    DELETED_NOTES: '@upsc_deleted_notes',
 };
 
 // ==================== Types ====================
@@ -49,6 +51,20 @@ export interface LocalNote {
     isArchived: boolean;
     createdAt: string;
     updatedAt: string;
+    // Cloud sync (see notesSync.ts). Notes saved before sync existed have none of these.
+    clientId?: string; // Stable across devices, unlike the local numeric id
+    serverId?: number;
+    serverVersion?: number; // Server version this local copy is based on
+    dirty?: boolean; // Edited since the last successful push
+    backlinks?: number[]; // IDs of notes that [[link]] to this one (see noteLinks.ts)
+}
+
+// A deleted note the server still has to be told about
+export interface NoteTombstone {
+    clientId: string;
+    serverId: number;
+    serverVersion?: number;
+    deletedAt: string;
 }
 
 export interface NoteBlock {
@@ -104,6 +120,13 @@ const generateId = async (counterKey: string): Promise<number> => {
 
 const getTimestamp = (): string => new Date().toISOString();
 
+// Every write of the notes list refreshes backlinks, since any title or content change can affect them
+const writeNotes = (notes: LocalNote[]): Promise<void> =>
+    AsyncStorage.setItem(STORAGE_KEYS.NOTES, JSON.stringify(computeBacklinks(notes)));
+
+export const generateClientId = (): string =>
+    `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}${Math.random().toString(36).slice(2, 10)}`;
+
 // ==================== Notes CRUD ====================
 
 export const getAllNotes = async (): Promise<LocalNote[]> => {
@@ -150,10 +173,12 @@ export const createNote = async (noteData: Partial<LocalNote>): Promise<LocalNot
             isArchived: noteData.isArchived || false,
             createdAt: timestamp,
             updatedAt: timestamp,
+            clientId: generateClientId(),
+            dirty: true,
         };
 
         notes.push(newNote);
-        await AsyncStorage.setItem(STORAGE_KEYS.NOTES, JSON.stringify(notes));
+        await writeNotes(notes);
 
         // Update tag usage counts
         for (const tag of newNote.tags) {
@@ -182,10 +207,11 @@ export const updateNote = async (noteId: number, updates: Partial<LocalNote>): P
             ...notes[index],
             ...updates,
             updatedAt: getTimestamp(),
+            dirty: true,
         };
 
         notes[index] = updatedNote;
-        await AsyncStorage.setItem(STORAGE_KEYS.NOTES, JSON.stringify(notes));
+        await writeNotes(notes);
         
         console.log('[LocalNotesStorage] Updated note:', noteId);
         return updatedNote;
@@ -198,14 +224,27 @@ export const updateNote = async (noteId: number, updates: Partial<LocalNote>): P
 export const deleteNote = async (noteId: number): Promise<boolean> => {
     try {
         const notes = await getAllNotes();
+        const note = notes.find(n => n.id === noteId);
         const filteredNotes = notes.filter(note => note.id !== noteId);
         
-        if (filteredNotes.length === notes.length) {
+        if (!note) {
             console.error('[LocalNotesStorage] Note not found:', noteId);
             return false;
         }
 
-        await AsyncStorage.setItem(STORAGE_KEYS.NOTES, JSON.stringify(filteredNotes));
+        await writeNotes(filteredNotes);
+
+        // Synced notes must also be deleted on the server (and so on other devices)
+        if (note.serverId && note.clientId) {
+            const tombstones = await getDeletedNotes();
+            tombstones.push({
+                clientId: note.clientId,
+                serverId: note.serverId,
+                serverVersion: note.serverVersion,
+                deletedAt: getTimestamp(),
+            });
+            await AsyncStorage.setItem(STORAGE_KEYS.DELETED_NOTES, JSON.stringify(tombstones));
+        }
         console.log('[LocalNotesStorage] Deleted note:', noteId);
         return true;
     } catch (error) {
@@ -421,6 +460,30 @@ export const getScrapedLinks = async (): Promise<ScrapedLink[]> => {
     }
 };
 
+// ==================== Sync ====================
+// Low-level access for notesSync.ts: these do not touch updatedAt or dirty
+
+export const generateNoteId = (): Promise<number> => generateId(STORAGE_KEYS.NOTE_COUNTER);
+
+export const saveAllNotes = async (notes: LocalNote[]): Promise<void> => {
+    await writeNotes(notes);
+};
+
+export const getDeletedNotes = async (): Promise<NoteTombstone[]> => {
+    try {
+        const json = await AsyncStorage.getItem(STORAGE_KEYS.DELETED_NOTES);
+        return json ? JSON.parse(json) : [];
+    } catch (error) {
+        console.error('[LocalNotesStorage] Error getting deleted notes:', error);
+        return [];
+    }
+};
+
+export const clearDeletedNotes = async (clientIds: string[]): Promise<void> => {
+    const remaining = (await getDeletedNotes()).filter(t => !clientIds.includes(t.clientId));
+    await AsyncStorage.setItem(STORAGE_KEYS.DELETED_NOTES, JSON.stringify(remaining));
+};
+
 // ==================== Utility ====================
 
 export const clearAllNotesData = async (): Promise<void> => {
@@ -431,6 +494,7 @@ export const clearAllNotesData = async (): Promise<void> => {
             STORAGE_KEYS.LINKS,
             STORAGE_KEYS.NOTE_COUNTER,
             STORAGE_KEYS.TAG_COUNTER,
+            STORAGE_KEYS.DELETED_NOTES,
         ]);
         console.log('[LocalNotesStorage] Cleared all notes data');
     } catch (error) {
@@ -0,0 +1,188 @@
+/**
+ * Maps local block notes (NoteBlock[]) to the server's Lexical JSON and back.
+ *
+ * Blocks with a Lexical equivalent become native nodes (heading, list, quote, code)
+ * so the web editor can open them. The rest (divider, callout, toggle, link, image)
+ * become paragraphs tagged with `blockType` + `metadata`, which Lexical ignores
+ * but lets a round trip restore the original block. Every top-level node (and
+ * list item) carries its `blockId`.
+ */
+
+import { LexicalNode, LexicalRoot } from '../types';
+import { NoteBlock } from './localNotesStorage';
+
+type BlockNode = LexicalNode & {
+    listType?: 'bullet' | 'number';
+    language?: string;
+    value?: number;
+    blockId?: string;
+    blockType?: NoteBlock['type'];
+    metadata?: NoteBlock['metadata'];
+};
+
+const textNode = (text: string): LexicalNode => ({
+    type: 'text',
+    version: 1,
+    text,
+    format: 0,
+    style: '',
+    mode: 'normal',
+    detail: 0,
+});
+
+const elementNode = (type: string, content: string, extra: Partial<BlockNode> = {}): BlockNode => ({
+    type,
+    version: 1,
+    children: content ? [textNode(content)] : [],
+    direction: null,
+    format: '',
+    indent: 0,
+    ...extra,
+} as BlockNode);
+
+const HEADING_TAGS: Record<string, NoteBlock['type']> = { h1: 'h1', h2: 'h2', h3: 'h3', h4: 'h3', h5: 'h3', h6: 'h3' };
+
+export function blocksToLexical(blocks: NoteBlock[]): LexicalRoot {
+    const children: BlockNode[] = [];
+
+    for (const block of blocks) {
+        const base = { blockId: block.id };
+
+        switch (block.type) {
+            case 'paragraph':
+                children.push(elementNode('paragraph', block.content, base));
+                break;
+
+            case 'h1':
+            case 'h2':
+            case 'h3':
+                children.push(elementNode('heading', block.content, { ...base, tag: block.type }));
+                break;
+
+            case 'quote':
+                children.push(elementNode('quote', block.content, base));
+                break;
+
+            case 'code':
+                children.push(elementNode('code', block.content, { ...base, language: block.metadata?.language }));
+                break;
+
+            case 'bullet':
+            case 'numbered': {
+                // Consecutive list blocks of the same kind share one Lexical list
+                const listType = block.type === 'bullet' ? 'bullet' : 'number';
+                const previous = children[children.length - 1];
+                const item = elementNode('listitem', block.content, { ...base, value: 1 });
+
+                if (previous?.type === 'list' && previous.listType === listType) {
+                    item.value = (previous.children?.length || 0) + 1;
+                    previous.children!.push(item);
+                } else {
+                    children.push({
+                        ...elementNode('list', ''),
+                        listType,
+                        tag: listType === 'bullet' ? 'ul' : 'ol',
+                        children: [item],
+                    });
+                }
+                break;
+            }
+
+            default:
+                children.push(elementNode('paragraph', block.content, {
+                    ...base,
+                    blockType: block.type,
+                    ...(block.metadata && { metadata: block.metadata }),
+                }));
+        }
+    }
+
+    return {
+        root: {
+            children,
+            direction: null,
+            format: '',
+            indent: 0,
+            type: 'root',
+            version: 1,
+        },
+    };
+}
+
+const nodeText = (node: LexicalNode): string => {
+    if (node.type === 'linebreak') return '\n';
+    if (node.text !== undefined) return node.text;
+    return (node.children || []).map(nodeText).join('');
+};
+
+let generatedIds = 0;
+const newBlockId = () => `${Date.now().toString(36)}-${(generatedIds++).toString(36)}`;
+
+export function lexicalToBlocks(content: LexicalRoot | null | undefined, plainText?: string | null): NoteBlock[] {
+    const nodes = (content?.root?.children || []) as BlockNode[];
+
+    // Notes saved from the plain-text editor have no Lexical content
+    if (nodes.length === 0) {
+        const lines = (plainText || '').split('\n');
+        return lines.map(line => ({ id: newBlockId(), type: 'paragraph', content: line }));
+    }
+
+    const blocks: NoteBlock[] = [];
+
+    for (const node of nodes) {
+        const id = node.blockId || newBlockId();
+
+        if (node.blockType) {
+            blocks.push({
+                id,
+                type: node.blockType,
+                content: nodeText(node),
+                ...(node.metadata && { metadata: node.metadata }),
+            });
+            continue;
+        }
+
+        switch (node.type) {
+            case 'heading':
+                blocks.push({ id, type: HEADING_TAGS[node.tag || 'h1'] || 'h1', content: nodeText(node) });
+                break;
+
+            case 'quote':
+                blocks.push({ id, type: 'quote', content: nodeText(node) });
+                break;
+
+            case 'code':
+                blocks.push({
+                    id,
+                    type: 'code',
+                    content: nodeText(node),
+                    ...(node.language && { metadata: { language: node.language } }),
+                });
+                break;
+
+            case 'list':
+                for (const item of (node.children || []) as BlockNode[]) {
+                    blocks.push({
+                        id: item.blockId || newBlockId(),
+                        type: node.listType === 'number' ? 'numbered' : 'bullet',
+                        content: nodeText(item),
+                    });
+                }
+                break;
+
+            default:
+                blocks.push({ id, type: 'paragraph', content: nodeText(node) });
+        }
+    }
+
+    return blocks.length > 0 ? blocks : [{ id: newBlockId(), type: 'paragraph', content: '' }];
+}
+
+// Searchable text, one block per line (what the server indexes as plain_text)
+export function blocksToPlainText(blocks: NoteBlock[]): string {
+    return blocks
+        .filter(block => block.type !== 'divider')
+        .map(block => block.content)
+        .join('\n')
+        .trim();
+}
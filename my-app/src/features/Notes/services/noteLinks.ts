@@ -0,0 +1,110 @@
+/**
+ * Wiki-style [[Note title]] links between notes.
+ * Links are stored as plain text in block content and resolved by title
+ * (case-insensitive), so they survive sync and work for notes created later.
+ */
+
+import type { LocalNote } from './localNotesStorage';
+
+const NOTE_LINK_PATTERN = /\[\[([^\[\]\n]+?)\]\]/g;
+
+// An unfinished link at the end of the text being typed: "see [[Const"
+const OPEN_LINK_PATTERN = /\[\[([^\[\]\n]*)$/;
+
+export interface NoteTextPart {
+    text: string;
+    linkTitle?: string; // Set for [[link]] parts
+}
+
+const titleKey = (title: string) => title.trim().toLowerCase();
+
+// Linked titles in the text, deduplicated
+export const parseNoteLinks = (text: string): string[] => {
+    const titles = new Map<string, string>();
+    for (const match of Array.from(text.matchAll(NOTE_LINK_PATTERN))) {
+        const title = match[1].trim();
+        if (title && !titles.has(titleKey(title))) titles.set(titleKey(title), title);
+    }
+    return Array.from(titles.values());
+};
+
+// Split text into plain runs and [[link]] runs for rendering
+export const splitNoteLinks = (text: string): NoteTextPart[] => {
+    const parts: NoteTextPart[] = [];
+    let lastIndex = 0;
+
+    for (const match of Array.from(text.matchAll(NOTE_LINK_PATTERN))) {
+        const index = match.index ?? 0;
+        if (index > lastIndex) parts.push({ text: text.slice(lastIndex, index) });
+        parts.push({ text: match[1].trim(), linkTitle: match[1].trim() });
+        lastIndex = index + match[0].length;
+    }
+
+    if (lastIndex < text.length) parts.push({ text: text.slice(lastIndex) });
+    return parts;
+};
+
+// The title typed so far after an unclosed "[[", or null when not inside a link
+export const getOpenLinkQuery = (text: string): string | null => {
+    const match = text.match(OPEN_LINK_PATTERN);
+    return match ? match[1] : null;
+};
+
+// Replace the unclosed "[[query" at the end of the text with a finished link
+export const completeNoteLink = (text: string, title: string): string =>
+    text.replace(OPEN_LINK_PATTERN, `[[${title}]] `);
+
+export const findNoteByTitle = (notes: LocalNote[], title: string): LocalNote | undefined => {
+    const key = titleKey(title);
+    return notes
+        .filter(note => titleKey(note.title) === key)
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt))[0];
+};
+
+// Titles matching what has been typed after "[[", best matches first
+export const suggestNoteTitles = (notes: LocalNote[], query: string, excludeId?: number, limit = 5): string[] => {
+    const key = titleKey(query);
+    return notes
+        .filter(note => note.id !== excludeId && titleKey(note.title).includes(key))
+        .sort((a, b) => {
+            const aStarts = titleKey(a.title).startsWith(key) ? 0 : 1;
+            const bStarts = titleKey(b.title).startsWith(key) ? 0 : 1;
+            return aStarts - bStarts || b.updatedAt.localeCompare(a.updatedAt);
+        })
+        .slice(0, limit)
+        .map(note => note.title);
+};
+
+const noteText = (note: LocalNote): string =>
+    note.content || (note.blocks || []).map(block => block.content).join('\n');
+
+/**
+ * Set `backlinks` on every note from the [[links]] in all notes. Returns the
+ * same array; notes are modified in place.
+ */
+export const computeBacklinks = (notes: LocalNote[]): LocalNote[] => {
+    const backlinks = new Map<number, Set<number>>();
+
+    for (const note of notes) {
+        for (const title of parseNoteLinks(noteText(note))) {
+            const target = findNoteByTitle(notes, title);
+            if (!target || target.id === note.id) continue;
+            if (!backlinks.has(target.id)) backlinks.set(target.id, new Set());
+            backlinks.get(target.id)!.add(note.id);
+        }
+    }
+
+    for (const note of notes) {
+        note.backlinks = Array.from(backlinks.get(note.id) || []);
+    }
+    return notes;
+};
+
+// The line of the linking note that mentions the target, for "Linked references"
+export const getLinkContext = (note: LocalNote, targetTitle: string): string => {
+    const key = titleKey(targetTitle);
+    const line = noteText(note)
+        .split('\n')
+        .find(text => parseNoteLinks(text).some(title => titleKey(title) === key));
+    return (line || '').trim();
+};
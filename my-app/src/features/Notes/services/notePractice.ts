@@ -0,0 +1,341 @@
+/**
+ * Note Practice Service
+ * Turns a note into cloze flashcards and an MCQ quiz, grounded in the note text.
+ * Uses Google Gemini 3 Flash via OpenRouter (same as aiSummarizer.ts).
+ *
+ * The quiz is saved as a regular AIMCQSession tagged with the note ID, so it
+ * also shows up in the AI MCQ list; flashcards and their review progress are
+ * stored here, one practice set per note.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { OPENROUTER_API_KEY } from '../../../utils/secureKey';
+import {
+    MCQ,
+    AIMCQSession,
+    createMCQSession,
+    saveMCQSession,
+    getNoteMCQSessions,
+    getSessionStats,
+} from '../../PDFMCQ/utils/aiMCQStorage';
+import { LocalNote } from './localNotesStorage';
+import { blocksToPlainText } from './noteContentMapper';
+
+const MODEL = 'google/gemini-3-flash-preview';
+const API_URL = 'https://openrouter.ai/api/v1/chat/completions';
+
+const STORAGE_KEY = '@upsc_note_practice';
+const MAX_NOTE_CHARS = 12000;
+const MASTERED_STREAK = 2; // Correct recalls in a row before a card counts as mastered
+
+// ==================== Types ====================
+
+export interface NoteFlashcard {
+    id: string;
+    cloze: string; // Sentence with the answer replaced by "_____"
+    answer: string;
+    source: string; // The note sentence the card was made from
+    reviews: number;
+    correctStreak: number;
+    lastReviewedAt?: string;
+}
+
+export interface NotePracticeSet {
+    noteId: number;
+    noteUpdatedAt: string; // Note version the set was generated from
+    sessionId: string | null; // AIMCQSession with the quiz
+    flashcards: NoteFlashcard[];
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface NoteMastery {
+    flashcardsTotal: number;
+    flashcardsMastered: number;
+    quizTotal: number;
+    quizAnswered: number;
+    quizCorrect: number;
+    percentage: number; // 0-100 across cards and quiz questions
+}
+
+export interface GeneratePracticeResponse {
+    practice?: NotePracticeSet;
+    session?: AIMCQSession;
+    error?: string;
+}
+
+// ==================== Storage ====================
+
+const getAllPracticeSets = async (): Promise<Record<number, NotePracticeSet>> => {
+    try {
+        const json = await AsyncStorage.getItem(STORAGE_KEY);
+        return json ? JSON.parse(json) : {};
+    } catch (error) {
+        console.error('[NotePractice] Error reading practice sets:', error);
+        return {};
+    }
+};
+
+const savePracticeSet = async (practice: NotePracticeSet): Promise<void> => {
+    const all = await getAllPracticeSets();
+    all[practice.noteId] = practice;
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+};
+
+export const getNotePractice = async (noteId: number): Promise<NotePracticeSet | null> =>
+    (await getAllPracticeSets())[noteId] || null;
+
+export const deleteNotePractice = async (noteId: number): Promise<void> => {
+    const all = await getAllPracticeSets();
+    delete all[noteId];
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+};
+
+// The note was edited after its practice set was generated
+export const isPracticeOutdated = (practice: NotePracticeSet, note: LocalNote): boolean =>
+    new Date(note.updatedAt).getTime() > new Date(practice.noteUpdatedAt).getTime();
+
+// ==================== Generation ====================
+
+const noteText = (note: LocalNote): string =>
+    (note.content || blocksToPlainText(note.blocks || []))
+        .replace(/\[\[([^\[\]\n]+?)\]\]/g, '$1')
+        .slice(0, MAX_NOTE_CHARS);
+
+// Case and whitespace insensitive, so small AI reformatting still matches
+const normalize = (text: string): string =>
+    text.toLowerCase().replace(/[‘’“”]/g, '\'').replace(/\s+/g, ' ').trim();
+
+const isGrounded = (source: unknown, text: string): source is string =>
+    typeof source === 'string' && source.trim().length >= 10 && normalize(text).includes(normalize(source));
+
+const buildPrompt = (title: string, text: string, flashcardCount: number, mcqCount: number) =>
+    `You are a UPSC tutor turning a student's own note into revision material.
+
+NOTE TITLE: ${title}
+
+NOTE:
+"""
+${text}
+"""
+
+TASK:
+1. Write up to ${flashcardCount} cloze flashcards. Each hides ONE key fact (a name, date, number, term or place) from a sentence of the note.
+2. Write up to ${mcqCount} UPSC Prelims-style MCQs with 4 options and exactly one correct answer.
+
+RULES:
+- Use ONLY facts stated in the note. Do not add outside knowledge.
+- "source" must be copied word for word from the note (one sentence or line).
+- For flashcards, "answer" must appear in "source", and "cloze" is "source" with the answer replaced by "_____".
+- Explanations point back to what the note says.
+
+OUTPUT FORMAT - Return ONLY valid JSON (no markdown, no explanation):
+{
+  "flashcards": [
+    { "cloze": "The Preamble was amended by the _____ Amendment Act.", "answer": "42nd", "source": "The Preamble was amended by the 42nd Amendment Act." }
+  ],
+  "mcqs": [
+    {
+      "question": "Question text",
+      "options": ["Option A", "Option B", "Option C", "Option D"],
+      "correctIndex": 0,
+      "explanation": "Why, according to the note",
+      "source": "The note sentence this question tests"
+    }
+  ]
+}`;
+
+const parseJson = (content: string): any => {
+    try {
+        return JSON.parse(content);
+    } catch {
+        const block = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+        if (block) return JSON.parse(block[1].trim());
+        const obj = content.match(/\{[\s\S]*\}/);
+        if (obj) return JSON.parse(obj[0]);
+        throw new Error('Could not parse practice questions');
+    }
+};
+
+const toFlashcards = (items: any[], text: string): NoteFlashcard[] =>
+    (Array.isArray(items) ? items : [])
+        .filter(item =>
+            isGrounded(item?.source, text) &&
+            typeof item.answer === 'string' && item.answer.trim() &&
+            normalize(item.source).includes(normalize(item.answer))
+        )
+        .map((item, index) => {
+            // Rebuild the cloze from the source so the blank always hides the answer
+            const answer = item.answer.trim();
+            const pattern = new RegExp(answer.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+            return {
+                id: `${Date.now().toString(36)}-${index}`,
+                cloze: item.source.trim().replace(pattern, '_____'),
+                answer,
+                source: item.source.trim(),
+                reviews: 0,
+                correctStreak: 0,
+            };
+        });
+
+const toMCQs = (items: any[], text: string): MCQ[] =>
+    (Array.isArray(items) ? items : [])
+        .filter(item =>
+            isGrounded(item?.source, text) &&
+            typeof item.question === 'string' &&
+            Array.isArray(item.options) && item.options.length === 4 &&
+            Number.isInteger(item.correctIndex) && item.correctIndex >= 0 && item.correctIndex < 4
+        )
+        .map((item, index) => ({
+            id: index + 1,
+            question: item.question,
+            optionA: String(item.options[0]),
+            optionB: String(item.options[1]),
+            optionC: String(item.options[2]),
+            optionD: String(item.options[3]),
+            correctAnswer: 'ABCD'[item.correctIndex],
+            explanation: `${item.explanation || ''}\n\nFrom your note: "${item.source.trim()}"`.trim(),
+        }));
+
+/**
+ * Generate flashcards and a quiz for a note, replacing any earlier practice set.
+ * Items the AI could not tie to a sentence of the note are dropped.
+ */
+export const generateNotePractice = async (
+    note: LocalNote,
+    flashcardCount = 10,
+    mcqCount = 5
+): Promise<GeneratePracticeResponse> => {
+    const text = noteText(note);
+    if (text.trim().length < 100) {
+        return { error: 'This note is too short to practice. Add a few more lines first.' };
+    }
+
+    if (!OPENROUTER_API_KEY) {
+        return { error: 'API Key not configured' };
+    }
+
+    try {
+        console.log('[NotePractice] Generating practice for note:', note.id);
+
+        const response = await fetch(API_URL, {
+            method: 'POST',
+            headers: {
+                'Authorization': `Bearer ${OPENROUTER_API_KEY}`,
+                'Content-Type': 'application/json',
+                'HTTP-Referer': 'https://upsc-prep.app',
+                'X-Title': 'UPSC Prep Note Practice',
+            },
+            body: JSON.stringify({
+                model: MODEL,
+                messages: [{ role: 'user', content: buildPrompt(note.title, text, flashcardCount, mcqCount) }],
+                temperature: 0.3,
+                max_tokens: 6144,
+            }),
+        });
+
+        if (!response.ok) {
+            const errData = await response.json().catch(() => ({}));
+            throw new Error(errData.error?.message || 'API Request failed');
+        }
+
+        const data = await response.json();
+        const parsed = parseJson(data.choices?.[0]?.message?.content || '');
+
+        const flashcards = toFlashcards(parsed.flashcards, text);
+        const mcqs = toMCQs(parsed.mcqs, text);
+
+        if (flashcards.length === 0 && mcqs.length === 0) {
+            return { error: 'Could not create questions from this note. Try again or add more detail.' };
+        }
+
+        let session: AIMCQSession | undefined;
+        if (mcqs.length > 0) {
+            session = {
+                ...createMCQSession(`Note: ${note.title}`, 'prelims', 'Note', 'pro', 'english', mcqs),
+                noteId: note.id,
+            };
+            await saveMCQSession(session);
+        }
+
+        const now = new Date().toISOString();
+        const practice: NotePracticeSet = {
+            noteId: note.id,
+            noteUpdatedAt: note.updatedAt,
+            sessionId: session?.id || null,
+            flashcards,
+            createdAt: now,
+            updatedAt: now,
+        };
+        await savePracticeSet(practice);
+
+        console.log(`[NotePractice] ${flashcards.length} flashcards, ${mcqs.length} MCQs for note ${note.id}`);
+        return { practice, session };
+    } catch (error) {
+        console.error('[NotePractice] Error:', error);
+        return { error: error instanceof Error ? error.message : 'Failed to generate practice' };
+    }
+};
+
+// ==================== Review & Mastery ====================
+
+export const reviewFlashcard = async (
+    noteId: number,
+    cardId: string,
+    remembered: boolean
+): Promise<NotePracticeSet | null> => {
+    const practice = await getNotePractice(noteId);
+    if (!practice) return null;
+
+    const now = new Date().toISOString();
+    const updated: NotePracticeSet = {
+        ...practice,
+        flashcards: practice.flashcards.map(card =>
+            card.id === cardId
+                ? {
+                    ...card,
+                    reviews: card.reviews + 1,
+                    correctStreak: remembered ? card.correctStreak + 1 : 0,
+                    lastReviewedAt: now,
+                }
+                : card
+        ),
+        updatedAt: now,
+    };
+
+    await savePracticeSet(updated);
+    return updated;
+};
+
+export const isFlashcardMastered = (card: NoteFlashcard): boolean => card.correctStreak >= MASTERED_STREAK;
+
+// The quiz for the note's current practice set, if it had any MCQs
+export const getNotePracticeSession = async (practice: NotePracticeSet): Promise<AIMCQSession | null> => {
+    if (!practice.sessionId) return null;
+    const sessions = await getNoteMCQSessions(practice.noteId);
+    return sessions.find(s => s.id === practice.sessionId) || null;
+};
+
+/**
+ * Per-note mastery: mastered flashcards plus correctly answered quiz
+ * questions, over all cards and questions in the current practice set
+ */
+export const getNoteMastery = async (noteId: number): Promise<NoteMastery | null> => {
+    const practice = await getNotePractice(noteId);
+    if (!practice) return null;
+
+    const session = await getNotePracticeSession(practice);
+    const quiz = session ? getSessionStats(session) : { total: 0, answered: 0, correct: 0 };
+
+    const flashcardsMastered = practice.flashcards.filter(isFlashcardMastered).length;
+    const total = practice.flashcards.length + quiz.total;
+
+    return {
+        flashcardsTotal: practice.flashcards.length,
+        flashcardsMastered,
+        quizTotal: quiz.total,
+        quizAnswered: quiz.answered,
+        quizCorrect: quiz.correct,
+        percentage: total > 0 ? Math.round(((flashcardsMastered + quiz.correct) / total) * 100) : 0,
+    };
+};
@@ -1,4 +1,5 @@
 import { getMobileApiEndpoint } from '../../../config/api';
+import { getAuthHeaders } from '../../../services/billingService';
 import {
     Note,
     NoteListItem,
@@ -28,7 +29,7 @@ export const fetchUserNotes = async (
         );
         console.log('[NotesAPI] Fetching notes for user:', userId);
 
-        const response = await fetch(url);
+        const response = await fetch(url, { headers: await getAuthHeaders() });
         const data = await response.json();
 
         if (!data.success) {
@@ -47,7 +48,7 @@ export const fetchNote = async (noteId: number): Promise<Note> => {
         const url = getMobileApiEndpoint(`/notes/${noteId}`);
         console.log('[NotesAPI] Fetching note:', noteId);
 
-        const response = await fetch(url);
+        const response = await fetch(url, { headers: await getAuthHeaders() });
         const data: NoteResponse = await response.json();
 
         if (!data.success) {
@@ -68,7 +69,7 @@ export const createNote = async (payload: CreateNotePayload): Promise<Note> => {
 
         const response = await fetch(url, {
             method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
+            headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
             body: JSON.stringify(payload),
         });
 
@@ -95,7 +96,7 @@ export const updateNote = async (
 
         const response = await fetch(url, {
             method: 'PUT',
-            headers: { 'Content-Type': 'application/json' },
+            headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
             body: JSON.stringify(payload),
         });
 
@@ -117,7 +118,7 @@ export const deleteNote = async (noteId: number): Promise<void> => {
         const url = getMobileApiEndpoint(`/notes/${noteId}`);
         console.log('[NotesAPI] Deleting note:', noteId);
 
-        const response = await fetch(url, { method: 'DELETE' });
+        const response = await fetch(url, { method: 'DELETE', headers: await getAuthHeaders() });
         const data = await response.json();
 
         if (!data.success) {
@@ -147,7 +148,7 @@ export const searchNotes = async (params: SearchNotesParams): Promise<SearchResp
         const url = getMobileApiEndpoint(`/notes/search?${searchParams.toString()}`);
         console.log('[NotesAPI] Searching notes:', params.query);
 
-        const response = await fetch(url);
+        const response = await fetch(url, { headers: await getAuthHeaders() });
         const data: SearchResponse = await response.json();
 
         if (!data.success) {
@@ -0,0 +1,398 @@
+/**
+ * Notes Cloud Sync
+ * Pushes locally edited notes to /api/mobile/notes/sync and pulls server changes
+ * since the last cursor. Local storage stays the source of truth for the UI;
+ * this only reconciles it with the server.
+ *
+ * Conflicts are detected per note: a push carries the server version the edit
+ * started from, and the server refuses it if another device saved first.
+ * Nothing is dropped when that happens - the losing local edit is kept as a
+ * "(conflicted copy)" note.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { supabase } from '../../../lib/supabase';
+import { getMobileApiEndpoint } from '../../../config/api';
+import { LexicalRoot } from '../types';
+import {
+    LocalNote,
+    LocalTag,
+    NoteTombstone,
+    getAllNotes,
+    getAllTags,
+    createTag,
+    saveAllNotes,
+    generateNoteId,
+    generateClientId,
+    getDeletedNotes,
+    clearDeletedNotes,
+    clearAllNotesData,
+} from './localNotesStorage';
+import { blocksToLexical, lexicalToBlocks, blocksToPlainText } from './noteContentMapper';
+
+const SYNC_STATE_KEY = '@upsc_notes_sync';
+const BATCH_SIZE = 100; // Server limit per request (SYNC_BATCH_LIMIT)
+
+interface SyncState {
+    userId: string | null; // Supabase user the local notes were last synced for
+    cursor: string | null;
+    lastSyncedAt: string | null;
+}
+
+interface ServerNote {
+    id: number;
+    clientId: string | null;
+    title: string;
+    content: LexicalRoot | null;
+    plainText: string | null;
+    sourceType: string | null;
+    sourceUrl: string | null;
+    summary: string | null;
+    isPinned: boolean;
+    isArchived: boolean;
+    version: number;
+    deletedAt: string | null;
+    createdAt: string;
+    updatedAt: string;
+    tags: { id: number; name: string; color: string | null }[];
+}
+
+type ChangeResult =
+    | { clientId: string; status: 'applied'; note: ServerNote | null }
+    | { clientId: string; status: 'conflict'; note: ServerNote }
+    | { clientId: string; status: 'invalid'; error: string };
+
+interface SyncResponse {
+    success: boolean;
+    results: ChangeResult[];
+    changes: ServerNote[];
+    cursor: string | null;
+    hasMore: boolean;
+    error?: string;
+}
+
+export interface NotesSyncResult {
+    success: boolean;
+    pushed: number;
+    pulled: number;
+    conflicts: number;
+    error?: string;
+}
+
+// ==================== Helpers ====================
+
+const getSyncState = async (): Promise<SyncState> => {
+    try {
+        const json = await AsyncStorage.getItem(SYNC_STATE_KEY);
+        return json ? JSON.parse(json) : { userId: null, cursor: null, lastSyncedAt: null };
+    } catch {
+        return { userId: null, cursor: null, lastSyncedAt: null };
+    }
+};
+
+const saveSyncState = (state: SyncState) =>
+    AsyncStorage.setItem(SYNC_STATE_KEY, JSON.stringify(state));
+
+const toChange = (note: LocalNote) => ({
+    clientId: note.clientId!,
+    id: note.serverId,
+    baseVersion: note.serverVersion,
+    title: note.title,
+    content: blocksToLexical(note.blocks || []),
+    plainText: note.content || blocksToPlainText(note.blocks || []),
+    tags: note.tags.map(tag => ({ name: tag.name, color: tag.color })),
+    isPinned: note.isPinned,
+    isArchived: note.isArchived,
+    sourceType: note.sourceType || 'manual',
+    sourceUrl: note.sourceUrl || null,
+    summary: note.summary || null,
+});
+
+const toTombstoneChange = (tombstone: NoteTombstone) => ({
+    clientId: tombstone.clientId,
+    id: tombstone.serverId,
+    baseVersion: tombstone.serverVersion,
+    deleted: true,
+});
+
+// Server tags are lowercase; reuse the local tag of the same name so colors and usage counts survive
+const toLocalTags = async (serverTags: ServerNote['tags']): Promise<LocalTag[]> => {
+    const localTags = await getAllTags();
+    const result: LocalTag[] = [];
+
+    for (const serverTag of serverTags) {
+        const existing = localTags.find(tag => tag.name.toLowerCase() === serverTag.name.toLowerCase());
+        result.push(existing || await createTag(serverTag.name, serverTag.color || undefined));
+    }
+    return result;
+};
+
+const fromServer = async (server: ServerNote, local?: LocalNote): Promise<LocalNote> => {
+    const blocks = lexicalToBlocks(server.content, server.plainText);
+    return {
+        id: local?.id ?? await generateNoteId(),
+        title: server.title,
+        content: server.plainText || blocksToPlainText(blocks),
+        blocks,
+        tags: await toLocalTags(server.tags),
+        sourceType: (server.sourceType || 'manual') as LocalNote['sourceType'],
+        sourceUrl: server.sourceUrl || undefined,
+        summary: server.summary || undefined,
+        isPinned: server.isPinned,
+        isArchived: server.isArchived,
+        createdAt: local?.createdAt || server.createdAt,
+        updatedAt: server.updatedAt,
+        clientId: server.clientId || local?.clientId || generateClientId(),
+        serverId: server.id,
+        serverVersion: server.version,
+        dirty: false,
+    };
+};
+
+const sameContent = (local: LocalNote, server: ServerNote) =>
+    local.title === server.title && toChange(local).plainText === (server.plainText || '');
+
+const findLocal = (notes: LocalNote[], server: ServerNote) =>
+    notes.findIndex(note =>
+        (note.serverId !== undefined && note.serverId === server.id) ||
+        (!!server.clientId && note.clientId === server.clientId)
+    );
+
+/**
+ * First sync for a signed-in user: notes written before any account synced on
+ * this device (e.g. as a guest) are uploaded as new, and the server's notes are
+ * pulled from scratch. Notes last synced for a different account belong to that
+ * account and are already on its server, so they are cleared instead.
+ */
+const migrateLocalNotes = async (userId: string, previousUserId: string | null): Promise<void> => {
+    if (previousUserId) {
+        await clearAllNotesData();
+        await saveSyncState({ userId, cursor: null, lastSyncedAt: null });
+        console.log(`[NotesSync] Cleared notes of user ${previousUserId} before syncing user ${userId}`);
+        return;
+    }
+
+    const notes = await getAllNotes();
+    const migrated = notes.map(note => ({
+        ...note,
+        clientId: note.clientId || generateClientId(),
+        serverId: undefined,
+        serverVersion: undefined,
+        dirty: true,
+    }));
+
+    await saveAllNotes(migrated);
+    await clearDeletedNotes((await getDeletedNotes()).map(t => t.clientId));
+    await saveSyncState({ userId, cursor: null, lastSyncedAt: null });
+    console.log(`[NotesSync] Migrating ${migrated.length} local notes for user ${userId}`);
+};
+
+// ==================== Conflict Resolution ====================
+
+/**
+ * Merge one pushed change's result into the local notes. Returns true when it
+ * was a conflict.
+ */
+const applyResult = async (
+    notes: LocalNote[],
+    result: ChangeResult,
+    pushedAt: Map<string, string>,
+    resolvedTombstones: string[]
+): Promise<boolean> => {
+    const index = notes.findIndex(note => note.clientId === result.clientId);
+    const local = index === -1 ? undefined : notes[index];
+
+    if (result.status === 'invalid') {
+        console.warn('[NotesSync] Server rejected note', result.clientId, result.error);
+        return false;
+    }
+
+    // A deletion we pushed
+    if (!local) {
+        if (result.status === 'applied' || result.note.deletedAt) {
+            resolvedTombstones.push(result.clientId);
+            return false;
+        }
+        // Deleted here but edited elsewhere: the edit wins and the note comes back
+        notes.push(await fromServer(result.note));
+        resolvedTombstones.push(result.clientId);
+        return true;
+    }
+
+    // Edited again while the request was in flight: keep it dirty for the next push
+    const editedSincePush = local.updatedAt !== pushedAt.get(result.clientId);
+
+    if (result.status === 'applied') {
+        if (result.note) {
+            notes[index] = {
+                ...local,
+                serverId: result.note.id,
+                serverVersion: result.note.version,
+                dirty: editedSincePush,
+            };
+        }
+        return false;
+    }
+
+    const server = result.note;
+
+    if (server.deletedAt) {
+        // Deleted elsewhere while edited here: keep the edits as a new note
+        notes[index] = {
+            ...local,
+            clientId: generateClientId(),
+            serverId: undefined,
+            serverVersion: undefined,
+            dirty: true,
+        };
+        return true;
+    }
+
+    if (sameContent(local, server)) {
+        notes[index] = { ...local, serverId: server.id, serverVersion: server.version, dirty: editedSincePush };
+        return false;
+    }
+
+    // Both sides edited: the server copy takes the note, the local edits become a copy
+    const timestamp = new Date().toISOString();
+    notes[index] = await fromServer(server, local);
+    notes.push({
+        ...local,
+        id: await generateNoteId(),
+        title: `${local.title} (conflicted copy)`,
+        clientId: generateClientId(),
+        serverId: undefined,
+        serverVersion: undefined,
+        updatedAt: timestamp,
+        dirty: true,
+    });
+    return true;
+};
+
+/**
+ * Apply a note pulled from the server. Local edits that have not been pushed
+ * yet are left alone; the next push resolves them against this version.
+ */
+const applyRemoteChange = async (notes: LocalNote[], tombstones: NoteTombstone[], server: ServerNote): Promise<number> => {
+    const index = findLocal(notes, server);
+
+    if (index === -1) {
+        // Deleted here and not yet pushed, or already gone
+        if (server.deletedAt || tombstones.some(t => t.serverId === server.id)) return 0;
+        notes.push(await fromServer(server));
+        return 1;
+    }
+
+    const local = notes[index];
+    if (local.serverVersion === server.version || local.dirty) return 0;
+
+    if (server.deletedAt) {
+        notes.splice(index, 1);
+    } else {
+        notes[index] = await fromServer(server, local);
+    }
+    return 1;
+};
+
+// ==================== Sync ====================
+
+let inFlight: Promise<NotesSyncResult> | null = null;
+
+const runSync = async (): Promise<NotesSyncResult> => {
+    const result: NotesSyncResult = { success: false, pushed: 0, pulled: 0, conflicts: 0 };
+
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.access_token || !session.user) {
+        return { ...result, error: 'Sign in to sync notes' };
+    }
+
+    let state = await getSyncState();
+    if (state.userId !== session.user.id) {
+        await migrateLocalNotes(session.user.id, state.userId);
+        state = await getSyncState();
+    }
+
+    let cursor = state.cursor;
+    let hasMore = true;
+
+    while (true) {
+        const notes = await getAllNotes();
+        const tombstones = await getDeletedNotes();
+
+        const dirty = notes.filter(note => note.dirty && note.clientId).slice(0, BATCH_SIZE);
+        const deletions = tombstones.slice(0, BATCH_SIZE - dirty.length);
+        const changes = [...dirty.map(toChange), ...deletions.map(toTombstoneChange)];
+
+        if (changes.length === 0 && !hasMore) break;
+
+        const pushedAt = new Map(dirty.map(note => [note.clientId!, note.updatedAt]));
+
+        const response = await fetch(getMobileApiEndpoint('/notes/sync'), {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                Authorization: `Bearer ${session.access_token}`,
+            },
+            body: JSON.stringify({ changes, cursor }),
+        });
+        const data: SyncResponse = await response.json();
+
+        if (!response.ok || !data.success) {
+            return { ...result, error: data.error || `Sync failed (${response.status})` };
+        }
+
+        // Re-read in case the user saved a note while the request was in flight
+        const latest = await getAllNotes();
+        const resolvedTombstones: string[] = [];
+
+        for (const changeResult of data.results) {
+            if (await applyResult(latest, changeResult, pushedAt, resolvedTombstones)) {
+                result.conflicts++;
+            }
+        }
+
+        const remaining = tombstones.filter(t => !resolvedTombstones.includes(t.clientId));
+        for (const server of data.changes) {
+            result.pulled += await applyRemoteChange(latest, remaining, server);
+        }
+
+        await saveAllNotes(latest);
+        await clearDeletedNotes(resolvedTombstones);
+
+        result.pushed += data.results.filter(r => r.status === 'applied').length;
+        cursor = data.cursor;
+        hasMore = data.hasMore;
+        await saveSyncState({ userId: session.user.id, cursor, lastSyncedAt: new Date().toISOString() });
+
+        // Nothing left to push and nothing more to pull
+        const pushedEverything = changes.length < BATCH_SIZE;
+        if (pushedEverything && !hasMore) break;
+        // Invalid changes stay dirty; stop instead of resending them forever
+        if (changes.length > 0 && data.results.every(r => r.status === 'invalid') && !hasMore) break;
+    }
+
+    if (result.pushed > 0 || result.pulled > 0 || result.conflicts > 0) {
+        console.log(`[NotesSync] ${result.pushed} pushed, ${result.pulled} pulled, ${result.conflicts} conflicts`);
+    }
+    return { ...result, success: true };
+};
+
+/**
+ * Sync local notes with the server. Safe to call often: concurrent calls share
+ * one run, and it does nothing useful (but fails quietly) when signed out or offline.
+ */
+export const syncNotes = (): Promise<NotesSyncResult> => {
+    if (!inFlight) {
+        inFlight = runSync()
+            .catch((error): NotesSyncResult => {
+                console.error('[NotesSync] Sync failed:', error);
+                return { success: false, pushed: 0, pulled: 0, conflicts: 0, error: error?.message || 'Sync failed' };
+            })
+            .finally(() => {
+                inFlight = null;
+            });
+    }
+    return inFlight;
+};
+
+export const getLastSyncedAt = async (): Promise<string | null> => (await getSyncState()).lastSyncedAt;
@@ -15,9 +15,18 @@ export { default as PDFGeneratorScreen } from './screens/PDFGeneratorScreen';
 export { default as PDFMCQListScreen } from './screens/PDFMCQListScreen';
 export { default as AIMCQGeneratorScreen } from './screens/AIMCQGeneratorScreen';
 export { default as AIMCQListScreen } from './screens/AIMCQListScreen';
+export { default as ReviewQueueScreen } from './screens/ReviewQueueScreen';
 
 // Utilities
 export * from './utils/pdfMCQStorage';
+export {
+    recordAttempts,
+    trackAttempt,
+    fetchReviewQueue,
+    type ReviewItem,
+    type ReviewStats,
+    type QuestionAttempt,
+} from './utils/reviewApi';
 
 // Lightning MCQ Generator (explicit exports to avoid duplicate MCQ type)
 export {
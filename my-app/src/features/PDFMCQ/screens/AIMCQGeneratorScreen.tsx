@@ -32,6 +32,8 @@ import { useTheme } from '../../Reference/theme/ThemeContext';
 import { useWebStyles } from '../../../components/WebContainer';
 import { OPENROUTER_API_KEY } from '../../../utils/secureKey';
 import { useAIFeature, CreditInfoBanner } from '../../../hooks/useAIFeature';
+// @ts-ignore
+import { useAuth } from '../../../context/AuthContext';
 import {
     createMCQSession,
     saveMCQSession,
@@ -39,6 +41,7 @@ import {
     getStorageInfo,
     AIMCQSession
 } from '../utils/aiMCQStorage';
+import { trackAttempt, buildLocalQuestionKey } from '../utils/reviewApi';
 
 // ===================== CONFIGURATION =====================
 const API_URL = 'https://openrouter.ai/api/v1/chat/completions';
@@ -359,6 +362,7 @@ export default function AIMCQGeneratorScreen() {
     const { theme, isDark } = useTheme();
     const { horizontalPadding } = useWebStyles();
     const navigation = useNavigation<any>();
+    const { user } = useAuth() as { user: { id?: string } | null };
 
     // AI Feature credit management (3 credits for MCQ generation)
     const { canUse, credits, cost, executeWithCredits, showInsufficientCreditsAlert } = useAIFeature('mcq_generator');
@@ -427,6 +431,18 @@ export default function AIMCQGeneratorScreen() {
             const updated = updateSessionAnswer(currentSession, id - 1, opt);
             await saveMCQSession(updated);
             setCurrentSession(updated);
+
+            // Missed questions come back in the daily review queue
+            const mcq = currentSession.mcqs[id - 1];
+            if (mcq) {
+                trackAttempt(user?.id, {
+                    source: 'ai_mcq',
+                    questionKey: buildLocalQuestionKey(currentSession.id, id - 1),
+                    question: mcq,
+                    selectedAnswer: opt,
+                    sessionId: currentSession.id,
+                });
+            }
         }
     };
 
@@ -41,6 +41,9 @@ if (Platform.OS !== 'web') {
 import { OPENROUTER_API_KEY } from '../../../utils/secureKey';
 import { savePDFMCQSession, getAllPDFMCQSessions, PDFMCQSession } from '../utils/pdfMCQStorage';
 import useCredits from '../../../hooks/useCredits';
+// @ts-ignore
+import { useAuth } from '../../../context/AuthContext';
+import { trackAttempt, buildLocalQuestionKey } from '../utils/reviewApi';
 
 // ===================== CONFIGURATION =====================
 const CONFIG = {
@@ -650,6 +653,7 @@ export default function PDFGeneratorScreen() {
     const { theme, isDark } = useTheme();
     const { horizontalPadding } = useWebStyles();
     const navigation = useNavigation<any>();
+    const { user } = useAuth() as { user: { id?: string } | null };
 
     // Credit checking (5 credits for PDF MCQ)
     const { credits, hasEnoughCredits, useCredits: deductCredits } = useCredits();
@@ -825,6 +829,18 @@ export default function PDFGeneratorScreen() {
         if (showResults[mcqId]) return;
         setSelectedAnswers(prev => ({ ...prev, [mcqId]: option }));
         setShowResults(prev => ({ ...prev, [mcqId]: true }));
+
+        // Missed questions come back in the daily review queue
+        const mcq = currentSession?.mcqs[mcqId - 1];
+        if (currentSession && mcq) {
+            trackAttempt(user?.id, {
+                source: 'pdf_mcq',
+                questionKey: buildLocalQuestionKey(currentSession.id, mcqId - 1),
+                question: mcq,
+                selectedAnswer: option,
+                sessionId: currentSession.id,
+            });
+        }
     };
 
     const handleReset = () => {
@@ -237,6 +237,18 @@ export default function PDFMCQListScreen() {
                 <Text style={styles.newSessionButtonText}>Upload New PDF</Text>
             </TouchableOpacity>
 
+            {/* Daily Review Button */}
+            <TouchableOpacity
+                style={[styles.reviewButton, {
+                    marginHorizontal: horizontalPadding || 20,
+                    borderColor: theme.colors.primary,
+                }]}
+                onPress={() => navigation.navigate('MCQReview')}
+            >
+                <Ionicons name="repeat-outline" size={20} color={theme.colors.primary} />
+                <Text style={[styles.reviewButtonText, { color: theme.colors.primary }]}>Daily Review</Text>
+            </TouchableOpacity>
+
             {/* Sessions List */}
             {loading ? (
                 <View style={styles.loadingContainer}>
@@ -304,6 +316,20 @@ const styles = StyleSheet.create({
         fontSize: 16,
         fontWeight: '600',
     },
+    reviewButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: 8,
+        padding: 14,
+        borderRadius: 12,
+        borderWidth: 1.5,
+        marginBottom: 16,
+    },
+    reviewButtonText: {
+        fontSize: 15,
+        fontWeight: '600',
+    },
     loadingContainer: {
         flex: 1,
         justifyContent: 'center',
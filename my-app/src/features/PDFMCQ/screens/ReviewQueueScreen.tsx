@@ -0,0 +1,449 @@
+/**
+ * Review Queue Screen
+ * Daily spaced-repetition review of MCQs answered wrongly across
+ * PDF MCQs, AI MCQs and article MCQs
+ */
+
+import React, { useState, useCallback, useRef } from 'react';
+import {
+    View,
+    Text,
+    StyleSheet,
+    TouchableOpacity,
+    ScrollView,
+    ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation, useFocusEffect } from '@react-navigation/native';
+// @ts-ignore
+import { useTheme } from '../../Reference/theme/ThemeContext';
+// @ts-ignore
+import { useWebStyles } from '../../../components/WebContainer';
+// @ts-ignore
+import { useAuth } from '../../../context/AuthContext';
+import {
+    fetchReviewQueue,
+    recordAttempts,
+    ReviewItem,
+    ReviewStats,
+} from '../utils/reviewApi';
+
+const OPTIONS = ['A', 'B', 'C', 'D'] as const;
+
+const SOURCE_LABELS: Record<string, string> = {
+    pdf_mcq: 'PDF MCQ',
+    ai_mcq: 'AI MCQ',
+    article_mcq: 'Article MCQ',
+};
+
+export default function ReviewQueueScreen() {
+    const { theme, isDark } = useTheme();
+    const { horizontalPadding } = useWebStyles();
+    const navigation = useNavigation<any>();
+    const { user } = useAuth() as { user: { id?: string } | null };
+
+    const [items, setItems] = useState<ReviewItem[]>([]);
+    const [stats, setStats] = useState<ReviewStats | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState('');
+    const [currentIndex, setCurrentIndex] = useState(0);
+    const [selected, setSelected] = useState<string | null>(null);
+    const [reviewedCount, setReviewedCount] = useState(0);
+    const [correctCount, setCorrectCount] = useState(0);
+
+    // Time spent on the current question feeds the scheduler's "easy" grade
+    const shownAtRef = useRef(Date.now());
+
+    useFocusEffect(
+        useCallback(() => {
+            loadQueue();
+        }, [user?.id])
+    );
+
+    const loadQueue = async () => {
+        if (!user?.id) {
+            setLoading(false);
+            return;
+        }
+
+        setLoading(true);
+        setError('');
+        try {
+            const data = await fetchReviewQueue(user.id);
+            setItems(data.items);
+            setStats(data.stats);
+            setCurrentIndex(0);
+            setSelected(null);
+            setReviewedCount(0);
+            setCorrectCount(0);
+            shownAtRef.current = Date.now();
+        } catch (err: any) {
+            setError(err.message || 'Failed to load review queue');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const currentItem = items[currentIndex];
+
+    const handleSelect = async (option: string) => {
+        if (!currentItem || selected || !user?.id) return;
+        setSelected(option);
+
+        const isCorrect = option === currentItem.question.correctAnswer;
+        setReviewedCount(c => c + 1);
+        if (isCorrect) setCorrectCount(c => c + 1);
+
+        try {
+            await recordAttempts(user.id, [{
+                source: currentItem.source,
+                questionKey: currentItem.questionKey,
+                question: currentItem.question,
+                selectedAnswer: option,
+                timeTakenMs: Date.now() - shownAtRef.current,
+            }]);
+        } catch (err) {
+            // The attempt is lost but the review can continue
+        }
+    };
+
+    const handleNext = () => {
+        setSelected(null);
+        setCurrentIndex(i => i + 1);
+        shownAtRef.current = Date.now();
+    };
+
+    const getOptionStyle = (option: string) => {
+        if (!selected || !currentItem) {
+            return { borderColor: theme.colors.border, backgroundColor: theme.colors.surface };
+        }
+        if (option === currentItem.question.correctAnswer) {
+            return { borderColor: theme.colors.success, backgroundColor: theme.colors.successBg };
+        }
+        if (option === selected) {
+            return { borderColor: theme.colors.error, backgroundColor: theme.colors.errorBg };
+        }
+        return { borderColor: theme.colors.border, backgroundColor: theme.colors.surface };
+    };
+
+    const renderStats = () => (
+        <View style={[styles.statsRow, { backgroundColor: theme.colors.surface }]}>
+            <View style={styles.statItem}>
+                <Text style={[styles.statValue, { color: theme.colors.primary }]}>{stats?.due ?? 0}</Text>
+                <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>Due today</Text>
+            </View>
+            <View style={styles.statItem}>
+                <Text style={[styles.statValue, { color: theme.colors.text }]}>{stats?.total ?? 0}</Text>
+                <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>In queue</Text>
+            </View>
+            <View style={styles.statItem}>
+                <Text style={[styles.statValue, { color: theme.colors.success }]}>
+                    {stats?.accuracyLast30Days ?? 0}%
+                </Text>
+                <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>30-day accuracy</Text>
+            </View>
+        </View>
+    );
+
+    const renderDone = () => (
+        <View style={styles.emptyContainer}>
+            <View style={[styles.emptyIcon, { backgroundColor: theme.colors.success + '15' }]}>
+                <Ionicons name="checkmark-done" size={64} color={theme.colors.success} />
+            </View>
+            <Text style={[styles.emptyTitle, { color: theme.colors.text }]}>
+                {reviewedCount > 0 ? 'Review Complete!' : 'Nothing to Review'}
+            </Text>
+            <Text style={[styles.emptySubtitle, { color: theme.colors.textSecondary }]}>
+                {reviewedCount > 0
+                    ? `You got ${correctCount} of ${reviewedCount} right. Missed questions will come back tomorrow.`
+                    : 'Questions you answer wrongly in PDF, AI and article MCQs will show up here for review.'}
+            </Text>
+            <TouchableOpacity
+                style={[styles.primaryButton, { backgroundColor: theme.colors.primary }]}
+                onPress={() => navigation.goBack()}
+            >
+                <Text style={styles.primaryButtonText}>Done</Text>
+            </TouchableOpacity>
+        </View>
+    );
+
+    const renderQuestion = () => {
+        const q = currentItem.question;
+        return (
+            <ScrollView
+                contentContainerStyle={[styles.questionContent, { paddingHorizontal: horizontalPadding || 20 }]}
+                showsVerticalScrollIndicator={false}
+            >
+                <View style={styles.progressHeader}>
+                    <Text style={[styles.progressText, { color: theme.colors.textSecondary }]}>
+                        {currentIndex + 1} of {items.length}
+                    </Text>
+                    <View style={[styles.sourceBadge, { backgroundColor: theme.colors.primary + '20' }]}>
+                        <Text style={[styles.sourceBadgeText, { color: theme.colors.primary }]}>
+                            {SOURCE_LABELS[currentItem.source] || currentItem.source}
+                        </Text>
+                    </View>
+                </View>
+                <View style={[styles.progressBar, { backgroundColor: isDark ? '#2A2A2E' : '#F0F0F5' }]}>
+                    <View
+                        style={[
+                            styles.progressFill,
+                            {
+                                width: `${((currentIndex + (selected ? 1 : 0)) / items.length) * 100}%`,
+                                backgroundColor: theme.colors.primary,
+                            },
+                        ]}
+                    />
+                </View>
+
+                <Text style={[styles.questionText, { color: theme.colors.text }]}>{q.question}</Text>
+
+                {OPTIONS.map(option => (
+                    <TouchableOpacity
+                        key={option}
+                        style={[styles.optionButton, getOptionStyle(option)]}
+                        onPress={() => handleSelect(option)}
+                        disabled={!!selected}
+                        activeOpacity={0.7}
+                    >
+                        <Text style={[styles.optionLabel, { color: theme.colors.primary }]}>{option}.</Text>
+                        <Text style={[styles.optionText, { color: theme.colors.text }]}>
+                            {q[`option${option}` as keyof typeof q]}
+                        </Text>
+                    </TouchableOpacity>
+                ))}
+
+                {selected && (
+                    <>
+                        {!!q.explanation && (
+                            <View style={[styles.explanationBox, { backgroundColor: theme.colors.infoBg }]}>
+                                <Text style={[styles.explanationTitle, { color: theme.colors.info }]}>Explanation</Text>
+                                <Text style={[styles.explanationText, { color: theme.colors.text }]}>
+                                    {q.explanation}
+                                </Text>
+                            </View>
+                        )}
+                        <TouchableOpacity
+                            style={[styles.primaryButton, { backgroundColor: theme.colors.primary }]}
+                            onPress={handleNext}
+                        >
+                            <Text style={styles.primaryButtonText}>
+                                {currentIndex + 1 < items.length ? 'Next Question' : 'Finish Review'}
+                            </Text>
+                            <Ionicons name="arrow-forward" size={18} color="#FFF" />
+                        </TouchableOpacity>
+                    </>
+                )}
+            </ScrollView>
+        );
+    };
+
+    return (
+        <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
+            {/* Header */}
+            <View style={[styles.header, { paddingHorizontal: horizontalPadding || 20 }]}>
+                <TouchableOpacity
+                    style={[styles.backButton, { backgroundColor: theme.colors.surface }]}
+                    onPress={() => navigation.goBack()}
+                >
+                    <Ionicons name="arrow-back" size={22} color={theme.colors.text} />
+                </TouchableOpacity>
+                <Text style={[styles.headerTitle, { color: theme.colors.text }]}>Daily Review</Text>
+                <TouchableOpacity
+                    style={[styles.backButton, { backgroundColor: theme.colors.surface }]}
+                    onPress={loadQueue}
+                >
+                    <Ionicons name="refresh" size={20} color={theme.colors.text} />
+                </TouchableOpacity>
+            </View>
+
+            {loading ? (
+                <View style={styles.loadingContainer}>
+                    <ActivityIndicator size="large" color={theme.colors.primary} />
+                    <Text style={[styles.loadingText, { color: theme.colors.textSecondary }]}>
+                        Loading review queue...
+                    </Text>
+                </View>
+            ) : error ? (
+                <View style={styles.emptyContainer}>
+                    <Ionicons name="cloud-offline-outline" size={48} color={theme.colors.error} />
+                    <Text style={[styles.emptySubtitle, { color: theme.colors.textSecondary }]}>{error}</Text>
+                    <TouchableOpacity
+                        style={[styles.primaryButton, { backgroundColor: theme.colors.primary }]}
+                        onPress={loadQueue}
+                    >
+                        <Text style={styles.primaryButtonText}>Try Again</Text>
+                    </TouchableOpacity>
+                </View>
+            ) : (
+                <>
+                    <View style={{ paddingHorizontal: horizontalPadding || 20 }}>{renderStats()}</View>
+                    {currentItem ? renderQuestion() : renderDone()}
+                </>
+            )}
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        paddingVertical: 12,
+        marginBottom: 10,
+    },
+    backButton: {
+        width: 40,
+        height: 40,
+        borderRadius: 20,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    headerTitle: {
+        fontSize: 18,
+        fontWeight: '700',
+    },
+    loadingContainer: {
+        flex: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+        gap: 12,
+    },
+    loadingText: {
+        fontSize: 15,
+    },
+    statsRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-around',
+        padding: 16,
+        borderRadius: 12,
+        marginBottom: 16,
+    },
+    statItem: {
+        alignItems: 'center',
+    },
+    statValue: {
+        fontSize: 22,
+        fontWeight: '700',
+    },
+    statLabel: {
+        fontSize: 12,
+        marginTop: 4,
+    },
+    questionContent: {
+        paddingBottom: 40,
+    },
+    progressHeader: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: 8,
+    },
+    progressText: {
+        fontSize: 13,
+    },
+    sourceBadge: {
+        paddingHorizontal: 10,
+        paddingVertical: 4,
+        borderRadius: 10,
+    },
+    sourceBadgeText: {
+        fontSize: 12,
+        fontWeight: '600',
+    },
+    progressBar: {
+        height: 6,
+        borderRadius: 3,
+        overflow: 'hidden',
+        marginBottom: 20,
+    },
+    progressFill: {
+        height: '100%',
+        borderRadius: 3,
+    },
+    questionText: {
+        fontSize: 17,
+        fontWeight: '600',
+        lineHeight: 25,
+        marginBottom: 20,
+    },
+    optionButton: {
+        flexDirection: 'row',
+        alignItems: 'flex-start',
+        padding: 14,
+        borderRadius: 12,
+        borderWidth: 1.5,
+        marginBottom: 10,
+    },
+    optionLabel: {
+        fontSize: 15,
+        fontWeight: '700',
+        marginRight: 10,
+    },
+    optionText: {
+        flex: 1,
+        fontSize: 15,
+        lineHeight: 21,
+    },
+    explanationBox: {
+        padding: 14,
+        borderRadius: 12,
+        marginTop: 6,
+        marginBottom: 16,
+    },
+    explanationTitle: {
+        fontSize: 13,
+        fontWeight: '700',
+        marginBottom: 6,
+    },
+    explanationText: {
+        fontSize: 14,
+        lineHeight: 21,
+    },
+    primaryButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: 8,
+        paddingHorizontal: 24,
+        paddingVertical: 14,
+        borderRadius: 12,
+        marginTop: 8,
+    },
+    primaryButtonText: {
+        color: '#FFF',
+        fontSize: 16,
+        fontWeight: '600',
+    },
+    emptyContainer: {
+        flex: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+        paddingHorizontal: 40,
+        gap: 12,
+    },
+    emptyIcon: {
+        width: 120,
+        height: 120,
+        borderRadius: 60,
+        justifyContent: 'center',
+        alignItems: 'center',
+        marginBottom: 12,
+    },
+    emptyTitle: {
+        fontSize: 22,
+        fontWeight: '700',
+        textAlign: 'center',
+    },
+    emptySubtitle: {
+        fontSize: 15,
+        textAlign: 'center',
+        lineHeight: 22,
+        marginBottom: 12,
+    },
+});
@@ -30,6 +30,7 @@ export interface AIMCQSession {
     userAnswers: { [key: number]: string };
     score: number;
     completed: boolean;
+    noteId?: number; // Set for "Practice this note" sessions (see Notes/services/notePractice.ts)
     createdAt: string;
     updatedAt: string;
 }
@@ -207,6 +208,10 @@ export const saveMCQSession = (session: AIMCQSession): Promise<void> => storage.
 export const deleteMCQSession = (id: string): Promise<void> => storage.delete(id);
 export const clearAllMCQSessions = (): Promise<void> => storage.clear();
 
+// Sessions generated from a note, newest first
+export const getNoteMCQSessions = async (noteId: number): Promise<AIMCQSession[]> =>
+    (await storage.getAll()).filter(s => s.noteId === noteId);
+
 // Create a new MCQ session
 export const createMCQSession = (
     title: string,
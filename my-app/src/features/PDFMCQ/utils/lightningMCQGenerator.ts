@@ -341,6 +341,7 @@ function parseQuestionSection(section: string): MCQ | null {
  * Uses OCR + Gemini Flash
  */
 import { API_BASE_URL } from '../../../config/api';
+import { getAuthHeaders, isCreditError } from '../../../services/billingService';
 
 /**
  * Attempt to generate MCQs using the fast backend API (Native PDF parsing)
@@ -374,9 +375,18 @@ async function attemptBackendGeneration(
             body: formData,
             headers: {
                 // 'Content-Type': 'multipart/form-data', // Do NOT set this manually, let fetch handle it with boundary
+                ...(await getAuthHeaders()),
             },
         });
 
+        if (response.status === 401 || response.status === 402) {
+            // Metered on the server; don't fall back to generating on the device
+            const data = await response.json();
+            if (isCreditError(data)) {
+                return { success: false, mcqs: [], fileName, processingTimeMs: 0, error: data.error };
+            }
+        }
+
         if (response.status === 422) {
             // Scanned PDF, fallback to OCR
             console.log('Backend returned 422 (Scanned PDF), falling back to OCR');
@@ -0,0 +1,117 @@
+/**
+ * Spaced Repetition Review API
+ * Records MCQ attempts from every MCQ source and fetches the daily review queue
+ */
+
+// @ts-ignore
+import { getMobileApiEndpoint } from '../../../config/api';
+import { getAuthHeaders } from '../../../services/billingService';
+
+export type ReviewSource = 'pdf_mcq' | 'ai_mcq' | 'article_mcq';
+
+export interface ReviewQuestion {
+    question: string;
+    optionA: string;
+    optionB: string;
+    optionC: string;
+    optionD: string;
+    correctAnswer: string;
+    explanation?: string;
+}
+
+export interface QuestionAttempt {
+    source: ReviewSource;
+    questionKey: string;
+    question?: ReviewQuestion; // Not needed for article MCQs (loaded server-side)
+    selectedAnswer: string;
+    sessionId?: string;
+    timeTakenMs?: number;
+}
+
+export interface ReviewItem {
+    id: number;
+    source: ReviewSource;
+    questionKey: string;
+    question: ReviewQuestion;
+    repetitions: number;
+    lapses: number;
+    intervalDays: number;
+    dueAt: string;
+    lastReviewedAt?: string;
+}
+
+export interface ReviewStats {
+    due: number;
+    total: number;
+    attemptsLast30Days: number;
+    accuracyLast30Days: number;
+}
+
+/**
+ * Build a stable question key for locally stored sessions
+ */
+export const buildLocalQuestionKey = (sessionId: string, questionIndex: number): string => {
+    return `${sessionId}:${questionIndex}`;
+};
+
+/**
+ * Record one or more answered MCQs
+ */
+export const recordAttempts = async (
+    userId: number | string,
+    attempts: QuestionAttempt[]
+): Promise<void> => {
+    try {
+        const url = getMobileApiEndpoint('/review/attempts');
+
+        const response = await fetch(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+            body: JSON.stringify({ userId, attempts }),
+        });
+
+        const data = await response.json();
+
+        if (!data.success) {
+            throw new Error(data.error || 'Failed to record attempts');
+        }
+    } catch (error) {
+        console.error('[ReviewAPI] Error recording attempts:', error);
+        throw error;
+    }
+};
+
+/**
+ * Fire-and-forget variant used from practice screens so a network
+ * failure never interrupts answering questions
+ */
+export const trackAttempt = (userId: number | string | undefined, attempt: QuestionAttempt): void => {
+    if (!userId) return;
+    recordAttempts(userId, [attempt]).catch(() => {
+        // Already logged in recordAttempts
+    });
+};
+
+/**
+ * Fetch questions due for review today
+ */
+export const fetchReviewQueue = async (
+    userId: number | string,
+    limit = 20
+): Promise<{ items: ReviewItem[]; stats: ReviewStats }> => {
+    try {
+        const url = getMobileApiEndpoint(`/review/queue?userId=${userId}&limit=${limit}`);
+
+        const response = await fetch(url, { headers: await getAuthHeaders() });
+        const data = await response.json();
+
+        if (!data.success) {
+            throw new Error(data.error || 'Failed to fetch review queue');
+        }
+
+        return { items: data.items, stats: data.stats };
+    } catch (error) {
+        console.error('[ReviewAPI] Error fetching review queue:', error);
+        throw error;
+    }
+};
@@ -15,6 +15,8 @@ import {
     FeatureType,
     getFeatureDisplayName,
     CreditBalance,
+    CreditError,
+    CREDIT_ERROR_CODES,
 } from '../services/billingService';
 
 export interface UseCreditCheckResult {
@@ -122,6 +124,30 @@ export function useCreditCheck(): UseCreditCheckResult {
     };
 }
 
+/**
+ * Surface a 401 / 402 from a metered AI route. The header CreditsBadge picks up
+ * the real balance through its realtime subscription.
+ */
+export function showCreditErrorAlert(error: CreditError, navigation: { navigate: (screen: string) => void }) {
+    if (error.code === CREDIT_ERROR_CODES.unauthenticated) {
+        Alert.alert('Sign In Required', error.error || 'Please sign in to use AI features.');
+        return;
+    }
+
+    const featureName = error.feature ? getFeatureDisplayName(error.feature) : 'This feature';
+    Alert.alert(
+        'Insufficient Credits',
+        `${featureName} requires ${error.required ?? ''} credits.\n\nYou have ${error.balance ?? 0} credits remaining.\n\nUpgrade your plan or buy more credits to continue.`,
+        [
+            { text: 'Cancel', style: 'cancel' },
+            {
+                text: 'Get Credits',
+                onPress: () => navigation.navigate('Billing'),
+            },
+        ]
+    );
+}
+
 /**
  * Credit Badge Component
  * Shows current credits in the header
@@ -12,17 +12,11 @@ import { Alert } from 'react-native';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../context/AuthContext';
 import { canBypassCredits, getDevCredits } from '../utils/devMode';
+import { CREDIT_COSTS, FeatureType, loadPricing } from '../services/billingService';
 
-// Credit costs for each feature
-export const CREDIT_COSTS = {
-    summary: 1,
-    mind_map: 2,
-    mcq_generator: 3,
-    pdf_mcq: 5,
-    essay_evaluation: 3,
-};
-
-export type FeatureType = keyof typeof CREDIT_COSTS;
+// Credit costs come from the admin pricing config (see billingService)
+export { CREDIT_COSTS };
+export type { FeatureType };
 
 interface UserCredits {
     credits: number;
@@ -202,6 +196,11 @@ export function useCredits() {
         fetchCredits();
     }, [fetchCredits]);
 
+    // Pick up the current feature costs (updates CREDIT_COSTS in place)
+    useEffect(() => {
+        loadPricing();
+    }, []);
+
     // Subscribe to realtime updates
     useEffect(() => {
         if (!userId && !userEmail) return;
@@ -0,0 +1,45 @@
+import { useEffect, useRef } from 'react';
+import { AppState } from 'react-native';
+import { trackStudySession } from '../utils/studyTracker';
+
+// A screen left open is not study time; cap each uninterrupted stretch
+const MAX_SEGMENT_SECONDS = 90 * 60;
+
+/**
+ * Log the time a screen is open in the foreground as a study session.
+ * Time is recorded when the screen unmounts or the app goes to the background,
+ * and starts again when the app returns.
+ * @param {Object} session - source, sourceId, title, topicId, topicName, topicHints (see trackStudySession)
+ * @param {boolean} enabled - e.g. false until the article has loaded
+ */
+export const useStudyTimeTracking = (session, enabled = true) => {
+  // Latest details, so tags edited while the screen is open are used when it is logged
+  const sessionRef = useRef(session);
+  sessionRef.current = session;
+
+  useEffect(() => {
+    if (!enabled) return undefined;
+
+    let startedAt = AppState.currentState === 'active' ? new Date() : null;
+
+    const commit = () => {
+      if (!startedAt) return;
+      const seconds = Math.min((Date.now() - startedAt.getTime()) / 1000, MAX_SEGMENT_SECONDS);
+      trackStudySession({ ...sessionRef.current, startedAt, durationSeconds: seconds });
+      startedAt = null;
+    };
+
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        if (!startedAt) startedAt = new Date();
+      } else {
+        commit();
+      }
+    });
+
+    return () => {
+      subscription.remove();
+      commit();
+    };
+  }, [enabled]);
+};
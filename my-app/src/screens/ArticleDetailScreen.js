@@ -18,11 +18,18 @@ import { useWebStyles } from '../components/WebContainer';
 import * as FileSystem from 'expo-file-system';
 import * as Sharing from 'expo-sharing';
 import { supabase } from '../lib/supabase';
+import { useAuth } from '../context/AuthContext';
+import { trackAttempt } from '../features/PDFMCQ/utils/reviewApi';
+import { localizeRecord } from '../utils/contentLanguage';
+import { getAuthHeaders, isCreditError } from '../services/billingService';
+import { showCreditErrorAlert } from '../hooks/useCreditCheck';
+import { useStudyTimeTracking } from '../hooks/useStudyTimeTracking';
 
 export default function ArticleDetailScreen({ route, navigation }) {
   const { articleId } = route.params;
   const { theme, isDark } = useTheme();
   const { horizontalPadding } = useWebStyles();
+  const { user } = useAuth();
   const [article, setArticle] = useState(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState(null);
@@ -35,6 +42,14 @@ export default function ArticleDetailScreen({ route, navigation }) {
   const [feedbackAnimations, setFeedbackAnimations] = useState({}); // { mcqId: Animated.Value }
   const [shuffledMcqs, setShuffledMcqs] = useState({}); // { mcqId: { shuffledOptions: { A: text, B: text, C: text, D: text }, correctAnswer: 'A' } }
 
+  // Reading time counts towards the roadmap topic the article's subject/tags match
+  useStudyTimeTracking({
+    source: 'article',
+    sourceId: articleId,
+    title: article?.title,
+    topicHints: [article?.subject, ...(article?.tags || [])],
+  }, !!article);
+
   useEffect(() => {
     fetchArticle();
     fetchMCQs();
@@ -56,7 +71,7 @@ export default function ArticleDetailScreen({ route, navigation }) {
         setError(fetchError.message);
       } else {
         // Transform field names from snake_case to camelCase for compatibility
-        const transformedArticle = {
+        const transformedArticle = localizeRecord({
           ...data,
           sourceUrl: data.source_url,
           gsPaper: data.gs_paper,
@@ -69,7 +84,7 @@ export default function ArticleDetailScreen({ route, navigation }) {
           tags: typeof data.tags === 'string' ? JSON.parse(data.tags) : data.tags,
           // Parse content if it's a string
           content: typeof data.content === 'string' ? JSON.parse(data.content) : data.content,
-        };
+        });
         setArticle(transformedArticle);
         setError(null);
       }
@@ -114,7 +129,7 @@ export default function ArticleDetailScreen({ route, navigation }) {
       } else if (data && data.length > 0) {
         console.log('[ArticleDetailScreen] Setting MCQs:', data.length);
         // Transform field names from snake_case to camelCase
-        const transformedMcqs = data.map(mcq => ({
+        const transformedMcqs = data.map(mcq => localizeRecord({
           ...mcq,
           optionA: mcq.option_a,
           optionB: mcq.option_b,
@@ -145,6 +160,7 @@ export default function ArticleDetailScreen({ route, navigation }) {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...(await getAuthHeaders()),
         },
       });
 
@@ -153,7 +169,9 @@ export default function ArticleDetailScreen({ route, navigation }) {
       const data = await response.json();
       console.log('[ArticleDetailScreen] Generate MCQs response data:', data);
 
-      if (response.ok && data.mcqs) {
+      if (isCreditError(data)) {
+        showCreditErrorAlert(data, navigation);
+      } else if (response.ok && data.mcqs) {
         console.log('[ArticleDetailScreen] Successfully generated MCQs:', data.count);
         setMcqs(data.mcqs);
         alert(`Successfully generated ${data.count} MCQs!`);
@@ -250,6 +268,20 @@ export default function ArticleDetailScreen({ route, navigation }) {
 
     const isCorrect = selectedOption === shuffledData.correctAnswer;
 
+    // Map the shuffled label back to the stored option so the server can grade it
+    const mcq = mcqs.find((m) => m.id === mcqId);
+    const selectedText = shuffledData.shuffledOptions[selectedOption];
+    const originalAnswer = mcq && ['A', 'B', 'C', 'D'].find(
+      (label) => mcq[`option${label}`] === selectedText
+    );
+    if (originalAnswer) {
+      trackAttempt(user?.id, {
+        source: 'article_mcq',
+        questionKey: String(mcqId),
+        selectedAnswer: originalAnswer,
+      });
+    }
+
     setSelectedAnswers((prev) => ({
       ...prev,
       [mcqId]: selectedOption, // Store selected option for comparison
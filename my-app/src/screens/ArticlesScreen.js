@@ -19,6 +19,7 @@ import { useTheme } from '../features/Reference/theme/ThemeContext';
 import { useWebStyles } from '../components/WebContainer';
 import { SmartTextInput } from '../components/SmartTextInput';
 import { supabase } from '../lib/supabase';
+import { localizeRecord } from '../utils/contentLanguage';
 
 const FILTERS = {
   sources: ['The Hindu', 'The Economic Times', 'Press Information Bureau'],
@@ -117,7 +118,7 @@ export default function ArticlesScreen({ navigation }) {
       }
 
       console.log(`Fetched ${data?.length || 0} articles`);
-      setArticles(data || []);
+      setArticles((data || []).map(localizeRecord));
     } catch (err) {
       setError('Failed to load articles. Please try again.');
       console.error('Fetch articles error:', err);
@@ -274,7 +275,9 @@ export default function ArticlesScreen({ navigation }) {
           <Ionicons name="arrow-back" size={24} color={theme.colors.text} />
         </TouchableOpacity>
         <Text style={[styles.headerTitle, { color: theme.colors.text }]}>Articles</Text>
-        <View style={{ width: 40 }} />
+        <TouchableOpacity style={styles.backBtn} onPress={() => navigation.navigate('Bulletin')}>
+          <Ionicons name="list-circle-outline" size={24} color={theme.colors.primary} />
+        </TouchableOpacity>
       </View>
 
       <ScrollView
@@ -34,18 +34,29 @@ import {
     CreditPackage,
     CreditBalance,
     CREDIT_COSTS,
+    FeatureType,
+    getFeatureDisplayName,
+    loadPricing,
 } from '../services/billingService';
 
-// ============== LIVE CHECKOUT URLs ==============
-const CHECKOUT_URLS = {
-    BASIC_PLAN: 'https://checkout.dodopayments.com/buy/pdt_0NWfLOSWmnFywSwZldAHa',
-    PRO_PLAN: 'https://checkout.dodopayments.com/buy/pdt_0NWfLU5OfjnVhmPz86wWZ',
-    CREDITS_50: 'https://checkout.dodopayments.com/buy/pdt_0NWfLXQfz6P34vDNgGT6J',
-    CREDITS_120: 'https://checkout.dodopayments.com/buy/pdt_0NWfLZHVYcwnA37B60iio',
-    CREDITS_300: 'https://checkout.dodopayments.com/buy/pdt_0NWfLbT49dqQm9bNqVVjS',
-    CREDITS_750: 'https://checkout.dodopayments.com/buy/pdt_0NWfNy0Q3SrufzdKZlE2G',
-    CREDITS_1200: 'https://checkout.dodopayments.com/buy/pdt_0NWfO0TYn9murkxJ3FWbC',
-    CREDITS_1999: 'https://checkout.dodopayments.com/buy/pdt_0NWfO2IA7c8uoxbXKPkFP',
+// ============== CHECKOUT ==============
+// Plans and packs come from the admin pricing config, keyed by DodoPayments product ID
+const checkoutUrl = (productId: string) => `https://checkout.dodopayments.com/buy/${productId}`;
+
+const PLAN_STYLES = [
+    { color: '#10B981', icon: 'person' },
+    { color: '#6366F1', icon: 'diamond' },
+    { color: '#F59E0B', icon: 'rocket' },
+];
+
+const BADGE_COLORS = ['#6366F1', '#10B981', '#F59E0B'];
+
+const chunk = <T,>(items: T[], size: number): T[][] => {
+    const rows: T[][] = [];
+    for (let i = 0; i < items.length; i += size) {
+        rows.push(items.slice(i, i + size));
+    }
+    return rows;
 };
 
 export default function BillingScreen() {
@@ -58,6 +69,8 @@ export default function BillingScreen() {
     const [refreshing, setRefreshing] = useState(false);
     const [credits, setCredits] = useState<CreditBalance | null>(null);
     const [transactions, setTransactions] = useState<any[]>([]);
+    const [plans, setPlans] = useState<SubscriptionPlan[]>([]);
+    const [packages, setPackages] = useState<CreditPackage[]>([]);
     const [activeTab, setActiveTab] = useState<'plans' | 'credits' | 'history'>('plans');
 
     const userEmail = user?.email || '';
@@ -68,12 +81,17 @@ export default function BillingScreen() {
 
     const loadData = async () => {
         try {
-            const [creditsData, transactionsData] = await Promise.all([
+            await loadPricing(true);
+            const [creditsData, transactionsData, plansData, packagesData] = await Promise.all([
                 getUserCredits(),
                 getTransactionHistory(10),
+                getSubscriptionPlans().catch(() => []),
+                getCreditPackages().catch(() => []),
             ]);
             setCredits(creditsData);
             setTransactions(transactionsData);
+            setPlans(plansData);
+            setPackages(packagesData);
         } catch (error) {
             console.error('[Billing] Load error:', error);
         } finally {
@@ -121,7 +139,7 @@ export default function BillingScreen() {
                 <View style={[styles.planBadge, { backgroundColor: credits?.plan_type === 'pro' ? '#6366F1' : credits?.plan_type === 'basic' ? '#10B981' : '#6B7280' }]}>
                     <Ionicons name="flash" size={14} color="#FFF" />
                     <Text style={styles.planBadgeText}>
-                        {credits?.plan_type === 'pro' ? 'PRO' : credits?.plan_type === 'basic' ? 'BASIC' : 'FREE'}
+                        {credits?.plan_type && !['free', 'none'].includes(credits.plan_type) ? credits.plan_type.toUpperCase() : 'FREE'}
                     </Text>
                 </View>
             </View>
@@ -179,94 +197,65 @@ export default function BillingScreen() {
                 Get monthly credits for all AI features
             </Text>
 
-            {/* Basic Plan */}
-            <TouchableOpacity
-                style={[styles.planCard, { backgroundColor: isDark ? '#1A1A2E' : '#FFFFFF', borderColor: isDark ? '#2A2A4E' : '#E8E8E8' }]}
-                onPress={() => openCheckout(CHECKOUT_URLS.BASIC_PLAN, 'Basic Plan')}
-            >
-                <View style={styles.planHeader}>
-                    <View>
-                        <View style={styles.planTitleRow}>
-                            <View style={[styles.planIcon, { backgroundColor: '#10B981' }]}>
-                                <Ionicons name="person" size={16} color="#FFF" />
+            {plans.length === 0 && renderPricingUnavailable()}
+
+            {plans.map((plan, index) => {
+                const { color, icon } = PLAN_STYLES[index % PLAN_STYLES.length];
+                return (
+                    <TouchableOpacity
+                        key={plan.id}
+                        style={[
+                            styles.planCard,
+                            !!plan.badge && styles.proPlanCard,
+                            { backgroundColor: isDark ? '#1A1A2E' : '#FFFFFF', borderColor: plan.badge ? color : (isDark ? '#2A2A4E' : '#E8E8E8') },
+                        ]}
+                        onPress={() => openCheckout(checkoutUrl(plan.id), plan.name)}
+                    >
+                        {!!plan.badge && (
+                            <View style={[styles.popularTag, { backgroundColor: color }]}>
+                                <Text style={styles.popularTagText}>{plan.badge}</Text>
                             </View>
-                            <Text style={[styles.planName, { color: isDark ? '#FFF' : '#1A1A1A' }]}>Basic</Text>
-                        </View>
-                        <View style={styles.priceRow}>
-                            <Text style={[styles.planPrice, { color: isDark ? '#FFF' : '#1A1A1A' }]}>₹399</Text>
-                            <Text style={[styles.planPeriod, { color: isDark ? '#666' : '#888' }]}>/month</Text>
-                        </View>
-                    </View>
-                    <View style={[styles.creditsBadge, { backgroundColor: isDark ? '#1E3A2F' : '#D1FAE5' }]}>
-                        <Text style={[styles.creditsBadgeNumber, { color: '#10B981' }]}>200</Text>
-                        <Text style={[styles.creditsBadgeText, { color: '#10B981' }]}>credits</Text>
-                    </View>
-                </View>
-                <View style={styles.planFeatures}>
-                    <View style={styles.featureRow}>
-                        <Ionicons name="checkmark-circle" size={16} color="#10B981" />
-                        <Text style={[styles.featureText, { color: isDark ? '#AAA' : '#666' }]}>200 AI credits per month</Text>
-                    </View>
-                    <View style={styles.featureRow}>
-                        <Ionicons name="checkmark-circle" size={16} color="#10B981" />
-                        <Text style={[styles.featureText, { color: isDark ? '#AAA' : '#666' }]}>All AI features included</Text>
-                    </View>
-                    <View style={styles.featureRow}>
-                        <Ionicons name="checkmark-circle" size={16} color="#10B981" />
-                        <Text style={[styles.featureText, { color: isDark ? '#AAA' : '#666' }]}>Cancel anytime</Text>
-                    </View>
-                </View>
-                <View style={[styles.subscribeButton, { backgroundColor: '#10B981' }]}>
-                    <Text style={styles.subscribeButtonText}>Subscribe Now</Text>
-                    <Ionicons name="arrow-forward" size={18} color="#FFF" />
-                </View>
-            </TouchableOpacity>
-
-            {/* Pro Plan */}
-            <TouchableOpacity
-                style={[styles.planCard, styles.proPlanCard, { backgroundColor: isDark ? '#1A1A2E' : '#FFFFFF', borderColor: '#6366F1' }]}
-                onPress={() => openCheckout(CHECKOUT_URLS.PRO_PLAN, 'Pro Plan')}
-            >
-                <View style={styles.popularTag}>
-                    <Text style={styles.popularTagText}>MOST POPULAR</Text>
-                </View>
-                <View style={styles.planHeader}>
-                    <View>
-                        <View style={styles.planTitleRow}>
-                            <View style={[styles.planIcon, { backgroundColor: '#6366F1' }]}>
-                                <Ionicons name="diamond" size={16} color="#FFF" />
+                        )}
+                        <View style={styles.planHeader}>
+                            <View>
+                                <View style={styles.planTitleRow}>
+                                    <View style={[styles.planIcon, { backgroundColor: color }]}>
+                                        <Ionicons name={icon as any} size={16} color="#FFF" />
+                                    </View>
+                                    <Text style={[styles.planName, { color: isDark ? '#FFF' : '#1A1A1A' }]}>{plan.name}</Text>
+                                </View>
+                                <View style={styles.priceRow}>
+                                    <Text style={[styles.planPrice, { color: isDark ? '#FFF' : '#1A1A1A' }]}>{formatPrice(plan.price_inr)}</Text>
+                                    <Text style={[styles.planPeriod, { color: isDark ? '#666' : '#888' }]}>/month</Text>
+                                </View>
+                            </View>
+                            <View style={[styles.creditsBadge, { backgroundColor: isDark ? `${color}33` : `${color}1A` }]}>
+                                <Text style={[styles.creditsBadgeNumber, { color }]}>{plan.monthly_credits}</Text>
+                                <Text style={[styles.creditsBadgeText, { color }]}>credits</Text>
                             </View>
-                            <Text style={[styles.planName, { color: isDark ? '#FFF' : '#1A1A1A' }]}>Pro</Text>
                         </View>
-                        <View style={styles.priceRow}>
-                            <Text style={[styles.planPrice, { color: isDark ? '#FFF' : '#1A1A1A' }]}>₹699</Text>
-                            <Text style={[styles.planPeriod, { color: isDark ? '#666' : '#888' }]}>/month</Text>
+                        <View style={styles.planFeatures}>
+                            {plan.features.map((perk) => (
+                                <View key={perk} style={styles.featureRow}>
+                                    <Ionicons name="checkmark-circle" size={16} color={color} />
+                                    <Text style={[styles.featureText, { color: isDark ? '#AAA' : '#666' }]}>{perk}</Text>
+                                </View>
+                            ))}
                         </View>
-                    </View>
-                    <View style={[styles.creditsBadge, { backgroundColor: isDark ? '#2A2355' : '#EDE9FE' }]}>
-                        <Text style={[styles.creditsBadgeNumber, { color: '#6366F1' }]}>400</Text>
-                        <Text style={[styles.creditsBadgeText, { color: '#6366F1' }]}>credits</Text>
-                    </View>
-                </View>
-                <View style={styles.planFeatures}>
-                    <View style={styles.featureRow}>
-                        <Ionicons name="checkmark-circle" size={16} color="#6366F1" />
-                        <Text style={[styles.featureText, { color: isDark ? '#AAA' : '#666' }]}>400 AI credits per month</Text>
-                    </View>
-                    <View style={styles.featureRow}>
-                        <Ionicons name="checkmark-circle" size={16} color="#6366F1" />
-                        <Text style={[styles.featureText, { color: isDark ? '#AAA' : '#666' }]}>Priority processing</Text>
-                    </View>
-                    <View style={styles.featureRow}>
-                        <Ionicons name="checkmark-circle" size={16} color="#6366F1" />
-                        <Text style={[styles.featureText, { color: isDark ? '#AAA' : '#666' }]}>Premium support</Text>
-                    </View>
-                </View>
-                <View style={[styles.subscribeButton, { backgroundColor: '#6366F1' }]}>
-                    <Text style={styles.subscribeButtonText}>Subscribe Now</Text>
-                    <Ionicons name="arrow-forward" size={18} color="#FFF" />
-                </View>
-            </TouchableOpacity>
+                        <View style={[styles.subscribeButton, { backgroundColor: color }]}>
+                            <Text style={styles.subscribeButtonText}>Subscribe Now</Text>
+                            <Ionicons name="arrow-forward" size={18} color="#FFF" />
+                        </View>
+                    </TouchableOpacity>
+                );
+            })}
+        </View>
+    );
+
+    const renderPricingUnavailable = () => (
+        <View style={[styles.emptyState, { backgroundColor: isDark ? '#1A1A2E' : '#F9FAFB', borderColor: isDark ? '#2A2A4E' : '#E8E8E8' }]}>
+            <Ionicons name="cloud-offline-outline" size={48} color={isDark ? '#444' : '#CCC'} />
+            <Text style={[styles.emptyText, { color: isDark ? '#666' : '#888' }]}>Prices unavailable. Pull down to retry.</Text>
         </View>
     );
 
@@ -280,86 +269,38 @@ export default function BillingScreen() {
                 One-time purchase • Credits never expire
             </Text>
 
-            {/* Row 1: Starter packages */}
-            <View style={styles.packagesRow}>
-                {/* 50 Credits */}
-                <TouchableOpacity
-                    style={[styles.packageCard, { backgroundColor: isDark ? '#1A1A2E' : '#FFFFFF', borderColor: isDark ? '#2A2A4E' : '#E8E8E8' }]}
-                    onPress={() => openCheckout(CHECKOUT_URLS.CREDITS_50, '50 Credits')}
-                >
-                    <Text style={[styles.packageCredits, { color: isDark ? '#FFF' : '#1A1A1A' }]}>50</Text>
-                    <Text style={[styles.packageCreditsLabel, { color: isDark ? '#666' : '#888' }]}>credits</Text>
-                    <Text style={[styles.packagePrice, { color: '#10B981' }]}>₹99</Text>
-                    <Text style={[styles.packagePerCredit, { color: isDark ? '#555' : '#AAA' }]}>₹1.98/credit</Text>
-                </TouchableOpacity>
-
-                {/* 120 Credits */}
-                <TouchableOpacity
-                    style={[styles.packageCard, { backgroundColor: isDark ? '#1A1A2E' : '#FFFFFF', borderColor: isDark ? '#2A2A4E' : '#E8E8E8' }]}
-                    onPress={() => openCheckout(CHECKOUT_URLS.CREDITS_120, '120 Credits')}
-                >
-                    <Text style={[styles.packageCredits, { color: isDark ? '#FFF' : '#1A1A1A' }]}>120</Text>
-                    <Text style={[styles.packageCreditsLabel, { color: isDark ? '#666' : '#888' }]}>credits</Text>
-                    <Text style={[styles.packagePrice, { color: '#10B981' }]}>₹199</Text>
-                    <Text style={[styles.packagePerCredit, { color: isDark ? '#555' : '#AAA' }]}>₹1.66/credit</Text>
-                </TouchableOpacity>
-
-                {/* 300 Credits */}
-                <TouchableOpacity
-                    style={[styles.packageCard, { backgroundColor: isDark ? '#1A1A2E' : '#FFFFFF', borderColor: isDark ? '#2A2A4E' : '#E8E8E8' }]}
-                    onPress={() => openCheckout(CHECKOUT_URLS.CREDITS_300, '300 Credits')}
-                >
-                    <Text style={[styles.packageCredits, { color: isDark ? '#FFF' : '#1A1A1A' }]}>300</Text>
-                    <Text style={[styles.packageCreditsLabel, { color: isDark ? '#666' : '#888' }]}>credits</Text>
-                    <Text style={[styles.packagePrice, { color: '#F59E0B' }]}>₹399</Text>
-                    <Text style={[styles.packagePerCredit, { color: isDark ? '#555' : '#AAA' }]}>₹1.33/credit</Text>
-                </TouchableOpacity>
-            </View>
-
-            {/* Row 2: Bulk packages */}
-            <View style={[styles.packagesRow, { marginTop: 12 }]}>
-                {/* 750 Credits */}
-                <TouchableOpacity
-                    style={[styles.packageCard, styles.packageCardPopular, { backgroundColor: isDark ? '#1A1A2E' : '#FFFFFF', borderColor: '#6366F1' }]}
-                    onPress={() => openCheckout(CHECKOUT_URLS.CREDITS_750, '750 Credits')}
-                >
-                    <View style={styles.saveBadge}>
-                        <Text style={styles.saveBadgeText}>POPULAR</Text>
-                    </View>
-                    <Text style={[styles.packageCredits, { color: isDark ? '#FFF' : '#1A1A1A' }]}>750</Text>
-                    <Text style={[styles.packageCreditsLabel, { color: isDark ? '#666' : '#888' }]}>credits</Text>
-                    <Text style={[styles.packagePrice, { color: '#6366F1' }]}>₹699</Text>
-                    <Text style={[styles.packagePerCredit, { color: isDark ? '#555' : '#AAA' }]}>₹0.93/credit</Text>
-                </TouchableOpacity>
-
-                {/* 1200 Credits */}
-                <TouchableOpacity
-                    style={[styles.packageCard, styles.packageCardPopular, { backgroundColor: isDark ? '#1A1A2E' : '#FFFFFF', borderColor: '#10B981' }]}
-                    onPress={() => openCheckout(CHECKOUT_URLS.CREDITS_1200, '1200 Credits')}
-                >
-                    <View style={[styles.saveBadge, { backgroundColor: '#10B981' }]}>
-                        <Text style={styles.saveBadgeText}>BEST VALUE</Text>
-                    </View>
-                    <Text style={[styles.packageCredits, { color: isDark ? '#FFF' : '#1A1A1A' }]}>1200</Text>
-                    <Text style={[styles.packageCreditsLabel, { color: isDark ? '#666' : '#888' }]}>credits</Text>
-                    <Text style={[styles.packagePrice, { color: '#10B981' }]}>₹999</Text>
-                    <Text style={[styles.packagePerCredit, { color: isDark ? '#555' : '#AAA' }]}>₹0.83/credit</Text>
-                </TouchableOpacity>
-
-                {/* 1999 Credits */}
-                <TouchableOpacity
-                    style={[styles.packageCard, styles.packageCardPopular, { backgroundColor: isDark ? '#1A1A2E' : '#FFFFFF', borderColor: '#F59E0B' }]}
-                    onPress={() => openCheckout(CHECKOUT_URLS.CREDITS_1999, '1999 Credits')}
-                >
-                    <View style={[styles.saveBadge, { backgroundColor: '#F59E0B' }]}>
-                        <Text style={styles.saveBadgeText}>ULTIMATE</Text>
-                    </View>
-                    <Text style={[styles.packageCredits, { color: isDark ? '#FFF' : '#1A1A1A' }]}>1999</Text>
-                    <Text style={[styles.packageCreditsLabel, { color: isDark ? '#666' : '#888' }]}>credits</Text>
-                    <Text style={[styles.packagePrice, { color: '#F59E0B' }]}>₹1499</Text>
-                    <Text style={[styles.packagePerCredit, { color: isDark ? '#555' : '#AAA' }]}>₹0.75/credit</Text>
-                </TouchableOpacity>
-            </View>
+            {packages.length === 0 && renderPricingUnavailable()}
+
+            {chunk(packages, 3).map((row, rowIndex) => (
+                <View key={rowIndex} style={[styles.packagesRow, rowIndex > 0 && { marginTop: 12 }]}>
+                    {row.map((pkg) => {
+                        const badgeColor = BADGE_COLORS[packages.filter(p => p.badge).indexOf(pkg) % BADGE_COLORS.length];
+                        return (
+                            <TouchableOpacity
+                                key={pkg.id}
+                                style={[
+                                    styles.packageCard,
+                                    !!pkg.badge && styles.packageCardPopular,
+                                    { backgroundColor: isDark ? '#1A1A2E' : '#FFFFFF', borderColor: pkg.badge ? badgeColor : (isDark ? '#2A2A4E' : '#E8E8E8') },
+                                ]}
+                                onPress={() => openCheckout(checkoutUrl(pkg.id), pkg.name)}
+                            >
+                                {!!pkg.badge && (
+                                    <View style={[styles.saveBadge, { backgroundColor: badgeColor }]}>
+                                        <Text style={styles.saveBadgeText}>{pkg.badge}</Text>
+                                    </View>
+                                )}
+                                <Text style={[styles.packageCredits, { color: isDark ? '#FFF' : '#1A1A1A' }]}>{pkg.credits}</Text>
+                                <Text style={[styles.packageCreditsLabel, { color: isDark ? '#666' : '#888' }]}>credits</Text>
+                                <Text style={[styles.packagePrice, { color: pkg.badge ? badgeColor : '#10B981' }]}>{formatPrice(pkg.price_inr)}</Text>
+                                <Text style={[styles.packagePerCredit, { color: isDark ? '#555' : '#AAA' }]}>
+                                    ₹{(pkg.price_inr / pkg.credits).toFixed(2)}/credit
+                                </Text>
+                            </TouchableOpacity>
+                        );
+                    })}
+                </View>
+            ))}
 
             {/* Credit Usage Guide */}
             <View style={[styles.usageGuide, { backgroundColor: isDark ? '#1A1A2E' : '#F9FAFB', borderColor: isDark ? '#2A2A4E' : '#E5E7EB', marginTop: 20 }]}>
@@ -370,7 +311,7 @@ export default function BillingScreen() {
                     {Object.entries(CREDIT_COSTS).map(([feature, cost]) => (
                         <View key={feature} style={styles.usageItem}>
                             <Text style={[styles.usageFeature, { color: isDark ? '#AAA' : '#666' }]}>
-                                {feature.replace('_', ' ').replace(/\b\w/g, l => l.toUpperCase())}
+                                {getFeatureDisplayName(feature as FeatureType)}
                             </Text>
                             <Text style={[styles.usageCost, { color: isDark ? '#6366F1' : '#4F46E5' }]}>
                                 {cost} credit{cost > 1 ? 's' : ''}
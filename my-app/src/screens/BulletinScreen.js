@@ -0,0 +1,300 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../features/Reference/theme/ThemeContext';
+import { useWebStyles } from '../components/WebContainer';
+import { fetchBulletin } from '../services/bulletinApi';
+
+const GROUP_LABELS = {
+  GS1: 'GS Paper I · History, Geography & Society',
+  GS2: 'GS Paper II · Polity, Governance & IR',
+  GS3: 'GS Paper III · Economy, Environment & S&T',
+  GS4: 'GS Paper IV · Ethics',
+  Prelims: 'Prelims Facts',
+};
+
+const formatDate = (date) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-IN', { weekday: 'short', day: 'numeric', month: 'short' });
+
+// Group bullets by GS paper while keeping the editor's order within each group
+const groupItems = (items) => items.reduce((groups, item, index) => {
+  const group = groups.find(g => g.gsPaper === item.gsPaper);
+  const entry = { ...item, number: index + 1 };
+  if (group) {
+    group.items.push(entry);
+  } else {
+    groups.push({ gsPaper: item.gsPaper, items: [entry] });
+  }
+  return groups;
+}, []);
+
+export default function BulletinScreen({ route, navigation }) {
+  const { theme } = useTheme();
+  const { horizontalPadding } = useWebStyles();
+  const [selectedDate, setSelectedDate] = useState(route.params?.date || null);
+  const [bulletin, setBulletin] = useState(null);
+  const [availableDates, setAvailableDates] = useState([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState(null);
+
+  const loadBulletin = useCallback(async () => {
+    const result = await fetchBulletin(selectedDate);
+    if (result.success) {
+      setBulletin(result.bulletin);
+      setAvailableDates(result.availableDates);
+      setError(null);
+    } else {
+      setError(result.error);
+    }
+    setLoading(false);
+    setRefreshing(false);
+  }, [selectedDate]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadBulletin();
+  }, [loadBulletin]);
+
+  const handleRefresh = () => {
+    setRefreshing(true);
+    loadBulletin();
+  };
+
+  const renderDateChips = () => (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.dateChips}>
+      {availableDates.map((date) => {
+        const isSelected = bulletin?.date === date;
+        return (
+          <TouchableOpacity
+            key={date}
+            style={[
+              styles.dateChip,
+              { backgroundColor: isSelected ? theme.colors.primary : theme.colors.surface, borderColor: theme.colors.border },
+            ]}
+            onPress={() => setSelectedDate(date)}
+          >
+            <Text style={[styles.dateChipText, { color: isSelected ? '#FFF' : theme.colors.text }]}>
+              {formatDate(date)}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </ScrollView>
+  );
+
+  const renderBullet = (item) => (
+    <View key={item.number} style={styles.bullet}>
+      <Text style={[styles.bulletNumber, { color: theme.colors.primary }]}>{item.number}</Text>
+      <View style={styles.bulletBody}>
+        <Text style={[styles.bulletText, { color: theme.colors.text }]}>{item.text}</Text>
+        {item.articles.map((article) => (
+          <TouchableOpacity
+            key={article.id}
+            style={styles.articleLink}
+            onPress={() => navigation.navigate('ArticleDetail', { articleId: article.id })}
+          >
+            <Ionicons name="document-text-outline" size={14} color={theme.colors.primary} />
+            <Text style={[styles.articleLinkText, { color: theme.colors.primary }]} numberOfLines={1}>
+              {article.title}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+
+  const renderEmptyState = () => (
+    <View style={styles.emptyContainer}>
+      <Ionicons name="newspaper-outline" size={64} color={theme.colors.textSecondary} />
+      <Text style={[styles.emptyTitle, { color: theme.colors.text }]}>
+        {error ? 'Could not load bulletin' : 'No Bulletin Yet'}
+      </Text>
+      <Text style={[styles.emptyText, { color: theme.colors.textSecondary }]}>
+        {error || (selectedDate
+          ? `There is no bulletin for ${formatDate(selectedDate)}.`
+          : "Today's bulletin will appear here once it's published.")}
+      </Text>
+      <TouchableOpacity
+        style={[styles.retryButton, { backgroundColor: theme.colors.primary }]}
+        onPress={handleRefresh}
+      >
+        <Text style={styles.retryButtonText}>Retry</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
+      {/* Header */}
+      <View style={[styles.header, { paddingHorizontal: horizontalPadding || 20 }]}>
+        <TouchableOpacity style={styles.backBtn} onPress={() => navigation.goBack()}>
+          <Ionicons name="arrow-back" size={24} color={theme.colors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: theme.colors.text }]}>Daily Bulletin</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={theme.colors.primary} />
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={{ paddingHorizontal: horizontalPadding || 20, paddingBottom: 32 }}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} tintColor={theme.colors.primary} />
+          }
+          showsVerticalScrollIndicator={false}
+        >
+          {availableDates.length > 0 && renderDateChips()}
+
+          {!bulletin ? renderEmptyState() : (
+            <>
+              <Text style={[styles.dateTitle, { color: theme.colors.text }]}>{formatDate(bulletin.date)}</Text>
+              <Text style={[styles.subtitle, { color: theme.colors.textSecondary }]}>
+                {bulletin.items.length} things to know today
+              </Text>
+
+              {groupItems(bulletin.items).map((group) => (
+                <View key={group.gsPaper} style={[styles.groupCard, { backgroundColor: theme.colors.surface }]}>
+                  <Text style={[styles.groupTitle, { color: theme.colors.textSecondary }]}>
+                    {GROUP_LABELS[group.gsPaper] || group.gsPaper}
+                  </Text>
+                  {group.items.map(renderBullet)}
+                </View>
+              ))}
+            </>
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 16,
+  },
+  backBtn: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  dateChips: {
+    gap: 8,
+    paddingBottom: 16,
+  },
+  dateChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+  },
+  dateChipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  dateTitle: {
+    fontSize: 24,
+    fontWeight: '700',
+  },
+  subtitle: {
+    fontSize: 14,
+    marginTop: 4,
+    marginBottom: 16,
+  },
+  groupCard: {
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+  },
+  groupTitle: {
+    fontSize: 12,
+    fontWeight: '700',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: 12,
+  },
+  bullet: {
+    flexDirection: 'row',
+    marginBottom: 14,
+    gap: 12,
+  },
+  bulletNumber: {
+    fontSize: 16,
+    fontWeight: '700',
+    width: 20,
+  },
+  bulletBody: {
+    flex: 1,
+  },
+  bulletText: {
+    fontSize: 15,
+    lineHeight: 22,
+  },
+  articleLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 6,
+  },
+  articleLinkText: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 60,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginTop: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 8,
+    paddingHorizontal: 40,
+  },
+  retryButton: {
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 12,
+    marginTop: 20,
+  },
+  retryButtonText: {
+    color: '#FFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
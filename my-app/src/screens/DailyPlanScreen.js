@@ -8,6 +8,7 @@ import {
   Alert,
   Animated,
   PanResponder,
+  TextInput,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { LinearGradient } from 'expo-linear-gradient';
@@ -20,35 +21,81 @@ import {
   getUserPreferences,
   logStudySession,
 } from '../utils/roadmapStorage';
+import { fetchStudyPlan, saveStudyPlanSettings, setStudyTaskCompleted } from '../services/studyPlanApi';
 import { useRoadmap } from '../context/RoadmapContext';
+import { useAuth } from '../context/AuthContext';
 import { useTheme } from '../features/Reference/theme/ThemeContext';
 import { useWebStyles } from '../components/WebContainer';
 
+const HOUR_OPTIONS = [2, 4, 6, 8, 10, 12];
+
+// Server plan tasks in the shape the task list renders
+const toPlan = (day) => ({
+  tasks: (day?.tasks || []).map(task => ({ ...task, estimatedHours: task.hours })),
+  completed: (day?.tasks || []).filter(task => task.completed).map(task => task.id),
+});
+
 export default function DailyPlanScreen({ navigation }) {
   const { theme, isDark } = useTheme();
   const { horizontalPadding, isWeb } = useWebStyles();
   const { topics } = useRoadmap();
+  const { user } = useAuth();
+  const isSignedIn = !!user && !user.isGuest;
   const [plan, setPlan] = useState({ tasks: [], completed: [] });
   const [selectedDate, setSelectedDate] = useState(new Date());
   const [isGenerating, setIsGenerating] = useState(false);
   const [preferences, setPreferences] = useState({});
   const [weekDays, setWeekDays] = useState([]);
+  // Signed-in users follow the server's adaptive plan; guests keep the on-device plan
+  const [studyPlan, setStudyPlan] = useState(null);
+  const [replanned, setReplanned] = useState(false);
+  const [examDate, setExamDate] = useState('');
+  const [dailyHours, setDailyHours] = useState(6);
 
   useFocusEffect(
     useCallback(() => {
       loadData();
       generateWeekDays();
-    }, [selectedDate])
+    }, [selectedDate, isSignedIn])
   );
 
   const loadData = async () => {
     const dateKey = selectedDate.toISOString().split('T')[0];
-    const [planData, prefs] = await Promise.all([
+    const [planData, prefs, remote] = await Promise.all([
       getDailyPlan(dateKey),
       getUserPreferences(),
+      isSignedIn ? fetchStudyPlan(dateKey, 1) : Promise.resolve(null),
     ]);
-    setPlan(planData);
     setPreferences(prefs);
+
+    if (remote?.plan) {
+      setStudyPlan(remote.plan);
+      setReplanned(remote.replanned);
+      setExamDate(remote.plan.examDate);
+      setDailyHours(remote.plan.dailyHours);
+      setPlan(toPlan(remote.plan.days[0]));
+      return;
+    }
+
+    setStudyPlan(null);
+    setExamDate(current => current || `${prefs.targetYear || new Date().getFullYear() + 1}-05-25`);
+    setDailyHours(prefs.availableHoursDaily || 6);
+    setPlan(planData);
+  };
+
+  const saveServerPlan = async () => {
+    setIsGenerating(true);
+    const result = await saveStudyPlanSettings({ examDate, dailyHours });
+    setIsGenerating(false);
+
+    if (!result.success) {
+      Alert.alert('Could not create plan', result.error);
+      return;
+    }
+
+    setReplanned(false);
+    await loadData();
+    Alert.alert('✅ Plan Ready', `Your plan runs until ${result.plan.examDate} with ${result.plan.dailyHours}h a day.`);
   };
 
   const generateWeekDays = () => {
@@ -63,6 +110,18 @@ export default function DailyPlanScreen({ navigation }) {
   };
 
   const handleGeneratePlan = async () => {
+    if (isSignedIn) {
+      Alert.alert(
+        studyPlan ? 'Rebuild Study Plan' : 'Create Study Plan',
+        `Schedule your remaining roadmap and revisions until ${examDate} at ${dailyHours}h a day?`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: studyPlan ? 'Rebuild' : 'Create', onPress: saveServerPlan },
+        ]
+      );
+      return;
+    }
+
     Alert.alert(
       'Generate Daily Plan',
       'This will create a study plan based on your preferences and pending topics. Continue?',
@@ -93,6 +152,21 @@ export default function DailyPlanScreen({ navigation }) {
     const isCompleted = plan.completed?.includes(taskId);
     let newCompleted;
 
+    if (studyPlan) {
+      const dateKey = selectedDate.toISOString().split('T')[0];
+      setPlan({ ...plan, completed: isCompleted ? plan.completed.filter(id => id !== taskId) : [...plan.completed, taskId] });
+
+      const result = await setStudyTaskCompleted(dateKey, taskId, !isCompleted);
+      if (result.success) {
+        setStudyPlan(result.plan);
+        setPlan(toPlan(result.plan.days[0]));
+      } else {
+        setPlan(plan);
+        Alert.alert('Error', result.error);
+      }
+      return;
+    }
+
     if (isCompleted) {
       newCompleted = plan.completed.filter(id => id !== taskId);
     } else {
@@ -202,11 +276,74 @@ export default function DailyPlanScreen({ navigation }) {
           </TouchableOpacity>
           <Text style={[styles.title, { color: theme.colors.text }]}>Daily Plan</Text>
           <Text style={[styles.subtitle, { color: theme.colors.textSecondary }]}>Plan your study day effectively</Text>
-          <View style={styles.comingSoonBadge}>
-            <Text style={styles.comingSoonText}>Coming Soon</Text>
-          </View>
         </View>
 
+        {/* Study Plan Settings (synced across devices) */}
+        {isSignedIn && (
+          <View style={[styles.planCard, { backgroundColor: theme.colors.surface }]}>
+            {replanned && (
+              <View style={[styles.replanNotice, { backgroundColor: theme.colors.warningBg }]}>
+                <Ionicons name="refresh-circle" size={16} color={theme.colors.warning} />
+                <Text style={[styles.replanText, { color: theme.colors.text }]}>
+                  You fell behind, so the remaining days were re-planned.
+                </Text>
+              </View>
+            )}
+
+            {studyPlan && (
+              <View style={styles.planStats}>
+                <View style={styles.planStat}>
+                  <Text style={[styles.planStatValue, { color: theme.colors.text }]}>{studyPlan.daysLeft}</Text>
+                  <Text style={[styles.planStatLabel, { color: theme.colors.textSecondary }]}>Days Left</Text>
+                </View>
+                <View style={styles.planStat}>
+                  <Text style={[styles.planStatValue, { color: theme.colors.text }]}>
+                    {Math.round(studyPlan.stats.remainingHours)}h
+                  </Text>
+                  <Text style={[styles.planStatLabel, { color: theme.colors.textSecondary }]}>To Study</Text>
+                </View>
+                <View style={styles.planStat}>
+                  <Text style={[styles.planStatValue, { color: studyPlan.stats.onTrack ? '#34C759' : '#FF3B30' }]}>
+                    {studyPlan.stats.onTrack ? 'On Track' : `${studyPlan.stats.requiredDailyHours}h/day`}
+                  </Text>
+                  <Text style={[styles.planStatLabel, { color: theme.colors.textSecondary }]}>
+                    {studyPlan.stats.onTrack ? 'Syllabus fits' : 'Needed to finish'}
+                  </Text>
+                </View>
+              </View>
+            )}
+
+            <Text style={[styles.planLabel, { color: theme.colors.textSecondary }]}>Exam date</Text>
+            <TextInput
+              value={examDate}
+              onChangeText={setExamDate}
+              placeholder="YYYY-MM-DD"
+              placeholderTextColor={theme.colors.textTertiary}
+              autoCapitalize="none"
+              style={[styles.planInput, { color: theme.colors.text, borderColor: theme.colors.border }]}
+            />
+
+            <Text style={[styles.planLabel, { color: theme.colors.textSecondary }]}>Study hours per day</Text>
+            <View style={styles.hourChips}>
+              {HOUR_OPTIONS.map(hours => (
+                <TouchableOpacity
+                  key={hours}
+                  style={[
+                    styles.hourChip,
+                    { borderColor: theme.colors.border },
+                    dailyHours === hours && { backgroundColor: theme.colors.primary, borderColor: theme.colors.primary },
+                  ]}
+                  onPress={() => setDailyHours(hours)}
+                >
+                  <Text style={[styles.hourChipText, { color: dailyHours === hours ? '#FFF' : theme.colors.text }]}>
+                    {hours}h
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+        )}
+
         {/* Week Calendar */}
         <View style={styles.weekCalendar}>
           <ScrollView
@@ -297,7 +434,7 @@ export default function DailyPlanScreen({ navigation }) {
             >
               <Ionicons name="sparkles" size={18} color="#FFF" />
               <Text style={styles.actionButtonText}>
-                {isGenerating ? 'Generating...' : 'Auto Generate'}
+                {isGenerating ? 'Generating...' : studyPlan ? 'Re-plan' : 'Auto Generate'}
               </Text>
             </LinearGradient>
           </TouchableOpacity>
@@ -366,89 +503,93 @@ export default function DailyPlanScreen({ navigation }) {
                     </View>
                   </TouchableOpacity>
 
-                  <View style={[styles.taskActions, { borderTopColor: theme.colors.border }]}>
-                    <TouchableOpacity
-                      style={[styles.taskActionButton, { borderRightColor: theme.colors.border }]}
-                      onPress={() => moveTask(task.id, 'up')}
-                      disabled={index === 0}
-                    >
-                      <Ionicons name="arrow-up" size={16} color={index === 0 ? theme.colors.textTertiary : theme.colors.primary} />
-                    </TouchableOpacity>
-                    <TouchableOpacity
-                      style={[styles.taskActionButton, { borderRightColor: theme.colors.border }]}
-                      onPress={() => moveTask(task.id, 'down')}
-                      disabled={index === plan.tasks.length - 1}
-                    >
-                      <Ionicons name="arrow-down" size={16} color={index === plan.tasks.length - 1 ? theme.colors.textTertiary : theme.colors.primary} />
-                    </TouchableOpacity>
-                    <TouchableOpacity
-                      style={styles.taskActionButton}
-                      onPress={() => removeTask(task.id)}
-                    >
-                      <Ionicons name="close" size={16} color={theme.colors.error} />
-                    </TouchableOpacity>
-                  </View>
+                  {!studyPlan && (
+                    <View style={[styles.taskActions, { borderTopColor: theme.colors.border }]}>
+                      <TouchableOpacity
+                        style={[styles.taskActionButton, { borderRightColor: theme.colors.border }]}
+                        onPress={() => moveTask(task.id, 'up')}
+                        disabled={index === 0}
+                      >
+                        <Ionicons name="arrow-up" size={16} color={index === 0 ? theme.colors.textTertiary : theme.colors.primary} />
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={[styles.taskActionButton, { borderRightColor: theme.colors.border }]}
+                        onPress={() => moveTask(task.id, 'down')}
+                        disabled={index === plan.tasks.length - 1}
+                      >
+                        <Ionicons name="arrow-down" size={16} color={index === plan.tasks.length - 1 ? theme.colors.textTertiary : theme.colors.primary} />
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={styles.taskActionButton}
+                        onPress={() => removeTask(task.id)}
+                      >
+                        <Ionicons name="close" size={16} color={theme.colors.error} />
+                      </TouchableOpacity>
+                    </View>
+                  )}
                 </View>
               );
             })
           )}
         </View>
 
-        {/* Quick Add Section */}
-        <View style={styles.section}>
-          <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>
-            <Ionicons name="add-circle" size={16} color={theme.colors.text} /> Quick Add
-          </Text>
-          <View style={styles.quickAddRow}>
-            <TouchableOpacity
-              style={[styles.quickAddCard, { backgroundColor: theme.colors.surface }]}
-              onPress={() => {
-                const newTask = {
-                  id: `ca_${Date.now()}`,
-                  topicName: 'Current Affairs',
-                  subtopicName: "Today's News",
-                  estimatedHours: 1,
-                  type: 'current_affairs',
-                  completed: false,
-                };
-                const newPlan = { ...plan, tasks: [...(plan.tasks || []), newTask] };
-                saveDailyPlan(selectedDate.toISOString().split('T')[0], newPlan);
-                setPlan(newPlan);
-              }}
-            >
-              <Ionicons name="newspaper" size={24} color={theme.colors.primary} />
-              <Text style={[styles.quickAddText, { color: theme.colors.text }]}>Current Affairs</Text>
-            </TouchableOpacity>
-
-            <TouchableOpacity
-              style={[styles.quickAddCard, { backgroundColor: theme.colors.surface }]}
-              onPress={() => {
-                const newTask = {
-                  id: `rev_${Date.now()}`,
-                  topicName: 'Quick Revision',
-                  subtopicName: 'Review notes',
-                  estimatedHours: 1,
-                  type: 'revision',
-                  completed: false,
-                };
-                const newPlan = { ...plan, tasks: [...(plan.tasks || []), newTask] };
-                saveDailyPlan(selectedDate.toISOString().split('T')[0], newPlan);
-                setPlan(newPlan);
-              }}
-            >
-              <Ionicons name="refresh" size={24} color={theme.colors.primary} />
-              <Text style={[styles.quickAddText, { color: theme.colors.text }]}>Revision</Text>
-            </TouchableOpacity>
+        {/* Quick Add Section (the synced plan is managed by the server) */}
+        {!studyPlan && (
+          <View style={styles.section}>
+            <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>
+              <Ionicons name="add-circle" size={16} color={theme.colors.text} /> Quick Add
+            </Text>
+            <View style={styles.quickAddRow}>
+              <TouchableOpacity
+                style={[styles.quickAddCard, { backgroundColor: theme.colors.surface }]}
+                onPress={() => {
+                  const newTask = {
+                    id: `ca_${Date.now()}`,
+                    topicName: 'Current Affairs',
+                    subtopicName: "Today's News",
+                    estimatedHours: 1,
+                    type: 'current_affairs',
+                    completed: false,
+                  };
+                  const newPlan = { ...plan, tasks: [...(plan.tasks || []), newTask] };
+                  saveDailyPlan(selectedDate.toISOString().split('T')[0], newPlan);
+                  setPlan(newPlan);
+                }}
+              >
+                <Ionicons name="newspaper" size={24} color={theme.colors.primary} />
+                <Text style={[styles.quickAddText, { color: theme.colors.text }]}>Current Affairs</Text>
+              </TouchableOpacity>
 
-            <TouchableOpacity
-              style={[styles.quickAddCard, { backgroundColor: theme.colors.surface }]}
-              onPress={() => navigation.navigate('Config')}
-            >
-              <Ionicons name="create" size={24} color={theme.colors.primary} />
-              <Text style={[styles.quickAddText, { color: theme.colors.text }]}>MCQ Test</Text>
-            </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.quickAddCard, { backgroundColor: theme.colors.surface }]}
+                onPress={() => {
+                  const newTask = {
+                    id: `rev_${Date.now()}`,
+                    topicName: 'Quick Revision',
+                    subtopicName: 'Review notes',
+                    estimatedHours: 1,
+                    type: 'revision',
+                    completed: false,
+                  };
+                  const newPlan = { ...plan, tasks: [...(plan.tasks || []), newTask] };
+                  saveDailyPlan(selectedDate.toISOString().split('T')[0], newPlan);
+                  setPlan(newPlan);
+                }}
+              >
+                <Ionicons name="refresh" size={24} color={theme.colors.primary} />
+                <Text style={[styles.quickAddText, { color: theme.colors.text }]}>Revision</Text>
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={[styles.quickAddCard, { backgroundColor: theme.colors.surface }]}
+                onPress={() => navigation.navigate('Config')}
+              >
+                <Ionicons name="create" size={24} color={theme.colors.primary} />
+                <Text style={[styles.quickAddText, { color: theme.colors.text }]}>MCQ Test</Text>
+              </TouchableOpacity>
+            </View>
           </View>
-        </View>
+        )}
 
         {/* Daily Tips */}
         <View style={[styles.tipsCard, { backgroundColor: theme.colors.warningBg }]}>
@@ -499,21 +640,67 @@ const styles = StyleSheet.create({
     color: '#8E8E93',
     marginTop: 4,
   },
-  comingSoonBadge: {
-    backgroundColor: 'rgba(99, 102, 241, 0.1)',
+  planCard: {
+    backgroundColor: '#FFF',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 20,
+  },
+  replanNotice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    borderRadius: 10,
+    padding: 10,
+    marginBottom: 12,
+  },
+  replanText: {
+    flex: 1,
+    fontSize: 13,
+  },
+  planStats: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    marginBottom: 12,
+  },
+  planStat: {
+    alignItems: 'center',
+  },
+  planStatValue: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  planStatLabel: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  planLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginBottom: 6,
+  },
+  planInput: {
+    borderWidth: 1,
+    borderRadius: 10,
     paddingHorizontal: 12,
-    paddingVertical: 4,
-    borderRadius: 12,
-    alignSelf: 'flex-start',
-    marginTop: 8,
+    paddingVertical: 10,
+    fontSize: 15,
+    marginBottom: 12,
+  },
+  hourChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  hourChip: {
     borderWidth: 1,
-    borderColor: 'rgba(99, 102, 241, 0.2)',
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
   },
-  comingSoonText: {
-    color: '#6366F1',
-    fontSize: 12,
-    fontWeight: '700',
-    letterSpacing: 0.5,
+  hourChipText: {
+    fontSize: 14,
+    fontWeight: '600',
   },
   weekCalendar: {
     marginBottom: 20,
@@ -16,38 +16,80 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Ionicons } from '@expo/vector-icons';
 import * as ImagePicker from 'expo-image-picker';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system/legacy';
 import { useTheme } from '../features/Reference/theme/ThemeContext';
 import { useWebStyles } from '../components/WebContainer';
-import { saveEssayAttempt, getEssayAttempts } from '../utils/storage';
+import { getEssayAttempts } from '../utils/storage';
 import { OPENROUTER_API_KEY } from '../utils/secureKey';
 import { SmartTextInput } from '../components/SmartTextInput';
 import useCredits from '../hooks/useCredits';
+import { showCreditErrorAlert } from '../hooks/useCreditCheck';
+import { useAuth } from '../context/AuthContext';
+import {
+  evaluateHandwrittenAnswer,
+  fetchAnswerEvaluations,
+  fetchAnswerEvaluation,
+} from '../services/answerEvaluationApi';
+import { saveEssayToCloud, fetchEssays, fetchEssay, toDisplayEvaluation } from '../services/essayService';
 
 // OpenRouter Configuration
 const API_URL = 'https://openrouter.ai/api/v1/chat/completions';
 const MODEL = 'google/gemini-3-flash-preview';
 
+// Handwritten answers are evaluated server-side, page by page
+const MAX_ANSWER_PAGES = 10;
+
+// UPSC word limits by question marks
+const MARKS_OPTIONS = [
+  { marks: '10', label: '10 marks', wordLimit: '150' },
+  { marks: '15', label: '15 marks', wordLimit: '250' },
+  { marks: '20', label: '20 marks', wordLimit: '250' },
+  { marks: '125', label: 'Essay', wordLimit: '1000' },
+];
+
+const RUBRIC_LABELS = {
+  introduction: 'Introduction',
+  body: 'Body',
+  conclusion: 'Conclusion',
+  structure: 'Structure',
+  keywords: 'Keywords',
+  wordLimit: 'Word Limit',
+};
+
 export default function EssayScreen({ navigation }) {
   const { theme, isDark } = useTheme();
   const { horizontalPadding, isWeb } = useWebStyles();
   const { credits, hasEnoughCredits, useCredits: deductCredits } = useCredits();
+  const { user } = useAuth();
 
   // State management
   const [topic, setTopic] = useState('');
   const [answerText, setAnswerText] = useState('');
-  const [selectedImage, setSelectedImage] = useState(null);
+  const [selectedPages, setSelectedPages] = useState([]); // base64 JPEG per handwritten page
+  const [selectedPdf, setSelectedPdf] = useState(null); // { name, base64 }
+  const [marks, setMarks] = useState('10');
   const [wordLimit, setWordLimit] = useState('1000');
   const [isEvaluating, setIsEvaluating] = useState(false);
   const [evaluation, setEvaluation] = useState(null);
   const [showHistory, setShowHistory] = useState(false);
   const [essayHistory, setEssayHistory] = useState([]);
+  const [essayStats, setEssayStats] = useState(null);
+  const [answerEvaluation, setAnswerEvaluation] = useState(null);
+  const [answerHistory, setAnswerHistory] = useState([]);
+  const [answerStats, setAnswerStats] = useState(null);
 
   // Auto-dismiss keyboard hook handled by SmartTextInput
 
-  // Load essay history on mount
+  // Essay history comes from the server once signed in
   useEffect(() => {
     loadEssayHistory();
-  }, []);
+  }, [user?.id]);
+
+  // Handwritten evaluation history lives on the server
+  useEffect(() => {
+    loadAnswerHistory();
+  }, [user?.id]);
 
   // ... (existing helper functions: saveEssayToHistory, loadEssayHistory, handleUploadDocument) ...
   // Need to retain these if they are within the start-end range, but replace_file doesn't show them here unless I include them.
@@ -56,12 +98,31 @@ export default function EssayScreen({ navigation }) {
 
 
   const loadEssayHistory = async () => {
+    if (user?.id) {
+      const result = await fetchEssays();
+      if (result.success) {
+        setEssayHistory(result.essays);
+        setEssayStats(result.stats);
+        return;
+      }
+    }
     const history = await getEssayAttempts();
     setEssayHistory(history);
+    setEssayStats(null);
+  };
+
+  const loadAnswerHistory = async () => {
+    if (!user?.id) return;
+    const result = await fetchAnswerEvaluations(user.id);
+    if (result.success) {
+      setAnswerHistory(result.evaluations);
+      setAnswerStats(result.stats);
+    }
   };
 
   // Calculate word count
   const wordCount = answerText.trim().split(/\s+/).filter(w => w.length > 0).length;
+  const hasHandwritten = selectedPages.length > 0 || !!selectedPdf;
 
   // Handle essay evaluation - Direct OpenRouter call
   const handleEvaluate = async () => {
@@ -83,23 +144,35 @@ export default function EssayScreen({ navigation }) {
       return;
     }
 
-    if (!answerText.trim() && !selectedImage) {
+    if (!answerText.trim() && !hasHandwritten) {
       Alert.alert('Missing Essay', 'Please write your essay or upload an image');
       return;
     }
 
     // Word count check only if text is provided
-    if (answerText.trim() && wordCount < 50 && !selectedImage) {
+    if (answerText.trim() && wordCount < 50 && !hasHandwritten) {
       Alert.alert('Essay Too Short', 'Please write at least 50 words');
       return;
     }
 
+    if (hasHandwritten && !user?.id) {
+      Alert.alert('Sign In Required', 'Please sign in to evaluate handwritten answers.');
+      return;
+    }
+
+    // Handwritten answers are charged by the server
+    if (hasHandwritten) {
+      await handleEvaluateHandwritten();
+      return;
+    }
+
     // Deduct credits before starting
     const success = await deductCredits('essay_evaluation');
     if (!success) return;
 
     setIsEvaluating(true);
     setEvaluation(null);
+    setAnswerEvaluation(null);
 
     try {
       console.log('[Essay] Starting evaluation...');
@@ -110,12 +183,12 @@ export default function EssayScreen({ navigation }) {
 
 ESSAY TOPIC: "${topic.trim()}"
 
-${selectedImage ? 'The essay is provided as a handwritten image. Please transcribe it completely, then provide detailed evaluation.' : `ESSAY SUBMITTED BY CANDIDATE:
+ESSAY SUBMITTED BY CANDIDATE:
 ---
 ${answerText.trim()}
----`}
+---
 
-WORD COUNT: ${selectedImage ? 'Determine from image' : wordCount} words
+WORD COUNT: ${wordCount} words
 TARGET WORD LIMIT: ${wordLimit || 1000} words
 
 YOUR TASK: Provide an extremely detailed, world-class evaluation that helps this aspirant improve their essay writing to UPSC topper level.
@@ -124,7 +197,6 @@ Return your evaluation in this JSON format (be VERY detailed in each section):
 
 {
   "score": <number 0-100 based on UPSC marking scheme>,
-  "transcribedText": "<if image provided, include complete transcribed text, otherwise null>",
   "overallVerdict": "<One powerful sentence summarizing the essay's fate in actual UPSC exam>",
   
   "executiveSummary": "<3-4 sentences covering: What works, what doesn't, and the single most important fix needed>",
@@ -223,24 +295,7 @@ IMPORTANT: Be extremely detailed and specific. Generic feedback like "improve vo
 
 Return ONLY valid JSON, no markdown blocks or explanation.`;
 
-      // Build messages array - with vision support if image
-      let messages;
-      if (selectedImage) {
-        messages = [{
-          role: 'user',
-          content: [
-            { type: 'text', text: essayPrompt },
-            {
-              type: 'image_url',
-              image_url: {
-                url: `data:image/jpeg;base64,${selectedImage}`
-              }
-            }
-          ]
-        }];
-      } else {
-        messages = [{ role: 'user', content: essayPrompt }];
-      }
+      const messages = [{ role: 'user', content: essayPrompt }];
 
       console.log('[Essay] Sending request to OpenRouter...');
 
@@ -301,19 +356,13 @@ Return ONLY valid JSON, no markdown blocks or explanation.`;
 
       setEvaluation(evalResult);
 
-      // If OCR returned text, update the text input
-      if (evalResult.transcribedText) {
-        setAnswerText(evalResult.transcribedText);
-      }
-
-      // Save to local storage
-      await saveEssayAttempt({
+      // Save locally and to the signed-in user's essay history
+      await saveEssayToCloud({
         topic: topic.trim(),
-        answerText: evalResult.transcribedText || answerText.trim() || 'Handwritten Essay',
+        answerText: answerText.trim(),
         score: evalResult.score,
         evaluation: evalResult,
-        wordCount: evalResult.transcribedText ? evalResult.transcribedText.split(/\s+/).length : wordCount,
-        image: selectedImage ? 'stored_locally' : null
+        wordCount,
       });
 
       // Reload history
@@ -337,6 +386,78 @@ Return ONLY valid JSON, no markdown blocks or explanation.`;
     }
   };
 
+  // Handwritten answer evaluation - per-page OCR and rubric scoring on the server
+  const handleEvaluateHandwritten = async () => {
+    setIsEvaluating(true);
+    setEvaluation(null);
+    setAnswerEvaluation(null);
+
+    try {
+      const result = await evaluateHandwrittenAnswer({
+        userId: user.id,
+        question: topic.trim(),
+        marks: parseInt(marks),
+        wordLimit: parseInt(wordLimit),
+        images: selectedPages,
+        pdf: selectedPdf?.base64 || null,
+      });
+
+      if (result.creditError) {
+        showCreditErrorAlert(result.creditError, navigation);
+        return;
+      }
+
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      setAnswerEvaluation(result.evaluation);
+      await loadAnswerHistory();
+
+      Alert.alert(
+        'Evaluation Complete!',
+        `Your answer scored ${result.evaluation.score}/${result.evaluation.marks}`,
+        [{ text: 'View Results', style: 'default' }]
+      );
+    } catch (error) {
+      console.error('[Essay] Handwritten evaluation error:', error);
+      Alert.alert(
+        'Evaluation Failed',
+        error.message || 'Failed to evaluate answer. Please try again.',
+        [{ text: 'OK' }]
+      );
+    } finally {
+      setIsEvaluating(false);
+    }
+  };
+
+  const handleOpenPastEvaluation = async (evaluationId) => {
+    const result = await fetchAnswerEvaluation(user.id, evaluationId);
+    if (result.success) {
+      setEvaluation(null);
+      setAnswerEvaluation(result.evaluation);
+    } else {
+      Alert.alert('Error', result.error || 'Could not load evaluation');
+    }
+  };
+
+  const handleOpenPastEssay = async (essayId) => {
+    const result = await fetchEssay(essayId);
+    if (result.success) {
+      setAnswerEvaluation(null);
+      setTopic(result.essay.topic);
+      setAnswerText(result.essay.answerText);
+      setEvaluation(toDisplayEvaluation(result.essay, result.evaluation));
+    } else {
+      Alert.alert('Error', result.error || 'Could not load essay');
+    }
+  };
+
+  const handleMarksChange = (option) => {
+    setMarks(option.marks);
+    setWordLimit(option.wordLimit);
+  };
+
   // Handle document upload (OCR Implementation)
   const handleUploadDocument = async () => {
     try {
@@ -350,17 +471,16 @@ Return ONLY valid JSON, no markdown blocks or explanation.`;
 
       const result = await ImagePicker.launchImageLibraryAsync({
         mediaTypes: ImagePicker.MediaTypeOptions.Images,
-        allowsEditing: true,
+        allowsMultipleSelection: true,
+        selectionLimit: MAX_ANSWER_PAGES - selectedPages.length,
+        orderedSelection: true,
         quality: 0.3, // Compress image to avoid payload limits
         base64: true, // Get base64 for API
       });
 
-      if (!result.canceled && result.assets && result.assets[0].base64) {
-        setSelectedImage(result.assets[0].base64);
-        Alert.alert(
-          'Image Selected',
-          'Your handwritten essay has been attached. Click "Evaluate Essay" to transcribe and analyze it.'
-        );
+      if (!result.canceled && result.assets) {
+        const pages = result.assets.filter(asset => asset.base64).map(asset => asset.base64);
+        setSelectedPages(prev => [...prev, ...pages].slice(0, MAX_ANSWER_PAGES));
       }
     } catch (error) {
       console.error('Image picker error:', error);
@@ -368,6 +488,29 @@ Return ONLY valid JSON, no markdown blocks or explanation.`;
     }
   };
 
+  // Scanned answer booklets usually arrive as a single PDF
+  const handleUploadPdf = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: 'application/pdf',
+        copyToCacheDirectory: true,
+      });
+
+      if (result.canceled || !result.assets?.[0]) return;
+
+      const file = result.assets[0];
+      const base64 = await FileSystem.readAsStringAsync(file.uri, { encoding: 'base64' });
+      setSelectedPdf({ name: file.name || 'answer.pdf', base64 });
+    } catch (error) {
+      console.error('PDF picker error:', error);
+      Alert.alert('Error', 'Failed to read PDF');
+    }
+  };
+
+  const handleRemovePage = (index) => {
+    setSelectedPages(prev => prev.filter((_, i) => i !== index));
+  };
+
   // Clear form
   const handleClear = () => {
     Alert.alert(
@@ -382,6 +525,9 @@ Return ONLY valid JSON, no markdown blocks or explanation.`;
             setTopic('');
             setAnswerText('');
             setEvaluation(null);
+            setSelectedPages([]);
+            setSelectedPdf(null);
+            setAnswerEvaluation(null);
           },
         },
       ]
@@ -641,6 +787,235 @@ Return ONLY valid JSON, no markdown blocks or explanation.`;
     );
   };
 
+  // Render rubric evaluation of a handwritten answer
+  const renderAnswerEvaluation = () => {
+    if (!answerEvaluation) return null;
+
+    const percent = Math.round((answerEvaluation.score / answerEvaluation.marks) * 100);
+
+    return (
+      <View style={styles.evaluationSection}>
+        {/* Score Card */}
+        <View style={[styles.scoreCard, { backgroundColor: theme.colors.surface }]}>
+          {renderScoreBadge(percent)}
+          <Text style={[styles.examinerRemark, { color: theme.colors.text }]}>
+            {answerEvaluation.score}/{answerEvaluation.marks} marks · {answerEvaluation.wordCount} words · {answerEvaluation.pageCount} page{answerEvaluation.pageCount === 1 ? '' : 's'}
+          </Text>
+          {!!answerEvaluation.examinerRemark && (
+            <Text style={[styles.executiveSummary, { color: theme.colors.textSecondary }]}>
+              {answerEvaluation.examinerRemark}
+            </Text>
+          )}
+        </View>
+
+        {/* Rubric */}
+        <View style={[styles.feedbackCard, { backgroundColor: theme.colors.surface }]}>
+          <View style={styles.feedbackHeader}>
+            <Ionicons name="podium" size={20} color="#6366F1" />
+            <Text style={[styles.feedbackTitle, { color: theme.colors.text }]}>Rubric</Text>
+          </View>
+          {Object.entries(RUBRIC_LABELS).map(([key, label]) => {
+            const item = answerEvaluation.rubric?.[key];
+            if (!item) return null;
+            const fill = item.maxScore > 0 ? item.score / item.maxScore : 0;
+
+            return (
+              <View key={key} style={styles.rubricRow}>
+                <View style={styles.rubricLabelRow}>
+                  <Text style={[styles.rubricLabel, { color: theme.colors.text }]}>{label}</Text>
+                  <Text style={[styles.rubricScore, { color: theme.colors.primary }]}>{item.score}/{item.maxScore}</Text>
+                </View>
+                <View style={[styles.rubricTrack, { backgroundColor: theme.colors.border }]}>
+                  <View
+                    style={[
+                      styles.rubricFill,
+                      {
+                        width: `${Math.round(fill * 100)}%`,
+                        backgroundColor: fill >= 0.6 ? '#34C759' : fill >= 0.4 ? '#FF9500' : '#FF3B30',
+                      },
+                    ]}
+                  />
+                </View>
+                <Text style={[styles.feedbackItem, { color: theme.colors.textSecondary }]}>{item.feedback}</Text>
+              </View>
+            );
+          })}
+        </View>
+
+        {/* Keywords */}
+        {(answerEvaluation.keywordsUsed?.length > 0 || answerEvaluation.keywordsMissed?.length > 0) && (
+          <View style={[styles.feedbackCard, { backgroundColor: theme.colors.surface }]}>
+            <View style={styles.feedbackHeader}>
+              <Ionicons name="key" size={20} color="#10B981" />
+              <Text style={[styles.feedbackTitle, { color: theme.colors.text }]}>Keywords</Text>
+            </View>
+            <View style={styles.keywordRow}>
+              {(answerEvaluation.keywordsUsed || []).map((keyword, i) => (
+                <View key={`used-${i}`} style={[styles.keywordChip, { backgroundColor: '#34C75920' }]}>
+                  <Text style={[styles.keywordText, { color: '#34C759' }]}>✓ {keyword}</Text>
+                </View>
+              ))}
+              {(answerEvaluation.keywordsMissed || []).map((keyword, i) => (
+                <View key={`missed-${i}`} style={[styles.keywordChip, { backgroundColor: '#FF3B3020' }]}>
+                  <Text style={[styles.keywordText, { color: '#FF3B30' }]}>+ {keyword}</Text>
+                </View>
+              ))}
+            </View>
+          </View>
+        )}
+
+        {/* Annotated Pages */}
+        {(answerEvaluation.pages || []).map((page) => (
+          <View key={page.page} style={[styles.feedbackCard, { backgroundColor: theme.colors.surface }]}>
+            <View style={styles.feedbackHeader}>
+              <Ionicons name="document" size={20} color="#3B82F6" />
+              <Text style={[styles.feedbackTitle, { color: theme.colors.text }]}>Page {page.page}</Text>
+            </View>
+            <Text style={[styles.rewrittenText, { color: theme.colors.text }]}>{page.text}</Text>
+            {(page.annotations || []).map((annotation, i) => (
+              <View
+                key={i}
+                style={[styles.annotation, { borderLeftColor: annotation.type === 'positive' ? '#34C759' : '#FF9500' }]}
+              >
+                <Text style={[styles.annotationExcerpt, { color: theme.colors.textSecondary }]}>"{annotation.excerpt}"</Text>
+                <Text style={[styles.feedbackItem, { color: theme.colors.text }]}>{annotation.comment}</Text>
+              </View>
+            ))}
+          </View>
+        ))}
+
+        {/* Improvement Plan */}
+        {answerEvaluation.improvementPlan?.length > 0 && (
+          <View style={[styles.feedbackCard, { backgroundColor: theme.colors.surface }]}>
+            <View style={styles.feedbackHeader}>
+              <Ionicons name="rocket" size={20} color="#F59E0B" />
+              <Text style={[styles.feedbackTitle, { color: theme.colors.text }]}>Improvement Plan</Text>
+            </View>
+            {answerEvaluation.improvementPlan.map((item, index) => (
+              <Text key={index} style={[styles.feedbackItem, { color: theme.colors.text }]}>
+                • {item}
+              </Text>
+            ))}
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  // Render score history and trend for typed essays
+  const renderEssayHistory = () => {
+    if (!essayStats || essayStats.count === 0) return null;
+
+    const trendColor = essayStats.trend > 0 ? '#34C759' : essayStats.trend < 0 ? '#FF3B30' : theme.colors.textSecondary;
+
+    return (
+      <View style={[styles.feedbackCard, { backgroundColor: theme.colors.surface }]}>
+        <View style={styles.feedbackHeader}>
+          <Ionicons name="document-text" size={20} color={theme.colors.primary} />
+          <Text style={[styles.feedbackTitle, { color: theme.colors.text }]}>Essay History</Text>
+        </View>
+
+        <View style={styles.statsRow}>
+          <View style={styles.statItem}>
+            <Text style={[styles.statValue, { color: theme.colors.text }]}>{essayStats.count}</Text>
+            <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>Essays</Text>
+          </View>
+          <View style={styles.statItem}>
+            <Text style={[styles.statValue, { color: theme.colors.text }]}>{essayStats.averageScore}</Text>
+            <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>Average</Text>
+          </View>
+          <View style={styles.statItem}>
+            <Text style={[styles.statValue, { color: theme.colors.text }]}>{essayStats.bestScore}</Text>
+            <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>Best</Text>
+          </View>
+          <View style={styles.statItem}>
+            <Text style={[styles.statValue, { color: trendColor }]}>
+              {essayStats.trend > 0 ? '+' : ''}{essayStats.trend}
+            </Text>
+            <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>Trend</Text>
+          </View>
+        </View>
+
+        {essayHistory.slice(0, 5).map((item) => (
+          <TouchableOpacity
+            key={item.id}
+            style={[styles.historyItem, { borderTopColor: theme.colors.border }]}
+            onPress={() => handleOpenPastEssay(item.id)}
+          >
+            <View style={{ flex: 1 }}>
+              <Text style={[styles.historyQuestion, { color: theme.colors.text }]} numberOfLines={2}>{item.topic}</Text>
+              <Text style={[styles.historyMeta, { color: theme.colors.textSecondary }]}>
+                {new Date(item.createdAt).toLocaleDateString()} · {item.wordCount} words
+              </Text>
+            </View>
+            <Text style={[styles.historyScore, { color: theme.colors.primary }]}>{item.score}/100</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    );
+  };
+
+  // Render score history and trend for handwritten answers
+  const renderAnswerHistory = () => {
+    if (!answerStats || answerStats.count === 0) return null;
+
+    const weakest = Object.entries(answerStats.criterionAverages || {})
+      .sort(([, a], [, b]) => a - b)[0];
+    const trendColor = answerStats.trend > 0 ? '#34C759' : answerStats.trend < 0 ? '#FF3B30' : theme.colors.textSecondary;
+
+    return (
+      <View style={[styles.feedbackCard, { backgroundColor: theme.colors.surface }]}>
+        <View style={styles.feedbackHeader}>
+          <Ionicons name="trending-up" size={20} color={theme.colors.primary} />
+          <Text style={[styles.feedbackTitle, { color: theme.colors.text }]}>Your Progress</Text>
+        </View>
+
+        <View style={styles.statsRow}>
+          <View style={styles.statItem}>
+            <Text style={[styles.statValue, { color: theme.colors.text }]}>{answerStats.count}</Text>
+            <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>Answers</Text>
+          </View>
+          <View style={styles.statItem}>
+            <Text style={[styles.statValue, { color: theme.colors.text }]}>{answerStats.averagePercent}%</Text>
+            <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>Average</Text>
+          </View>
+          <View style={styles.statItem}>
+            <Text style={[styles.statValue, { color: theme.colors.text }]}>{answerStats.bestPercent}%</Text>
+            <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>Best</Text>
+          </View>
+          <View style={styles.statItem}>
+            <Text style={[styles.statValue, { color: trendColor }]}>
+              {answerStats.trend > 0 ? '+' : ''}{answerStats.trend}%
+            </Text>
+            <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>Trend</Text>
+          </View>
+        </View>
+
+        {weakest && (
+          <Text style={[styles.feedbackItem, { color: theme.colors.text }]}>
+            Focus area: {RUBRIC_LABELS[weakest[0]] || weakest[0]} ({weakest[1]}% on average)
+          </Text>
+        )}
+
+        {answerHistory.slice(0, 5).map((item) => (
+          <TouchableOpacity
+            key={item.id}
+            style={[styles.historyItem, { borderTopColor: theme.colors.border }]}
+            onPress={() => handleOpenPastEvaluation(item.id)}
+          >
+            <View style={{ flex: 1 }}>
+              <Text style={[styles.historyQuestion, { color: theme.colors.text }]} numberOfLines={2}>{item.question}</Text>
+              <Text style={[styles.historyMeta, { color: theme.colors.textSecondary }]}>
+                {new Date(item.createdAt).toLocaleDateString()} · {item.score}/{item.marks} marks
+              </Text>
+            </View>
+            <Text style={[styles.historyScore, { color: theme.colors.primary }]}>{item.percent}%</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    );
+  };
+
 
   return (
     <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
@@ -685,11 +1060,40 @@ Return ONLY valid JSON, no markdown blocks or explanation.`;
           </View>
         </View>
 
+        {/* Marks Selection - drives the rubric for handwritten answers */}
+        {hasHandwritten && (
+          <View style={styles.section}>
+            <Text style={[styles.sectionLabel, { color: theme.colors.textSecondary }]}>QUESTION MARKS</Text>
+            <View style={styles.optionRow}>
+              {MARKS_OPTIONS.map((option) => (
+                <TouchableOpacity
+                  key={option.marks}
+                  style={[
+                    styles.optionChip,
+                    { backgroundColor: isDark ? '#2A2A2E' : '#F5F5F5', borderColor: theme.colors.border },
+                    marks === option.marks && { backgroundColor: theme.colors.primary, borderColor: theme.colors.primary }
+                  ]}
+                  onPress={() => handleMarksChange(option)}
+                  disabled={isEvaluating}
+                >
+                  <Text style={[
+                    styles.optionText,
+                    { color: theme.colors.text },
+                    marks === option.marks && { color: '#fff', fontWeight: '600' }
+                  ]}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+        )}
+
         {/* Word Limit Selection */}
         <View style={styles.section}>
           <Text style={[styles.sectionLabel, { color: theme.colors.textSecondary }]}>TARGET WORD LIMIT</Text>
           <View style={styles.optionRow}>
-            {['250', '500', '750', '1000', '1250'].map((limit) => (
+            {['150', '250', '500', '750', '1000', '1250'].map((limit) => (
               <TouchableOpacity
                 key={limit}
                 style={[
@@ -716,24 +1120,43 @@ Return ONLY valid JSON, no markdown blocks or explanation.`;
         <View style={styles.section}>
           <Text style={[styles.sectionLabel, { color: theme.colors.textSecondary }]}>YOUR ESSAY (HANDWRITTEN)</Text>
 
-          {/* Image Upload / Preview */}
-          {selectedImage ? (
+          {/* Page Previews */}
+          {hasHandwritten && (
             <View style={[styles.imagePreviewContainer, { backgroundColor: theme.colors.surface }]}>
-              <Image
-                source={{ uri: `data:image/jpeg;base64,${selectedImage}` }}
-                style={styles.imagePreview}
-                resizeMode="contain"
-              />
+              {selectedPages.length > 0 && (
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.pageStrip}>
+                  {selectedPages.map((page, index) => (
+                    <View key={index} style={styles.pageThumb}>
+                      <Image
+                        source={{ uri: `data:image/jpeg;base64,${page}` }}
+                        style={styles.pageThumbImage}
+                        resizeMode="cover"
+                      />
+                      <Text style={styles.pageNumber}>{index + 1}</Text>
+                      <TouchableOpacity
+                        style={styles.pageRemove}
+                        onPress={() => handleRemovePage(index)}
+                        disabled={isEvaluating}
+                      >
+                        <Ionicons name="close" size={14} color="#FFFFFF" />
+                      </TouchableOpacity>
+                    </View>
+                  ))}
+                </ScrollView>
+              )}
               <View style={[styles.imageActions, { backgroundColor: theme.colors.surface }]}>
                 <View style={styles.imageAttachedRow}>
                   <Ionicons name="checkmark-circle" size={18} color="#10B981" />
-                  <Text style={[styles.imageAttachedText, { color: '#10B981' }]}>
-                    Handwritten Essay Attached
+                  <Text style={[styles.imageAttachedText, { color: '#10B981' }]} numberOfLines={1}>
+                    {selectedPdf ? selectedPdf.name : `${selectedPages.length} page${selectedPages.length === 1 ? '' : 's'} attached`}
                   </Text>
                 </View>
                 <TouchableOpacity
                   style={styles.removeImageButton}
-                  onPress={() => setSelectedImage(null)}
+                  onPress={() => {
+                    setSelectedPages([]);
+                    setSelectedPdf(null);
+                  }}
                   disabled={isEvaluating}
                 >
                   <Ionicons name="close" size={16} color="#FF3B30" />
@@ -741,7 +1164,9 @@ Return ONLY valid JSON, no markdown blocks or explanation.`;
                 </TouchableOpacity>
               </View>
             </View>
-          ) : (
+          )}
+
+          {!selectedPdf && selectedPages.length < MAX_ANSWER_PAGES && (
             <TouchableOpacity
               style={[styles.uploadButton, { backgroundColor: isDark ? '#2A2A2E' : '#F8F9FA', borderColor: theme.colors.border }]}
               onPress={handleUploadDocument}
@@ -751,7 +1176,23 @@ Return ONLY valid JSON, no markdown blocks or explanation.`;
                 <Ionicons name="camera-outline" size={22} color={theme.colors.primary} />
               </View>
               <Text style={[styles.uploadText, { color: theme.colors.text }]}>
-                Upload / Scan Handwritten Essay
+                {selectedPages.length > 0 ? 'Add More Pages' : 'Upload / Scan Handwritten Pages'}
+              </Text>
+              <Ionicons name="chevron-forward" size={18} color={theme.colors.textSecondary} />
+            </TouchableOpacity>
+          )}
+
+          {!hasHandwritten && (
+            <TouchableOpacity
+              style={[styles.uploadButton, { backgroundColor: isDark ? '#2A2A2E' : '#F8F9FA', borderColor: theme.colors.border, marginTop: 10 }]}
+              onPress={handleUploadPdf}
+              disabled={isEvaluating}
+            >
+              <View style={[styles.uploadIconBg, { backgroundColor: theme.colors.primary + '15' }]}>
+                <Ionicons name="document-attach-outline" size={22} color={theme.colors.primary} />
+              </View>
+              <Text style={[styles.uploadText, { color: theme.colors.text }]}>
+                Upload Answer Booklet (PDF)
               </Text>
               <Ionicons name="chevron-forward" size={18} color={theme.colors.textSecondary} />
             </TouchableOpacity>
@@ -772,11 +1213,11 @@ Return ONLY valid JSON, no markdown blocks or explanation.`;
           <TouchableOpacity
             style={[
               styles.evaluateButton,
-              { backgroundColor: (!topic || (!answerText && !selectedImage) || isEvaluating) ? '#C7C7CC' : theme.colors.primary }
+              { backgroundColor: (!topic || (!answerText && !hasHandwritten) || isEvaluating) ? '#C7C7CC' : theme.colors.primary }
             ]}
             activeOpacity={0.8}
             onPress={handleEvaluate}
-            disabled={!topic || (!answerText && !selectedImage) || isEvaluating}
+            disabled={!topic || (!answerText && !hasHandwritten) || isEvaluating}
           >
             {isEvaluating ? (
               <>
@@ -786,7 +1227,7 @@ Return ONLY valid JSON, no markdown blocks or explanation.`;
             ) : (
               <>
                 <Ionicons name="analytics-outline" size={20} color="#FFFFFF" />
-                <Text style={styles.buttonText}>Evaluate Essay</Text>
+                <Text style={styles.buttonText}>{hasHandwritten ? 'Evaluate Answer' : 'Evaluate Essay'}</Text>
               </>
             )}
           </TouchableOpacity>
@@ -794,9 +1235,16 @@ Return ONLY valid JSON, no markdown blocks or explanation.`;
 
         {/* Evaluation Results */}
         {renderEvaluation()}
+        {renderAnswerEvaluation()}
+
+        {/* Essay History */}
+        {renderEssayHistory()}
+
+        {/* Handwritten Answer History */}
+        {renderAnswerHistory()}
 
         {/* Info Card */}
-        {!evaluation && (
+        {!evaluation && !answerEvaluation && (
           <View style={[styles.infoCard, { backgroundColor: isDark ? '#1E293B' : '#F0F9FF', borderColor: isDark ? '#334155' : '#BAE6FD' }]}>
             <View style={styles.infoHeader}>
               <View style={[styles.infoIconBg, { backgroundColor: '#3B82F615' }]}>
@@ -810,6 +1258,7 @@ Return ONLY valid JSON, no markdown blocks or explanation.`;
                 'Get AI-powered evaluation with detailed feedback',
                 'Receive a score out of 100 based on UPSC standards',
                 'Get specific improvement suggestions',
+                'Upload up to 10 handwritten pages or a PDF for rubric scoring with page-by-page comments',
                 'All evaluations are saved locally on your device'
               ].map((item, index) => (
                 <View key={index} style={styles.infoItem}>
@@ -1161,12 +1610,42 @@ const styles = StyleSheet.create({
     shadowOpacity: 0.06,
     shadowRadius: 8,
     elevation: 2,
+    marginBottom: 10,
   },
-  imagePreview: {
-    width: '100%',
-    height: 200,
+  pageStrip: {
+    padding: 12,
+  },
+  pageThumb: {
+    width: 90,
+    height: 120,
+    borderRadius: 8,
+    overflow: 'hidden',
+    marginRight: 10,
     backgroundColor: '#1A1A1A',
   },
+  pageThumbImage: {
+    width: '100%',
+    height: '100%',
+  },
+  pageNumber: {
+    position: 'absolute',
+    bottom: 4,
+    left: 6,
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#FFFFFF',
+  },
+  pageRemove: {
+    position: 'absolute',
+    top: 4,
+    right: 4,
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(0,0,0,0.6)',
+  },
   imageActions: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -1196,4 +1675,92 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#FF3B30',
   },
+  // Rubric evaluation
+  rubricRow: {
+    marginBottom: 14,
+  },
+  rubricLabelRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 6,
+  },
+  rubricLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  rubricScore: {
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  rubricTrack: {
+    height: 6,
+    borderRadius: 3,
+    overflow: 'hidden',
+    marginBottom: 6,
+  },
+  rubricFill: {
+    height: '100%',
+    borderRadius: 3,
+  },
+  keywordRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  keywordChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 12,
+  },
+  keywordText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  annotation: {
+    borderLeftWidth: 3,
+    paddingLeft: 10,
+    marginTop: 10,
+  },
+  annotationExcerpt: {
+    fontSize: 13,
+    fontStyle: 'italic',
+    marginBottom: 2,
+  },
+  // Progress history
+  statsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  statItem: {
+    alignItems: 'center',
+    flex: 1,
+  },
+  statValue: {
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  statLabel: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  historyItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderTopWidth: StyleSheet.hairlineWidth,
+    paddingVertical: 10,
+    gap: 12,
+  },
+  historyQuestion: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  historyMeta: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  historyScore: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
 });
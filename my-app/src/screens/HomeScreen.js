@@ -134,6 +134,15 @@ export default function HomeScreen({ navigation }) {
       gradient: ['#F59E0B', '#D97706'],
       screen: 'QuestionSetList',
     },
+    // 8. Mains Answer Writing
+    {
+      id: 'mains',
+      icon: 'pencil-outline',
+      title: 'Answer Writing',
+      desc: 'Daily Mains questions',
+      gradient: ['#14B8A6', '#0D9488'],
+      screen: 'MainsPractice',
+    },
     // ========== COMING SOON FEATURES ==========
     {
       id: 'bank',
@@ -0,0 +1,820 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  RefreshControl,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../features/Reference/theme/ThemeContext';
+import { useWebStyles } from '../components/WebContainer';
+import { useAuth } from '../context/AuthContext';
+import { showCreditErrorAlert } from '../hooks/useCreditCheck';
+import {
+  fetchDailyMainsQuestions,
+  submitMainsAnswer,
+  fetchMainsAnswers,
+  fetchMainsAnswer,
+} from '../services/mainsPracticeApi';
+
+const PAPER_LABELS = {
+  GS1: 'GS Paper I · History, Geography & Society',
+  GS2: 'GS Paper II · Polity, Governance & IR',
+  GS3: 'GS Paper III · Economy, Environment & S&T',
+  GS4: 'GS Paper IV · Ethics',
+};
+
+const RUBRIC_LABELS = {
+  introduction: 'Introduction',
+  body: 'Body',
+  conclusion: 'Conclusion',
+  structure: 'Structure',
+  keywords: 'Keywords',
+  wordLimit: 'Word Limit',
+};
+
+const formatDate = (date) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-IN', { weekday: 'short', day: 'numeric', month: 'short' });
+
+const formatClock = (totalSeconds) => {
+  const seconds = Math.abs(totalSeconds);
+  return `${totalSeconds < 0 ? '+' : ''}${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const countWords = (text) => text.trim().split(/\s+/).filter(w => w.length > 0).length;
+
+export default function MainsPracticeScreen({ route, navigation }) {
+  const { theme } = useTheme();
+  const { horizontalPadding } = useWebStyles();
+  const { user } = useAuth();
+
+  const [selectedDate, setSelectedDate] = useState(route.params?.date || null);
+  const [day, setDay] = useState(null); // { date, questions }
+  const [availableDates, setAvailableDates] = useState([]);
+  const [history, setHistory] = useState([]);
+  const [stats, setStats] = useState(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState(null);
+
+  // Writing mode
+  const [activeQuestion, setActiveQuestion] = useState(null);
+  const [answerText, setAnswerText] = useState('');
+  const [elapsedSeconds, setElapsedSeconds] = useState(0);
+  const [submitting, setSubmitting] = useState(false);
+  const startedAtRef = useRef(null);
+
+  // Result mode: { answer, question }
+  const [result, setResult] = useState(null);
+
+  const loadQuestions = useCallback(async () => {
+    const [daily, answers] = await Promise.all([
+      fetchDailyMainsQuestions(selectedDate),
+      user?.id ? fetchMainsAnswers() : Promise.resolve(null),
+    ]);
+
+    if (daily.success) {
+      setDay({ date: daily.date, questions: daily.questions });
+      setAvailableDates(daily.availableDates);
+      setError(null);
+    } else {
+      setError(daily.error);
+    }
+
+    if (answers?.success) {
+      setHistory(answers.answers);
+      setStats(answers.stats);
+    }
+
+    setLoading(false);
+    setRefreshing(false);
+  }, [selectedDate, user?.id]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadQuestions();
+  }, [loadQuestions]);
+
+  // Exam clock while writing
+  useEffect(() => {
+    if (!activeQuestion) return undefined;
+    const timer = setInterval(() => {
+      setElapsedSeconds(Math.floor((Date.now() - startedAtRef.current) / 1000));
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [activeQuestion]);
+
+  const handleRefresh = () => {
+    setRefreshing(true);
+    loadQuestions();
+  };
+
+  const openAnswer = async (answerId) => {
+    const response = await fetchMainsAnswer(answerId);
+    if (response.success) {
+      setResult({ answer: response.answer, question: response.question });
+    } else {
+      Alert.alert('Error', response.error || 'Could not load your answer');
+    }
+  };
+
+  const startWriting = (question) => {
+    if (question.attempt) {
+      openAnswer(question.attempt.id);
+      return;
+    }
+
+    if (!user?.id) {
+      Alert.alert('Sign In Required', 'Please sign in to practise answer writing.');
+      return;
+    }
+
+    startedAtRef.current = Date.now();
+    setElapsedSeconds(0);
+    setAnswerText('');
+    setActiveQuestion(question);
+  };
+
+  const leaveWriting = () => {
+    if (!answerText.trim()) {
+      setActiveQuestion(null);
+      return;
+    }
+    Alert.alert('Discard answer?', 'Your answer has not been submitted.', [
+      { text: 'Keep Writing', style: 'cancel' },
+      { text: 'Discard', style: 'destructive', onPress: () => setActiveQuestion(null) },
+    ]);
+  };
+
+  const handleSubmit = async () => {
+    if (countWords(answerText) < 20) {
+      Alert.alert('Answer Too Short', 'Please write at least 20 words.');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const response = await submitMainsAnswer({
+        questionId: activeQuestion.id,
+        answerText: answerText.trim(),
+        timeTakenSeconds: elapsedSeconds,
+      });
+
+      if (response.creditError) {
+        showCreditErrorAlert(response.creditError, navigation);
+        return;
+      }
+
+      if (!response.success) {
+        throw new Error(response.error);
+      }
+
+      setActiveQuestion(null);
+      setResult({ answer: response.answer, question: response.question });
+      loadQuestions();
+    } catch (submitError) {
+      console.error('[Mains] Submit error:', submitError);
+      Alert.alert('Evaluation Failed', submitError.message || 'Failed to evaluate your answer. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const renderHeader = (title, onBack) => (
+    <View style={[styles.header, { paddingHorizontal: horizontalPadding || 20 }]}>
+      <TouchableOpacity style={styles.backBtn} onPress={onBack}>
+        <Ionicons name="arrow-back" size={24} color={theme.colors.text} />
+      </TouchableOpacity>
+      <Text style={[styles.headerTitle, { color: theme.colors.text }]}>{title}</Text>
+      <View style={{ width: 40 }} />
+    </View>
+  );
+
+  const renderQuestionMeta = (question) => (
+    <View style={styles.metaRow}>
+      <View style={[styles.directiveChip, { backgroundColor: theme.colors.primary + '20' }]}>
+        <Text style={[styles.directiveChipText, { color: theme.colors.primary }]}>{question.directiveLabel}</Text>
+      </View>
+      <Text style={[styles.metaText, { color: theme.colors.textSecondary }]}>
+        {question.marks} marks · {question.wordLimit} words · {question.timeLimitMinutes} min
+      </Text>
+    </View>
+  );
+
+  // ==================== Writing ====================
+
+  const renderWriting = () => {
+    const remaining = activeQuestion.timeLimitMinutes * 60 - elapsedSeconds;
+    const words = countWords(answerText);
+    const overLimit = words > activeQuestion.wordLimit * 1.1;
+
+    return (
+      <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
+        {renderHeader(activeQuestion.gsPaper, leaveWriting)}
+
+        <KeyboardAvoidingView style={{ flex: 1 }} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+          <ScrollView
+            style={styles.scrollView}
+            contentContainerStyle={{ paddingHorizontal: horizontalPadding || 20, paddingBottom: 32 }}
+            keyboardShouldPersistTaps="handled"
+          >
+            <View style={[styles.card, { backgroundColor: theme.colors.surface }]}>
+              <Text style={[styles.questionText, { color: theme.colors.text }]}>{activeQuestion.question}</Text>
+              {renderQuestionMeta(activeQuestion)}
+              <Text style={[styles.directiveMeaning, { color: theme.colors.textSecondary }]}>
+                {activeQuestion.directiveLabel}: {activeQuestion.directiveMeaning}
+              </Text>
+            </View>
+
+            <View style={styles.writingStats}>
+              <View style={styles.writingStat}>
+                <Ionicons name="timer-outline" size={18} color={remaining < 0 ? '#FF3B30' : theme.colors.text} />
+                <Text style={[styles.writingStatText, { color: remaining < 0 ? '#FF3B30' : theme.colors.text }]}>
+                  {formatClock(remaining)}
+                </Text>
+              </View>
+              <Text style={[styles.writingStatText, { color: overLimit ? '#FF9500' : theme.colors.textSecondary }]}>
+                {words} / {activeQuestion.wordLimit} words
+              </Text>
+            </View>
+
+            <TextInput
+              style={[
+                styles.answerInput,
+                { backgroundColor: theme.colors.surface, color: theme.colors.text, borderColor: theme.colors.border },
+              ]}
+              value={answerText}
+              onChangeText={setAnswerText}
+              placeholder="Write your answer: introduction, body with sub-points, conclusion..."
+              placeholderTextColor={theme.colors.textSecondary}
+              multiline
+              textAlignVertical="top"
+              editable={!submitting}
+            />
+
+            <TouchableOpacity
+              style={[styles.primaryButton, { backgroundColor: theme.colors.primary, opacity: submitting ? 0.7 : 1 }]}
+              onPress={handleSubmit}
+              disabled={submitting}
+            >
+              {submitting ? (
+                <ActivityIndicator color="#FFF" />
+              ) : (
+                <Text style={styles.primaryButtonText}>Submit for Evaluation</Text>
+              )}
+            </TouchableOpacity>
+          </ScrollView>
+        </KeyboardAvoidingView>
+      </SafeAreaView>
+    );
+  };
+
+  // ==================== Result ====================
+
+  const renderResult = () => {
+    const { answer, question } = result;
+    const scorePercent = question.marks > 0 ? Math.round((answer.score / question.marks) * 100) : 0;
+
+    return (
+      <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
+        {renderHeader('Your Evaluation', () => setResult(null))}
+
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={{ paddingHorizontal: horizontalPadding || 20, paddingBottom: 32 }}
+          showsVerticalScrollIndicator={false}
+        >
+          <View style={[styles.card, { backgroundColor: theme.colors.surface }]}>
+            <Text style={[styles.questionText, { color: theme.colors.text }]}>{question.question}</Text>
+            {renderQuestionMeta(question)}
+            <View style={styles.scoreRow}>
+              <Text style={[styles.scoreValue, { color: theme.colors.primary }]}>{answer.score}/{question.marks}</Text>
+              <Text style={[styles.metaText, { color: theme.colors.textSecondary }]}>
+                {scorePercent}% · {answer.wordCount} words
+                {answer.timeTakenSeconds != null ? ` · ${Math.round(answer.timeTakenSeconds / 60)} min` : ''}
+              </Text>
+            </View>
+            {!!answer.examinerRemark && (
+              <Text style={[styles.bodyText, { color: theme.colors.text }]}>{answer.examinerRemark}</Text>
+            )}
+          </View>
+
+          {/* Directive */}
+          <View style={[styles.card, { backgroundColor: theme.colors.surface }]}>
+            <View style={styles.cardHeader}>
+              <Ionicons
+                name={answer.directiveAddressed ? 'checkmark-circle' : 'alert-circle'}
+                size={20}
+                color={answer.directiveAddressed ? '#34C759' : '#FF9500'}
+              />
+              <Text style={[styles.cardTitle, { color: theme.colors.text }]}>
+                {answer.directiveAddressed ? `You did "${question.directiveLabel}"` : `Missed "${question.directiveLabel}"`}
+              </Text>
+            </View>
+            <Text style={[styles.bodyText, { color: theme.colors.text }]}>{answer.directiveFeedback}</Text>
+          </View>
+
+          {/* Rubric */}
+          <View style={[styles.card, { backgroundColor: theme.colors.surface }]}>
+            <View style={styles.cardHeader}>
+              <Ionicons name="bar-chart" size={20} color={theme.colors.primary} />
+              <Text style={[styles.cardTitle, { color: theme.colors.text }]}>Rubric</Text>
+            </View>
+            {Object.entries(answer.rubric || {}).map(([key, item]) => {
+              const fill = item.maxScore > 0 ? item.score / item.maxScore : 0;
+              return (
+                <View key={key} style={styles.rubricRow}>
+                  <View style={styles.rubricLabelRow}>
+                    <Text style={[styles.rubricLabel, { color: theme.colors.text }]}>{RUBRIC_LABELS[key] || key}</Text>
+                    <Text style={[styles.rubricScore, { color: theme.colors.primary }]}>{item.score}/{item.maxScore}</Text>
+                  </View>
+                  <View style={[styles.rubricTrack, { backgroundColor: theme.colors.border }]}>
+                    <View
+                      style={[
+                        styles.rubricFill,
+                        {
+                          width: `${Math.round(fill * 100)}%`,
+                          backgroundColor: fill >= 0.6 ? '#34C759' : fill >= 0.4 ? '#FF9500' : '#FF3B30',
+                        },
+                      ]}
+                    />
+                  </View>
+                  {!!item.feedback && (
+                    <Text style={[styles.feedbackText, { color: theme.colors.textSecondary }]}>{item.feedback}</Text>
+                  )}
+                </View>
+              );
+            })}
+          </View>
+
+          {/* Key points */}
+          {(answer.keyPointsCovered?.length > 0 || answer.keyPointsMissed?.length > 0) && (
+            <View style={[styles.card, { backgroundColor: theme.colors.surface }]}>
+              <View style={styles.cardHeader}>
+                <Ionicons name="list" size={20} color="#10B981" />
+                <Text style={[styles.cardTitle, { color: theme.colors.text }]}>Key Points</Text>
+              </View>
+              {(answer.keyPointsCovered || []).map((point, i) => (
+                <Text key={`covered-${i}`} style={[styles.bodyText, { color: '#34C759' }]}>✓ {point}</Text>
+              ))}
+              {(answer.keyPointsMissed || []).map((point, i) => (
+                <Text key={`missed-${i}`} style={[styles.bodyText, { color: '#FF3B30' }]}>✗ {point}</Text>
+              ))}
+            </View>
+          )}
+
+          {/* Improvement plan */}
+          {answer.improvementPlan?.length > 0 && (
+            <View style={[styles.card, { backgroundColor: theme.colors.surface }]}>
+              <View style={styles.cardHeader}>
+                <Ionicons name="rocket" size={20} color="#F59E0B" />
+                <Text style={[styles.cardTitle, { color: theme.colors.text }]}>Improvement Plan</Text>
+              </View>
+              {answer.improvementPlan.map((item, i) => (
+                <Text key={i} style={[styles.bodyText, { color: theme.colors.text }]}>• {item}</Text>
+              ))}
+            </View>
+          )}
+
+          {/* Model answer, revealed after submission */}
+          {!!question.modelAnswer && (
+            <View style={[styles.card, { backgroundColor: theme.colors.surface }]}>
+              <View style={styles.cardHeader}>
+                <Ionicons name="school" size={20} color="#8B5CF6" />
+                <Text style={[styles.cardTitle, { color: theme.colors.text }]}>Model Answer</Text>
+              </View>
+              <Text style={[styles.bodyText, { color: theme.colors.text }]}>{question.modelAnswer}</Text>
+            </View>
+          )}
+
+          <View style={[styles.card, { backgroundColor: theme.colors.surface }]}>
+            <View style={styles.cardHeader}>
+              <Ionicons name="create" size={20} color={theme.colors.textSecondary} />
+              <Text style={[styles.cardTitle, { color: theme.colors.text }]}>Your Answer</Text>
+            </View>
+            <Text style={[styles.bodyText, { color: theme.colors.text }]}>{answer.answerText}</Text>
+          </View>
+        </ScrollView>
+      </SafeAreaView>
+    );
+  };
+
+  // ==================== Daily list ====================
+
+  const renderDateChips = () => (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.dateChips}>
+      {availableDates.map((date) => {
+        const isSelected = day?.date === date;
+        return (
+          <TouchableOpacity
+            key={date}
+            style={[
+              styles.dateChip,
+              { backgroundColor: isSelected ? theme.colors.primary : theme.colors.surface, borderColor: theme.colors.border },
+            ]}
+            onPress={() => setSelectedDate(date)}
+          >
+            <Text style={[styles.dateChipText, { color: isSelected ? '#FFF' : theme.colors.text }]}>
+              {formatDate(date)}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </ScrollView>
+  );
+
+  const renderQuestionCard = (question) => (
+    <TouchableOpacity
+      key={question.id}
+      style={[styles.card, { backgroundColor: theme.colors.surface }]}
+      onPress={() => startWriting(question)}
+    >
+      <Text style={[styles.paperLabel, { color: theme.colors.textSecondary }]}>
+        {PAPER_LABELS[question.gsPaper] || question.gsPaper}
+      </Text>
+      <Text style={[styles.questionText, { color: theme.colors.text }]}>{question.question}</Text>
+      {renderQuestionMeta(question)}
+      <View style={styles.cardFooter}>
+        {question.attempt ? (
+          <Text style={[styles.footerText, { color: '#34C759' }]}>
+            Answered · {question.attempt.score}/{question.marks} · View model answer
+          </Text>
+        ) : (
+          <Text style={[styles.footerText, { color: theme.colors.primary }]}>Start timed answer</Text>
+        )}
+        <Ionicons name="chevron-forward" size={18} color={theme.colors.textSecondary} />
+      </View>
+    </TouchableOpacity>
+  );
+
+  const renderProgress = () => {
+    if (!stats || stats.count === 0) return null;
+
+    const trendColor = stats.trend > 0 ? '#34C759' : stats.trend < 0 ? '#FF3B30' : theme.colors.textSecondary;
+
+    return (
+      <View style={[styles.card, { backgroundColor: theme.colors.surface }]}>
+        <View style={styles.cardHeader}>
+          <Ionicons name="trending-up" size={20} color={theme.colors.primary} />
+          <Text style={[styles.cardTitle, { color: theme.colors.text }]}>Your Progress</Text>
+        </View>
+
+        <View style={styles.statsRow}>
+          <View style={styles.statItem}>
+            <Text style={[styles.statValue, { color: theme.colors.text }]}>{stats.count}</Text>
+            <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>Answers</Text>
+          </View>
+          <View style={styles.statItem}>
+            <Text style={[styles.statValue, { color: theme.colors.text }]}>{stats.averagePercent}%</Text>
+            <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>Average</Text>
+          </View>
+          <View style={styles.statItem}>
+            <Text style={[styles.statValue, { color: theme.colors.text }]}>{stats.directiveRate}%</Text>
+            <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>On Directive</Text>
+          </View>
+          <View style={styles.statItem}>
+            <Text style={[styles.statValue, { color: trendColor }]}>
+              {stats.trend > 0 ? '+' : ''}{stats.trend}%
+            </Text>
+            <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>Trend</Text>
+          </View>
+        </View>
+
+        {history.slice(0, 5).map((item) => (
+          <TouchableOpacity
+            key={item.id}
+            style={[styles.historyItem, { borderTopColor: theme.colors.border }]}
+            onPress={() => openAnswer(item.id)}
+          >
+            <View style={{ flex: 1 }}>
+              <Text style={[styles.historyQuestion, { color: theme.colors.text }]} numberOfLines={2}>{item.question}</Text>
+              <Text style={[styles.historyMeta, { color: theme.colors.textSecondary }]}>
+                {formatDate(item.date)} · {item.gsPaper} · {item.score}/{item.marks} marks
+              </Text>
+            </View>
+            <Text style={[styles.historyScore, { color: theme.colors.primary }]}>{item.percent}%</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    );
+  };
+
+  const renderEmptyState = () => (
+    <View style={styles.emptyContainer}>
+      <Ionicons name="create-outline" size={64} color={theme.colors.textSecondary} />
+      <Text style={[styles.emptyTitle, { color: theme.colors.text }]}>
+        {error ? 'Could not load questions' : 'No Questions Yet'}
+      </Text>
+      <Text style={[styles.emptyText, { color: theme.colors.textSecondary }]}>
+        {error || "Today's answer-writing questions will appear here once they're published."}
+      </Text>
+      <TouchableOpacity
+        style={[styles.retryButton, { backgroundColor: theme.colors.primary }]}
+        onPress={handleRefresh}
+      >
+        <Text style={styles.retryButtonText}>Retry</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  if (activeQuestion) return renderWriting();
+  if (result) return renderResult();
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
+      {renderHeader('Answer Writing', () => navigation.goBack())}
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={theme.colors.primary} />
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={{ paddingHorizontal: horizontalPadding || 20, paddingBottom: 32 }}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} tintColor={theme.colors.primary} />
+          }
+          showsVerticalScrollIndicator={false}
+        >
+          {availableDates.length > 0 && renderDateChips()}
+
+          {!day || day.questions.length === 0 ? renderEmptyState() : (
+            <>
+              <Text style={[styles.dateTitle, { color: theme.colors.text }]}>{formatDate(day.date)}</Text>
+              <Text style={[styles.subtitle, { color: theme.colors.textSecondary }]}>
+                Write against the clock, then compare with the model answer
+              </Text>
+              {day.questions.map(renderQuestionCard)}
+            </>
+          )}
+
+          {renderProgress()}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 16,
+  },
+  backBtn: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  dateChips: {
+    gap: 8,
+    paddingBottom: 16,
+  },
+  dateChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+  },
+  dateChipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  dateTitle: {
+    fontSize: 24,
+    fontWeight: '700',
+  },
+  subtitle: {
+    fontSize: 14,
+    marginTop: 4,
+    marginBottom: 16,
+  },
+  card: {
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  cardFooter: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 12,
+  },
+  footerText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  paperLabel: {
+    fontSize: 12,
+    fontWeight: '700',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: 8,
+  },
+  questionText: {
+    fontSize: 16,
+    fontWeight: '600',
+    lineHeight: 23,
+  },
+  metaRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 10,
+  },
+  directiveChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  directiveChipText: {
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  metaText: {
+    fontSize: 13,
+  },
+  directiveMeaning: {
+    fontSize: 13,
+    lineHeight: 19,
+    marginTop: 10,
+  },
+  writingStats: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  writingStat: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  writingStatText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  answerInput: {
+    minHeight: 320,
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 15,
+    lineHeight: 22,
+    marginBottom: 16,
+  },
+  primaryButton: {
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#FFF',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  scoreRow: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    gap: 10,
+    marginTop: 14,
+    marginBottom: 8,
+  },
+  scoreValue: {
+    fontSize: 32,
+    fontWeight: '800',
+  },
+  bodyText: {
+    fontSize: 15,
+    lineHeight: 22,
+    marginBottom: 6,
+  },
+  feedbackText: {
+    fontSize: 13,
+    lineHeight: 19,
+    marginTop: 4,
+  },
+  rubricRow: {
+    marginBottom: 14,
+  },
+  rubricLabelRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 6,
+  },
+  rubricLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  rubricScore: {
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  rubricTrack: {
+    height: 6,
+    borderRadius: 3,
+    overflow: 'hidden',
+  },
+  rubricFill: {
+    height: 6,
+    borderRadius: 3,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  statItem: {
+    alignItems: 'center',
+    flex: 1,
+  },
+  statValue: {
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  statLabel: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  historyItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingTop: 12,
+    marginTop: 12,
+    borderTopWidth: 1,
+    gap: 12,
+  },
+  historyQuestion: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  historyMeta: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  historyScore: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 60,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginTop: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 8,
+    paddingHorizontal: 40,
+  },
+  retryButton: {
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 12,
+    marginTop: 20,
+  },
+  retryButtonText: {
+    color: '#FFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,399 @@
+import React, { useState, useEffect } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../features/Reference/theme/ThemeContext';
+import { useWebStyles } from '../components/WebContainer';
+import { useAuth } from '../context/AuthContext';
+import { fetchMockTest } from '../services/mockTestApi';
+
+const OPTIONS = ['A', 'B', 'C', 'D'];
+
+const FILTERS = [
+  { key: 'all', label: 'All' },
+  { key: 'incorrect', label: 'Incorrect' },
+  { key: 'unattempted', label: 'Unattempted' },
+  { key: 'marked', label: 'Marked' },
+];
+
+const formatDuration = (start, end) => {
+  const minutes = Math.round((new Date(end).getTime() - new Date(start).getTime()) / 60000);
+  return minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`;
+};
+
+export default function MockTestResultScreen({ navigation, route }) {
+  const { theme } = useTheme();
+  const { horizontalPadding } = useWebStyles();
+  const { user } = useAuth();
+  const { attemptId, attempt: passedAttempt } = route.params || {};
+
+  const [attempt, setAttempt] = useState(passedAttempt || null);
+  const [loading, setLoading] = useState(!passedAttempt);
+  const [error, setError] = useState(null);
+  const [filter, setFilter] = useState('all');
+  const [expanded, setExpanded] = useState({});
+
+  useEffect(() => {
+    if (passedAttempt) return;
+
+    const load = async () => {
+      const result = await fetchMockTest(user.id, attemptId);
+      if (result.success) {
+        setAttempt(result.attempt);
+      } else {
+        setError(result.error);
+      }
+      setLoading(false);
+    };
+    load();
+  }, [attemptId]);
+
+  if (loading || !attempt) {
+    return (
+      <SafeAreaView style={[styles.container, styles.centered, { backgroundColor: theme.colors.background }]}>
+        {error ? (
+          <Text style={{ color: theme.colors.error }}>{error}</Text>
+        ) : (
+          <ActivityIndicator size="large" color={theme.colors.primary} />
+        )}
+      </SafeAreaView>
+    );
+  }
+
+  const { result, questions, answers, markedForReview } = attempt;
+  const attempted = result.correctCount + result.incorrectCount;
+  const accuracy = attempted > 0 ? Math.round((result.correctCount / attempted) * 100) : 0;
+
+  const statusOf = (question) => {
+    const answer = answers[question.id];
+    if (!answer) return 'unattempted';
+    return answer === question.correctAnswer ? 'correct' : 'incorrect';
+  };
+
+  const visibleQuestions = questions
+    .map((question, index) => ({ ...question, number: index + 1, status: statusOf(question) }))
+    .filter(q => {
+      if (filter === 'all') return true;
+      if (filter === 'marked') return markedForReview.includes(q.id);
+      return q.status === filter;
+    });
+
+  const statusColor = {
+    correct: '#10B981',
+    incorrect: '#EF4444',
+    unattempted: theme.colors.textSecondary,
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
+      <View style={[styles.header, { paddingHorizontal: horizontalPadding || 20 }]}>
+        <TouchableOpacity style={styles.backBtn} onPress={() => navigation.goBack()}>
+          <Ionicons name="arrow-back" size={24} color={theme.colors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: theme.colors.text }]}>Mock Test Result</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <ScrollView contentContainerStyle={{ paddingHorizontal: horizontalPadding || 20, paddingBottom: 32 }}>
+        {/* Score */}
+        <View style={[styles.scoreCard, { backgroundColor: theme.colors.primary }]}>
+          <Text style={styles.scoreLabel}>Your Score</Text>
+          <Text style={styles.scoreValue}>
+            {result.score}
+            <Text style={styles.scoreMax}> / {result.maxScore}</Text>
+          </Text>
+          <Text style={styles.scoreHint}>
+            +{result.marksPerCorrect} per correct · -{result.negativeMarks} per wrong
+            {attempt.submittedAt ? ` · ${formatDuration(attempt.startedAt, attempt.submittedAt)}` : ''}
+          </Text>
+        </View>
+
+        <View style={styles.statsRow}>
+          {[
+            ['Correct', result.correctCount, '#10B981'],
+            ['Wrong', result.incorrectCount, '#EF4444'],
+            ['Skipped', result.unattemptedCount, theme.colors.textSecondary],
+            ['Accuracy', `${accuracy}%`, theme.colors.primary],
+          ].map(([label, value, color]) => (
+            <View key={label} style={[styles.statCard, { backgroundColor: theme.colors.surface }]}>
+              <Text style={[styles.statValue, { color }]}>{value}</Text>
+              <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>{label}</Text>
+            </View>
+          ))}
+        </View>
+
+        {result.incorrectCount > 0 && (
+          <Text style={[styles.penaltyNote, { color: theme.colors.textSecondary }]}>
+            Negative marking cost you {(result.incorrectCount * result.negativeMarks).toFixed(2)} marks.
+          </Text>
+        )}
+
+        {/* Subject breakdown */}
+        <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>Subject-wise Breakdown</Text>
+        <View style={[styles.breakdownCard, { backgroundColor: theme.colors.surface }]}>
+          {result.subjectBreakdown.map((entry) => {
+            const subjectAccuracy = entry.total > 0 ? entry.correct / entry.total : 0;
+            return (
+              <View key={entry.subject} style={styles.breakdownRow}>
+                <View style={styles.breakdownHeader}>
+                  <Text style={[styles.breakdownSubject, { color: theme.colors.text }]}>{entry.subject}</Text>
+                  <Text style={[styles.breakdownScore, { color: entry.score < 0 ? '#EF4444' : theme.colors.text }]}>
+                    {entry.score} / {entry.total * result.marksPerCorrect}
+                  </Text>
+                </View>
+                <View style={[styles.barTrack, { backgroundColor: theme.colors.background }]}>
+                  <View style={[styles.barFill, { width: `${Math.round(subjectAccuracy * 100)}%` }]} />
+                </View>
+                <Text style={[styles.breakdownMeta, { color: theme.colors.textSecondary }]}>
+                  {entry.correct} correct · {entry.incorrect} wrong · {entry.unattempted} skipped of {entry.total}
+                </Text>
+              </View>
+            );
+          })}
+        </View>
+
+        {/* Question review */}
+        <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>Review Answers</Text>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.filterRow}>
+          {FILTERS.map(({ key, label }) => (
+            <TouchableOpacity
+              key={key}
+              style={[
+                styles.filterChip,
+                { backgroundColor: filter === key ? theme.colors.primary : theme.colors.surface },
+              ]}
+              onPress={() => setFilter(key)}
+            >
+              <Text style={[styles.filterChipText, { color: filter === key ? '#FFF' : theme.colors.text }]}>{label}</Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+
+        {visibleQuestions.map((q) => (
+          <TouchableOpacity
+            key={q.id}
+            activeOpacity={0.8}
+            style={[styles.reviewCard, { backgroundColor: theme.colors.surface, borderLeftColor: statusColor[q.status] }]}
+            onPress={() => setExpanded({ ...expanded, [q.id]: !expanded[q.id] })}
+          >
+            <View style={styles.reviewHeader}>
+              <Text style={[styles.reviewNumber, { color: statusColor[q.status] }]}>Q{q.number}</Text>
+              <Text style={[styles.reviewSubject, { color: theme.colors.textSecondary }]}>{q.subject}</Text>
+              {markedForReview.includes(q.id) && <Ionicons name="bookmark" size={14} color="#8B5CF6" />}
+            </View>
+            <Text style={[styles.reviewQuestion, { color: theme.colors.text }]} numberOfLines={expanded[q.id] ? undefined : 2}>
+              {q.question}
+            </Text>
+
+            {expanded[q.id] && (
+              <>
+                {OPTIONS.map((opt) => {
+                  const isCorrect = opt === q.correctAnswer;
+                  const isChosen = opt === answers[q.id];
+                  return (
+                    <View
+                      key={opt}
+                      style={[
+                        styles.reviewOption,
+                        isCorrect && styles.reviewOptionCorrect,
+                        isChosen && !isCorrect && styles.reviewOptionWrong,
+                      ]}
+                    >
+                      <Text style={[styles.reviewOptionText, { color: theme.colors.text }]}>
+                        {opt}. {q[`option${opt}`]}
+                      </Text>
+                      {isCorrect && <Ionicons name="checkmark-circle" size={18} color="#10B981" />}
+                      {isChosen && !isCorrect && <Ionicons name="close-circle" size={18} color="#EF4444" />}
+                    </View>
+                  );
+                })}
+                {!!q.explanation && (
+                  <Text style={[styles.explanation, { color: theme.colors.textSecondary }]}>{q.explanation}</Text>
+                )}
+              </>
+            )}
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 16,
+  },
+  backBtn: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  scoreCard: {
+    borderRadius: 20,
+    padding: 24,
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  scoreLabel: {
+    color: 'rgba(255, 255, 255, 0.8)',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  scoreValue: {
+    color: '#FFF',
+    fontSize: 44,
+    fontWeight: '800',
+    marginVertical: 4,
+  },
+  scoreMax: {
+    fontSize: 20,
+    fontWeight: '600',
+  },
+  scoreHint: {
+    color: 'rgba(255, 255, 255, 0.8)',
+    fontSize: 12,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 8,
+  },
+  statCard: {
+    flex: 1,
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  statValue: {
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  statLabel: {
+    fontSize: 11,
+    marginTop: 2,
+  },
+  penaltyNote: {
+    fontSize: 12,
+    textAlign: 'center',
+    marginTop: 4,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    marginTop: 24,
+    marginBottom: 12,
+  },
+  breakdownCard: {
+    borderRadius: 16,
+    padding: 16,
+    gap: 16,
+  },
+  breakdownRow: {
+    gap: 6,
+  },
+  breakdownHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  breakdownSubject: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  breakdownScore: {
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  barTrack: {
+    height: 8,
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  barFill: {
+    height: '100%',
+    borderRadius: 4,
+    backgroundColor: '#10B981',
+  },
+  breakdownMeta: {
+    fontSize: 12,
+  },
+  filterRow: {
+    gap: 8,
+    marginBottom: 12,
+  },
+  filterChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+  },
+  filterChipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  reviewCard: {
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 10,
+    borderLeftWidth: 4,
+  },
+  reviewHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 6,
+  },
+  reviewNumber: {
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  reviewSubject: {
+    flex: 1,
+    fontSize: 12,
+  },
+  reviewQuestion: {
+    fontSize: 15,
+    lineHeight: 22,
+  },
+  reviewOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 10,
+    borderRadius: 8,
+    marginTop: 8,
+    gap: 8,
+  },
+  reviewOptionCorrect: {
+    backgroundColor: 'rgba(16, 185, 129, 0.12)',
+  },
+  reviewOptionWrong: {
+    backgroundColor: 'rgba(239, 68, 68, 0.12)',
+  },
+  reviewOptionText: {
+    flex: 1,
+    fontSize: 14,
+  },
+  explanation: {
+    fontSize: 13,
+    lineHeight: 20,
+    marginTop: 10,
+  },
+});
@@ -0,0 +1,649 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  Modal,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../features/Reference/theme/ThemeContext';
+import { useWebStyles } from '../components/WebContainer';
+import { useAuth } from '../context/AuthContext';
+import {
+  startMockTest,
+  fetchMockTest,
+  saveMockTestProgress,
+  submitMockTest,
+} from '../services/mockTestApi';
+
+const OPTIONS = ['A', 'B', 'C', 'D'];
+const AUTOSAVE_DELAY_MS = 1500;
+
+const PALETTE_COLORS = {
+  answered: '#10B981',
+  marked: '#8B5CF6',
+  skipped: '#EF4444',
+};
+
+const formatTime = (seconds) => {
+  const hrs = Math.floor(seconds / 3600);
+  const mins = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+  return `${hrs}:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+};
+
+export default function MockTestScreen({ navigation, route }) {
+  const { theme } = useTheme();
+  const { horizontalPadding } = useWebStyles();
+  const { user } = useAuth();
+  const { questionSetId = null, attemptId = null, title } = route.params || {};
+
+  const [attempt, setAttempt] = useState(null);
+  const [answers, setAnswers] = useState({});
+  const [marked, setMarked] = useState([]);
+  const [visited, setVisited] = useState([]);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [timeRemaining, setTimeRemaining] = useState(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [showPalette, setShowPalette] = useState(false);
+  const [saveState, setSaveState] = useState('saved'); // 'saved' | 'saving' | 'offline'
+
+  // Latest values for the timer and autosave callbacks
+  const answersRef = useRef(answers);
+  const markedRef = useRef(marked);
+  const dirtyRef = useRef(false);
+  const submittedRef = useRef(false);
+  answersRef.current = answers;
+  markedRef.current = marked;
+
+  const openResult = useCallback((scoredAttempt) => {
+    navigation.replace('MockTestResult', { attemptId: scoredAttempt.id, attempt: scoredAttempt });
+  }, [navigation]);
+
+  // Start a new paper or resume the one saved on the server
+  useEffect(() => {
+    const load = async () => {
+      const result = attemptId
+        ? await fetchMockTest(user.id, attemptId)
+        : await startMockTest(user.id, questionSetId);
+
+      if (!result.success) {
+        Alert.alert('Mock Test', result.error || 'Failed to load the paper', [
+          { text: 'OK', onPress: () => navigation.goBack() },
+        ]);
+        return;
+      }
+
+      if (result.attempt.status === 'submitted') {
+        openResult(result.attempt);
+        return;
+      }
+
+      const firstUnanswered = result.attempt.questions.findIndex(q => !result.attempt.answers[q.id]);
+      setAttempt(result.attempt);
+      setAnswers(result.attempt.answers || {});
+      setMarked(result.attempt.markedForReview || []);
+      setCurrentIndex(Math.max(firstUnanswered, 0));
+      setLoading(false);
+    };
+
+    load();
+  }, []);
+
+  const handleSubmit = useCallback(async (auto = false) => {
+    if (!attempt || submittedRef.current) return;
+    submittedRef.current = true;
+    setSubmitting(true);
+
+    const result = await submitMockTest(user.id, attempt.id, answersRef.current, markedRef.current);
+    setSubmitting(false);
+
+    if (result.success) {
+      openResult(result.attempt);
+      return;
+    }
+
+    submittedRef.current = false;
+    Alert.alert(
+      auto ? 'Time is up' : 'Submit failed',
+      `${result.error}. Your answers are saved - try submitting again.`
+    );
+  }, [attempt, user, openResult]);
+
+  // Countdown against the server deadline so it stays correct across devices and restarts
+  useEffect(() => {
+    if (!attempt) return;
+
+    const deadline = new Date(attempt.deadline).getTime();
+    const tick = () => {
+      const remaining = Math.max(0, Math.round((deadline - Date.now()) / 1000));
+      setTimeRemaining(remaining);
+      if (remaining === 0) {
+        clearInterval(timer);
+        handleSubmit(true);
+      }
+    };
+
+    const timer = setInterval(tick, 1000);
+    tick();
+    return () => clearInterval(timer);
+  }, [attempt, handleSubmit]);
+
+  // Debounced autosave of answers and review marks
+  useEffect(() => {
+    if (!attempt || !dirtyRef.current) return;
+
+    setSaveState('saving');
+    const timeout = setTimeout(async () => {
+      const result = await saveMockTestProgress(user.id, attempt.id, answersRef.current, markedRef.current);
+      if (result.success) {
+        dirtyRef.current = false;
+      }
+      setSaveState(result.success ? 'saved' : 'offline');
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(timeout);
+  }, [answers, marked, attempt]);
+
+  useEffect(() => {
+    const question = attempt?.questions[currentIndex];
+    if (question && !visited.includes(question.id)) {
+      setVisited([...visited, question.id]);
+    }
+  }, [attempt, currentIndex]);
+
+  const selectOption = (questionId, option) => {
+    dirtyRef.current = true;
+    setAnswers(prev => ({ ...prev, [questionId]: option }));
+  };
+
+  const clearResponse = (questionId) => {
+    dirtyRef.current = true;
+    setAnswers(prev => {
+      const { [questionId]: removed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const toggleMarked = (questionId) => {
+    dirtyRef.current = true;
+    setMarked(prev => (prev.includes(questionId) ? prev.filter(id => id !== questionId) : [...prev, questionId]));
+  };
+
+  const goTo = (index) => {
+    if (index >= 0 && index < attempt.questions.length) {
+      setCurrentIndex(index);
+    }
+  };
+
+  const confirmSubmit = () => {
+    const total = attempt.questions.length;
+    const answeredCount = Object.keys(answers).length;
+    const markedCount = marked.length;
+
+    Alert.alert(
+      'Submit Paper',
+      `Answered: ${answeredCount} / ${total}\nNot answered: ${total - answeredCount}\nMarked for review: ${markedCount}\n\nYou cannot change answers after submitting.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Submit', style: 'destructive', onPress: () => handleSubmit(false) },
+      ]
+    );
+  };
+
+  const confirmExit = () => {
+    Alert.alert(
+      'Leave Paper',
+      'Your answers are saved and you can resume from Question Banks, but the timer keeps running.',
+      [
+        { text: 'Stay', style: 'cancel' },
+        {
+          text: 'Leave',
+          onPress: async () => {
+            if (dirtyRef.current) {
+              await saveMockTestProgress(user.id, attempt.id, answersRef.current, markedRef.current);
+            }
+            navigation.goBack();
+          },
+        },
+      ]
+    );
+  };
+
+  const paletteColor = (question) => {
+    if (marked.includes(question.id)) return PALETTE_COLORS.marked;
+    if (answers[question.id]) return PALETTE_COLORS.answered;
+    if (visited.includes(question.id)) return PALETTE_COLORS.skipped;
+    return null;
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={[styles.container, styles.centered, { backgroundColor: theme.colors.background }]}>
+        <ActivityIndicator size="large" color={theme.colors.primary} />
+        <Text style={[styles.loadingText, { color: theme.colors.textSecondary }]}>Preparing your paper...</Text>
+      </SafeAreaView>
+    );
+  }
+
+  const question = attempt.questions[currentIndex];
+  const isMarked = marked.includes(question.id);
+  const selected = answers[question.id];
+  const isLast = currentIndex === attempt.questions.length - 1;
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
+      {/* Header */}
+      <View style={[styles.header, { backgroundColor: theme.colors.surface, paddingHorizontal: horizontalPadding || 16 }]}>
+        <TouchableOpacity onPress={confirmExit} style={styles.headerButton}>
+          <Ionicons name="close" size={24} color={theme.colors.text} />
+        </TouchableOpacity>
+        <View style={styles.headerCenter}>
+          <Text style={[styles.headerTitle, { color: theme.colors.text }]} numberOfLines={1}>
+            {title || 'Prelims Mock Test'}
+          </Text>
+          <Text style={[styles.saveState, { color: saveState === 'offline' ? theme.colors.error : theme.colors.textSecondary }]}>
+            {saveState === 'saving' ? 'Saving...' : saveState === 'offline' ? 'Not saved - retrying on next answer' : 'All answers saved'}
+          </Text>
+        </View>
+        <View style={[styles.timerBadge, timeRemaining !== null && timeRemaining < 600 && styles.timerWarning]}>
+          <Ionicons name="time-outline" size={16} color={timeRemaining !== null && timeRemaining < 600 ? '#DC2626' : theme.colors.primary} />
+          <Text style={[styles.timerText, { color: timeRemaining !== null && timeRemaining < 600 ? '#DC2626' : theme.colors.text }]}>
+            {timeRemaining === null ? '--:--:--' : formatTime(timeRemaining)}
+          </Text>
+        </View>
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={{ paddingHorizontal: horizontalPadding || 16, paddingBottom: 24 }}
+      >
+        <View style={styles.questionMeta}>
+          <Text style={[styles.questionCounter, { color: theme.colors.textSecondary }]}>
+            Question {currentIndex + 1} of {attempt.questions.length}
+          </Text>
+          <View style={[styles.subjectChip, { backgroundColor: theme.colors.surface }]}>
+            <Text style={[styles.subjectChipText, { color: theme.colors.textSecondary }]}>{question.subject}</Text>
+          </View>
+        </View>
+
+        <Text style={[styles.questionText, { color: theme.colors.text }]}>{question.question}</Text>
+
+        {OPTIONS.map((opt) => {
+          const isSelected = selected === opt;
+          return (
+            <TouchableOpacity
+              key={opt}
+              style={[
+                styles.option,
+                { backgroundColor: theme.colors.surface, borderColor: isSelected ? theme.colors.primary : theme.colors.border },
+                isSelected && { borderWidth: 2 },
+              ]}
+              onPress={() => selectOption(question.id, opt)}
+            >
+              <View style={[styles.optionLetter, { backgroundColor: isSelected ? theme.colors.primary : theme.colors.background }]}>
+                <Text style={[styles.optionLetterText, { color: isSelected ? '#FFF' : theme.colors.text }]}>{opt}</Text>
+              </View>
+              <Text style={[styles.optionText, { color: theme.colors.text }]}>{question[`option${opt}`]}</Text>
+            </TouchableOpacity>
+          );
+        })}
+
+        <View style={styles.questionActions}>
+          <TouchableOpacity style={styles.linkButton} onPress={() => toggleMarked(question.id)}>
+            <Ionicons name={isMarked ? 'bookmark' : 'bookmark-outline'} size={18} color={PALETTE_COLORS.marked} />
+            <Text style={[styles.linkButtonText, { color: PALETTE_COLORS.marked }]}>
+              {isMarked ? 'Marked for review' : 'Mark for review'}
+            </Text>
+          </TouchableOpacity>
+          {selected && (
+            <TouchableOpacity style={styles.linkButton} onPress={() => clearResponse(question.id)}>
+              <Ionicons name="close-circle-outline" size={18} color={theme.colors.textSecondary} />
+              <Text style={[styles.linkButtonText, { color: theme.colors.textSecondary }]}>Clear response</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </ScrollView>
+
+      {/* Footer navigation */}
+      <View style={[styles.footer, { backgroundColor: theme.colors.surface, paddingHorizontal: horizontalPadding || 16 }]}>
+        <TouchableOpacity
+          style={[styles.navButton, { borderColor: theme.colors.border }, currentIndex === 0 && styles.disabled]}
+          onPress={() => goTo(currentIndex - 1)}
+          disabled={currentIndex === 0}
+        >
+          <Ionicons name="chevron-back" size={20} color={theme.colors.text} />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.paletteButton, { borderColor: theme.colors.border }]}
+          onPress={() => setShowPalette(true)}
+        >
+          <Ionicons name="grid-outline" size={18} color={theme.colors.text} />
+          <Text style={[styles.paletteButtonText, { color: theme.colors.text }]}>
+            {Object.keys(answers).length}/{attempt.questions.length}
+          </Text>
+        </TouchableOpacity>
+        {isLast ? (
+          <TouchableOpacity
+            style={[styles.primaryButton, { backgroundColor: theme.colors.primary }]}
+            onPress={confirmSubmit}
+            disabled={submitting}
+          >
+            {submitting ? <ActivityIndicator color="#FFF" /> : <Text style={styles.primaryButtonText}>Submit</Text>}
+          </TouchableOpacity>
+        ) : (
+          <TouchableOpacity
+            style={[styles.primaryButton, { backgroundColor: theme.colors.primary }]}
+            onPress={() => goTo(currentIndex + 1)}
+          >
+            <Text style={styles.primaryButtonText}>Next</Text>
+            <Ionicons name="chevron-forward" size={18} color="#FFF" />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {/* Question palette */}
+      <Modal visible={showPalette} animationType="slide" transparent onRequestClose={() => setShowPalette(false)}>
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContent, { backgroundColor: theme.colors.surface }]}>
+            <View style={styles.modalHeader}>
+              <Text style={[styles.modalTitle, { color: theme.colors.text }]}>Question Palette</Text>
+              <TouchableOpacity onPress={() => setShowPalette(false)}>
+                <Ionicons name="close" size={24} color={theme.colors.text} />
+              </TouchableOpacity>
+            </View>
+
+            <View style={styles.legend}>
+              {[
+                ['Answered', PALETTE_COLORS.answered],
+                ['Marked', PALETTE_COLORS.marked],
+                ['Skipped', PALETTE_COLORS.skipped],
+                ['Not visited', theme.colors.border],
+              ].map(([label, color]) => (
+                <View key={label} style={styles.legendItem}>
+                  <View style={[styles.legendDot, { backgroundColor: color }]} />
+                  <Text style={[styles.legendText, { color: theme.colors.textSecondary }]}>{label}</Text>
+                </View>
+              ))}
+            </View>
+
+            <ScrollView contentContainerStyle={styles.paletteGrid}>
+              {attempt.questions.map((q, index) => {
+                const color = paletteColor(q);
+                return (
+                  <TouchableOpacity
+                    key={q.id}
+                    style={[
+                      styles.paletteCell,
+                      { backgroundColor: color || theme.colors.background, borderColor: index === currentIndex ? theme.colors.text : 'transparent' },
+                    ]}
+                    onPress={() => {
+                      goTo(index);
+                      setShowPalette(false);
+                    }}
+                  >
+                    <Text style={[styles.paletteCellText, { color: color ? '#FFF' : theme.colors.text }]}>{index + 1}</Text>
+                    {marked.includes(q.id) && answers[q.id] && <View style={styles.answeredDot} />}
+                  </TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+
+            <TouchableOpacity
+              style={[styles.submitButton, { backgroundColor: theme.colors.primary }]}
+              onPress={() => {
+                setShowPalette(false);
+                confirmSubmit();
+              }}
+            >
+              <Text style={styles.primaryButtonText}>Submit Paper</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 14,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    gap: 12,
+  },
+  headerButton: {
+    padding: 4,
+  },
+  headerCenter: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  saveState: {
+    fontSize: 11,
+    marginTop: 2,
+  },
+  timerBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: 'rgba(99, 102, 241, 0.1)',
+  },
+  timerWarning: {
+    backgroundColor: '#FEE2E2',
+  },
+  timerText: {
+    fontSize: 14,
+    fontWeight: '700',
+    fontVariant: ['tabular-nums'],
+  },
+  scrollView: {
+    flex: 1,
+  },
+  questionMeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 16,
+    marginBottom: 12,
+  },
+  questionCounter: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  subjectChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  subjectChipText: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  questionText: {
+    fontSize: 17,
+    lineHeight: 26,
+    fontWeight: '500',
+    marginBottom: 20,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginBottom: 12,
+    gap: 12,
+  },
+  optionLetter: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  optionLetterText: {
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  optionText: {
+    flex: 1,
+    fontSize: 15,
+    lineHeight: 22,
+  },
+  questionActions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 8,
+  },
+  linkButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 8,
+  },
+  linkButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  footer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    gap: 12,
+  },
+  navButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 12,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  disabled: {
+    opacity: 0.4,
+  },
+  paletteButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    height: 48,
+    paddingHorizontal: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  paletteButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  primaryButton: {
+    flex: 1,
+    flexDirection: 'row',
+    height: 48,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 4,
+  },
+  primaryButtonText: {
+    color: '#FFF',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    maxHeight: '80%',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    padding: 20,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+    marginBottom: 16,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  legendDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+  },
+  legendText: {
+    fontSize: 12,
+  },
+  paletteGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    paddingBottom: 16,
+  },
+  paletteCell: {
+    width: 44,
+    height: 44,
+    borderRadius: 10,
+    borderWidth: 2,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  paletteCellText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  answeredDot: {
+    position: 'absolute',
+    top: 4,
+    right: 4,
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: PALETTE_COLORS.answered,
+  },
+  submitButton: {
+    height: 48,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+});
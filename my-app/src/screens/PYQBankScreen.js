@@ -0,0 +1,474 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../features/Reference/theme/ThemeContext';
+import { useWebStyles } from '../components/WebContainer';
+import { fetchQuestions } from '../services/questionApi';
+
+const PAGE_SIZE = 20;
+const OPTION_KEYS = ['A', 'B', 'C', 'D'];
+
+// Shape expected by the Test / Result screens
+const toTestQuestion = (q) => ({
+  id: `pyq-${q.id}`,
+  question: q.question,
+  options: OPTION_KEYS.map(key => q[`option${key}`]),
+  correct: OPTION_KEYS.indexOf(q.correctAnswer),
+  explanation: q.explanation,
+  systemTags: [q.subject, q.year ? String(q.year) : null].filter(Boolean),
+  userTags: [],
+});
+
+export default function PYQBankScreen({ navigation }) {
+  const { theme } = useTheme();
+  const { horizontalPadding } = useWebStyles();
+  const [filters, setFilters] = useState({ year: null, subject: null, topicId: null });
+  const [search, setSearch] = useState('');
+  const [appliedSearch, setAppliedSearch] = useState('');
+  const [questions, setQuestions] = useState([]);
+  const [facets, setFacets] = useState(null);
+  const [pagination, setPagination] = useState(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState(null);
+  const [expandedId, setExpandedId] = useState(null);
+  const [selectedIds, setSelectedIds] = useState([]);
+
+  const loadPage = useCallback(async (page) => {
+    const result = await fetchQuestions({
+      pyq: true,
+      ...filters,
+      search: appliedSearch,
+      page,
+      limit: PAGE_SIZE,
+      facets: page === 1,
+    });
+
+    if (result.success) {
+      setQuestions(prev => (page === 1 ? result.questions : [...prev, ...result.questions]));
+      setPagination(result.pagination);
+      if (result.facets) setFacets(result.facets);
+      setError(null);
+    } else {
+      setError(result.error);
+    }
+  }, [filters, appliedSearch]);
+
+  useEffect(() => {
+    setLoading(true);
+    setExpandedId(null);
+    loadPage(1).finally(() => setLoading(false));
+  }, [loadPage]);
+
+  const loadMore = async () => {
+    if (!pagination || pagination.page >= pagination.totalPages || loadingMore) return;
+    setLoadingMore(true);
+    await loadPage(pagination.page + 1);
+    setLoadingMore(false);
+  };
+
+  const toggleFilter = (key, value) => {
+    setFilters(prev => ({ ...prev, [key]: prev[key] === value ? null : value }));
+  };
+
+  const toggleSelect = (id) => {
+    setSelectedIds(prev => (prev.includes(id) ? prev.filter(i => i !== id) : [...prev, id]));
+  };
+
+  const startTest = () => {
+    const testQuestions = questions.filter(q => selectedIds.includes(q.id)).map(toTestQuestion);
+    if (testQuestions.length === 0) {
+      Alert.alert('Select Questions', 'Please select at least one question to start the test.');
+      return;
+    }
+    navigation.navigate('Test', {
+      questions: testQuestions,
+      config: { numQuestions: testQuestions.length.toString(), timeLimit: '15' },
+    });
+  };
+
+  const renderChips = (label, items, key, getValue, getLabel) => {
+    if (!items || items.length === 0) return null;
+    return (
+      <View style={styles.chipGroup}>
+        <Text style={[styles.chipGroupLabel, { color: theme.colors.textSecondary }]}>{label}</Text>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chips}>
+          {items.map((item) => {
+            const value = getValue(item);
+            const isSelected = filters[key] === value;
+            return (
+              <TouchableOpacity
+                key={String(value)}
+                style={[
+                  styles.chip,
+                  { backgroundColor: isSelected ? theme.colors.primary : theme.colors.surface, borderColor: theme.colors.border },
+                ]}
+                onPress={() => toggleFilter(key, value)}
+              >
+                <Text style={[styles.chipText, { color: isSelected ? '#FFF' : theme.colors.text }]}>
+                  {getLabel(item)} · {item.count}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+      </View>
+    );
+  };
+
+  const renderQuestion = (q) => {
+    const isExpanded = expandedId === q.id;
+    const isSelected = selectedIds.includes(q.id);
+    return (
+      <View key={q.id} style={[styles.card, { backgroundColor: theme.colors.surface }]}>
+        <View style={styles.cardHeader}>
+          <View style={styles.metaRow}>
+            {q.year && (
+              <Text style={[styles.metaBadge, { backgroundColor: theme.colors.surfaceSecondary, color: theme.colors.primary }]}>
+                {q.year}
+              </Text>
+            )}
+            {q.subject && (
+              <Text style={[styles.metaBadge, { backgroundColor: theme.colors.surfaceSecondary, color: theme.colors.textSecondary }]}>
+                {q.subject}
+              </Text>
+            )}
+            {q.topicName && (
+              <Text style={[styles.metaText, { color: theme.colors.textSecondary }]} numberOfLines={1}>
+                {q.topicName}
+              </Text>
+            )}
+          </View>
+          <TouchableOpacity onPress={() => toggleSelect(q.id)} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+            <Ionicons
+              name={isSelected ? 'checkbox' : 'square-outline'}
+              size={22}
+              color={isSelected ? theme.colors.primary : theme.colors.textSecondary}
+            />
+          </TouchableOpacity>
+        </View>
+
+        <TouchableOpacity activeOpacity={0.7} onPress={() => setExpandedId(isExpanded ? null : q.id)}>
+          <Text style={[styles.questionText, { color: theme.colors.text }]}>{q.question}</Text>
+
+          {isExpanded && (
+            <View style={styles.answer}>
+              {OPTION_KEYS.map((key) => {
+                const isCorrect = key === q.correctAnswer;
+                return (
+                  <View
+                    key={key}
+                    style={[styles.option, { backgroundColor: isCorrect ? theme.colors.successBg : 'transparent' }]}
+                  >
+                    <Text style={[styles.optionKey, { color: isCorrect ? theme.colors.success : theme.colors.textSecondary }]}>{key}</Text>
+                    <Text style={[styles.optionText, { color: theme.colors.text }]}>{q[`option${key}`]}</Text>
+                  </View>
+                );
+              })}
+              {q.explanation ? (
+                <Text style={[styles.explanation, { color: theme.colors.textSecondary }]}>{q.explanation}</Text>
+              ) : null}
+              {q.sourceLabel && (
+                <Text style={[styles.sourceText, { color: theme.colors.textSecondary }]}>
+                  {q.sourceLabel}{q.year ? ` ${q.year}` : ''}
+                </Text>
+              )}
+            </View>
+          )}
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  const hasMore = pagination && pagination.page < pagination.totalPages;
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
+      {/* Header */}
+      <View style={[styles.header, { paddingHorizontal: horizontalPadding || 20 }]}>
+        <TouchableOpacity style={styles.backBtn} onPress={() => navigation.goBack()}>
+          <Ionicons name="arrow-back" size={24} color={theme.colors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: theme.colors.text }]}>Previous Year Questions</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={{ paddingHorizontal: horizontalPadding || 20, paddingBottom: 100 }}
+        keyboardShouldPersistTaps="handled"
+        showsVerticalScrollIndicator={false}
+      >
+        <View style={[styles.searchBox, { backgroundColor: theme.colors.surface, borderColor: theme.colors.border }]}>
+          <Ionicons name="search" size={18} color={theme.colors.textSecondary} />
+          <TextInput
+            style={[styles.searchInput, { color: theme.colors.text }]}
+            value={search}
+            onChangeText={setSearch}
+            onSubmitEditing={() => setAppliedSearch(search.trim())}
+            placeholder="Search questions"
+            placeholderTextColor={theme.colors.textSecondary}
+            returnKeyType="search"
+          />
+          {search.length > 0 && (
+            <TouchableOpacity onPress={() => { setSearch(''); setAppliedSearch(''); }}>
+              <Ionicons name="close-circle" size={18} color={theme.colors.textSecondary} />
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {facets && (
+          <>
+            {renderChips('Year', facets.years, 'year', item => item.year, item => item.year)}
+            {renderChips('Subject', facets.subjects, 'subject', item => item.subject, item => item.subject)}
+            {renderChips('Topic', facets.topics, 'topicId', item => item.id, item => item.name)}
+          </>
+        )}
+
+        {pagination && (
+          <Text style={[styles.resultCount, { color: theme.colors.textSecondary }]}>
+            {pagination.total} questions
+          </Text>
+        )}
+
+        {loading ? (
+          <ActivityIndicator size="large" color={theme.colors.primary} style={styles.loader} />
+        ) : error || questions.length === 0 ? (
+          <View style={styles.emptyContainer}>
+            <Ionicons name="library-outline" size={64} color={theme.colors.textSecondary} />
+            <Text style={[styles.emptyTitle, { color: theme.colors.text }]}>
+              {error ? 'Could not load questions' : 'No questions found'}
+            </Text>
+            <Text style={[styles.emptyText, { color: theme.colors.textSecondary }]}>
+              {error || 'Try removing some filters.'}
+            </Text>
+          </View>
+        ) : (
+          <>
+            {questions.map(renderQuestion)}
+            {hasMore && (
+              <TouchableOpacity
+                style={[styles.loadMore, { borderColor: theme.colors.border }]}
+                onPress={loadMore}
+                disabled={loadingMore}
+              >
+                {loadingMore ? (
+                  <ActivityIndicator size="small" color={theme.colors.primary} />
+                ) : (
+                  <Text style={[styles.loadMoreText, { color: theme.colors.primary }]}>Load more</Text>
+                )}
+              </TouchableOpacity>
+            )}
+          </>
+        )}
+      </ScrollView>
+
+      {selectedIds.length > 0 && (
+        <View style={[styles.footer, { backgroundColor: theme.colors.surface, borderTopColor: theme.colors.border }]}>
+          <TouchableOpacity onPress={() => setSelectedIds([])}>
+            <Text style={[styles.clearText, { color: theme.colors.textSecondary }]}>Clear ({selectedIds.length})</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={[styles.testButton, { backgroundColor: theme.colors.primary }]} onPress={startTest}>
+            <Ionicons name="play" size={16} color="#FFF" />
+            <Text style={styles.testButtonText}>Practice {selectedIds.length} Selected</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 16,
+  },
+  backBtn: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  searchBox: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginBottom: 12,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 10,
+    fontSize: 15,
+  },
+  chipGroup: {
+    marginBottom: 10,
+  },
+  chipGroupLabel: {
+    fontSize: 12,
+    fontWeight: '700',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: 6,
+  },
+  chips: {
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  resultCount: {
+    fontSize: 13,
+    marginVertical: 8,
+  },
+  loader: {
+    marginTop: 40,
+  },
+  card: {
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 10,
+  },
+  metaRow: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginRight: 12,
+  },
+  metaBadge: {
+    fontSize: 12,
+    fontWeight: '700',
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  metaText: {
+    flex: 1,
+    fontSize: 12,
+  },
+  questionText: {
+    fontSize: 15,
+    lineHeight: 22,
+  },
+  answer: {
+    marginTop: 12,
+    gap: 6,
+  },
+  option: {
+    flexDirection: 'row',
+    gap: 10,
+    padding: 8,
+    borderRadius: 8,
+  },
+  optionKey: {
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  optionText: {
+    flex: 1,
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  explanation: {
+    fontSize: 13,
+    lineHeight: 20,
+    marginTop: 6,
+  },
+  sourceText: {
+    fontSize: 12,
+    fontStyle: 'italic',
+    marginTop: 4,
+  },
+  loadMore: {
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginTop: 4,
+  },
+  loadMoreText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 60,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginTop: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 8,
+    paddingHorizontal: 40,
+  },
+  footer: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 14,
+    borderTopWidth: 1,
+  },
+  clearText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  testButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 18,
+    paddingVertical: 10,
+    borderRadius: 12,
+  },
+  testButtonText: {
+    color: '#FFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
@@ -15,6 +15,8 @@ import { useFocusEffect } from '@react-navigation/native';
 import { getStats, getStreak, getTestHistory } from '../utils/storage';
 import { syncProgressToCloud } from '../utils/progressSync';
 import { getUserHistory, getStreakFromCloud } from '../utils/activityTracker';
+import { flushStudySessions, getLocalStudyTime, STUDY_SOURCES } from '../utils/studyTracker';
+import { fetchStudyTime } from '../services/studySessionApi';
 import { useTheme } from '../features/Reference/theme/ThemeContext';
 import { useWebStyles } from '../components/WebContainer';
 import { useAuth } from '../context/AuthContext';
@@ -132,6 +134,42 @@ const WeeklyHeatmap = ({ data, theme }) => {
   );
 };
 
+const formatMinutes = (minutes) => {
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  return minutes % 60 ? `${hours}h ${minutes % 60}m` : `${hours}h`;
+};
+
+// Bar chart of study minutes, each bar stacked by source
+const StudyBarChart = ({ bars, theme, height = 120 }) => {
+  const max = Math.max(...bars.map(bar => bar.minutes), 1);
+
+  return (
+    <View style={[styles.barChart, { height: height + 36 }]}>
+      {bars.map((bar) => (
+        <View key={bar.key} style={styles.barColumn}>
+          <Text style={[styles.barValue, { color: theme.colors.textSecondary }]}>
+            {bar.minutes > 0 ? formatMinutes(bar.minutes) : ''}
+          </Text>
+          <View style={[styles.barTrack, { height, backgroundColor: theme.colors.border }]}>
+            {bar.bySource ? (
+              Object.keys(STUDY_SOURCES).map(source => (bar.bySource[source] || 0) > 0 && (
+                <View
+                  key={source}
+                  style={{ height: (bar.bySource[source] / max) * height, backgroundColor: STUDY_SOURCES[source].color }}
+                />
+              ))
+            ) : (
+              <View style={{ height: (bar.minutes / max) * height, backgroundColor: '#6366F1' }} />
+            )}
+          </View>
+          <Text style={[styles.barLabel, { color: theme.colors.textSecondary }]}>{bar.label}</Text>
+        </View>
+      ))}
+    </View>
+  );
+};
+
 // Streak Display with Icon (no emoji)
 const StreakDisplay = ({ streak, theme, isDark }) => {
   const scaleAnim = useRef(new Animated.Value(1)).current;
@@ -176,6 +214,7 @@ export default function ProgressScreen({ navigation }) {
   const [cloudData, setCloudData] = useState(null);
   const [loading, setLoading] = useState(true);
   const [syncing, setSyncing] = useState(false);
+  const [studyTime, setStudyTime] = useState(null);
 
   // Animation refs
   const fadeAnim = useRef(new Animated.Value(0)).current;
@@ -210,6 +249,15 @@ export default function ProgressScreen({ navigation }) {
     setStreak(streakData);
     setHistory(historyData);
 
+    // Study time: the server's totals once queued sessions are up, else the device log
+    let remoteStudyTime = null;
+    if (user && !user.isGuest) {
+      await flushStudySessions();
+      const result = await fetchStudyTime(8);
+      remoteStudyTime = result.summary;
+    }
+    setStudyTime(remoteStudyTime || await getLocalStudyTime(8));
+
     // Load cloud data if user is logged in
     if (user?.email) {
       const [cloudHistory, cloudStreak] = await Promise.all([
@@ -404,6 +452,82 @@ export default function ProgressScreen({ navigation }) {
           <WeeklyHeatmap data={getWeeklyData()} theme={theme} />
         </View>
 
+        {/* Study Time */}
+        {studyTime && (
+          <View style={[styles.section, { backgroundColor: theme.colors.surface }]}>
+            <View style={styles.sectionHeader}>
+              <View>
+                <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>Study Time</Text>
+                <Text style={[styles.sectionSubtitle, { color: theme.colors.textSecondary }]}>
+                  {formatMinutes(studyTime.weekly[studyTime.weekly.length - 1]?.minutes || 0)} this week
+                </Text>
+              </View>
+              <TouchableOpacity
+                onPress={() => navigation.navigate('StudyTimer')}
+                style={[styles.sectionBadge, { backgroundColor: '#EF444415' }]}
+              >
+                <Ionicons name="timer" size={18} color="#EF4444" />
+              </TouchableOpacity>
+            </View>
+
+            <Text style={[styles.chartTitle, { color: theme.colors.textSecondary }]}>Last 7 days</Text>
+            <StudyBarChart
+              theme={theme}
+              height={80}
+              bars={studyTime.daily.map(day => ({
+                key: day.date,
+                label: new Date(`${day.date}T00:00:00`).toLocaleDateString('en-IN', { weekday: 'narrow' }),
+                minutes: day.minutes,
+              }))}
+            />
+
+            <Text style={[styles.chartTitle, { color: theme.colors.textSecondary }]}>Weekly</Text>
+            <StudyBarChart
+              theme={theme}
+              bars={studyTime.weekly.map(week => ({
+                key: week.weekStart,
+                label: new Date(`${week.weekStart}T00:00:00`).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' }),
+                minutes: week.minutes,
+                bySource: week.bySource,
+              }))}
+            />
+
+            <View style={styles.sourceLegend}>
+              {Object.entries(STUDY_SOURCES).map(([source, info]) => (
+                <View key={source} style={[styles.sourcePill, { backgroundColor: info.color + '15' }]}>
+                  <Ionicons name={info.icon} size={14} color={info.color} />
+                  <Text style={[styles.sourcePillText, { color: theme.colors.text }]}>
+                    {info.label} · {formatMinutes(studyTime.bySource[source] || 0)}
+                  </Text>
+                </View>
+              ))}
+            </View>
+
+            {studyTime.topics.length > 0 && (
+              <View style={styles.topicTimes}>
+                {studyTime.topics.map((topic) => (
+                  <View key={topic.name} style={styles.topicTimeRow}>
+                    <Text style={[styles.topicTimeName, { color: theme.colors.text }]} numberOfLines={1}>
+                      {topic.name}
+                    </Text>
+                    <View style={[styles.topicTimeTrack, { backgroundColor: theme.colors.border }]}>
+                      <View
+                        style={[
+                          styles.topicTimeFill,
+                          { width: `${(topic.minutes / Math.max(studyTime.topics[0].minutes, 1)) * 100}%` },
+                        ]}
+                      />
+                    </View>
+                    <Text style={[styles.topicTimeValue, { color: theme.colors.textSecondary }]}>
+                      {formatMinutes(topic.minutes)}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            )}
+          </View>
+        )}
+
         {/* Achievements */}
         <View style={[styles.section, { backgroundColor: theme.colors.surface }]}>
           <View style={styles.sectionHeader}>
@@ -799,6 +923,86 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: '600',
   },
+  // Study Time
+  chartTitle: {
+    fontSize: 12,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    marginBottom: 8,
+  },
+  barChart: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 6,
+    marginBottom: 16,
+  },
+  barColumn: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  barValue: {
+    fontSize: 9,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  barTrack: {
+    width: '70%',
+    borderRadius: 6,
+    overflow: 'hidden',
+    justifyContent: 'flex-end',
+  },
+  barLabel: {
+    fontSize: 10,
+    fontWeight: '600',
+    marginTop: 6,
+  },
+  sourceLegend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  sourcePill: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 12,
+  },
+  sourcePillText: {
+    fontSize: 12,
+    fontWeight: '500',
+  },
+  topicTimes: {
+    gap: 10,
+  },
+  topicTimeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  topicTimeName: {
+    width: '38%',
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  topicTimeTrack: {
+    flex: 1,
+    height: 8,
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  topicTimeFill: {
+    height: '100%',
+    borderRadius: 4,
+    backgroundColor: '#6366F1',
+  },
+  topicTimeValue: {
+    width: 56,
+    fontSize: 12,
+    textAlign: 'right',
+  },
   // Achievements
   achievementsGrid: {
     flexDirection: 'row',
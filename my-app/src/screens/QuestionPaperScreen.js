@@ -11,6 +11,7 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { supabase } from '../lib/supabase';
+import { localizeRecord } from '../utils/contentLanguage';
 import { useTheme } from '../features/Reference/theme/ThemeContext';
 
 const QuestionPaperScreen = ({ navigation, route }) => {
@@ -40,7 +41,14 @@ const QuestionPaperScreen = ({ navigation, route }) => {
                 throw error;
             }
 
-            setQuestions(data || []);
+            // Translations use camelCase option keys, so expose them before localizing
+            setQuestions((data || []).map(q => localizeRecord({
+                ...q,
+                optionA: q.option_a,
+                optionB: q.option_b,
+                optionC: q.option_c,
+                optionD: q.option_d,
+            })));
         } catch (error) {
             console.error('Error fetching questions:', error);
             Alert.alert('Error', 'Failed to load questions. Please try again.');
@@ -117,8 +125,7 @@ const QuestionPaperScreen = ({ navigation, route }) => {
 
                                     <View style={styles.optionsContainer}>
                                         {['A', 'B', 'C', 'D'].map((opt) => {
-                                            const dbKey = `option_${opt.toLowerCase()}`;
-                                            const optionText = q[dbKey];
+                                            const optionText = q[`option${opt}`];
 
                                             // Determine styles based on state
                                             let optionStyle = { borderColor: theme.colors.border };
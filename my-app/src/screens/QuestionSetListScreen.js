@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import {
     StyleSheet,
     Text,
@@ -10,18 +10,108 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
+import { useFocusEffect } from '@react-navigation/native';
 import { supabase } from '../lib/supabase';
 import { useTheme } from '../features/Reference/theme/ThemeContext';
+import { useAuth } from '../context/AuthContext';
+import { fetchMockTestHistory } from '../services/mockTestApi';
 
 const QuestionSetListScreen = ({ navigation }) => {
     const { theme, isDark } = useTheme();
+    const { user } = useAuth();
     const [sets, setSets] = useState([]);
     const [loading, setLoading] = useState(true);
+    const [mockHistory, setMockHistory] = useState({ attempts: [], inProgress: null });
 
     useEffect(() => {
         fetchSets();
     }, []);
 
+    // Refresh mock test history whenever we come back from a paper
+    useFocusEffect(
+        useCallback(() => {
+            if (!user?.id) return;
+            fetchMockTestHistory(user.id).then(result => {
+                if (result.success) {
+                    setMockHistory({ attempts: result.attempts, inProgress: result.inProgress });
+                }
+            });
+        }, [user?.id])
+    );
+
+    const startMock = (set = null) => {
+        const { inProgress } = mockHistory;
+        const setId = set ? set.id : null;
+        const title = set ? set.title : 'Full-length Prelims Mock';
+
+        if (inProgress && inProgress.questionSetId !== setId) {
+            Alert.alert(
+                'Paper in progress',
+                `Starting a new paper will submit "${inProgress.title}" with the answers saved so far.`,
+                [
+                    { text: 'Cancel', style: 'cancel' },
+                    { text: 'Start New', style: 'destructive', onPress: () => navigation.navigate('MockTest', { questionSetId: setId, title }) },
+                ]
+            );
+            return;
+        }
+        navigation.navigate('MockTest', { questionSetId: setId, title });
+    };
+
+    const renderMockSection = () => {
+        const { inProgress, attempts } = mockHistory;
+        return (
+            <View style={styles.mockSection}>
+                {inProgress ? (
+                    <TouchableOpacity
+                        style={[styles.mockBanner, { backgroundColor: '#8B5CF6' }]}
+                        onPress={() => navigation.navigate('MockTest', { attemptId: inProgress.id, title: inProgress.title })}
+                    >
+                        <Ionicons name="play-circle" size={32} color="#FFF" />
+                        <View style={styles.cardContent}>
+                            <Text style={styles.mockBannerTitle}>Resume {inProgress.title}</Text>
+                            <Text style={styles.mockBannerText}>
+                                {inProgress.answeredCount}/{inProgress.questionCount} answered · ends {new Date(inProgress.deadline).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                            </Text>
+                        </View>
+                    </TouchableOpacity>
+                ) : (
+                    <TouchableOpacity
+                        style={[styles.mockBanner, { backgroundColor: theme.colors.primary }]}
+                        onPress={() => startMock()}
+                    >
+                        <Ionicons name="timer-outline" size={32} color="#FFF" />
+                        <View style={styles.cardContent}>
+                            <Text style={styles.mockBannerTitle}>Full-length Prelims Mock</Text>
+                            <Text style={styles.mockBannerText}>100 questions · 2 hours · +2 / -0.66 marking</Text>
+                        </View>
+                    </TouchableOpacity>
+                )}
+
+                <TouchableOpacity
+                    style={[styles.attemptRow, { backgroundColor: theme.colors.surface }]}
+                    onPress={() => navigation.navigate('PYQBank')}
+                >
+                    <Ionicons name="library-outline" size={18} color={theme.colors.primary} />
+                    <Text style={[styles.attemptTitle, { color: theme.colors.text }]}>Previous Year Questions</Text>
+                    <Ionicons name="chevron-forward" size={16} color={theme.colors.textSecondary} />
+                </TouchableOpacity>
+
+                {attempts.slice(0, 3).map((attempt) => (
+                    <TouchableOpacity
+                        key={attempt.id}
+                        style={[styles.attemptRow, { backgroundColor: theme.colors.surface }]}
+                        onPress={() => navigation.navigate('MockTestResult', { attemptId: attempt.id })}
+                    >
+                        <Text style={[styles.attemptTitle, { color: theme.colors.text }]} numberOfLines={1}>{attempt.title}</Text>
+                        <Text style={[styles.attemptScore, { color: theme.colors.primary }]}>{attempt.score} / {attempt.maxScore}</Text>
+                        <Ionicons name="chevron-forward" size={16} color={theme.colors.textSecondary} />
+                    </TouchableOpacity>
+                ))}
+            </View>
+        );
+    };
+
     const fetchSets = async () => {
         try {
             setLoading(true);
@@ -66,6 +156,7 @@ const QuestionSetListScreen = ({ navigation }) => {
                 </View>
             ) : (
                 <ScrollView contentContainerStyle={styles.listContainer}>
+                    {renderMockSection()}
                     {sets.map((set) => (
                         <TouchableOpacity
                             key={set.id}
@@ -84,6 +175,10 @@ const QuestionSetListScreen = ({ navigation }) => {
                                     <View style={[styles.yearBadge, { backgroundColor: isDark ? '#374151' : '#F3F4F6' }]}>
                                         <Text style={[styles.yearText, { color: theme.colors.textSecondary }]}>{set.year}</Text>
                                     </View>
+                                    <TouchableOpacity style={styles.mockLink} onPress={() => startMock(set)}>
+                                        <Ionicons name="timer-outline" size={14} color={theme.colors.primary} />
+                                        <Text style={[styles.mockLinkText, { color: theme.colors.primary }]}>Take as timed test</Text>
+                                    </TouchableOpacity>
                                 </View>
                             </View>
                             <Ionicons name="chevron-forward" size={20} color={theme.colors.textSecondary} />
@@ -185,6 +280,55 @@ const styles = StyleSheet.create({
         fontSize: 11,
         fontWeight: '600',
     },
+    mockLink: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+        marginLeft: 12,
+    },
+    mockLinkText: {
+        fontSize: 12,
+        fontWeight: '600',
+    },
+    mockSection: {
+        marginBottom: 24,
+    },
+    mockBanner: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        padding: 16,
+        borderRadius: 16,
+        gap: 16,
+        marginBottom: 8,
+    },
+    mockBannerTitle: {
+        color: '#FFF',
+        fontSize: 16,
+        fontWeight: '700',
+        marginBottom: 2,
+    },
+    mockBannerText: {
+        color: 'rgba(255, 255, 255, 0.85)',
+        fontSize: 12,
+    },
+    attemptRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingHorizontal: 16,
+        paddingVertical: 12,
+        borderRadius: 12,
+        marginTop: 8,
+        gap: 8,
+    },
+    attemptTitle: {
+        flex: 1,
+        fontSize: 14,
+        fontWeight: '500',
+    },
+    attemptScore: {
+        fontSize: 14,
+        fontWeight: '700',
+    },
 });
 
 export default QuestionSetListScreen;
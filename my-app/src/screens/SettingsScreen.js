@@ -23,6 +23,7 @@ import {
 import { useAuth } from '../context/AuthContext';
 import { useTheme } from '../features/Reference/theme/ThemeContext';
 import { useWebStyles } from '../components/WebContainer';
+import { CONTENT_LANGUAGES, setContentLanguage } from '../utils/contentLanguage';
 
 export default function SettingsScreen({ navigation }) {
   const { user, signOut, deleteAccount } = useAuth();
@@ -76,6 +77,11 @@ export default function SettingsScreen({ navigation }) {
     }
   };
 
+  const handleLanguageChange = async (language) => {
+    setSettings({ ...settings, language });
+    await setContentLanguage(language);
+  };
+
   const handleTimeChange = async (time) => {
     setSettings({ ...settings, reminderTime: time });
     await updateSettings({ reminderTime: time });
@@ -343,6 +349,49 @@ export default function SettingsScreen({ navigation }) {
           </View>
         </View>
 
+        {/* Language Section */}
+        <Text style={[styles.sectionTitle, { color: theme.colors.textSecondary }]}>Language</Text>
+        <View style={[styles.card, { backgroundColor: theme.colors.surface }]}>
+          <View style={styles.settingRow}>
+            <View style={styles.settingInfo}>
+              <View style={[styles.iconBadge, { backgroundColor: '#E5F3FF' }]}>
+                <Ionicons name="language" size={20} color="#007AFF" />
+              </View>
+              <View style={styles.settingText}>
+                <Text style={[styles.settingTitle, { color: theme.colors.text }]}>Content Language</Text>
+                <Text style={[styles.settingDesc, { color: theme.colors.textSecondary }]}>
+                  Articles, MCQs and reference cards. Untranslated content stays in English.
+                </Text>
+              </View>
+            </View>
+          </View>
+          <View style={styles.timeSection}>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.timeScroll}>
+              {CONTENT_LANGUAGES.map(({ label }) => (
+                <TouchableOpacity
+                  key={label}
+                  style={[
+                    styles.timeChip,
+                    { backgroundColor: theme.colors.surfaceSecondary },
+                    settings.language === label && { backgroundColor: theme.colors.primaryLight, borderColor: theme.colors.primary },
+                  ]}
+                  onPress={() => handleLanguageChange(label)}
+                >
+                  <Text
+                    style={[
+                      styles.timeChipText,
+                      { color: theme.colors.text },
+                      settings.language === label && { color: theme.colors.primary },
+                    ]}
+                  >
+                    {label === 'Hindi' ? 'हिन्दी' : label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          </View>
+        </View>
+
         {/* Notifications Section */}
         <Text style={[styles.sectionTitle, { color: theme.colors.textSecondary }]}>Notifications</Text>
         <View style={[styles.card, { backgroundColor: theme.colors.surface }]}>
@@ -0,0 +1,449 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+  Vibration,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { LinearGradient } from 'expo-linear-gradient';
+import { Ionicons } from '@expo/vector-icons';
+import { useRoadmap } from '../context/RoadmapContext';
+import { useTheme } from '../features/Reference/theme/ThemeContext';
+import { useWebStyles } from '../components/WebContainer';
+import { trackStudySession, MIN_SESSION_SECONDS } from '../utils/studyTracker';
+
+const FOCUS_MINUTES = 25;
+const SHORT_BREAK_MINUTES = 5;
+const LONG_BREAK_MINUTES = 15;
+const POMODOROS_PER_LONG_BREAK = 4;
+
+const formatClock = (totalSeconds) => {
+  const seconds = Math.max(0, Math.round(totalSeconds));
+  const hours = Math.floor(seconds / 3600);
+  const mins = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+  const mmss = `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+};
+
+export default function StudyTimerScreen({ navigation, route }) {
+  const { theme } = useTheme();
+  const { horizontalPadding } = useWebStyles();
+  const { topics } = useRoadmap();
+  const [topicId, setTopicId] = useState(route.params?.topicId || null);
+  const [mode, setMode] = useState('pomodoro'); // 'pomodoro' | 'timer'
+  const [phase, setPhase] = useState('focus'); // 'focus' | 'break'
+  const [running, setRunning] = useState(false);
+  const [completedPomodoros, setCompletedPomodoros] = useState(0);
+  const [loggedMinutes, setLoggedMinutes] = useState(0);
+  const [, setTick] = useState(0);
+
+  // Wall-clock based so the time stays right while the app is in the background
+  const timing = useRef({ startedAt: null, resumedAt: null, elapsedMs: 0 });
+
+  const topic = topics.find(t => t.id === topicId) || null;
+
+  const elapsedSeconds = () => {
+    const { resumedAt, elapsedMs } = timing.current;
+    return (elapsedMs + (resumedAt ? Date.now() - resumedAt : 0)) / 1000;
+  };
+
+  const breakMinutes = (completedPomodoros > 0 && completedPomodoros % POMODOROS_PER_LONG_BREAK === 0)
+    ? LONG_BREAK_MINUTES
+    : SHORT_BREAK_MINUTES;
+  const phaseSeconds = mode === 'pomodoro'
+    ? (phase === 'focus' ? FOCUS_MINUTES : breakMinutes) * 60
+    : null;
+
+  const logFocus = async (seconds) => {
+    const { startedAt } = timing.current;
+    if (!startedAt || seconds < MIN_SESSION_SECONDS) return;
+
+    await trackStudySession({
+      source: mode,
+      durationSeconds: seconds,
+      startedAt,
+      topicId: topic?.id || null,
+      topicName: topic?.name || null,
+      title: topic ? `Studied ${topic.name}` : 'Study session',
+    });
+    setLoggedMinutes(prev => prev + Math.round(seconds / 60));
+  };
+
+  const resetTiming = () => {
+    timing.current = { startedAt: null, resumedAt: null, elapsedMs: 0 };
+  };
+
+  // Log a running focus session if the user leaves the screen
+  const latest = useRef({});
+  latest.current = { phase, logFocus, elapsedSeconds };
+  useEffect(() => () => {
+    if (latest.current.phase === 'focus') {
+      latest.current.logFocus(latest.current.elapsedSeconds());
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!running) return undefined;
+
+    const interval = setInterval(() => {
+      setTick(t => t + 1);
+      if (phaseSeconds && elapsedSeconds() >= phaseSeconds) {
+        finishPhase();
+      }
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [running, phase, mode, phaseSeconds]);
+
+  const finishPhase = async () => {
+    Vibration.vibrate(500);
+
+    if (phase === 'focus') {
+      await logFocus(phaseSeconds);
+      setCompletedPomodoros(prev => prev + 1);
+      setPhase('break');
+      timing.current = { startedAt: new Date(), resumedAt: Date.now(), elapsedMs: 0 };
+      Alert.alert('Focus session done', 'Take a break. The break timer has started.');
+    } else {
+      setPhase('focus');
+      setRunning(false);
+      resetTiming();
+      Alert.alert('Break over', 'Ready for the next focus session?');
+    }
+  };
+
+  const start = () => {
+    const now = Date.now();
+    if (!timing.current.startedAt) timing.current.startedAt = new Date(now);
+    timing.current.resumedAt = now;
+    setRunning(true);
+  };
+
+  const pause = () => {
+    const { resumedAt, elapsedMs } = timing.current;
+    timing.current.elapsedMs = elapsedMs + (resumedAt ? Date.now() - resumedAt : 0);
+    timing.current.resumedAt = null;
+    setRunning(false);
+  };
+
+  const stop = async () => {
+    const seconds = elapsedSeconds();
+    setRunning(false);
+    if (phase === 'focus') {
+      await logFocus(seconds);
+    }
+    resetTiming();
+    setPhase('focus');
+  };
+
+  const switchMode = (next) => {
+    if (next === mode) return;
+    if (timing.current.startedAt) {
+      Alert.alert('Timer running', 'Stop the current session before switching modes.');
+      return;
+    }
+    setMode(next);
+    setPhase('focus');
+  };
+
+  const elapsed = elapsedSeconds();
+  const display = phaseSeconds ? phaseSeconds - elapsed : elapsed;
+  const progress = phaseSeconds ? Math.min(elapsed / phaseSeconds, 1) : 0;
+  const isBreak = phase === 'break';
+  const hasStarted = !!timing.current.startedAt;
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
+      <ScrollView showsVerticalScrollIndicator={false} contentContainerStyle={[styles.scrollContent, { paddingHorizontal: horizontalPadding || 20 }]}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+            <Text style={[styles.backText, { color: theme.colors.primary }]}>← Back</Text>
+          </TouchableOpacity>
+          <Text style={[styles.title, { color: theme.colors.text }]}>Study Timer</Text>
+          <Text style={[styles.subtitle, { color: theme.colors.textSecondary }]}>
+            Time you log here counts towards your roadmap
+          </Text>
+        </View>
+
+        {/* Mode Toggle */}
+        <View style={[styles.modeToggle, { backgroundColor: theme.colors.surface }]}>
+          {[
+            { key: 'pomodoro', label: 'Pomodoro', icon: 'timer' },
+            { key: 'timer', label: 'Stopwatch', icon: 'stopwatch' },
+          ].map(option => (
+            <TouchableOpacity
+              key={option.key}
+              style={[styles.modeOption, mode === option.key && { backgroundColor: theme.colors.primary }]}
+              onPress={() => switchMode(option.key)}
+            >
+              <Ionicons name={option.icon} size={16} color={mode === option.key ? '#FFF' : theme.colors.textSecondary} />
+              <Text style={[styles.modeText, { color: mode === option.key ? '#FFF' : theme.colors.textSecondary }]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {/* Clock */}
+        <LinearGradient
+          colors={isBreak ? ['#11998e', '#38ef7d'] : ['#667eea', '#764ba2']}
+          start={{ x: 0, y: 0 }}
+          end={{ x: 1, y: 1 }}
+          style={styles.clockCard}
+        >
+          <Text style={styles.phaseLabel}>
+            {mode === 'timer' ? 'Stopwatch' : isBreak ? `${breakMinutes} min break` : `Focus · ${FOCUS_MINUTES} min`}
+          </Text>
+          <Text style={styles.clockText}>{formatClock(display)}</Text>
+          {phaseSeconds && (
+            <View style={styles.clockTrack}>
+              <View style={[styles.clockFill, { width: `${progress * 100}%` }]} />
+            </View>
+          )}
+          <Text style={styles.clockTopic} numberOfLines={1}>
+            {topic ? `${topic.icon || '📚'} ${topic.name}` : 'No topic selected'}
+          </Text>
+        </LinearGradient>
+
+        {/* Controls */}
+        <View style={styles.controls}>
+          {running ? (
+            <TouchableOpacity style={[styles.controlButton, { backgroundColor: theme.colors.surface }]} onPress={pause}>
+              <Ionicons name="pause" size={22} color={theme.colors.primary} />
+              <Text style={[styles.controlText, { color: theme.colors.text }]}>Pause</Text>
+            </TouchableOpacity>
+          ) : (
+            <TouchableOpacity style={[styles.controlButton, { backgroundColor: theme.colors.primary }]} onPress={start}>
+              <Ionicons name="play" size={22} color="#FFF" />
+              <Text style={[styles.controlText, { color: '#FFF' }]}>{hasStarted ? 'Resume' : 'Start'}</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            style={[styles.controlButton, { backgroundColor: theme.colors.surface }]}
+            onPress={stop}
+            disabled={!hasStarted}
+          >
+            <Ionicons name="stop" size={22} color={hasStarted ? theme.colors.error : theme.colors.textTertiary} />
+            <Text style={[styles.controlText, { color: hasStarted ? theme.colors.text : theme.colors.textTertiary }]}>
+              {isBreak ? 'Skip Break' : 'Stop & Log'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* Today */}
+        <View style={[styles.summaryCard, { backgroundColor: theme.colors.surface }]}>
+          <View style={styles.summaryItem}>
+            <Text style={[styles.summaryValue, { color: theme.colors.text }]}>{completedPomodoros}</Text>
+            <Text style={[styles.summaryLabel, { color: theme.colors.textSecondary }]}>Pomodoros</Text>
+          </View>
+          <View style={[styles.summaryDivider, { backgroundColor: theme.colors.border }]} />
+          <View style={styles.summaryItem}>
+            <Text style={[styles.summaryValue, { color: theme.colors.text }]}>{loggedMinutes}m</Text>
+            <Text style={[styles.summaryLabel, { color: theme.colors.textSecondary }]}>Logged</Text>
+          </View>
+        </View>
+
+        {/* Topic Picker */}
+        <View style={styles.section}>
+          <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>
+            <Ionicons name="book" size={16} color={theme.colors.text} /> What are you studying?
+          </Text>
+          <View style={styles.topicGrid}>
+            <TouchableOpacity
+              style={[
+                styles.topicChip,
+                { backgroundColor: theme.colors.surface, borderColor: theme.colors.border },
+                !topicId && { borderColor: theme.colors.primary },
+              ]}
+              onPress={() => setTopicId(null)}
+              disabled={hasStarted}
+            >
+              <Text style={[styles.topicChipText, { color: theme.colors.textSecondary }]}>No topic</Text>
+            </TouchableOpacity>
+            {topics.map(t => (
+              <TouchableOpacity
+                key={t.id}
+                style={[
+                  styles.topicChip,
+                  { backgroundColor: theme.colors.surface, borderColor: theme.colors.border },
+                  topicId === t.id && { borderColor: theme.colors.primary, backgroundColor: theme.colors.primary + '15' },
+                ]}
+                onPress={() => setTopicId(t.id)}
+                disabled={hasStarted}
+              >
+                <Text style={[styles.topicChipText, { color: theme.colors.text }]} numberOfLines={1}>
+                  {t.icon || '📚'} {t.name}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          {hasStarted && (
+            <Text style={[styles.topicHint, { color: theme.colors.textSecondary }]}>
+              Stop the timer to change the topic
+            </Text>
+          )}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F2F2F7',
+  },
+  scrollContent: {
+    paddingTop: 16,
+    paddingBottom: 40,
+  },
+  header: {
+    marginBottom: 20,
+  },
+  backButton: {
+    marginBottom: 12,
+  },
+  backText: {
+    fontSize: 17,
+    color: '#007AFF',
+  },
+  title: {
+    fontSize: 34,
+    fontWeight: '700',
+    color: '#1C1C1E',
+    letterSpacing: -0.8,
+  },
+  subtitle: {
+    fontSize: 15,
+    color: '#8E8E93',
+    marginTop: 4,
+  },
+  modeToggle: {
+    flexDirection: 'row',
+    borderRadius: 14,
+    padding: 4,
+    marginBottom: 20,
+  },
+  modeOption: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 10,
+    borderRadius: 10,
+  },
+  modeText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  clockCard: {
+    borderRadius: 24,
+    padding: 28,
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  phaseLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: 'rgba(255,255,255,0.85)',
+    marginBottom: 8,
+  },
+  clockText: {
+    fontSize: 64,
+    fontWeight: '800',
+    color: '#FFF',
+    fontVariant: ['tabular-nums'],
+  },
+  clockTrack: {
+    width: '100%',
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: 'rgba(255,255,255,0.3)',
+    marginTop: 16,
+    overflow: 'hidden',
+  },
+  clockFill: {
+    height: '100%',
+    backgroundColor: '#FFF',
+  },
+  clockTopic: {
+    fontSize: 15,
+    color: '#FFF',
+    marginTop: 16,
+    fontWeight: '500',
+  },
+  controls: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 20,
+  },
+  controlButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 14,
+    borderRadius: 14,
+  },
+  controlText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  summaryCard: {
+    flexDirection: 'row',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 24,
+  },
+  summaryItem: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  summaryValue: {
+    fontSize: 22,
+    fontWeight: '700',
+  },
+  summaryLabel: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  summaryDivider: {
+    width: 1,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1C1C1E',
+    marginBottom: 12,
+  },
+  topicGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  topicChip: {
+    borderWidth: 1.5,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    maxWidth: '100%',
+  },
+  topicChipText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  topicHint: {
+    fontSize: 12,
+    marginTop: 8,
+  },
+});
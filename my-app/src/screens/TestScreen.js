@@ -11,6 +11,16 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useTheme } from '../features/Reference/theme/ThemeContext';
 import { useWebStyles } from '../components/WebContainer';
+import { useStudyTimeTracking } from '../hooks/useStudyTimeTracking';
+
+// The tags most questions in the test share, for matching the test to a roadmap topic
+const commonTags = (questions) => {
+  const counts = {};
+  questions.forEach(q => (q.systemTags || []).forEach(tag => {
+    counts[tag] = (counts[tag] || 0) + 1;
+  }));
+  return Object.keys(counts).sort((a, b) => counts[b] - counts[a]).slice(0, 5);
+};
 
 export default function TestScreen({ navigation, route }) {
   const { theme, isDark } = useTheme();
@@ -26,6 +36,12 @@ export default function TestScreen({ navigation, route }) {
   const [testStartTime] = useState(Date.now());
   const progressAnim = useRef(new Animated.Value(0)).current;
 
+  useStudyTimeTracking({
+    source: 'mcq',
+    title: `${questions.length}-question MCQ test`,
+    topicHints: commonTags(questions),
+  }, questions.length > 0);
+
   // Timer
   useEffect(() => {
     const timer = setInterval(() => {
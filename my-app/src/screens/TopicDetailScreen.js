@@ -27,8 +27,8 @@ import {
   markSubtopicComplete,
   markSourceComplete,
   updateRevisionStatus,
-  logStudySession,
 } from '../utils/roadmapStorage';
+import { trackStudySession } from '../utils/studyTracker';
 import { useTheme } from '../features/Reference/theme/ThemeContext';
 import { useWebStyles } from '../components/WebContainer';
 import { Input } from '../components/Input';
@@ -140,16 +140,20 @@ export default function TopicDetailScreen({ navigation, route }) {
     Alert.alert('Saved', 'Notes saved successfully!');
   };
 
-  const toggleStudyTimer = () => {
+  const toggleStudyTimer = async () => {
     if (isStudying) {
       // Stop timer and log session
       clearInterval(timerRef.current);
       if (studyTimer > 60) { // Only log if studied for more than 1 minute
-        logStudySession({
+        await trackStudySession({
+          source: 'timer',
+          durationSeconds: studyTimer,
+          startedAt: new Date(Date.now() - studyTimer * 1000),
           topicId,
           topicName: topic.name,
-          duration: Math.round(studyTimer / 60),
+          title: `Studied ${topic.name}`,
         });
+        loadProgress();
         Alert.alert(
           '📚 Session Logged',
           `You studied for ${Math.round(studyTimer / 60)} minutes!`
@@ -270,6 +274,9 @@ export default function TopicDetailScreen({ navigation, route }) {
             <Text style={[styles.timerHours, { color: theme.colors.textSecondary }]}>
               Total: {Math.round(progress.hoursStudied || 0)}h studied
             </Text>
+            <TouchableOpacity onPress={() => navigation.navigate('StudyTimer', { topicId })} disabled={isStudying}>
+              <Text style={[styles.timerHours, { color: theme.colors.primary }]}>Use Pomodoro ›</Text>
+            </TouchableOpacity>
           </View>
           <TouchableOpacity onPress={toggleStudyTimer}>
             <LinearGradient
@@ -0,0 +1,89 @@
+import { getMobileApiEndpoint } from '../config/api';
+import { getAuthHeaders, isCreditError } from './billingService';
+
+/**
+ * Evaluate a multi-page handwritten answer (photos and/or a PDF).
+ * The server transcribes each page, scores it on the rubric and saves it to history.
+ */
+export const evaluateHandwrittenAnswer = async ({ userId, question, marks, wordLimit, images = [], pdf = null }) => {
+  try {
+    const url = getMobileApiEndpoint('/essay/evaluate');
+
+    console.log('[AnswerEvaluationAPI] Evaluating', images.length, 'page(s)', pdf ? '+ PDF' : '');
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(await getAuthHeaders()),
+      },
+      body: JSON.stringify({
+        userId,
+        topic: question,
+        marks,
+        wordLimit,
+        images,
+        pdf,
+        isHandwritten: true,
+      }),
+    });
+
+    const data = await response.json();
+
+    // Out of credits or signed out; callers show the buy-credits prompt
+    if (isCreditError(data)) {
+      return { success: false, error: data.error, creditError: data };
+    }
+
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || data.details || `HTTP error! status: ${response.status}`);
+    }
+
+    return { success: true, evaluation: data.evaluation };
+  } catch (error) {
+    console.error('[AnswerEvaluationAPI] Error evaluating answer:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Fetch evaluation history with score trend stats
+ */
+export const fetchAnswerEvaluations = async (userId, limit = 20) => {
+  try {
+    const url = getMobileApiEndpoint(`/essay/evaluations?userId=${userId}&limit=${limit}`);
+
+    const response = await fetch(url, { headers: await getAuthHeaders() });
+    const data = await response.json();
+
+    if (!data.success) {
+      throw new Error(data.error || 'Failed to fetch evaluations');
+    }
+
+    return { success: true, evaluations: data.evaluations, stats: data.stats };
+  } catch (error) {
+    console.error('[AnswerEvaluationAPI] Error fetching evaluations:', error);
+    return { success: false, error: error.message, evaluations: [], stats: null };
+  }
+};
+
+/**
+ * Fetch a single evaluation with transcribed pages and annotations
+ */
+export const fetchAnswerEvaluation = async (userId, evaluationId) => {
+  try {
+    const url = getMobileApiEndpoint(`/essay/evaluations/${evaluationId}?userId=${userId}`);
+
+    const response = await fetch(url, { headers: await getAuthHeaders() });
+    const data = await response.json();
+
+    if (!data.success) {
+      throw new Error(data.error || 'Failed to fetch evaluation');
+    }
+
+    return { success: true, evaluation: data.evaluation };
+  } catch (error) {
+    console.error('[AnswerEvaluationAPI] Error fetching evaluation:', error);
+    return { success: false, error: error.message };
+  }
+};
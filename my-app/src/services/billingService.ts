@@ -5,25 +5,45 @@
  * Integrates with DodoPayments for UPI payments
  */
 
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { supabase } from '../lib/supabase';
+import { getMobileApiEndpoint } from '../config/api';
 
 // ===================== TYPES =====================
 export interface SubscriptionPlan {
-    id: string;
+    id: string;             // DodoPayments product ID
     name: string;
-    plan_type: 'basic' | 'pro';
+    plan_type: string;
     price_inr: number;
     monthly_credits: number;
     features: string[];
-    max_response_length: 'medium' | 'long';
-    max_pdf_pages: number;
+    badge: string | null;
 }
 
 export interface CreditPackage {
-    id: string;
+    id: string;             // DodoPayments product ID
     name: string;
     credits: number;
     price_inr: number;
+    badge: string | null;
+}
+
+// Plan / credit pack as served by the admin pricing_config table
+interface PricingProduct {
+    key: string;
+    name: string;
+    credits: number;
+    priceInr: number;
+    productId: string;
+    perks: string[];
+    badge: string | null;
+}
+
+export interface PricingConfig {
+    features: Record<string, number>;
+    featureNames: Record<string, string>;
+    plans: PricingProduct[];
+    creditPacks: PricingProduct[];
 }
 
 export interface UserSubscription {
@@ -47,44 +67,117 @@ export interface CreditBalance {
 }
 
 // ===================== CREDIT COSTS =====================
-export const CREDIT_COSTS = {
+// Defaults until loadPricing() fetches the admin-managed costs
+const DEFAULT_CREDIT_COSTS = {
     summary: 1,
     mind_map: 2,
     mcq_generator: 3,
-    pdf_mcq: 5,  // Average of 4-6
+    pdf_mcq: 5,
     essay_evaluation: 3,
+    essay_generation: 3,
+};
+
+export type FeatureType = keyof typeof DEFAULT_CREDIT_COSTS;
+
+// Updated in place by loadPricing() so existing imports see current costs
+export const CREDIT_COSTS: Record<FeatureType, number> = { ...DEFAULT_CREDIT_COSTS };
+
+const FEATURE_NAMES: Record<string, string> = {
+    summary: 'AI Summary',
+    mind_map: 'Mind Map',
+    mcq_generator: 'MCQ Generator',
+    pdf_mcq: 'PDF to MCQ',
+    essay_evaluation: 'Essay Evaluation',
+    essay_generation: 'Model Essay',
+};
+
+// ===================== SERVER-METERED AI ROUTES =====================
+// AI routes on the admin API debit credits themselves and answer 401 / 402
+// with one of these codes (see admin-panel lib/credits.ts)
+export const CREDIT_ERROR_CODES = {
+    unauthenticated: 'AUTH_REQUIRED',
+    insufficient: 'INSUFFICIENT_CREDITS',
 } as const;
 
-export type FeatureType = keyof typeof CREDIT_COSTS;
+export interface CreditError {
+    code: typeof CREDIT_ERROR_CODES[keyof typeof CREDIT_ERROR_CODES];
+    error: string;
+    feature?: FeatureType;
+    required?: number;
+    balance?: number;
+}
 
 // ===================== API FUNCTIONS =====================
 
+let pricingConfig: PricingConfig | null = null;
+
+/**
+ * Fetch feature costs, plans and credit packs from the admin pricing config.
+ * Cached for the session; pass force to refetch (e.g. on pull-to-refresh).
+ */
+export async function loadPricing(force = false): Promise<PricingConfig | null> {
+    if (pricingConfig && !force) return pricingConfig;
+
+    try {
+        const response = await fetch(getMobileApiEndpoint('/pricing'));
+        const data = await response.json();
+
+        if (!data.success) {
+            throw new Error(data.error || 'Failed to load pricing');
+        }
+
+        pricingConfig = {
+            features: data.features || {},
+            featureNames: data.featureNames || {},
+            plans: data.plans || [],
+            creditPacks: data.creditPacks || [],
+        };
+
+        for (const feature of Object.keys(CREDIT_COSTS) as FeatureType[]) {
+            if (typeof pricingConfig.features[feature] === 'number') {
+                CREDIT_COSTS[feature] = pricingConfig.features[feature];
+            }
+        }
+        Object.assign(FEATURE_NAMES, pricingConfig.featureNames);
+    } catch (error) {
+        console.error('[Billing] Error loading pricing:', error);
+    }
+
+    return pricingConfig;
+}
+
 /**
  * Get all available subscription plans
  */
 export async function getSubscriptionPlans(): Promise<SubscriptionPlan[]> {
-    const { data, error } = await supabase
-        .from('subscription_plans')
-        .select('*')
-        .eq('is_active', true)
-        .order('price_inr');
-
-    if (error) throw error;
-    return data || [];
+    const pricing = await loadPricing();
+    if (!pricing) throw new Error('Pricing unavailable');
+
+    return pricing.plans.map(plan => ({
+        id: plan.productId,
+        name: plan.name,
+        plan_type: plan.key,
+        price_inr: plan.priceInr,
+        monthly_credits: plan.credits,
+        features: plan.perks,
+        badge: plan.badge,
+    }));
 }
 
 /**
  * Get all available credit packages
  */
 export async function getCreditPackages(): Promise<CreditPackage[]> {
-    const { data, error } = await supabase
-        .from('credit_packages')
-        .select('*')
-        .eq('is_active', true)
-        .order('price_inr');
-
-    if (error) throw error;
-    return data || [];
+    const pricing = await loadPricing();
+    if (!pricing) throw new Error('Pricing unavailable');
+
+    return pricing.creditPacks.map(pack => ({
+        id: pack.productId,
+        name: pack.name,
+        credits: pack.credits,
+        price_inr: pack.priceInr,
+        badge: pack.badge,
+    }));
 }
 
 /**
@@ -222,7 +315,7 @@ export async function getPaymentHistory(limit = 20) {
 /**
  * Create checkout URL for subscription via DodoPayments
  */
-export async function createSubscriptionCheckout(planType: 'basic' | 'pro'): Promise<string> {
+export async function createSubscriptionCheckout(planType: string): Promise<string> {
     const { data: { user } } = await supabase.auth.getUser();
 
     if (!user) throw new Error('Not authenticated');
@@ -338,12 +431,89 @@ export function formatPrice(priceInr: number): string {
  * Get feature display name
  */
 export function getFeatureDisplayName(feature: FeatureType): string {
-    const names: Record<FeatureType, string> = {
-        summary: 'AI Summary',
-        mind_map: 'Mind Map',
-        mcq_generator: 'MCQ Generator',
-        pdf_mcq: 'PDF to MCQ',
-        essay_evaluation: 'Essay Evaluation'
-    };
-    return names[feature];
+    return FEATURE_NAMES[feature] || feature.replace('_', ' ');
+}
+
+const GUEST_TOKEN_KEY = '@upsc_guest_token';
+
+/**
+ * Fetch and store a bearer token for a guest (keyed by the device's guest id).
+ * Best effort: guest mode still works offline without one.
+ */
+export async function refreshGuestToken(guestId: string): Promise<void> {
+    try {
+        const response = await fetch(getMobileApiEndpoint('/auth/guest'), {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ deviceId: guestId }),
+        });
+        const data = await response.json();
+        if (response.ok && data.token) {
+            await AsyncStorage.setItem(GUEST_TOKEN_KEY, data.token);
+        }
+    } catch (error) {
+        console.warn('[Billing] Could not get a guest token:', error);
+    }
+}
+
+export async function clearGuestToken(): Promise<void> {
+    await AsyncStorage.removeItem(GUEST_TOKEN_KEY);
+}
+
+let guestUpgrade: Promise<boolean> | null = null;
+
+/**
+ * Hand the stored guest account over to the user who just signed in, proving
+ * ownership with the guest token. The token is cleared only once the server has
+ * upgraded the guest, so a failed attempt is retried on the next sign-in.
+ * Resolves to true if a guest was upgraded.
+ */
+export function upgradeGuestAccount(accessToken: string): Promise<boolean> {
+    // Sign-up and the auth state listener can both report the same sign-in
+    guestUpgrade = guestUpgrade || (async () => {
+        try {
+            const guestToken = await AsyncStorage.getItem(GUEST_TOKEN_KEY);
+            if (!guestToken) return false;
+
+            const response = await fetch(getMobileApiEndpoint('/auth/upgrade'), {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    Authorization: `Bearer ${accessToken}`,
+                },
+                body: JSON.stringify({ guestToken }),
+            });
+            const data = await response.json();
+            if (!response.ok || !data.success) {
+                console.warn('[Billing] Guest upgrade failed:', data.error);
+                return false;
+            }
+
+            await clearGuestToken();
+            return true;
+        } catch (error) {
+            console.warn('[Billing] Could not upgrade the guest account:', error);
+            return false;
+        } finally {
+            guestUpgrade = null;
+        }
+    })();
+    return guestUpgrade;
+}
+
+/**
+ * Authorization header for user-scoped routes: the signed-in user's Supabase
+ * token, or the guest token from refreshGuestToken
+ */
+export async function getAuthHeaders(): Promise<Record<string, string>> {
+    const { data: { session } } = await supabase.auth.getSession();
+    const token = session?.access_token || await AsyncStorage.getItem(GUEST_TOKEN_KEY);
+    return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+/**
+ * Whether an API error body is a credit/auth rejection from a metered route
+ */
+export function isCreditError(data: any): data is CreditError {
+    return !!data && Object.values(CREDIT_ERROR_CODES).includes(data.code);
 }
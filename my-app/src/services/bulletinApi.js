@@ -0,0 +1,23 @@
+import { getMobileApiEndpoint } from '../config/api';
+
+/**
+ * Fetch the published daily bulletin for a date (YYYY-MM-DD), or the latest one.
+ * Also returns the recent dates that have a bulletin, for the date switcher.
+ */
+export const fetchBulletin = async (date = null) => {
+  try {
+    const url = getMobileApiEndpoint(date ? `/bulletins?date=${date}` : '/bulletins');
+
+    const response = await fetch(url);
+    const data = await response.json();
+
+    if (!data.success) {
+      throw new Error(data.error || 'Failed to fetch bulletin');
+    }
+
+    return { success: true, bulletin: data.bulletin, availableDates: data.availableDates || [] };
+  } catch (error) {
+    console.error('[BulletinAPI] Error fetching bulletin:', error);
+    return { success: false, error: error.message, bulletin: null, availableDates: [] };
+  }
+};
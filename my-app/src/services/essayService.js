@@ -1,236 +1,152 @@
 /**
- * Essay Service - Future Supabase Integration
- * 
- * This file contains functions for syncing essay data with Supabase.
- * Currently, the app uses local storage only (AsyncStorage).
- * Uncomment and configure these functions when you're ready to enable cloud sync.
+ * Essay Service
+ *
+ * Essays are evaluated on the device and saved to the server (/api/mobile/essays)
+ * so history and score trends follow the user across devices. Local storage
+ * keeps a copy for offline access and for signed-out users.
  */
 
-import { supabase } from '../lib/supabase';
-import { saveEssayAttempt, getEssayAttempts } from '../utils/storage';
+import { getMobileApiEndpoint } from '../config/api';
+import { getAuthHeaders } from './billingService';
+import { saveEssayAttempt } from '../utils/storage';
 
 /**
- * Save essay to Supabase (Future Implementation)
- * @param {Object} essayData - Essay data to save
- * @returns {Promise<Object>} Saved essay with evaluation
+ * The structured feedback the server stores, from the on-device evaluation
+ * (which uses richer field names than the server-side evaluator)
+ */
+const toEssayFeedback = (evaluation = {}) => ({
+    examinerRemark: evaluation.overallVerdict || evaluation.examinerRemark,
+    strengths: evaluation.strengths || [],
+    weaknesses: evaluation.criticalWeaknesses || evaluation.weaknesses || [],
+    improvementPlan: evaluation.actionPlan?.immediate || evaluation.improvementPlan || [],
+    rewrittenIntro: evaluation.modelAnswerOutline?.suggestedIntro || evaluation.rewrittenIntro,
+    rewrittenConclusion: evaluation.modelAnswerOutline?.suggestedConclusion || evaluation.rewrittenConclusion,
+    detailedFeedback: evaluation.detailedFeedback || {
+        content: evaluation.content?.depthAnalysis || '',
+        structure: evaluation.structure?.improvements || '',
+        language: evaluation.language?.vocabularyAssessment || '',
+        arguments: evaluation.content?.balancedPerspective || '',
+        upscRelevance: evaluation.relevance?.topicAdherence || '',
+    },
+});
+
+/**
+ * Shape a saved server evaluation like an on-device one, so the essay screen
+ * can render past essays with the same components
+ */
+export const toDisplayEvaluation = (essay, evaluation) => ({
+    score: essay.score,
+    examinerRemark: evaluation?.examinerRemark,
+    strengths: evaluation?.strengths || [],
+    weaknesses: evaluation?.weaknesses || [],
+    actionPlan: { immediate: evaluation?.improvementPlan || [] },
+    modelAnswerOutline: {
+        suggestedIntro: evaluation?.rewrittenIntro,
+        suggestedConclusion: evaluation?.rewrittenConclusion,
+    },
+});
+
+/**
+ * Save an evaluated essay locally and, when signed in, to the server
+ * @returns {Promise<{ success: boolean, essay?: Object, error?: string }>}
  */
 export const saveEssayToCloud = async (essayData) => {
-    try {
-        // Get current user
-        const { data: { user }, error: userError } = await supabase.auth.getUser();
+    await saveEssayAttempt(essayData);
 
-        if (userError || !user) {
-            console.log('No user logged in, saving locally only');
-            return await saveEssayAttempt(essayData);
+    try {
+        const headers = await getAuthHeaders();
+        if (!headers.Authorization) {
+            return { success: false, error: 'Not signed in' };
         }
 
-        // Save essay to Supabase
-        const { data: essay, error: essayError } = await supabase
-            .from('essays')
-            .insert({
-                user_id: user.id,
+        const response = await fetch(getMobileApiEndpoint('/essays'), {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...headers },
+            body: JSON.stringify({
                 topic: essayData.topic,
-                answer_text: essayData.answerText,
-                word_count: essayData.wordCount,
+                answerText: essayData.answerText,
                 score: essayData.score,
-            })
-            .select()
-            .single();
-
-        if (essayError) throw essayError;
-
-        // Save evaluation to Supabase
-        const { data: evaluation, error: evalError } = await supabase
-            .from('essay_evaluations')
-            .insert({
-                essay_id: essay.id,
-                examiner_remark: essayData.evaluation.examinerRemark,
-                strengths: essayData.evaluation.strengths,
-                weaknesses: essayData.evaluation.weaknesses,
-                improvement_plan: essayData.evaluation.improvementPlan,
-                rewritten_intro: essayData.evaluation.rewrittenIntro,
-                rewritten_conclusion: essayData.evaluation.rewrittenConclusion,
-                detailed_feedback: essayData.evaluation.detailedFeedback,
-            })
-            .select()
-            .single();
-
-        if (evalError) throw evalError;
-
-        // Also save locally for offline access
-        await saveEssayAttempt(essayData);
-
-        return { essay, evaluation };
-    } catch (error) {
-        console.error('Error saving essay to cloud:', error);
-        // Fallback to local storage
-        return await saveEssayAttempt(essayData);
-    }
-};
-
-/**
- * Fetch essays from Supabase (Future Implementation)
- * @returns {Promise<Array>} Array of essays with evaluations
- */
-export const fetchEssaysFromCloud = async () => {
-    try {
-        // Get current user
-        const { data: { user }, error: userError } = await supabase.auth.getUser();
+                evaluation: toEssayFeedback(essayData.evaluation),
+            }),
+        });
+        const data = await response.json();
 
-        if (userError || !user) {
-            console.log('No user logged in, fetching from local storage');
-            return await getEssayAttempts();
+        if (!data.success) {
+            throw new Error(data.error || 'Failed to save essay');
         }
 
-        // Fetch essays with evaluations
-        const { data, error } = await supabase
-            .from('essays')
-            .select(`
-        *,
-        essay_evaluations (*)
-      `)
-            .eq('user_id', user.id)
-            .order('created_at', { ascending: false });
-
-        if (error) throw error;
-
-        // Transform data to match local storage format
-        const essays = data.map(essay => ({
-            id: essay.id,
-            topic: essay.topic,
-            answerText: essay.answer_text,
-            score: essay.score,
-            wordCount: essay.word_count,
-            evaluation: essay.essay_evaluations[0] ? {
-                examinerRemark: essay.essay_evaluations[0].examiner_remark,
-                strengths: essay.essay_evaluations[0].strengths,
-                weaknesses: essay.essay_evaluations[0].weaknesses,
-                improvementPlan: essay.essay_evaluations[0].improvement_plan,
-                rewrittenIntro: essay.essay_evaluations[0].rewritten_intro,
-                rewrittenConclusion: essay.essay_evaluations[0].rewritten_conclusion,
-                detailedFeedback: essay.essay_evaluations[0].detailed_feedback,
-            } : null,
-            createdAt: essay.created_at,
-        }));
-
-        return essays;
+        return { success: true, essay: data.essay };
     } catch (error) {
-        console.error('Error fetching essays from cloud:', error);
-        // Fallback to local storage
-        return await getEssayAttempts();
+        console.error('[EssayService] Error saving essay:', error);
+        return { success: false, error: error.message };
     }
 };
 
 /**
- * Delete essay from Supabase (Future Implementation)
- * @param {string} essayId - ID of essay to delete
- * @returns {Promise<boolean>} Success status
+ * Fetch essay history with score trend stats
+ * @param {'attempt'|'generated'} source - Evaluated attempts or generated model essays
  */
-export const deleteEssayFromCloud = async (essayId) => {
+export const fetchEssays = async (source = 'attempt', limit = 20) => {
     try {
-        // Get current user
-        const { data: { user }, error: userError } = await supabase.auth.getUser();
+        const response = await fetch(getMobileApiEndpoint(`/essays?source=${source}&limit=${limit}`), {
+            headers: await getAuthHeaders(),
+        });
+        const data = await response.json();
 
-        if (userError || !user) {
-            console.log('No user logged in');
-            return false;
+        if (!data.success) {
+            throw new Error(data.error || 'Failed to fetch essays');
         }
 
-        // Delete essay (cascade will delete evaluation)
-        const { error } = await supabase
-            .from('essays')
-            .delete()
-            .eq('id', essayId)
-            .eq('user_id', user.id);
-
-        if (error) throw error;
-
-        return true;
+        return { success: true, essays: data.essays, stats: data.stats };
     } catch (error) {
-        console.error('Error deleting essay from cloud:', error);
-        return false;
+        console.error('[EssayService] Error fetching essays:', error);
+        return { success: false, error: error.message, essays: [], stats: null };
     }
 };
 
 /**
- * Sync local essays to cloud (Future Implementation)
- * Call this when user logs in to sync offline data
+ * Fetch a single essay with its evaluation
  */
-export const syncLocalEssaysToCloud = async () => {
+export const fetchEssay = async (essayId) => {
     try {
-        const localEssays = await getEssayAttempts();
-
-        if (localEssays.length === 0) {
-            console.log('No local essays to sync');
-            return;
-        }
+        const response = await fetch(getMobileApiEndpoint(`/essays/${essayId}`), {
+            headers: await getAuthHeaders(),
+        });
+        const data = await response.json();
 
-        console.log(`Syncing ${localEssays.length} local essays to cloud...`);
-
-        for (const essay of localEssays) {
-            // Only sync essays that don't have a UUID (local-only essays)
-            if (essay.id.startsWith('essay_')) {
-                await saveEssayToCloud({
-                    topic: essay.topic,
-                    answerText: essay.answerText,
-                    score: essay.score,
-                    wordCount: essay.wordCount,
-                    evaluation: essay.evaluation,
-                });
-            }
+        if (!data.success) {
+            throw new Error(data.error || 'Failed to fetch essay');
         }
 
-        console.log('Sync complete!');
+        return { success: true, essay: data.essay, evaluation: data.evaluation };
     } catch (error) {
-        console.error('Error syncing essays to cloud:', error);
+        console.error('[EssayService] Error fetching essay:', error);
+        return { success: false, error: error.message };
     }
 };
 
 /**
- * Get essay statistics (Future Implementation)
- * @returns {Promise<Object>} Essay statistics
+ * Delete an essay and its evaluation from the server
+ * @returns {Promise<boolean>} Success status
  */
-export const getEssayStatistics = async () => {
+export const deleteEssayFromCloud = async (essayId) => {
     try {
-        const essays = await fetchEssaysFromCloud();
-
-        if (essays.length === 0) {
-            return {
-                totalEssays: 0,
-                averageScore: 0,
-                highestScore: 0,
-                lowestScore: 0,
-                totalWords: 0,
-            };
-        }
-
-        const scores = essays.map(e => e.score).filter(s => s !== null);
-        const totalWords = essays.reduce((sum, e) => sum + (e.wordCount || 0), 0);
-
-        return {
-            totalEssays: essays.length,
-            averageScore: scores.length > 0 ? Math.round(scores.reduce((a, b) => a + b, 0) / scores.length) : 0,
-            highestScore: scores.length > 0 ? Math.max(...scores) : 0,
-            lowestScore: scores.length > 0 ? Math.min(...scores) : 0,
-            totalWords,
-        };
+        const response = await fetch(getMobileApiEndpoint(`/essays/${essayId}`), {
+            method: 'DELETE',
+            headers: await getAuthHeaders(),
+        });
+        const data = await response.json();
+        return !!data.success;
     } catch (error) {
-        console.error('Error getting essay statistics:', error);
-        return {
-            totalEssays: 0,
-            averageScore: 0,
-            highestScore: 0,
-            lowestScore: 0,
-            totalWords: 0,
-        };
+        console.error('[EssayService] Error deleting essay:', error);
+        return false;
     }
 };
 
-// Export all functions
 export default {
     saveEssayToCloud,
-    fetchEssaysFromCloud,
+    fetchEssays,
+    fetchEssay,
     deleteEssayFromCloud,
-    syncLocalEssaysToCloud,
-    getEssayStatistics,
+    toDisplayEvaluation,
 };
@@ -0,0 +1,98 @@
+import { getMobileApiEndpoint } from '../config/api';
+import { getAuthHeaders, isCreditError } from './billingService';
+
+/**
+ * Fetch the published daily Mains questions for a date (YYYY-MM-DD), or the latest day.
+ * Signed-in users also get their attempt and, once answered, the model answer.
+ */
+export const fetchDailyMainsQuestions = async (date = null) => {
+  try {
+    const url = getMobileApiEndpoint(date ? `/mains/daily?date=${date}` : '/mains/daily');
+
+    const response = await fetch(url, { headers: await getAuthHeaders() });
+    const data = await response.json();
+
+    if (!data.success) {
+      throw new Error(data.error || 'Failed to fetch questions');
+    }
+
+    return { success: true, date: data.date, questions: data.questions, availableDates: data.availableDates || [] };
+  } catch (error) {
+    console.error('[MainsPracticeAPI] Error fetching questions:', error);
+    return { success: false, error: error.message, date: null, questions: [], availableDates: [] };
+  }
+};
+
+/**
+ * Submit an answer for evaluation. Returns the evaluation and the question with its model answer.
+ */
+export const submitMainsAnswer = async ({ questionId, answerText, timeTakenSeconds }) => {
+  try {
+    const response = await fetch(getMobileApiEndpoint('/mains/answers'), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(await getAuthHeaders()),
+      },
+      body: JSON.stringify({ questionId, answerText, timeTakenSeconds }),
+    });
+
+    const data = await response.json();
+
+    // Out of credits or signed out; callers show the buy-credits prompt
+    if (isCreditError(data)) {
+      return { success: false, error: data.error, creditError: data };
+    }
+
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || `HTTP error! status: ${response.status}`);
+    }
+
+    return { success: true, answer: data.answer, question: data.question };
+  } catch (error) {
+    console.error('[MainsPracticeAPI] Error submitting answer:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Fetch answer history with score trend stats
+ */
+export const fetchMainsAnswers = async (limit = 20) => {
+  try {
+    const response = await fetch(getMobileApiEndpoint(`/mains/answers?limit=${limit}`), {
+      headers: await getAuthHeaders(),
+    });
+    const data = await response.json();
+
+    if (!data.success) {
+      throw new Error(data.error || 'Failed to fetch answers');
+    }
+
+    return { success: true, answers: data.answers, stats: data.stats };
+  } catch (error) {
+    console.error('[MainsPracticeAPI] Error fetching answers:', error);
+    return { success: false, error: error.message, answers: [], stats: null };
+  }
+};
+
+/**
+ * Fetch a single evaluated answer with its question and model answer
+ */
+export const fetchMainsAnswer = async (answerId) => {
+  try {
+    const response = await fetch(getMobileApiEndpoint(`/mains/answers/${answerId}`), {
+      headers: await getAuthHeaders(),
+    });
+    const data = await response.json();
+
+    if (!data.success) {
+      throw new Error(data.error || 'Failed to fetch answer');
+    }
+
+    return { success: true, answer: data.answer, question: data.question };
+  } catch (error) {
+    console.error('[MainsPracticeAPI] Error fetching answer:', error);
+    return { success: false, error: error.message };
+  }
+};
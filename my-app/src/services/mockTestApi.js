@@ -0,0 +1,94 @@
+import { getMobileApiEndpoint } from '../config/api';
+import { getAuthHeaders } from './billingService';
+
+const request = async (path, options = {}) => {
+  const response = await fetch(getMobileApiEndpoint(path), {
+    headers: {
+      'Content-Type': 'application/json',
+      ...(await getAuthHeaders()),
+    },
+    ...options,
+  });
+  const data = await response.json();
+
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || `HTTP error! status: ${response.status}`);
+  }
+  return data;
+};
+
+/**
+ * Start a timed Prelims paper (or resume the one in progress).
+ * Omit questionSetId for a 100-question mix across every question bank.
+ */
+export const startMockTest = async (userId, questionSetId = null) => {
+  try {
+    console.log('[MockTestAPI] Starting mock test', questionSetId ? `for set ${questionSetId}` : '(mixed paper)');
+    const data = await request('/mock-tests', {
+      method: 'POST',
+      body: JSON.stringify({ userId, questionSetId }),
+    });
+    return { success: true, attempt: data.attempt, resumed: data.resumed };
+  } catch (error) {
+    console.error('[MockTestAPI] Error starting mock test:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Fetch a paper to resume, or its result once submitted
+ */
+export const fetchMockTest = async (userId, attemptId) => {
+  try {
+    const data = await request(`/mock-tests/${attemptId}?userId=${userId}`);
+    return { success: true, attempt: data.attempt };
+  } catch (error) {
+    console.error('[MockTestAPI] Error fetching mock test:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Save answers and review marks so the paper can be resumed on another device
+ */
+export const saveMockTestProgress = async (userId, attemptId, answers, markedForReview) => {
+  try {
+    const data = await request(`/mock-tests/${attemptId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ userId, answers, markedForReview }),
+    });
+    return { success: true, savedAt: data.savedAt };
+  } catch (error) {
+    console.error('[MockTestAPI] Error saving progress:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Submit the paper for scoring; the response reveals answers and explanations
+ */
+export const submitMockTest = async (userId, attemptId, answers, markedForReview) => {
+  try {
+    const data = await request(`/mock-tests/${attemptId}/submit`, {
+      method: 'POST',
+      body: JSON.stringify({ userId, answers, markedForReview }),
+    });
+    return { success: true, attempt: data.attempt };
+  } catch (error) {
+    console.error('[MockTestAPI] Error submitting mock test:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Submitted attempts plus the paper in progress, if any
+ */
+export const fetchMockTestHistory = async (userId) => {
+  try {
+    const data = await request(`/mock-tests?userId=${userId}`);
+    return { success: true, attempts: data.attempts, inProgress: data.inProgress };
+  } catch (error) {
+    console.error('[MockTestAPI] Error fetching history:', error);
+    return { success: false, error: error.message, attempts: [], inProgress: null };
+  }
+};
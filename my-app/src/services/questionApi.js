@@ -0,0 +1,37 @@
+import { getMobileApiEndpoint } from '../config/api';
+
+/**
+ * Browse the question bank. Filters: year, subject, topicId, difficulty, source,
+ * search, pyq (previous-year questions only), page, limit.
+ * Pass facets: true to also get the available years, subjects and topics with counts.
+ */
+export const fetchQuestions = async (filters = {}) => {
+  try {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== null && value !== undefined && value !== '') {
+        params.append(key, String(value));
+      }
+    });
+
+    const query = params.toString();
+    const url = getMobileApiEndpoint(query ? `/questions?${query}` : '/questions');
+
+    const response = await fetch(url);
+    const data = await response.json();
+
+    if (!data.success) {
+      throw new Error(data.error || 'Failed to fetch questions');
+    }
+
+    return {
+      success: true,
+      questions: data.questions || [],
+      pagination: data.pagination,
+      facets: data.facets || null,
+    };
+  } catch (error) {
+    console.error('[QuestionAPI] Error fetching questions:', error);
+    return { success: false, error: error.message, questions: [], pagination: null, facets: null };
+  }
+};
@@ -6,10 +6,9 @@ import { getMobileApiEndpoint } from '../config/api';
  */
 export const fetchVisualReferences = async (category = null) => {
   try {
-    let url = getMobileApiEndpoint('/references');
-    if (category) {
-      url += `?category=${encodeURIComponent(category)}`;
-    }
+    const url = getMobileApiEndpoint(
+      category ? `/references?category=${encodeURIComponent(category)}` : '/references'
+    );
     
     console.log('[ReferenceAPI] Fetching references from:', url);
     
@@ -81,10 +80,9 @@ export const fetchHistoryTimeline = async (historyType = 'indian') => {
  */
 export const fetchMaps = async (section = null) => {
   try {
-    let url = getMobileApiEndpoint('/maps');
-    if (section) {
-      url += `?section=${encodeURIComponent(section)}`;
-    }
+    const url = getMobileApiEndpoint(
+      section ? `/maps?section=${encodeURIComponent(section)}` : '/maps'
+    );
     
     console.log('[ReferenceAPI] Fetching maps from:', url);
     
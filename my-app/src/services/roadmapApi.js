@@ -5,10 +5,9 @@ import { getMobileApiEndpoint } from '../config/api';
  */
 export const fetchRoadmapTopics = async (paper = null) => {
   try {
-    let url = getMobileApiEndpoint('/roadmap');
-    if (paper && paper !== 'all') {
-      url += `?paper=${encodeURIComponent(paper)}`;
-    }
+    const url = getMobileApiEndpoint(
+      paper && paper !== 'all' ? `/roadmap?paper=${encodeURIComponent(paper)}` : '/roadmap'
+    );
     
     console.log('[RoadmapAPI] Fetching topics from:', url);
     
@@ -0,0 +1,79 @@
+import { getMobileApiEndpoint } from '../config/api';
+import { getAuthHeaders } from './billingService';
+
+/**
+ * Fetch the signed-in user's study plan from a date (YYYY-MM-DD, default today).
+ * `plan` is null until the user sets an exam date. The server rebuilds a plan the
+ * user has fallen behind on and reports it with `replanned`.
+ */
+export const fetchStudyPlan = async (date = null, days = 7) => {
+  try {
+    const query = date ? `?date=${date}&days=${days}` : `?days=${days}`;
+    const response = await fetch(getMobileApiEndpoint(`/study-plan${query}`), {
+      headers: await getAuthHeaders(),
+    });
+    const data = await response.json();
+
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || `HTTP error! status: ${response.status}`);
+    }
+
+    return { success: true, plan: data.plan, replanned: !!data.replanned };
+  } catch (error) {
+    console.error('[StudyPlanAPI] Error fetching plan:', error);
+    return { success: false, error: error.message, plan: null, replanned: false };
+  }
+};
+
+/**
+ * Set the exam date and daily study hours; the plan is rebuilt from today.
+ */
+export const saveStudyPlanSettings = async ({ examDate, dailyHours }) => {
+  try {
+    const response = await fetch(getMobileApiEndpoint('/study-plan'), {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(await getAuthHeaders()),
+      },
+      body: JSON.stringify({ examDate, dailyHours }),
+    });
+    const data = await response.json();
+
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || `HTTP error! status: ${response.status}`);
+    }
+
+    return { success: true, plan: data.plan };
+  } catch (error) {
+    console.error('[StudyPlanAPI] Error saving plan:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Tick a task on a plan day done or not done. Completed study tasks also update
+ * roadmap progress on the server.
+ */
+export const setStudyTaskCompleted = async (date, taskId, completed = true) => {
+  try {
+    const response = await fetch(getMobileApiEndpoint('/study-plan'), {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(await getAuthHeaders()),
+      },
+      body: JSON.stringify({ date, taskId, completed }),
+    });
+    const data = await response.json();
+
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || `HTTP error! status: ${response.status}`);
+    }
+
+    return { success: true, plan: data.plan };
+  } catch (error) {
+    console.error('[StudyPlanAPI] Error updating task:', error);
+    return { success: false, error: error.message };
+  }
+};
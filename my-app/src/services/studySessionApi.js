@@ -0,0 +1,51 @@
+import { getMobileApiEndpoint } from '../config/api';
+import { getAuthHeaders } from './billingService';
+
+/**
+ * Send queued study sessions. The server skips sessions it already has
+ * (same clientId), so a failed sync can simply be retried.
+ */
+export const syncStudySessions = async (sessions) => {
+  try {
+    const response = await fetch(getMobileApiEndpoint('/study-sessions'), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(await getAuthHeaders()),
+      },
+      body: JSON.stringify({ sessions }),
+    });
+    const data = await response.json();
+
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || `HTTP error! status: ${response.status}`);
+    }
+
+    return { success: true, recorded: data.recorded, skipped: data.skipped };
+  } catch (error) {
+    console.error('[StudySessionAPI] Error syncing sessions:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Fetch study time for the last `weeks` weeks: weekly and daily minutes, by source and topic
+ */
+export const fetchStudyTime = async (weeks = 8) => {
+  try {
+    const response = await fetch(getMobileApiEndpoint(`/study-sessions?weeks=${weeks}`), {
+      headers: await getAuthHeaders(),
+    });
+    const data = await response.json();
+
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || `HTTP error! status: ${response.status}`);
+    }
+
+    const { success, ...summary } = data;
+    return { success: true, summary };
+  } catch (error) {
+    console.error('[StudySessionAPI] Error fetching study time:', error);
+    return { success: false, error: error.message, summary: null };
+  }
+};
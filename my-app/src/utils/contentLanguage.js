@@ -0,0 +1,46 @@
+import { getSettings, updateSettings } from './storage';
+
+// Content language used for articles, MCQs and reference cards.
+// Kept in memory so request helpers can read it synchronously.
+export const CONTENT_LANGUAGES = [
+  { label: 'English', code: 'en' },
+  { label: 'Hindi', code: 'hi' },
+];
+
+let currentLanguage = 'en';
+
+const codeForLabel = (label) =>
+  CONTENT_LANGUAGES.find((l) => l.label === label)?.code || 'en';
+
+export const initContentLanguage = async () => {
+  const settings = await getSettings();
+  currentLanguage = codeForLabel(settings.language);
+  return currentLanguage;
+};
+
+export const getContentLanguage = () => currentLanguage;
+
+export const setContentLanguage = async (label) => {
+  currentLanguage = codeForLabel(label);
+  await updateSettings({ language: label });
+  return currentLanguage;
+};
+
+// Overlay a reviewed translation on rows read straight from Supabase.
+// Mirrors localize() in the admin API so both paths behave the same.
+export const localizeRecord = (row) => {
+  if (!row || currentLanguage === 'en') return row;
+
+  const translation = row.translations?.[currentLanguage];
+  if (!translation || translation.status !== 'reviewed') return row;
+
+  const { status, updatedAt, ...fields } = translation;
+  const overrides = {};
+  Object.entries(fields).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== '') {
+      overrides[key] = value;
+    }
+  });
+
+  return { ...row, ...overrides, language: currentLanguage };
+};
@@ -0,0 +1,196 @@
+// Study Time Tracker
+// Records study sessions from the timer and from reading, note taking and tests.
+// Sessions are logged on the device right away and queued for the server, which
+// attributes them to roadmap topics and adds them to roadmap progress.
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { logStudySession, getStudySessions } from './roadmapStorage';
+import { syncStudySessions } from '../services/studySessionApi';
+import { getAuthHeaders } from '../services/billingService';
+
+const QUEUE_KEY = '@upsc_study_session_queue';
+
+export const STUDY_SOURCES = {
+  timer: { label: 'Timer', icon: 'stopwatch', color: '#6366F1' },
+  pomodoro: { label: 'Pomodoro', icon: 'timer', color: '#EF4444' },
+  article: { label: 'Reading', icon: 'newspaper', color: '#10B981' },
+  note: { label: 'Notes', icon: 'create', color: '#F59E0B' },
+  mcq: { label: 'MCQs', icon: 'help-circle', color: '#8B5CF6' },
+};
+
+// The server ignores anything shorter
+export const MIN_SESSION_SECONDS = 60;
+
+const SYNC_BATCH = 100;
+
+const generateClientId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}${Math.random().toString(36).slice(2, 10)}`;
+
+const getQueue = async () => {
+  try {
+    const data = await AsyncStorage.getItem(QUEUE_KEY);
+    return data ? JSON.parse(data) : [];
+  } catch (error) {
+    console.error('[StudyTracker] Error reading queue:', error);
+    return [];
+  }
+};
+
+/**
+ * Record a finished study session.
+ * @param {Object} session
+ * @param {'timer'|'pomodoro'|'article'|'note'|'mcq'} session.source
+ * @param {number} session.durationSeconds
+ * @param {Date|string} session.startedAt
+ * @param {string} [session.topicId] - Roadmap topic id, when the user picked one
+ * @param {string} [session.topicName]
+ * @param {string[]} [session.topicHints] - Subject/tags the server matches to a topic
+ * @param {string|number} [session.sourceId] - Article / note id
+ * @param {string} [session.title]
+ */
+export const trackStudySession = async ({
+  source,
+  durationSeconds,
+  startedAt,
+  topicId = null,
+  topicName = null,
+  topicHints = [],
+  sourceId = null,
+  title = null,
+}) => {
+  const seconds = Math.round(durationSeconds);
+  if (seconds < MIN_SESSION_SECONDS) return false;
+
+  try {
+    // Local log keeps guests' roadmap hours and stats working offline
+    await logStudySession({
+      topicId,
+      topicName: topicName || title,
+      duration: seconds / 60,
+      type: 'study',
+      source,
+    });
+
+    const queue = await getQueue();
+    queue.push({
+      clientId: generateClientId(),
+      source,
+      sourceId: sourceId != null ? String(sourceId) : null,
+      title,
+      topicId,
+      topicHints: topicHints.filter(Boolean),
+      startedAt: new Date(startedAt).toISOString(),
+      durationSeconds: seconds,
+    });
+    await AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+
+    flushStudySessions();
+    return true;
+  } catch (error) {
+    console.error('[StudyTracker] Error tracking session:', error);
+    return false;
+  }
+};
+
+let flushing = null;
+
+/**
+ * Send queued sessions to the server. Without a signed-in account they stay
+ * queued and go up after sign-in.
+ */
+export const flushStudySessions = () => {
+  if (!flushing) {
+    flushing = flushQueue().finally(() => {
+      flushing = null;
+    });
+  }
+  return flushing;
+};
+
+const flushQueue = async () => {
+  const headers = await getAuthHeaders();
+  if (!headers.Authorization) return false;
+
+  let queue = await getQueue();
+  while (queue.length) {
+    const batch = queue.slice(0, SYNC_BATCH);
+    const result = await syncStudySessions(batch);
+    if (!result.success) return false;
+
+    // Re-read so sessions tracked during the request are kept
+    const sent = new Set(batch.map(s => s.clientId));
+    queue = (await getQueue()).filter(s => !sent.has(s.clientId));
+    await AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+  }
+  return true;
+};
+
+const dateKey = (date) => {
+  const d = new Date(date);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const mondayOf = (date) => {
+  const d = new Date(date);
+  d.setHours(0, 0, 0, 0);
+  d.setDate(d.getDate() - ((d.getDay() + 6) % 7));
+  return d;
+};
+
+/**
+ * Study time from the on-device log, in the same shape as the server summary.
+ * Used when signed out or offline.
+ */
+export const getLocalStudyTime = async (weeks = 8) => {
+  const firstWeek = mondayOf(new Date());
+  firstWeek.setDate(firstWeek.getDate() - (weeks - 1) * 7);
+
+  const sessions = (await getStudySessions(weeks * 7 + 7))
+    .filter(s => STUDY_SOURCES[s.source] && new Date(s.timestamp) >= firstWeek);
+
+  const emptySources = () => Object.fromEntries(Object.keys(STUDY_SOURCES).map(source => [source, 0]));
+  const weekly = Array.from({ length: weeks }, (_, i) => {
+    const start = new Date(firstWeek);
+    start.setDate(start.getDate() + i * 7);
+    return { weekStart: dateKey(start), minutes: 0, bySource: emptySources() };
+  });
+  const daily = Array.from({ length: 7 }, (_, i) => {
+    const day = new Date();
+    day.setDate(day.getDate() + i - 6);
+    return { date: dateKey(day), minutes: 0 };
+  });
+  const bySource = emptySources();
+  const byTopic = {};
+
+  sessions.forEach(session => {
+    const minutes = session.duration || 0;
+    const week = weekly.find(w => w.weekStart === dateKey(mondayOf(session.timestamp)));
+    if (week) {
+      week.minutes += minutes;
+      week.bySource[session.source] += minutes;
+    }
+    const day = daily.find(d => d.date === dateKey(session.timestamp));
+    if (day) day.minutes += minutes;
+    bySource[session.source] += minutes;
+    const topic = session.topicId ? session.topicName : 'Unassigned';
+    byTopic[topic] = (byTopic[topic] || 0) + minutes;
+  });
+
+  const round = (value) => Math.round(value);
+  return {
+    from: weekly[0].weekStart,
+    totalMinutes: round(sessions.reduce((total, s) => total + (s.duration || 0), 0)),
+    weekly: weekly.map(w => ({
+      ...w,
+      minutes: round(w.minutes),
+      bySource: Object.fromEntries(Object.entries(w.bySource).map(([k, v]) => [k, round(v)])),
+    })),
+    daily: daily.map(d => ({ ...d, minutes: round(d.minutes) })),
+    bySource: Object.fromEntries(Object.entries(bySource).map(([k, v]) => [k, round(v)])),
+    topics: Object.entries(byTopic)
+      .map(([name, minutes]) => ({ topicId: null, name, minutes: round(minutes) }))
+      .sort((a, b) => b.minutes - a.minutes)
+      .slice(0, 8),
+    recent: [],
+  };
+};
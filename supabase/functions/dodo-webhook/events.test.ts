@@ -0,0 +1,113 @@
+// deno test --allow-read events.test.ts
+
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { encode } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import { claimEvent, finishEvent } from "./events.ts";
+import { signWebhook, verifyWebhook } from "./signature.ts";
+
+const SECRET = `whsec_${encode("dodo-webhook-test-secret")}`;
+
+// In-memory webhook_events covering the queries claimEvent and finishEvent make
+function fakeSupabase() {
+    const events = new Map<string, any>();
+
+    const from = (_table: string) => {
+        let id = "";
+        let update: Record<string, unknown> | null = null;
+        let claimFilter: string | null = null;
+
+        // Mirrors the claim filter: received or failed, or processing since before the cutoff
+        const claimable = (row: any) => {
+            if (["received", "failed"].includes(row.status)) return true;
+            const staleBefore = claimFilter!.match(/received_at\.lt\.([^)]+)\)/)?.[1];
+            return row.status === "processing" && !!staleBefore && row.received_at < staleBefore;
+        };
+
+        const run = () => {
+            const row = events.get(id);
+            if (!update) return { data: row ? [row] : [], error: null };
+            const matches = row && (!claimFilter || claimable(row)) ? [row] : [];
+            matches.forEach(match => Object.assign(match, update));
+            return { data: matches.map(match => ({ id: match.id })), error: null };
+        };
+
+        const builder: any = {
+            upsert: (row: any) => {
+                if (!events.has(row.id)) {
+                    events.set(row.id, { status: "received", attempts: 0, received_at: new Date().toISOString(), ...row });
+                }
+                return Promise.resolve({ error: null });
+            },
+            update: (values: Record<string, unknown>) => {
+                update = values;
+                return builder;
+            },
+            select: () => builder,
+            eq: (_column: string, value: string) => {
+                id = value;
+                return builder;
+            },
+            or: (filter: string) => {
+                claimFilter = filter;
+                return builder;
+            },
+            single: () => Promise.resolve({ data: events.get(id) ?? null, error: null }),
+            then: (resolve: (result: unknown) => unknown) => Promise.resolve(run()).then(resolve),
+        };
+        return builder;
+    };
+
+    return { client: { from }, events };
+}
+
+async function deliver(id: string, body: string) {
+    const timestamp = Math.floor(Date.now() / 1000);
+    const headers = new Headers({
+        "webhook-id": id,
+        "webhook-timestamp": String(timestamp),
+        "webhook-signature": await signWebhook(SECRET, id, timestamp, body),
+    });
+    return verifyWebhook(SECRET, headers, body);
+}
+
+const payload = { type: "payment.succeeded", data: { payment_id: "pay_test_pack_001" } };
+
+Deno.test("a redelivered event id is not processed again", async () => {
+    const { client, events } = fakeSupabase();
+    const body = await Deno.readTextFile(new URL("./fixtures/payment.succeeded.json", import.meta.url));
+
+    const first = await deliver("evt_duplicate", body);
+    assertEquals(await claimEvent(client, first, payload), true);
+    await finishEvent(client, first, "processed");
+
+    const second = await deliver("evt_duplicate", body);
+    assertEquals(second, first);
+    assertEquals(await claimEvent(client, second, payload), false);
+    assertEquals(events.get("evt_duplicate").attempts, 1);
+});
+
+Deno.test("an event being processed is not claimed by a second delivery", async () => {
+    const { client } = fakeSupabase();
+
+    assertEquals(await claimEvent(client, "evt_concurrent", payload), true);
+    assertEquals(await claimEvent(client, "evt_concurrent", payload), false);
+});
+
+Deno.test("a failed event can be claimed again", async () => {
+    const { client, events } = fakeSupabase();
+
+    await claimEvent(client, "evt_failed", payload);
+    await finishEvent(client, "evt_failed", "failed", "Failed to load pricing config");
+
+    assertEquals(await claimEvent(client, "evt_failed", payload), true);
+    assertEquals(events.get("evt_failed").attempts, 2);
+});
+
+Deno.test("an event stuck in processing is reclaimed after a while", async () => {
+    const { client, events } = fakeSupabase();
+
+    await claimEvent(client, "evt_stuck", payload);
+    events.get("evt_stuck").received_at = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+
+    assertEquals(await claimEvent(client, "evt_stuck", payload), true);
+});
@@ -0,0 +1,53 @@
+// webhook_events bookkeeping: each delivery is recorded by its webhook-id and
+// claimed before processing, so retries and replays run it at most once.
+
+const STALE_PROCESSING_MS = 10 * 60 * 1000;
+
+// Insert the event (first delivery) and claim it for processing. Returns false when
+// it was already processed, or another delivery of it is being processed right now.
+export async function claimEvent(supabase: any, eventId: string, payload: any): Promise<boolean> {
+    const { error: insertError } = await supabase
+        .from("webhook_events")
+        .upsert({
+            id: eventId,
+            source: 'dodo',
+            event_type: payload.type || 'unknown',
+            payload,
+        }, { onConflict: 'id', ignoreDuplicates: true });
+
+    if (insertError) {
+        throw new Error(`Failed to record webhook event: ${insertError.message}`);
+    }
+
+    const { data: existing } = await supabase
+        .from("webhook_events")
+        .select("attempts")
+        .eq("id", eventId)
+        .single();
+
+    // A delivery that died mid-processing (e.g. function timeout) can be retried after a while
+    const staleBefore = new Date(Date.now() - STALE_PROCESSING_MS).toISOString();
+
+    const { data: claimed, error } = await supabase
+        .from("webhook_events")
+        .update({ status: 'processing', attempts: (existing?.attempts || 0) + 1 })
+        .eq("id", eventId)
+        .or(`status.in.(received,failed),and(status.eq.processing,received_at.lt.${staleBefore})`)
+        .select("id");
+
+    if (error) {
+        throw new Error(`Failed to claim webhook event: ${error.message}`);
+    }
+    return claimed.length > 0;
+}
+
+export async function finishEvent(supabase: any, eventId: string, status: 'processed' | 'ignored' | 'failed', lastError: string | null = null) {
+    await supabase
+        .from("webhook_events")
+        .update({
+            status,
+            last_error: lastError,
+            processed_at: status === 'failed' ? null : new Date().toISOString(),
+        })
+        .eq("id", eventId);
+}
@@ -1,150 +1,269 @@
 // DodoPayments Webhook Handler for Supabase Edge Functions
 // This handles payment events and updates user credits in the database
+//
+// Every delivery is signature-checked, recorded in webhook_events by its webhook-id
+// and processed at most once. Credits move through post_credit_entry, which writes
+// the double-entry credit_ledger. See README.md for local testing and replays.
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { verifyWebhook, WebhookVerificationError } from "./signature.ts";
+import { claimEvent, finishEvent } from "./events.ts";
 
 const corsHeaders = {
     "Access-Control-Allow-Origin": "*",
-    "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-webhook-signature",
+    "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, webhook-id, webhook-timestamp, webhook-signature",
 };
 
-// Credit amounts for each plan
-const PLAN_CREDITS = {
-    basic: 200,
-    pro: 400,
-};
+const json = (body: Record<string, unknown>, status: number) =>
+    new Response(JSON.stringify(body), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status,
+    });
 
-// LIVE Credit amounts for packages
-const PACKAGE_CREDITS: Record<string, number> = {
-    'pdt_0NWfLXQfz6P34vDNgGT6J': 50,    // 50 credits pack (LIVE)
-    'pdt_0NWfLZHVYcwnA37B60iio': 120,   // 120 credits pack (LIVE)
-    'pdt_0NWfLbT49dqQm9bNqVVjS': 300,   // 300 credits pack (LIVE)
-    'pdt_0NWfNy0Q3SrufzdKZlE2G': 750,   // 750 credits pack (LIVE)
-    'pdt_0NWfO0TYn9murkxJ3FWbC': 1200,  // 1200 credits pack (LIVE)
-    'pdt_0NWfO2IA7c8uoxbXKPkFP': 1999,  // 1999 credits pack (LIVE)
+// Plans and credit packs live in the pricing_config table (edited from the admin
+// Pricing page), keyed by DodoPayments product ID. Inactive rows are still
+// loaded so purchases of a retired product are credited correctly.
+type PricingEntry = {
+    kind: 'feature' | 'plan' | 'credit_pack';
+    key: string;
+    name: string;
+    credits: number;
+    price_inr: number | null;
+    dodo_product_id: string | null;
 };
 
-// LIVE Product to plan type mapping
-const PRODUCT_PLANS: Record<string, 'basic' | 'pro'> = {
-    'pdt_0NWfLOSWmnFywSwZldAHa': 'basic',  // Basic Plan (LIVE)
-    'pdt_0NWfLU5OfjnVhmPz86wWZ': 'pro',    // Pro Plan (LIVE)
+async function loadPricing(supabase: any): Promise<PricingEntry[]> {
+    const { data, error } = await supabase
+        .from("pricing_config")
+        .select("kind, key, name, credits, price_inr, dodo_product_id")
+        .in("kind", ["plan", "credit_pack"]);
+
+    if (error) {
+        // Without pricing we cannot know how many credits to grant, so fail and let Dodo retry
+        throw new Error(`Failed to load pricing config: ${error.message}`);
+    }
+    return data || [];
+}
+
+const findProduct = (pricing: PricingEntry[], productId: string | undefined) =>
+    pricing.find(p => p.dodo_product_id === productId);
+
+const findPlan = (pricing: PricingEntry[], planType: string) =>
+    pricing.find(p => p.kind === 'plan' && p.key === planType);
+
+// Subscription events carry product_id; one-time payments list products in product_cart
+const getProductId = (data: any): string | undefined =>
+    data.product_id || data.product_cart?.[0]?.product_id;
+
+const getCustomerEmail = (data: any): string | undefined =>
+    data.customer?.email || data.customer_email;
+
+const AUTH_USERS_PAGE_SIZE = 1000;
+
+// The Supabase user a payment belongs to: the id the app put in the checkout (or
+// customer) metadata, otherwise the auth user with the customer's email
+async function findUserId(supabase: any, data: any): Promise<string | null> {
+    const metadataUserId = data.metadata?.supabase_user_id || data.customer?.metadata?.supabase_user_id;
+    if (metadataUserId) return metadataUserId;
+
+    const email = getCustomerEmail(data)?.toLowerCase();
+    if (!email) return null;
+
+    // The admin API has no lookup by email, so page through the users
+    for (let page = 1; ; page++) {
+        const { data: result, error } = await supabase.auth.admin.listUsers({ page, perPage: AUTH_USERS_PAGE_SIZE });
+        if (error) {
+            throw new Error(`Failed to look up user: ${error.message}`);
+        }
+
+        const user = result.users.find((u: any) => u.email?.toLowerCase() === email);
+        if (user) return user.id;
+        if (result.users.length < AUTH_USERS_PAGE_SIZE) return null;
+    }
+}
+
+// Credits can only go to a real account. Throwing parks the event as failed, so
+// it is retried by Dodo or replayed once the account exists.
+async function requireUserId(supabase: any, data: any): Promise<string> {
+    const userId = await findUserId(supabase, data);
+    if (!userId) {
+        throw new Error(`No Supabase user for customer ${getCustomerEmail(data) || data.customer_id || 'unknown'}`);
+    }
+    return userId;
+}
+
+type CreditEntry = {
+    userId: string;
+    credits: number;
+    transactionType: 'subscription_credit' | 'purchase';
+    counterAccount: string;
+    description: string;
+    paymentId?: string;
 };
 
+// Grant credits atomically with both ledger rows. A second call for the same event is a no-op.
+async function postCredits(supabase: any, eventId: string, entry: CreditEntry): Promise<number> {
+    const { data: balance, error } = await supabase.rpc("post_credit_entry", {
+        p_user_id: entry.userId,
+        p_credits: entry.credits,
+        p_transaction_type: entry.transactionType,
+        p_counter_account: entry.counterAccount,
+        p_description: entry.description,
+        p_dodo_payment_id: entry.paymentId || null,
+        p_webhook_event_id: eventId,
+    });
+
+    if (error) {
+        throw new Error(`Failed to post credits: ${error.message}`);
+    }
+    return balance;
+}
+
+// Whether the first payment of a subscription has already been credited. Dodo sends
+// both subscription.created and subscription.active for it, under different event
+// ids. Checked against the transactions rather than the subscription status, so an
+// event that failed after the status was set still grants on retry.
+async function subscriptionCreditsGranted(supabase: any, userId: string, paymentKey: string): Promise<boolean> {
+    const { data, error } = await supabase
+        .from("credit_transactions")
+        .select("id")
+        .eq("user_id", userId)
+        .eq("transaction_type", "subscription_credit")
+        .eq("dodo_payment_id", paymentKey)
+        .limit(1);
+
+    if (error) {
+        throw new Error(`Failed to check subscription credits: ${error.message}`);
+    }
+    return data.length > 0;
+}
+
 serve(async (req) => {
     // Handle CORS preflight
     if (req.method === "OPTIONS") {
         return new Response("ok", { headers: corsHeaders });
     }
 
+    const secret = Deno.env.get("DODO_WEBHOOK_SECRET");
+    if (!secret) {
+        console.error("[Webhook] DODO_WEBHOOK_SECRET is not set");
+        return json({ error: "Webhook secret not configured" }, 500);
+    }
+
+    // Verify against the raw body; re-serialised JSON would not match the signature
+    const body = await req.text();
+    let eventId: string;
     try {
-        // Get the webhook signature (optional verification)
-        const signature = req.headers.get("x-webhook-signature");
-
-        // Parse the webhook payload
-        const payload = await req.json();
-
-        console.log("[Webhook] Received event:", payload.type);
-        console.log("[Webhook] Data:", JSON.stringify(payload.data, null, 2));
-
-        // Create Supabase client
-        const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
-        const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-        const supabase = createClient(supabaseUrl, supabaseServiceKey);
-
-        // Handle different event types
-        switch (payload.type) {
-            case "subscription.active":
-            case "subscription.created":
-                await handleSubscriptionCreated(supabase, payload.data);
-                break;
-
-            case "subscription.renewed":
-                await handleSubscriptionRenewed(supabase, payload.data);
-                break;
-
-            case "subscription.cancelled":
-            case "subscription.expired":
-                await handleSubscriptionCancelled(supabase, payload.data);
-                break;
-
-            case "payment.succeeded":
-            case "payment.completed":
-                await handlePaymentCompleted(supabase, payload.data);
-                break;
-
-            case "payment.failed":
-                await handlePaymentFailed(supabase, payload.data);
-                break;
-
-            default:
-                console.log("[Webhook] Unhandled event type:", payload.type);
+        eventId = await verifyWebhook(secret, req.headers, body);
+    } catch (error) {
+        if (error instanceof WebhookVerificationError) {
+            console.warn("[Webhook] Rejected delivery:", error.message);
+            return json({ error: error.message }, 401);
         }
+        throw error;
+    }
+
+    // Create Supabase client
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-        return new Response(
-            JSON.stringify({ success: true, event: payload.type }),
-            {
-                headers: { ...corsHeaders, "Content-Type": "application/json" },
-                status: 200
-            }
-        );
+    let payload: any;
+    try {
+        payload = JSON.parse(body);
 
+        console.log(`[Webhook] Received event ${eventId}:`, payload.type);
+
+        if (!(await claimEvent(supabase, eventId, payload))) {
+            console.log(`[Webhook] Event ${eventId} already handled, skipping`);
+            return json({ success: true, event: payload.type, duplicate: true }, 200);
+        }
     } catch (error) {
         console.error("[Webhook] Error:", error);
-        return new Response(
-            JSON.stringify({ error: error.message }),
-            {
-                headers: { ...corsHeaders, "Content-Type": "application/json" },
-                status: 500
-            }
-        );
+        return json({ error: error.message }, 500);
     }
-});
 
-// Handle new subscription
-async function handleSubscriptionCreated(supabase: any, data: any) {
-    const { customer, product_id, subscription_id } = data;
-    const customerEmail = customer?.email || data.customer_email;
+    try {
+        const pricing = await loadPricing(supabase);
+        const handled = await processEvent(supabase, pricing, eventId, payload);
 
-    if (!customerEmail) {
-        console.error("[Webhook] No customer email in subscription event");
-        return;
+        await finishEvent(supabase, eventId, handled ? 'processed' : 'ignored');
+        return json({ success: true, event: payload.type }, 200);
+
+    } catch (error) {
+        console.error(`[Webhook] Error processing ${eventId}:`, error);
+        // Dodo retries non-2xx deliveries; failed events can also be replayed (see replay.ts)
+        await finishEvent(supabase, eventId, 'failed', error.message);
+        return json({ error: error.message }, 500);
     }
+});
 
-    // Find user by email
-    const { data: users, error: userError } = await supabase
-        .from("auth.users")
-        .select("id")
-        .eq("email", customerEmail)
-        .single();
+// Returns false for event types we do not act on
+async function processEvent(supabase: any, pricing: PricingEntry[], eventId: string, payload: any): Promise<boolean> {
+    switch (payload.type) {
+        case "subscription.active":
+        case "subscription.created":
+            await handleSubscriptionCreated(supabase, pricing, eventId, payload.data);
+            return true;
+
+        case "subscription.renewed":
+            await handleSubscriptionRenewed(supabase, pricing, eventId, payload.data);
+            return true;
+
+        case "subscription.cancelled":
+        case "subscription.expired":
+            await handleSubscriptionCancelled(supabase, payload.data);
+            return true;
+
+        case "payment.succeeded":
+        case "payment.completed":
+            await handlePaymentCompleted(supabase, pricing, eventId, payload.data);
+            return true;
+
+        case "payment.failed":
+            await handlePaymentFailed(supabase, pricing, payload.data);
+            return true;
+
+        default:
+            console.log("[Webhook] Unhandled event type:", payload.type);
+            return false;
+    }
+}
 
-    // If can't find in auth.users, try profiles or other user table
-    let userId = users?.id;
+// Handle new subscription
+async function handleSubscriptionCreated(supabase: any, pricing: PricingEntry[], eventId: string, data: any) {
+    const { subscription_id } = data;
+    const product_id = getProductId(data);
+    const customerEmail = getCustomerEmail(data);
 
-    if (!userId) {
-        // Try to find user by email in a profiles table or create mapping
-        console.log("[Webhook] User not found by email, using customer ID as reference");
-        userId = data.customer_id || customerEmail;
+    // Determine plan type
+    const plan = findProduct(pricing, product_id);
+    if (!plan || plan.kind !== 'plan') {
+        console.error("[Webhook] Subscription for unknown plan product:", product_id);
+        return;
     }
+    const planType = plan.key;
+    const monthlyCredits = plan.credits;
 
-    // Determine plan type
-    const planType = PRODUCT_PLANS[product_id] || 'basic';
-    const monthlyCredits = PLAN_CREDITS[planType];
+    const userId = await requireUserId(supabase, data);
+
+    // Events without a payment id are keyed by the subscription instead
+    const paymentKey = data.payment_id || subscription_id;
 
     // Calculate expiry (30 days from now)
     const expiresAt = new Date();
     expiresAt.setDate(expiresAt.getDate() + 30);
 
-    // Create or update subscription
+    // Create or update subscription (credits are added below, on top of any purchased balance)
     const { error: subError } = await supabase
         .from("user_subscriptions")
         .upsert({
             user_id: userId,
             plan_type: planType,
             status: 'active',
-            price_inr: planType === 'pro' ? 699 : 399,
+            price_inr: plan.price_inr ?? 0,
             monthly_credits: monthlyCredits,
-            current_credits: monthlyCredits,
             dodo_subscription_id: subscription_id,
             dodo_customer_id: data.customer_id,
             started_at: new Date().toISOString(),
@@ -155,25 +274,28 @@ async function handleSubscriptionCreated(supabase: any, data: any) {
         });
 
     if (subError) {
-        console.error("[Webhook] Error creating subscription:", subError);
+        throw new Error(`Error creating subscription: ${subError.message}`);
+    }
+
+    if (await subscriptionCreditsGranted(supabase, userId, paymentKey)) {
+        console.log(`[Webhook] Subscription ${subscription_id} already credited for ${paymentKey}`);
         return;
     }
 
-    // Log transaction
-    await supabase.from("credit_transactions").insert({
-        user_id: userId,
-        transaction_type: 'subscription_credit',
+    await postCredits(supabase, eventId, {
+        userId,
         credits: monthlyCredits,
-        balance_after: monthlyCredits,
-        description: `${planType === 'pro' ? 'Pro' : 'Basic'} Plan - ${monthlyCredits} credits`,
-        dodo_payment_id: data.payment_id,
+        transactionType: 'subscription_credit',
+        counterAccount: 'subscription',
+        description: `${plan.name} - ${monthlyCredits} credits`,
+        paymentId: paymentKey,
     });
 
     // Log payment history
     await supabase.from("payment_history").insert({
         user_id: userId,
         payment_type: 'subscription',
-        amount_inr: planType === 'pro' ? 699 : 399,
+        amount_inr: plan.price_inr ?? 0,
         status: 'completed',
         dodo_payment_id: data.payment_id,
         plan_type: planType,
@@ -184,8 +306,8 @@ async function handleSubscriptionCreated(supabase: any, data: any) {
 }
 
 // Handle subscription renewal
-async function handleSubscriptionRenewed(supabase: any, data: any) {
-    const { subscription_id, product_id } = data;
+async function handleSubscriptionRenewed(supabase: any, pricing: PricingEntry[], eventId: string, data: any) {
+    const { subscription_id } = data;
 
     // Find subscription
     const { data: subscription, error } = await supabase
@@ -195,38 +317,33 @@ async function handleSubscriptionRenewed(supabase: any, data: any) {
         .single();
 
     if (error || !subscription) {
-        console.error("[Webhook] Subscription not found for renewal:", subscription_id);
-        return;
+        // The subscription row may not exist yet if events arrive out of order, so retry later
+        throw new Error(`Subscription not found for renewal: ${subscription_id}`);
     }
 
     const planType = subscription.plan_type;
-    const monthlyCredits = PLAN_CREDITS[planType as keyof typeof PLAN_CREDITS] || 200;
+    const monthlyCredits = findPlan(pricing, planType)?.credits ?? subscription.monthly_credits ?? 0;
 
     // Calculate new expiry
     const expiresAt = new Date();
     expiresAt.setDate(expiresAt.getDate() + 30);
 
-    // Add monthly credits
-    const newCredits = subscription.current_credits + monthlyCredits;
-
-    // Update subscription
     await supabase
         .from("user_subscriptions")
         .update({
-            current_credits: newCredits,
             expires_at: expiresAt.toISOString(),
             updated_at: new Date().toISOString(),
         })
         .eq("id", subscription.id);
 
-    // Log transaction
-    await supabase.from("credit_transactions").insert({
-        user_id: subscription.user_id,
-        transaction_type: 'subscription_credit',
+    // Add monthly credits
+    await postCredits(supabase, eventId, {
+        userId: subscription.user_id,
         credits: monthlyCredits,
-        balance_after: newCredits,
+        transactionType: 'subscription_credit',
+        counterAccount: 'subscription',
         description: `Subscription Renewal - ${monthlyCredits} credits`,
-        dodo_payment_id: data.payment_id,
+        paymentId: data.payment_id,
     });
 
     console.log(`[Webhook] Subscription renewed: ${monthlyCredits} credits added`);
@@ -249,70 +366,39 @@ async function handleSubscriptionCancelled(supabase: any, data: any) {
 }
 
 // Handle one-time payment (credit purchase)
-async function handlePaymentCompleted(supabase: any, data: any) {
-    const { customer, product_id, payment_id } = data;
-    const customerEmail = customer?.email || data.customer_email;
+async function handlePaymentCompleted(supabase: any, pricing: PricingEntry[], eventId: string, data: any) {
+    const { payment_id } = data;
+    const product_id = getProductId(data);
+    const customerEmail = getCustomerEmail(data);
 
     // Check if this is a credit package purchase
-    const creditsAmount = PACKAGE_CREDITS[product_id];
+    const pack = findProduct(pricing, product_id);
 
-    if (!creditsAmount) {
+    if (!pack || pack.kind !== 'credit_pack') {
         // Not a credit package, might be a subscription payment (handled separately)
         console.log("[Webhook] Payment completed for non-credit product:", product_id);
         return;
     }
 
-    // Find user
-    let userId = data.customer_id || customerEmail;
-
-    // Get or create subscription record
-    const { data: existingSub } = await supabase
-        .from("user_subscriptions")
-        .select("*")
-        .eq("user_id", userId)
-        .single();
+    const creditsAmount = pack.credits;
 
-    const currentCredits = existingSub?.current_credits || 0;
-    const newBalance = currentCredits + creditsAmount;
-
-    if (existingSub) {
-        // Update existing subscription
-        await supabase
-            .from("user_subscriptions")
-            .update({
-                current_credits: newBalance,
-                updated_at: new Date().toISOString(),
-            })
-            .eq("id", existingSub.id);
-    } else {
-        // Create new subscription record (free tier with purchased credits)
-        await supabase
-            .from("user_subscriptions")
-            .insert({
-                user_id: userId,
-                plan_type: 'free',
-                status: 'active',
-                current_credits: creditsAmount,
-                dodo_customer_id: data.customer_id,
-            });
-    }
+    const userId = await requireUserId(supabase, data);
 
-    // Log transaction
-    await supabase.from("credit_transactions").insert({
-        user_id: userId,
-        transaction_type: 'purchase',
+    // Adds to the existing balance, or starts a free-tier wallet with the purchased credits
+    await postCredits(supabase, eventId, {
+        userId,
         credits: creditsAmount,
-        balance_after: newBalance,
+        transactionType: 'purchase',
+        counterAccount: 'purchase',
         description: `Purchased ${creditsAmount} credits`,
-        dodo_payment_id: payment_id,
+        paymentId: payment_id,
     });
 
     // Log payment history
-    const priceMap: Record<number, number> = { 50: 99, 120: 199, 300: 399 };
     await supabase.from("payment_history").insert({
         user_id: userId,
         payment_type: 'credits',
-        amount_inr: priceMap[creditsAmount] || 0,
+        amount_inr: pack.price_inr ?? 0,
         status: 'completed',
         dodo_payment_id: payment_id,
         credits_purchased: creditsAmount,
@@ -323,14 +409,21 @@ async function handlePaymentCompleted(supabase: any, data: any) {
 }
 
 // Handle failed payment
-async function handlePaymentFailed(supabase: any, data: any) {
-    const { customer, payment_id, product_id } = data;
-    const customerEmail = customer?.email || data.customer_email;
+async function handlePaymentFailed(supabase: any, pricing: PricingEntry[], data: any) {
+    const { payment_id } = data;
+    const customerEmail = getCustomerEmail(data);
+
+    // Nothing was charged, so a payer without an account is only logged here
+    const userId = await findUserId(supabase, data);
+    if (!userId) {
+        console.log(`[Webhook] Payment failed for unknown customer ${customerEmail}: ${data.failure_reason}`);
+        return;
+    }
 
     // Log failed payment
     await supabase.from("payment_history").insert({
-        user_id: data.customer_id || customerEmail,
-        payment_type: PRODUCT_PLANS[product_id] ? 'subscription' : 'credits',
+        user_id: userId,
+        payment_type: findProduct(pricing, getProductId(data))?.kind === 'plan' ? 'subscription' : 'credits',
         amount_inr: 0,
         status: 'failed',
         dodo_payment_id: payment_id,
@@ -0,0 +1,117 @@
+// Send signed deliveries to the webhook, for local testing and reprocessing failures.
+//
+//   # Post a recorded payload (pass the same --id twice to check idempotency)
+//   deno run --allow-net --allow-env --allow-read replay.ts fixture fixtures/payment.succeeded.json [--id evt_1]
+//
+//   # Reprocess failed events from webhook_events (or a single event by its webhook-id)
+//   deno run --allow-net --allow-env replay.ts failed [--limit 20]
+//   deno run --allow-net --allow-env replay.ts event <webhook-id>
+//
+// Env: DODO_WEBHOOK_SECRET, WEBHOOK_URL (defaults to the local `supabase functions serve` URL),
+// plus SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY for `failed` and `event`.
+
+import { parse } from "https://deno.land/std@0.168.0/flags/mod.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { signWebhook } from "./signature.ts";
+
+const DEFAULT_URL = "http://localhost:54321/functions/v1/dodo-webhook";
+
+function requireEnv(name: string): string {
+    const value = Deno.env.get(name);
+    if (!value) {
+        console.error(`${name} is not set`);
+        Deno.exit(1);
+    }
+    return value;
+}
+
+// Replays reuse the original webhook-id, so the function picks up the stored event
+// instead of recording a new one. The timestamp is fresh to pass the tolerance check.
+async function deliver(id: string, body: string): Promise<boolean> {
+    const secret = requireEnv("DODO_WEBHOOK_SECRET");
+    const url = Deno.env.get("WEBHOOK_URL") || DEFAULT_URL;
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    const response = await fetch(url, {
+        method: "POST",
+        headers: {
+            "Content-Type": "application/json",
+            "webhook-id": id,
+            "webhook-timestamp": String(timestamp),
+            "webhook-signature": await signWebhook(secret, id, timestamp, body),
+        },
+        body,
+    });
+
+    console.log(`[Replay] ${id}: ${response.status} ${await response.text()}`);
+    return response.ok;
+}
+
+function serviceClient() {
+    return createClient(requireEnv("SUPABASE_URL"), requireEnv("SUPABASE_SERVICE_ROLE_KEY"));
+}
+
+async function replayFixture(path: string, id?: string) {
+    const body = await Deno.readTextFile(path);
+    const name = path.split("/").pop()!.replace(/\.json$/, "");
+    return deliver(id || `fixture_${name}_${Date.now()}`, body);
+}
+
+async function replayEvents(query: (client: any) => Promise<{ data: any[] | null; error: any }>) {
+    const { data: events, error } = await query(serviceClient());
+    if (error) {
+        console.error("[Replay] Failed to load events:", error.message);
+        return false;
+    }
+    if (!events?.length) {
+        console.log("[Replay] Nothing to replay");
+        return true;
+    }
+
+    let ok = true;
+    for (const event of events) {
+        console.log(`[Replay] ${event.id} (${event.event_type}, ${event.attempts} attempts): ${event.last_error || 'no error recorded'}`);
+        ok = (await deliver(event.id, JSON.stringify(event.payload))) && ok;
+    }
+    return ok;
+}
+
+const args = parse(Deno.args, { string: ["id", "limit"] });
+const [command, target] = args._.map(String);
+
+let ok: boolean;
+switch (command) {
+    case "fixture":
+        if (!target) {
+            console.error("Usage: replay.ts fixture <file.json> [--id <webhook-id>]");
+            Deno.exit(1);
+        }
+        ok = await replayFixture(target, args.id);
+        break;
+
+    case "failed":
+        ok = await replayEvents(client => client
+            .from("webhook_events")
+            .select("id, event_type, payload, attempts, last_error")
+            .eq("status", "failed")
+            .order("received_at")
+            .limit(parseInt(args.limit || "20", 10)));
+        break;
+
+    case "event":
+        if (!target) {
+            console.error("Usage: replay.ts event <webhook-id>");
+            Deno.exit(1);
+        }
+        ok = await replayEvents(client => client
+            .from("webhook_events")
+            .select("id, event_type, payload, attempts, last_error")
+            .eq("id", target));
+        break;
+
+    default:
+        console.error("Usage: replay.ts <fixture|failed|event> ...");
+        Deno.exit(1);
+}
+
+Deno.exit(ok ? 0 : 1);
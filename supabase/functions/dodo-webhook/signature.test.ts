@@ -0,0 +1,81 @@
+// deno test --allow-read signature.test.ts
+
+import { assertEquals, assertRejects } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { encode } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import { signWebhook, verifyWebhook, WebhookVerificationError } from "./signature.ts";
+
+const SECRET = `whsec_${encode("dodo-webhook-test-secret")}`;
+const OTHER_SECRET = `whsec_${encode("some-other-secret")}`;
+
+const FIXTURES = [
+    "payment.failed",
+    "payment.succeeded",
+    "subscription.active",
+    "subscription.cancelled",
+    "subscription.renewed",
+];
+
+const readFixture = (name: string) => Deno.readTextFile(new URL(`./fixtures/${name}.json`, import.meta.url));
+
+const now = () => Math.floor(Date.now() / 1000);
+
+async function signedHeaders(id: string, body: string, options: { secret?: string; timestamp?: number } = {}) {
+    const timestamp = options.timestamp ?? now();
+    return new Headers({
+        "webhook-id": id,
+        "webhook-timestamp": String(timestamp),
+        "webhook-signature": await signWebhook(options.secret ?? SECRET, id, timestamp, body),
+    });
+}
+
+for (const name of FIXTURES) {
+    Deno.test(`accepts a signed ${name} delivery`, async () => {
+        const body = await readFixture(name);
+        const id = `evt_${name}`;
+
+        assertEquals(await verifyWebhook(SECRET, await signedHeaders(id, body), body), id);
+    });
+}
+
+Deno.test("rejects a tampered body", async () => {
+    const body = await readFixture("payment.succeeded");
+    const headers = await signedHeaders("evt_tampered", body);
+    const tampered = body.replace("pdt_0NWfLZHVYcwnA37B60iio", "pdt_0NWfO2IA7c8uoxbXKPkFP");
+
+    await assertRejects(() => verifyWebhook(SECRET, headers, tampered), WebhookVerificationError, "Invalid webhook signature");
+});
+
+Deno.test("rejects a stale timestamp", async () => {
+    const body = await readFixture("payment.succeeded");
+    const headers = await signedHeaders("evt_stale", body, { timestamp: now() - 10 * 60 });
+
+    await assertRejects(() => verifyWebhook(SECRET, headers, body), WebhookVerificationError, "outside tolerance");
+});
+
+Deno.test("rejects a delivery signed with another secret", async () => {
+    const body = await readFixture("payment.succeeded");
+    const headers = await signedHeaders("evt_wrong_secret", body, { secret: OTHER_SECRET });
+
+    await assertRejects(() => verifyWebhook(SECRET, headers, body), WebhookVerificationError, "Invalid webhook signature");
+});
+
+Deno.test("rejects a delivery without signature headers", async () => {
+    const body = await readFixture("payment.succeeded");
+
+    await assertRejects(() => verifyWebhook(SECRET, new Headers(), body), WebhookVerificationError, "Missing");
+});
+
+Deno.test("accepts any of several signatures during secret rotation", async () => {
+    const body = await readFixture("subscription.renewed");
+    const timestamp = now();
+    const headers = new Headers({
+        "webhook-id": "evt_rotation",
+        "webhook-timestamp": String(timestamp),
+        "webhook-signature": [
+            await signWebhook(OTHER_SECRET, "evt_rotation", timestamp, body),
+            await signWebhook(SECRET, "evt_rotation", timestamp, body),
+        ].join(" "),
+    });
+
+    assertEquals(await verifyWebhook(SECRET, headers, body), "evt_rotation");
+});
@@ -0,0 +1,62 @@
+// Standard Webhooks signatures (https://www.standardwebhooks.com), as sent by DodoPayments.
+// The signed content is `${webhook-id}.${webhook-timestamp}.${raw body}`, HMAC-SHA256'd
+// with the base64 secret after its "whsec_" prefix.
+
+import { decode, encode } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+
+// Reject deliveries older (or newer) than this to stop captured requests being replayed
+const TOLERANCE_SECONDS = 5 * 60;
+
+export class WebhookVerificationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "WebhookVerificationError";
+    }
+}
+
+async function hmac(secret: string, content: string): Promise<string> {
+    const keyBytes = decode(secret.startsWith("whsec_") ? secret.slice(6) : secret);
+    const key = await crypto.subtle.importKey("raw", keyBytes, { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+    const signature = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(content));
+    return encode(new Uint8Array(signature));
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+    if (a.length !== b.length) return false;
+    let diff = 0;
+    for (let i = 0; i < a.length; i++) {
+        diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+    }
+    return diff === 0;
+}
+
+// Header value for a delivery, e.g. "v1,K5oZfzN95Z9UVu1EsfQmfVNQhnkZ2pj9o9NDN/H/pI4="
+export async function signWebhook(secret: string, id: string, timestamp: number, body: string): Promise<string> {
+    return `v1,${await hmac(secret, `${id}.${timestamp}.${body}`)}`;
+}
+
+// Verify a delivery and return its webhook-id. Throws WebhookVerificationError if it fails.
+export async function verifyWebhook(secret: string, headers: Headers, body: string): Promise<string> {
+    const id = headers.get("webhook-id");
+    const timestamp = headers.get("webhook-timestamp");
+    const signatures = headers.get("webhook-signature");
+
+    if (!id || !timestamp || !signatures) {
+        throw new WebhookVerificationError("Missing webhook signature headers");
+    }
+
+    const sentAt = parseInt(timestamp, 10);
+    if (isNaN(sentAt) || Math.abs(Date.now() / 1000 - sentAt) > TOLERANCE_SECONDS) {
+        throw new WebhookVerificationError("Webhook timestamp outside tolerance");
+    }
+
+    const expected = await signWebhook(secret, id, sentAt, body);
+
+    // The header may carry several space-separated signatures during secret rotation
+    const valid = signatures.split(" ").some(signature => timingSafeEqual(signature, expected));
+    if (!valid) {
+        throw new WebhookVerificationError("Invalid webhook signature");
+    }
+
+    return id;
+}